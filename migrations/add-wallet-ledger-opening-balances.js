@@ -0,0 +1,116 @@
+const { MongoClient } = require('mongodb');
+require('dotenv').config();
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/forage-stores';
+
+// Wallet balance fields and the currency each one is held in
+const WALLET_ACCOUNTS = {
+  foodMoney: 'NGN',
+  foodPoints: 'NIBIA',
+  foodSafe: 'NGN',
+};
+
+/**
+ * Seed the wallet ledger with one opening balance transaction per wallet so
+ * balances derived from the ledger match the balances stored on wallets.
+ * Wallets that already have ledger entries are skipped.
+ */
+async function addWalletLedgerOpeningBalances() {
+  const client = new MongoClient(MONGODB_URI);
+
+  try {
+    await client.connect();
+    console.log('Connected to MongoDB');
+
+    const db = client.db();
+    const walletsCollection = db.collection('wallets');
+    const ledgerCollection = db.collection('walletledgerentries');
+
+    const wallets = await walletsCollection.find({}).toArray();
+    console.log(`Found ${wallets.length} wallets`);
+
+    let seededCount = 0;
+    let skippedCount = 0;
+
+    for (const wallet of wallets) {
+      const hasEntries = await ledgerCollection.findOne({ userId: wallet.userId });
+      if (hasEntries) {
+        skippedCount++;
+        continue;
+      }
+
+      const transactionId = `TXN_OPENING_${wallet._id.toString()}`;
+      const now = new Date();
+      const entries = [];
+
+      for (const [account, currency] of Object.entries(WALLET_ACCOUNTS)) {
+        const amount = Math.round((wallet[account] || 0) * 100) / 100;
+        if (amount <= 0) {
+          continue;
+        }
+
+        const common = {
+          transactionId,
+          transactionType: 'opening_balance',
+          amount,
+          currency,
+          description: 'Opening balance carried over from wallet',
+          createdAt: now,
+        };
+
+        entries.push({
+          ...common,
+          account,
+          userId: wallet.userId,
+          walletId: wallet._id,
+          direction: 'credit',
+          balanceAfter: amount,
+        });
+        entries.push({
+          ...common,
+          account: 'system:adjustment',
+          direction: 'debit',
+        });
+      }
+
+      if (entries.length > 0) {
+        await ledgerCollection.insertMany(entries);
+        seededCount++;
+      }
+    }
+
+    console.log(`\nMigration Summary:`);
+    console.log(`- Wallets seeded with opening balances: ${seededCount}`);
+    console.log(`- Wallets skipped (ledger already present): ${skippedCount}`);
+
+    // Create indexes for better performance
+    console.log('\nCreating indexes...');
+    await ledgerCollection.createIndex({ transactionId: 1 });
+    await ledgerCollection.createIndex({ userId: 1, account: 1, createdAt: -1 });
+    await ledgerCollection.createIndex({ referenceType: 1, referenceId: 1 });
+    console.log('Created wallet ledger indexes');
+
+    console.log('\n✅ Migration completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await client.close();
+  }
+}
+
+// Run the migration
+if (require.main === module) {
+  addWalletLedgerOpeningBalances()
+    .then(() => {
+      console.log('Migration script completed');
+      process.exit(0);
+    })
+    .catch(error => {
+      console.error('Migration script failed:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = { addWalletLedgerOpeningBalances };
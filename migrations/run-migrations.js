@@ -33,7 +33,9 @@ async function runMigrations() {
   const migrations = [
     'setup-profit-pool-collection.js',
     'add-nibia-withdrawal-to-wallets.js',
-    'add-referrer-id-to-users.js'
+    'add-referrer-id-to-users.js',
+    'add-wallet-ledger-opening-balances.js',
+    'unify-product-categories.js'
   ];
 
   log('YELLOW', '🚀 Running migrations...');
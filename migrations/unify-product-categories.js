@@ -0,0 +1,186 @@
+const { MongoClient } = require('mongodb');
+require('dotenv').config();
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/forage-stores';
+
+// Product departments, in the order their root categories are listed
+const DEPARTMENTS = [
+  'fruits',
+  'vegetables',
+  'grains',
+  'dairy',
+  'meat',
+  'beverages',
+  'snacks',
+  'spices',
+  'seafood',
+  'others',
+];
+
+function toSlug(name) {
+  return String(name)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function toTitle(department) {
+  return department.charAt(0).toUpperCase() + department.slice(1);
+}
+
+/**
+ * Move products onto the category tree. Seeds one root category per
+ * department, with the department as its slug so existing category URLs
+ * keep working, fills in slug, ancestors and department on categories
+ * created from the admin panel, and files every product without a
+ * category under the root of its department.
+ */
+async function unifyProductCategories() {
+  const client = new MongoClient(MONGODB_URI);
+
+  try {
+    await client.connect();
+    console.log('Connected to MongoDB');
+
+    const db = client.db();
+    const categoriesCollection = db.collection('categories');
+    const productsCollection = db.collection('products');
+    const now = new Date();
+
+    // 1. One root category per department
+    let seededCount = 0;
+    const roots = {};
+
+    for (const [index, department] of DEPARTMENTS.entries()) {
+      let root = await categoriesCollection.findOne({ slug: department });
+      if (!root) {
+        root = {
+          name: toTitle(department),
+          slug: department,
+          parentCategoryId: null,
+          ancestors: [],
+          department,
+          sortOrder: index,
+          isActive: true,
+          createdAt: now,
+          updatedAt: now,
+        };
+        const { insertedId } = await categoriesCollection.insertOne(root);
+        root._id = insertedId;
+        seededCount++;
+      }
+      roots[department] = root;
+    }
+
+    // 2. Categories created before the tree, which have no slug, ancestors
+    // or department
+    const categories = await categoriesCollection.find({}).toArray();
+    const byId = new Map(categories.map((category) => [category._id.toString(), category]));
+    const slugs = new Set(categories.map((category) => category.slug).filter(Boolean));
+    let backfilledCount = 0;
+
+    for (const category of categories) {
+      const ancestors = [];
+      const seen = new Set([category._id.toString()]);
+      let parentId = category.parentCategoryId;
+      while (parentId && byId.has(parentId.toString()) && !seen.has(parentId.toString())) {
+        const parent = byId.get(parentId.toString());
+        ancestors.unshift(parent._id);
+        seen.add(parent._id.toString());
+        parentId = parent.parentCategoryId;
+      }
+
+      const root = ancestors.length ? byId.get(ancestors[0].toString()) : category;
+      const department = DEPARTMENTS.includes(root.department) ? root.department : 'others';
+
+      let slug = category.slug;
+      if (!slug) {
+        slug = toSlug(category.name) || category._id.toString();
+        if (slugs.has(slug)) {
+          slug = `${slug}-${category._id.toString().slice(-6)}`;
+        }
+        slugs.add(slug);
+      }
+
+      const unchanged =
+        category.slug === slug &&
+        category.department === department &&
+        (category.ancestors || []).map(String).join(',') === ancestors.map(String).join(',');
+      if (unchanged) {
+        continue;
+      }
+
+      await categoriesCollection.updateOne(
+        { _id: category._id },
+        {
+          $set: {
+            slug,
+            department,
+            ancestors,
+            parentCategoryId: ancestors.length ? ancestors[ancestors.length - 1] : null,
+            sortOrder: category.sortOrder ?? 0,
+            isActive: category.isActive ?? true,
+            updatedAt: now,
+          },
+        },
+      );
+      backfilledCount++;
+    }
+
+    // 3. Products without a category go under the root of their department
+    let filedCount = 0;
+
+    for (const department of DEPARTMENTS) {
+      const root = roots[department];
+      const result = await productsCollection.updateMany(
+        {
+          categoryId: { $exists: false },
+          category: department === 'others' ? { $in: ['others', null] } : department,
+        },
+        { $set: { categoryId: root._id, categoryPath: [root._id], category: department } },
+      );
+      filedCount += result.modifiedCount;
+    }
+
+    const unfiled = await productsCollection.countDocuments({ categoryId: { $exists: false } });
+
+    console.log(`\nMigration Summary:`);
+    console.log(`- Root categories seeded: ${seededCount}`);
+    console.log(`- Existing categories backfilled: ${backfilledCount}`);
+    console.log(`- Products filed under their department: ${filedCount}`);
+    if (unfiled > 0) {
+      console.log(`- Products left without a category (unknown department): ${unfiled}`);
+    }
+
+    // Create indexes for better performance
+    console.log('\nCreating indexes...');
+    await categoriesCollection.createIndex({ slug: 1 }, { unique: true });
+    await categoriesCollection.createIndex({ parentCategoryId: 1, sortOrder: 1 });
+    await categoriesCollection.createIndex({ ancestors: 1 });
+    await productsCollection.createIndex({ categoryPath: 1 });
+    console.log('Created category indexes');
+
+    console.log('\n✅ Migration completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await client.close();
+  }
+}
+
+// Run the migration
+if (require.main === module) {
+  unifyProductCategories()
+    .then(() => {
+      console.log('Migration script completed');
+      process.exit(0);
+    })
+    .catch(error => {
+      console.error('Migration script failed:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = { unifyProductCategories };
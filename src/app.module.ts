@@ -19,6 +19,12 @@ import { SubscriptionsModule } from './modules/subscriptions/subscriptions.modul
 import { ReferralsModule } from './modules/referrals/referrals.module';
 import { AuctionsModule } from './modules/auctions/auctions.module';
 import { DeliveryModule } from './modules/delivery/delivery.module';
+import { DeliveryPricingModule } from './modules/delivery-pricing/delivery-pricing.module';
+import { DeliverySlotsModule } from './modules/delivery-slots/delivery-slots.module';
+import { SearchModule } from './modules/search/search.module';
+import { PromotionsModule } from './modules/promotions/promotions.module';
+import { SettlementsModule } from './modules/settlements/settlements.module';
+import { SellersModule } from './modules/sellers/sellers.module';
 import { AdminModule } from './modules/admin/admin.module';
 import { NotificationsModule } from './modules/notifications/notifications.module';
 import { SupportModule } from './modules/support/support.module';
@@ -29,6 +35,7 @@ import { SecurityModule } from './modules/security/security.module';
 import { ProfitPoolModule } from './modules/profit-pool/profit-pool.module';
 import { ScheduledJobsModule } from './modules/scheduled-jobs/scheduled-jobs.module';
 import { BundlesModule } from './modules/bundles/bundles.module';
+import { PaymentModule } from './modules/payments/payment.module';
 import { validate } from './config/env.validation';
 import { LoggingMiddleware } from './common/middleware';
 import { SecurityMiddleware } from './modules/security/middleware';
@@ -82,6 +89,12 @@ import { WebModule } from './modules/web/web.module';
     ReferralsModule,
     AuctionsModule,
     DeliveryModule,
+    DeliveryPricingModule,
+    DeliverySlotsModule,
+    SearchModule,
+    PromotionsModule,
+    SettlementsModule,
+    SellersModule,
     AdminModule,
     NotificationsModule,
     SupportModule,
@@ -93,6 +106,7 @@ import { WebModule } from './modules/web/web.module';
     ProfitPoolModule,
     ScheduledJobsModule,
     BundlesModule,
+    PaymentModule,
     WebModule,
   ],
   controllers: [AppController],
@@ -16,6 +16,7 @@ dotenv.config();
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
   const app = await NestFactory.create(AppModule, {
+    rawBody: true, // Needed to verify payment webhook signatures
     logger: ['error', 'warn', 'log', 'debug', 'verbose'], // Enable all log levels
   });
 
@@ -42,7 +43,8 @@ async function bootstrap() {
     ],
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'Accept'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'Idempotency-Key'],
+    exposedHeaders: ['Idempotent-Replayed'],
   });
 
   // Enhanced global validation pipe
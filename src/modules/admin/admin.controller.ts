@@ -8,13 +8,17 @@ import {
   Param, 
   Query, 
   UseGuards, 
+  UseInterceptors,
+  UploadedFile,
   BadRequestException
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { 
   ApiTags, 
   ApiOperation, 
   ApiResponse, 
-  ApiBearerAuth 
+  ApiBearerAuth,
+  ApiConsumes
 } from '@nestjs/swagger';
 import { AdminService } from './admin.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
@@ -22,12 +26,20 @@ import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { UserRole } from '../users/entities/user.entity';
+import { Idempotent } from '../idempotency/decorators/idempotent.decorator';
+import {
+  CreateCategoryDto,
+  UpdateCategoryDto,
+  ReorderCategoriesDto,
+  SchedulePriceChangeDto,
+  ScheduleSaleDto,
+  BulkPriceUpdateDto,
+  ScheduledPriceChangesQueryDto,
+} from '../products/dto';
+import { PRODUCT_CONSTANTS } from '../products/constants';
 import { 
   AdminWalletFundDto, 
   AdminWalletWipeDto, 
-  CreateCategoryDto, 
-  UpdateCategoryDto, 
-  PriceHistoryDto,
   AnalyticsFilterDto,
   GetGrowthUsersByCityDto,
   AdminWithdrawalDecisionDto,
@@ -91,6 +103,7 @@ export class AdminController {
   }
 
   @Post('wallets/fund')
+  @Idempotent()
   @ApiOperation({ summary: 'Fund a user wallet (admin only, requires password)' })
   @ApiResponse({ status: 201, description: 'Wallet successfully funded' })
   @ApiResponse({ status: 401, description: 'Unauthorized - Invalid admin password' })
@@ -148,6 +161,21 @@ export class AdminController {
     return this.adminService.getAllCategories();
   }
 
+  @Get('categories/tree')
+  @ApiOperation({ summary: 'Get the category tree, inactive categories included (admin only)' })
+  @ApiResponse({ status: 200, description: 'Return the category tree with product counts' })
+  async getCategoryTree() {
+    return this.adminService.getCategoryTree();
+  }
+
+  @Patch('categories/order')
+  @ApiOperation({ summary: 'Set the display order of categories (admin only)' })
+  @ApiResponse({ status: 200, description: 'Return the reordered category tree' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  async reorderCategories(@Body() reorderDto: ReorderCategoriesDto) {
+    return this.adminService.reorderCategories(reorderDto);
+  }
+
   @Get('categories/:categoryId')
   @ApiOperation({ summary: 'Get category by ID (admin only)' })
   @ApiResponse({ status: 200, description: 'Return category details' })
@@ -195,14 +223,68 @@ export class AdminController {
   }
 
   @Post('products/price-history')
-  @ApiOperation({ summary: 'Add price history and update product price (admin only)' })
-  @ApiResponse({ status: 201, description: 'Price history added and product updated' })
+  @ApiOperation({ summary: 'Change a product price now or at its effective date (admin only)' })
+  @ApiResponse({ status: 201, description: 'Price change applied or scheduled' })
   @ApiResponse({ status: 404, description: 'Product not found' })
+  @ApiResponse({ status: 409, description: 'A sale is running at the effective date' })
   async addPriceHistory(
-    @Body() priceHistoryDto: PriceHistoryDto,
+    @Body() scheduleDto: SchedulePriceChangeDto,
     @CurrentUser() user: any
   ) {
-    return this.adminService.addPriceHistory(priceHistoryDto, user.id);
+    return this.adminService.addPriceHistory(scheduleDto, user.id);
+  }
+
+  @Post('products/sales')
+  @ApiOperation({ summary: 'Put a product on sale until a set time (admin only)' })
+  @ApiResponse({ status: 201, description: 'Sale started or scheduled' })
+  @ApiResponse({ status: 400, description: 'Sale price not below the current price' })
+  @ApiResponse({ status: 409, description: 'Another sale or price change falls in the sale' })
+  async scheduleSale(
+    @Body() saleDto: ScheduleSaleDto,
+    @CurrentUser() user: any
+  ) {
+    return this.adminService.scheduleSale(saleDto, user.id);
+  }
+
+  @Post('products/prices/bulk')
+  @UseInterceptors(FileInterceptor('file', {
+    limits: {
+      fileSize: PRODUCT_CONSTANTS.MAX_PRICE_CSV_SIZE,
+    },
+    fileFilter: (req, file, cb) => {
+      if (file.mimetype === 'text/csv' || file.originalname.toLowerCase().endsWith('.csv')) {
+        cb(null, true);
+      } else {
+        cb(new BadRequestException('Invalid file type. Only CSV files are allowed'), false);
+      }
+    },
+  }))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Change prices of a category or seller from a CSV file (admin only)' })
+  @ApiResponse({ status: 201, description: 'Return the outcome of each row' })
+  @ApiResponse({ status: 400, description: 'Missing scope or invalid CSV file' })
+  async bulkUpdatePrices(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() bulkDto: BulkPriceUpdateDto,
+    @CurrentUser() user: any
+  ) {
+    return this.adminService.bulkUpdatePrices(file, bulkDto, user.id);
+  }
+
+  @Get('price-changes/scheduled')
+  @ApiOperation({ summary: 'Get price changes waiting for their effective date (admin only)' })
+  @ApiResponse({ status: 200, description: 'Return scheduled price changes' })
+  async getScheduledPriceChanges(@Query() query: ScheduledPriceChangesQueryDto) {
+    return this.adminService.getScheduledPriceChanges(query);
+  }
+
+  @Delete('price-changes/:changeId')
+  @ApiOperation({ summary: 'Cancel a scheduled price change, or end a running sale now (admin only)' })
+  @ApiResponse({ status: 200, description: 'Price change cancelled' })
+  @ApiResponse({ status: 400, description: 'Price change already applied' })
+  @ApiResponse({ status: 404, description: 'Price change not found' })
+  async cancelPriceChange(@Param('changeId') changeId: string) {
+    return this.adminService.cancelPriceChange(changeId);
   }
 
   /**
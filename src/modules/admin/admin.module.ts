@@ -14,6 +14,8 @@ import { WithdrawalRequest, WithdrawalRequestSchema } from '../wallets/entities/
 import { UsersModule } from '../users/users.module';
 import { AuthModule } from '../auth/auth.module';
 import { WalletsModule } from '../wallets/wallets.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { ProductsModule } from '../products/products.module';
 
 @Module({
   imports: [
@@ -26,23 +28,6 @@ import { WalletsModule } from '../wallets/wallets.module';
       { name: Product.name, schema: ProductSchema },
       { name: ProfitPool.name, schema: ProfitPoolSchema },
       { name: WithdrawalRequest.name, schema: WithdrawalRequestSchema },
-      { name: 'Category', schema: new Schema({
-        name: { type: String, required: true },
-        description: { type: String },
-        parentCategoryId: { type: Types.ObjectId, ref: 'Category' },
-        isActive: { type: Boolean, default: true },
-        createdAt: { type: Date, default: Date.now },
-        updatedAt: { type: Date, default: Date.now }
-      }) },
-      { name: 'PriceHistory', schema: new Schema({
-        productId: { type: Types.ObjectId, ref: 'Product', required: true },
-        oldPrice: { type: Number, required: true },
-        newPrice: { type: Number, required: true },
-        effectiveDate: { type: Date, required: true },
-        reason: { type: String },
-        adminId: { type: Types.ObjectId, ref: 'User', required: true },
-        createdAt: { type: Date, default: Date.now }
-      }) },
       { name: 'CommissionOverride', schema: new Schema({
         referralId: { type: Types.ObjectId, ref: 'Referral', required: true },
         userId: { type: Types.ObjectId, ref: 'User', required: true },
@@ -59,6 +44,8 @@ import { WalletsModule } from '../wallets/wallets.module';
     UsersModule,
     AuthModule,
     WalletsModule,
+    IdempotencyModule,
+    ProductsModule,
   ],
   controllers: [AdminController],
   providers: [AdminService],
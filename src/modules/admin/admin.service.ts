@@ -8,15 +8,30 @@ import { Order, OrderDocument } from '../orders/entities/order.entity';
 import { Subscription, SubscriptionDocument } from '../subscriptions/entities/subscription.entity';
 import { Referral, ReferralDocument } from '../referrals/entities/referral.entity';
 import { Product, ProductDocument } from '../products/entities/product.entity';
+import { CategoriesService } from '../products/services/categories.service';
+import { PriceScheduleService } from '../products/services/price-schedule.service';
+import {
+  CreateCategoryDto,
+  UpdateCategoryDto,
+  ReorderCategoriesDto,
+  SchedulePriceChangeDto,
+  ScheduleSaleDto,
+  BulkPriceUpdateDto,
+  ScheduledPriceChangesQueryDto,
+} from '../products/dto';
 import { ProfitPool, ProfitPoolDocument, ProfitPoolStatus } from '../profit-pool/entities/profit-pool.entity';
 import { WithdrawalRequest, WithdrawalRequestDocument } from '../wallets/entities/withdrawal-request.entity';
 import { WalletsService } from '../wallets/wallets.service';
+import { WalletLedgerService } from '../wallets/services/wallet-ledger.service';
+import { WalletType } from '../wallets/dto/update-balance.dto';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../wallets/entities/wallet-ledger-entry.entity';
 import { 
   AdminWalletFundDto, 
   AdminWalletWipeDto, 
-  CreateCategoryDto, 
-  UpdateCategoryDto, 
-  PriceHistoryDto,
   AnalyticsFilterDto,
   GetGrowthUsersByCityDto,
   AdminWithdrawalDecisionDto,
@@ -38,10 +53,11 @@ export class AdminService {
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
     @InjectModel(ProfitPool.name) private profitPoolModel: Model<ProfitPoolDocument>,
     @InjectModel(WithdrawalRequest.name) private withdrawalRequestModel: Model<WithdrawalRequestDocument>,
-    @InjectModel('Category') private categoryModel: Model<any>,
-    @InjectModel('PriceHistory') private priceHistoryModel: Model<any>,
     @InjectModel('CommissionOverride') private commissionOverrideModel: Model<any>,
     private walletsService: WalletsService,
+    private walletLedgerService: WalletLedgerService,
+    private categoriesService: CategoriesService,
+    private priceScheduleService: PriceScheduleService,
   ) {}
 
   /**
@@ -137,7 +153,35 @@ export class AdminService {
       wallet['transactionHistory'].push(transactionData);
     }
     
-    await wallet.save();
+    // The balance and its ledger entry commit or roll back together
+    const session = await this.walletModel.db.startSession();
+    session.startTransaction();
+
+    try {
+      await wallet.save({ session });
+
+      await this.walletLedgerService.recordWalletCredit(
+        wallet,
+        currencyType as WalletType,
+        amount,
+        wallet[currencyType],
+        reason || 'Admin wallet funding',
+        {
+          transactionType: LedgerTransactionType.FUNDING,
+          counterAccount: LedgerAccount.SYSTEM_FUNDING,
+          reference: { type: LedgerReferenceType.ADMIN, id: adminId },
+          createdBy: adminId,
+          session,
+        },
+      );
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
     
     return wallet;
   }
@@ -199,7 +243,38 @@ export class AdminService {
       wallet['transactionHistory'].push(transactionData);
     }
     
-    await wallet.save();
+    // The balances and their ledger entries commit or roll back together
+    const session = await this.walletModel.db.startSession();
+    session.startTransaction();
+
+    try {
+      await wallet.save({ session });
+
+      for (const walletType of [WalletType.FOOD_MONEY, WalletType.FOOD_POINTS]) {
+        if (wipeDetails[walletType] > 0) {
+          await this.walletLedgerService.recordWalletDebit(
+            wallet,
+            walletType,
+            wipeDetails[walletType],
+            0,
+            reason || 'Admin wallet wipe',
+            {
+              transactionType: LedgerTransactionType.ADMIN_ADJUSTMENT,
+              reference: { type: LedgerReferenceType.ADMIN, id: adminId },
+              createdBy: adminId,
+              session,
+            },
+          );
+        }
+      }
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
     
     return wallet;
   }
@@ -551,132 +626,62 @@ export class AdminService {
    * Category Management
    */
   async getAllCategories() {
-    return this.categoryModel.find().sort({ name: 1 }).exec();
+    return this.categoriesService.findAll();
+  }
+
+  async getCategoryTree() {
+    return this.categoriesService.getTree(true);
   }
 
   async getCategoryById(categoryId: string) {
-    const category = await this.categoryModel.findById(categoryId).exec();
-    if (!category) {
-      throw new NotFoundException(`Category with ID ${categoryId} not found`);
-    }
-    return category;
+    return this.categoriesService.findById(categoryId);
   }
 
   async createCategory(createDto: CreateCategoryDto) {
-    // Check if the parent category exists if provided
-    if (createDto.parentCategoryId) {
-      const parentExists = await this.categoryModel.findById(createDto.parentCategoryId);
-      if (!parentExists) {
-        throw new NotFoundException(`Parent category with ID ${createDto.parentCategoryId} not found`);
-      }
-    }
-    
-    const newCategory = new this.categoryModel({
-      ...createDto,
-      isActive: true,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    });
-    
-    return newCategory.save();
+    return this.categoriesService.create(createDto);
   }
 
   async updateCategory(categoryId: string, updateDto: UpdateCategoryDto) {
-    // Check if the category exists
-    const category = await this.categoryModel.findById(categoryId);
-    if (!category) {
-      throw new NotFoundException(`Category with ID ${categoryId} not found`);
-    }
-    
-    // Check if the parent category exists if provided
-    if (updateDto.parentCategoryId) {
-      const parentExists = await this.categoryModel.findById(updateDto.parentCategoryId);
-      if (!parentExists) {
-        throw new NotFoundException(`Parent category with ID ${updateDto.parentCategoryId} not found`);
-      }
-      
-      // Prevent circular reference
-      if (updateDto.parentCategoryId === categoryId) {
-        throw new BadRequestException('A category cannot be its own parent');
-      }
-    }
-    
-    return this.categoryModel.findByIdAndUpdate(
-      categoryId,
-      {
-        ...updateDto,
-        updatedAt: new Date()
-      },
-      { new: true }
-    );
+    return this.categoriesService.update(categoryId, updateDto);
+  }
+
+  async reorderCategories(reorderDto: ReorderCategoriesDto) {
+    return this.categoriesService.reorder(reorderDto);
   }
 
   async deleteCategory(categoryId: string) {
-    // Check if the category exists
-    const category = await this.categoryModel.findById(categoryId);
-    if (!category) {
-      throw new NotFoundException(`Category with ID ${categoryId} not found`);
-    }
-    
-    // Check if this category is used as a parent
-    const hasChildren = await this.categoryModel.findOne({ parentCategoryId: categoryId });
-    if (hasChildren) {
-      throw new BadRequestException('Cannot delete a category that has child categories');
-    }
-    
-    // Check if products are using this category
-    const productsWithCategory = await this.productModel.findOne({ categoryId });
-    if (productsWithCategory) {
-      throw new BadRequestException('Cannot delete a category that is being used by products');
-    }
-    
-    return this.categoryModel.findByIdAndDelete(categoryId);
+    return this.categoriesService.remove(categoryId);
   }
 
   /**
    * Price History Management
    */
   async getProductPriceHistory(productId: string) {
-    const product = await this.productModel.findById(productId);
-    if (!product) {
-      throw new NotFoundException(`Product with ID ${productId} not found`);
-    }
-    
-    return this.priceHistoryModel.find({ productId: new Types.ObjectId(productId) })
-      .sort({ effectiveDate: -1 })
-      .exec();
+    return this.priceScheduleService.getHistory(productId);
   }
 
-  async addPriceHistory(priceHistoryDto: PriceHistoryDto, adminId: string) {
-    const { productId, price, effectiveDate, reason } = priceHistoryDto;
-    
-    // Check if product exists
-    const product = await this.productModel.findById(productId);
-    if (!product) {
-      throw new NotFoundException(`Product with ID ${productId} not found`);
-    }
-    
-    // Create price history entry
-    const priceHistory = new this.priceHistoryModel({
-      productId: new Types.ObjectId(productId),
-      oldPrice: product.price,
-      newPrice: price,
-      effectiveDate,
-      reason,
-      adminId: new Types.ObjectId(adminId),
-      createdAt: new Date()
-    });
-    
-    // Update product price
-    await this.productModel.findByIdAndUpdate(
-      productId,
-      { 
-        price,
-        updatedAt: new Date()
-      }
-    );
-    
-    return priceHistory.save();
+  async addPriceHistory(scheduleDto: SchedulePriceChangeDto, adminId: string) {
+    return this.priceScheduleService.schedulePriceChange(scheduleDto, adminId);
+  }
+
+  async scheduleSale(saleDto: ScheduleSaleDto, adminId: string) {
+    return this.priceScheduleService.scheduleSale(saleDto, adminId);
+  }
+
+  async bulkUpdatePrices(
+    file: Express.Multer.File,
+    bulkDto: BulkPriceUpdateDto,
+    adminId: string,
+  ) {
+    return this.priceScheduleService.bulkUpdate(file, bulkDto, adminId);
+  }
+
+  async getScheduledPriceChanges(query: ScheduledPriceChangesQueryDto) {
+    return this.priceScheduleService.findScheduled(query);
+  }
+
+  async cancelPriceChange(changeId: string) {
+    return this.priceScheduleService.cancel(changeId);
   }
 
   /**
@@ -888,13 +893,16 @@ export class AdminService {
         throw new BadRequestException('Insufficient Nibia balance');
       }
 
-      await this.walletModel.findOneAndUpdate(
+      const updatedWallet = await this.walletModel.findOneAndUpdate(
         { userId: withdrawal.userId },
         { 
           $inc: { foodPoints: -withdrawal.nibiaAmount },
           updatedAt: new Date()
-        }
+        },
+        { new: true }
       );
+
+      await this.recordWithdrawalPayout(updatedWallet, withdrawal, adminId);
     }
 
     return this.withdrawalRequestModel.findByIdAndUpdate(withdrawalId, updateData, { new: true });
@@ -933,13 +941,16 @@ export class AdminService {
             }
 
             // Deduct from balance
-            await this.walletModel.findOneAndUpdate(
+            const updatedWallet = await this.walletModel.findOneAndUpdate(
               { userId: withdrawal.userId },
               { 
                 $inc: { foodPoints: -withdrawal.nibiaAmount },
                 updatedAt: new Date()
-              }
+              },
+              { new: true }
             );
+
+            await this.recordWithdrawalPayout(updatedWallet, withdrawal, adminId);
           }        // Update withdrawal status
         await this.withdrawalRequestModel.findByIdAndUpdate(withdrawal._id, {
           status: dto.action === 'approve' ? 'approved' : 'rejected',
@@ -1006,13 +1017,33 @@ export class AdminService {
 
     // Update user's wallet balance
     if (difference !== 0) {
-      await this.walletModel.findOneAndUpdate(
+      const updatedWallet = await this.walletModel.findOneAndUpdate(
         { userId: referral.referrerId },
         { 
           $inc: { foodPoints: difference },
           updatedAt: new Date()
-        }
+        },
+        { new: true }
       );
+
+      if (updatedWallet) {
+        const record = difference > 0
+          ? this.walletLedgerService.recordWalletCredit.bind(this.walletLedgerService)
+          : this.walletLedgerService.recordWalletDebit.bind(this.walletLedgerService);
+        await record(
+          updatedWallet,
+          WalletType.FOOD_POINTS,
+          Math.abs(difference),
+          updatedWallet.foodPoints,
+          `Commission override: ${dto.reason}`,
+          {
+            transactionType: LedgerTransactionType.COMMISSION,
+            counterAccount: LedgerAccount.SYSTEM_COMMISSIONS,
+            reference: { type: LedgerReferenceType.REFERRAL, id: dto.referralId },
+            createdBy: adminId,
+          },
+        );
+      }
     }
 
     // Log override action
@@ -1333,4 +1364,23 @@ export class AdminService {
       userEmail: user.email,
     };
   }
+
+  /**
+   * Ledger posting for an approved Nibia withdrawal paid out externally
+   */
+  private async recordWithdrawalPayout(wallet: WalletDocument, withdrawal: WithdrawalRequestDocument, adminId: string) {
+    await this.walletLedgerService.recordWalletDebit(
+      wallet,
+      WalletType.FOOD_POINTS,
+      withdrawal.nibiaAmount,
+      wallet.foodPoints,
+      `Nibia withdrawal payout of ${withdrawal.nibiaAmount}`,
+      {
+        transactionType: LedgerTransactionType.WITHDRAWAL,
+        counterAccount: LedgerAccount.SYSTEM_PAYOUTS,
+        reference: { type: LedgerReferenceType.WITHDRAWAL, id: withdrawal._id.toString() },
+        createdBy: adminId,
+      },
+    );
+  }
 }
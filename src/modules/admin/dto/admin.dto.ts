@@ -265,55 +265,6 @@ export class AdminWalletWipeDto {
   reason: string;
 }
 
-export class CreateCategoryDto {
-  @ApiProperty({ description: 'Category name' })
-  @IsString()
-  @IsNotEmpty()
-  name: string;
-
-  @ApiProperty({ description: 'Category description' })
-  @IsString()
-  @IsNotEmpty()
-  description: string;
-
-  @ApiProperty({ description: 'Category icon or image URL', required: false })
-  @IsString()
-  @IsOptional()
-  iconUrl?: string;
-
-  @ApiProperty({ description: 'Parent category ID', required: false })
-  @IsMongoId()
-  @IsOptional()
-  parentCategoryId?: string;
-}
-
-export class UpdateCategoryDto {
-  @ApiProperty({ description: 'Category name', required: false })
-  @IsString()
-  @IsOptional()
-  name?: string;
-
-  @ApiProperty({ description: 'Category description', required: false })
-  @IsString()
-  @IsOptional()
-  description?: string;
-
-  @ApiProperty({ description: 'Category icon or image URL', required: false })
-  @IsString()
-  @IsOptional()
-  iconUrl?: string;
-
-  @ApiProperty({ description: 'Parent category ID', required: false })
-  @IsMongoId()
-  @IsOptional()
-  parentCategoryId?: string;
-
-  @ApiProperty({ description: 'Category active status', required: false })
-  @IsBoolean()
-  @IsOptional()
-  isActive?: boolean;
-}
-
 export class DateRangeDto {
   @ApiPropertyOptional({ description: 'Start date for the filter' })
   @IsOptional()
@@ -328,28 +279,6 @@ export class DateRangeDto {
   endDate?: Date;
 }
 
-export class PriceHistoryDto {
-  @ApiProperty({ description: 'Product ID' })
-  @IsMongoId()
-  @IsNotEmpty()
-  productId: string;
-
-  @ApiProperty({ description: 'New price' })
-  @IsNumber()
-  @Min(0)
-  price: number;
-
-  @ApiProperty({ description: 'Effective date of the new price' })
-  @IsDate()
-  @Type(() => Date)
-  effectiveDate: Date;
-
-  @ApiProperty({ description: 'Reason for price change' })
-  @IsString()
-  @IsNotEmpty()
-  reason: string;
-}
-
 export class AnalyticsFilterDto {
   @ApiPropertyOptional({ description: 'Filter by date range' })
   @IsOptional()
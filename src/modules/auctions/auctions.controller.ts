@@ -23,6 +23,7 @@ import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { UserRole } from '../users/entities/user.entity';
+import { Idempotent } from '../idempotency/decorators/idempotent.decorator';
 
 @ApiTags('auctions')
 @Controller('auctions')
@@ -88,6 +89,7 @@ export class AuctionsController {
   }
 
   @Post(':id/bid')
+  @Idempotent()
   @ApiBearerAuth('JWT-auth')
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Place a bid on an auction' })
@@ -5,10 +5,11 @@ import { AuctionsController } from './auctions.controller';
 import { Auction, AuctionSchema } from './entities/auction.entity';
 import { Product, ProductSchema } from '../products/entities/product.entity';
 import { User, UserSchema } from '../users/entities/user.entity';
-import { Wallet, WalletSchema } from '../wallets/entities/wallet.entity';
 import { UsersModule } from '../users/users.module';
 import { AuthModule } from '../auth/auth.module';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { WalletsModule } from '../wallets/wallets.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
 
 @Module({
   imports: [
@@ -16,11 +17,12 @@ import { NotificationsModule } from '../notifications/notifications.module';
       { name: Auction.name, schema: AuctionSchema },
       { name: Product.name, schema: ProductSchema },
       { name: User.name, schema: UserSchema },
-      { name: Wallet.name, schema: WalletSchema },
     ]),
     forwardRef(() => UsersModule),
     forwardRef(() => AuthModule),
-    NotificationsModule
+    NotificationsModule,
+    WalletsModule,
+    IdempotencyModule
   ],
   controllers: [AuctionsController],
   providers: [AuctionsService],
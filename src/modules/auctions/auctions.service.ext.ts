@@ -9,6 +9,11 @@ import {
 import { NotificationsService } from '../notifications/notifications.service';
 import { WalletsService } from '../wallets/wallets.service';
 import { WalletType, TransactionType } from '../wallets/dto/update-balance.dto';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../wallets/entities/wallet-ledger-entry.entity';
 
 @Injectable()
 export class AuctionsService {
@@ -86,6 +91,14 @@ export class AuctionsService {
                 transactionType: TransactionType.CREDIT,
                 description: 'Auction refund',
                 reference: auction._id.toString()
+              },
+              {
+                transactionType: LedgerTransactionType.AUCTION_REFUND,
+                counterAccount: LedgerAccount.SYSTEM_AUCTION_ESCROW,
+                reference: {
+                  type: LedgerReferenceType.AUCTION,
+                  id: auction._id.toString(),
+                },
               }
             );
             
@@ -9,9 +9,20 @@ import {
   Bid
 } from './entities/auction.entity';
 import { Product, ProductDocument } from '../products/entities/product.entity';
+import { PRODUCT_ERROR_MESSAGES } from '../products/constants';
+import { ProductVariants } from '../products/helpers';
 import { User, UserDocument } from '../users/entities/user.entity';
-import { Wallet, WalletDocument } from '../wallets/entities/wallet.entity';
 import { NotificationsService } from '../notifications/notifications.service';
+import { WalletLedgerService } from '../wallets/services/wallet-ledger.service';
+import { WalletsService } from '../wallets/wallets.service';
+import { WalletType } from '../wallets/dto/update-balance.dto';
+import {
+  LedgerAccount,
+  LedgerCurrency,
+  LedgerEntryDirection,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../wallets/entities/wallet-ledger-entry.entity';
 import { NotificationType, NotificationChannel } from '../notifications/entities/notification.entity';
 import { 
   CreateAuctionDto, 
@@ -30,18 +41,28 @@ export class AuctionsService {
     @InjectModel(Auction.name) private auctionModel: Model<AuctionDocument>,
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
-    @InjectModel(Wallet.name) private walletModel: Model<WalletDocument>,
     private readonly notificationsService: NotificationsService,
+    private readonly walletsService: WalletsService,
+    private readonly walletLedgerService: WalletLedgerService,
   ) {}
 
   async create(createAuctionDto: CreateAuctionDto): Promise<Auction> {
-    const { productId, startTime, endTime } = createAuctionDto;
+    const { productId, variantId, startTime, endTime } = createAuctionDto;
     
     // Validate product exists
     const product = await this.productModel.findById(productId);
     if (!product) {
       throw new NotFoundException('Product not found');
     }
+
+    // Products sold in packs are auctioned one pack at a time
+    if (!ProductVariants.resolve(product, variantId)) {
+      throw new BadRequestException(
+        product.variants?.length && !variantId
+          ? PRODUCT_ERROR_MESSAGES.VARIANT_REQUIRED
+          : PRODUCT_ERROR_MESSAGES.VARIANT_NOT_FOUND,
+      );
+    }
     
     // Validate times
     const now = new Date();
@@ -57,6 +78,7 @@ export class AuctionsService {
     const auction = new this.auctionModel({
       ...createAuctionDto,
       productId: new Types.ObjectId(productId),
+      variantId: variantId && new Types.ObjectId(variantId),
       currentTopBid: 0,
       bidCount: 0,
       bids: [],
@@ -195,15 +217,20 @@ export class AuctionsService {
       throw new BadRequestException(`Bid must be at least ${minimumBid} food points`);
     }
     
-    // Check if user has enough food points
-    const wallet = await this.walletModel.findOne({ userId: new Types.ObjectId(userId) });
-    if (!wallet) {
-      throw new NotFoundException('User wallet not found');
-    }
-    
-    if (wallet.foodPoints < bidDto.amount) {
-      throw new BadRequestException(`Insufficient food points. Required: ${bidDto.amount}, Available: ${wallet.foodPoints}`);
-    }
+    // Hold the bid in auction escrow until the auction settles. The balance
+    // check, debit and ledger posting are one transaction
+    await this.walletsService.chargeWallet(
+      userId,
+      WalletType.FOOD_POINTS,
+      bidDto.amount,
+      `Bid hold for auction ${auction.title}`,
+      {
+        transactionType: LedgerTransactionType.AUCTION_BID,
+        counterAccount: LedgerAccount.SYSTEM_AUCTION_ESCROW,
+        reference: { type: LedgerReferenceType.AUCTION, id: auctionId },
+        createdBy: userId,
+      },
+    );
     
     // Place the bid
     auction.bids.push({
@@ -213,10 +240,6 @@ export class AuctionsService {
       status: BidStatus.ACTIVE,
     } as any);
     
-    // Lock the bid amount in user's wallet
-    wallet.foodPoints -= bidDto.amount;
-    await wallet.save();
-    
     // Update auction with new bid
     auction.bidCount += 1;
     auction.currentTopBid = bidDto.amount;
@@ -318,7 +341,7 @@ export class AuctionsService {
             bid.userId.toString() === auction.winnerId.toString() && 
             bid.amount === auction.winningBid)) {
           
-          await this.refundBid(bid, auction.feePercentage);
+          await this.refundBid(bid, auction);
         }
       }
     }
@@ -328,31 +351,24 @@ export class AuctionsService {
     // Process refunds for all bids with status 'active'
     for (const bid of auction.bids) {
       if (bid.status === BidStatus.ACTIVE) {
-        await this.refundBid(bid, auction.feePercentage);
+        await this.refundBid(bid, auction);
       }
     }
   }
   
-  private async refundBid(bid: Bid, feePercentage: number): Promise<void> {
+  private async refundBid(bid: Bid, auction: AuctionDocument): Promise<void> {
+    const { feePercentage } = auction;
     try {
-      // Get user's wallet
-      const wallet = await this.walletModel.findOne({ userId: bid.userId });
-      if (!wallet) {
-        this.logger.error(`Wallet not found for user ${bid.userId} during bid refund`);
-        return;
-      }
-      
       // Calculate fee and refund amount
       const feeAmount = (bid.amount * feePercentage) / 100;
       const refundAmount = bid.amount - feeAmount;
       
       // Refund the bid amount minus fee
-      wallet.foodPoints += refundAmount;
-      await wallet.save();
+      const refundRef = await this.releaseBid(bid, refundAmount, feeAmount, auction._id.toString());
       
       // Update bid status
       bid.status = BidStatus.REFUNDED;
-      bid.refundRef = `refund_${Date.now()}`;
+      bid.refundRef = refundRef;
       bid.refundTimestamp = new Date();
       
       this.logger.log(`Refunded ${refundAmount} food points to user ${bid.userId} (fee: ${feeAmount})`);
@@ -361,6 +377,57 @@ export class AuctionsService {
     }
   }
   
+  /**
+   * Release a bid from escrow: the refund goes back to the bidder and the
+   * auction fee is kept as revenue. Returns the refund's ledger transaction
+   */
+  private async releaseBid(
+    bid: Bid,
+    refundAmount: number,
+    feeAmount: number,
+    auctionId: string,
+  ): Promise<string> {
+    const reference = { type: LedgerReferenceType.AUCTION, id: auctionId };
+    // Bids on settling auctions have their bidder populated
+    const bidderId = ((bid.userId as any)._id ?? bid.userId).toString();
+
+    const { transactionId } = await this.walletsService.refundToWallet(
+      bidderId,
+      WalletType.FOOD_POINTS,
+      refundAmount,
+      `Auction bid refund (fee: ${feeAmount})`,
+      {
+        transactionType: LedgerTransactionType.AUCTION_REFUND,
+        counterAccount: LedgerAccount.SYSTEM_AUCTION_ESCROW,
+        reference,
+      },
+    );
+
+    if (feeAmount > 0) {
+      await this.walletLedgerService.postTransaction({
+        transactionType: LedgerTransactionType.AUCTION_REFUND,
+        reference,
+        description: `Auction fee kept from bid refund ${transactionId}`,
+        legs: [
+          {
+            account: LedgerAccount.SYSTEM_AUCTION_ESCROW,
+            direction: LedgerEntryDirection.DEBIT,
+            amount: feeAmount,
+            currency: LedgerCurrency.NIBIA,
+          },
+          {
+            account: LedgerAccount.SYSTEM_REVENUE,
+            direction: LedgerEntryDirection.CREDIT,
+            amount: feeAmount,
+            currency: LedgerCurrency.NIBIA,
+          },
+        ],
+      });
+    }
+
+    return transactionId;
+  }
+
   @Cron(CronExpression.EVERY_MINUTE, { name: 'processAuctionStates' })
   async processAuctionStates() {
     this.logger.log('Processing auction states...');
@@ -459,14 +526,15 @@ export class AuctionsService {
             const feeAmount = bid.amount - refundAmount;
             
             // Refund to wallet
-            await this.walletModel.updateOne(
-              { userId: bid.userId },
-              { $inc: { foodPoints: refundAmount } }
-            );
+            try {
+              bid.refundRef = await this.releaseBid(bid, refundAmount, feeAmount, auction._id.toString());
+            } catch (error) {
+              this.logger.error(`Error refunding bid for user ${bid.userId}: ${error.message}`);
+              continue;
+            }
             
             // Update bid status
             bid.status = BidStatus.REFUNDED;
-            bid.refundRef = `refund_${Date.now()}`;
             bid.refundTimestamp = now;
             
             // Notify of refund
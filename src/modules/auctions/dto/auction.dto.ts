@@ -31,6 +31,14 @@ export class CreateAuctionDto {
   @IsNotEmpty()
   productId: string;
 
+  @ApiPropertyOptional({
+    description: 'Pack of the product being auctioned, for products sold in packs',
+    example: '507f1f77bcf86cd799439012'
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
   @ApiProperty({
     description: 'Auction title',
     example: 'Flash Sale: Premium Pizza',
@@ -120,6 +120,12 @@ export class Auction extends Document {
   })
   productId: Types.ObjectId;
 
+  @Prop({ 
+    required: false, 
+    type: Types.ObjectId,
+  })
+  variantId?: Types.ObjectId;
+
   @Prop({ 
     required: true, 
     type: String, 
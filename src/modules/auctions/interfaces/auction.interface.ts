@@ -45,6 +45,7 @@ export interface IBidDocument extends IBid, Document {}
  */
 export interface IAuction {
   productId: Types.ObjectId;
+  variantId?: Types.ObjectId;
   title: string;
   description?: string;
   startPrice: number;
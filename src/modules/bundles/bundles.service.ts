@@ -16,6 +16,8 @@ import {
   GiftDeliveryStatus,
 } from './entities/bundle-order.entity';
 import { Product, ProductDocument } from '../products/entities/product.entity';
+import { PRODUCT_ERROR_MESSAGES } from '../products/constants';
+import { ProductVariants } from '../products/helpers';
 import { User, UserDocument } from '../users/entities/user.entity';
 import { 
   CreateBundleDto, 
@@ -715,18 +717,24 @@ export class BundlesService {
         throw new BadRequestException(`Product ${product.name} is not active`);
       }
 
-      if (product.stock < productDto.quantity) {
+      const unit = ProductVariants.resolve(product, productDto.variantId);
+      if (!unit) {
+        throw new BadRequestException(`${PRODUCT_ERROR_MESSAGES.VARIANT_NOT_FOUND}: ${product.name}`);
+      }
+
+      if (unit.stock < productDto.quantity) {
         throw new BadRequestException(`Insufficient stock for product ${product.name}`);
       }
 
       validatedProducts.push({
         productId: new Types.ObjectId(productDto.productId),
+        ...(unit.variantId && { variantId: new Types.ObjectId(unit.variantId) }),
         quantity: productDto.quantity,
         isRequired: productDto.isRequired !== false,
         alternatives: productDto.alternatives?.map(alt => new Types.ObjectId(alt)) || [],
       });
 
-      totalValue += product.price * productDto.quantity;
+      totalValue += unit.price * productDto.quantity;
     }
 
     return { validatedProducts, totalValue };
@@ -742,8 +750,9 @@ export class BundlesService {
 
     for (const productInfo of products) {
       const product = await this.productModel.findById(productInfo.productId);
-      if (product) {
-        basePrice += product.price * productInfo.quantity;
+      const unit = product && ProductVariants.resolve(product, productInfo.variantId);
+      if (unit) {
+        basePrice += unit.price * productInfo.quantity;
       }
     }
 
@@ -837,10 +846,13 @@ export class BundlesService {
         throw new NotFoundException(`Product in bundle not found`);
       }
 
+      // A pack removed since the bundle was made leaves nothing to sell
+      const unit = ProductVariants.resolve(product, bundleProduct.variantId);
+      const available = unit ? unit.stock : 0;
       const requiredStock = bundleProduct.quantity * orderQuantity;
-      if (product.stock < requiredStock) {
+      if (available < requiredStock) {
         throw new BadRequestException(
-          `Insufficient stock for ${product.name}. Required: ${requiredStock}, Available: ${product.stock}`
+          `Insufficient stock for ${product.name}. Required: ${requiredStock}, Available: ${available}`
         );
       }
     }
@@ -849,6 +861,14 @@ export class BundlesService {
   private async reserveBundleStock(bundle: Bundle, orderQuantity: number): Promise<void> {
     for (const bundleProduct of bundle.products) {
       const requiredStock = bundleProduct.quantity * orderQuantity;
+      if (bundleProduct.variantId) {
+        // Pack and product totals move together
+        await this.productModel.updateOne(
+          { _id: bundleProduct.productId, 'variants._id': bundleProduct.variantId },
+          { $inc: { stock: -requiredStock, 'variants.$.stock': -requiredStock } }
+        );
+        continue;
+      }
       await this.productModel.findByIdAndUpdate(
         bundleProduct.productId,
         { $inc: { stock: -requiredStock } }
@@ -11,6 +11,7 @@ import {
   ValidateNested,
   IsDateString,
   MaxLength,
+  IsMongoId,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type, Transform } from 'class-transformer';
@@ -34,6 +35,11 @@ export class CreateBundleProductDto {
   @IsNotEmpty()
   productId: string;
 
+  @ApiPropertyOptional({ description: 'Pack of the product, for products sold in packs' })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
   @ApiProperty({ description: 'Quantity of this product in the bundle' })
   @IsNumber()
   @Min(1)
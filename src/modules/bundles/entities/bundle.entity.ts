@@ -50,6 +50,11 @@ export class BundleProduct {
   @Prop({ required: true, type: Types.ObjectId, ref: 'Product' })
   productId: Types.ObjectId;
 
+  @ApiProperty({ description: 'Pack of the product, for products sold in packs', required: false })
+  @Prop({ required: false, type: Types.ObjectId })
+  @IsOptional()
+  variantId?: Types.ObjectId;
+
   @ApiProperty({ description: 'Quantity of this product in the bundle' })
   @Prop({ required: true, type: Number, min: 1 })
   @IsNumber()
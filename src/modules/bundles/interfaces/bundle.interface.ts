@@ -4,6 +4,7 @@ import { BundleOrderStatus, GiftDeliveryStatus } from '../entities/bundle-order.
 
 export interface IBundleProduct {
   productId: Types.ObjectId;
+  variantId?: Types.ObjectId;
   quantity: number;
   isRequired: boolean;
   alternatives?: Types.ObjectId[];
@@ -8,6 +8,11 @@ import { Wallet, WalletDocument } from '../../wallets/entities/wallet.entity';
 import { Order, OrderDocument } from '../../orders/entities/order.entity';
 import { WalletType, TransactionType } from '../../wallets/dto/update-balance.dto';
 import { WalletsService } from '../../wallets/wallets.service';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../../wallets/entities/wallet-ledger-entry.entity';
 import { 
   DefaultRecoveryRequest, 
   DefaultRecoveryResult 
@@ -126,6 +131,11 @@ export class DefaultRecoveryService {
         transactionType: TransactionType.DEBIT,
         description: `Default recovery for order ${order._id}`,
         reference: recoveryTransactionId,
+      }, {
+        transactionType: LedgerTransactionType.DEFAULT_RECOVERY,
+        counterAccount: LedgerAccount.SYSTEM_REVENUE,
+        reference: { type: LedgerReferenceType.ORDER, id: order._id.toString() },
+        metadata: { recoveryTransactionId },
       });
 
       // Update order status
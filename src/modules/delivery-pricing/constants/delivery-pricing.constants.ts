@@ -0,0 +1,36 @@
+import { DELIVERY_CONSTANTS } from '../../delivery/constants/delivery.constants';
+
+/**
+ * Pricing used for cities without their own rule. With no coordinates the
+ * default distance gives 300 + 4 km × 50 = ₦500, the old flat fee.
+ */
+export const DELIVERY_PRICING_DEFAULTS = {
+  BASE_FEE: DELIVERY_CONSTANTS.BASE_DELIVERY_FEE, // NGN
+  PER_KM_RATE: DELIVERY_CONSTANTS.PER_KM_RATE, // NGN per km
+  PER_KG_RATE: 20, // NGN per kg above the included weight
+  INCLUDED_WEIGHT_KG: 5,
+  DEFAULT_DISTANCE_KM: 4, // Used when either end has no coordinates
+  MAX_DISTANCE_KM: DELIVERY_CONSTANTS.MAX_DELIVERY_DISTANCE,
+  MIN_FEE: 0,
+  MAX_FEE: 10000,
+  PLATFORM_FEE_PERCENTAGE: 20, // Share of the fee kept by the platform
+} as const;
+
+export const DELIVERY_PRICING_CONSTANTS = {
+  // Surge windows are written in Lagos time (WAT, UTC+1, no DST)
+  TIMEZONE_OFFSET_MINUTES: 60,
+  MAX_SURGE_MULTIPLIER: 5,
+  CURRENCY: 'NGN',
+} as const;
+
+export enum FreeDeliveryReason {
+  FREE_DELIVERY_PRODUCTS = 'free_delivery_products',
+  ORDER_THRESHOLD = 'order_threshold',
+}
+
+export const DELIVERY_PRICING_ERROR_MESSAGES = {
+  RULE_NOT_FOUND: 'Delivery pricing rule not found for this city',
+  OUTSIDE_DELIVERY_AREA: 'Delivery address is outside the delivery area',
+  NO_ITEMS: 'At least one item is required for a delivery quote',
+  INVALID_SURGE_WINDOW: 'Surge window times must be in HH:mm format',
+} as const;
@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { DeliveryPricingService } from './delivery-pricing.service';
+import { UpsertDeliveryPricingRuleDto } from './dto/delivery-pricing.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/entities/user.entity';
+
+@ApiTags('delivery-pricing')
+@Controller('delivery-pricing')
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class DeliveryPricingController {
+  constructor(
+    private readonly deliveryPricingService: DeliveryPricingService,
+  ) {}
+
+  @Get('rules')
+  @ApiOperation({ summary: 'List per-city delivery pricing rules' })
+  @ApiResponse({
+    status: 200,
+    description: 'Pricing rules retrieved successfully',
+  })
+  getRules() {
+    return this.deliveryPricingService.getRules();
+  }
+
+  @Put('rules/:city')
+  @ApiOperation({
+    summary: 'Create or replace the delivery pricing rule for a city',
+  })
+  @ApiParam({ name: 'city', description: 'City name, e.g. Lagos' })
+  @ApiResponse({ status: 200, description: 'Pricing rule saved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid pricing rule' })
+  upsertRule(
+    @Param('city') city: string,
+    @Body() dto: UpsertDeliveryPricingRuleDto,
+  ) {
+    return this.deliveryPricingService.upsertRule(city, dto);
+  }
+
+  @Delete('rules/:city')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete the delivery pricing rule for a city' })
+  @ApiParam({ name: 'city', description: 'City name, e.g. Lagos' })
+  @ApiResponse({
+    status: 204,
+    description: 'Pricing rule deleted; the city falls back to default pricing',
+  })
+  @ApiResponse({ status: 404, description: 'No rule for this city' })
+  deleteRule(@Param('city') city: string) {
+    return this.deliveryPricingService.deleteRule(city);
+  }
+}
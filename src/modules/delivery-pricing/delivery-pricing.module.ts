@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DeliveryPricingController } from './delivery-pricing.controller';
+import { DeliveryPricingService } from './delivery-pricing.service';
+import {
+  DeliveryPricingRule,
+  DeliveryPricingRuleSchema,
+} from './entities/delivery-pricing-rule.entity';
+import { Product, ProductSchema } from '../products/entities/product.entity';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: DeliveryPricingRule.name, schema: DeliveryPricingRuleSchema },
+      { name: Product.name, schema: ProductSchema },
+    ]),
+  ],
+  controllers: [DeliveryPricingController],
+  providers: [DeliveryPricingService],
+  exports: [DeliveryPricingService],
+})
+export class DeliveryPricingModule {}
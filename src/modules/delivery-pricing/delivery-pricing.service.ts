@@ -0,0 +1,272 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  DeliveryPricingRule,
+  DeliveryPricingRuleDocument,
+  SurgeWindow,
+} from './entities/delivery-pricing-rule.entity';
+import {
+  Product,
+  ProductDocument,
+  DeliveryType,
+} from '../products/entities/product.entity';
+import { UpsertDeliveryPricingRuleDto } from './dto/delivery-pricing.dto';
+import {
+  DeliveryQuote,
+  DeliveryQuoteRequest,
+  GeoPoint,
+} from './interfaces/delivery-quote.interface';
+import {
+  DELIVERY_PRICING_CONSTANTS,
+  DELIVERY_PRICING_DEFAULTS,
+  DELIVERY_PRICING_ERROR_MESSAGES,
+  FreeDeliveryReason,
+} from './constants/delivery-pricing.constants';
+import { FEE_CALCULATOR } from '../delivery/constants/delivery.constants';
+import { ProductVariants } from '../products/helpers';
+
+type PricingRule = Omit<DeliveryPricingRule, 'createdAt' | 'updatedAt'>;
+
+@Injectable()
+export class DeliveryPricingService {
+  private readonly logger = new Logger(DeliveryPricingService.name);
+
+  constructor(
+    @InjectModel(DeliveryPricingRule.name)
+    private deliveryPricingRuleModel: Model<DeliveryPricingRuleDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+  ) {}
+
+  /**
+   * Price a delivery from distance, total weight, the destination city's
+   * rates and any active surge window
+   */
+  async quote(request: DeliveryQuoteRequest): Promise<DeliveryQuote> {
+    if (!request.items?.length) {
+      throw new BadRequestException(DELIVERY_PRICING_ERROR_MESSAGES.NO_ITEMS);
+    }
+
+    const rule = await this.getRuleForCity(request.destination.city);
+    const at = request.at || new Date();
+
+    const products = await this.productModel
+      .find({
+        _id: {
+          $in: request.items.map((item) => new Types.ObjectId(item.productId)),
+        },
+      })
+      .select('price weight deliveryType variants')
+      .lean();
+    const productsById = new Map(
+      products.map((product) => [product._id.toString(), product]),
+    );
+
+    let weightGrams = 0;
+    let subtotal = 0;
+    let allFreeDelivery = true;
+    for (const item of request.items) {
+      const product = productsById.get(item.productId.toString());
+      if (!product) {
+        throw new NotFoundException(`Product ${item.productId} not found`);
+      }
+      // Products sold in packs weigh and cost what the pack does
+      const unit = ProductVariants.find(product, item.variantId) ?? product;
+      weightGrams += (unit.weight || 0) * item.quantity;
+      subtotal += unit.price * item.quantity;
+      if (product.deliveryType !== DeliveryType.FREE) {
+        allFreeDelivery = false;
+      }
+    }
+
+    const distanceKm = this.round(this.resolveDistance(request, rule));
+    const maxDistanceKm =
+      rule.maxDistanceKm ?? DELIVERY_PRICING_DEFAULTS.MAX_DISTANCE_KM;
+    if (distanceKm > maxDistanceKm) {
+      throw new BadRequestException(
+        DELIVERY_PRICING_ERROR_MESSAGES.OUTSIDE_DELIVERY_AREA,
+      );
+    }
+
+    const weightKg = this.round(weightGrams / 1000);
+    const distanceFee = distanceKm * rule.perKmRate;
+    const weightFee =
+      Math.max(0, weightKg - rule.includedWeightKg) * rule.perKgRate;
+    const surge = this.findSurgeWindow(rule.surgeWindows, at);
+    const surgeMultiplier = surge?.multiplier || 1;
+
+    const fee = Math.round(
+      this.clamp(
+        (rule.baseFee + distanceFee + weightFee) * surgeMultiplier,
+        rule.minFee ?? DELIVERY_PRICING_DEFAULTS.MIN_FEE,
+        rule.maxFee ?? DELIVERY_PRICING_DEFAULTS.MAX_FEE,
+      ),
+    );
+
+    let freeDeliveryReason: FreeDeliveryReason | undefined;
+    if (allFreeDelivery) {
+      freeDeliveryReason = FreeDeliveryReason.FREE_DELIVERY_PRODUCTS;
+    } else if (
+      rule.freeDeliveryThreshold !== undefined &&
+      rule.freeDeliveryThreshold !== null &&
+      (request.subtotal ?? subtotal) >= rule.freeDeliveryThreshold
+    ) {
+      freeDeliveryReason = FreeDeliveryReason.ORDER_THRESHOLD;
+    }
+
+    return {
+      city: rule.city,
+      distanceKm,
+      weightKg,
+      baseFee: rule.baseFee,
+      distanceFee: Math.round(distanceFee),
+      weightFee: Math.round(weightFee),
+      surgeMultiplier,
+      surgeLabel: surge?.label,
+      fee,
+      deliveryFee: freeDeliveryReason ? 0 : fee,
+      freeDeliveryReason,
+      // Riders are paid for the trip even when the customer's fee is waived
+      riderPayment: FEE_CALCULATOR.calculateRiderPayment(
+        fee,
+        rule.platformFeePercentage ??
+          DELIVERY_PRICING_DEFAULTS.PLATFORM_FEE_PERCENTAGE,
+      ),
+      currency: DELIVERY_PRICING_CONSTANTS.CURRENCY,
+      quotedAt: at,
+    };
+  }
+
+  async getRules(): Promise<DeliveryPricingRule[]> {
+    return this.deliveryPricingRuleModel.find().sort({ city: 1 }).lean();
+  }
+
+  async upsertRule(
+    city: string,
+    dto: UpsertDeliveryPricingRuleDto,
+  ): Promise<DeliveryPricingRule> {
+    const normalizedCity = this.normalizeCity(city);
+    const rule = await this.deliveryPricingRuleModel.findOneAndUpdate(
+      { city: normalizedCity },
+      { $set: { ...dto, city: normalizedCity } },
+      {
+        new: true,
+        upsert: true,
+        runValidators: true,
+        setDefaultsOnInsert: true,
+      },
+    );
+
+    this.logger.log(`Delivery pricing rule saved for ${normalizedCity}`);
+    return rule;
+  }
+
+  async deleteRule(city: string): Promise<void> {
+    const result = await this.deliveryPricingRuleModel.deleteOne({
+      city: this.normalizeCity(city),
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(
+        DELIVERY_PRICING_ERROR_MESSAGES.RULE_NOT_FOUND,
+      );
+    }
+  }
+
+  private async getRuleForCity(city: string): Promise<PricingRule> {
+    const normalizedCity = this.normalizeCity(city);
+    const rule = await this.deliveryPricingRuleModel
+      .findOne({ city: normalizedCity, isActive: true })
+      .lean();
+
+    return (
+      rule || {
+        city: normalizedCity,
+        baseFee: DELIVERY_PRICING_DEFAULTS.BASE_FEE,
+        perKmRate: DELIVERY_PRICING_DEFAULTS.PER_KM_RATE,
+        perKgRate: DELIVERY_PRICING_DEFAULTS.PER_KG_RATE,
+        includedWeightKg: DELIVERY_PRICING_DEFAULTS.INCLUDED_WEIGHT_KG,
+        surgeWindows: [],
+        isActive: true,
+      }
+    );
+  }
+
+  private resolveDistance(
+    request: DeliveryQuoteRequest,
+    rule: PricingRule,
+  ): number {
+    const origin: GeoPoint | undefined = request.origin || rule.origin;
+    const { latitude, longitude } = request.destination;
+
+    if (
+      !origin ||
+      latitude === undefined ||
+      latitude === null ||
+      longitude === undefined ||
+      longitude === null
+    ) {
+      return DELIVERY_PRICING_DEFAULTS.DEFAULT_DISTANCE_KM;
+    }
+
+    return FEE_CALCULATOR.calculateDistance(
+      origin.latitude,
+      origin.longitude,
+      latitude,
+      longitude,
+    );
+  }
+
+  /**
+   * The highest-multiplier window covering the given time, in Lagos time
+   */
+  private findSurgeWindow(
+    windows: SurgeWindow[] = [],
+    at: Date,
+  ): SurgeWindow | undefined {
+    const local = new Date(
+      at.getTime() +
+        DELIVERY_PRICING_CONSTANTS.TIMEZONE_OFFSET_MINUTES * 60 * 1000,
+    );
+    const day = local.getUTCDay();
+    const minutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+
+    return windows
+      .filter((window) => {
+        const start = this.toMinutes(window.startTime);
+        const end = this.toMinutes(window.endTime);
+        // Windows that cross midnight belong to the day they start on
+        const crossesMidnight = end <= start;
+        const inWindow = crossesMidnight
+          ? minutes >= start || minutes < end
+          : minutes >= start && minutes < end;
+        const windowDay =
+          crossesMidnight && minutes < end ? (day + 6) % 7 : day;
+        const onDay =
+          !window.daysOfWeek?.length || window.daysOfWeek.includes(windowDay);
+        return inWindow && onDay;
+      })
+      .sort((a, b) => b.multiplier - a.multiplier)[0];
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private normalizeCity(city: string): string {
+    return (city || '').trim().toLowerCase();
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
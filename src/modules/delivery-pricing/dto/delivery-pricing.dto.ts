@@ -0,0 +1,177 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNumber,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsString,
+  IsInt,
+  Min,
+  Max,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  DELIVERY_PRICING_CONSTANTS,
+  DELIVERY_PRICING_ERROR_MESSAGES,
+} from '../constants/delivery-pricing.constants';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class SurgeWindowDto {
+  @ApiPropertyOptional({
+    description: 'Label shown on quotes',
+    example: 'Evening rush',
+  })
+  @IsOptional()
+  @IsString()
+  label?: string;
+
+  @ApiPropertyOptional({
+    description: 'Days of the week (0 = Sunday). Omit for every day',
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek?: number[];
+
+  @ApiProperty({
+    description: 'Start time, HH:mm Lagos time',
+    example: '17:00',
+  })
+  @Matches(TIME_PATTERN, {
+    message: DELIVERY_PRICING_ERROR_MESSAGES.INVALID_SURGE_WINDOW,
+  })
+  startTime: string;
+
+  @ApiProperty({
+    description:
+      'End time, HH:mm Lagos time. May be before the start to cross midnight',
+    example: '20:00',
+  })
+  @Matches(TIME_PATTERN, {
+    message: DELIVERY_PRICING_ERROR_MESSAGES.INVALID_SURGE_WINDOW,
+  })
+  endTime: string;
+
+  @ApiProperty({ description: 'Fee multiplier', example: 1.5 })
+  @IsNumber()
+  @Min(1)
+  @Max(DELIVERY_PRICING_CONSTANTS.MAX_SURGE_MULTIPLIER)
+  multiplier: number;
+}
+
+export class PricingOriginDto {
+  @ApiProperty({ description: 'Latitude', example: 6.5244 })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude: number;
+
+  @ApiProperty({ description: 'Longitude', example: 3.3792 })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude: number;
+}
+
+export class UpsertDeliveryPricingRuleDto {
+  @ApiProperty({
+    description: 'Flat fee for every delivery in NGN',
+    example: 300,
+  })
+  @IsNumber()
+  @Min(0)
+  baseFee: number;
+
+  @ApiProperty({ description: 'Fee per kilometre in NGN', example: 50 })
+  @IsNumber()
+  @Min(0)
+  perKmRate: number;
+
+  @ApiPropertyOptional({
+    description: 'Fee per kilogram above the included weight in NGN',
+    example: 20,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  perKgRate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Weight carried at no extra charge in kg',
+    example: 5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  includedWeightKg?: number;
+
+  @ApiPropertyOptional({ description: 'Lowest fee charged in NGN' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minFee?: number;
+
+  @ApiPropertyOptional({ description: 'Highest fee charged in NGN' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxFee?: number;
+
+  @ApiPropertyOptional({
+    description: 'Order subtotal in NGN at or above which delivery is free',
+    example: 10000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  freeDeliveryThreshold?: number;
+
+  @ApiPropertyOptional({ description: 'Furthest distance delivered to in km' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDistanceKm?: number;
+
+  @ApiPropertyOptional({
+    description: 'Dispatch point used when the seller has no location',
+    type: PricingOriginDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PricingOriginDto)
+  origin?: PricingOriginDto;
+
+  @ApiPropertyOptional({
+    description: 'Share of the fee kept by the platform, in percent',
+    example: 20,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  platformFeePercentage?: number;
+
+  @ApiPropertyOptional({
+    description: 'Surge pricing windows',
+    type: [SurgeWindowDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SurgeWindowDto)
+  surgeWindows?: SurgeWindowDto[];
+
+  @ApiPropertyOptional({
+    description: 'Whether the rule is used for quotes',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
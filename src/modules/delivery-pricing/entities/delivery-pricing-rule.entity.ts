@@ -0,0 +1,175 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  Min,
+  Max,
+} from 'class-validator';
+
+export type DeliveryPricingRuleDocument = DeliveryPricingRule & Document;
+
+@Schema({ _id: false })
+export class SurgeWindow {
+  @ApiProperty({ description: 'Label shown on quotes, e.g. Evening rush' })
+  @Prop({ required: false, type: String })
+  @IsOptional()
+  @IsString()
+  label?: string;
+
+  @ApiProperty({
+    description:
+      'Days the window applies to (0 = Sunday). Empty means every day',
+    type: [Number],
+  })
+  @Prop({ type: [Number], default: [] })
+  @IsArray()
+  daysOfWeek: number[];
+
+  @ApiProperty({
+    description: 'Window start, HH:mm Lagos time',
+    example: '17:00',
+  })
+  @Prop({ required: true, type: String })
+  @IsString()
+  startTime: string;
+
+  @ApiProperty({
+    description: 'Window end, HH:mm Lagos time',
+    example: '20:00',
+  })
+  @Prop({ required: true, type: String })
+  @IsString()
+  endTime: string;
+
+  @ApiProperty({
+    description: 'Fee multiplier while the window is active',
+    example: 1.5,
+  })
+  @Prop({ required: true, type: Number, min: 1 })
+  @IsNumber()
+  @Min(1)
+  multiplier: number;
+}
+
+@Schema({ _id: false })
+export class PricingOrigin {
+  @ApiProperty({ description: 'Latitude' })
+  @Prop({ required: true, type: Number })
+  @IsNumber()
+  latitude: number;
+
+  @ApiProperty({ description: 'Longitude' })
+  @Prop({ required: true, type: Number })
+  @IsNumber()
+  longitude: number;
+}
+
+@Schema({ timestamps: true })
+export class DeliveryPricingRule {
+  @ApiProperty({
+    description: 'City the rule prices deliveries for (stored lowercase)',
+    example: 'lagos',
+  })
+  @Prop({ required: true, type: String, lowercase: true, trim: true })
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @ApiProperty({ description: 'Flat fee for every delivery in NGN' })
+  @Prop({ required: true, type: Number, min: 0 })
+  @IsNumber()
+  @Min(0)
+  baseFee: number;
+
+  @ApiProperty({ description: 'Fee per kilometre in NGN' })
+  @Prop({ required: true, type: Number, min: 0 })
+  @IsNumber()
+  @Min(0)
+  perKmRate: number;
+
+  @ApiProperty({
+    description: 'Fee per kilogram above the included weight in NGN',
+  })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  @IsNumber()
+  @Min(0)
+  perKgRate: number;
+
+  @ApiProperty({ description: 'Weight carried at no extra charge in kg' })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  @IsNumber()
+  @Min(0)
+  includedWeightKg: number;
+
+  @ApiProperty({ description: 'Lowest fee charged in NGN' })
+  @Prop({ required: false, type: Number, min: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minFee?: number;
+
+  @ApiProperty({ description: 'Highest fee charged in NGN' })
+  @Prop({ required: false, type: Number, min: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxFee?: number;
+
+  @ApiProperty({
+    description: 'Order subtotal in NGN at or above which delivery is free',
+  })
+  @Prop({ required: false, type: Number, min: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  freeDeliveryThreshold?: number;
+
+  @ApiProperty({ description: 'Furthest distance delivered to in km' })
+  @Prop({ required: false, type: Number, min: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDistanceKm?: number;
+
+  @ApiProperty({
+    description: 'Dispatch point used when the seller has no location',
+    type: PricingOrigin,
+  })
+  @Prop({ required: false, type: PricingOrigin })
+  @IsOptional()
+  origin?: PricingOrigin;
+
+  @ApiProperty({
+    description: 'Share of the fee kept by the platform, in percent',
+  })
+  @Prop({ required: false, type: Number, min: 0, max: 100 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  platformFeePercentage?: number;
+
+  @ApiProperty({ description: 'Surge pricing windows', type: [SurgeWindow] })
+  @Prop({ type: [SurgeWindow], default: [] })
+  @IsArray()
+  surgeWindows: SurgeWindow[];
+
+  @ApiProperty({ description: 'Whether the rule is used for quotes' })
+  @Prop({ required: true, type: Boolean, default: true })
+  @IsBoolean()
+  isActive: boolean;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DeliveryPricingRuleSchema =
+  SchemaFactory.createForClass(DeliveryPricingRule);
+
+DeliveryPricingRuleSchema.index({ city: 1 }, { unique: true });
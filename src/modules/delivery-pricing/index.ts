@@ -0,0 +1,4 @@
+export * from './delivery-pricing.module';
+export * from './delivery-pricing.service';
+export * from './entities/delivery-pricing-rule.entity';
+export * from './interfaces/delivery-quote.interface';
@@ -0,0 +1,46 @@
+import { FreeDeliveryReason } from '../constants/delivery-pricing.constants';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface DeliveryQuoteItem {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+export interface DeliveryQuoteRequest {
+  items: DeliveryQuoteItem[];
+  destination: {
+    city: string;
+    latitude?: number;
+    longitude?: number;
+  };
+  /** Where the rider collects from; defaults to the city's dispatch point */
+  origin?: GeoPoint;
+  /** Item subtotal in NGN; defaults to current product prices */
+  subtotal?: number;
+  /** Time the delivery is priced for; defaults to now */
+  at?: Date;
+}
+
+export interface DeliveryQuote {
+  city: string;
+  distanceKm: number;
+  weightKg: number;
+  baseFee: number;
+  distanceFee: number;
+  weightFee: number;
+  surgeMultiplier: number;
+  surgeLabel?: string;
+  /** Fee before any free-delivery waiver; riders are paid from this */
+  fee: number;
+  /** Fee charged to the customer */
+  deliveryFee: number;
+  freeDeliveryReason?: FreeDeliveryReason;
+  riderPayment: number;
+  currency: string;
+  quotedAt: Date;
+}
@@ -0,0 +1,195 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { DeliveryPricingService } from '../delivery-pricing.service';
+import { DeliveryPricingRule } from '../entities/delivery-pricing-rule.entity';
+import { Product, DeliveryType } from '../../products/entities/product.entity';
+import { FreeDeliveryReason } from '../constants/delivery-pricing.constants';
+
+describe('DeliveryPricingService', () => {
+  let service: DeliveryPricingService;
+  let ruleModel: any;
+  let productModel: any;
+  let rule: any;
+  let products: any[];
+
+  const riceId = new Types.ObjectId();
+  const yamId = new Types.ObjectId();
+
+  // Lekki to Ikeja is roughly 20 km
+  const lekki = { latitude: 6.4474, longitude: 3.4723 };
+  const ikeja = { latitude: 6.6018, longitude: 3.3515 };
+
+  const lean = (value: any) => ({ lean: jest.fn().mockResolvedValue(value) });
+
+  beforeEach(async () => {
+    rule = null;
+    products = [
+      {
+        _id: riceId,
+        price: 2000,
+        weight: 5000,
+        deliveryType: DeliveryType.PAID,
+      },
+      {
+        _id: yamId,
+        price: 1500,
+        weight: 3000,
+        deliveryType: DeliveryType.FREE,
+      },
+    ];
+
+    ruleModel = {
+      findOne: jest.fn(() => lean(rule)),
+      find: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      deleteOne: jest.fn(),
+    };
+    productModel = {
+      find: jest.fn(() => ({ select: jest.fn(() => lean(products)) })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeliveryPricingService,
+        {
+          provide: getModelToken(DeliveryPricingRule.name),
+          useValue: ruleModel,
+        },
+        { provide: getModelToken(Product.name), useValue: productModel },
+      ],
+    }).compile();
+
+    service = module.get<DeliveryPricingService>(DeliveryPricingService);
+  });
+
+  it('should fall back to the old flat fee when nothing is known about the route', async () => {
+    const quote = await service.quote({
+      items: [{ productId: riceId.toString(), quantity: 1 }],
+      destination: { city: 'Abuja' },
+    });
+
+    expect(quote.distanceKm).toBe(4);
+    expect(quote.deliveryFee).toBe(500);
+    expect(quote.riderPayment).toBe(500);
+  });
+
+  it('should price distance, weight and an active surge window from the city rule', async () => {
+    rule = {
+      city: 'lagos',
+      baseFee: 400,
+      perKmRate: 60,
+      perKgRate: 50,
+      includedWeightKg: 5,
+      origin: lekki,
+      surgeWindows: [
+        {
+          label: 'Evening rush',
+          daysOfWeek: [],
+          startTime: '17:00',
+          endTime: '20:00',
+          multiplier: 1.5,
+        },
+      ],
+      isActive: true,
+    };
+
+    const quote = await service.quote({
+      items: [{ productId: riceId.toString(), quantity: 2 }],
+      destination: { city: 'Lagos', ...ikeja },
+      at: new Date('2024-03-06T17:30:00Z'), // 18:30 in Lagos
+    });
+
+    expect(quote.distanceKm).toBeGreaterThan(20);
+    expect(quote.distanceKm).toBeLessThan(23);
+    expect(quote.weightKg).toBe(10);
+    expect(quote.weightFee).toBe(250);
+    expect(quote.surgeMultiplier).toBe(1.5);
+    expect(quote.surgeLabel).toBe('Evening rush');
+    expect(quote.fee).toBe(
+      Math.round((400 + quote.distanceKm * 60 + 250) * 1.5),
+    );
+    expect(quote.deliveryFee).toBe(quote.fee);
+  });
+
+  it('should not surge outside the window', async () => {
+    rule = {
+      city: 'lagos',
+      baseFee: 400,
+      perKmRate: 0,
+      perKgRate: 0,
+      includedWeightKg: 0,
+      surgeWindows: [
+        { daysOfWeek: [], startTime: '17:00', endTime: '20:00', multiplier: 2 },
+      ],
+      isActive: true,
+    };
+
+    const quote = await service.quote({
+      items: [{ productId: riceId.toString(), quantity: 1 }],
+      destination: { city: 'Lagos' },
+      at: new Date('2024-03-06T10:00:00Z'),
+    });
+
+    expect(quote.surgeMultiplier).toBe(1);
+    expect(quote.fee).toBe(400);
+  });
+
+  it('should waive the fee above the free-delivery threshold but still pay the rider', async () => {
+    rule = {
+      city: 'lagos',
+      baseFee: 800,
+      perKmRate: 0,
+      perKgRate: 0,
+      includedWeightKg: 0,
+      freeDeliveryThreshold: 10000,
+      surgeWindows: [],
+      isActive: true,
+    };
+
+    const quote = await service.quote({
+      items: [{ productId: riceId.toString(), quantity: 1 }],
+      destination: { city: 'Lagos' },
+      subtotal: 12000,
+    });
+
+    expect(quote.fee).toBe(800);
+    expect(quote.deliveryFee).toBe(0);
+    expect(quote.freeDeliveryReason).toBe(FreeDeliveryReason.ORDER_THRESHOLD);
+    expect(quote.riderPayment).toBe(640);
+  });
+
+  it('should deliver free when every product has free delivery', async () => {
+    const quote = await service.quote({
+      items: [{ productId: yamId.toString(), quantity: 1 }],
+      destination: { city: 'Lagos' },
+    });
+
+    expect(quote.deliveryFee).toBe(0);
+    expect(quote.freeDeliveryReason).toBe(
+      FreeDeliveryReason.FREE_DELIVERY_PRODUCTS,
+    );
+  });
+
+  it('should refuse addresses beyond the maximum distance', async () => {
+    rule = {
+      city: 'lagos',
+      baseFee: 300,
+      perKmRate: 50,
+      perKgRate: 0,
+      includedWeightKg: 0,
+      maxDistanceKm: 10,
+      origin: lekki,
+      surgeWindows: [],
+      isActive: true,
+    };
+
+    await expect(
+      service.quote({
+        items: [{ productId: riceId.toString(), quantity: 1 }],
+        destination: { city: 'Lagos', ...ikeja },
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Delivery hours used for cities without their own settings
+ */
+export const DELIVERY_SLOT_DEFAULTS = {
+  START_TIME: '08:00',
+  END_TIME: '20:00',
+  SLOT_MINUTES: 120,
+  ORDERS_PER_RIDER: 4, // Orders one rider carries in a slot
+  MIN_CAPACITY: 0, // Orders taken per slot however few riders there are
+  CUTOFF_MINUTES: 180, // Booking and rescheduling close this long before a slot
+} as const;
+
+export const DELIVERY_SLOT_CONSTANTS = {
+  // Delivery hours are written in Lagos time (WAT, UTC+1, no DST)
+  TIMEZONE_OFFSET_MINUTES: 60,
+  BOOKING_DAYS: 7, // How far ahead slots can be booked
+} as const;
+
+export const DELIVERY_SLOT_ERROR_MESSAGES = {
+  CONFIG_NOT_FOUND: 'Delivery slot settings not found for this city',
+  SLOT_NOT_AVAILABLE: 'Delivery slot is not available',
+  SLOT_FULL: 'This delivery slot is fully booked',
+  SLOT_CLOSED:
+    'Delivery slots can no longer be booked or changed this close to their start',
+  OUTSIDE_BOOKING_WINDOW: 'Delivery slot is outside the booking window',
+  INVALID_TIME: 'Times must be in HH:mm format',
+  INVALID_HOURS: 'Delivery hours must end after they start',
+} as const;
@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { DeliverySlotsService } from './delivery-slots.service';
+import {
+  DeliverySlotsQueryDto,
+  UpsertDeliverySlotConfigDto,
+} from './dto/delivery-slot.dto';
+import { Public } from '../auth/decorators';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/entities/user.entity';
+
+@ApiTags('delivery-slots')
+@Controller('delivery-slots')
+export class DeliverySlotsController {
+  constructor(private readonly deliverySlotsService: DeliverySlotsService) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({
+    summary: 'Delivery slots in a city on a day, with how full each is',
+  })
+  @ApiResponse({ status: 200, description: 'Return the slots' })
+  getSlots(@Query() query: DeliverySlotsQueryDto) {
+    return this.deliverySlotsService.getSlots(query.city, query.date);
+  }
+
+  @Get('configs')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List per-city delivery slot settings (admin)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Slot settings retrieved successfully',
+  })
+  getConfigs() {
+    return this.deliverySlotsService.getConfigs();
+  }
+
+  @Put('configs/:city')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Create or replace the delivery slot settings for a city (admin)',
+  })
+  @ApiParam({ name: 'city', description: 'City name, e.g. Lagos' })
+  @ApiResponse({ status: 200, description: 'Slot settings saved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid delivery hours' })
+  upsertConfig(
+    @Param('city') city: string,
+    @Body() dto: UpsertDeliverySlotConfigDto,
+  ) {
+    return this.deliverySlotsService.upsertConfig(city, dto);
+  }
+
+  @Delete('configs/:city')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete the delivery slot settings for a city (admin)',
+  })
+  @ApiParam({ name: 'city', description: 'City name, e.g. Lagos' })
+  @ApiResponse({
+    status: 204,
+    description: 'Slot settings deleted; the city falls back to default hours',
+  })
+  @ApiResponse({ status: 404, description: 'No settings for this city' })
+  deleteConfig(@Param('city') city: string) {
+    return this.deliverySlotsService.deleteConfig(city);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DeliverySlotsController } from './delivery-slots.controller';
+import { DeliverySlotsService } from './delivery-slots.service';
+import {
+  DeliverySlotConfig,
+  DeliverySlotConfigSchema,
+} from './entities/delivery-slot-config.entity';
+import {
+  DeliverySlot,
+  DeliverySlotSchema,
+} from './entities/delivery-slot.entity';
+import { Rider, RiderSchema } from '../delivery/entities/rider.entity';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: DeliverySlotConfig.name, schema: DeliverySlotConfigSchema },
+      { name: DeliverySlot.name, schema: DeliverySlotSchema },
+      { name: Rider.name, schema: RiderSchema },
+    ]),
+  ],
+  controllers: [DeliverySlotsController],
+  providers: [DeliverySlotsService],
+  exports: [DeliverySlotsService],
+})
+export class DeliverySlotsModule {}
@@ -0,0 +1,391 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  DeliverySlotConfig,
+  DeliverySlotConfigDocument,
+} from './entities/delivery-slot-config.entity';
+import {
+  DeliverySlot,
+  DeliverySlotDocument,
+} from './entities/delivery-slot.entity';
+import {
+  Rider,
+  RiderDocument,
+  RiderStatus,
+} from '../delivery/entities/rider.entity';
+import { UpsertDeliverySlotConfigDto } from './dto/delivery-slot.dto';
+import {
+  BookingWindow,
+  DeliverySlotAvailability,
+  SlotSettings,
+  SlotTimes,
+} from './interfaces/delivery-slot.interface';
+import {
+  DELIVERY_SLOT_CONSTANTS,
+  DELIVERY_SLOT_DEFAULTS,
+  DELIVERY_SLOT_ERROR_MESSAGES,
+} from './constants/delivery-slot.constants';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Home delivery slots per city. Each slot takes as many orders as the
+ * city's active riders can carry; a booking only exists once an order
+ * takes the slot.
+ */
+@Injectable()
+export class DeliverySlotsService {
+  private readonly logger = new Logger(DeliverySlotsService.name);
+
+  constructor(
+    @InjectModel(DeliverySlotConfig.name)
+    private deliverySlotConfigModel: Model<DeliverySlotConfigDocument>,
+    @InjectModel(DeliverySlot.name)
+    private deliverySlotModel: Model<DeliverySlotDocument>,
+    @InjectModel(Rider.name) private riderModel: Model<RiderDocument>,
+  ) {}
+
+  /**
+   * A city's slots on a day with how full each is. Slots past their
+   * cutoff are left out.
+   */
+  async getSlots(
+    city: string,
+    date: string,
+  ): Promise<DeliverySlotAvailability[]> {
+    const settings = await this.getSettings(city);
+    const earliest = Date.now() + settings.cutoffMinutes * MINUTE_MS;
+    const slots = this.buildSlots(settings, date).filter(
+      (slot) => slot.startsAt.getTime() >= earliest,
+    );
+    if (!slots.length) {
+      return [];
+    }
+
+    const [capacity, bookings] = await Promise.all([
+      this.getCapacity(settings),
+      this.deliverySlotModel
+        .find({
+          city: settings.city,
+          startsAt: { $in: slots.map((slot) => slot.startsAt) },
+        })
+        .select('startsAt booked')
+        .lean(),
+    ]);
+    const booked = new Map(
+      bookings.map((booking) => [booking.startsAt.getTime(), booking.booked]),
+    );
+
+    return slots.map((slot) => {
+      const count = booked.get(slot.startsAt.getTime()) || 0;
+      return {
+        ...slot,
+        capacity,
+        booked: count,
+        available: count < capacity,
+      };
+    });
+  }
+
+  /**
+   * Book an order into the city's slot starting at the given time.
+   * Rebooking the same order is a no-op.
+   */
+  async book(
+    city: string,
+    startsAt: Date,
+    orderId: string,
+    window?: BookingWindow,
+  ): Promise<SlotTimes> {
+    const settings = await this.getSettings(city);
+    const slot = this.findSlot(settings, startsAt, window);
+    const order = new Types.ObjectId(orderId);
+
+    const existing = await this.deliverySlotModel.exists({
+      city: settings.city,
+      startsAt: slot.startsAt,
+      orderIds: order,
+    });
+    if (existing) {
+      return slot;
+    }
+
+    const capacity = await this.getCapacity(settings);
+    if (capacity === 0) {
+      throw new BadRequestException(DELIVERY_SLOT_ERROR_MESSAGES.SLOT_FULL);
+    }
+
+    try {
+      // A full slot fails the filter, so the upsert hits the unique index
+      await this.deliverySlotModel.findOneAndUpdate(
+        {
+          city: settings.city,
+          startsAt: slot.startsAt,
+          booked: { $lt: capacity },
+        },
+        {
+          $inc: { booked: 1 },
+          $push: { orderIds: order },
+          $setOnInsert: { endsAt: slot.endsAt },
+        },
+        { upsert: true, new: true },
+      );
+    } catch (error) {
+      if (error.code === 11000) {
+        throw new BadRequestException(DELIVERY_SLOT_ERROR_MESSAGES.SLOT_FULL);
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Booked order ${orderId} for delivery at ${slot.startsAt.toISOString()}`,
+    );
+    return slot;
+  }
+
+  /**
+   * Move an order to another slot. The old slot is only given up once the
+   * new one is booked, and neither may be past its cutoff.
+   */
+  async reschedule(
+    city: string,
+    orderId: string,
+    from: Date,
+    to: Date,
+    window?: BookingWindow,
+  ): Promise<SlotTimes> {
+    const settings = await this.getSettings(city);
+    if (from.getTime() < Date.now() + settings.cutoffMinutes * MINUTE_MS) {
+      throw new BadRequestException(DELIVERY_SLOT_ERROR_MESSAGES.SLOT_CLOSED);
+    }
+    if (from.getTime() === to.getTime()) {
+      return this.findSlot(settings, to, window);
+    }
+
+    const slot = await this.book(city, to, orderId, window);
+    await this.release(orderId, { city, startsAt: from });
+
+    this.logger.log(
+      `Moved order ${orderId} from ${from.toISOString()} to ${slot.startsAt.toISOString()}`,
+    );
+    return slot;
+  }
+
+  /**
+   * Free an order's slot, e.g. when it is cancelled. Pass the slot to free
+   * just that one while the order moves to another. Safe to call for
+   * orders without one.
+   */
+  async release(
+    orderId: string,
+    slot?: { city: string; startsAt: Date },
+  ): Promise<boolean> {
+    const order = new Types.ObjectId(orderId);
+    const filter = slot
+      ? {
+          city: this.normalizeCity(slot.city),
+          startsAt: slot.startsAt,
+          orderIds: order,
+        }
+      : { orderIds: order };
+    const result = await this.deliverySlotModel.updateOne(filter, {
+      $inc: { booked: -1 },
+      $pull: { orderIds: order },
+    });
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Other orders booked into the same slot as this one
+   */
+  async findSlotmates(orderId: string): Promise<Types.ObjectId[]> {
+    const order = new Types.ObjectId(orderId);
+    const slot = await this.deliverySlotModel
+      .findOne({ orderIds: order })
+      .select('orderIds')
+      .lean();
+    return (slot?.orderIds || []).filter((id) => !id.equals(order));
+  }
+
+  /**
+   * A city's slot settings, or the defaults when it has none
+   */
+  async getSettings(city: string): Promise<SlotSettings> {
+    const normalizedCity = this.normalizeCity(city);
+    const config = await this.deliverySlotConfigModel
+      .findOne({ city: normalizedCity, isActive: true })
+      .lean();
+
+    return (
+      config || {
+        city: normalizedCity,
+        daysOfWeek: [],
+        startTime: DELIVERY_SLOT_DEFAULTS.START_TIME,
+        endTime: DELIVERY_SLOT_DEFAULTS.END_TIME,
+        slotMinutes: DELIVERY_SLOT_DEFAULTS.SLOT_MINUTES,
+        ordersPerRider: DELIVERY_SLOT_DEFAULTS.ORDERS_PER_RIDER,
+        minCapacity: DELIVERY_SLOT_DEFAULTS.MIN_CAPACITY,
+        cutoffMinutes: DELIVERY_SLOT_DEFAULTS.CUTOFF_MINUTES,
+        isActive: true,
+      }
+    );
+  }
+
+  async getConfigs(): Promise<DeliverySlotConfig[]> {
+    return this.deliverySlotConfigModel.find().sort({ city: 1 }).lean();
+  }
+
+  async upsertConfig(
+    city: string,
+    dto: UpsertDeliverySlotConfigDto,
+  ): Promise<DeliverySlotConfig> {
+    if (this.toMinutes(dto.endTime) <= this.toMinutes(dto.startTime)) {
+      throw new BadRequestException(DELIVERY_SLOT_ERROR_MESSAGES.INVALID_HOURS);
+    }
+
+    const normalizedCity = this.normalizeCity(city);
+    const config = await this.deliverySlotConfigModel.findOneAndUpdate(
+      { city: normalizedCity },
+      { $set: { ...dto, city: normalizedCity } },
+      {
+        new: true,
+        upsert: true,
+        runValidators: true,
+        setDefaultsOnInsert: true,
+      },
+    );
+
+    this.logger.log(`Delivery slot settings saved for ${normalizedCity}`);
+    return config;
+  }
+
+  async deleteConfig(city: string): Promise<void> {
+    const result = await this.deliverySlotConfigModel.deleteOne({
+      city: this.normalizeCity(city),
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(
+        DELIVERY_SLOT_ERROR_MESSAGES.CONFIG_NOT_FOUND,
+      );
+    }
+  }
+
+  /**
+   * Slots on a local day, back to back through the delivery hours. None on
+   * days deliveries do not run.
+   */
+  buildSlots(
+    settings: Pick<
+      SlotSettings,
+      'daysOfWeek' | 'startTime' | 'endTime' | 'slotMinutes'
+    >,
+    date: string,
+  ): SlotTimes[] {
+    const [year, month, day] = date.split('-').map(Number);
+    const localMidnight = Date.UTC(year, month - 1, day);
+    const dayOfWeek = new Date(localMidnight).getUTCDay();
+    if (
+      settings.daysOfWeek?.length &&
+      !settings.daysOfWeek.includes(dayOfWeek)
+    ) {
+      return [];
+    }
+
+    const midnight =
+      localMidnight -
+      DELIVERY_SLOT_CONSTANTS.TIMEZONE_OFFSET_MINUTES * MINUTE_MS;
+    const end = this.toMinutes(settings.endTime);
+    const slots: SlotTimes[] = [];
+    for (
+      let start = this.toMinutes(settings.startTime);
+      start + settings.slotMinutes <= end;
+      start += settings.slotMinutes
+    ) {
+      slots.push({
+        startsAt: new Date(midnight + start * MINUTE_MS),
+        endsAt: new Date(midnight + (start + settings.slotMinutes) * MINUTE_MS),
+      });
+    }
+    return slots;
+  }
+
+  /**
+   * The city's slot starting exactly at the given time, if it is before
+   * its cutoff and inside the booking window
+   */
+  private findSlot(
+    settings: SlotSettings,
+    startsAt: Date,
+    window?: BookingWindow,
+  ): SlotTimes {
+    const now = Date.now();
+    if (startsAt.getTime() < now + settings.cutoffMinutes * MINUTE_MS) {
+      throw new BadRequestException(DELIVERY_SLOT_ERROR_MESSAGES.SLOT_CLOSED);
+    }
+
+    const from = window?.from.getTime() ?? now;
+    const to =
+      window?.to.getTime() ??
+      now + DELIVERY_SLOT_CONSTANTS.BOOKING_DAYS * DAY_MS;
+    if (startsAt.getTime() < from || startsAt.getTime() > to) {
+      throw new BadRequestException(
+        DELIVERY_SLOT_ERROR_MESSAGES.OUTSIDE_BOOKING_WINDOW,
+      );
+    }
+
+    const slot = this.buildSlots(settings, this.toLocalDate(startsAt)).find(
+      (candidate) => candidate.startsAt.getTime() === startsAt.getTime(),
+    );
+    if (!slot) {
+      throw new BadRequestException(
+        DELIVERY_SLOT_ERROR_MESSAGES.SLOT_NOT_AVAILABLE,
+      );
+    }
+    return slot;
+  }
+
+  /**
+   * Orders a slot takes: what the city's active riders can carry, but no
+   * less than the city's minimum
+   */
+  private async getCapacity(settings: SlotSettings): Promise<number> {
+    const riders = await this.riderModel.countDocuments({
+      status: RiderStatus.ACTIVE,
+      serviceAreas: this.cityPattern(settings.city),
+    });
+    return Math.max(
+      settings.minCapacity || 0,
+      riders * settings.ordersPerRider,
+    );
+  }
+
+  private toLocalDate(at: Date): string {
+    return new Date(
+      at.getTime() +
+        DELIVERY_SLOT_CONSTANTS.TIMEZONE_OFFSET_MINUTES * MINUTE_MS,
+    )
+      .toISOString()
+      .slice(0, 10);
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private normalizeCity(city: string): string {
+    return (city || '').trim().toLowerCase();
+  }
+
+  private cityPattern(city: string): RegExp {
+    const escaped = city.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^${escaped}$`, 'i');
+  }
+}
@@ -0,0 +1,110 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsDateString,
+  Min,
+  Max,
+  Matches,
+} from 'class-validator';
+import { DELIVERY_SLOT_ERROR_MESSAGES } from '../constants/delivery-slot.constants';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class UpsertDeliverySlotConfigDto {
+  @ApiPropertyOptional({
+    description: 'Days deliveries run (0 = Sunday). Omit for every day',
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek?: number[];
+
+  @ApiProperty({
+    description: 'Start of the first slot, HH:mm Lagos time',
+    example: '08:00',
+  })
+  @Matches(TIME_PATTERN, {
+    message: DELIVERY_SLOT_ERROR_MESSAGES.INVALID_TIME,
+  })
+  startTime: string;
+
+  @ApiProperty({
+    description: 'End of the last slot, HH:mm Lagos time',
+    example: '20:00',
+  })
+  @Matches(TIME_PATTERN, {
+    message: DELIVERY_SLOT_ERROR_MESSAGES.INVALID_TIME,
+  })
+  endTime: string;
+
+  @ApiProperty({ description: 'Length of a slot in minutes', example: 120 })
+  @IsInt()
+  @Min(30)
+  slotMinutes: number;
+
+  @ApiProperty({
+    description: 'Orders one rider carries in a slot',
+    example: 4,
+  })
+  @IsInt()
+  @Min(1)
+  ordersPerRider: number;
+
+  @ApiPropertyOptional({
+    description: 'Orders taken per slot however few riders there are',
+    example: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minCapacity?: number;
+
+  @ApiProperty({
+    description:
+      'Minutes before a slot starts that booking and rescheduling close',
+    example: 180,
+  })
+  @IsInt()
+  @Min(0)
+  cutoffMinutes: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the settings are used',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class DeliverySlotsQueryDto {
+  @ApiProperty({ description: 'City delivered to', example: 'Lagos' })
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @ApiProperty({
+    description: 'Day to list slots for (YYYY-MM-DD, Lagos time)',
+    example: '2026-10-20',
+  })
+  @Matches(DATE_PATTERN, { message: 'Date must be in YYYY-MM-DD format' })
+  date: string;
+}
+
+export class BookDeliverySlotDto {
+  @ApiProperty({
+    description: "Start of the delivery slot, from the city's delivery slots",
+    example: '2026-10-20T09:00:00.000Z',
+  })
+  @IsDateString()
+  slotStart: string;
+}
@@ -0,0 +1,73 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type DeliverySlotConfigDocument = DeliverySlotConfig & Document;
+
+/**
+ * How a city's delivery day is cut into slots and how many orders each
+ * takes. Capacity follows the riders serving the city.
+ */
+@Schema({ timestamps: true })
+export class DeliverySlotConfig {
+  @ApiProperty({
+    description: 'City the settings apply to (stored lowercase)',
+    example: 'lagos',
+  })
+  @Prop({ required: true, type: String, lowercase: true, trim: true })
+  city: string;
+
+  @ApiProperty({
+    description: 'Days deliveries run (0 = Sunday). Empty means every day',
+    type: [Number],
+  })
+  @Prop({ type: [Number], default: [] })
+  daysOfWeek: number[];
+
+  @ApiProperty({
+    description: 'Start of the first slot, HH:mm Lagos time',
+    example: '08:00',
+  })
+  @Prop({ required: true, type: String })
+  startTime: string;
+
+  @ApiProperty({
+    description: 'End of the last slot, HH:mm Lagos time',
+    example: '20:00',
+  })
+  @Prop({ required: true, type: String })
+  endTime: string;
+
+  @ApiProperty({ description: 'Length of a slot in minutes', example: 120 })
+  @Prop({ required: true, type: Number, min: 30 })
+  slotMinutes: number;
+
+  @ApiProperty({ description: 'Orders one rider carries in a slot' })
+  @Prop({ required: true, type: Number, min: 1 })
+  ordersPerRider: number;
+
+  @ApiProperty({
+    description: 'Orders taken per slot however few riders there are',
+  })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  minCapacity: number;
+
+  @ApiProperty({
+    description:
+      'Minutes before a slot starts that booking and rescheduling close',
+  })
+  @Prop({ required: true, type: Number, min: 0 })
+  cutoffMinutes: number;
+
+  @ApiProperty({ description: 'Whether the settings are used' })
+  @Prop({ required: true, type: Boolean, default: true })
+  isActive: boolean;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DeliverySlotConfigSchema =
+  SchemaFactory.createForClass(DeliverySlotConfig);
+
+DeliverySlotConfigSchema.index({ city: 1 }, { unique: true });
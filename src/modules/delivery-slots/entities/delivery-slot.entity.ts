@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type DeliverySlotDocument = DeliverySlot & Document;
+
+/**
+ * Bookings for one delivery slot in a city. Created on the first booking;
+ * slots nobody has booked only exist in the city's delivery hours.
+ */
+@Schema({ timestamps: true })
+export class DeliverySlot {
+  @ApiProperty({ description: 'City delivered to (stored lowercase)' })
+  @Prop({ required: true, type: String, lowercase: true, trim: true })
+  city: string;
+
+  @ApiProperty({ description: 'Slot start' })
+  @Prop({ required: true, type: Date })
+  startsAt: Date;
+
+  @ApiProperty({ description: 'Slot end' })
+  @Prop({ required: true, type: Date })
+  endsAt: Date;
+
+  @ApiProperty({ description: 'Orders booked into the slot' })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  booked: number;
+
+  @ApiProperty({ description: 'Orders delivered in this slot' })
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Order' }], default: [] })
+  orderIds: Types.ObjectId[];
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DeliverySlotSchema = SchemaFactory.createForClass(DeliverySlot);
+
+DeliverySlotSchema.index({ city: 1, startsAt: 1 }, { unique: true });
+DeliverySlotSchema.index({ orderIds: 1 });
@@ -0,0 +1,5 @@
+export * from './delivery-slots.module';
+export * from './delivery-slots.service';
+export * from './entities/delivery-slot.entity';
+export * from './entities/delivery-slot-config.entity';
+export * from './interfaces/delivery-slot.interface';
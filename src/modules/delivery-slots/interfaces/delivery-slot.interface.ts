@@ -0,0 +1,24 @@
+import { DeliverySlotConfig } from '../entities/delivery-slot-config.entity';
+
+export type SlotSettings = Omit<DeliverySlotConfig, 'createdAt' | 'updatedAt'>;
+
+export interface SlotTimes {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface DeliverySlotAvailability extends SlotTimes {
+  capacity: number;
+  booked: number;
+  available: boolean;
+}
+
+/**
+ * Earliest and latest slot start an order may book, e.g. a Price Lock
+ * order's 30–45 day delivery window. Slots inside the cutoff are never
+ * bookable.
+ */
+export interface BookingWindow {
+  from: Date;
+  to: Date;
+}
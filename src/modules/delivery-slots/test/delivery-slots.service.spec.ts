@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { DeliverySlotsService } from '../delivery-slots.service';
+import { DeliverySlotConfig } from '../entities/delivery-slot-config.entity';
+import { DeliverySlot } from '../entities/delivery-slot.entity';
+import { Rider } from '../../delivery/entities/rider.entity';
+import { DELIVERY_SLOT_ERROR_MESSAGES } from '../constants/delivery-slot.constants';
+
+describe('DeliverySlotsService', () => {
+  let service: DeliverySlotsService;
+  let configModel: any;
+  let slotModel: any;
+  let riderModel: any;
+  let config: any;
+
+  const orderId = new Types.ObjectId();
+  const lean = (value: any) => ({ lean: jest.fn().mockResolvedValue(value) });
+
+  beforeEach(async () => {
+    // Weekdays 08:00-12:00 Lagos time in two-hour slots
+    config = {
+      city: 'lagos',
+      daysOfWeek: [1, 2, 3, 4, 5],
+      startTime: '08:00',
+      endTime: '12:00',
+      slotMinutes: 120,
+      ordersPerRider: 3,
+      minCapacity: 0,
+      cutoffMinutes: 180,
+      isActive: true,
+    };
+
+    configModel = {
+      findOne: jest.fn(() => lean(config)),
+      findOneAndUpdate: jest.fn(),
+      deleteOne: jest.fn(),
+    };
+    slotModel = {
+      find: jest.fn(() => ({ select: jest.fn(() => lean([])) })),
+      findOne: jest.fn(),
+      exists: jest.fn().mockResolvedValue(null),
+      findOneAndUpdate: jest.fn().mockResolvedValue({}),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+    riderModel = { countDocuments: jest.fn().mockResolvedValue(2) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeliverySlotsService,
+        {
+          provide: getModelToken(DeliverySlotConfig.name),
+          useValue: configModel,
+        },
+        { provide: getModelToken(DeliverySlot.name), useValue: slotModel },
+        { provide: getModelToken(Rider.name), useValue: riderModel },
+      ],
+    }).compile();
+
+    service = module.get<DeliverySlotsService>(DeliverySlotsService);
+
+    // Monday 19 October 2026, 06:00 in Lagos
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-19T05:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getSlots', () => {
+    it('should size slots by the riders serving the city', async () => {
+      slotModel.find.mockReturnValue({
+        select: jest.fn(() =>
+          lean([{ startsAt: new Date('2026-10-20T09:00:00Z'), booked: 6 }]),
+        ),
+      });
+
+      const slots = await service.getSlots('Lagos', '2026-10-20');
+
+      expect(slots).toEqual([
+        expect.objectContaining({
+          startsAt: new Date('2026-10-20T07:00:00Z'),
+          capacity: 6,
+          booked: 0,
+          available: true,
+        }),
+        expect.objectContaining({
+          startsAt: new Date('2026-10-20T09:00:00Z'),
+          capacity: 6,
+          booked: 6,
+          available: false,
+        }),
+      ]);
+    });
+
+    it('should leave out slots past their cutoff and days without deliveries', async () => {
+      // 08:00 starts within three hours, 10:00 does not
+      const today = await service.getSlots('Lagos', '2026-10-19');
+      expect(today.map((slot) => slot.startsAt)).toEqual([
+        new Date('2026-10-19T09:00:00Z'),
+      ]);
+
+      // Saturday
+      expect(await service.getSlots('Lagos', '2026-10-24')).toEqual([]);
+    });
+  });
+
+  describe('book', () => {
+    it('should only take slots inside the booking window', async () => {
+      const inTwoWeeks = new Date('2026-11-02T07:00:00Z');
+
+      await expect(
+        service.book('Lagos', inTwoWeeks, orderId.toString()),
+      ).rejects.toThrow(DELIVERY_SLOT_ERROR_MESSAGES.OUTSIDE_BOOKING_WINDOW);
+
+      // A Price Lock order's window reaches further out
+      const slot = await service.book('Lagos', inTwoWeeks, orderId.toString(), {
+        from: new Date('2026-11-01T00:00:00Z'),
+        to: new Date('2026-11-15T00:00:00Z'),
+      });
+      expect(slot.endsAt).toEqual(new Date('2026-11-02T09:00:00Z'));
+      expect(slotModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { city: 'lagos', startsAt: inTwoWeeks, booked: { $lt: 6 } },
+        expect.objectContaining({ $inc: { booked: 1 } }),
+        { upsert: true, new: true },
+      );
+    });
+
+    it('should report a full slot', async () => {
+      slotModel.findOneAndUpdate.mockRejectedValue({ code: 11000 });
+
+      await expect(
+        service.book(
+          'Lagos',
+          new Date('2026-10-20T07:00:00Z'),
+          orderId.toString(),
+        ),
+      ).rejects.toThrow(DELIVERY_SLOT_ERROR_MESSAGES.SLOT_FULL);
+    });
+
+    it('should not book without riders or a minimum capacity', async () => {
+      riderModel.countDocuments.mockResolvedValue(0);
+
+      await expect(
+        service.book(
+          'Lagos',
+          new Date('2026-10-20T07:00:00Z'),
+          orderId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(slotModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reschedule', () => {
+    it('should refuse once the current slot is past its cutoff', async () => {
+      await expect(
+        service.reschedule(
+          'Lagos',
+          orderId.toString(),
+          new Date('2026-10-19T07:00:00Z'),
+          new Date('2026-10-20T07:00:00Z'),
+        ),
+      ).rejects.toThrow(DELIVERY_SLOT_ERROR_MESSAGES.SLOT_CLOSED);
+      expect(slotModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should give up the old slot after booking the new one', async () => {
+      const from = new Date('2026-10-20T07:00:00Z');
+
+      await service.reschedule(
+        'Lagos',
+        orderId.toString(),
+        from,
+        new Date('2026-10-21T09:00:00Z'),
+      );
+
+      expect(slotModel.findOneAndUpdate).toHaveBeenCalled();
+      expect(slotModel.updateOne).toHaveBeenCalledWith(
+        { city: 'lagos', startsAt: from, orderIds: orderId },
+        { $inc: { booked: -1 }, $pull: { orderIds: orderId } },
+      );
+    });
+  });
+});
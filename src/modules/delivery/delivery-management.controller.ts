@@ -29,6 +29,11 @@ export class ManualAssignmentDto {
   @IsString()
   @IsNotEmpty()
   riderId: string;
+
+  @ApiProperty({ description: 'Sub-order to assign, for one seller\'s share of a split order', required: false })
+  @IsOptional()
+  @IsString()
+  subOrderId?: string;
 }
 
 export class DeliveryAddressDto {
@@ -140,6 +145,7 @@ export class DeliveryManagementController {
         assignmentDto.orderId,
         assignmentDto.riderId,
         'admin', // TODO: Get from authenticated user
+        assignmentDto.subOrderId,
       );
 
       if (!success) {
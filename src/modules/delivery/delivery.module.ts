@@ -10,12 +10,16 @@ import { DeliveryManagementController } from './delivery-management.controller';
 import { Delivery, DeliverySchema } from '../delivery/entities/delivery.entity';
 import { Rider, RiderSchema } from '../delivery/entities/rider.entity';
 import { Order, OrderSchema } from '../orders/entities/order.entity';
+import { SubOrder, SubOrderSchema } from '../orders/entities/sub-order.entity';
 import { User, UserSchema } from '../users/entities/user.entity';
 import { Wallet, WalletSchema } from '../wallets/entities/wallet.entity';
 import { UsersModule } from '../users/users.module';
 import { AuthModule } from '../auth/auth.module';
 import { WalletsModule } from '../wallets/wallets.module';
 import { OrdersModule } from '../orders/orders.module';
+import { DeliveryPricingModule } from '../delivery-pricing/delivery-pricing.module';
+import { StoresModule } from '../stores/stores.module';
+import { DeliverySlotsModule } from '../delivery-slots/delivery-slots.module';
 
 @Module({
   imports: [
@@ -23,6 +27,7 @@ import { OrdersModule } from '../orders/orders.module';
       { name: Delivery.name, schema: DeliverySchema },
       { name: Rider.name, schema: RiderSchema },
       { name: Order.name, schema: OrderSchema },
+      { name: SubOrder.name, schema: SubOrderSchema },
       { name: User.name, schema: UserSchema },
       { name: Wallet.name, schema: WalletSchema },
     ]),
@@ -30,6 +35,9 @@ import { OrdersModule } from '../orders/orders.module';
     forwardRef(() => AuthModule),
     forwardRef(() => WalletsModule),
     forwardRef(() => OrdersModule),
+    DeliveryPricingModule,
+    StoresModule,
+    DeliverySlotsModule,
   ],
   controllers: [DeliveryController, RidersController, DeliveryManagementController],
   providers: [
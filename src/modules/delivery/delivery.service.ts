@@ -1,16 +1,27 @@
-import { Injectable, NotFoundException, BadRequestException, ForbiddenException, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException, Logger, Inject, forwardRef } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { DeliveryStatus, PaymentStatus, UserRole, OrderStatus, RiderStatus } from '../../shared/enums';
 import { Delivery, DeliveryDocument } from './entities/delivery.entity';
-import { Order, OrderDocument } from '../orders/entities/order.entity';
+import { Order, OrderDocument, OrderStatus as ParentOrderStatus } from '../orders/entities/order.entity';
+import { SubOrder, SubOrderDocument, SubOrderStatus } from '../orders/entities/sub-order.entity';
+import { SubOrdersService } from '../orders/services/sub-orders.service';
 import { Rider, RiderDocument } from './entities/rider.entity';
 import { User, UserDocument } from '../users/entities/user.entity';
-import { Wallet, WalletDocument } from '../wallets/entities/wallet.entity';
+import { WalletsService } from '../wallets/wallets.service';
+import { WalletType } from '../wallets/dto';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../wallets/entities/wallet-ledger-entry.entity';
 import { RidersService } from './riders.service';
+import { DeliveryPricingService } from '../delivery-pricing/delivery-pricing.service';
+import { DeliveryQuote } from '../delivery-pricing/interfaces/delivery-quote.interface';
 import {
   CreateDeliveryDto,
+  CreateReturnPickupDto,
   AssignRiderDto,
   RiderResponseDto,
   UpdateDeliveryStatusDto,
@@ -26,14 +37,18 @@ export class DeliveryService {
   constructor(
     @InjectModel(Delivery.name) private deliveryModel: Model<DeliveryDocument>,
     @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @InjectModel(SubOrder.name) private subOrderModel: Model<SubOrderDocument>,
     @InjectModel(Rider.name) private riderModel: Model<RiderDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
-    @InjectModel(Wallet.name) private walletModel: Model<WalletDocument>,
     private ridersService: RidersService,
+    private walletsService: WalletsService,
+    private deliveryPricingService: DeliveryPricingService,
+    @Inject(forwardRef(() => SubOrdersService))
+    private subOrdersService: SubOrdersService,
   ) {}
 
   async create(createDeliveryDto: CreateDeliveryDto): Promise<Delivery> {
-    const { orderId, customerId } = createDeliveryDto;
+    const { orderId, subOrderId, customerId } = createDeliveryDto;
 
     // Check if order exists
     const order = await this.orderModel.findById(orderId);
@@ -41,10 +56,23 @@ export class DeliveryService {
       throw new NotFoundException('Order not found');
     }
 
-    // Check if delivery already exists for this order
-    const existingDelivery = await this.deliveryModel.findOne({ orderId: new Types.ObjectId(orderId) });
+    const subOrder = subOrderId
+      ? await this.subOrderModel.findOne({ _id: new Types.ObjectId(subOrderId), parentOrderId: order._id })
+      : null;
+    if (subOrderId && !subOrder) {
+      throw new NotFoundException('Sub-order not found for this order');
+    }
+
+    // Check if delivery already exists for this order or sub-order
+    const existingDelivery = await this.deliveryModel.findOne({
+      orderId: new Types.ObjectId(orderId),
+      subOrderId: subOrder ? subOrder._id : null,
+      returnRequestId: null,
+    });
     if (existingDelivery) {
-      throw new BadRequestException('Delivery already exists for this order');
+      throw new BadRequestException(
+        subOrder ? 'Delivery already exists for this sub-order' : 'Delivery already exists for this order',
+      );
     }
 
     // Check if customer exists
@@ -53,10 +81,20 @@ export class DeliveryService {
       throw new NotFoundException('Customer not found');
     }
 
+    // Reuse the quote the customer was charged from; price older orders now
+    const quote = order.deliveryQuote || await this.quoteForOrder(order, createDeliveryDto);
+
+    // A sub-order carries its share of the fee; the rider is paid the same share
+    const feeShare = subOrder && quote.deliveryFee > 0 ? subOrder.deliveryFee / quote.deliveryFee : 1;
+
     // Create delivery
     const delivery = new this.deliveryModel({
       ...createDeliveryDto,
+      distance: createDeliveryDto.distance ?? quote.distanceKm,
+      deliveryFee: createDeliveryDto.deliveryFee ?? (subOrder ? subOrder.deliveryFee : quote.deliveryFee),
+      riderPayment: createDeliveryDto.riderPayment ?? Math.round(quote.riderPayment * feeShare * 100) / 100,
       orderId: new Types.ObjectId(orderId),
+      subOrderId: subOrder?._id,
       customerId: new Types.ObjectId(customerId),
       status: DeliveryStatus.PENDING_ASSIGNMENT,
       paymentStatus: PaymentStatus.PENDING,
@@ -71,9 +109,92 @@ export class DeliveryService {
       seenByRider: false,
     });
 
+    const savedDelivery = await delivery.save();
+
+    if (subOrder) {
+      await this.subOrderModel.updateOne({ _id: subOrder._id }, { deliveryId: savedDelivery._id });
+    }
+
+    return savedDelivery;
+  }
+
+  /**
+   * Book a rider to collect returned items from the customer and bring them
+   * to the store. The rider is paid from the quote; the customer is not charged.
+   */
+  async createReturnPickup(createReturnPickupDto: CreateReturnPickupDto): Promise<Delivery> {
+    const { orderId, returnRequestId, customerId, pickupLocation, dropoffLocation } = createReturnPickupDto;
+
+    const existingPickup = await this.deliveryModel.findOne({
+      orderId: new Types.ObjectId(orderId),
+      returnRequestId: new Types.ObjectId(returnRequestId),
+    });
+    if (existingPickup) {
+      throw new BadRequestException('A pickup is already scheduled for this return');
+    }
+
+    const [pickupLongitude, pickupLatitude] = pickupLocation.coordinates || [];
+    const [longitude, latitude] = dropoffLocation.coordinates || [];
+
+    const quote = await this.deliveryPricingService.quote({
+      items: createReturnPickupDto.items,
+      destination: { city: dropoffLocation.city, latitude, longitude },
+      origin: pickupLatitude !== undefined && pickupLongitude !== undefined
+        ? { latitude: pickupLatitude, longitude: pickupLongitude }
+        : undefined,
+    });
+
+    const delivery = new this.deliveryModel({
+      orderId: new Types.ObjectId(orderId),
+      returnRequestId: new Types.ObjectId(returnRequestId),
+      customerId: new Types.ObjectId(customerId),
+      pickupLocation,
+      deliveryLocation: dropoffLocation,
+      distance: quote.distanceKm,
+      deliveryFee: 0,
+      riderPayment: quote.riderPayment,
+      status: DeliveryStatus.PENDING_ASSIGNMENT,
+      paymentStatus: PaymentStatus.PENDING,
+      statusHistory: [
+        {
+          status: DeliveryStatus.PENDING_ASSIGNMENT,
+          timestamp: new Date(),
+          notes: 'Return pickup created',
+        },
+      ],
+      timeLogs: {},
+      seenByRider: false,
+      notes: createReturnPickupDto.notes,
+    });
+
     return delivery.save();
   }
 
+  private async quoteForOrder(
+    order: OrderDocument,
+    createDeliveryDto: CreateDeliveryDto,
+  ): Promise<DeliveryQuote> {
+    // Location coordinates are stored as [longitude, latitude]
+    const [pickupLongitude, pickupLatitude] = createDeliveryDto.pickupLocation.coordinates || [];
+    const [longitude, latitude] = createDeliveryDto.deliveryLocation.coordinates || [];
+
+    return this.deliveryPricingService.quote({
+      items: order.items.map((item) => ({
+        productId: item.productId.toString(),
+        quantity: item.quantity,
+      })),
+      destination: {
+        city: createDeliveryDto.deliveryLocation.city,
+        latitude: latitude ?? order.deliveryAddress?.latitude,
+        longitude: longitude ?? order.deliveryAddress?.longitude,
+      },
+      origin: pickupLatitude !== undefined && pickupLongitude !== undefined
+        ? { latitude: pickupLatitude, longitude: pickupLongitude }
+        : undefined,
+      subtotal: order.totalAmount,
+    });
+  }
+
   async findAll(filterDto: DeliveryFilterDto = {}): Promise<Delivery[]> {
     const {
       status,
@@ -138,7 +259,11 @@ export class DeliveryService {
   }
 
   async findByOrderId(orderId: string): Promise<Delivery> {
-    const delivery = await this.deliveryModel.findOne({ orderId: new Types.ObjectId(orderId) });
+    const delivery = await this.deliveryModel.findOne({
+      orderId: new Types.ObjectId(orderId),
+      subOrderId: null,
+      returnRequestId: null,
+    });
     if (!delivery) {
       throw new NotFoundException('Delivery not found for this order');
     }
@@ -202,6 +327,13 @@ export class DeliveryService {
     // Mark rider as assigned to delivery
     await this.ridersService.setDeliveryStatus(riderId, true);
 
+    if (delivery.subOrderId) {
+      await this.subOrderModel.updateOne(
+        { _id: delivery.subOrderId },
+        { assignedRider: delivery.riderId, riderAssignedAt: now },
+      );
+    }
+
     // Save and return delivery
     return delivery.save();
   }
@@ -314,12 +446,22 @@ export class DeliveryService {
     });
 
     // Special handling for different statuses
+    // Return pickups carry returned items; the return workflow owns the order status
+    const isReturnPickup = !!delivery.returnRequestId;
+    // Sub-order deliveries move their sub-order; the order follows once all have
+    const subOrderId = delivery.subOrderId?.toString();
+
     if (status === DeliveryStatus.PICKED_UP || status === DeliveryStatus.IN_TRANSIT) {
       // Update order status to SHIPPED when rider picks up
-      await this.orderModel.findByIdAndUpdate(
-        delivery.orderId,
-        { status: OrderStatus.SHIPPED }
-      );
+      if (subOrderId) {
+        await this.subOrdersService.applyDeliveryStatus(subOrderId, SubOrderStatus.SHIPPED, 'Picked up by rider', userId);
+      } else if (!isReturnPickup) {
+        await this.orderModel.findByIdAndUpdate(
+          delivery.orderId,
+          { status: OrderStatus.SHIPPED }
+        );
+        await this.subOrdersService.syncWithParent(delivery.orderId.toString(), ParentOrderStatus.SHIPPED, userId);
+      }
     } 
     else if (status === DeliveryStatus.DELIVERED) {
       // Calculate delivery time in minutes
@@ -338,10 +480,15 @@ export class DeliveryService {
     }
     else if (status === DeliveryStatus.COMPLETED) {
       // When customer confirms delivery, update order status
-      await this.orderModel.findByIdAndUpdate(
-        delivery.orderId,
-        { status: OrderStatus.DELIVERED }
-      );
+      if (subOrderId) {
+        await this.subOrdersService.applyDeliveryStatus(subOrderId, SubOrderStatus.DELIVERED, 'Delivery confirmed', userId);
+      } else if (!isReturnPickup) {
+        await this.orderModel.findByIdAndUpdate(
+          delivery.orderId,
+          { status: OrderStatus.DELIVERED }
+        );
+        await this.subOrdersService.syncWithParent(delivery.orderId.toString(), ParentOrderStatus.DELIVERED, userId);
+      }
       
       // Update rider stats for completed delivery
       if (delivery.riderId) {
@@ -405,15 +552,21 @@ export class DeliveryService {
       throw new NotFoundException('Rider not found');
     }
 
-    // Get rider's wallet
-    const wallet = await this.walletModel.findOne({ userId: rider.userId });
-    if (!wallet) {
-      throw new NotFoundException('Wallet not found for rider');
-    }
-
-    // Update wallet balance
-    wallet.foodMoney += delivery.riderPayment;
-    await wallet.save();
+    // Credit the rider's wallet
+    await this.walletsService.creditWallet(
+      rider.userId.toString(),
+      WalletType.FOOD_MONEY,
+      delivery.riderPayment,
+      `Rider payment for delivery ${delivery._id}`,
+      {
+        transactionType: LedgerTransactionType.RIDER_PAYOUT,
+        counterAccount: LedgerAccount.SYSTEM_PAYOUTS,
+        reference: {
+          type: LedgerReferenceType.DELIVERY,
+          id: delivery._id.toString(),
+        },
+      },
+    );
 
     // Update delivery payment status
     delivery.paymentStatus = PaymentStatus.RELEASED;
@@ -49,6 +49,14 @@ export class CreateDeliveryDto {
   @IsNotEmpty()
   orderId: string;
 
+  @ApiProperty({
+    description: 'Sub-order to deliver, when one seller\'s items of a split order travel separately',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  subOrderId?: string;
+
   @ApiProperty({ description: 'Customer ID (user who placed the order)' })
   @IsMongoId()
   @IsNotEmpty()
@@ -64,20 +72,23 @@ export class CreateDeliveryDto {
   @Type(() => DeliveryLocationDto)
   deliveryLocation: DeliveryLocationDto;
 
-  @ApiProperty({ description: 'Estimated delivery distance (km)' })
+  @ApiProperty({ description: 'Estimated delivery distance (km). Defaults to the delivery quote', required: false })
+  @IsOptional()
   @IsNumber()
   @Min(0)
-  distance: number;
+  distance?: number;
 
-  @ApiProperty({ description: 'Delivery fee amount (NGN)' })
+  @ApiProperty({ description: 'Delivery fee amount (NGN). Defaults to the delivery quote', required: false })
+  @IsOptional()
   @IsNumber()
   @Min(0)
-  deliveryFee: number;
+  deliveryFee?: number;
 
-  @ApiProperty({ description: 'Rider payment amount (NGN)' })
+  @ApiProperty({ description: 'Rider payment amount (NGN). Defaults to the delivery quote', required: false })
+  @IsOptional()
   @IsNumber()
   @Min(0)
-  riderPayment: number;
+  riderPayment?: number;
 
   @ApiProperty({ description: 'Notes or additional information', required: false })
   @IsOptional()
@@ -85,6 +96,55 @@ export class CreateDeliveryDto {
   notes?: string;
 }
 
+export class ReturnPickupItemDto {
+  @ApiProperty({ description: 'Product ID of the returned item' })
+  @IsMongoId()
+  productId: string;
+
+  @ApiProperty({ description: 'Quantity being returned' })
+  @IsNumber()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateReturnPickupDto {
+  @ApiProperty({ description: 'Order the items were bought on' })
+  @IsMongoId()
+  @IsNotEmpty()
+  orderId: string;
+
+  @ApiProperty({ description: 'Return request being collected' })
+  @IsMongoId()
+  @IsNotEmpty()
+  returnRequestId: string;
+
+  @ApiProperty({ description: 'Customer returning the items' })
+  @IsMongoId()
+  @IsNotEmpty()
+  customerId: string;
+
+  @ApiProperty({ description: 'Where the rider collects the items (customer address)' })
+  @ValidateNested()
+  @Type(() => DeliveryLocationDto)
+  pickupLocation: DeliveryLocationDto;
+
+  @ApiProperty({ description: 'Where the rider drops the items off (store/warehouse)' })
+  @ValidateNested()
+  @Type(() => DeliveryLocationDto)
+  dropoffLocation: DeliveryLocationDto;
+
+  @ApiProperty({ description: 'Items being collected', type: [ReturnPickupItemDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReturnPickupItemDto)
+  items: ReturnPickupItemDto[];
+
+  @ApiProperty({ description: 'Notes for the rider', required: false })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
 export class AssignRiderDto {
   @ApiProperty({ description: 'Rider ID to assign to the delivery' })
   @IsMongoId()
@@ -126,11 +126,18 @@ export class Delivery extends Document implements IDeliveryDocument {
     required: true, 
     type: Types.ObjectId, 
     ref: 'Order',
-    unique: true,
 
   })
   orderId: Types.ObjectId;
 
+  // Set when one seller's share of a split order is delivered on its own
+  @Prop({ required: false, type: Types.ObjectId, ref: 'SubOrder' })
+  subOrderId?: Types.ObjectId;
+
+  // Set on rider pickups of returned items; absent on the order's own delivery
+  @Prop({ required: false, type: Types.ObjectId, ref: 'ReturnRequest' })
+  returnRequestId?: Types.ObjectId;
+
   @Prop({ 
     required: false, 
     type: Types.ObjectId, 
@@ -503,7 +510,7 @@ DeliverySchema.pre('save', function(next) {
 });
 
 // Indexes for better query performance
-DeliverySchema.index({ orderId: 1 }, { unique: true });
+DeliverySchema.index({ orderId: 1, subOrderId: 1, returnRequestId: 1 }, { unique: true });
 DeliverySchema.index({ riderId: 1 });
 DeliverySchema.index({ customerId: 1 });
 DeliverySchema.index({ status: 1 });
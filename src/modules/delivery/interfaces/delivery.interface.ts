@@ -75,6 +75,8 @@ export interface IDeliveryStats {
  */
 export interface IDelivery {
   orderId: Types.ObjectId;
+  subOrderId?: Types.ObjectId;
+  returnRequestId?: Types.ObjectId;
   riderId?: Types.ObjectId;
   customerId: Types.ObjectId;
   status: DeliveryStatus;
@@ -2,8 +2,10 @@ import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Order, OrderDocument, OrderStatus, DeliveryMethod } from '../../orders/entities/order.entity';
+import { SubOrder, SubOrderDocument, SubOrderStatus } from '../../orders/entities/sub-order.entity';
 import { RiderAssignmentService, RiderAssignmentCriteria } from './rider-assignment.service';
 import { OrdersService } from '../../orders/orders.service';
+import { SubOrdersService } from '../../orders/services/sub-orders.service';
 
 @Injectable()
 export class DeliveryOrchestrationService {
@@ -11,8 +13,10 @@ export class DeliveryOrchestrationService {
 
   constructor(
     @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @InjectModel(SubOrder.name) private subOrderModel: Model<SubOrderDocument>,
     private riderAssignmentService: RiderAssignmentService,
     @Inject(forwardRef(() => OrdersService)) private ordersService: OrdersService,
+    @Inject(forwardRef(() => SubOrdersService)) private subOrdersService: SubOrdersService,
   ) {}
 
   /**
@@ -49,6 +53,15 @@ export class DeliveryOrchestrationService {
         return;
       }
 
+      // Split orders get a rider for each seller's share
+      const subOrders = await this.subOrdersService.findSplitSubOrders(orderId);
+      if (subOrders.length > 0) {
+        for (const subOrder of subOrders) {
+          await this.processSubOrderForDelivery(order, subOrder);
+        }
+        return;
+      }
+
       // Prepare assignment criteria
       const criteria: RiderAssignmentCriteria = {
         orderId,
@@ -109,6 +122,42 @@ export class DeliveryOrchestrationService {
     }
   }
 
+  /**
+   * Assign a rider to one seller's share of a split order
+   */
+  private async processSubOrderForDelivery(order: OrderDocument, subOrder: SubOrderDocument): Promise<void> {
+    if (subOrder.assignedRider) {
+      return;
+    }
+
+    const assignmentResult = await this.riderAssignmentService.assignRider({
+      orderId: order._id.toString(),
+      subOrderId: subOrder._id.toString(),
+      deliveryAddress: {
+        latitude: order.deliveryAddress.latitude,
+        longitude: order.deliveryAddress.longitude,
+        city: order.deliveryAddress.city,
+        state: order.deliveryAddress.state,
+      },
+      orderValue: subOrder.total,
+      deliveryFee: subOrder.deliveryFee,
+      urgency: this.determineOrderUrgency(order),
+    });
+
+    if (assignmentResult.success && assignmentResult.assignedRider) {
+      await this.subOrdersService.applyDeliveryStatus(
+        subOrder._id.toString(),
+        SubOrderStatus.SHIPPED,
+        `Assigned to rider ${assignmentResult.assignedRider._id}`,
+      );
+    } else {
+      await this.addToManualAssignmentQueue(
+        order._id.toString(),
+        `Sub-order ${subOrder.subOrderNumber}: ${assignmentResult.reason || 'Unknown error'}`,
+      );
+    }
+  }
+
   /**
    * Handle rider availability changes (rider goes offline, etc.)
    */
@@ -163,13 +212,32 @@ export class DeliveryOrchestrationService {
   /**
    * Manually assign rider to order
    */
-  async manuallyAssignRider(orderId: string, riderId: string, assignedBy: string): Promise<boolean> {
+  async manuallyAssignRider(orderId: string, riderId: string, assignedBy: string, subOrderId?: string): Promise<boolean> {
     try {
       const order = await this.orderModel.findById(orderId);
       if (!order) {
         throw new Error('Order not found');
       }
 
+      if (subOrderId) {
+        const subOrder = await this.subOrderModel.findOneAndUpdate(
+          { _id: subOrderId, parentOrderId: order._id },
+          { $set: { assignedRider: riderId, riderAssignedAt: new Date() } },
+        );
+        if (!subOrder) {
+          throw new Error('Sub-order not found');
+        }
+
+        await this.subOrdersService.applyDeliveryStatus(
+          subOrderId,
+          SubOrderStatus.SHIPPED,
+          'Manually assigned to rider',
+          assignedBy,
+        );
+        this.logger.log(`Manually assigned rider ${riderId} to sub-order ${subOrderId} by ${assignedBy}`);
+        return true;
+      }
+
       // Update order with assigned rider
       await this.orderModel.updateOne(
         { _id: orderId },
@@ -2,17 +2,27 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Order, OrderDocument, OrderStatus } from '../../orders/entities/order.entity';
+import { SubOrder, SubOrderDocument, SubOrderStatus } from '../../orders/entities/sub-order.entity';
 import { Rider, RiderDocument, RiderStatus, VehicleType } from '../entities/rider.entity';
 import { User, UserDocument } from '../../users/entities/user.entity';
+import { StoresService } from '../../stores/stores.service';
+import { DeliverySlotsService } from '../../delivery-slots/delivery-slots.service';
+import { FEE_CALCULATOR } from '../constants/delivery.constants';
 
 export interface RiderAssignmentCriteria {
   orderId: string;
+  subOrderId?: string; // Assign to one seller's share of a split order
   deliveryAddress: {
     latitude: number;
     longitude: number;
     city: string;
     state: string;
   };
+  // Store the rider collects from; defaults to the order's store
+  pickupLocation?: {
+    latitude: number;
+    longitude: number;
+  };
   orderValue: number;
   deliveryFee: number;
   urgency: 'low' | 'medium' | 'high';
@@ -54,8 +64,11 @@ export class RiderAssignmentService {
 
   constructor(
     @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @InjectModel(SubOrder.name) private subOrderModel: Model<SubOrderDocument>,
     @InjectModel(Rider.name) private riderModel: Model<RiderDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly storesService: StoresService,
+    private readonly deliverySlotsService: DeliverySlotsService,
   ) {}
 
   /**
@@ -65,6 +78,34 @@ export class RiderAssignmentService {
     try {
       this.logger.log(`Starting rider assignment for order ${criteria.orderId}`);
 
+      // Riders are matched to where they collect the order
+      if (!criteria.pickupLocation) {
+        criteria.pickupLocation = await this.findPickupLocation(criteria.orderId);
+      }
+
+      // Orders due in the same delivery slot ride together
+      const batchRider = await this.findBatchRider(criteria);
+      if (batchRider) {
+        const assigned = await this.performAssignment(
+          criteria.orderId,
+          batchRider._id.toString(),
+          criteria.subOrderId
+        );
+        if (assigned) {
+          this.logger.log(
+            `Batched order ${criteria.orderId} with rider ${batchRider._id} for its delivery slot`
+          );
+          return {
+            success: true,
+            assignedRider: batchRider,
+            estimatedDeliveryTime: this.calculateEstimatedDeliveryTime(
+              this.calculateTripDistance(criteria),
+              batchRider.vehicle?.type || VehicleType.MOTORCYCLE
+            ),
+          };
+        }
+      }
+
       // Get available riders in the area
       const availableRiders = await this.getAvailableRiders(criteria);
       
@@ -89,12 +130,13 @@ export class RiderAssignmentService {
       const bestRider = rankedRiders[0];
       const assignmentSuccess = await this.performAssignment(
         criteria.orderId,
-        bestRider.rider._id.toString()
+        bestRider.rider._id.toString(),
+        criteria.subOrderId
       );
 
       if (assignmentSuccess) {
         const estimatedTime = this.calculateEstimatedDeliveryTime(
-          bestRider.distance,
+          bestRider.distance + this.calculateTripDistance(criteria),
           bestRider.rider.vehicle?.type || VehicleType.MOTORCYCLE
         );
 
@@ -129,6 +171,8 @@ export class RiderAssignmentService {
    */
   private async getAvailableRiders(criteria: RiderAssignmentCriteria): Promise<RiderDocument[]> {
     const { deliveryAddress } = criteria;
+    // Distance to the pickup store when known, else to the customer
+    const origin = criteria.pickupLocation || deliveryAddress;
 
     // Find riders within search radius
     const riders = await this.riderModel.aggregate([
@@ -153,14 +197,14 @@ export class RiderAssignmentService {
                     {
                       $multiply: [
                         { $sin: { $degreesToRadians: '$currentLocation.latitude' } },
-                        { $sin: { $degreesToRadians: deliveryAddress.latitude } }
+                        { $sin: { $degreesToRadians: origin.latitude } }
                       ]
                     },
                     {
                       $multiply: [
                         { $cos: { $degreesToRadians: '$currentLocation.latitude' } },
-                        { $cos: { $degreesToRadians: deliveryAddress.latitude } },
-                        { $cos: { $degreesToRadians: { $subtract: [deliveryAddress.longitude, '$currentLocation.longitude'] } } }
+                        { $cos: { $degreesToRadians: origin.latitude } },
+                        { $cos: { $degreesToRadians: { $subtract: [origin.longitude, '$currentLocation.longitude'] } } }
                       ]
                     }
                   ]
@@ -340,18 +384,19 @@ export class RiderAssignmentService {
   /**
    * Perform the actual assignment
    */
-  private async performAssignment(orderId: string, riderId: string): Promise<boolean> {
+  private async performAssignment(orderId: string, riderId: string, subOrderId?: string): Promise<boolean> {
     try {
-      // Update order with assigned rider
-      const orderUpdate = await this.orderModel.updateOne(
-        { _id: new Types.ObjectId(orderId) },
-        {
-          $set: {
-            assignedRider: new Types.ObjectId(riderId),
-            riderAssignedAt: new Date(),
-          }
+      const assignment = {
+        $set: {
+          assignedRider: new Types.ObjectId(riderId),
+          riderAssignedAt: new Date(),
         }
-      );
+      };
+
+      // Update the order, or the sub-order for split orders, with assigned rider
+      const orderUpdate = subOrderId
+        ? await this.subOrderModel.updateOne({ _id: new Types.ObjectId(subOrderId) }, assignment)
+        : await this.orderModel.updateOne({ _id: new Types.ObjectId(orderId) }, assignment);
 
       // Update rider availability
       const riderUpdate = await this.riderModel.updateOne(
@@ -442,6 +487,87 @@ export class RiderAssignmentService {
     };
   }
 
+  /**
+   * Location of the store an order is collected from
+   */
+  private async findPickupLocation(orderId: string) {
+    const order = await this.orderModel.findById(orderId).select('storeId').lean();
+    return order?.storeId ? this.storesService.getLocation(order.storeId) : undefined;
+  }
+
+  /**
+   * A rider already carrying orders from the same delivery slot with room
+   * for another, preferring the fullest batch. Riders carry as many orders
+   * per slot as the city's slot capacity allows for.
+   */
+  private async findBatchRider(criteria: RiderAssignmentCriteria): Promise<RiderDocument | null> {
+    const slotmates = await this.deliverySlotsService.findSlotmates(criteria.orderId);
+    // Other sellers' shares of a split order travel in the same slot
+    const orderIds = criteria.subOrderId
+      ? [...slotmates, new Types.ObjectId(criteria.orderId)]
+      : slotmates;
+    if (!orderIds.length) {
+      return null;
+    }
+
+    const activeStatuses = [OrderStatus.PAID, OrderStatus.SHIPPED];
+    const [orders, subOrders] = await Promise.all([
+      this.orderModel
+        .find({ _id: { $in: orderIds }, status: { $in: activeStatuses }, assignedRider: { $exists: true } })
+        .select('assignedRider')
+        .lean(),
+      this.subOrderModel
+        .find({
+          orderId: { $in: orderIds },
+          status: { $nin: [SubOrderStatus.DELIVERED, SubOrderStatus.CANCELLED] },
+          assignedRider: { $exists: true },
+        })
+        .select('assignedRider')
+        .lean(),
+    ]);
+
+    const batches = new Map<string, number>();
+    for (const { assignedRider } of [...orders, ...subOrders]) {
+      const riderId = assignedRider.toString();
+      batches.set(riderId, (batches.get(riderId) || 0) + 1);
+    }
+    if (!batches.size) {
+      return null;
+    }
+
+    const { ordersPerRider } = await this.deliverySlotsService.getSettings(criteria.deliveryAddress.city);
+    const candidates = [...batches.entries()]
+      .filter(([, count]) => count < ordersPerRider)
+      .sort((a, b) => b[1] - a[1]);
+
+    for (const [riderId] of candidates) {
+      const rider = await this.riderModel.findOne({
+        _id: new Types.ObjectId(riderId),
+        status: RiderStatus.ACTIVE,
+      });
+      if (rider && (!criteria.vehicleRequirement || rider.vehicle?.type === criteria.vehicleRequirement)) {
+        return rider;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Distance from the pickup store to the customer; zero without a store
+   */
+  private calculateTripDistance(criteria: RiderAssignmentCriteria): number {
+    const { pickupLocation, deliveryAddress } = criteria;
+    if (!pickupLocation) {
+      return 0;
+    }
+    return FEE_CALCULATOR.calculateDistance(
+      pickupLocation.latitude,
+      pickupLocation.longitude,
+      deliveryAddress.latitude,
+      deliveryAddress.longitude,
+    );
+  }
+
   /**
    * Reassign order if current rider becomes unavailable
    */
@@ -0,0 +1,23 @@
+/**
+ * Idempotency key constants
+ */
+export const IDEMPOTENCY_CONSTANTS = {
+  // Request header carrying the client-generated key
+  HEADER_NAME: 'idempotency-key',
+
+  // Response header set when a stored response is replayed
+  REPLAYED_HEADER_NAME: 'Idempotent-Replayed',
+
+  // Keys longer than this are rejected
+  MAX_KEY_LENGTH: 255,
+
+  // How long a key and its stored response are kept
+  KEY_TTL_HOURS: 24,
+};
+
+export const IDEMPOTENCY_ERROR_MESSAGES = {
+  INVALID_KEY: `Idempotency-Key must be a non-empty string of at most ${IDEMPOTENCY_CONSTANTS.MAX_KEY_LENGTH} characters`,
+  KEY_REUSED: 'Idempotency-Key has already been used with a different request',
+  REQUEST_IN_PROGRESS:
+    'A request with this Idempotency-Key is still being processed',
+};
@@ -0,0 +1,27 @@
+import { applyDecorators, UseInterceptors } from '@nestjs/common';
+import { ApiHeader, ApiResponse } from '@nestjs/swagger';
+import { IdempotencyInterceptor } from '../interceptors/idempotency.interceptor';
+import { IDEMPOTENCY_CONSTANTS } from '../constants/idempotency.constants';
+
+/**
+ * Accept an optional `Idempotency-Key` header on a route and replay the
+ * stored response for retries of the same request
+ */
+export function Idempotent() {
+  return applyDecorators(
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: 'Idempotency-Key',
+      required: false,
+      description: `Unique key for safely retrying this request. Responses are stored for ${IDEMPOTENCY_CONSTANTS.KEY_TTL_HOURS} hours.`,
+    }),
+    ApiResponse({
+      status: 409,
+      description: 'A request with the same Idempotency-Key is in progress',
+    }),
+    ApiResponse({
+      status: 422,
+      description: 'Idempotency-Key was already used with a different request',
+    }),
+  );
+}
@@ -0,0 +1,67 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type IdempotencyKeyDocument = IdempotencyKey & Document;
+
+export enum IdempotencyKeyStatus {
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+}
+
+@Schema({ timestamps: true })
+export class IdempotencyKey {
+  @ApiProperty({ description: 'Client supplied idempotency key' })
+  @Prop({ required: true })
+  key: string;
+
+  @ApiProperty({
+    description: 'Owner of the key (user ID, or "anonymous" for public routes)',
+  })
+  @Prop({ required: true })
+  scope: string;
+
+  @ApiProperty({ description: 'HTTP method of the original request' })
+  @Prop({ required: true })
+  method: string;
+
+  @ApiProperty({ description: 'Path of the original request' })
+  @Prop({ required: true })
+  path: string;
+
+  @ApiProperty({
+    description: 'SHA-256 fingerprint of method, path and request body',
+  })
+  @Prop({ required: true })
+  requestHash: string;
+
+  @ApiProperty({ description: 'Processing state', enum: IdempotencyKeyStatus })
+  @Prop({
+    required: true,
+    enum: Object.values(IdempotencyKeyStatus),
+    default: IdempotencyKeyStatus.PROCESSING,
+  })
+  status: IdempotencyKeyStatus;
+
+  @ApiProperty({ description: 'Stored HTTP status code', required: false })
+  @Prop({ required: false })
+  responseStatus?: number;
+
+  @ApiProperty({ description: 'Stored response body', required: false })
+  @Prop({ type: Object, required: false })
+  responseBody?: any;
+
+  @ApiProperty({ description: 'When the key expires and may be reused' })
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const IdempotencyKeySchema =
+  SchemaFactory.createForClass(IdempotencyKey);
+
+IdempotencyKeySchema.index({ scope: 1, key: 1 }, { unique: true });
+// MongoDB removes expired keys automatically
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyInterceptor } from './interceptors/idempotency.interceptor';
+import {
+  IdempotencyKey,
+  IdempotencyKeySchema,
+} from './entities/idempotency-key.entity';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: IdempotencyKey.name, schema: IdempotencyKeySchema },
+    ]),
+  ],
+  providers: [IdempotencyService, IdempotencyInterceptor],
+  exports: [IdempotencyService, IdempotencyInterceptor],
+})
+export class IdempotencyModule {}
@@ -0,0 +1,208 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash } from 'crypto';
+import {
+  IdempotencyKey,
+  IdempotencyKeyDocument,
+  IdempotencyKeyStatus,
+} from './entities/idempotency-key.entity';
+import {
+  IDEMPOTENCY_CONSTANTS,
+  IDEMPOTENCY_ERROR_MESSAGES,
+} from './constants/idempotency.constants';
+
+export interface IdempotentRequest {
+  key: string;
+  scope: string;
+  method: string;
+  path: string;
+  body: any;
+}
+
+export type IdempotencyClaim =
+  | { replay: false }
+  | { replay: true; responseStatus: number; responseBody: any };
+
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+
+  constructor(
+    @InjectModel(IdempotencyKey.name)
+    private idempotencyKeyModel: Model<IdempotencyKeyDocument>,
+  ) {}
+
+  /**
+   * Claim a key for a request. Returns the stored response when the key has
+   * already completed, and throws when it is in flight or was used for a
+   * different request.
+   */
+  async claim(request: IdempotentRequest): Promise<IdempotencyClaim> {
+    this.validateKey(request.key);
+
+    const requestHash = this.hashRequest(request);
+    const claimed = await this.tryInsert(request, requestHash);
+    if (claimed) {
+      return { replay: false };
+    }
+
+    const existing = await this.idempotencyKeyModel
+      .findOne({ scope: request.scope, key: request.key })
+      .lean()
+      .exec();
+
+    // Lost a race with the TTL monitor or a release; try once more
+    if (!existing || existing.expiresAt < new Date()) {
+      if (existing) {
+        await this.idempotencyKeyModel.deleteOne({ _id: existing._id }).exec();
+      }
+      if (await this.tryInsert(request, requestHash)) {
+        return { replay: false };
+      }
+      throw new ConflictException(
+        IDEMPOTENCY_ERROR_MESSAGES.REQUEST_IN_PROGRESS,
+      );
+    }
+
+    if (existing.requestHash !== requestHash) {
+      throw new UnprocessableEntityException(
+        IDEMPOTENCY_ERROR_MESSAGES.KEY_REUSED,
+      );
+    }
+
+    if (existing.status === IdempotencyKeyStatus.PROCESSING) {
+      throw new ConflictException(
+        IDEMPOTENCY_ERROR_MESSAGES.REQUEST_IN_PROGRESS,
+      );
+    }
+
+    this.logger.log(
+      `Replaying stored response for idempotency key ${request.key} (${request.method} ${request.path})`,
+    );
+
+    return {
+      replay: true,
+      responseStatus: existing.responseStatus,
+      responseBody: existing.responseBody,
+    };
+  }
+
+  /**
+   * Store the response of a successfully handled request
+   */
+  async complete(
+    scope: string,
+    key: string,
+    responseStatus: number,
+    responseBody: any,
+  ): Promise<void> {
+    await this.idempotencyKeyModel
+      .updateOne(
+        { scope, key },
+        {
+          $set: {
+            status: IdempotencyKeyStatus.COMPLETED,
+            responseStatus,
+            responseBody: this.toStorable(responseBody),
+          },
+        },
+      )
+      .exec();
+  }
+
+  /**
+   * Drop a claimed key so a failed request can be retried with the same key
+   */
+  async release(scope: string, key: string): Promise<void> {
+    await this.idempotencyKeyModel
+      .deleteOne({ scope, key, status: IdempotencyKeyStatus.PROCESSING })
+      .exec();
+  }
+
+  private async tryInsert(
+    request: IdempotentRequest,
+    requestHash: string,
+  ): Promise<boolean> {
+    const expiresAt = new Date(
+      Date.now() + IDEMPOTENCY_CONSTANTS.KEY_TTL_HOURS * 60 * 60 * 1000,
+    );
+
+    try {
+      const result = await this.idempotencyKeyModel
+        .updateOne(
+          { scope: request.scope, key: request.key },
+          {
+            $setOnInsert: {
+              method: request.method,
+              path: request.path,
+              requestHash,
+              status: IdempotencyKeyStatus.PROCESSING,
+              expiresAt,
+            },
+          },
+          { upsert: true },
+        )
+        .exec();
+
+      return result.upsertedCount === 1;
+    } catch (error) {
+      // Concurrent insert of the same key
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private validateKey(key: string): void {
+    if (
+      typeof key !== 'string' ||
+      !key.trim() ||
+      key.length > IDEMPOTENCY_CONSTANTS.MAX_KEY_LENGTH
+    ) {
+      throw new BadRequestException(IDEMPOTENCY_ERROR_MESSAGES.INVALID_KEY);
+    }
+  }
+
+  private hashRequest(request: IdempotentRequest): string {
+    return createHash('sha256')
+      .update(request.method.toUpperCase())
+      .update('\n')
+      .update(request.path)
+      .update('\n')
+      .update(this.stableStringify(request.body ?? {}))
+      .digest('hex');
+  }
+
+  /**
+   * JSON serialisation with sorted object keys so that field order does not
+   * change the fingerprint
+   */
+  private stableStringify(value: any): string {
+    if (value === null || typeof value !== 'object') {
+      return JSON.stringify(value) ?? 'null';
+    }
+    if (typeof value.toJSON === 'function') {
+      return JSON.stringify(value);
+    }
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+    }
+    return `{${Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${this.stableStringify(value[k])}`)
+      .join(',')}}`;
+  }
+
+  private toStorable(body: any): any {
+    // Mongoose documents and ObjectIds are flattened to their JSON form
+    return body === undefined ? null : JSON.parse(JSON.stringify(body));
+  }
+}
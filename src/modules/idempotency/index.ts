@@ -0,0 +1,5 @@
+export * from './idempotency.module';
+export * from './idempotency.service';
+export * from './decorators/idempotent.decorator';
+export * from './interceptors/idempotency.interceptor';
+export * from './entities/idempotency-key.entity';
@@ -0,0 +1,84 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  Logger,
+} from '@nestjs/common';
+import { Observable, from, of, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { IdempotencyService } from '../idempotency.service';
+import { IDEMPOTENCY_CONSTANTS } from '../constants/idempotency.constants';
+
+/**
+ * Makes a route safe to retry. When the client sends an `Idempotency-Key`
+ * header the first response is stored and replayed for repeats of the same
+ * request; requests without the header are handled normally.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+
+    const key = request.headers[IDEMPOTENCY_CONSTANTS.HEADER_NAME];
+    if (key === undefined) {
+      return next.handle();
+    }
+
+    const user = request.user;
+    const scope = user?.id || user?._id?.toString() || 'anonymous';
+    const method = request.method;
+    const path = (request.originalUrl || request.url).split('?')[0];
+
+    return from(
+      this.idempotencyService.claim({
+        key,
+        scope,
+        method,
+        path,
+        body: request.body,
+      }),
+    ).pipe(
+      mergeMap((claim) => {
+        if (claim.replay === true) {
+          response.status(claim.responseStatus);
+          response.setHeader(
+            IDEMPOTENCY_CONSTANTS.REPLAYED_HEADER_NAME,
+            'true',
+          );
+          return of(claim.responseBody);
+        }
+
+        return next.handle().pipe(
+          mergeMap((body) =>
+            from(
+              this.idempotencyService.complete(
+                scope,
+                key,
+                response.statusCode,
+                body,
+              ),
+            ).pipe(mergeMap(() => of(body))),
+          ),
+          catchError((error) =>
+            // Failed requests are not stored so the client can retry them
+            from(this.idempotencyService.release(scope, key)).pipe(
+              catchError((releaseError) => {
+                this.logger.error(
+                  `Failed to release idempotency key ${key}: ${releaseError.message}`,
+                );
+                return of(null);
+              }),
+              mergeMap(() => throwError(() => error)),
+            ),
+          ),
+        );
+      }),
+    );
+  }
+}
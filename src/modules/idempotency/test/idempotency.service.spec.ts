@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { IdempotencyService } from '../idempotency.service';
+import {
+  IdempotencyKey,
+  IdempotencyKeyStatus,
+} from '../entities/idempotency-key.entity';
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+  let idempotencyKeyModel: any;
+  let storedHash: string;
+
+  const request = {
+    key: 'retry-123',
+    scope: 'user-1',
+    method: 'POST',
+    path: '/wallets/transfer',
+    body: { recipientId: 'user-2', amount: 500 },
+  };
+
+  const exec = (value: any) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+  beforeEach(async () => {
+    idempotencyKeyModel = {
+      updateOne: jest.fn(),
+      findOne: jest.fn(),
+      deleteOne: jest.fn().mockReturnValue(exec({ deletedCount: 1 })),
+    };
+
+    // Capture the hash computed for the first claim so it can be "stored"
+    idempotencyKeyModel.updateOne.mockImplementation((_filter, update) => {
+      storedHash = update.$setOnInsert?.requestHash ?? storedHash;
+      return exec({ upsertedCount: 1 });
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        {
+          provide: getModelToken(IdempotencyKey.name),
+          useValue: idempotencyKeyModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+    await service.claim(request);
+  });
+
+  const mockExisting = (overrides: Record<string, any>) => {
+    idempotencyKeyModel.updateOne.mockReturnValue(exec({ upsertedCount: 0 }));
+    idempotencyKeyModel.findOne.mockReturnValue({
+      lean: () =>
+        exec({
+          requestHash: storedHash,
+          status: IdempotencyKeyStatus.COMPLETED,
+          responseStatus: 200,
+          responseBody: { success: true },
+          expiresAt: new Date(Date.now() + 60000),
+          ...overrides,
+        }),
+    });
+  };
+
+  it('should claim an unused key', async () => {
+    await expect(service.claim({ ...request, key: 'fresh' })).resolves.toEqual({
+      replay: false,
+    });
+  });
+
+  it('should replay the stored response for a repeated request', async () => {
+    mockExisting({});
+
+    // Field order must not affect the match
+    const result = await service.claim({
+      ...request,
+      body: { amount: 500, recipientId: 'user-2' },
+    });
+
+    expect(result).toEqual({
+      replay: true,
+      responseStatus: 200,
+      responseBody: { success: true },
+    });
+  });
+
+  it('should reject a reused key with a different body', async () => {
+    mockExisting({});
+
+    await expect(
+      service.claim({
+        ...request,
+        body: { recipientId: 'user-2', amount: 900 },
+      }),
+    ).rejects.toThrow(UnprocessableEntityException);
+  });
+
+  it('should reject a key whose request is still in progress', async () => {
+    mockExisting({ status: IdempotencyKeyStatus.PROCESSING });
+
+    await expect(service.claim(request)).rejects.toThrow(ConflictException);
+  });
+
+  it('should reject an empty key', async () => {
+    await expect(service.claim({ ...request, key: ' ' })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -28,6 +28,8 @@ export enum NotificationType {
   GENERAL = 'GENERAL',
   DROP_REMINDER = 'DROP_REMINDER',
   PRICE_LOCK_EXPIRED = 'PRICE_LOCK_EXPIRED',
+  PRICE_CHANGE = 'PRICE_CHANGE',
+  LOW_STOCK = 'LOW_STOCK',
   AUCTION_WIN = 'AUCTION_WIN',
   AUCTION_REFUND = 'AUCTION_REFUND',
   WALLET_TRANSACTION = 'WALLET_TRANSACTION',
@@ -1,8 +1,15 @@
-import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, HttpException, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Cart, CartDocument, CartItem } from './entities/cart.entity';
+import { SubstitutionPreference } from './entities/order.entity';
 import { Product, ProductDocument } from '../products/entities/product.entity';
+import { User, UserDocument } from '../users/entities/user.entity';
+import { PromotionsService } from '../promotions/promotions.service';
+import { PromotionEvaluation } from '../promotions/interfaces/promotion.interface';
+import { PRODUCT_ERROR_MESSAGES } from '../products/constants';
+import { ProductVariants } from '../products/helpers';
+import { SellableUnit } from '../products/interfaces';
 
 @Injectable()
 export class CartService {
@@ -11,6 +18,8 @@ export class CartService {
   constructor(
     @InjectModel(Cart.name) private cartModel: Model<CartDocument>,
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly promotionsService: PromotionsService,
   ) {}
 
   /**
@@ -64,10 +73,15 @@ export class CartService {
       const validItems = cart.items.filter(item => item.productId);
 
       const summary = this.calculateCartSummary(validItems);
+      const promotionPreview = cart.promoCode
+        ? await this.previewPromotion(userId, cart.promoCode, validItems)
+        : {};
       
       return {
         items: validItems,
         ...summary,
+        promoCode: cart.promoCode,
+        ...promotionPreview,
       };
     } catch (error) {
       this.logger.error(`Error getting cart for user ${userId}:`, error);
@@ -76,18 +90,19 @@ export class CartService {
   }
 
   /**
-   * Add item to cart
+   * Add item to cart. Products sold in packs need the pack to add.
    */
-  async addToCart(userId: string, productId: string, quantity: number): Promise<any> {
+  async addToCart(userId: string, productId: string, quantity: number, variantId?: string): Promise<any> {
     try {
       // Validate product exists and has stock
       const product = await this.productModel.findById(productId).exec();
       if (!product) {
         throw new NotFoundException('Product not found');
       }
+      const unit = this.resolveUnit(product, variantId);
 
-      if (product.stock < quantity) {
-        throw new BadRequestException(`Only ${product.stock} items available in stock`);
+      if (unit.stock < quantity) {
+        throw new BadRequestException(`Only ${unit.stock} items available in stock`);
       }
 
       // Get or create cart
@@ -95,7 +110,7 @@ export class CartService {
 
       // Check if item already exists in cart
       const existingItemIndex = cart.items.findIndex(
-        item => item.productId.toString() === productId
+        item => this.isLine(item, productId, variantId)
       );
 
       if (existingItemIndex > -1) {
@@ -103,25 +118,28 @@ export class CartService {
         const existingItem = cart.items[existingItemIndex];
         const newQuantity = existingItem.quantity + quantity;
 
-        if (newQuantity > product.stock) {
-          throw new BadRequestException(`Cannot add ${quantity} items. Only ${product.stock - existingItem.quantity} more available`);
+        if (newQuantity > unit.stock) {
+          throw new BadRequestException(`Cannot add ${quantity} items. Only ${unit.stock - existingItem.quantity} more available`);
         }
 
         existingItem.quantity = newQuantity;
-        existingItem.totalPrice = newQuantity * product.price;
-        existingItem.totalPriceInNibia = newQuantity * product.priceInNibia;
+        existingItem.totalPrice = newQuantity * unit.price;
+        existingItem.totalPriceInNibia = newQuantity * unit.priceInNibia;
         existingItem.updatedAt = new Date();
       } else {
         // Add new item
         const newItem: CartItem = {
           productId: new Types.ObjectId(productId),
+          variantId: unit.variantId && new Types.ObjectId(unit.variantId),
+          variantLabel: unit.unitLabel,
           productName: product.name,
           productDescription: product.description,
           quantity,
-          unitPrice: product.price,
-          unitPriceInNibia: product.priceInNibia,
-          totalPrice: quantity * product.price,
-          totalPriceInNibia: quantity * product.priceInNibia,
+          unitPrice: unit.price,
+          unitPriceInNibia: unit.priceInNibia,
+          totalPrice: quantity * unit.price,
+          totalPriceInNibia: quantity * unit.priceInNibia,
+          substitutionPreference: SubstitutionPreference.REFUND,
           addedAt: new Date(),
           updatedAt: new Date(),
         };
@@ -154,10 +172,10 @@ export class CartService {
   /**
    * Update cart item quantity
    */
-  async updateCartItem(userId: string, productId: string, quantity: number): Promise<any> {
+  async updateCartItem(userId: string, productId: string, quantity: number, variantId?: string): Promise<any> {
     try {
       if (quantity <= 0) {
-        return this.removeFromCart(userId, productId);
+        return this.removeFromCart(userId, productId, variantId);
       }
 
       const cart = await this.cartModel.findOne({ 
@@ -170,7 +188,7 @@ export class CartService {
       }
 
       const itemIndex = cart.items.findIndex(
-        item => item.productId.toString() === productId
+        item => this.isLine(item, productId, variantId)
       );
 
       if (itemIndex === -1) {
@@ -182,16 +200,17 @@ export class CartService {
       if (!product) {
         throw new NotFoundException('Product not found');
       }
+      const unit = this.resolveUnit(product, variantId);
 
-      if (quantity > product.stock) {
-        throw new BadRequestException(`Only ${product.stock} items available in stock`);
+      if (quantity > unit.stock) {
+        throw new BadRequestException(`Only ${unit.stock} items available in stock`);
       }
 
       // Update item
       const item = cart.items[itemIndex];
       item.quantity = quantity;
-      item.totalPrice = quantity * product.price;
-      item.totalPriceInNibia = quantity * product.priceInNibia;
+      item.totalPrice = quantity * unit.price;
+      item.totalPriceInNibia = quantity * unit.priceInNibia;
       item.updatedAt = new Date();
 
       // Extend cart expiration and save
@@ -220,7 +239,7 @@ export class CartService {
   /**
    * Remove item from cart
    */
-  async removeFromCart(userId: string, productId: string): Promise<any> {
+  async removeFromCart(userId: string, productId: string, variantId?: string): Promise<any> {
     try {
       const cart = await this.cartModel.findOne({ 
         userId: new Types.ObjectId(userId),
@@ -232,7 +251,7 @@ export class CartService {
       }
 
       const itemIndex = cart.items.findIndex(
-        item => item.productId.toString() === productId
+        item => this.isLine(item, productId, variantId)
       );
 
       if (itemIndex === -1) {
@@ -295,6 +314,102 @@ export class CartService {
     }
   }
 
+  /**
+   * Apply a promo code to the cart against the customer's own city. The
+   * code is checked again at checkout once the delivery city and fee are
+   * known.
+   */
+  async applyPromoCode(userId: string, code: string): Promise<any> {
+    const cart = await this.cartModel.findOne({ 
+      userId: new Types.ObjectId(userId),
+      expiresAt: { $gt: new Date() }
+    }).exec();
+
+    if (!cart || cart.items.length === 0) {
+      throw new BadRequestException('Cart is empty');
+    }
+
+    const promotion = await this.promotionsService.evaluate({
+      code,
+      userId,
+      items: cart.items.map((item) => ({
+        productId: item.productId.toString(),
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+      })),
+      city: await this.getProfileCity(userId),
+    });
+
+    await this.cartModel.updateOne({ _id: cart._id }, { promoCode: promotion.code }).exec();
+
+    this.logger.log(`Applied promo code ${promotion.code} to cart for user ${userId}`);
+
+    return {
+      message: 'Promo code applied successfully',
+      cart: await this.getCart(userId),
+    };
+  }
+
+  /**
+   * Remove the promo code from the cart
+   */
+  async removePromoCode(userId: string): Promise<any> {
+    await this.cartModel.updateOne(
+      { userId: new Types.ObjectId(userId) },
+      { $unset: { promoCode: 1 } }
+    ).exec();
+
+    return {
+      message: 'Promo code removed successfully',
+      cart: await this.getCart(userId),
+    };
+  }
+
+  /**
+   * Set what should happen to a cart item if it is out of stock when the
+   * order is fulfilled
+   */
+  async setSubstitutionPreference(
+    userId: string,
+    productId: string,
+    preference: SubstitutionPreference,
+    substituteProductId?: string,
+    variantId?: string,
+  ): Promise<any> {
+    const cart = await this.cartModel.findOne({ 
+      userId: new Types.ObjectId(userId),
+      expiresAt: { $gt: new Date() }
+    }).exec();
+
+    const item = cart?.items.find((cartItem) => this.isLine(cartItem, productId, variantId));
+    if (!item) {
+      throw new NotFoundException('Item not found in cart');
+    }
+
+    if (preference === SubstitutionPreference.SPECIFIC_PRODUCT) {
+      if (substituteProductId === productId) {
+        throw new BadRequestException('Choose a different product as the alternative');
+      }
+
+      const substitute = await this.productModel.findById(substituteProductId).select('isActive').lean();
+      if (!substitute || substitute.isActive === false) {
+        throw new NotFoundException('Alternative product not found');
+      }
+    }
+
+    item.substitutionPreference = preference;
+    item.substituteProductId = preference === SubstitutionPreference.SPECIFIC_PRODUCT
+      ? new Types.ObjectId(substituteProductId)
+      : undefined;
+
+    await this.cartModel.updateOne({ _id: cart._id }, { items: cart.items }).exec();
+
+    return {
+      message: 'Substitution preference saved',
+      cart: await this.getCart(userId),
+    };
+  }
+
   /**
    * Get cart item count
    */
@@ -342,13 +457,19 @@ export class CartService {
           continue;
         }
 
-        if (product.stock < item.quantity) {
-          issues.push(`${product.name}: Only ${product.stock} available, but ${item.quantity} requested`);
+        const unit = ProductVariants.resolve(product, item.variantId);
+        if (!unit) {
+          issues.push(`${product.name}: ${item.variantLabel || 'This pack'} is no longer available`);
+          continue;
+        }
+
+        if (unit.stock < item.quantity) {
+          issues.push(`${product.name}: Only ${unit.stock} available, but ${item.quantity} requested`);
         }
 
         // Check if prices have changed
-        if (product.price !== item.unitPrice || 
-            product.priceInNibia !== item.unitPriceInNibia) {
+        if (unit.price !== item.unitPrice || 
+            unit.priceInNibia !== item.unitPriceInNibia) {
           issues.push(`${product.name}: Price has changed`);
         }
       }
@@ -377,6 +498,60 @@ export class CartService {
     }
   }
 
+  /**
+   * The pack or product a cart line sells, failing when a product sold in
+   * packs is added without one
+   */
+  private resolveUnit(product: ProductDocument, variantId?: string): SellableUnit {
+    const unit = ProductVariants.resolve(product, variantId);
+    if (!unit && product.variants?.length && !variantId) {
+      throw new BadRequestException(PRODUCT_ERROR_MESSAGES.VARIANT_REQUIRED);
+    }
+    if (!unit) {
+      throw new NotFoundException(PRODUCT_ERROR_MESSAGES.VARIANT_NOT_FOUND);
+    }
+    return unit;
+  }
+
+  private isLine(item: CartItem, productId: string, variantId?: string): boolean {
+    return item.productId.toString() === productId
+      && (item.variantId?.toString() ?? undefined) === (variantId || undefined);
+  }
+
+  /**
+   * Price the cart's promo code, reporting rather than throwing when it no
+   * longer applies so the cart still loads
+   */
+  private async previewPromotion(
+    userId: string,
+    code: string,
+    items: CartItem[],
+  ): Promise<{ promotion?: PromotionEvaluation; promotionError?: string }> {
+    try {
+      const promotion = await this.promotionsService.evaluate({
+        code,
+        userId,
+        items: items.map((item) => ({
+          productId: ((item.productId as any)._id || item.productId).toString(),
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+        })),
+        city: await this.getProfileCity(userId),
+      });
+      return { promotion };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        return { promotionError: error.message };
+      }
+      throw error;
+    }
+  }
+
+  private async getProfileCity(userId: string): Promise<string | undefined> {
+    const user = await this.userModel.findById(userId).select('city').lean();
+    return user?.city;
+  }
+
   /**
    * Calculate cart summary
    */
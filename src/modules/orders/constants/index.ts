@@ -4,6 +4,11 @@ export {
   PAYMENT_PLAN_CONFIG,
   DELIVERY_METHOD_CONFIG,
   PAYMENT_METHOD_CONFIG,
+  STOCK_RESERVATION_CONFIG,
+  SPLIT_TENDER_CONFIG,
+  RETURN_CONFIG,
+  SUB_ORDER_STATUS_FLOW,
+  ORDER_MODIFICATION_CONFIG,
   ORDER_ERROR_MESSAGES,
   ORDER_SUCCESS_MESSAGES,
 } from './order.constants';
@@ -11,6 +11,8 @@ export const ORDER_CONSTANTS = {
   
   // Payment plans
   PRICE_LOCK_DELIVERY_DAYS: 35, // 30-45 days for price lock orders
+  PRICE_LOCK_MIN_DELIVERY_DAYS: 30,
+  PRICE_LOCK_MAX_DELIVERY_DAYS: 45,
   PAY_SMALL_SMALL_MIN_AMOUNT: 5000, // minimum amount for installment plans
   PAY_LATER_CREDIT_LIMIT: 50000, // maximum credit limit for pay later
   
@@ -62,7 +64,10 @@ export const ORDER_STATUS_FLOW = {
   PENDING: ['PAID', 'CANCELLED'],
   PAID: ['SHIPPED', 'CANCELLED'],
   SHIPPED: ['DELIVERED'],
-  DELIVERED: [],
+  DELIVERED: ['RETURN_REQUESTED'],
+  RETURN_REQUESTED: ['RETURNED', 'PARTIALLY_RETURNED', 'DELIVERED'],
+  PARTIALLY_RETURNED: ['RETURN_REQUESTED'],
+  RETURNED: [],
   CANCELLED: [],
 } as const;
 
@@ -141,6 +146,47 @@ export const PAYMENT_METHOD_CONFIG = {
   },
 } as const;
 
+// How long checkout holds stock before releasing it
+export const STOCK_RESERVATION_CONFIG = {
+  PAY_NOW_HOLD_MINUTES: 30, // payment window
+  PAY_LATER_HOLD_HOURS: 24, // time to complete the credit check
+  // Price Lock and Pay Small-Small hold until delivery or the last instalment, plus grace
+  SCHEDULED_PLAN_GRACE_DAYS: 3,
+  EXPIRY_BATCH_SIZE: 100,
+} as const;
+
+// How long a split payment holds its wallet legs while the gateway leg is paid
+export const SPLIT_TENDER_CONFIG = {
+  HOLD_MINUTES: 30,
+  EXPIRY_BATCH_SIZE: 100,
+} as const;
+
+// Returns after delivery
+export const RETURN_CONFIG = {
+  RETURN_NUMBER_PREFIX: 'RTN',
+  WINDOW_DAYS: 7, // days after delivery a return can be requested
+  MAX_PHOTOS: 5,
+} as const;
+
+// Manual sub-order updates. Payment confirms sub-orders and cancelling the
+// parent cancels them; sellers prepare and pack, deliveries do the rest
+export const SUB_ORDER_STATUS_FLOW = {
+  PENDING: [],
+  CONFIRMED: ['PREPARING', 'READY', 'SHIPPED'],
+  PREPARING: ['READY', 'SHIPPED'],
+  READY: ['SHIPPED', 'DELIVERED'], // DELIVERED when a pickup is collected
+  SHIPPED: ['DELIVERED'],
+  DELIVERED: [],
+  CANCELLED: [],
+} as const;
+
+// Customers can change items, delivery and slot until the order is with a
+// rider or a seller has started preparing it
+export const ORDER_MODIFICATION_CONFIG = {
+  MODIFIABLE_STATUSES: ['pending', 'paid'],
+  MODIFIABLE_SUB_ORDER_STATUSES: ['pending', 'confirmed', 'cancelled'],
+} as const;
+
 // Error messages
 export const ORDER_ERROR_MESSAGES = {
   ORDER_NOT_FOUND: 'Order not found',
@@ -158,6 +204,42 @@ export const ORDER_ERROR_MESSAGES = {
   CANCELLATION_DEADLINE_PASSED: 'Order cannot be cancelled after 24 hours',
   INVALID_INSTALLMENT_PLAN: 'Invalid installment plan configuration',
   PAYMENT_SCHEDULE_CONFLICT: 'Payment schedule conflicts with existing payments',
+  INSUFFICIENT_STOCK: 'Not enough stock left for',
+  PAYMENT_WINDOW_EXPIRED: 'Payment window expired; reserved stock was released',
+  RETURN_NOT_FOUND: 'Return request not found',
+  RETURN_NOT_DELIVERED: 'Only delivered orders can be returned',
+  RETURN_WINDOW_CLOSED: `Returns must be requested within ${RETURN_CONFIG.WINDOW_DAYS} days of delivery`,
+  RETURN_ALREADY_OPEN: 'This order already has a return in progress',
+  RETURN_QUANTITY_EXCEEDED: 'Cannot return more than was delivered and not yet returned',
+  RETURN_INVALID_STATUS: 'Return request cannot be updated in its current status',
+  RETURN_REFUND_FAILED: 'Refund for the returned items failed',
+  SUBSTITUTION_INVALID_STATUS: 'Items can only be substituted before the order ships',
+  SUBSTITUTION_ITEM_NOT_FOUND: 'Product is not on this order',
+  SUBSTITUTION_NOT_ALLOWED: 'The customer asked for a refund if this item is unavailable',
+  SUBSTITUTION_NOT_CHOSEN: 'The customer only accepts the alternative they chose',
+  SUBSTITUTION_NOT_SIMILAR: 'A similar item must come from the same category',
+  SUBSTITUTION_ALREADY_ON_ORDER: 'The substitute is already on this order; adjust that line instead',
+  SUBSTITUTION_LAST_ITEM: 'Refunding the only item would empty the order; cancel it instead',
+  SUBSTITUTE_NOT_FOUND: 'Substitute product not found',
+  SUB_ORDER_NOT_FOUND: 'Sub-order not found',
+  SUB_ORDER_INVALID_STATUS: 'Invalid sub-order status transition',
+  SUB_ORDER_SELLER_STATUS: 'Sellers can only mark their sub-orders as preparing or ready',
+  DELIVERY_SLOT_HOME_ONLY: 'Only home delivery orders have a delivery slot',
+  DELIVERY_SLOT_LOCKED: 'The delivery slot can only be changed before the order is with a rider',
+  DELIVERY_SLOT_AFTER_PAYMENT: 'Pay Small-Small orders book a delivery slot once fully paid',
+  DELIVERY_SLOT_REQUIRED: 'Choose a delivery slot for the new address',
+  PICKUP_STORE_REQUIRED: 'Choose a store to collect the order from',
+  PICKUP_SLOT_REQUIRED: 'Choose a pickup slot at the new store',
+  MODIFICATION_LOCKED: 'The order can only be changed before it is prepared or with a rider',
+  MODIFICATION_NO_CHANGES: 'Nothing to change on the order',
+  MODIFICATION_EMPTY: 'Removing every item would empty the order; cancel it instead',
+  MODIFICATION_DUPLICATE_ITEM: 'Each product can only be listed once',
+  MODIFICATION_ITEM_NOT_FOUND: 'Product is not on this order',
+  MODIFICATION_PRODUCT_NOT_FOUND: 'Product not found or no longer available',
+  SHOPPING_LIST_NOT_FOUND: 'Shopping list not found',
+  SHOPPING_LIST_NAME_TAKEN: 'You already have a shopping list with this name',
+  SHOPPING_LIST_EMPTY: 'Add products to the shopping list first',
+  SHOPPING_LIST_SUBSCRIBED: 'This shopping list already has a subscription',
 } as const;
 
 // Success messages
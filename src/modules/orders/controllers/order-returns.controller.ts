@@ -0,0 +1,152 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { OrderReturnsService } from '../services/order-returns.service';
+import {
+  CreateReturnRequestDto,
+  ApproveReturnDto,
+  RejectReturnDto,
+  ReturnFilterDto,
+} from '../dto';
+import { JwtAuthGuard, RolesGuard } from '../../auth/guards';
+import { Roles, CurrentUser } from '../../auth/decorators';
+import { UserRole } from '../../users/entities/user.entity';
+
+@ApiTags('returns')
+@Controller('returns')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class OrderReturnsController {
+  constructor(private readonly orderReturnsService: OrderReturnsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Request a return for items on a delivered order' })
+  @ApiResponse({ status: 201, description: 'Return requested successfully' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - order not delivered, window closed or quantity too high',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - can only return own orders',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  requestReturn(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') userRole: UserRole,
+    @Body() createReturnDto: CreateReturnRequestDto,
+  ) {
+    return this.orderReturnsService.requestReturn(
+      userId,
+      userRole,
+      createReturnDto,
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List returns (own returns, or all for admins)' })
+  @ApiResponse({ status: 200, description: 'Returns retrieved successfully' })
+  findAll(
+    @Query() filterDto: ReturnFilterDto,
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') userRole: UserRole,
+  ) {
+    return this.orderReturnsService.findAll(filterDto, userId, userRole);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a return by ID' })
+  @ApiResponse({ status: 200, description: 'Return retrieved successfully' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - can only view own returns',
+  })
+  @ApiResponse({ status: 404, description: 'Return not found' })
+  findOne(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') userRole: UserRole,
+  ) {
+    return this.orderReturnsService.findOne(id, userId, userRole);
+  }
+
+  @Patch(':id/approve')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Approve a return and optionally book a rider pickup (Admin only)',
+  })
+  @ApiResponse({ status: 200, description: 'Return approved successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - return already reviewed',
+  })
+  @ApiResponse({ status: 404, description: 'Return not found' })
+  approveReturn(
+    @Param('id') id: string,
+    @CurrentUser('id') reviewerId: string,
+    @Body() approveReturnDto: ApproveReturnDto,
+  ) {
+    return this.orderReturnsService.approveReturn(
+      id,
+      reviewerId,
+      approveReturnDto,
+    );
+  }
+
+  @Patch(':id/reject')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Reject a return (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Return rejected successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - return already reviewed',
+  })
+  @ApiResponse({ status: 404, description: 'Return not found' })
+  rejectReturn(
+    @Param('id') id: string,
+    @CurrentUser('id') reviewerId: string,
+    @Body() rejectReturnDto: RejectReturnDto,
+  ) {
+    return this.orderReturnsService.rejectReturn(
+      id,
+      reviewerId,
+      rejectReturnDto,
+    );
+  }
+
+  @Post(':id/complete')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary:
+      'Mark returned items received, refund and restock them (Admin only)',
+  })
+  @ApiResponse({ status: 200, description: 'Return completed and refunded' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - return not approved or refund failed',
+  })
+  @ApiResponse({ status: 404, description: 'Return not found' })
+  @HttpCode(HttpStatus.OK)
+  completeReturn(@Param('id') id: string, @CurrentUser('id') adminId: string) {
+    return this.orderReturnsService.completeReturn(id, adminId);
+  }
+}
@@ -22,7 +22,20 @@ import {
   RefundReason, 
   RefundType 
 } from '../services/refund-cancellation.service';
-import { IsString, IsNotEmpty, IsOptional, IsEnum, IsNumber, Min, IsBoolean } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsInt,
+  IsArray,
+  Min,
+  IsBoolean,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class CancelOrderDto {
@@ -41,6 +54,23 @@ export class CancelOrderDto {
   customReason?: string;
 }
 
+export class RefundItemDto {
+  @ApiProperty({ description: 'Product ID of the returned item' })
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  @ApiProperty({ description: 'Pack of the returned item, for products sold in packs', required: false })
+  @IsOptional()
+  @IsString()
+  variantId?: string;
+
+  @ApiProperty({ description: 'Quantity returned' })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
 export class ProcessRefundDto {
   @ApiProperty({ description: 'Order ID for refund' })
   @IsString()
@@ -60,10 +90,22 @@ export class ProcessRefundDto {
   @IsString()
   customReason?: string;
 
-  @ApiProperty({ description: 'Refund amount in NGN' })
+  @ApiProperty({ description: 'Refund amount in NGN. Not needed when items are given', required: false })
+  @ValidateIf((dto) => !dto.items?.length)
   @IsNumber()
   @Min(0)
-  refundAmount: number;
+  refundAmount?: number;
+
+  @ApiProperty({
+    description: 'Returned items; the refund is their price less their share of any promo discount',
+    type: [RefundItemDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RefundItemDto)
+  items?: RefundItemDto[];
 
   @ApiProperty({ description: 'Processing fee (admin override)', required: false })
   @IsOptional()
@@ -154,6 +196,7 @@ export class RefundCancellationController {
         reason: refundDto.reason,
         customReason: refundDto.customReason,
         refundAmount: refundDto.refundAmount,
+        items: refundDto.items,
         processingFee: refundDto.processingFee,
         requestedBy: `admin:${adminId}`,
         adminNotes: refundDto.adminNotes,
@@ -0,0 +1,137 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ShoppingListsService } from '../services/shopping-lists.service';
+import {
+  CreateShoppingListDto,
+  UpdateShoppingListDto,
+  ReorderDto,
+  SubscribeShoppingListDto,
+} from '../dto';
+import { JwtAuthGuard } from '../../auth/guards';
+import { CurrentUser } from '../../auth/decorators';
+
+@ApiTags('shopping-lists')
+@Controller('shopping-lists')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class ShoppingListsController {
+  constructor(private readonly shoppingListsService: ShoppingListsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Save a shopping list from products or a past order',
+  })
+  @ApiResponse({ status: 201, description: 'Shopping list saved' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - a list with this name already exists',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  create(
+    @CurrentUser('id') userId: string,
+    @Body() createShoppingListDto: CreateShoppingListDto,
+  ) {
+    return this.shoppingListsService.create(userId, createShoppingListDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my shopping lists' })
+  @ApiResponse({
+    status: 200,
+    description: 'Shopping lists retrieved successfully',
+  })
+  findAll(@CurrentUser('id') userId: string) {
+    return this.shoppingListsService.findAll(userId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a shopping list by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Shopping list retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Shopping list not found' })
+  findOne(@Param('id') id: string, @CurrentUser('id') userId: string) {
+    return this.shoppingListsService.findOne(id, userId);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename a shopping list or replace its items' })
+  @ApiResponse({ status: 200, description: 'Shopping list updated' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - a list with this name already exists',
+  })
+  @ApiResponse({ status: 404, description: 'Shopping list not found' })
+  update(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @Body() updateShoppingListDto: UpdateShoppingListDto,
+  ) {
+    return this.shoppingListsService.update(id, userId, updateShoppingListDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a shopping list' })
+  @ApiResponse({ status: 204, description: 'Shopping list deleted' })
+  @ApiResponse({ status: 404, description: 'Shopping list not found' })
+  remove(@Param('id') id: string, @CurrentUser('id') userId: string) {
+    return this.shoppingListsService.remove(id, userId);
+  }
+
+  @Post(':id/reorder')
+  @ApiOperation({
+    summary:
+      'Put the list in the cart at current prices, reporting unavailable items',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Cart rebuilt with the items added and skipped',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - list is empty' })
+  @ApiResponse({ status: 404, description: 'Shopping list not found' })
+  reorder(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @Body() reorderDto: ReorderDto,
+  ) {
+    return this.shoppingListsService.reorderList(id, userId, reorderDto);
+  }
+
+  @Post(':id/subscription')
+  @ApiOperation({ summary: 'Order the list on a recurring schedule' })
+  @ApiResponse({ status: 201, description: 'Subscription created' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - list is empty or a product is out of stock',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - the list already has a subscription',
+  })
+  @ApiResponse({ status: 404, description: 'Shopping list not found' })
+  subscribe(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @Body() subscribeDto: SubscribeShoppingListDto,
+  ) {
+    return this.shoppingListsService.subscribe(id, userId, subscribeDto);
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SubOrdersService } from '../services/sub-orders.service';
+import { UpdateSubOrderStatusDto } from '../dto';
+import { JwtAuthGuard } from '../../auth/guards';
+import { CurrentUser } from '../../auth/decorators';
+import { UserRole } from '../../users/entities/user.entity';
+
+@ApiTags('sub-orders')
+@Controller('sub-orders')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class SubOrdersController {
+  constructor(private readonly subOrdersService: SubOrdersService) {}
+
+  @Get('order/:orderId')
+  @ApiOperation({
+    summary:
+      'List the sub-orders of an order (all for the customer or admins, own for sellers)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sub-orders retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  findByParent(
+    @Param('orderId') orderId: string,
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') userRole: UserRole,
+  ) {
+    return this.subOrdersService.findByParent(orderId, userId, userRole);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a sub-order by ID' })
+  @ApiResponse({ status: 200, description: 'Sub-order retrieved successfully' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not the seller or customer',
+  })
+  @ApiResponse({ status: 404, description: 'Sub-order not found' })
+  findOne(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') userRole: UserRole,
+  ) {
+    return this.subOrdersService.findOne(id, userId, userRole);
+  }
+
+  @Patch(':id/status')
+  @ApiOperation({
+    summary:
+      'Mark a sub-order preparing or ready (seller), or any step (admin)',
+  })
+  @ApiResponse({ status: 200, description: 'Sub-order status updated' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid status transition',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - can only update own sub-orders',
+  })
+  @ApiResponse({ status: 404, description: 'Sub-order not found' })
+  updateStatus(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') userRole: UserRole,
+    @Body() updateStatusDto: UpdateSubOrderStatusDto,
+  ) {
+    return this.subOrdersService.updateStatus(
+      id,
+      updateStatusDto,
+      userId,
+      userRole,
+    );
+  }
+}
@@ -3,11 +3,16 @@ import {
   IsNotEmpty,
   IsNumber,
   Min,
+  Max,
   IsOptional,
   IsArray,
   IsEnum,
   ValidateNested,
   IsMongoId,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateIf,
+  IsDateString,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
@@ -21,6 +26,11 @@ export class AddToCartDto {
   @IsNotEmpty()
   productId: string;
 
+  @ApiProperty({ description: 'Pack to add, for products sold in packs', required: false })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
   @ApiProperty({ description: 'Quantity to add', minimum: 1 })
   @IsNumber()
   @Min(1)
@@ -32,6 +42,11 @@ export class UpdateCartItemDto {
   @IsNumber()
   @Min(1)
   quantity: number;
+
+  @ApiProperty({ description: 'Pack of the cart item, for products sold in packs', required: false })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
 }
 
 export class RemoveFromCartDto {
@@ -39,6 +54,11 @@ export class RemoveFromCartDto {
   @IsMongoId()
   @IsNotEmpty()
   productId: string;
+
+  @ApiProperty({ description: 'Pack to remove, for products sold in packs', required: false })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
 }
 
 export class DeliveryAddressDto {
@@ -71,6 +91,27 @@ export class DeliveryAddressDto {
   @IsOptional()
   @IsString()
   instructions?: string;
+
+  @ApiProperty({ description: 'Latitude of the delivery location', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @ApiProperty({ description: 'Longitude of the delivery location', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+}
+
+export class DeliveryQuoteDto {
+  @ApiProperty({ description: 'Delivery address to quote for', type: DeliveryAddressDto })
+  @ValidateNested()
+  @Type(() => DeliveryAddressDto)
+  deliveryAddress: DeliveryAddressDto;
 }
 
 export class CheckoutDto {
@@ -96,6 +137,31 @@ export class CheckoutDto {
   @Type(() => DeliveryAddressDto)
   deliveryAddress?: DeliveryAddressDto;
 
+  @ApiProperty({ description: 'Store to collect from (required for pickup)', required: false })
+  @ValidateIf((dto) => dto.deliveryMethod === DeliveryMethod.PICKUP)
+  @IsMongoId()
+  pickupStoreId?: string;
+
+  @ApiProperty({
+    description: 'Start of the pickup slot, from the store\'s pickup slots (required for pickup)',
+    required: false,
+  })
+  @ValidateIf((dto) => dto.deliveryMethod === DeliveryMethod.PICKUP)
+  @IsDateString()
+  pickupSlotStart?: string;
+
+  @ApiProperty({
+    description: 'Start of the delivery slot, from the city\'s delivery slots (required for home delivery, except Pay Small-Small orders, which book once fully paid)',
+    required: false,
+  })
+  @ValidateIf(
+    (dto) =>
+      dto.deliveryMethod === DeliveryMethod.HOME_DELIVERY &&
+      dto.paymentPlan?.type !== PaymentPlan.PAY_SMALL_SMALL,
+  )
+  @IsDateString()
+  deliverySlotStart?: string;
+
   @ApiProperty({ description: 'Order notes or special instructions', required: false })
   @IsOptional()
   @IsString()
@@ -122,3 +188,36 @@ export class PaymentDto {
   @IsString()
   notes?: string;
 }
+
+export class PaymentTenderDto {
+  @ApiProperty({ description: 'Payment method for this leg', enum: PaymentMethod })
+  @IsEnum(PaymentMethod)
+  paymentMethod: PaymentMethod;
+
+  @ApiProperty({
+    description: 'Most to take from this tender. Wallet tenders default to the available balance',
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+}
+
+export class SplitPaymentDto {
+  @ApiProperty({
+    description: 'Tenders in the order they should be used. A card or bank transfer tender pays the remainder and must come last',
+    type: [PaymentTenderDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(3)
+  @ValidateNested({ each: true })
+  @Type(() => PaymentTenderDto)
+  tenders: PaymentTenderDto[];
+
+  @ApiProperty({ description: 'Payment notes', required: false })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
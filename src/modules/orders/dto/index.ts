@@ -15,7 +15,10 @@ export {
   UpdateCartItemDto,
   RemoveFromCartDto,
   CheckoutDto,
+  DeliveryQuoteDto,
   PaymentDto,
+  PaymentTenderDto,
+  SplitPaymentDto,
   DeliveryAddressDto,
 } from './create-order.dto';
 
@@ -28,4 +31,36 @@ export {
   PriceLockPlanDto,
   PaySmallSmallPlanDto,
   PayLaterPlanDto,
-} from './payment-plan.dto';
\ No newline at end of file
+} from './payment-plan.dto';
+
+export {
+  ReturnItemDto,
+  CreateReturnRequestDto,
+  RestockableItemDto,
+  ApproveReturnDto,
+  RejectReturnDto,
+  ReturnFilterDto,
+} from './return-request.dto';
+
+export {
+  SetSubstitutionPreferenceDto,
+  RecordSubstitutionDto,
+} from './substitution.dto';
+
+export {
+  UpdateSubOrderStatusDto,
+  SubOrderFilterDto,
+} from './sub-order.dto';
+
+export {
+  ModifyOrderItemDto,
+  ModifyOrderDto,
+} from './modify-order.dto';
+
+export {
+  ShoppingListItemDto,
+  CreateShoppingListDto,
+  UpdateShoppingListDto,
+  ReorderDto,
+  SubscribeShoppingListDto,
+} from './shopping-list.dto';
@@ -0,0 +1,103 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsArray,
+  IsDateString,
+  ArrayMinSize,
+  ValidateNested,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { DeliveryMethod } from '../entities/order.entity';
+import { DeliveryAddressDto } from './create-order.dto';
+
+export class ModifyOrderItemDto {
+  @ApiProperty({ description: 'Product to add or change on the order' })
+  @IsMongoId()
+  productId: string;
+
+  @ApiProperty({
+    description: 'Pack to add or change, for products sold in packs',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
+  @ApiProperty({
+    description: 'New quantity. 0 removes the item from the order',
+    example: 2,
+  })
+  @IsInt()
+  @Min(0)
+  quantity: number;
+}
+
+export class ModifyOrderDto {
+  @ApiProperty({
+    description:
+      'Items to add, remove or change. Items left out stay as they are',
+    type: [ModifyOrderItemDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ModifyOrderItemDto)
+  items?: ModifyOrderItemDto[];
+
+  @ApiProperty({
+    description: 'New delivery method',
+    enum: DeliveryMethod,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(DeliveryMethod)
+  deliveryMethod?: DeliveryMethod;
+
+  @ApiProperty({
+    description: 'New delivery address (home delivery)',
+    type: DeliveryAddressDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeliveryAddressDto)
+  deliveryAddress?: DeliveryAddressDto;
+
+  @ApiProperty({
+    description: 'Store to collect from (pickup)',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  pickupStoreId?: string;
+
+  @ApiProperty({
+    description:
+      'Start of the new pickup slot. Required when the store changes',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  pickupSlotStart?: string;
+
+  @ApiProperty({
+    description:
+      'Start of the new delivery slot. Required when the city changes',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  deliverySlotStart?: string;
+
+  @ApiProperty({ description: 'Why the order was changed', required: false })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -0,0 +1,180 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsArray,
+  IsBoolean,
+  IsMongoId,
+  IsUrl,
+  IsNumber,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  ValidateIf,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ReturnReason, ReturnStatus } from '../entities/return-request.entity';
+import { DeliveryLocationDto } from '../../delivery/dto/delivery.dto';
+import { RETURN_CONFIG } from '../constants';
+
+export class ReturnItemDto {
+  @ApiProperty({ description: 'Product ID of the item being returned' })
+  @IsMongoId()
+  productId: string;
+
+  @ApiProperty({
+    description: 'Pack being returned, for products sold in packs',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
+  @ApiProperty({ description: 'Quantity being returned' })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Reason for this item, if different from the request',
+    enum: ReturnReason,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ReturnReason)
+  reason?: ReturnReason;
+}
+
+export class CreateReturnRequestDto {
+  @ApiProperty({ description: 'Delivered order the items came from' })
+  @IsMongoId()
+  orderId: string;
+
+  @ApiProperty({
+    description: 'Items and quantities being returned',
+    type: [ReturnItemDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ReturnItemDto)
+  items: ReturnItemDto[];
+
+  @ApiProperty({ description: 'Reason for the return', enum: ReturnReason })
+  @IsEnum(ReturnReason)
+  reason: ReturnReason;
+
+  @ApiProperty({ description: 'What went wrong', required: false })
+  @IsOptional()
+  @IsString()
+  details?: string;
+
+  @ApiProperty({
+    description: 'Photo URLs of the items',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(RETURN_CONFIG.MAX_PHOTOS)
+  @IsUrl({}, { each: true })
+  photos?: string[];
+}
+
+export class RestockableItemDto {
+  @ApiProperty({ description: 'Product ID of the returned line' })
+  @IsMongoId()
+  productId: string;
+
+  @ApiProperty({
+    description: 'Pack of the returned line, for products sold in packs',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+}
+
+export class ApproveReturnDto {
+  @ApiProperty({
+    description:
+      'Lines that can go back on sale when received. Others are written off',
+    type: [RestockableItemDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RestockableItemDto)
+  restockableItems?: RestockableItemDto[];
+
+  @ApiProperty({
+    description: 'Book a rider to collect the items',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  schedulePickup?: boolean;
+
+  @ApiProperty({
+    description:
+      'Where the rider drops the items off. Required with schedulePickup',
+    required: false,
+  })
+  @ValidateIf((dto) => dto.schedulePickup)
+  @ValidateNested()
+  @Type(() => DeliveryLocationDto)
+  dropoffLocation?: DeliveryLocationDto;
+
+  @ApiProperty({ description: 'Reviewer notes', required: false })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class RejectReturnDto {
+  @ApiProperty({ description: 'Why the return was rejected' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class ReturnFilterDto {
+  @ApiProperty({
+    description: 'Filter by return status',
+    enum: ReturnStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ReturnStatus)
+  status?: ReturnStatus;
+
+  @ApiProperty({
+    description: 'Page number for pagination',
+    required: false,
+    minimum: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    required: false,
+    minimum: 1,
+    default: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  limit?: number = 10;
+}
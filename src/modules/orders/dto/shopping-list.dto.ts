@@ -0,0 +1,147 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  ArrayMaxSize,
+  ValidateNested,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { PaymentPlan, SubscriptionFrequency } from '../entities/order.entity';
+import { DeliveryAddressDto } from './create-order.dto';
+import { ORDER_CONSTANTS } from '../constants';
+
+export class ShoppingListItemDto {
+  @ApiProperty({ description: 'Product ID' })
+  @IsMongoId()
+  productId: string;
+
+  @ApiProperty({
+    description: 'Pack of the product, for products sold in packs',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
+  @ApiProperty({
+    description: 'Quantity added to the cart by default',
+    example: 2,
+  })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateShoppingListDto {
+  @ApiProperty({ description: 'Name of the list', example: 'Monthly restock' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Products on the list',
+    type: [ShoppingListItemDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(ORDER_CONSTANTS.MAX_ITEMS_PER_ORDER)
+  @ValidateNested({ each: true })
+  @Type(() => ShoppingListItemDto)
+  items?: ShoppingListItemDto[];
+
+  @ApiProperty({
+    description: 'Past order to copy the items from instead',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  orderId?: string;
+}
+
+export class UpdateShoppingListDto {
+  @ApiProperty({ description: 'New name of the list', required: false })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({
+    description: 'Products on the list. Replaces the current items',
+    type: [ShoppingListItemDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(ORDER_CONSTANTS.MAX_ITEMS_PER_ORDER)
+  @ValidateNested({ each: true })
+  @Type(() => ShoppingListItemDto)
+  items?: ShoppingListItemDto[];
+}
+
+export class ReorderDto {
+  @ApiProperty({
+    description: 'Empty the cart first. Otherwise the items are added to it',
+    required: false,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  replaceCart?: boolean;
+}
+
+export class SubscribeShoppingListDto {
+  @ApiProperty({
+    description: 'How often to order',
+    enum: SubscriptionFrequency,
+  })
+  @IsEnum(SubscriptionFrequency)
+  frequency: SubscriptionFrequency;
+
+  @ApiProperty({
+    description: 'Date of the first order',
+    example: '2026-11-01',
+  })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ description: 'Date of the last order', required: false })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiProperty({
+    description: 'Where to deliver each order',
+    type: DeliveryAddressDto,
+  })
+  @ValidateNested()
+  @Type(() => DeliveryAddressDto)
+  deliveryAddress: DeliveryAddressDto;
+
+  @ApiProperty({
+    description: 'Payment plan for each order',
+    enum: PaymentPlan,
+  })
+  @IsEnum(PaymentPlan)
+  paymentPlan: PaymentPlan;
+
+  @ApiProperty({
+    description: 'Pay each order from the wallet automatically',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  autoPayment?: boolean;
+}
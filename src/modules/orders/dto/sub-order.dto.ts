@@ -0,0 +1,50 @@
+import { IsString, IsOptional, IsEnum, IsNumber, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { SubOrderStatus } from '../entities/sub-order.entity';
+
+export class UpdateSubOrderStatusDto {
+  @ApiProperty({ description: 'New fulfilment status', enum: SubOrderStatus })
+  @IsEnum(SubOrderStatus)
+  status: SubOrderStatus;
+
+  @ApiProperty({ description: 'Notes for the status change', required: false })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class SubOrderFilterDto {
+  @ApiProperty({
+    description: 'Filter by sub-order status',
+    enum: SubOrderStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(SubOrderStatus)
+  status?: SubOrderStatus;
+
+  @ApiProperty({
+    description: 'Page number for pagination',
+    required: false,
+    minimum: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    required: false,
+    minimum: 1,
+    default: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  limit?: number = 10;
+}
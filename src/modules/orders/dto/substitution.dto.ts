@@ -0,0 +1,96 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsMongoId,
+  ValidateIf,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { SubstitutionPreference } from '../entities/order.entity';
+
+export class SetSubstitutionPreferenceDto {
+  @ApiProperty({
+    description: 'What to do if the item is out of stock at fulfilment',
+    enum: SubstitutionPreference,
+  })
+  @IsEnum(SubstitutionPreference)
+  preference: SubstitutionPreference;
+
+  @ApiProperty({
+    description: 'Alternative product. Required for SPECIFIC_PRODUCT',
+    required: false,
+  })
+  @ValidateIf(
+    (dto) => dto.preference === SubstitutionPreference.SPECIFIC_PRODUCT,
+  )
+  @IsMongoId()
+  substituteProductId?: string;
+
+  @ApiProperty({
+    description: 'Pack of the cart item, for products sold in packs',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+}
+
+export class RecordSubstitutionDto {
+  @ApiProperty({ description: 'Out-of-stock product on the order' })
+  @IsMongoId()
+  productId: string;
+
+  @ApiProperty({
+    description: 'Pack of the out-of-stock line, for products sold in packs',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
+  @ApiProperty({
+    description: 'Product sent instead. Leave out to refund the item',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  substituteProductId?: string;
+
+  @ApiProperty({
+    description: 'Pack of the substitute, for products sold in packs',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  substituteVariantId?: string;
+
+  @ApiProperty({
+    description: 'Quantity of the substitute. Defaults to the quantity ordered',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  substituteQuantity?: number;
+
+  @ApiProperty({
+    description:
+      'Unit price in NGN for the substitute. Defaults to its current price',
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  substituteUnitPrice?: number;
+
+  @ApiProperty({
+    description: 'Why the substitution was made',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -1,6 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
+import { SubstitutionPreference } from './order.entity';
 
 export type CartDocument = Cart & Document;
 
@@ -10,6 +11,14 @@ export class CartItem {
   @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
   productId: Types.ObjectId;
 
+  @ApiProperty({ description: 'Pack of the product, for products sold in packs', required: false })
+  @Prop({ type: Types.ObjectId, required: false })
+  variantId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Pack label for quick reference, e.g. 5kg bag', required: false })
+  @Prop({ required: false })
+  variantLabel?: string;
+
   @ApiProperty({ description: 'Product name for quick reference' })
   @Prop({ required: true })
   productName: string;
@@ -38,6 +47,14 @@ export class CartItem {
   @Prop({ required: true, min: 0 })
   totalPriceInNibia: number;
 
+  @ApiProperty({ description: 'What to do if the item is out of stock at fulfilment', enum: SubstitutionPreference })
+  @Prop({ enum: Object.values(SubstitutionPreference), default: SubstitutionPreference.REFUND })
+  substitutionPreference: SubstitutionPreference;
+
+  @ApiProperty({ description: 'Alternative product for SPECIFIC_PRODUCT substitutions', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: false })
+  substituteProductId?: Types.ObjectId;
+
   @ApiProperty({ description: 'When this item was added to cart' })
   @Prop({ default: Date.now })
   addedAt: Date;
@@ -71,6 +88,10 @@ export class Cart {
   @Prop({ default: 0 })
   totalAmountInNibia: number;
 
+  @ApiProperty({ description: 'Promo code applied to the cart', required: false })
+  @Prop({ required: false, type: String, uppercase: true, trim: true })
+  promoCode?: string;
+
   @ApiProperty({ description: 'Cart expiration date' })
   @Prop({ 
     default: () => new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from creation
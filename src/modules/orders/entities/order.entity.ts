@@ -11,6 +11,8 @@ import {
   IsDateString,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { DeliveryQuote } from '../../delivery-pricing/interfaces/delivery-quote.interface';
+import { PromotionType } from '../../promotions/constants/promotion.constants';
 
 export type OrderDocument = Order & Document;
 
@@ -20,6 +22,9 @@ export enum OrderStatus {
   SHIPPED = 'shipped',
   DELIVERED = 'delivered',
   CANCELLED = 'cancelled',
+  RETURN_REQUESTED = 'return_requested',
+  RETURNED = 'returned',
+  PARTIALLY_RETURNED = 'partially_returned',
 }
 
 export enum PaymentPlan {
@@ -29,6 +34,12 @@ export enum PaymentPlan {
   PAY_LATER = 'pay_later',        // Credit check before approving
 }
 
+export enum SubstitutionPreference {
+  SIMILAR_ITEM = 'similar_item',         // Any product from the same category
+  SPECIFIC_PRODUCT = 'specific_product', // Only the alternative the customer chose
+  REFUND = 'refund',                     // Drop the item and refund it
+}
+
 export enum DeliveryMethod {
   PICKUP = 'pickup',
   HOME_DELIVERY = 'home_delivery',
@@ -40,6 +51,13 @@ export enum PaymentFrequency {
   MONTHLY = 'monthly',
 }
 
+export enum SubscriptionFrequency {
+  WEEKLY = 'weekly',
+  BIWEEKLY = 'biweekly',
+  MONTHLY = 'monthly',
+  QUARTERLY = 'quarterly',
+}
+
 export enum CreditStatus {
   PENDING = 'pending',
   APPROVED = 'approved',
@@ -69,6 +87,17 @@ export class CartItem {
   @Prop({ required: true, type: Types.ObjectId, ref: 'Product' })
   productId: Types.ObjectId;
 
+  @ApiProperty({ description: 'Pack of the product, for products sold in packs', required: false })
+  @Prop({ required: false, type: Types.ObjectId })
+  @IsOptional()
+  variantId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Pack label at time of order, e.g. 5kg bag', required: false })
+  @Prop({ required: false, type: String })
+  @IsOptional()
+  @IsString()
+  variantLabel?: string;
+
   @ApiProperty({ description: 'Quantity of the product' })
   @Prop({ required: true, type: Number, min: 1 })
   @IsNumber()
@@ -98,6 +127,30 @@ export class CartItem {
   @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
   totalPriceInNibia: number;
+
+  @ApiProperty({ description: 'Share of the promo discount given on this item in NGN' })
+  @Prop({ required: false, type: Number, min: 0, default: 0 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  discountAmount?: number;
+
+  @ApiProperty({ description: 'What to do if the item is out of stock at fulfilment', enum: SubstitutionPreference })
+  @Prop({ required: false, enum: Object.values(SubstitutionPreference), default: SubstitutionPreference.REFUND })
+  @IsOptional()
+  @IsEnum(SubstitutionPreference)
+  substitutionPreference?: SubstitutionPreference;
+
+  @ApiProperty({ description: 'Alternative product for SPECIFIC_PRODUCT substitutions' })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'Product' })
+  @IsOptional()
+  substituteProductId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Units returned after delivery and refunded' })
+  @Prop({ required: false, type: Number, min: 0, default: 0 })
+  @IsOptional()
+  @IsNumber()
+  returnedQuantity?: number;
 }
 
 @Schema({ timestamps: true, _id: false })
@@ -228,6 +281,12 @@ export class PaymentHistory {
   @IsString()
   transactionRef?: string;
 
+  @ApiProperty({ description: 'Groups the legs of a split-tender payment' })
+  @Prop({ required: false, type: String })
+  @IsOptional()
+  @IsString()
+  splitReference?: string;
+
   @ApiProperty({ description: 'Payment notes or description' })
   @Prop({ required: false, type: String })
   @IsOptional()
@@ -235,6 +294,178 @@ export class PaymentHistory {
   notes?: string;
 }
 
+@Schema({ _id: false })
+export class OrderPromotion {
+  @ApiProperty({ description: 'Campaign the code belongs to' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Promotion' })
+  promotionId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Promo code applied' })
+  @Prop({ required: true, type: String })
+  @IsString()
+  code: string;
+
+  @ApiProperty({ description: 'Discount type', enum: PromotionType })
+  @Prop({ required: true, enum: Object.values(PromotionType) })
+  @IsEnum(PromotionType)
+  type: PromotionType;
+
+  @ApiProperty({ description: 'Discount on items in NGN' })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  itemDiscount: number;
+
+  @ApiProperty({ description: 'Discount on the delivery fee in NGN' })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  deliveryDiscount: number;
+}
+
+@Schema({ _id: false })
+export class OrderSubstitution {
+  @ApiProperty({ description: 'Product that was out of stock' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Product' })
+  originalProductId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Pack of the original product, for products sold in packs', required: false })
+  @Prop({ required: false, type: Types.ObjectId })
+  originalVariantId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Quantity ordered of the original product' })
+  @Prop({ required: true, type: Number, min: 1 })
+  originalQuantity: number;
+
+  @ApiProperty({ description: 'Unit price paid for the original product' })
+  @Prop({ required: true, type: Number, min: 0 })
+  originalUnitPrice: number;
+
+  @ApiProperty({ description: 'Original line total after its promo discount share' })
+  @Prop({ required: true, type: Number, min: 0 })
+  originalLineTotal: number;
+
+  @ApiProperty({ description: 'Product sent instead; absent when the item was refunded' })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'Product' })
+  substituteProductId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Pack of the substitute, for products sold in packs', required: false })
+  @Prop({ required: false, type: Types.ObjectId })
+  substituteVariantId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Quantity of the substitute sent' })
+  @Prop({ required: false, type: Number, min: 1 })
+  substituteQuantity?: number;
+
+  @ApiProperty({ description: 'Unit price charged for the substitute' })
+  @Prop({ required: false, type: Number, min: 0 })
+  substituteUnitPrice?: number;
+
+  @ApiProperty({ description: 'New line total after its promo discount share; 0 when refunded' })
+  @Prop({ required: true, type: Number, min: 0 })
+  substituteLineTotal: number;
+
+  @ApiProperty({ description: 'New line total minus the original; negative means the customer is owed money' })
+  @Prop({ required: true, type: Number })
+  priceDifference: number;
+
+  @ApiProperty({ description: 'Amount refunded to (negative) or charged from (positive) the wallet' })
+  @Prop({ required: true, type: Number, default: 0 })
+  walletAdjustment: number;
+
+  @ApiProperty({ description: 'Ledger transaction for the wallet adjustment' })
+  @Prop({ required: false, type: String })
+  transactionRef?: string;
+
+  @ApiProperty({ description: 'Why the substitution was made' })
+  @Prop({ required: false, type: String })
+  reason?: string;
+
+  @ApiProperty({ description: 'Staff member who recorded the substitution' })
+  @Prop({ required: true, type: String })
+  recordedBy: string;
+
+  @ApiProperty({ description: 'When the substitution was recorded' })
+  @Prop({ required: true, type: Date, default: Date.now })
+  recordedAt: Date;
+}
+
+export enum OrderModificationChange {
+  ITEMS = 'items',
+  DELIVERY = 'delivery',
+  SLOT = 'slot',
+}
+
+@Schema({ _id: false })
+export class OrderModificationItem {
+  @ApiProperty({ description: 'Product on the order' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Product' })
+  productId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Pack on the order, for products sold in packs', required: false })
+  @Prop({ required: false, type: Types.ObjectId })
+  variantId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Quantity ordered' })
+  @Prop({ required: true, type: Number, min: 1 })
+  quantity: number;
+
+  @ApiProperty({ description: 'Unit price charged' })
+  @Prop({ required: true, type: Number, min: 0 })
+  unitPrice: number;
+}
+
+@Schema({ _id: false })
+export class OrderModification {
+  @ApiProperty({ description: 'What was changed', enum: OrderModificationChange, isArray: true })
+  @Prop({ type: [String], enum: Object.values(OrderModificationChange), default: [] })
+  changes: OrderModificationChange[];
+
+  @ApiProperty({ description: 'Items before the change', type: [OrderModificationItem] })
+  @Prop({ type: [OrderModificationItem], default: [] })
+  previousItems: OrderModificationItem[];
+
+  @ApiProperty({ description: 'Items after the change', type: [OrderModificationItem] })
+  @Prop({ type: [OrderModificationItem], default: [] })
+  items: OrderModificationItem[];
+
+  @ApiProperty({ description: 'Delivery method before the change', enum: DeliveryMethod })
+  @Prop({ required: true, enum: Object.values(DeliveryMethod) })
+  previousDeliveryMethod: DeliveryMethod;
+
+  @ApiProperty({ description: 'Delivery method after the change', enum: DeliveryMethod })
+  @Prop({ required: true, enum: Object.values(DeliveryMethod) })
+  deliveryMethod: DeliveryMethod;
+
+  @ApiProperty({ description: 'Final total before the change' })
+  @Prop({ required: true, type: Number, min: 0 })
+  previousFinalTotal: number;
+
+  @ApiProperty({ description: 'Final total after the change' })
+  @Prop({ required: true, type: Number, min: 0 })
+  finalTotal: number;
+
+  @ApiProperty({ description: 'Amount refunded to (negative) or charged from (positive) the wallet' })
+  @Prop({ required: true, type: Number, default: 0 })
+  walletAdjustment: number;
+
+  @ApiProperty({ description: 'Ledger transaction for the wallet adjustment' })
+  @Prop({ required: false, type: String })
+  transactionRef?: string;
+
+  @ApiProperty({ description: 'Why the order was changed' })
+  @Prop({ required: false, type: String })
+  reason?: string;
+
+  @ApiProperty({ description: 'User who changed the order' })
+  @Prop({ required: true, type: String })
+  modifiedBy: string;
+
+  @ApiProperty({ description: 'When the order was changed' })
+  @Prop({ required: true, type: Date, default: Date.now })
+  modifiedAt: Date;
+}
+
 @Schema({ timestamps: true, _id: false })
 export class DeliveryAddress {
   @ApiProperty({ description: 'Street address' })
@@ -285,6 +516,17 @@ export class DeliveryAddress {
   longitude?: number;
 }
 
+@Schema({ _id: false })
+export class SlotBooking {
+  @ApiProperty({ description: 'Start of the collection or delivery window' })
+  @Prop({ required: true, type: Date })
+  startsAt: Date;
+
+  @ApiProperty({ description: 'End of the collection or delivery window' })
+  @Prop({ required: true, type: Date })
+  endsAt: Date;
+}
+
 @Schema({ timestamps: true })
 export class Order {
   @ApiProperty({ description: 'Order number (unique identifier)' })
@@ -322,7 +564,35 @@ export class Order {
   @Min(0)
   deliveryFee: number;
 
-  @ApiProperty({ description: 'Final total (totalAmount + deliveryFee)' })
+  @ApiProperty({ description: 'Delivery quote the fee was taken from; reused to pay the rider' })
+  @Prop({ required: false, type: Object })
+  @IsOptional()
+  deliveryQuote?: DeliveryQuote;
+
+  @ApiProperty({ description: 'Promo code discount in NGN, items and delivery' })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  discountAmount: number;
+
+  @ApiProperty({ description: 'Promo code applied at checkout', type: OrderPromotion })
+  @Prop({ required: false, type: OrderPromotion })
+  @IsOptional()
+  promotion?: OrderPromotion;
+
+  @ApiProperty({ description: 'Out-of-stock items substituted or refunded at fulfilment', type: [OrderSubstitution] })
+  @Prop({ type: [OrderSubstitution], default: [] })
+  @IsOptional()
+  @IsArray()
+  substitutions?: OrderSubstitution[];
+
+  @ApiProperty({ description: 'Changes the customer made after checkout', type: [OrderModification] })
+  @Prop({ type: [OrderModification], default: [] })
+  @IsOptional()
+  @IsArray()
+  modifications?: OrderModification[];
+
+  @ApiProperty({ description: 'Final total (totalAmount + deliveryFee - discountAmount)' })
   @Prop({ required: true, type: Number, min: 0 })
   @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0)
@@ -352,6 +622,21 @@ export class Order {
   @IsOptional()
   deliveryAddress?: DeliveryAddress;
 
+  @ApiProperty({ description: 'Store the order is collected from or dispatched from' })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'Store' })
+  @IsOptional()
+  storeId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Booked pickup slot (pickup orders)', type: SlotBooking })
+  @Prop({ required: false, type: SlotBooking })
+  @IsOptional()
+  pickupSlot?: SlotBooking;
+
+  @ApiProperty({ description: 'Booked delivery slot (home delivery orders)', type: SlotBooking })
+  @Prop({ required: false, type: SlotBooking })
+  @IsOptional()
+  deliverySlot?: SlotBooking;
+
   @ApiProperty({ description: 'Payment schedule for installments', type: PaymentSchedule })
   @Prop({ required: false, type: PaymentSchedule })
   @IsOptional()
@@ -380,6 +665,18 @@ export class Order {
   @IsArray()
   paymentHistory: PaymentHistory[];
 
+  @ApiProperty({ description: 'Split payment waiting for its gateway leg', required: false })
+  @Prop({ required: false, type: String })
+  @IsOptional()
+  @IsString()
+  pendingSplitReference?: string;
+
+  @ApiProperty({ description: 'When the wallet legs of the pending split payment are released', required: false })
+  @Prop({ required: false, type: Date })
+  @IsOptional()
+  @IsDateString()
+  pendingSplitExpiresAt?: Date;
+
   @ApiProperty({ description: 'Order status change history', type: [StatusHistory] })
   @Prop({ required: true, type: [StatusHistory], default: [] })
   @IsArray()
@@ -498,6 +795,7 @@ export const CartItemSchema = SchemaFactory.createForClass(CartItem);
 export const PaymentHistorySchema = SchemaFactory.createForClass(PaymentHistory);
 export const StatusHistorySchema = SchemaFactory.createForClass(StatusHistory);
 export const DeliveryAddressSchema = SchemaFactory.createForClass(DeliveryAddress);
+export const OrderPromotionSchema = SchemaFactory.createForClass(OrderPromotion);
 export const PaymentScheduleSchema = SchemaFactory.createForClass(PaymentSchedule);
 export const CreditCheckSchema = SchemaFactory.createForClass(CreditCheck);
 export const OrderSchema = SchemaFactory.createForClass(Order);
@@ -505,7 +803,7 @@ export const OrderSchema = SchemaFactory.createForClass(Order);
 // Pre-save middleware to calculate totals and remaining amount
 OrderSchema.pre('save', function (next) {
   // Calculate final total
-  this.finalTotal = this.totalAmount + this.deliveryFee;
+  this.finalTotal = this.totalAmount + this.deliveryFee - (this.discountAmount || 0);
   
   // Calculate remaining amount
   this.remainingAmount = this.finalTotal - this.amountPaid;
@@ -525,9 +823,10 @@ OrderSchema.pre('findOneAndUpdate', function (next) {
   if (update.totalAmount !== undefined || update.deliveryFee !== undefined || update.amountPaid !== undefined) {
     const totalAmount = update.totalAmount ?? 0;
     const deliveryFee = update.deliveryFee ?? 0;
+    const discountAmount = update.discountAmount ?? 0;
     const amountPaid = update.amountPaid ?? 0;
     
-    update.finalTotal = totalAmount + deliveryFee;
+    update.finalTotal = totalAmount + deliveryFee - discountAmount;
     update.remainingAmount = Math.max(0, update.finalTotal - amountPaid);
   }
   
@@ -545,3 +844,4 @@ OrderSchema.index({ expectedDeliveryDate: 1 });
 OrderSchema.index({ 'deliveryAddress.city': 1 });
 OrderSchema.index({ assignedRider: 1 });
 OrderSchema.index({ riderAssignedAt: 1 });
+OrderSchema.index({ pendingSplitExpiresAt: 1 }, { sparse: true });
@@ -0,0 +1,150 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type ReturnRequestDocument = ReturnRequest & Document;
+
+export enum ReturnStatus {
+  REQUESTED = 'requested', // Waiting for review
+  APPROVED = 'approved', // Customer brings the items back
+  PICKUP_SCHEDULED = 'pickup_scheduled', // A rider collects the items
+  REJECTED = 'rejected',
+  COMPLETED = 'completed', // Items received, refunded and restocked
+}
+
+export enum ReturnReason {
+  DAMAGED = 'damaged',
+  SPOILED = 'spoiled',
+  WRONG_ITEM = 'wrong_item',
+  NOT_AS_DESCRIBED = 'not_as_described',
+  CHANGED_MIND = 'changed_mind',
+  OTHER = 'other',
+}
+
+@Schema({ _id: false })
+export class ReturnItem {
+  @ApiProperty({ description: 'Product ID' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Product' })
+  productId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Pack returned, for products sold in packs',
+    required: false,
+  })
+  @Prop({ required: false, type: Types.ObjectId })
+  variantId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Quantity returned' })
+  @Prop({ required: true, type: Number, min: 1 })
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Reason for this item, if different from the request',
+    enum: ReturnReason,
+  })
+  @Prop({ required: false, enum: Object.values(ReturnReason) })
+  reason?: ReturnReason;
+
+  @ApiProperty({
+    description: 'Whether the item goes back on sale when received',
+  })
+  @Prop({ required: true, type: Boolean, default: false })
+  restockable: boolean;
+
+  @ApiProperty({ description: 'Amount refunded for this line in NGN' })
+  @Prop({ required: false, type: Number, min: 0 })
+  refundAmount?: number;
+}
+
+@Schema({ _id: false })
+export class ReturnPickup {
+  @ApiProperty({ description: 'Delivery booked to collect the items' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Delivery' })
+  deliveryId: Types.ObjectId;
+
+  @ApiProperty({ description: 'When the pickup was booked' })
+  @Prop({ required: true, type: Date })
+  scheduledAt: Date;
+}
+
+@Schema({ timestamps: true })
+export class ReturnRequest {
+  @ApiProperty({ description: 'Unique return number' })
+  @Prop({ required: true, type: String })
+  returnNumber: string;
+
+  @ApiProperty({ description: 'Order the items were bought on' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Order' })
+  orderId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Customer returning the items' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Items being returned', type: [ReturnItem] })
+  @Prop({ required: true, type: [ReturnItem] })
+  items: ReturnItem[];
+
+  @ApiProperty({ description: 'Reason for the return', enum: ReturnReason })
+  @Prop({ required: true, enum: Object.values(ReturnReason) })
+  reason: ReturnReason;
+
+  @ApiProperty({ description: 'What went wrong, as described by the customer' })
+  @Prop({ required: false, type: String })
+  details?: string;
+
+  @ApiProperty({ description: 'Photo URLs of the items', type: [String] })
+  @Prop({ type: [String], default: [] })
+  photos: string[];
+
+  @ApiProperty({ description: 'Return status', enum: ReturnStatus })
+  @Prop({
+    required: true,
+    enum: Object.values(ReturnStatus),
+    default: ReturnStatus.REQUESTED,
+  })
+  status: ReturnStatus;
+
+  @ApiProperty({ description: 'Who approved or rejected the return' })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'User' })
+  reviewedBy?: Types.ObjectId;
+
+  @ApiProperty({ description: 'When the return was approved or rejected' })
+  @Prop({ required: false, type: Date })
+  reviewedAt?: Date;
+
+  @ApiProperty({
+    description: 'Reviewer notes, or why the return was rejected',
+  })
+  @Prop({ required: false, type: String })
+  reviewNotes?: string;
+
+  @ApiProperty({
+    description: 'Rider pickup, if one was booked',
+    type: ReturnPickup,
+  })
+  @Prop({ required: false, type: ReturnPickup })
+  pickup?: ReturnPickup;
+
+  @ApiProperty({ description: 'When the items were received back' })
+  @Prop({ required: false, type: Date })
+  receivedAt?: Date;
+
+  @ApiProperty({ description: 'Refund issued for the return' })
+  @Prop({ required: false, type: String })
+  refundId?: string;
+
+  @ApiProperty({ description: 'Total refunded in NGN' })
+  @Prop({ required: false, type: Number, min: 0 })
+  refundAmount?: number;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const ReturnRequestSchema = SchemaFactory.createForClass(ReturnRequest);
+
+ReturnRequestSchema.index({ returnNumber: 1 }, { unique: true });
+ReturnRequestSchema.index({ orderId: 1, status: 1 });
+ReturnRequestSchema.index({ userId: 1, createdAt: -1 });
+ReturnRequestSchema.index({ status: 1, createdAt: -1 });
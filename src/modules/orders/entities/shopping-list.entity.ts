@@ -0,0 +1,61 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type ShoppingListDocument = ShoppingList & Document;
+
+@Schema({ _id: false })
+export class ShoppingListItem {
+  @ApiProperty({ description: 'Product ID' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Product' })
+  productId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Pack of the product, for products sold in packs',
+    required: false,
+  })
+  @Prop({ required: false, type: Types.ObjectId })
+  variantId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Quantity added to the cart by default' })
+  @Prop({ required: true, type: Number, min: 1 })
+  quantity: number;
+}
+
+/**
+ * A named basket a customer buys again and again, e.g. "Monthly restock".
+ * Lists hold products and quantities only; prices are taken when the list
+ * is put in the cart.
+ */
+@Schema({ timestamps: true })
+export class ShoppingList {
+  @ApiProperty({ description: 'Customer who owns the list' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Name of the list', example: 'Monthly restock' })
+  @Prop({ required: true, type: String, trim: true })
+  name: string;
+
+  @ApiProperty({
+    description: 'Products on the list',
+    type: [ShoppingListItem],
+  })
+  @Prop({ type: [ShoppingListItem], default: [] })
+  items: ShoppingListItem[];
+
+  @ApiProperty({ description: 'Recurring subscription made from the list' })
+  @Prop({ required: false, type: String })
+  subscriptionId?: string;
+
+  @ApiProperty({ description: 'When the list was last put in the cart' })
+  @Prop({ required: false, type: Date })
+  lastReorderedAt?: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const ShoppingListSchema = SchemaFactory.createForClass(ShoppingList);
+
+ShoppingListSchema.index({ userId: 1, name: 1 }, { unique: true });
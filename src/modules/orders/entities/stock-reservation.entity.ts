@@ -0,0 +1,79 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type StockReservationDocument = StockReservation & Document;
+
+export enum ReservationStatus {
+  ACTIVE = 'active', // Stock is held for the order
+  COMMITTED = 'committed', // Order paid; the stock is sold
+  RELEASED = 'released', // Order cancelled; stock returned
+  EXPIRED = 'expired', // Hold ran out before payment; stock returned
+}
+
+@Schema({ _id: false })
+export class ReservedItem {
+  @ApiProperty({ description: 'Product ID' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Product' })
+  productId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Pack held, for products sold in packs', required: false })
+  @Prop({ required: false, type: Types.ObjectId })
+  variantId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Quantity held' })
+  @Prop({ required: true, type: Number, min: 1 })
+  quantity: number;
+}
+
+@Schema({ timestamps: true })
+export class StockReservation {
+  @ApiProperty({ description: 'Order the stock is held for' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Order' })
+  orderId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Customer who placed the order' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Store the items are held at, if filled from one' })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'Store' })
+  storeId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Items held', type: [ReservedItem] })
+  @Prop({ required: true, type: [ReservedItem] })
+  items: ReservedItem[];
+
+  @ApiProperty({ description: 'Reservation status', enum: ReservationStatus })
+  @Prop({
+    required: true,
+    enum: Object.values(ReservationStatus),
+    default: ReservationStatus.ACTIVE,
+  })
+  status: ReservationStatus;
+
+  @ApiProperty({ description: 'When an unpaid hold is released' })
+  @Prop({ required: true, type: Date })
+  expiresAt: Date;
+
+  @ApiProperty({ description: 'When the order was paid' })
+  @Prop({ required: false, type: Date })
+  committedAt?: Date;
+
+  @ApiProperty({ description: 'When the stock was returned' })
+  @Prop({ required: false, type: Date })
+  releasedAt?: Date;
+
+  @ApiProperty({ description: 'Why the stock was returned' })
+  @Prop({ required: false, type: String })
+  releaseReason?: string;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const StockReservationSchema =
+  SchemaFactory.createForClass(StockReservation);
+
+StockReservationSchema.index({ orderId: 1 }, { unique: true });
+StockReservationSchema.index({ status: 1, expiresAt: 1 });
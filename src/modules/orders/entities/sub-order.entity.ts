@@ -0,0 +1,136 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { CartItem } from './order.entity';
+
+export type SubOrderDocument = SubOrder & Document;
+
+export enum SubOrderStatus {
+  PENDING = 'pending', // Parent order not paid yet
+  CONFIRMED = 'confirmed', // Paid; waiting on the seller
+  PREPARING = 'preparing',
+  READY = 'ready', // Packed and waiting for a rider or pickup
+  SHIPPED = 'shipped',
+  DELIVERED = 'delivered',
+  CANCELLED = 'cancelled',
+}
+
+@Schema({ _id: false })
+export class SubOrderStatusHistory {
+  @ApiProperty({ description: 'Sub-order status', enum: SubOrderStatus })
+  @Prop({ required: true, enum: Object.values(SubOrderStatus) })
+  status: SubOrderStatus;
+
+  @ApiProperty({ description: 'When the status was set' })
+  @Prop({ required: true, type: Date, default: Date.now })
+  timestamp: Date;
+
+  @ApiProperty({ description: 'Reason for the change' })
+  @Prop({ required: false, type: String })
+  reason?: string;
+
+  @ApiProperty({ description: 'User who made the change' })
+  @Prop({ required: false, type: String })
+  updatedBy?: string;
+}
+
+/**
+ * One seller's share of an order. The parent Order holds the payment; each
+ * sub-order is fulfilled, delivered and paid out separately.
+ */
+@Schema({ timestamps: true })
+export class SubOrder {
+  @ApiProperty({ description: 'Parent order number with a per-seller suffix' })
+  @Prop({ required: true, type: String })
+  subOrderNumber: string;
+
+  @ApiProperty({ description: 'Order the customer placed and paid for' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Order' })
+  parentOrderId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Customer who placed the order' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @ApiProperty({
+    description:
+      'Seller fulfilling the items; absent for admin-managed products',
+  })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'User' })
+  sellerId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Items this seller fulfils', type: [CartItem] })
+  @Prop({ required: true, type: [CartItem] })
+  items: CartItem[];
+
+  @ApiProperty({ description: 'Sum of the item totals in NGN' })
+  @Prop({ required: true, type: Number, min: 0 })
+  subtotal: number;
+
+  @ApiProperty({ description: 'Promo discount on these items in NGN' })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  discountAmount: number;
+
+  @ApiProperty({ description: "Share of the order's delivery fee in NGN" })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  deliveryFee: number;
+
+  @ApiProperty({ description: 'What the customer pays for this share in NGN' })
+  @Prop({ required: true, type: Number, min: 0 })
+  total: number;
+
+  @ApiProperty({
+    description: 'Effective platform commission rate across the items',
+  })
+  @Prop({ required: true, type: Number, min: 0, max: 1, default: 0 })
+  commissionRate: number;
+
+  @ApiProperty({ description: 'Platform commission in NGN' })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  commissionAmount: number;
+
+  @ApiProperty({ description: 'Owed to the seller once delivered, in NGN' })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  sellerPayout: number;
+
+  @ApiProperty({ description: 'Fulfilment status', enum: SubOrderStatus })
+  @Prop({
+    required: true,
+    enum: Object.values(SubOrderStatus),
+    default: SubOrderStatus.PENDING,
+  })
+  status: SubOrderStatus;
+
+  @ApiProperty({
+    description: 'Status history',
+    type: [SubOrderStatusHistory],
+  })
+  @Prop({ type: [SubOrderStatusHistory], default: [] })
+  statusHistory: SubOrderStatusHistory[];
+
+  @ApiProperty({ description: 'Delivery carrying these items' })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'Delivery' })
+  deliveryId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Rider delivering these items' })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'Rider' })
+  assignedRider?: Types.ObjectId;
+
+  @ApiProperty({ description: 'When the rider was assigned' })
+  @Prop({ required: false, type: Date })
+  riderAssignedAt?: Date;
+
+  @ApiProperty({ description: 'When the items were delivered' })
+  @Prop({ required: false, type: Date })
+  deliveredAt?: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const SubOrderSchema = SchemaFactory.createForClass(SubOrder);
+
+SubOrderSchema.index({ subOrderNumber: 1 }, { unique: true });
+SubOrderSchema.index({ parentOrderId: 1 });
+SubOrderSchema.index({ sellerId: 1, status: 1, createdAt: -1 });
+SubOrderSchema.index({ assignedRider: 1 });
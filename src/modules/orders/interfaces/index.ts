@@ -10,4 +10,9 @@ export {
   PaymentSummary,
   OrderAnalytics,
   OrderExport,
+  ReorderSkipReason,
+  ReorderedItem,
+  SkippedReorderItem,
+  ReorderResult,
+  PriceDifferenceSettlement,
 } from './order.interface';
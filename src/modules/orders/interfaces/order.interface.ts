@@ -145,3 +145,35 @@ export interface OrderExport {
   createdAt: Date;
   expectedDeliveryDate?: Date;
 }
+
+export type ReorderSkipReason = 'not_found' | 'inactive' | 'out_of_stock';
+
+export interface ReorderedItem {
+  productId: string;
+  variantId?: string;
+  name: string;
+  variantLabel?: string;
+  requestedQuantity: number;
+  quantity: number; // Lower than requested when stock is short
+  unitPrice: number; // Current price
+}
+
+export interface SkippedReorderItem {
+  productId: string;
+  variantId?: string;
+  name?: string;
+  requestedQuantity: number;
+  reason: ReorderSkipReason;
+}
+
+export interface ReorderResult {
+  cart: any;
+  added: ReorderedItem[];
+  skipped: SkippedReorderItem[];
+}
+
+/** Money moved to or from Food Money when an order's total changes */
+export interface PriceDifferenceSettlement {
+  walletAdjustment: number; // NGN; positive when charged, negative when refunded
+  transactionRef?: string;
+}
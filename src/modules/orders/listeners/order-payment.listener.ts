@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { SplitTenderService } from '../services/split-tender.service';
+import { OrdersService } from '../orders.service';
+import { PaymentMethod } from '../entities/order.entity';
+import { PaymentMethod as GatewayPaymentMethod } from '../../payments/constants/payment.constants';
+
+interface PaymentEvent {
+  orderId?: string;
+  reference: string;
+  amount?: number; // kobo
+  paymentMethod?: GatewayPaymentMethod;
+  reason?: string;
+}
+
+const ORDER_PAYMENT_METHODS: Record<GatewayPaymentMethod, PaymentMethod> = {
+  [GatewayPaymentMethod.FOOD_MONEY]: PaymentMethod.FOOD_MONEY,
+  [GatewayPaymentMethod.WALLET_TRANSFER]: PaymentMethod.FOOD_MONEY,
+  [GatewayPaymentMethod.FOOD_POINTS]: PaymentMethod.FOOD_POINTS,
+  [GatewayPaymentMethod.DEBIT_CARD]: PaymentMethod.CARD,
+  [GatewayPaymentMethod.CREDIT_CARD]: PaymentMethod.CARD,
+  [GatewayPaymentMethod.BANK_TRANSFER]: PaymentMethod.BANK_TRANSFER,
+  [GatewayPaymentMethod.CASH_ON_DELIVERY]: PaymentMethod.CASH,
+};
+
+@Injectable()
+export class OrderPaymentListener {
+  private readonly logger = new Logger(OrderPaymentListener.name);
+
+  constructor(
+    private readonly splitTenderService: SplitTenderService,
+    private readonly ordersService: OrdersService,
+  ) {}
+
+  @OnEvent('payment.completed')
+  async handlePaymentCompleted(event: PaymentEvent) {
+    try {
+      // Split-tender legs settle together; any other payment settles alone
+      await this.splitTenderService.handleGatewayPaymentCompleted(
+        event.orderId,
+        event.reference,
+      );
+      await this.ordersService.applyCompletedPayment(
+        event.orderId,
+        event.reference,
+        (event.amount || 0) / 100,
+        ORDER_PAYMENT_METHODS[event.paymentMethod] || PaymentMethod.CARD,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to settle payment ${event.reference}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  @OnEvent('payment.failed')
+  async handlePaymentFailed(event: PaymentEvent) {
+    try {
+      await this.splitTenderService.handleGatewayPaymentFailed(
+        event.orderId,
+        event.reference,
+        event.reason,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to release split payment ${event.reference}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+}
@@ -4,6 +4,7 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   Query,
@@ -24,20 +25,33 @@ import { Request, Response } from 'express';
 import { OrdersService } from './orders.service';
 import { OrderRealTimeService } from './gateways/orders.gateway';
 import { BulkOperationsService } from './services/bulk-operations.service';
+import { SplitTenderService } from './services/split-tender.service';
+import { OrderSubstitutionService } from './services/order-substitution.service';
+import { OrderModificationService } from './services/order-modification.service';
+import { ShoppingListsService } from './services/shopping-lists.service';
 import {
   AddToCartDto,
   UpdateCartItemDto,
   RemoveFromCartDto,
   CheckoutDto,
+  DeliveryQuoteDto,
   PaymentDto,
+  SplitPaymentDto,
   UpdateOrderDto,
   OrderFilterDto,
   CreditApprovalDto,
+  SetSubstitutionPreferenceDto,
+  RecordSubstitutionDto,
+  ModifyOrderDto,
+  ReorderDto,
 } from './dto';
 import { JwtAuthGuard } from '../auth/guards';
 import { RolesGuard } from '../auth/guards';
 import { Roles } from '../auth/decorators';
 import { CurrentUser } from '../auth/decorators';
+import { Idempotent } from '../idempotency/decorators/idempotent.decorator';
+import { ApplyPromoCodeDto } from '../promotions/dto/promotion.dto';
+import { BookDeliverySlotDto } from '../delivery-slots/dto/delivery-slot.dto';
 import { UserRole } from '../users/entities/user.entity';
 
 @ApiTags('orders')
@@ -49,6 +63,10 @@ export class OrdersController {
     private readonly ordersService: OrdersService,
     private readonly realTimeService: OrderRealTimeService,
     private readonly bulkOperationsService: BulkOperationsService,
+    private readonly splitTenderService: SplitTenderService,
+    private readonly orderSubstitutionService: OrderSubstitutionService,
+    private readonly orderModificationService: OrderModificationService,
+    private readonly shoppingListsService: ShoppingListsService,
   ) {}
 
   // Cart Management Endpoints
@@ -77,6 +95,19 @@ export class OrdersController {
     return this.ordersService.updateCartItem(userId, productId, updateCartItemDto);
   }
 
+  @Patch('cart/:productId/substitution')
+  @ApiOperation({ summary: 'Choose what happens if a cart item is out of stock at fulfilment' })
+  @ApiResponse({ status: 200, description: 'Substitution preference saved' })
+  @ApiResponse({ status: 400, description: 'Bad request - alternative is the same product' })
+  @ApiResponse({ status: 404, description: 'Item not found in cart or alternative product not found' })
+  setSubstitutionPreference(
+    @CurrentUser('id') userId: string,
+    @Param('productId') productId: string,
+    @Body() preferenceDto: SetSubstitutionPreferenceDto,
+  ) {
+    return this.ordersService.setSubstitutionPreference(userId, productId, preferenceDto);
+  }
+
   @Delete('cart/remove')
   @ApiOperation({ summary: 'Remove item from cart' })
   @ApiResponse({ status: 200, description: 'Item removed from cart successfully' })
@@ -103,8 +134,42 @@ export class OrdersController {
     return this.ordersService.clearCart(userId);
   }
 
+  @Post('cart/promo-code')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Apply a promo code to the cart' })
+  @ApiResponse({ status: 200, description: 'Promo code applied successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - code expired, capped or not valid for this cart' })
+  @ApiResponse({ status: 404, description: 'Promo code not found' })
+  applyPromoCode(
+    @CurrentUser('id') userId: string,
+    @Body() applyPromoCodeDto: ApplyPromoCodeDto,
+  ) {
+    return this.ordersService.applyPromoCode(userId, applyPromoCodeDto);
+  }
+
+  @Delete('cart/promo-code')
+  @ApiOperation({ summary: 'Remove the promo code from the cart' })
+  @ApiResponse({ status: 200, description: 'Promo code removed successfully' })
+  @HttpCode(HttpStatus.OK)
+  removePromoCode(@CurrentUser('id') userId: string) {
+    return this.ordersService.removePromoCode(userId);
+  }
+
   // Order Management Endpoints
+  @Post('delivery-quote')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Quote the home delivery fee for the current cart' })
+  @ApiResponse({ status: 200, description: 'Delivery quote calculated successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - empty cart or address outside the delivery area' })
+  getDeliveryQuote(
+    @CurrentUser('id') userId: string,
+    @Body() deliveryQuoteDto: DeliveryQuoteDto,
+  ) {
+    return this.ordersService.getDeliveryQuote(userId, deliveryQuoteDto);
+  }
+
   @Post('checkout')
+  @Idempotent()
   @ApiOperation({ summary: 'Checkout cart and create order' })
   @ApiResponse({ status: 201, description: 'Order created successfully' })
   @ApiResponse({ status: 400, description: 'Bad request - empty cart or validation error' })
@@ -117,6 +182,7 @@ export class OrdersController {
   }
 
   @Post(':id/payment')
+  @Idempotent()
   @ApiOperation({ summary: 'Make payment for an order' })
   @ApiResponse({ status: 201, description: 'Payment processed successfully' })
   @ApiResponse({ status: 400, description: 'Bad request - invalid payment amount or insufficient funds' })
@@ -131,6 +197,37 @@ export class OrdersController {
     return this.ordersService.makePayment(orderId, userId, userRole, paymentDto);
   }
 
+  @Post(':id/payment/split')
+  @Idempotent()
+  @ApiOperation({ summary: 'Pay for an order with several tenders, e.g. Nibia, Food Money, then card' })
+  @ApiResponse({ status: 201, description: 'Wallet tenders charged; gateway tender initiated if needed' })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid tenders or tenders do not cover the order' })
+  @ApiResponse({ status: 403, description: 'Forbidden - can only pay for own orders' })
+  @ApiResponse({ status: 404, description: 'Order or wallet not found' })
+  makeSplitPayment(
+    @Param('id') orderId: string,
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') userRole: UserRole,
+    @Body() splitPaymentDto: SplitPaymentDto,
+  ) {
+    return this.splitTenderService.makeSplitPayment(orderId, userId, userRole, splitPaymentDto);
+  }
+
+  @Post(':id/substitutions')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Substitute or refund an out-of-stock item and settle the difference (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Substitution recorded and wallet adjusted' })
+  @ApiResponse({ status: 400, description: 'Bad request - order already shipped, substitute not allowed by the customer or insufficient wallet balance' })
+  @ApiResponse({ status: 404, description: 'Order, item or substitute not found' })
+  recordSubstitution(
+    @Param('id') orderId: string,
+    @CurrentUser('id') staffId: string,
+    @Body() recordSubstitutionDto: RecordSubstitutionDto,
+  ) {
+    return this.orderSubstitutionService.recordSubstitution(orderId, staffId, recordSubstitutionDto);
+  }
+
   @Get()
   @ApiOperation({ summary: 'Get all orders (filtered)' })
   @ApiResponse({ status: 200, description: 'Orders retrieved successfully' })
@@ -207,6 +304,48 @@ export class OrdersController {
     return this.ordersService.cancelOrder(id, userId, userRole, reason);
   }
 
+  @Put(':id/delivery-slot')
+  @ApiOperation({ summary: 'Book or reschedule the delivery slot of a home delivery order' })
+  @ApiResponse({ status: 200, description: 'Delivery slot booked' })
+  @ApiResponse({ status: 400, description: 'Bad request - slot full, past its cutoff, outside the booking window or order already with a rider' })
+  @ApiResponse({ status: 403, description: 'Forbidden - can only change own orders' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  bookDeliverySlot(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') userRole: UserRole,
+    @Body() bookDeliverySlotDto: BookDeliverySlotDto,
+  ) {
+    return this.ordersService.bookDeliverySlot(id, userId, userRole, bookDeliverySlotDto);
+  }
+
+  @Post(':id/modifications')
+  @ApiOperation({ summary: 'Change items, delivery or slot of an order before it is prepared or dispatched' })
+  @ApiResponse({ status: 201, description: 'Order changed, stock and slots moved and the difference settled' })
+  @ApiResponse({ status: 400, description: 'Bad request - order already being prepared or with a rider, item short, slot full or insufficient wallet balance' })
+  @ApiResponse({ status: 403, description: 'Forbidden - can only change own orders' })
+  @ApiResponse({ status: 404, description: 'Order, product or store not found' })
+  modifyOrder(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') userRole: UserRole,
+    @Body() modifyOrderDto: ModifyOrderDto,
+  ) {
+    return this.orderModificationService.modifyOrder(id, userId, userRole, modifyOrderDto);
+  }
+
+  @Post(':id/reorder')
+  @ApiOperation({ summary: 'Put a past order back in the cart at current prices, reporting unavailable items' })
+  @ApiResponse({ status: 201, description: 'Cart rebuilt with the items added and skipped' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  reorder(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @Body() reorderDto: ReorderDto,
+  ) {
+    return this.shoppingListsService.reorderOrder(id, userId, reorderDto);
+  }
+
   @Post(':id/credit-approval')
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN)
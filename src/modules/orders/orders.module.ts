@@ -11,21 +11,51 @@ import { OrderRealTimeService } from './gateways/orders.gateway';
 import { BulkOperationsService } from './services/bulk-operations.service';
 import { RefundCancellationService } from './services/refund-cancellation.service';
 import { SubscriptionOrderService } from './services/subscription-order.service';
+import { SplitTenderService } from './services/split-tender.service';
+import { StockReservationService } from './services/stock-reservation.service';
+import { OrderReturnsService } from './services/order-returns.service';
+import { OrderSubstitutionService } from './services/order-substitution.service';
+import { OrderModificationService } from './services/order-modification.service';
+import { PriceDifferenceService } from './services/price-difference.service';
+import { ShoppingListsService } from './services/shopping-lists.service';
+import { SubOrdersService } from './services/sub-orders.service';
+import { OrderPaymentListener } from './listeners/order-payment.listener';
 import { RefundCancellationController } from './controllers/refund-cancellation.controller';
+import { OrderReturnsController } from './controllers/order-returns.controller';
+import { SubOrdersController } from './controllers/sub-orders.controller';
+import { ShoppingListsController } from './controllers/shopping-lists.controller';
 import { Order, OrderSchema } from '../orders/entities/order.entity';
 import { Cart, CartSchema } from './entities/cart.entity';
+import { StockReservation, StockReservationSchema } from './entities/stock-reservation.entity';
+import { ShoppingList, ShoppingListSchema } from './entities/shopping-list.entity';
+import { ReturnRequest, ReturnRequestSchema } from './entities/return-request.entity';
+import { SubOrder, SubOrderSchema } from './entities/sub-order.entity';
 import { Product, ProductSchema } from '../products/entities/product.entity';
 import { User, UserSchema } from '../users/entities/user.entity';
 import { Wallet, WalletSchema } from '../wallets/entities/wallet.entity';
 import { ReferralsModule } from '../referrals/referrals.module';
 import { CreditScoringModule } from '../credit-scoring/credit-scoring.module';
 import { DeliveryModule } from '../delivery/delivery.module';
+import { WalletsModule } from '../wallets/wallets.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { PaymentModule } from '../payments/payment.module';
+import { DeliveryPricingModule } from '../delivery-pricing/delivery-pricing.module';
+import { PromotionsModule } from '../promotions/promotions.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { StoresModule } from '../stores/stores.module';
+import { DeliverySlotsModule } from '../delivery-slots/delivery-slots.module';
+import { SettlementsModule } from '../settlements/settlements.module';
+import { ProductsModule } from '../products/products.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Order.name, schema: OrderSchema },
       { name: Cart.name, schema: CartSchema },
+      { name: StockReservation.name, schema: StockReservationSchema },
+      { name: ReturnRequest.name, schema: ReturnRequestSchema },
+      { name: SubOrder.name, schema: SubOrderSchema },
+      { name: ShoppingList.name, schema: ShoppingListSchema },
       { name: Product.name, schema: ProductSchema },
       { name: User.name, schema: UserSchema },
       { name: Wallet.name, schema: WalletSchema },
@@ -34,9 +64,19 @@ import { DeliveryModule } from '../delivery/delivery.module';
     forwardRef(() => ReferralsModule),
     forwardRef(() => CreditScoringModule),
     forwardRef(() => DeliveryModule),
+    WalletsModule,
+    IdempotencyModule,
+    PaymentModule,
+    DeliveryPricingModule,
+    PromotionsModule,
+    NotificationsModule,
+    SettlementsModule,
+    StoresModule,
+    DeliverySlotsModule,
+    ProductsModule,
   ],
-  controllers: [OrdersController, RefundCancellationController],
-  providers: [OrdersService, OrdersReferralHookService, CartService, CartCleanupService, OrderStateMachine, OrderRealTimeService, BulkOperationsService, RefundCancellationService, SubscriptionOrderService],
-  exports: [OrdersService, CartService, OrderStateMachine, OrderRealTimeService, BulkOperationsService, RefundCancellationService, SubscriptionOrderService],
+  controllers: [OrdersController, RefundCancellationController, OrderReturnsController, SubOrdersController, ShoppingListsController],
+  providers: [OrdersService, OrdersReferralHookService, CartService, CartCleanupService, OrderStateMachine, OrderRealTimeService, BulkOperationsService, RefundCancellationService, SubscriptionOrderService, SplitTenderService, StockReservationService, OrderReturnsService, OrderSubstitutionService, OrderModificationService, PriceDifferenceService, ShoppingListsService, SubOrdersService, OrderPaymentListener],
+  exports: [OrdersService, CartService, OrderStateMachine, OrderRealTimeService, BulkOperationsService, RefundCancellationService, SubscriptionOrderService, SplitTenderService, StockReservationService, OrderReturnsService, OrderSubstitutionService, OrderModificationService, ShoppingListsService, SubOrdersService],
 })
 export class OrdersModule {}
@@ -15,17 +15,34 @@ import {
 } from '../orders/entities/order.entity';
 import { Product, ProductDocument } from '../products/entities/product.entity';
 import { User, UserDocument, UserRole } from '../users/entities/user.entity';
-import { Wallet, WalletDocument } from '../wallets/entities/wallet.entity';
+import { WalletsService } from '../wallets/wallets.service';
+import { WalletType } from '../wallets/dto/update-balance.dto';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../wallets/entities/wallet-ledger-entry.entity';
 import { OrdersReferralHookService } from './orders-referral-hook.service';
 import { CartService } from './cart.service';
 import { CreditQualificationService } from '../credit-scoring/services/credit-qualification.service';
 import { OrderStateMachine, OrderStateMachineContext } from './services/order-state-machine.service';
 import { DeliveryOrchestrationService } from '../delivery/services/delivery-orchestration.service';
+import { StockReservationService } from './services/stock-reservation.service';
+import { SubOrdersService } from './services/sub-orders.service';
+import { DeliveryPricingService } from '../delivery-pricing/delivery-pricing.service';
+import { PromotionsService } from '../promotions/promotions.service';
+import { StoresService } from '../stores/stores.service';
+import { PickupSlotsService } from '../stores/services/pickup-slots.service';
+import { DeliverySlotsService } from '../delivery-slots/delivery-slots.service';
+import { BookingWindow } from '../delivery-slots/interfaces/delivery-slot.interface';
+import { BookDeliverySlotDto } from '../delivery-slots/dto/delivery-slot.dto';
+import { ORDER_CONSTANTS, ORDER_ERROR_MESSAGES } from './constants';
 import {
   AddToCartDto,
   UpdateCartItemDto,
   RemoveFromCartDto,
   CheckoutDto,
+  DeliveryQuoteDto,
   PaymentDto,
   UpdateOrderDto,
   OrderFilterDto,
@@ -35,7 +52,9 @@ import {
   PaySmallSmallPlanDto,
   PayLaterPlanDto,
   CreditApprovalDto,
+  SetSubstitutionPreferenceDto,
 } from './dto';
+import { ApplyPromoCodeDto } from '../promotions/dto/promotion.dto';
 
 @Injectable()
 export class OrdersService {
@@ -45,7 +64,6 @@ export class OrdersService {
     @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
-    @InjectModel(Wallet.name) private walletModel: Model<WalletDocument>,
     @Inject(forwardRef(() => OrdersReferralHookService))
     private readonly referralHook: OrdersReferralHookService,
     private readonly cartService: CartService,
@@ -55,19 +73,52 @@ export class OrdersService {
     private readonly realTimeService: OrderRealTimeService,
     @Inject(forwardRef(() => DeliveryOrchestrationService))
     private readonly deliveryOrchestration: DeliveryOrchestrationService,
+    private readonly walletsService: WalletsService,
+    private readonly deliveryPricingService: DeliveryPricingService,
+    private readonly promotionsService: PromotionsService,
+    private readonly stockReservationService: StockReservationService,
+    @Inject(forwardRef(() => SubOrdersService))
+    private readonly subOrdersService: SubOrdersService,
+    private readonly storesService: StoresService,
+    private readonly pickupSlotsService: PickupSlotsService,
+    private readonly deliverySlotsService: DeliverySlotsService,
   ) {}
 
   // Cart Management - Now delegated to CartService
   async addToCart(userId: string, addToCartDto: AddToCartDto) {
-    return this.cartService.addToCart(userId, addToCartDto.productId, addToCartDto.quantity);
+    return this.cartService.addToCart(
+      userId,
+      addToCartDto.productId,
+      addToCartDto.quantity,
+      addToCartDto.variantId,
+    );
   }
 
   async updateCartItem(userId: string, productId: string, updateCartItemDto: UpdateCartItemDto) {
-    return this.cartService.updateCartItem(userId, productId, updateCartItemDto.quantity);
+    return this.cartService.updateCartItem(
+      userId,
+      productId,
+      updateCartItemDto.quantity,
+      updateCartItemDto.variantId,
+    );
+  }
+
+  async setSubstitutionPreference(userId: string, productId: string, preferenceDto: SetSubstitutionPreferenceDto) {
+    return this.cartService.setSubstitutionPreference(
+      userId,
+      productId,
+      preferenceDto.preference,
+      preferenceDto.substituteProductId,
+      preferenceDto.variantId,
+    );
   }
 
   async removeFromCart(userId: string, removeFromCartDto: RemoveFromCartDto) {
-    return this.cartService.removeFromCart(userId, removeFromCartDto.productId);
+    return this.cartService.removeFromCart(
+      userId,
+      removeFromCartDto.productId,
+      removeFromCartDto.variantId,
+    );
   }
 
   async getCart(userId: string) {
@@ -78,6 +129,14 @@ export class OrdersService {
     return this.cartService.clearCart(userId);
   }
 
+  async applyPromoCode(userId: string, applyPromoCodeDto: ApplyPromoCodeDto) {
+    return this.cartService.applyPromoCode(userId, applyPromoCodeDto.code);
+  }
+
+  async removePromoCode(userId: string) {
+    return this.cartService.removePromoCode(userId);
+  }
+
   // Order Management
   // Order Management
   async checkout(userId: string, checkoutDto: CheckoutDto) {
@@ -100,6 +159,20 @@ export class OrdersService {
       throw new BadRequestException('Delivery address is required for home delivery');
     }
 
+    // Pay Small-Small orders are delivered once fully paid, so they book
+    // their delivery slot then
+    if (
+      checkoutDto.paymentPlan.type === PaymentPlan.PAY_SMALL_SMALL &&
+      checkoutDto.deliverySlotStart
+    ) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.DELIVERY_SLOT_AFTER_PAYMENT);
+    }
+
+    // Pickup orders are collected from the store and slot the customer chose
+    const pickupStore = checkoutDto.deliveryMethod === DeliveryMethod.PICKUP
+      ? await this.storesService.findPickupStore(checkoutDto.pickupStoreId)
+      : undefined;
+
     // Prepare order items from cart
     const updatedItems = [];
     let totalAmount = 0;
@@ -107,25 +180,17 @@ export class OrdersService {
 
     for (const item of cart.items) {
       // Cart items are already validated by CartService
-      // Extract the actual ObjectId from the populated productId
-      let productObjectId;
-      if (item.productId._id) {
-        // productId is populated, get the _id
-        productObjectId = item.productId._id;
-      } else if (Types.ObjectId.isValid(item.productId)) {
-        // productId is already an ObjectId or valid string
-        productObjectId = item.productId;
-      } else {
-        throw new BadRequestException(`Invalid product ID format for item: ${JSON.stringify(item)}`);
-      }
-      
       const cartItem = {
-        productId: new Types.ObjectId(productObjectId),
+        productId: this.resolveCartProductId(item),
+        variantId: item.variantId,
+        variantLabel: item.variantLabel,
         quantity: item.quantity,
         unitPrice: item.unitPrice,
         unitPriceInNibia: item.unitPriceInNibia,
         totalPrice: item.totalPrice,
         totalPriceInNibia: item.totalPriceInNibia,
+        substitutionPreference: item.substitutionPreference,
+        substituteProductId: item.substituteProductId,
       };
 
       updatedItems.push(cartItem);
@@ -133,28 +198,88 @@ export class OrdersService {
       totalAmountInNibia += cartItem.totalPriceInNibia;
     }
 
-    // Calculate delivery fee
-    const deliveryFee = checkoutDto.deliveryMethod === DeliveryMethod.HOME_DELIVERY ? 500 : 0; // 500 NGN for home delivery
+    const stockItems = updatedItems.map((item) => ({
+      productId: item.productId.toString(),
+      variantId: item.variantId?.toString(),
+      quantity: item.quantity,
+    }));
+
+    // Home deliveries leave from the closest store in the city, preferably
+    // one holding every item
+    const dispatchStore = checkoutDto.deliveryMethod === DeliveryMethod.HOME_DELIVERY
+      ? await this.storesService.findFulfilmentStore(checkoutDto.deliveryAddress, stockItems)
+      : null;
+
+    // Price home delivery from distance, weight and the city's rates
+    const deliveryQuote = checkoutDto.deliveryMethod === DeliveryMethod.HOME_DELIVERY
+      ? await this.deliveryPricingService.quote({
+          items: stockItems,
+          destination: checkoutDto.deliveryAddress,
+          origin: dispatchStore?.store.location,
+          subtotal: totalAmount,
+        })
+      : undefined;
+    const deliveryFee = deliveryQuote?.deliveryFee ?? 0;
+
+    // Re-check the cart's promo code now the city and delivery fee are known
+    const promotion = cart.promoCode
+      ? await this.promotionsService.evaluate({
+          code: cart.promoCode,
+          userId,
+          items: updatedItems.map((item) => ({
+            productId: item.productId.toString(),
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+          })),
+          city: checkoutDto.deliveryAddress?.city
+            ?? (await this.userModel.findById(userId).select('city').lean())?.city,
+          deliveryFee,
+        })
+      : undefined;
+    const discountAmount = promotion?.discountAmount ?? 0;
+
+    if (promotion) {
+      // Keep each item's share of the discount so refunds can be pro-rated.
+      // Packs of one product are separate lines, discounted in turn.
+      for (const itemDiscount of promotion.itemDiscounts) {
+        const item = updatedItems.find((orderItem) =>
+          orderItem.productId.toString() === itemDiscount.productId && orderItem.discountAmount === undefined);
+        item.discountAmount = itemDiscount.discountAmount;
+      }
+    }
+
+    const finalTotal = totalAmount + deliveryFee - discountAmount;
 
     // Generate order number
     const orderNumber = this.generateOrderNumber();
 
     // Create base order object
     const orderData: any = {
+      _id: new Types.ObjectId(),
       orderNumber,
       userId: new Types.ObjectId(userId),
       items: updatedItems,
       totalAmount,
       totalAmountInNibia,
       deliveryFee,
-      finalTotal: totalAmount + deliveryFee,
+      deliveryQuote,
+      discountAmount,
+      promotion: promotion && {
+        promotionId: new Types.ObjectId(promotion.promotionId),
+        code: promotion.code,
+        type: promotion.type,
+        itemDiscount: promotion.itemDiscount,
+        deliveryDiscount: promotion.deliveryDiscount,
+      },
+      finalTotal,
       status: OrderStatus.PENDING,
       paymentPlan: checkoutDto.paymentPlan.type,
       deliveryMethod: checkoutDto.deliveryMethod,
       deliveryAddress: checkoutDto.deliveryAddress,
+      storeId: (pickupStore || dispatchStore?.store)?._id,
       paymentHistory: [],
       amountPaid: 0,
-      remainingAmount: totalAmount + deliveryFee,
+      remainingAmount: finalTotal,
       notes: checkoutDto.notes,
     };
 
@@ -169,7 +294,7 @@ export class OrdersService {
         break;
 
       case PaymentPlan.PAY_SMALL_SMALL:
-        await this.handlePaySmallSmallOrder(orderData, checkoutDto.paymentPlan.paySmallSmallDetails, totalAmount + deliveryFee);
+        await this.handlePaySmallSmallOrder(orderData, checkoutDto.paymentPlan.paySmallSmallDetails, finalTotal);
         break;
 
       case PaymentPlan.PAY_LATER:
@@ -180,8 +305,59 @@ export class OrdersService {
         throw new BadRequestException('Invalid payment plan type');
     }
 
-    const order = new this.orderModel(orderData);
-    const savedOrder = await order.save();
+    // Hold the stock until the order is paid or the hold runs out, at the
+    // store when it is filled from one
+    const orderId = orderData._id.toString();
+    await this.stockReservationService.reserve(
+      orderId,
+      userId,
+      updatedItems,
+      this.stockReservationService.calculateExpiry(orderData),
+      pickupStore ? (pickupStore._id as Types.ObjectId) : dispatchStore?.stocked ? dispatchStore.store._id : undefined,
+    );
+
+    let savedOrder: OrderDocument;
+    try {
+      if (pickupStore) {
+        orderData.pickupSlot = await this.pickupSlotsService.book(
+          pickupStore,
+          new Date(checkoutDto.pickupSlotStart),
+          orderId,
+        );
+      }
+
+      // Home deliveries arrive in the slot the customer chose; Price Lock
+      // orders pick one inside their 30–45 day window
+      if (checkoutDto.deliveryMethod === DeliveryMethod.HOME_DELIVERY && checkoutDto.deliverySlotStart) {
+        orderData.deliverySlot = await this.deliverySlotsService.book(
+          checkoutDto.deliveryAddress.city,
+          new Date(checkoutDto.deliverySlotStart),
+          orderId,
+          orderData.paymentPlan === PaymentPlan.PRICE_LOCK ? this.getPriceLockWindow(new Date()) : undefined,
+        );
+        this.applyDeliverySlot(orderData, orderData.deliverySlot);
+      }
+
+      if (promotion) {
+        await this.promotionsService.redeem(promotion, userId, orderId);
+      }
+
+      const order = new this.orderModel(orderData);
+      savedOrder = await order.save();
+
+      // One sub-order per seller for fulfilment and payouts
+      await this.subOrdersService.splitOrder(savedOrder);
+    } catch (error) {
+      if (savedOrder) {
+        await this.orderModel.deleteOne({ _id: savedOrder._id });
+      }
+      // Also frees the pickup or delivery slot
+      await this.stockReservationService.release(orderId, 'Checkout failed');
+      if (promotion) {
+        await this.promotionsService.releaseRedemption(orderId);
+      }
+      throw error;
+    }
 
     // Clear cart after successful order creation
     await this.cartService.clearCart(userId);
@@ -189,6 +365,65 @@ export class OrdersService {
     return savedOrder;
   }
 
+  /**
+   * Quote home delivery for the current cart before checkout
+   */
+  async getDeliveryQuote(userId: string, deliveryQuoteDto: DeliveryQuoteDto) {
+    const cart = await this.cartService.getCart(userId);
+    if (!cart || cart.items.length === 0) {
+      throw new BadRequestException('Cart is empty');
+    }
+
+    const items = cart.items.map((item) => ({
+      productId: this.resolveCartProductId(item).toString(),
+      quantity: item.quantity,
+    }));
+    const dispatchStore = await this.storesService.findFulfilmentStore(
+      deliveryQuoteDto.deliveryAddress,
+      items,
+    );
+
+    return this.deliveryPricingService.quote({
+      items,
+      destination: deliveryQuoteDto.deliveryAddress,
+      origin: dispatchStore?.store.location,
+      subtotal: cart.items.reduce((sum, item) => sum + item.totalPrice, 0),
+    });
+  }
+
+  // Price Lock orders are delivered 30-45 days after they are placed
+  private getPriceLockWindow(placedAt: Date): BookingWindow {
+    const from = new Date(placedAt);
+    from.setDate(from.getDate() + ORDER_CONSTANTS.PRICE_LOCK_MIN_DELIVERY_DAYS);
+
+    const to = new Date(placedAt);
+    to.setDate(to.getDate() + ORDER_CONSTANTS.PRICE_LOCK_MAX_DELIVERY_DAYS);
+
+    return { from, to };
+  }
+
+  // A booked delivery slot sets when the order is expected, and when a
+  // Price Lock order is due
+  private applyDeliverySlot(order: any, slot: { startsAt: Date }) {
+    order.expectedDeliveryDate = slot.startsAt;
+    if (order.paymentPlan === PaymentPlan.PRICE_LOCK) {
+      order.scheduledDeliveryDate = slot.startsAt;
+    }
+  }
+
+  // Extract the actual ObjectId from a cart item's possibly populated productId
+  private resolveCartProductId(item: any): Types.ObjectId {
+    if (item.productId._id) {
+      // productId is populated, get the _id
+      return new Types.ObjectId(item.productId._id);
+    }
+    if (Types.ObjectId.isValid(item.productId)) {
+      // productId is already an ObjectId or valid string
+      return new Types.ObjectId(item.productId);
+    }
+    throw new BadRequestException(`Invalid product ID format for item: ${JSON.stringify(item)}`);
+  }
+
   // Helper methods for different payment plan types
   private async handlePriceLockOrder(orderData: any, priceLockDetails: PriceLockPlanDto) {
     if (!priceLockDetails || !priceLockDetails.preferredDeliveryDate) {
@@ -199,11 +434,7 @@ export class OrdersService {
     const now = new Date();
     
     // Calculate minimum (30 days) and maximum (45 days) delivery dates
-    const minDate = new Date(now);
-    minDate.setDate(minDate.getDate() + 30);
-    
-    const maxDate = new Date(now);
-    maxDate.setDate(maxDate.getDate() + 45);
+    const { from: minDate, to: maxDate } = this.getPriceLockWindow(now);
 
     if (preferredDate < minDate || preferredDate > maxDate) {
       throw new BadRequestException('Preferred delivery date must be between 30 and 45 days from now');
@@ -303,11 +534,7 @@ export class OrdersService {
         const paymentDueDate = new Date();
         paymentDueDate.setDate(paymentDueDate.getDate() + 30);
         orderData.paymentDueDate = paymentDueDate;
-        
-        // Set expected delivery date to 1-3 days from now
-        const deliveryDate = new Date();
-        deliveryDate.setDate(deliveryDate.getDate() + 1 + Math.floor(Math.random() * 3));
-        orderData.expectedDeliveryDate = deliveryDate;
+        // The expected delivery date comes from the booked delivery slot
       } else {
         // Reject credit with specific reasons
         orderData.creditCheck.status = CreditStatus.REJECTED;
@@ -329,10 +556,6 @@ export class OrdersService {
         orderData.creditCheck.score = 700 + Math.floor(Math.random() * 100);
         orderData.creditCheck.notes = 'Credit approved (fallback method)';
         orderData.creditCheck.approvedLimit = monthlyIncome * 0.5;
-        
-        const deliveryDate = new Date();
-        deliveryDate.setDate(deliveryDate.getDate() + 1 + Math.floor(Math.random() * 3));
-        orderData.expectedDeliveryDate = deliveryDate;
       } else {
         orderData.creditCheck.status = CreditStatus.REJECTED;
         orderData.creditCheck.notes = 'Credit check failed - income to order ratio too high';
@@ -360,6 +583,15 @@ export class OrdersService {
       throw new ForbiddenException('You can only make payments for your own orders');
     }
 
+    if (order.status === OrderStatus.CANCELLED) {
+      throw new BadRequestException('Cannot pay for a cancelled order');
+    }
+
+    // The open split payment already covers the remaining balance
+    if (order.pendingSplitReference) {
+      throw new BadRequestException('A split payment for this order is already in progress');
+    }
+
     // Validate payment amount
     if (paymentDto.amount > order.remainingAmount) {
       throw new BadRequestException(`Payment amount exceeds remaining balance. Remaining: ${order.remainingAmount}`);
@@ -376,28 +608,24 @@ export class OrdersService {
     let transactionRef = paymentDto.transactionRef;
 
     if (paymentDto.paymentMethod === PaymentMethod.FOOD_MONEY || paymentDto.paymentMethod === PaymentMethod.FOOD_POINTS) {
-      // Process wallet payment
-      const wallet = await this.walletModel.findOne({ userId: new Types.ObjectId(userId) });
-      if (!wallet) {
-        throw new NotFoundException('Wallet not found');
-      }
-
-      if (paymentDto.paymentMethod === PaymentMethod.FOOD_MONEY) {
-        if (wallet.foodMoney < paymentDto.amount) {
-          throw new BadRequestException('Insufficient food money balance');
-        }
-        wallet.foodMoney -= paymentDto.amount;
-      } else {
-        if (wallet.foodPoints < paymentDto.amount) {
-          throw new BadRequestException('Insufficient food points balance');
-        }
-        wallet.foodPoints -= paymentDto.amount;
-      }
-
-      wallet.lastTransactionAt = new Date();
-      await wallet.save();
+      // The balance check, debit and ledger posting are one transaction
+      const walletType = paymentDto.paymentMethod === PaymentMethod.FOOD_MONEY
+        ? WalletType.FOOD_MONEY
+        : WalletType.FOOD_POINTS;
+      const { transactionId } = await this.walletsService.chargeWallet(
+        userId,
+        walletType,
+        paymentDto.amount,
+        `Payment for order ${order.orderNumber}`,
+        {
+          transactionType: LedgerTransactionType.ORDER_PAYMENT,
+          counterAccount: LedgerAccount.SYSTEM_REVENUE,
+          reference: { type: LedgerReferenceType.ORDER, id: order._id.toString() },
+          createdBy: userId,
+        },
+      );
+      transactionRef = transactionId;
       paymentSuccess = true;
-      transactionRef = `WALLET_${Date.now()}`;
     } else {
       // For other payment methods, assume external payment processing
       paymentSuccess = true; // In real implementation, integrate with payment gateway
@@ -415,8 +643,74 @@ export class OrdersService {
     };
 
     order.paymentHistory.push(paymentRecord);
-    order.amountPaid += paymentDto.amount;
-    order.remainingAmount -= paymentDto.amount;
+    await this.applySettledPayment(order, paymentDto.amount);
+
+    return {
+      message: 'Payment processed successfully',
+      paymentRecord,
+      order: {
+        orderNumber: order.orderNumber,
+        amountPaid: order.amountPaid,
+        remainingAmount: order.remainingAmount,
+        status: order.status,
+      },
+    };
+  }
+
+  /**
+   * Count a payment completed through the payments module towards its order.
+   * A reference already on the order, such as a split-tender leg or a
+   * replayed event, is not counted again. A leg that failed because its
+   * split payment expired is still counted when the gateway takes the money.
+   */
+  async applyCompletedPayment(
+    orderId: string,
+    reference: string,
+    amount: number,
+    paymentMethod: PaymentMethod,
+  ): Promise<void> {
+    if (amount <= 0 || !orderId || !Types.ObjectId.isValid(orderId)) {
+      return;
+    }
+
+    const order = await this.orderModel.findById(orderId);
+    if (!order) {
+      this.logger.warn(`Payment ${reference} completed for missing order ${orderId}`);
+      return;
+    }
+    const recorded = order.paymentHistory.find((payment) => payment.transactionRef === reference);
+    if (recorded && recorded.status !== PaymentStatus.FAILED) {
+      return;
+    }
+
+    if (recorded) {
+      recorded.status = PaymentStatus.COMPLETED;
+      recorded.paymentDate = new Date();
+      order.markModified('paymentHistory');
+    } else {
+      order.paymentHistory.push({
+        amount,
+        paymentMethod,
+        status: PaymentStatus.COMPLETED,
+        paymentDate: new Date(),
+        transactionRef: reference,
+      });
+    }
+    await this.applySettledPayment(order, amount);
+  }
+
+  /**
+   * Count a settled amount towards the order, move it along its payment plan
+   * and save it. Callers record the payment history entries themselves.
+   */
+  async applySettledPayment(order: OrderDocument, amount: number): Promise<void> {
+    if (order.status === OrderStatus.CANCELLED) {
+      await this.refundLatePayment(order, amount);
+      return;
+    }
+
+    order.amountPaid += amount;
+    order.remainingAmount -= amount;
 
     // Handle payment plan specific logic
     await this.handlePaymentByPlanType(order);
@@ -435,17 +729,38 @@ export class OrdersService {
         console.error(`Error processing referral commission: ${error.message}`);
       });
     }
+  }
 
-    return {
-      message: 'Payment processed successfully',
-      paymentRecord,
-      order: {
-        orderNumber: order.orderNumber,
-        amountPaid: order.amountPaid,
-        remainingAmount: order.remainingAmount,
-        status: order.status,
+  /**
+   * Money that arrives after the order was cancelled, e.g. a card payment
+   * completing after the payment window closed, goes back to the customer's
+   * Food Money wallet instead of settling the order
+   */
+  private async refundLatePayment(order: OrderDocument, amount: number): Promise<void> {
+    const { transactionId } = await this.walletsService.refundToWallet(
+      order.userId.toString(),
+      WalletType.FOOD_MONEY,
+      amount,
+      `Refund for payment on cancelled order ${order.orderNumber}`,
+      {
+        transactionType: LedgerTransactionType.REFUND,
+        counterAccount: LedgerAccount.SYSTEM_REFUNDS,
+        reference: { type: LedgerReferenceType.ORDER, id: order._id.toString() },
       },
-    };
+    );
+
+    order.paymentHistory.push({
+      amount: -amount,
+      paymentMethod: PaymentMethod.FOOD_MONEY, // Refunded to wallet
+      status: PaymentStatus.REFUNDED,
+      paymentDate: new Date(),
+      transactionRef: transactionId,
+      notes: 'Refund: payment received after the order was cancelled',
+    });
+    order.markModified('paymentHistory');
+    await order.save();
+
+    this.logger.warn(`Payment of ${amount} on cancelled order ${order.orderNumber} refunded to wallet`);
   }
 
   private async handlePaymentByPlanType(order) {
@@ -457,18 +772,16 @@ export class OrdersService {
           const wasNotPaid = order.status !== OrderStatus.PAID;
           order.status = OrderStatus.PAID;
           
-          // Reduce product stock
-          for (const item of order.items) {
-            await this.productModel.findByIdAndUpdate(
-              item.productId,
-              { $inc: { stock: -item.quantity } }
-            );
-          }
+          // Stock was held at checkout; mark it sold
+          await this.stockReservationService.commit(order);
           
-          // Set expected delivery date to 1-2 days from now for PAY_NOW
-          const deliveryDate = new Date();
-          deliveryDate.setDate(deliveryDate.getDate() + 1 + Math.floor(Math.random() * 2));
-          order.expectedDeliveryDate = deliveryDate;
+          // Set expected delivery date to 1-2 days from now for PAY_NOW,
+          // unless a delivery slot already set it
+          if (!order.deliverySlot) {
+            const deliveryDate = new Date();
+            deliveryDate.setDate(deliveryDate.getDate() + 1 + Math.floor(Math.random() * 2));
+            order.expectedDeliveryDate = deliveryDate;
+          }
 
           // Trigger delivery processing if order just became PAID
           if (wasNotPaid) {
@@ -496,13 +809,8 @@ export class OrdersService {
             const wasNotPaid = order.status !== OrderStatus.PAID;
             order.status = OrderStatus.PAID;
             
-            // Reduce product stock
-            for (const item of order.items) {
-              await this.productModel.findByIdAndUpdate(
-                item.productId,
-                { $inc: { stock: -item.quantity } }
-              );
-            }
+            // Stock was held at checkout; mark it sold
+            await this.stockReservationService.commit(order);
 
             // Trigger delivery processing if order just became PAID
             if (wasNotPaid) {
@@ -537,18 +845,16 @@ export class OrdersService {
             const wasNotPaid = order.status !== OrderStatus.PAID;
             order.status = OrderStatus.PAID;
             
-            // Reduce product stock
-            for (const item of order.items) {
-              await this.productModel.findByIdAndUpdate(
-                item.productId,
-                { $inc: { stock: -item.quantity } }
-              );
-            }
+            // Stock was held at checkout; mark it sold
+            await this.stockReservationService.commit(order);
             
-            // Set delivery date to within a week
-            const deliveryDate = new Date();
-            deliveryDate.setDate(deliveryDate.getDate() + 3 + Math.floor(Math.random() * 4)); // 3-7 days
-            order.expectedDeliveryDate = deliveryDate;
+            // Set delivery date to within a week, unless a delivery slot
+            // already set it
+            if (!order.deliverySlot) {
+              const deliveryDate = new Date();
+              deliveryDate.setDate(deliveryDate.getDate() + 3 + Math.floor(Math.random() * 4)); // 3-7 days
+              order.expectedDeliveryDate = deliveryDate;
+            }
 
             // Trigger delivery processing if order just became PAID
             if (wasNotPaid) {
@@ -567,13 +873,8 @@ export class OrdersService {
           const wasNotPaid = order.status !== OrderStatus.PAID;
           order.status = OrderStatus.PAID;
           
-          // Reduce product stock
-          for (const item of order.items) {
-            await this.productModel.findByIdAndUpdate(
-              item.productId,
-              { $inc: { stock: -item.quantity } }
-            );
-          }
+          // Stock was held at checkout; mark it sold
+          await this.stockReservationService.commit(order);
           
           // Update delivery date if not already set
           if (!order.expectedDeliveryDate) {
@@ -729,20 +1030,67 @@ export class OrdersService {
     order.status = OrderStatus.CANCELLED;
     order.cancellationReason = reason;
 
-    // If order was paid, handle refund logic here
-    if (originalStatus === OrderStatus.PAID) {
-      // Restore product stock
-      for (const item of order.items) {
-        await this.productModel.findByIdAndUpdate(
-          item.productId,
-          { $inc: { stock: item.quantity } }
-        );
-      }
-      
-      // Add refund logic here if needed
+    await order.save();
+    await this.subOrdersService.syncWithParent(id, OrderStatus.CANCELLED, userId);
+
+    // Return held stock, or sold stock if the order was paid
+    await this.stockReservationService.release(
+      id,
+      `Order cancelled: ${reason}`,
+      originalStatus === OrderStatus.PAID ? order.items : undefined,
+    );
+
+    if (order.promotion) {
+      await this.promotionsService.releaseRedemption(id);
     }
 
+    return order;
+  }
+
+  /**
+   * Book a delivery slot for a home delivery order, or move it to another
+   * one, up to the slot's cutoff and before a rider has it
+   */
+  async bookDeliverySlot(id: string, userId: string, userRole: UserRole, bookDeliverySlotDto: BookDeliverySlotDto) {
+    const order = await this.orderModel.findById(id);
+    if (!order) {
+      throw new NotFoundException(ORDER_ERROR_MESSAGES.ORDER_NOT_FOUND);
+    }
+
+    if (userRole !== UserRole.ADMIN && order.userId.toString() !== userId) {
+      throw new ForbiddenException('You can only change delivery of your own orders');
+    }
+
+    if (order.deliveryMethod !== DeliveryMethod.HOME_DELIVERY) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.DELIVERY_SLOT_HOME_ONLY);
+    }
+
+    if (![OrderStatus.PENDING, OrderStatus.PAID].includes(order.status) || order.assignedRider) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.DELIVERY_SLOT_LOCKED);
+    }
+
+    if (order.paymentPlan === PaymentPlan.PAY_SMALL_SMALL && !order.deliverySlot && order.remainingAmount > 0) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.DELIVERY_SLOT_AFTER_PAYMENT);
+    }
+
+    const window = order.paymentPlan === PaymentPlan.PRICE_LOCK
+      ? this.getPriceLockWindow((order as any).createdAt)
+      : undefined;
+    const slotStart = new Date(bookDeliverySlotDto.slotStart);
+    const slot = order.deliverySlot
+      ? await this.deliverySlotsService.reschedule(
+          order.deliveryAddress.city,
+          id,
+          order.deliverySlot.startsAt,
+          slotStart,
+          window,
+        )
+      : await this.deliverySlotsService.book(order.deliveryAddress.city, slotStart, id, window);
+
+    order.deliverySlot = slot;
+    this.applyDeliverySlot(order, slot);
     await order.save();
+
     return order;
   }
 
@@ -942,7 +1290,7 @@ export class OrdersService {
     }
 
     // Check stock availability for the order items
-    const hasStockAvailable = await this.checkStockAvailability(order.items);
+    const hasStockAvailable = await this.checkStockAvailability(order);
 
     const context: OrderStateMachineContext = {
       orderId,
@@ -976,6 +1324,11 @@ export class OrdersService {
       });
 
       await order.save();
+      await this.subOrdersService.syncWithParent(orderId, newStatus, userId);
+
+      if (newStatus === OrderStatus.CANCELLED) {
+        await this.stockReservationService.release(orderId, reason || `Status changed via ${action}`);
+      }
 
       this.logger.log(`Order ${orderId} status changed from ${order.status} to ${newStatus} by ${userId}`);
 
@@ -1012,7 +1365,7 @@ export class OrdersService {
       throw new ForbiddenException('You can only view your own orders');
     }
 
-    const hasStockAvailable = await this.checkStockAvailability(order.items);
+    const hasStockAvailable = await this.checkStockAvailability(order);
 
     const context: OrderStateMachineContext = {
       orderId,
@@ -1050,8 +1403,13 @@ export class OrdersService {
   /**
    * Check stock availability for order items
    */
-  private async checkStockAvailability(items: any[]): Promise<boolean> {
-    for (const item of items) {
+  private async checkStockAvailability(order: OrderDocument): Promise<boolean> {
+    // Held stock has already left Product.stock
+    if (await this.stockReservationService.isHeld(order._id.toString())) {
+      return true;
+    }
+
+    for (const item of order.items) {
       const product = await this.productModel.findById(item.productId);
       if (!product || product.stock < item.quantity) {
         return false;
@@ -1067,6 +1425,7 @@ export class OrdersService {
     try {
       // Use setTimeout to ensure this runs after the current transaction
       setTimeout(async () => {
+        await this.subOrdersService.syncWithParent(orderId, OrderStatus.PAID);
         await this.deliveryOrchestration.processOrderForDelivery(orderId);
       }, 100);
     } catch (error) {
@@ -1121,7 +1480,7 @@ export class OrdersService {
       totalAmount: order.finalTotal,
       amountPaid: order.amountPaid,
       remainingAmount: order.remainingAmount,
-      hasStockAvailable: await this.checkStockAvailability(order.items),
+      hasStockAvailable: await this.checkStockAvailability(order),
       isPaymentPlanEligible: order.paymentPlan !== PaymentPlan.PAY_NOW,
     };
 
@@ -1148,6 +1507,7 @@ export class OrdersService {
         }
       }
     );
+    await this.subOrdersService.syncWithParent(orderId, newStatus, historyEntry?.updatedBy);
 
     // Emit real-time event
     this.realTimeService.broadcastOrderUpdate({
@@ -0,0 +1,806 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  CartItem,
+  DeliveryAddress,
+  DeliveryMethod,
+  Order,
+  OrderDocument,
+  OrderModification,
+  OrderModificationChange,
+  PaymentPlan,
+  SlotBooking,
+} from '../entities/order.entity';
+import { SubOrder, SubOrderDocument } from '../entities/sub-order.entity';
+import {
+  Product,
+  ProductDocument,
+} from '../../products/entities/product.entity';
+import { UserRole } from '../../users/entities/user.entity';
+import { PromotionsService } from '../../promotions/promotions.service';
+import { PromotionEvaluation } from '../../promotions/interfaces/promotion.interface';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { StoresService } from '../../stores/stores.service';
+import { StoreDocument } from '../../stores/entities/store.entity';
+import { PickupSlotsService } from '../../stores/services/pickup-slots.service';
+import { DeliveryPricingService } from '../../delivery-pricing/delivery-pricing.service';
+import { DeliverySlotsService } from '../../delivery-slots/delivery-slots.service';
+import { BookingWindow } from '../../delivery-slots/interfaces/delivery-slot.interface';
+import {
+  HeldStock,
+  StockReservationService,
+} from './stock-reservation.service';
+import { SubOrdersService } from './sub-orders.service';
+import { PriceDifferenceService } from './price-difference.service';
+import { ModifyOrderDto } from '../dto';
+import { PriceDifferenceSettlement } from '../interfaces';
+import {
+  ORDER_CONSTANTS,
+  ORDER_ERROR_MESSAGES,
+  ORDER_MODIFICATION_CONFIG,
+} from '../constants';
+import { ProductVariants } from '../../products/helpers';
+
+/** Where the modified order is collected from or delivered to */
+interface ModifiedDelivery {
+  method: DeliveryMethod;
+  address?: DeliveryAddress;
+  storeId?: Types.ObjectId;
+  stockStoreId?: Types.ObjectId;
+  pickupStore?: StoreDocument;
+  pickupSlotStart?: Date;
+  deliverySlotStart?: Date;
+  deliveryFee: number;
+  deliveryQuote?: Order['deliveryQuote'];
+}
+
+/**
+ * Changes customers make to an order after checkout and before it is
+ * prepared or dispatched: items and quantities, delivery method and
+ * address, and the pickup or delivery slot. Held stock and slots follow the
+ * change, the promo code is priced again, totals and the payment schedule
+ * are recomputed, the difference is settled against the Food Money wallet
+ * and every change is kept on the order.
+ */
+@Injectable()
+export class OrderModificationService {
+  private readonly logger = new Logger(OrderModificationService.name);
+
+  constructor(
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @InjectModel(SubOrder.name)
+    private subOrderModel: Model<SubOrderDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    private priceDifferenceService: PriceDifferenceService,
+    private promotionsService: PromotionsService,
+    private stockReservationService: StockReservationService,
+    private notificationsService: NotificationsService,
+    private subOrdersService: SubOrdersService,
+    private storesService: StoresService,
+    private pickupSlotsService: PickupSlotsService,
+    private deliveryPricingService: DeliveryPricingService,
+    private deliverySlotsService: DeliverySlotsService,
+  ) {}
+
+  /**
+   * Apply a customer's change to their order
+   */
+  async modifyOrder(
+    orderId: string,
+    userId: string,
+    userRole: UserRole,
+    modifyOrderDto: ModifyOrderDto,
+  ): Promise<OrderDocument> {
+    const order = await this.orderModel.findById(orderId);
+    if (!order) {
+      throw new NotFoundException(ORDER_ERROR_MESSAGES.ORDER_NOT_FOUND);
+    }
+
+    if (userRole !== UserRole.ADMIN && order.userId.toString() !== userId) {
+      throw new ForbiddenException('You can only change your own orders');
+    }
+
+    await this.assertModifiable(order);
+
+    const changes: OrderModificationChange[] = [];
+    const previousItems = order.items.map((item) => this.toRecordedItem(item));
+    const previousDeliveryMethod = order.deliveryMethod;
+    const previousFinalTotal = order.finalTotal;
+
+    const items = modifyOrderDto.items
+      ? await this.buildItems(order, modifyOrderDto.items)
+      : order.items;
+    const itemsChanged = !!modifyOrderDto.items;
+    if (itemsChanged) {
+      changes.push(OrderModificationChange.ITEMS);
+    }
+
+    const delivery = await this.resolveDelivery(
+      order,
+      modifyOrderDto,
+      items,
+      itemsChanged,
+    );
+    const deliveryChanged =
+      delivery.method !== order.deliveryMethod ||
+      !!modifyOrderDto.deliveryAddress ||
+      delivery.storeId?.toString() !== order.storeId?.toString();
+    if (deliveryChanged) {
+      changes.push(OrderModificationChange.DELIVERY);
+    }
+    const slotChanged =
+      !!delivery.pickupSlotStart || !!delivery.deliverySlotStart;
+    if (slotChanged) {
+      changes.push(OrderModificationChange.SLOT);
+    }
+
+    if (!changes.length) {
+      throw new BadRequestException(
+        ORDER_ERROR_MESSAGES.MODIFICATION_NO_CHANGES,
+      );
+    }
+
+    // Price the promo again so its cap, minimum spend and eligible items
+    // hold for the changed order. A code that no longer applies is dropped
+    const promoCode = order.promotion?.code;
+    const promotion = promoCode
+      ? await this.repricePromotion(order, items, delivery)
+      : null;
+    const promotionDropped = !!promoCode && !promotion;
+    this.applyItemDiscounts(items, promotion);
+    const itemDiscount = promotion?.itemDiscount ?? 0;
+    const deliveryDiscount = promotion?.deliveryDiscount ?? 0;
+
+    const totalAmount = this.round(
+      items.reduce((sum, item) => sum + item.totalPrice, 0),
+    );
+    const finalTotal = this.round(
+      totalAmount + delivery.deliveryFee - itemDiscount - deliveryDiscount,
+    );
+
+    if (
+      order.paymentPlan === PaymentPlan.PAY_LATER &&
+      order.creditCheck?.approvedLimit &&
+      finalTotal > order.creditCheck.approvedLimit
+    ) {
+      throw new BadRequestException(
+        ORDER_ERROR_MESSAGES.INSUFFICIENT_CREDIT_LIMIT,
+      );
+    }
+
+    // Stock first: nothing else changes if an added item is short
+    const stockItems = items.map((item) => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+    }));
+    const previousStock = await this.stockReservationService.adjust(
+      orderId,
+      stockItems,
+      delivery.stockStoreId,
+    );
+
+    let bookedSlots: { pickupSlot?: SlotBooking; deliverySlot?: SlotBooking };
+    try {
+      bookedSlots = await this.bookSlots(order, delivery);
+    } catch (error) {
+      await this.restoreStock(orderId, previousStock);
+      throw error;
+    }
+
+    const previousSlots = {
+      pickupSlot: order.pickupSlot,
+      pickupStoreId: order.storeId,
+      deliverySlot: order.deliverySlot,
+      deliveryCity: order.deliveryAddress?.city,
+    };
+
+    order.items = items;
+    order.totalAmount = totalAmount;
+    order.totalAmountInNibia = items.reduce(
+      (sum, item) => sum + item.totalPriceInNibia,
+      0,
+    );
+    order.deliveryMethod = delivery.method;
+    order.deliveryAddress = delivery.address;
+    order.storeId = delivery.storeId;
+    order.deliveryFee = delivery.deliveryFee;
+    order.deliveryQuote = delivery.deliveryQuote;
+    order.discountAmount = this.round(itemDiscount + deliveryDiscount);
+    if (promotion) {
+      order.promotion.itemDiscount = itemDiscount;
+      order.promotion.deliveryDiscount = deliveryDiscount;
+    } else {
+      order.promotion = undefined;
+    }
+    this.applySlots(order, delivery, bookedSlots);
+
+    let settlement: PriceDifferenceSettlement;
+    try {
+      settlement = await this.priceDifferenceService.settle(
+        order,
+        finalTotal,
+        userId,
+        'changes',
+      );
+    } catch (error) {
+      await this.releaseSlots(orderId, bookedSlots, delivery, previousSlots);
+      await this.restoreStock(orderId, previousStock);
+      throw error;
+    }
+
+    this.recomputeSchedule(order, finalTotal);
+
+    const modification: OrderModification = {
+      changes,
+      previousItems,
+      items: order.items.map((item) => this.toRecordedItem(item)),
+      previousDeliveryMethod,
+      deliveryMethod: order.deliveryMethod,
+      previousFinalTotal,
+      finalTotal,
+      walletAdjustment: settlement.walletAdjustment,
+      transactionRef: settlement.transactionRef,
+      reason: modifyOrderDto.reason,
+      modifiedBy: userId,
+      modifiedAt: new Date(),
+    };
+
+    order.modifications = [...(order.modifications || []), modification];
+    order.statusHistory.push({
+      status: order.status,
+      timestamp: new Date(),
+      reason: promotionDropped
+        ? `Order changed: ${changes.join(', ')}; promo code ${promoCode} no longer applies`
+        : `Order changed: ${changes.join(', ')}`,
+      updatedBy: userId,
+    });
+
+    // pre('save') recomputes finalTotal and remainingAmount
+    try {
+      await order.save();
+    } catch (error) {
+      await this.priceDifferenceService.reverse(
+        order,
+        settlement,
+        userId,
+        'changes',
+      );
+      await this.releaseSlots(orderId, bookedSlots, delivery, previousSlots);
+      await this.restoreStock(orderId, previousStock);
+      throw error;
+    }
+
+    // The old slots and a dropped promo are only given up once the change
+    // has gone through
+    await this.releaseReplacedSlots(orderId, previousSlots, order);
+    if (promotionDropped) {
+      await this.promotionsService.releaseRedemption(orderId);
+    }
+    await this.subOrdersService.resyncItems(order);
+
+    await this.notificationsService.notifyOrderUpdate(
+      order.userId.toString(),
+      order.orderNumber,
+      'order modified',
+      { modification },
+    );
+
+    this.logger.log(
+      `Modified order ${order.orderNumber} (${changes.join(', ')}): total ${previousFinalTotal} -> ${finalTotal} NGN`,
+    );
+
+    return order;
+  }
+
+  /**
+   * Orders can be changed until the configured cutoff: while pending or
+   * paid, before a rider has them and before any seller starts preparing
+   */
+  private async assertModifiable(order: OrderDocument): Promise<void> {
+    const statuses: readonly string[] =
+      ORDER_MODIFICATION_CONFIG.MODIFIABLE_STATUSES;
+    if (!statuses.includes(order.status) || order.assignedRider) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.MODIFICATION_LOCKED);
+    }
+
+    const started = await this.subOrderModel.exists({
+      parentOrderId: order._id,
+      status: {
+        $nin: [...ORDER_MODIFICATION_CONFIG.MODIFIABLE_SUB_ORDER_STATUSES],
+      },
+    });
+    if (started) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.MODIFICATION_LOCKED);
+    }
+  }
+
+  /**
+   * The order's items after the change. Lines already on the order keep
+   * the price they were bought at, so Price Lock orders stay locked; new
+   * lines are priced now.
+   */
+  private async buildItems(
+    order: OrderDocument,
+    changes: ModifyOrderDto['items'],
+  ): Promise<CartItem[]> {
+    const keys = changes.map((change) =>
+      ProductVariants.key(change.productId, change.variantId),
+    );
+    if (new Set(keys).size !== keys.length) {
+      throw new BadRequestException(
+        ORDER_ERROR_MESSAGES.MODIFICATION_DUPLICATE_ITEM,
+      );
+    }
+
+    const items: CartItem[] = order.items.map((item) => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      variantLabel: item.variantLabel,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      unitPriceInNibia: item.unitPriceInNibia,
+      totalPrice: item.totalPrice,
+      totalPriceInNibia: item.totalPriceInNibia,
+      discountAmount: item.discountAmount || 0,
+      substitutionPreference: item.substitutionPreference,
+      substituteProductId: item.substituteProductId,
+      returnedQuantity: item.returnedQuantity,
+    }));
+
+    for (const [position, change] of changes.entries()) {
+      const index = items.findIndex(
+        (item) =>
+          ProductVariants.key(item.productId, item.variantId) ===
+          keys[position],
+      );
+
+      if (index >= 0) {
+        const item = items[index];
+        if (change.quantity === 0) {
+          items.splice(index, 1);
+          continue;
+        }
+        item.quantity = change.quantity;
+        item.totalPrice = this.round(item.unitPrice * change.quantity);
+        item.totalPriceInNibia = item.unitPriceInNibia * change.quantity;
+        continue;
+      }
+
+      if (change.quantity === 0) {
+        throw new NotFoundException(
+          ORDER_ERROR_MESSAGES.MODIFICATION_ITEM_NOT_FOUND,
+        );
+      }
+
+      const product = await this.productModel.findById(change.productId);
+      const unit =
+        product && product.isActive !== false
+          ? ProductVariants.resolve(product, change.variantId)
+          : null;
+      if (!unit) {
+        throw new NotFoundException(
+          ORDER_ERROR_MESSAGES.MODIFICATION_PRODUCT_NOT_FOUND,
+        );
+      }
+
+      items.push({
+        productId: product._id as Types.ObjectId,
+        variantId: unit.variantId && new Types.ObjectId(unit.variantId),
+        variantLabel: unit.unitLabel,
+        quantity: change.quantity,
+        unitPrice: unit.price,
+        unitPriceInNibia: unit.priceInNibia,
+        totalPrice: this.round(unit.price * change.quantity),
+        totalPriceInNibia: unit.priceInNibia * change.quantity,
+        discountAmount: 0,
+      });
+    }
+
+    if (!items.length) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.MODIFICATION_EMPTY);
+    }
+    if (items.length > ORDER_CONSTANTS.MAX_ITEMS_PER_ORDER) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.TOO_MANY_ITEMS);
+    }
+
+    return items;
+  }
+
+  /**
+   * How the order reaches the customer after the change. Home deliveries
+   * are requoted when the address or items change; a new store or city
+   * needs a new slot.
+   */
+  private async resolveDelivery(
+    order: OrderDocument,
+    modifyOrderDto: ModifyOrderDto,
+    items: CartItem[],
+    itemsChanged: boolean,
+  ): Promise<ModifiedDelivery> {
+    const method = modifyOrderDto.deliveryMethod ?? order.deliveryMethod;
+    const methodChanged = method !== order.deliveryMethod;
+    const pickupSlotStart =
+      modifyOrderDto.pickupSlotStart &&
+      new Date(modifyOrderDto.pickupSlotStart);
+    const deliverySlotStart =
+      modifyOrderDto.deliverySlotStart &&
+      new Date(modifyOrderDto.deliverySlotStart);
+
+    if (method === DeliveryMethod.PICKUP) {
+      if (deliverySlotStart) {
+        throw new BadRequestException(
+          ORDER_ERROR_MESSAGES.DELIVERY_SLOT_HOME_ONLY,
+        );
+      }
+
+      const pickupStoreId =
+        modifyOrderDto.pickupStoreId ??
+        (methodChanged ? undefined : order.storeId?.toString());
+      if (!pickupStoreId) {
+        throw new BadRequestException(
+          ORDER_ERROR_MESSAGES.PICKUP_STORE_REQUIRED,
+        );
+      }
+
+      const pickupStore =
+        await this.storesService.findPickupStore(pickupStoreId);
+      const storeChanged =
+        methodChanged ||
+        pickupStore._id.toString() !== order.storeId?.toString();
+      if (storeChanged && !pickupSlotStart) {
+        throw new BadRequestException(
+          ORDER_ERROR_MESSAGES.PICKUP_SLOT_REQUIRED,
+        );
+      }
+
+      return {
+        method,
+        storeId: pickupStore._id as Types.ObjectId,
+        stockStoreId: pickupStore._id as Types.ObjectId,
+        pickupStore,
+        pickupSlotStart,
+        deliveryFee: 0,
+      };
+    }
+
+    if (pickupSlotStart || modifyOrderDto.pickupStoreId) {
+      throw new BadRequestException(
+        'Pickup store and slot only apply to pickup orders',
+      );
+    }
+
+    const address =
+      (modifyOrderDto.deliveryAddress as DeliveryAddress) ??
+      (methodChanged ? undefined : order.deliveryAddress);
+    if (!address) {
+      throw new BadRequestException(
+        ORDER_ERROR_MESSAGES.DELIVERY_ADDRESS_REQUIRED,
+      );
+    }
+
+    // Pay Small-Small orders book their slot once fully paid
+    const awaitingPayment =
+      order.paymentPlan === PaymentPlan.PAY_SMALL_SMALL &&
+      !order.deliverySlot &&
+      order.remainingAmount > 0;
+    if (deliverySlotStart && awaitingPayment) {
+      throw new BadRequestException(
+        ORDER_ERROR_MESSAGES.DELIVERY_SLOT_AFTER_PAYMENT,
+      );
+    }
+
+    const cityChanged =
+      methodChanged ||
+      this.normalizeCity(address.city) !==
+        this.normalizeCity(order.deliveryAddress?.city);
+    if (cityChanged && !awaitingPayment && !deliverySlotStart) {
+      throw new BadRequestException(
+        ORDER_ERROR_MESSAGES.DELIVERY_SLOT_REQUIRED,
+      );
+    }
+
+    if (!methodChanged && !modifyOrderDto.deliveryAddress && !itemsChanged) {
+      const held = await this.stockReservationService.findHeld(
+        order._id.toString(),
+      );
+      return {
+        method,
+        address,
+        storeId: order.storeId,
+        stockStoreId: held?.storeId,
+        deliverySlotStart,
+        deliveryFee: order.deliveryFee,
+        deliveryQuote: order.deliveryQuote,
+      };
+    }
+
+    const stockItems = items.map((item) => ({
+      productId: item.productId.toString(),
+      variantId: item.variantId?.toString(),
+      quantity: item.quantity,
+    }));
+    const dispatchStore = await this.storesService.findFulfilmentStore(
+      address,
+      stockItems,
+    );
+    const deliveryQuote = await this.deliveryPricingService.quote({
+      items: stockItems,
+      destination: address,
+      origin: dispatchStore?.store.location,
+      subtotal: items.reduce((sum, item) => sum + item.totalPrice, 0),
+    });
+
+    return {
+      method,
+      address,
+      storeId: dispatchStore?.store._id as Types.ObjectId | undefined,
+      stockStoreId: dispatchStore?.stocked
+        ? (dispatchStore.store._id as Types.ObjectId)
+        : undefined,
+      deliverySlotStart,
+      deliveryFee: deliveryQuote.deliveryFee,
+      deliveryQuote,
+    };
+  }
+
+  /**
+   * Book the new pickup or delivery slot. The order keeps its old one
+   * until the change has gone through.
+   */
+  private async bookSlots(
+    order: OrderDocument,
+    delivery: ModifiedDelivery,
+  ): Promise<{ pickupSlot?: SlotBooking; deliverySlot?: SlotBooking }> {
+    const orderId = order._id.toString();
+
+    if (delivery.pickupSlotStart) {
+      return {
+        pickupSlot: await this.pickupSlotsService.book(
+          delivery.pickupStore,
+          delivery.pickupSlotStart,
+          orderId,
+        ),
+      };
+    }
+
+    if (delivery.deliverySlotStart) {
+      return {
+        deliverySlot: await this.deliverySlotsService.book(
+          delivery.address.city,
+          delivery.deliverySlotStart,
+          orderId,
+          order.paymentPlan === PaymentPlan.PRICE_LOCK
+            ? this.getPriceLockWindow((order as any).createdAt)
+            : undefined,
+        ),
+      };
+    }
+
+    return {};
+  }
+
+  private applySlots(
+    order: OrderDocument,
+    delivery: ModifiedDelivery,
+    bookedSlots: { pickupSlot?: SlotBooking; deliverySlot?: SlotBooking },
+  ): void {
+    if (delivery.method === DeliveryMethod.PICKUP) {
+      order.deliverySlot = undefined;
+      order.pickupSlot = bookedSlots.pickupSlot ?? order.pickupSlot;
+      return;
+    }
+
+    order.pickupSlot = undefined;
+    if (bookedSlots.deliverySlot) {
+      order.deliverySlot = bookedSlots.deliverySlot;
+      order.expectedDeliveryDate = bookedSlots.deliverySlot.startsAt;
+      if (order.paymentPlan === PaymentPlan.PRICE_LOCK) {
+        order.scheduledDeliveryDate = bookedSlots.deliverySlot.startsAt;
+      }
+    }
+  }
+
+  /**
+   * Give up the slots the order no longer uses
+   */
+  private async releaseReplacedSlots(
+    orderId: string,
+    previous: {
+      pickupSlot?: SlotBooking;
+      pickupStoreId?: Types.ObjectId;
+      deliverySlot?: SlotBooking;
+      deliveryCity?: string;
+    },
+    order: OrderDocument,
+  ): Promise<void> {
+    if (
+      previous.pickupSlot &&
+      (previous.pickupSlot.startsAt.getTime() !==
+        order.pickupSlot?.startsAt.getTime() ||
+        previous.pickupStoreId?.toString() !== order.storeId?.toString())
+    ) {
+      await this.pickupSlotsService.release(orderId, {
+        storeId: previous.pickupStoreId,
+        startsAt: previous.pickupSlot.startsAt,
+      });
+    }
+
+    if (
+      previous.deliverySlot &&
+      (previous.deliverySlot.startsAt.getTime() !==
+        order.deliverySlot?.startsAt.getTime() ||
+        this.normalizeCity(previous.deliveryCity) !==
+          this.normalizeCity(order.deliveryAddress?.city))
+    ) {
+      await this.deliverySlotsService.release(orderId, {
+        city: previous.deliveryCity,
+        startsAt: previous.deliverySlot.startsAt,
+      });
+    }
+  }
+
+  /**
+   * Undo slot bookings made for a change that did not go through, unless
+   * the order already held that slot
+   */
+  private async releaseSlots(
+    orderId: string,
+    bookedSlots: { pickupSlot?: SlotBooking; deliverySlot?: SlotBooking },
+    delivery: ModifiedDelivery,
+    previous: {
+      pickupSlot?: SlotBooking;
+      pickupStoreId?: Types.ObjectId;
+      deliverySlot?: SlotBooking;
+      deliveryCity?: string;
+    },
+  ): Promise<void> {
+    if (
+      bookedSlots.pickupSlot &&
+      (bookedSlots.pickupSlot.startsAt.getTime() !==
+        previous.pickupSlot?.startsAt.getTime() ||
+        delivery.storeId?.toString() !== previous.pickupStoreId?.toString())
+    ) {
+      await this.pickupSlotsService.release(orderId, {
+        storeId: delivery.storeId,
+        startsAt: bookedSlots.pickupSlot.startsAt,
+      });
+    }
+
+    if (
+      bookedSlots.deliverySlot &&
+      (bookedSlots.deliverySlot.startsAt.getTime() !==
+        previous.deliverySlot?.startsAt.getTime() ||
+        this.normalizeCity(delivery.address?.city) !==
+          this.normalizeCity(previous.deliveryCity))
+    ) {
+      await this.deliverySlotsService.release(orderId, {
+        city: delivery.address.city,
+        startsAt: bookedSlots.deliverySlot.startsAt,
+      });
+    }
+  }
+
+  private async restoreStock(
+    orderId: string,
+    previous: HeldStock | null,
+  ): Promise<void> {
+    if (previous) {
+      await this.stockReservationService.adjust(
+        orderId,
+        previous.items,
+        previous.storeId,
+      );
+    }
+  }
+
+  /**
+   * Price the order's promo code on the changed items and delivery fee.
+   * Returns null when the code no longer applies to the order
+   */
+  private async repricePromotion(
+    order: OrderDocument,
+    items: CartItem[],
+    delivery: ModifiedDelivery,
+  ): Promise<PromotionEvaluation | null> {
+    try {
+      return await this.promotionsService.evaluate({
+        code: order.promotion.code,
+        userId: order.userId.toString(),
+        items: items.map((item) => ({
+          productId: item.productId.toString(),
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+        })),
+        city: delivery.address?.city ?? delivery.pickupStore?.city,
+        deliveryFee: delivery.deliveryFee,
+        orderId: order._id.toString(),
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Give each line its share of the promo's item discount. Packs of one
+   * product are separate lines, discounted in turn, as at checkout
+   */
+  private applyItemDiscounts(
+    items: CartItem[],
+    promotion: PromotionEvaluation | null,
+  ): void {
+    items.forEach((item) => {
+      item.discountAmount = 0;
+    });
+
+    const discounted = new Set<CartItem>();
+    for (const itemDiscount of promotion?.itemDiscounts || []) {
+      const item = items.find(
+        (line) =>
+          line.productId.toString() === itemDiscount.productId &&
+          !discounted.has(line),
+      );
+      if (item) {
+        item.discountAmount = itemDiscount.discountAmount;
+        discounted.add(item);
+      }
+    }
+  }
+
+  /**
+   * Spread what is still owed over the instalments left
+   */
+  private recomputeSchedule(order: OrderDocument, finalTotal: number): void {
+    const schedule = order.paymentSchedule;
+    if (order.paymentPlan !== PaymentPlan.PAY_SMALL_SMALL || !schedule) {
+      return;
+    }
+
+    const installmentsLeft =
+      schedule.totalInstallments - schedule.installmentsPaid;
+    if (installmentsLeft > 0) {
+      schedule.installmentAmount = this.round(
+        Math.max(0, finalTotal - order.amountPaid) / installmentsLeft,
+      );
+    }
+  }
+
+  // Price Lock orders are delivered 30-45 days after they are placed
+  private getPriceLockWindow(placedAt: Date): BookingWindow {
+    const from = new Date(placedAt);
+    from.setDate(from.getDate() + ORDER_CONSTANTS.PRICE_LOCK_MIN_DELIVERY_DAYS);
+
+    const to = new Date(placedAt);
+    to.setDate(to.getDate() + ORDER_CONSTANTS.PRICE_LOCK_MAX_DELIVERY_DAYS);
+
+    return { from, to };
+  }
+
+  private toRecordedItem(item: CartItem) {
+    return {
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+    };
+  }
+
+  private normalizeCity(city?: string): string {
+    return (city || '').trim().toLowerCase();
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
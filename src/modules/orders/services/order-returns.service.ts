@@ -0,0 +1,511 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ReturnRequest,
+  ReturnRequestDocument,
+  ReturnStatus,
+  ReturnReason,
+} from '../entities/return-request.entity';
+import { Order, OrderDocument, OrderStatus } from '../entities/order.entity';
+import {
+  Product,
+  ProductDocument,
+} from '../../products/entities/product.entity';
+import { UserRole } from '../../users/entities/user.entity';
+import { OrdersService } from '../orders.service';
+import {
+  RefundCancellationService,
+  RefundReason,
+  RefundType,
+} from './refund-cancellation.service';
+import { DeliveryService } from '../../delivery/delivery.service';
+import { DeliveryLocationDto } from '../../delivery/dto/delivery.dto';
+import { InventoryService } from '../../products/services/inventory.service';
+import { InventoryMovementType } from '../../products/entities/inventory-movement.entity';
+import {
+  CreateReturnRequestDto,
+  ApproveReturnDto,
+  RejectReturnDto,
+  ReturnFilterDto,
+  ReturnItemDto,
+} from '../dto';
+import { RETURN_CONFIG, ORDER_ERROR_MESSAGES } from '../constants';
+import { ProductVariants } from '../../products/helpers';
+
+/**
+ * Returns after delivery. The customer picks the lines and quantities to send
+ * back, an admin approves (optionally booking a rider pickup) or rejects, and
+ * once the items are received each line is refunded at what was paid for it
+ * and restockable items go back on sale.
+ */
+@Injectable()
+export class OrderReturnsService {
+  private readonly logger = new Logger(OrderReturnsService.name);
+
+  constructor(
+    @InjectModel(ReturnRequest.name)
+    private returnModel: Model<ReturnRequestDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    private ordersService: OrdersService,
+    private refundCancellationService: RefundCancellationService,
+    @Inject(forwardRef(() => DeliveryService))
+    private deliveryService: DeliveryService,
+    private inventoryService: InventoryService,
+  ) {}
+
+  /**
+   * Open a return for items on a delivered order
+   */
+  async requestReturn(
+    userId: string,
+    userRole: UserRole,
+    createReturnDto: CreateReturnRequestDto,
+  ): Promise<ReturnRequestDocument> {
+    const order = await this.orderModel.findById(createReturnDto.orderId);
+    if (!order) {
+      throw new NotFoundException(ORDER_ERROR_MESSAGES.ORDER_NOT_FOUND);
+    }
+
+    if (userRole !== UserRole.ADMIN && order.userId.toString() !== userId) {
+      throw new ForbiddenException(
+        'You can only return items from your own orders',
+      );
+    }
+
+    if (
+      ![OrderStatus.DELIVERED, OrderStatus.PARTIALLY_RETURNED].includes(
+        order.status,
+      )
+    ) {
+      throw new BadRequestException(
+        order.status === OrderStatus.RETURN_REQUESTED
+          ? ORDER_ERROR_MESSAGES.RETURN_ALREADY_OPEN
+          : ORDER_ERROR_MESSAGES.RETURN_NOT_DELIVERED,
+      );
+    }
+
+    const windowMs = RETURN_CONFIG.WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    if (Date.now() - this.getDeliveredAt(order).getTime() > windowMs) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.RETURN_WINDOW_CLOSED);
+    }
+
+    const items = this.validateReturnItems(order, createReturnDto.items);
+    const returnNumber = this.generateReturnNumber();
+
+    const returnRequest = await this.returnModel.create({
+      returnNumber,
+      orderId: order._id,
+      userId: order.userId,
+      items,
+      reason: createReturnDto.reason,
+      details: createReturnDto.details,
+      photos: createReturnDto.photos || [],
+      status: ReturnStatus.REQUESTED,
+    });
+
+    // The state machine only lets one return be open per order
+    try {
+      await this.ordersService.changeOrderStatus(
+        order._id.toString(),
+        OrderStatus.RETURN_REQUESTED,
+        'REQUEST_RETURN',
+        userId,
+        userRole,
+        `Return ${returnNumber} requested: ${createReturnDto.reason}`,
+      );
+    } catch (error) {
+      await this.returnModel.deleteOne({ _id: returnRequest._id });
+      throw error;
+    }
+
+    this.logger.log(
+      `Return ${returnNumber} requested for order ${order.orderNumber}`,
+    );
+    return returnRequest;
+  }
+
+  /**
+   * Approve a return, marking which items can be resold and optionally
+   * booking a rider to collect them
+   */
+  async approveReturn(
+    returnId: string,
+    reviewerId: string,
+    approveReturnDto: ApproveReturnDto,
+  ): Promise<ReturnRequestDocument> {
+    const returnRequest = await this.findOne(returnId);
+    if (returnRequest.status !== ReturnStatus.REQUESTED) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.RETURN_INVALID_STATUS);
+    }
+
+    // Each pack of a product is its own line, so it is marked on its own
+    const restockable = new Set(
+      (approveReturnDto.restockableItems || []).map((item) =>
+        ProductVariants.key(item.productId, item.variantId),
+      ),
+    );
+    returnRequest.items.forEach((item) => {
+      item.restockable = restockable.has(
+        ProductVariants.key(item.productId, item.variantId),
+      );
+    });
+
+    returnRequest.status = ReturnStatus.APPROVED;
+    returnRequest.reviewedBy = new Types.ObjectId(reviewerId);
+    returnRequest.reviewedAt = new Date();
+    returnRequest.reviewNotes = approveReturnDto.notes;
+
+    if (approveReturnDto.schedulePickup) {
+      const order = await this.orderModel.findById(returnRequest.orderId);
+      const delivery = await this.deliveryService.createReturnPickup({
+        orderId: returnRequest.orderId.toString(),
+        returnRequestId: returnRequest._id.toString(),
+        customerId: returnRequest.userId.toString(),
+        pickupLocation: this.getPickupLocation(order),
+        dropoffLocation: approveReturnDto.dropoffLocation,
+        items: returnRequest.items.map((item) => ({
+          productId: item.productId.toString(),
+          quantity: item.quantity,
+        })),
+        notes: `Return ${returnRequest.returnNumber}`,
+      });
+
+      returnRequest.status = ReturnStatus.PICKUP_SCHEDULED;
+      returnRequest.pickup = {
+        deliveryId: delivery._id as Types.ObjectId,
+        scheduledAt: new Date(),
+      };
+    }
+
+    await returnRequest.save();
+
+    this.logger.log(
+      `Return ${returnRequest.returnNumber} approved by ${reviewerId}`,
+    );
+    return returnRequest;
+  }
+
+  /**
+   * Reject a return and put the order back where it was
+   */
+  async rejectReturn(
+    returnId: string,
+    reviewerId: string,
+    rejectReturnDto: RejectReturnDto,
+  ): Promise<ReturnRequestDocument> {
+    await this.findOne(returnId);
+
+    const returnRequest = await this.returnModel.findOneAndUpdate(
+      { _id: returnId, status: ReturnStatus.REQUESTED },
+      {
+        status: ReturnStatus.REJECTED,
+        reviewedBy: new Types.ObjectId(reviewerId),
+        reviewedAt: new Date(),
+        reviewNotes: rejectReturnDto.reason,
+      },
+      { new: true },
+    );
+    if (!returnRequest) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.RETURN_INVALID_STATUS);
+    }
+
+    const order = await this.orderModel.findById(returnRequest.orderId);
+    const previouslyReturned = order.items.some(
+      (item) => (item.returnedQuantity || 0) > 0,
+    );
+
+    await this.ordersService.changeOrderStatus(
+      order._id.toString(),
+      previouslyReturned
+        ? OrderStatus.PARTIALLY_RETURNED
+        : OrderStatus.DELIVERED,
+      'REJECT_RETURN',
+      reviewerId,
+      UserRole.ADMIN,
+      `Return ${returnRequest.returnNumber} rejected: ${rejectReturnDto.reason}`,
+    );
+
+    this.logger.log(
+      `Return ${returnRequest.returnNumber} rejected by ${reviewerId}`,
+    );
+    return returnRequest;
+  }
+
+  /**
+   * Items are back: refund each line, restock what can be resold and move
+   * the order to RETURNED or PARTIALLY_RETURNED
+   */
+  async completeReturn(
+    returnId: string,
+    adminId: string,
+  ): Promise<ReturnRequestDocument> {
+    await this.findOne(returnId);
+
+    // Claim the return first so a double submit cannot refund twice
+    const returnRequest = await this.returnModel.findOneAndUpdate(
+      {
+        _id: returnId,
+        status: { $in: [ReturnStatus.APPROVED, ReturnStatus.PICKUP_SCHEDULED] },
+      },
+      { status: ReturnStatus.COMPLETED, receivedAt: new Date() },
+    );
+    if (!returnRequest) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.RETURN_INVALID_STATUS);
+    }
+    const previousStatus = returnRequest.status;
+
+    const order = await this.orderModel.findById(returnRequest.orderId);
+    const fullReturn = order.items.every((orderItem) => {
+      const key = ProductVariants.key(orderItem.productId, orderItem.variantId);
+      const returning = returnRequest.items.find(
+        (item) => ProductVariants.key(item.productId, item.variantId) === key,
+      );
+      return (
+        (orderItem.returnedQuantity || 0) + (returning?.quantity || 0) >=
+        orderItem.quantity
+      );
+    });
+
+    const refund = await this.refundCancellationService.processRefund({
+      orderId: order._id.toString(),
+      userId: order.userId.toString(),
+      type: fullReturn ? RefundType.FULL : RefundType.PARTIAL,
+      reason: this.toRefundReason(returnRequest.reason),
+      customReason: `Return ${returnRequest.returnNumber}`,
+      refundAmount: 0,
+      items: returnRequest.items.map((item) => ({
+        productId: item.productId.toString(),
+        variantId: item.variantId?.toString(),
+        quantity: item.quantity,
+      })),
+      processingFee: 0,
+      requestedBy: `admin:${adminId}`,
+    });
+
+    if (!refund.success) {
+      await this.returnModel.updateOne(
+        { _id: returnRequest._id },
+        { status: previousStatus, $unset: { receivedAt: 1 } },
+      );
+      throw new BadRequestException(
+        `${ORDER_ERROR_MESSAGES.RETURN_REFUND_FAILED}: ${refund.reason}`,
+      );
+    }
+
+    // The refund has already counted the items as returned on the order
+    for (const item of returnRequest.items) {
+      if (item.restockable) {
+        // Packs go back to their own stock as well as the product's
+        const { variantId } = item;
+        await this.productModel.updateOne(
+          variantId
+            ? { _id: item.productId, 'variants._id': variantId }
+            : { _id: item.productId },
+          variantId
+            ? { $inc: { 'variants.$.stock': item.quantity, stock: item.quantity } }
+            : { $inc: { stock: item.quantity } },
+        );
+        await this.inventoryService.record({
+          productId: item.productId,
+          variantId,
+          type: InventoryMovementType.RETURN,
+          quantity: item.quantity,
+          actorId: adminId,
+          reference: returnRequest.returnNumber,
+        });
+      }
+
+      const key = ProductVariants.key(item.productId, item.variantId);
+      item.refundAmount = refund.itemRefunds?.find(
+        (line) => ProductVariants.key(line.productId, line.variantId) === key,
+      )?.amount;
+    }
+
+    await this.returnModel.updateOne(
+      { _id: returnRequest._id },
+      {
+        items: returnRequest.items,
+        refundId: refund.refundId,
+        refundAmount: refund.refundAmount,
+      },
+    );
+
+    await this.ordersService.changeOrderStatus(
+      order._id.toString(),
+      fullReturn ? OrderStatus.RETURNED : OrderStatus.PARTIALLY_RETURNED,
+      'COMPLETE_RETURN',
+      adminId,
+      UserRole.ADMIN,
+      `Return ${returnRequest.returnNumber} received; refunded ₦${refund.refundAmount}`,
+    );
+
+    this.logger.log(
+      `Return ${returnRequest.returnNumber} completed, refunded ₦${refund.refundAmount}`,
+    );
+    return this.returnModel.findById(returnRequest._id);
+  }
+
+  async findAll(
+    filterDto: ReturnFilterDto,
+    userId?: string,
+    userRole?: UserRole,
+  ) {
+    const { status, page = 1, limit = 10 } = filterDto;
+    const query: any = {};
+
+    if (userRole !== UserRole.ADMIN) {
+      query.userId = new Types.ObjectId(userId);
+    }
+    if (status) {
+      query.status = status;
+    }
+
+    const [returns, total] = await Promise.all([
+      this.returnModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.returnModel.countDocuments(query),
+    ]);
+
+    return {
+      returns,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findOne(
+    id: string,
+    userId?: string,
+    userRole?: UserRole,
+  ): Promise<ReturnRequestDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException(ORDER_ERROR_MESSAGES.RETURN_NOT_FOUND);
+    }
+
+    const returnRequest = await this.returnModel.findById(id);
+    if (!returnRequest) {
+      throw new NotFoundException(ORDER_ERROR_MESSAGES.RETURN_NOT_FOUND);
+    }
+
+    if (
+      userId &&
+      userRole !== UserRole.ADMIN &&
+      returnRequest.userId.toString() !== userId
+    ) {
+      throw new ForbiddenException('You can only view your own returns');
+    }
+
+    return returnRequest;
+  }
+
+  /**
+   * Check quantities against what was delivered and not already returned.
+   * Repeated lines for the same product and pack are merged.
+   */
+  private validateReturnItems(order: OrderDocument, items: ReturnItemDto[]) {
+    const merged = new Map<string, ReturnItemDto>();
+    for (const item of items) {
+      const key = ProductVariants.key(item.productId, item.variantId);
+      const existing = merged.get(key);
+      merged.set(
+        key,
+        existing
+          ? { ...existing, quantity: existing.quantity + item.quantity }
+          : { ...item },
+      );
+    }
+
+    return Array.from(merged.entries()).map(([key, item]) => {
+      const orderItem = order.items.find(
+        (line) => ProductVariants.key(line.productId, line.variantId) === key,
+      );
+      if (!orderItem) {
+        throw new BadRequestException(
+          `Product ${item.productId} is not part of this order`,
+        );
+      }
+
+      const returnable = orderItem.quantity - (orderItem.returnedQuantity || 0);
+      if (item.quantity > returnable) {
+        throw new BadRequestException(
+          `${ORDER_ERROR_MESSAGES.RETURN_QUANTITY_EXCEEDED} (${returnable} left of product ${item.productId})`,
+        );
+      }
+
+      return {
+        productId: orderItem.productId,
+        variantId: orderItem.variantId,
+        quantity: item.quantity,
+        reason: item.reason,
+        restockable: false,
+      };
+    });
+  }
+
+  /**
+   * When the order reached the customer. Older orders may only have the
+   * status history or the last update to go on.
+   */
+  private getDeliveredAt(order: OrderDocument): Date {
+    if (order.actualDeliveryDate) {
+      return new Date(order.actualDeliveryDate);
+    }
+
+    const delivered = [...order.statusHistory]
+      .reverse()
+      .find((entry) => entry.status === OrderStatus.DELIVERED);
+    return new Date(delivered?.timestamp || (order as any).updatedAt);
+  }
+
+  private getPickupLocation(order: OrderDocument): DeliveryLocationDto {
+    const address = order.deliveryAddress;
+    if (!address) {
+      throw new BadRequestException(
+        'Order has no delivery address to collect the items from',
+      );
+    }
+
+    return {
+      address: address.street,
+      city: address.city,
+      state: address.state,
+      coordinates:
+        address.latitude !== undefined && address.longitude !== undefined
+          ? [address.longitude, address.latitude]
+          : undefined,
+      instructions: address.instructions,
+    };
+  }
+
+  private toRefundReason(reason: ReturnReason): RefundReason {
+    return reason === ReturnReason.CHANGED_MIND || reason === ReturnReason.OTHER
+      ? RefundReason.CUSTOMER_REQUEST
+      : RefundReason.QUALITY_ISSUE;
+  }
+
+  private generateReturnNumber(): string {
+    const timestamp = Date.now().toString();
+    const random = Math.floor(Math.random() * 1000)
+      .toString()
+      .padStart(3, '0');
+    return `${RETURN_CONFIG.RETURN_NUMBER_PREFIX}-${timestamp.slice(-6)}${random}`;
+  }
+}
@@ -77,8 +77,49 @@ export class OrderStateMachine {
       condition: (ctx) => ctx.userRole === UserRole.ADMIN,
     },
 
-    // DELIVERED state transitions - terminal state for current system
-    // In future, could add COMPLETED or RETURNED states
+    // DELIVERED state transitions - items can be sent back within the return window
+    {
+      from: OrderStatus.DELIVERED,
+      to: OrderStatus.RETURN_REQUESTED,
+      action: 'REQUEST_RETURN',
+      condition: (ctx) => ctx.userRole === UserRole.USER || ctx.userRole === UserRole.ADMIN,
+    },
+
+    // RETURN_REQUESTED state transitions
+    {
+      from: OrderStatus.RETURN_REQUESTED,
+      to: OrderStatus.RETURNED,
+      action: 'COMPLETE_RETURN',
+      condition: (ctx) => ctx.userRole === UserRole.ADMIN,
+    },
+    {
+      from: OrderStatus.RETURN_REQUESTED,
+      to: OrderStatus.PARTIALLY_RETURNED,
+      action: 'COMPLETE_RETURN',
+      condition: (ctx) => ctx.userRole === UserRole.ADMIN,
+    },
+    {
+      from: OrderStatus.RETURN_REQUESTED,
+      to: OrderStatus.DELIVERED,
+      action: 'REJECT_RETURN',
+      condition: (ctx) => ctx.userRole === UserRole.ADMIN,
+    },
+    {
+      from: OrderStatus.RETURN_REQUESTED,
+      to: OrderStatus.PARTIALLY_RETURNED,
+      action: 'REJECT_RETURN',
+      condition: (ctx) => ctx.userRole === UserRole.ADMIN,
+    },
+
+    // PARTIALLY_RETURNED state transitions - the rest can still be returned
+    {
+      from: OrderStatus.PARTIALLY_RETURNED,
+      to: OrderStatus.RETURN_REQUESTED,
+      action: 'REQUEST_RETURN',
+      condition: (ctx) => ctx.userRole === UserRole.USER || ctx.userRole === UserRole.ADMIN,
+    },
+
+    // RETURNED is terminal
 
     // CANCELLED state transitions (limited)
     {
@@ -212,7 +253,9 @@ export class OrderStateMachine {
         'PENDING orders can be paid, shipped with partial payment, or cancelled',
         'PAID orders can be shipped or cancelled (admin only)',
         'SHIPPED orders can be delivered or cancelled (admin only)',
-        'DELIVERED orders are terminal in current system',
+        'DELIVERED and PARTIALLY_RETURNED orders can have a return requested',
+        'RETURN_REQUESTED orders are completed (RETURNED or PARTIALLY_RETURNED) or rejected (admin only)',
+        'RETURNED orders are terminal',
         'CANCELLED orders can be reactivated (admin only with stock)',
         'All state changes are logged and audited',
         'Conditions must be met for each transition',
@@ -0,0 +1,321 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Order,
+  OrderDocument,
+  OrderStatus,
+  OrderSubstitution,
+  SubstitutionPreference,
+} from '../entities/order.entity';
+import {
+  Product,
+  ProductDocument,
+} from '../../products/entities/product.entity';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { StockReservationService } from './stock-reservation.service';
+import { SubOrdersService } from './sub-orders.service';
+import { PriceDifferenceService } from './price-difference.service';
+import { RecordSubstitutionDto } from '../dto';
+import { PriceDifferenceSettlement } from '../interfaces';
+import { ORDER_ERROR_MESSAGES } from '../constants';
+import { SellableUnit } from '../../products/interfaces';
+import { ProductVariants } from '../../products/helpers';
+
+const SUBSTITUTABLE_STATUSES = [OrderStatus.PENDING, OrderStatus.PAID];
+
+/**
+ * Substitutions at fulfilment. When an item is out of stock, staff either send
+ * an alternative the customer's preference allows or drop the line. Totals are
+ * recomputed, the price difference is settled against the Food Money wallet
+ * and the original and substituted lines are kept on the order.
+ */
+@Injectable()
+export class OrderSubstitutionService {
+  private readonly logger = new Logger(OrderSubstitutionService.name);
+
+  constructor(
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    private priceDifferenceService: PriceDifferenceService,
+    private stockReservationService: StockReservationService,
+    private notificationsService: NotificationsService,
+    private subOrdersService: SubOrdersService,
+  ) {}
+
+  /**
+   * Replace an out-of-stock line with a substitute, or refund it
+   */
+  async recordSubstitution(
+    orderId: string,
+    staffId: string,
+    recordSubstitutionDto: RecordSubstitutionDto,
+  ): Promise<OrderDocument> {
+    const order = await this.orderModel.findById(orderId);
+    if (!order) {
+      throw new NotFoundException(ORDER_ERROR_MESSAGES.ORDER_NOT_FOUND);
+    }
+
+    if (!SUBSTITUTABLE_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        ORDER_ERROR_MESSAGES.SUBSTITUTION_INVALID_STATUS,
+      );
+    }
+
+    const lineKey = ProductVariants.key(
+      recordSubstitutionDto.productId,
+      recordSubstitutionDto.variantId,
+    );
+    const line = order.items.find(
+      (item) => ProductVariants.key(item.productId, item.variantId) === lineKey,
+    );
+    if (!line) {
+      throw new NotFoundException(
+        ORDER_ERROR_MESSAGES.SUBSTITUTION_ITEM_NOT_FOUND,
+      );
+    }
+
+    const { product: substitute, unit } = await this.findAllowedSubstitute(
+      order,
+      line,
+      recordSubstitutionDto.substituteProductId,
+      recordSubstitutionDto.substituteVariantId,
+    );
+
+    const original = {
+      productId: line.productId,
+      variantId: line.variantId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      discountAmount: line.discountAmount || 0,
+    };
+    const originalLineTotal = this.round(
+      line.totalPrice - original.discountAmount,
+    );
+
+    let substituteQuantity: number | undefined;
+    let substituteUnitPrice: number | undefined;
+    let substituteLineTotal = 0;
+
+    if (substitute) {
+      substituteQuantity =
+        recordSubstitutionDto.substituteQuantity ?? line.quantity;
+      substituteUnitPrice =
+        recordSubstitutionDto.substituteUnitPrice ?? unit.price;
+      const nibiaPerNaira = unit.price > 0 ? unit.priceInNibia / unit.price : 0;
+      const totalPrice = this.round(substituteUnitPrice * substituteQuantity);
+
+      line.productId = substitute._id as Types.ObjectId;
+      line.variantId = unit.variantId
+        ? new Types.ObjectId(unit.variantId)
+        : undefined;
+      line.quantity = substituteQuantity;
+      line.unitPrice = substituteUnitPrice;
+      line.unitPriceInNibia = Math.round(substituteUnitPrice * nibiaPerNaira);
+      line.totalPrice = totalPrice;
+      line.totalPriceInNibia = line.unitPriceInNibia * substituteQuantity;
+      // The promo share can't exceed the new line
+      line.discountAmount = Math.min(original.discountAmount, totalPrice);
+      substituteLineTotal = this.round(totalPrice - line.discountAmount);
+    } else {
+      order.items = order.items.filter((item) => item !== line);
+    }
+
+    const discountRemoved =
+      original.discountAmount - (substitute ? line.discountAmount : 0);
+    order.discountAmount = this.round(
+      Math.max(0, (order.discountAmount || 0) - discountRemoved),
+    );
+    order.totalAmount = this.round(
+      order.items.reduce((sum, item) => sum + item.totalPrice, 0),
+    );
+    order.totalAmountInNibia = order.items.reduce(
+      (sum, item) => sum + item.totalPriceInNibia,
+      0,
+    );
+
+    const removedStock = [
+      {
+        productId: original.productId,
+        variantId: original.variantId,
+        quantity: original.quantity,
+      },
+    ];
+    const addedStock = substitute
+      ? [
+          {
+            productId: substitute._id as Types.ObjectId,
+            variantId: line.variantId,
+            quantity: substituteQuantity,
+          },
+        ]
+      : [];
+    await this.stockReservationService.swapItems(
+      orderId,
+      removedStock,
+      addedStock,
+    );
+
+    let settlement: PriceDifferenceSettlement;
+    try {
+      settlement = await this.priceDifferenceService.settle(
+        order,
+        this.round(
+          order.totalAmount + order.deliveryFee - (order.discountAmount || 0),
+        ),
+        staffId,
+        'substitution',
+      );
+    } catch (error) {
+      await this.stockReservationService.swapItems(
+        orderId,
+        addedStock,
+        removedStock,
+      );
+      throw error;
+    }
+
+    const substitution: OrderSubstitution = {
+      originalProductId: original.productId,
+      originalVariantId: original.variantId,
+      originalQuantity: original.quantity,
+      originalUnitPrice: original.unitPrice,
+      originalLineTotal,
+      substituteProductId: substitute?._id as Types.ObjectId | undefined,
+      substituteVariantId: substitute ? line.variantId : undefined,
+      substituteQuantity,
+      substituteUnitPrice,
+      substituteLineTotal,
+      priceDifference: this.round(substituteLineTotal - originalLineTotal),
+      walletAdjustment: settlement.walletAdjustment,
+      transactionRef: settlement.transactionRef,
+      reason: recordSubstitutionDto.reason,
+      recordedBy: staffId,
+      recordedAt: new Date(),
+    };
+
+    order.substitutions = [...(order.substitutions || []), substitution];
+    order.statusHistory.push({
+      status: order.status,
+      timestamp: new Date(),
+      reason: substitute
+        ? `Substituted ${substitute.name} for an out-of-stock item`
+        : 'Out-of-stock item removed and refunded',
+      updatedBy: staffId,
+    });
+
+    // pre('save') recomputes finalTotal and remainingAmount
+    try {
+      await order.save();
+    } catch (error) {
+      await this.priceDifferenceService.reverse(
+        order,
+        settlement,
+        staffId,
+        'substitution',
+      );
+      await this.stockReservationService.swapItems(
+        orderId,
+        addedStock,
+        removedStock,
+      );
+      throw error;
+    }
+    await this.subOrdersService.resyncItems(order);
+
+    await this.notificationsService.notifyOrderUpdate(
+      order.userId.toString(),
+      order.orderNumber,
+      substitute ? 'item substituted' : 'item refunded',
+      { substitution },
+    );
+
+    this.logger.log(
+      `Recorded substitution on order ${order.orderNumber}: ${substitution.priceDifference} NGN difference`,
+    );
+
+    return order;
+  }
+
+  /**
+   * Check the substitute against the customer's preference. No substitute
+   * means the line is dropped and refunded, which every preference allows.
+   */
+  private async findAllowedSubstitute(
+    order: OrderDocument,
+    line: OrderDocument['items'][number],
+    substituteProductId?: string,
+    substituteVariantId?: string,
+  ): Promise<{ product: ProductDocument | null; unit: SellableUnit | null }> {
+    if (!substituteProductId) {
+      if (order.items.length === 1) {
+        throw new BadRequestException(
+          ORDER_ERROR_MESSAGES.SUBSTITUTION_LAST_ITEM,
+        );
+      }
+      return { product: null, unit: null };
+    }
+
+    const preference =
+      line.substitutionPreference || SubstitutionPreference.REFUND;
+    if (preference === SubstitutionPreference.REFUND) {
+      throw new BadRequestException(
+        ORDER_ERROR_MESSAGES.SUBSTITUTION_NOT_ALLOWED,
+      );
+    }
+
+    if (
+      preference === SubstitutionPreference.SPECIFIC_PRODUCT &&
+      line.substituteProductId?.toString() !== substituteProductId
+    ) {
+      throw new BadRequestException(
+        ORDER_ERROR_MESSAGES.SUBSTITUTION_NOT_CHOSEN,
+      );
+    }
+
+    const substituteKey = ProductVariants.key(
+      substituteProductId,
+      substituteVariantId,
+    );
+    if (
+      order.items.some(
+        (item) =>
+          ProductVariants.key(item.productId, item.variantId) === substituteKey,
+      )
+    ) {
+      throw new BadRequestException(
+        ORDER_ERROR_MESSAGES.SUBSTITUTION_ALREADY_ON_ORDER,
+      );
+    }
+
+    const substitute = await this.productModel.findById(substituteProductId);
+    const unit =
+      substitute && ProductVariants.resolve(substitute, substituteVariantId);
+    if (!unit || substitute.isActive === false) {
+      throw new NotFoundException(ORDER_ERROR_MESSAGES.SUBSTITUTE_NOT_FOUND);
+    }
+
+    if (preference === SubstitutionPreference.SIMILAR_ITEM) {
+      const originalProduct = await this.productModel
+        .findById(line.productId)
+        .select('category')
+        .lean<Pick<Product, 'category'>>();
+      if (originalProduct && originalProduct.category !== substitute.category) {
+        throw new BadRequestException(
+          ORDER_ERROR_MESSAGES.SUBSTITUTION_NOT_SIMILAR,
+        );
+      }
+    }
+
+    return { product: substitute, unit };
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,151 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  OrderDocument,
+  OrderStatus,
+  PaymentMethod,
+  PaymentStatus,
+} from '../entities/order.entity';
+import { WalletsService } from '../../wallets/wallets.service';
+import { WalletType } from '../../wallets/dto/update-balance.dto';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../../wallets/entities/wallet-ledger-entry.entity';
+import { PriceDifferenceSettlement } from '../interfaces';
+
+/**
+ * Settles a change to an order's total against the customer's Food Money
+ * wallet, for order changes and substitutions. The wallet moves before the
+ * order is saved, so callers reverse the settlement when the save fails.
+ */
+@Injectable()
+export class PriceDifferenceService {
+  private readonly logger = new Logger(PriceDifferenceService.name);
+
+  constructor(private walletsService: WalletsService) {}
+
+  /**
+   * Refund anything paid above the new total, or charge the extra on a paid
+   * order. Orders still being paid for just owe the new remaining amount.
+   * The payment is recorded on the order but not saved.
+   */
+  async settle(
+    order: OrderDocument,
+    newFinalTotal: number,
+    actorId: string,
+    cause: string,
+  ): Promise<PriceDifferenceSettlement> {
+    if (order.amountPaid > newFinalTotal) {
+      const refund = this.round(order.amountPaid - newFinalTotal);
+      const { transactionId } = await this.walletsService.refundToWallet(
+        order.userId.toString(),
+        WalletType.FOOD_MONEY,
+        refund,
+        `Refund after ${cause} on order ${order.orderNumber}`,
+        {
+          transactionType: LedgerTransactionType.REFUND,
+          counterAccount: LedgerAccount.SYSTEM_REFUNDS,
+          reference: this.referenceOf(order),
+          createdBy: actorId,
+        },
+      );
+
+      order.amountPaid = this.round(order.amountPaid - refund);
+      order.paymentHistory.push({
+        amount: refund,
+        paymentMethod: PaymentMethod.FOOD_MONEY,
+        status: PaymentStatus.REFUNDED,
+        paymentDate: new Date(),
+        transactionRef: transactionId,
+        notes: `Refunded difference after ${cause}`,
+      });
+      return { walletAdjustment: -refund, transactionRef: transactionId };
+    }
+
+    if (order.status === OrderStatus.PAID && newFinalTotal > order.amountPaid) {
+      const charge = this.round(newFinalTotal - order.amountPaid);
+      const { transactionId } = await this.walletsService.chargeWallet(
+        order.userId.toString(),
+        WalletType.FOOD_MONEY,
+        charge,
+        `Charge after ${cause} on order ${order.orderNumber}`,
+        {
+          transactionType: LedgerTransactionType.ORDER_PAYMENT,
+          counterAccount: LedgerAccount.SYSTEM_REVENUE,
+          reference: this.referenceOf(order),
+          createdBy: actorId,
+        },
+      );
+
+      order.amountPaid = this.round(order.amountPaid + charge);
+      order.paymentHistory.push({
+        amount: charge,
+        paymentMethod: PaymentMethod.FOOD_MONEY,
+        status: PaymentStatus.COMPLETED,
+        paymentDate: new Date(),
+        transactionRef: transactionId,
+        notes: `Charged difference after ${cause}`,
+      });
+      return { walletAdjustment: charge, transactionRef: transactionId };
+    }
+
+    return { walletAdjustment: 0 };
+  }
+
+  /**
+   * Put the wallet back after a settled change could not be saved. Failures
+   * are logged for support to correct by hand rather than hiding the
+   * original error.
+   */
+  async reverse(
+    order: OrderDocument,
+    settlement: PriceDifferenceSettlement,
+    actorId: string,
+    cause: string,
+  ): Promise<void> {
+    if (!settlement.walletAdjustment) {
+      return;
+    }
+
+    const amount = Math.abs(settlement.walletAdjustment);
+    const ledgerOptions = {
+      transactionType: LedgerTransactionType.REFUND,
+      reference: this.referenceOf(order),
+      createdBy: actorId,
+      metadata: { originalTransactionId: settlement.transactionRef },
+    };
+
+    try {
+      if (settlement.walletAdjustment > 0) {
+        await this.walletsService.refundToWallet(
+          order.userId.toString(),
+          WalletType.FOOD_MONEY,
+          amount,
+          `Reversed charge after ${cause} on order ${order.orderNumber}`,
+          { ...ledgerOptions, counterAccount: LedgerAccount.SYSTEM_REVENUE },
+        );
+      } else {
+        await this.walletsService.chargeWallet(
+          order.userId.toString(),
+          WalletType.FOOD_MONEY,
+          amount,
+          `Reversed refund after ${cause} on order ${order.orderNumber}`,
+          { ...ledgerOptions, counterAccount: LedgerAccount.SYSTEM_REFUNDS },
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to reverse ${settlement.transactionRef} on order ${order.orderNumber}: ${error.message}`,
+      );
+    }
+  }
+
+  private referenceOf(order: OrderDocument) {
+    return { type: LedgerReferenceType.ORDER, id: order._id.toString() };
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
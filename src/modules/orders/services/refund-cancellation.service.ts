@@ -3,9 +3,19 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Order, OrderDocument, OrderStatus, PaymentStatus, PaymentMethod } from '../../orders/entities/order.entity';
 import { User, UserDocument } from '../../users/entities/user.entity';
-import { Wallet, WalletDocument } from '../../wallets/entities/wallet.entity';
 import { Product, ProductDocument } from '../../products/entities/product.entity';
 import { OrdersService } from '../../orders/orders.service';
+import { WalletsService } from '../../wallets/wallets.service';
+import { PromotionsService } from '../../promotions/promotions.service';
+import { StockReservationService } from './stock-reservation.service';
+import { ProductVariants } from '../../products/helpers';
+import { SettlementsService } from '../../settlements/settlements.service';
+import { WalletType } from '../../wallets/dto/update-balance.dto';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../../wallets/entities/wallet-ledger-entry.entity';
 
 export enum RefundType {
   FULL = 'full',
@@ -31,13 +41,25 @@ export enum RefundStatus {
   CANCELLED = 'cancelled',
 }
 
+export interface RefundItem {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+export interface ItemRefund extends RefundItem {
+  amount: number;
+}
+
 export interface RefundRequest {
   orderId: string;
   userId: string;
   type: RefundType;
   reason: RefundReason;
   customReason?: string;
+  /** Ignored when items are given; the amount is worked out from them */
   refundAmount: number;
+  items?: RefundItem[];
   processingFee?: number;
   requestedBy: string;
   adminNotes?: string;
@@ -53,6 +75,8 @@ export interface RefundResult {
   stockRestored?: boolean;
   reason?: string;
   transactionRef?: string;
+  /** Per-line amounts when the refund was for specific items */
+  itemRefunds?: ItemRefund[];
 }
 
 export interface CancellationRequest {
@@ -85,9 +109,12 @@ export class RefundCancellationService {
   constructor(
     @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
-    @InjectModel(Wallet.name) private walletModel: Model<WalletDocument>,
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
     private ordersService: OrdersService,
+    private walletsService: WalletsService,
+    private promotionsService: PromotionsService,
+    private stockReservationService: StockReservationService,
+    private settlementsService: SettlementsService,
   ) {}
 
   /**
@@ -152,6 +179,11 @@ export class RefundCancellationService {
       // Restore product stock
       const stockRestored = await this.restoreProductStock(order);
 
+      // A cancelled order no longer counts towards the promo code's caps
+      if (order.promotion) {
+        await this.promotionsService.releaseRedemption(request.orderId);
+      }
+
       this.logger.log(`Order ${request.orderId} cancelled successfully`);
 
       return {
@@ -184,6 +216,19 @@ export class RefundCancellationService {
         };
       }
 
+      let itemRefunds: ItemRefund[] | undefined;
+      if (request.items?.length) {
+        const itemRefund = this.calculateItemRefunds(order, request.items);
+        if (itemRefund.reason) {
+          return {
+            success: false,
+            reason: itemRefund.reason,
+          };
+        }
+        itemRefunds = itemRefund.lines;
+        request = { ...request, refundAmount: itemRefund.amount };
+      }
+
       // Validate refund amount
       if (request.refundAmount > order.amountPaid) {
         return {
@@ -204,7 +249,8 @@ export class RefundCancellationService {
         request.userId,
         netRefund,
         refundId,
-        `Refund for order ${order.orderNumber}`
+        `Refund for order ${order.orderNumber}`,
+        order._id.toString()
       );
 
       if (!walletCredited) {
@@ -235,9 +281,39 @@ export class RefundCancellationService {
         }
       );
 
+      // Count the refunded items as returned so they cannot be refunded twice
+      for (const line of itemRefunds || []) {
+        // Lines without a pack have no variantId, which null also matches
+        await this.orderModel.updateOne(
+          {
+            _id: order._id,
+            items: {
+              $elemMatch: {
+                productId: new Types.ObjectId(line.productId),
+                variantId: line.variantId ? new Types.ObjectId(line.variantId) : null,
+              },
+            },
+          },
+          { $inc: { 'items.$.returnedQuantity': line.quantity } }
+        );
+      }
+
       // Log refund transaction
       await this.logRefundTransaction(order, request, refundId, netRefund, processingFee);
 
+      // Take the refunded lines back off the sellers' next payout
+      try {
+        await this.settlementsService.recordRefund({
+          orderId: order._id.toString(),
+          refundId,
+          items: request.items,
+          fraction: order.amountPaid > 0 ? request.refundAmount / order.amountPaid : 0,
+          reason: request.customReason || request.reason,
+        });
+      } catch (error) {
+        this.logger.error(`Failed to adjust seller earnings for refund ${refundId}: ${error.message}`, error.stack);
+      }
+
       this.logger.log(`Refund processed: ${refundId} for order ${order.orderNumber}, amount: ₦${netRefund}`);
 
       return {
@@ -248,6 +324,7 @@ export class RefundCancellationService {
         netRefund,
         walletCredited: true,
         transactionRef: refundId,
+        itemRefunds,
       };
 
     } catch (error) {
@@ -259,6 +336,38 @@ export class RefundCancellationService {
     }
   }
 
+  /**
+   * Refund for returned items at what the customer actually paid: each item's
+   * share of the promo discount is taken off in proportion to the quantity
+   */
+  calculateItemRefunds(order: OrderDocument, items: RefundItem[]): { amount?: number; lines?: ItemRefund[]; reason?: string } {
+    const lines: ItemRefund[] = [];
+
+    for (const refundItem of items) {
+      const key = ProductVariants.key(refundItem.productId, refundItem.variantId);
+      const orderItem = order.items.find((item) => ProductVariants.key(item.productId, item.variantId) === key);
+      if (!orderItem) {
+        return { reason: `Product ${refundItem.productId} is not part of this order` };
+      }
+      // Items already refunded or returned cannot be refunded again
+      const refundable = orderItem.quantity - (orderItem.returnedQuantity || 0);
+      if (refundItem.quantity > refundable) {
+        return { reason: `Cannot refund more than the ${refundable} left of product ${refundItem.productId}` };
+      }
+
+      const discountShare = ((orderItem.discountAmount || 0) * refundItem.quantity) / orderItem.quantity;
+      lines.push({
+        productId: refundItem.productId,
+        variantId: refundItem.variantId,
+        quantity: refundItem.quantity,
+        amount: Math.round((orderItem.unitPrice * refundItem.quantity - discountShare) * 100) / 100,
+      });
+    }
+
+    const amount = lines.reduce((sum, line) => sum + line.amount, 0);
+    return { amount: Math.round(amount * 100) / 100, lines };
+  }
+
   /**
    * Check if order can be cancelled
    */
@@ -332,33 +441,34 @@ export class RefundCancellationService {
   }
 
   /**
-   * Credit user's wallet with refund amount
+   * Credit user's wallet with refund amount. The credit and its ledger
+   * posting are one transaction, so false means nothing was credited
    */
   private async creditUserWallet(
     userId: string,
     amount: number,
     transactionRef: string,
-    description: string
+    description: string,
+    orderId: string
   ): Promise<boolean> {
+    if (amount <= 0) {
+      return true;
+    }
+
     try {
-      const result = await this.walletModel.updateOne(
-        { userId: new Types.ObjectId(userId) },
+      await this.walletsService.refundToWallet(
+        userId,
+        WalletType.FOOD_MONEY,
+        amount,
+        description,
         {
-          $inc: { balance: amount },
-          $push: {
-            transactions: {
-              type: 'credit',
-              amount,
-              description,
-              transactionRef,
-              timestamp: new Date(),
-              status: 'completed',
-            }
-          }
+          transactionId: transactionRef,
+          transactionType: LedgerTransactionType.REFUND,
+          counterAccount: LedgerAccount.SYSTEM_REFUNDS,
+          reference: { type: LedgerReferenceType.ORDER, id: orderId },
         }
       );
-
-      return result.modifiedCount > 0;
+      return true;
     } catch (error) {
       this.logger.error(`Failed to credit wallet for user ${userId}: ${error.message}`);
       return false;
@@ -370,17 +480,14 @@ export class RefundCancellationService {
    */
   private async restoreProductStock(order: OrderDocument): Promise<boolean> {
     try {
-      // Only restore stock if order was paid (stock was deducted)
-      if (order.status !== OrderStatus.PAID && order.status !== OrderStatus.SHIPPED) {
-        return true; // No stock to restore
-      }
+      // Orders placed before stock holds existed only had stock taken once paid
+      const wasPaid = order.status === OrderStatus.PAID || order.status === OrderStatus.SHIPPED;
 
-      for (const item of order.items) {
-        await this.productModel.updateOne(
-          { _id: item.productId },
-          { $inc: { stock: item.quantity } }
-        );
-      }
+      await this.stockReservationService.release(
+        order._id.toString(),
+        `Order ${order.orderNumber} cancelled`,
+        wasPaid ? order.items : undefined,
+      );
 
       this.logger.log(`Stock restored for order ${order.orderNumber}`);
       return true;
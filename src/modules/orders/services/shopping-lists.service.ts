@@ -0,0 +1,345 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ShoppingList,
+  ShoppingListDocument,
+  ShoppingListItem,
+} from '../entities/shopping-list.entity';
+import { Order, OrderDocument } from '../entities/order.entity';
+import {
+  Product,
+  ProductDocument,
+} from '../../products/entities/product.entity';
+import { CartService } from '../cart.service';
+import {
+  SubscriptionOrderService,
+  SubscriptionPlan,
+} from './subscription-order.service';
+import {
+  CreateShoppingListDto,
+  UpdateShoppingListDto,
+  ReorderDto,
+  SubscribeShoppingListDto,
+} from '../dto';
+import { ReorderResult } from '../interfaces';
+import { ORDER_ERROR_MESSAGES } from '../constants';
+import { ProductVariants } from '../../products/helpers';
+
+interface ListItem {
+  productId: Types.ObjectId | string;
+  variantId?: Types.ObjectId | string;
+  quantity: number;
+}
+
+/**
+ * Saved shopping lists and reordering. A past order or a list can be put
+ * back in the cart at today's prices; products that are gone, inactive or
+ * out of stock are left out and reported. A list can also become a
+ * recurring subscription.
+ */
+@Injectable()
+export class ShoppingListsService {
+  private readonly logger = new Logger(ShoppingListsService.name);
+
+  constructor(
+    @InjectModel(ShoppingList.name)
+    private shoppingListModel: Model<ShoppingListDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    private cartService: CartService,
+    private subscriptionOrderService: SubscriptionOrderService,
+  ) {}
+
+  /**
+   * Save a list, from the given products or from a past order
+   */
+  async create(
+    userId: string,
+    createShoppingListDto: CreateShoppingListDto,
+  ): Promise<ShoppingListDocument> {
+    const items = createShoppingListDto.orderId
+      ? (await this.findOwnOrder(createShoppingListDto.orderId, userId)).items
+      : createShoppingListDto.items || [];
+
+    try {
+      const list = await this.shoppingListModel.create({
+        userId: new Types.ObjectId(userId),
+        name: createShoppingListDto.name,
+        items: this.mergeItems(items),
+      });
+      this.logger.log(`Created shopping list ${list._id} for user ${userId}`);
+      return list;
+    } catch (error) {
+      throw this.toConflict(error);
+    }
+  }
+
+  async findAll(userId: string): Promise<ShoppingListDocument[]> {
+    return this.shoppingListModel
+      .find({ userId: new Types.ObjectId(userId) })
+      .sort({ updatedAt: -1 });
+  }
+
+  async findOne(id: string, userId: string): Promise<ShoppingListDocument> {
+    const list = Types.ObjectId.isValid(id)
+      ? await this.shoppingListModel.findOne({
+          _id: id,
+          userId: new Types.ObjectId(userId),
+        })
+      : null;
+    if (!list) {
+      throw new NotFoundException(ORDER_ERROR_MESSAGES.SHOPPING_LIST_NOT_FOUND);
+    }
+    return list;
+  }
+
+  async update(
+    id: string,
+    userId: string,
+    updateShoppingListDto: UpdateShoppingListDto,
+  ): Promise<ShoppingListDocument> {
+    const list = await this.findOne(id, userId);
+
+    if (updateShoppingListDto.name !== undefined) {
+      list.name = updateShoppingListDto.name;
+    }
+    if (updateShoppingListDto.items) {
+      list.items = this.mergeItems(updateShoppingListDto.items);
+    }
+
+    try {
+      return await list.save();
+    } catch (error) {
+      throw this.toConflict(error);
+    }
+  }
+
+  async remove(id: string, userId: string): Promise<void> {
+    const list = await this.findOne(id, userId);
+    await this.shoppingListModel.deleteOne({ _id: list._id });
+  }
+
+  /**
+   * Put a list's products in the cart at current prices
+   */
+  async reorderList(
+    id: string,
+    userId: string,
+    reorderDto: ReorderDto = {},
+  ): Promise<ReorderResult> {
+    const list = await this.findOne(id, userId);
+    if (!list.items.length) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.SHOPPING_LIST_EMPTY);
+    }
+
+    const result = await this.rebuildCart(
+      userId,
+      list.items,
+      reorderDto.replaceCart ?? true,
+    );
+
+    list.lastReorderedAt = new Date();
+    await list.save();
+    return result;
+  }
+
+  /**
+   * Put a past order's products back in the cart at current prices
+   */
+  async reorderOrder(
+    orderId: string,
+    userId: string,
+    reorderDto: ReorderDto = {},
+  ): Promise<ReorderResult> {
+    const order = await this.findOwnOrder(orderId, userId);
+    return this.rebuildCart(
+      userId,
+      this.mergeItems(order.items),
+      reorderDto.replaceCart ?? true,
+    );
+  }
+
+  /**
+   * Order a list's products on a schedule
+   */
+  async subscribe(
+    id: string,
+    userId: string,
+    subscribeDto: SubscribeShoppingListDto,
+  ): Promise<SubscriptionPlan> {
+    const list = await this.findOne(id, userId);
+    if (!list.items.length) {
+      throw new BadRequestException(ORDER_ERROR_MESSAGES.SHOPPING_LIST_EMPTY);
+    }
+    if (list.subscriptionId) {
+      throw new ConflictException(
+        ORDER_ERROR_MESSAGES.SHOPPING_LIST_SUBSCRIBED,
+      );
+    }
+
+    const subscription = await this.subscriptionOrderService.createSubscription(
+      userId,
+      {
+        name: list.name,
+        description: `Recurring order from shopping list "${list.name}"`,
+        frequency: subscribeDto.frequency,
+        startDate: new Date(subscribeDto.startDate),
+        endDate: subscribeDto.endDate && new Date(subscribeDto.endDate),
+        items: list.items.map((item) => ({
+          productId: item.productId.toString(),
+          variantId: item.variantId?.toString(),
+          quantity: item.quantity,
+        })),
+        deliveryAddress: {
+          ...subscribeDto.deliveryAddress,
+          country: subscribeDto.deliveryAddress.country || 'Nigeria',
+        },
+        paymentPlan: subscribeDto.paymentPlan,
+        autoPayment: subscribeDto.autoPayment ?? false,
+      },
+    );
+
+    list.subscriptionId = subscription._id;
+    await list.save();
+    return subscription;
+  }
+
+  /**
+   * Add items to the cart at today's prices, capped at the stock left.
+   * Products that are gone, inactive or sold out are skipped and reported.
+   */
+  private async rebuildCart(
+    userId: string,
+    items: ListItem[],
+    replaceCart: boolean,
+  ): Promise<ReorderResult> {
+    const products = await this.productModel
+      .find({
+        _id: { $in: items.map((item) => new Types.ObjectId(item.productId)) },
+      })
+      .lean();
+    const byId = new Map(
+      products.map((product) => [product._id.toString(), product]),
+    );
+
+    if (replaceCart) {
+      await this.cartService.clearCart(userId);
+    }
+
+    const result: ReorderResult = { cart: undefined, added: [], skipped: [] };
+    for (const item of items) {
+      const productId = item.productId.toString();
+      const variantId = item.variantId?.toString();
+      const product = byId.get(productId);
+      const skipped = {
+        productId,
+        variantId,
+        name: product?.name,
+        requestedQuantity: item.quantity,
+      };
+
+      if (!product) {
+        result.skipped.push({ ...skipped, reason: 'not_found' });
+        continue;
+      }
+      // A retired pack, or one missing from a product now sold in packs,
+      // is no longer on sale
+      const unit = ProductVariants.resolve(product, variantId);
+      if (product.isActive === false || !unit) {
+        result.skipped.push({ ...skipped, reason: 'inactive' });
+        continue;
+      }
+
+      const quantity = Math.min(item.quantity, unit.stock);
+      if (quantity <= 0) {
+        result.skipped.push({ ...skipped, reason: 'out_of_stock' });
+        continue;
+      }
+
+      try {
+        await this.cartService.addToCart(
+          userId,
+          productId,
+          quantity,
+          variantId,
+        );
+      } catch (error) {
+        if (error instanceof BadRequestException) {
+          // Stock went, or the cart already holds what is left
+          result.skipped.push({ ...skipped, reason: 'out_of_stock' });
+          continue;
+        }
+        throw error;
+      }
+
+      result.added.push({
+        productId,
+        variantId,
+        name: product.name,
+        variantLabel: unit.unitLabel,
+        requestedQuantity: item.quantity,
+        quantity,
+        unitPrice: unit.price,
+      });
+    }
+
+    result.cart = await this.cartService.getCart(userId);
+    this.logger.log(
+      `Reordered ${result.added.length} items for user ${userId}, skipped ${result.skipped.length}`,
+    );
+    return result;
+  }
+
+  private async findOwnOrder(
+    orderId: string,
+    userId: string,
+  ): Promise<OrderDocument> {
+    const order = Types.ObjectId.isValid(orderId)
+      ? await this.orderModel.findOne({
+          _id: orderId,
+          userId: new Types.ObjectId(userId),
+        })
+      : null;
+    if (!order) {
+      throw new NotFoundException(ORDER_ERROR_MESSAGES.ORDER_NOT_FOUND);
+    }
+    return order;
+  }
+
+  // One line per product and pack, in the order first seen
+  private mergeItems(items: ListItem[]): ShoppingListItem[] {
+    const merged = new Map<string, ShoppingListItem>();
+    for (const item of items) {
+      const key = ProductVariants.key(item.productId, item.variantId);
+      const line = merged.get(key);
+      if (line) {
+        line.quantity += item.quantity;
+      } else {
+        merged.set(key, {
+          productId: new Types.ObjectId(item.productId.toString()),
+          ...(item.variantId && {
+            variantId: new Types.ObjectId(item.variantId.toString()),
+          }),
+          quantity: item.quantity,
+        });
+      }
+    }
+    return Array.from(merged.values());
+  }
+
+  private toConflict(error: any) {
+    if (error.code === 11000) {
+      return new ConflictException(
+        ORDER_ERROR_MESSAGES.SHOPPING_LIST_NAME_TAKEN,
+      );
+    }
+    return error;
+  }
+}
@@ -0,0 +1,575 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import {
+  Order,
+  OrderDocument,
+  PaymentHistory,
+  PaymentMethod,
+  PaymentPlan,
+  PaymentStatus,
+} from '../entities/order.entity';
+import { Wallet, WalletDocument } from '../../wallets/entities/wallet.entity';
+import { UserRole } from '../../users/entities/user.entity';
+import { OrdersService } from '../orders.service';
+import { WalletsService } from '../../wallets/wallets.service';
+import { WalletType } from '../../wallets/dto/update-balance.dto';
+import { WALLET_CONSTANTS } from '../../wallets/constants/wallet.constants';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../../wallets/entities/wallet-ledger-entry.entity';
+import { PaymentService } from '../../payments/services/payment.service';
+import {
+  PaymentGateway,
+  PaymentMethod as GatewayPaymentMethod,
+  PaymentType,
+} from '../../payments/constants/payment.constants';
+import { PaymentTenderDto, SplitPaymentDto } from '../dto';
+import { SPLIT_TENDER_CONFIG } from '../constants';
+
+const WALLET_TENDERS: Partial<Record<PaymentMethod, WalletType>> = {
+  [PaymentMethod.FOOD_POINTS]: WalletType.FOOD_POINTS,
+  [PaymentMethod.FOOD_MONEY]: WalletType.FOOD_MONEY,
+};
+
+const GATEWAY_TENDERS: Partial<Record<PaymentMethod, GatewayPaymentMethod>> = {
+  [PaymentMethod.CARD]: GatewayPaymentMethod.DEBIT_CARD,
+  [PaymentMethod.BANK_TRANSFER]: GatewayPaymentMethod.BANK_TRANSFER,
+};
+
+interface TenderLeg {
+  paymentMethod: PaymentMethod;
+  amount: number; // NGN
+  walletType?: WalletType;
+  walletAmount?: number; // in the wallet's own unit
+}
+
+/**
+ * Pays one Pay Now order from an ordered list of tenders, e.g. Nibia, then
+ * Food Money, then card for whatever is left.
+ *
+ * Wallet legs are debited together up front. When a gateway leg is needed
+ * they stay PENDING until the gateway settles: a completed card payment
+ * settles every leg, and a failed or abandoned one credits the wallet legs
+ * back. The order is claimed for one split payment at a time.
+ */
+@Injectable()
+export class SplitTenderService {
+  private readonly logger = new Logger(SplitTenderService.name);
+  private readonly ngnToNibiaRate: number;
+
+  constructor(
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @InjectModel(Wallet.name) private walletModel: Model<WalletDocument>,
+    private readonly ordersService: OrdersService,
+    private readonly walletsService: WalletsService,
+    private readonly paymentService: PaymentService,
+    private readonly configService: ConfigService,
+  ) {
+    this.ngnToNibiaRate = Number(
+      this.configService.get(
+        'NGN_TO_NIBIA_RATE',
+        WALLET_CONSTANTS.NGN_TO_NIBIA_RATE,
+      ),
+    );
+  }
+
+  async makeSplitPayment(
+    orderId: string,
+    userId: string,
+    userRole: UserRole,
+    splitPaymentDto: SplitPaymentDto,
+  ) {
+    const order = await this.orderModel.findById(orderId);
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (userRole !== UserRole.ADMIN && order.userId.toString() !== userId) {
+      throw new ForbiddenException(
+        'You can only make payments for your own orders',
+      );
+    }
+
+    if (order.paymentPlan !== PaymentPlan.PAY_NOW) {
+      throw new BadRequestException(
+        'Split-tender payment is only available for Pay Now orders',
+      );
+    }
+
+    if (order.remainingAmount <= 0) {
+      throw new BadRequestException('Order is already fully paid');
+    }
+
+    const splitReference = this.generateSplitReference();
+    const claimed = await this.claimOrder(order, splitReference);
+    if (!claimed) {
+      throw new BadRequestException(
+        'A split payment for this order is already in progress',
+      );
+    }
+
+    // Wallet legs are charged to the order owner, even when an admin pays
+    const payerId = order.userId.toString();
+    let legs: TenderLeg[];
+    let transactionIds: string[] = [];
+    try {
+      legs = await this.planLegs(order, payerId, splitPaymentDto.tenders);
+
+      // Reserve every wallet leg in one update so none is taken without the rest
+      const walletLegs = legs.filter((leg) => leg.walletType);
+      if (walletLegs.length > 0) {
+        ({ transactionIds } = await this.walletsService.chargeWallets(
+          payerId,
+          walletLegs.map((leg) => ({
+            walletType: leg.walletType,
+            amount: leg.walletAmount,
+            description: `Payment for order ${order.orderNumber}`,
+            ledgerOptions: {
+              transactionType: LedgerTransactionType.ORDER_PAYMENT,
+              counterAccount: LedgerAccount.SYSTEM_REVENUE,
+              reference: {
+                type: LedgerReferenceType.ORDER,
+                id: order._id.toString(),
+              },
+              createdBy: userId,
+              metadata: { splitReference },
+            },
+          })),
+        ));
+      }
+    } catch (error) {
+      await this.releaseClaim(order, splitReference);
+      throw error;
+    }
+
+    const walletLegs = legs.filter((leg) => leg.walletType);
+    const gatewayLeg = legs.find((leg) => !leg.walletType);
+
+    const walletRecords: PaymentHistory[] = walletLegs.map((leg, index) => ({
+      amount: leg.amount,
+      paymentMethod: leg.paymentMethod,
+      status: gatewayLeg ? PaymentStatus.PENDING : PaymentStatus.COMPLETED,
+      paymentDate: new Date(),
+      transactionRef: transactionIds[index],
+      splitReference,
+      notes: splitPaymentDto.notes,
+    }));
+
+    if (!gatewayLeg) {
+      order.paymentHistory.push(...walletRecords);
+      await this.ordersService.applySettledPayment(
+        order,
+        this.sumLegs(walletRecords),
+      );
+      await this.releaseClaim(order, splitReference);
+
+      return {
+        message: 'Payment processed successfully',
+        splitReference,
+        paymentRecords: walletRecords,
+        order: this.summarizeOrder(order),
+      };
+    }
+
+    let gatewayResponse;
+    try {
+      gatewayResponse = await this.paymentService.initiatePayment(
+        payerId,
+        {
+          orderId: order._id.toString(),
+          paymentType: PaymentType.PAY_NOW,
+          paymentMethod: GATEWAY_TENDERS[gatewayLeg.paymentMethod],
+          gateway: PaymentGateway.PAYSTACK,
+          metadata: { splitReference, orderNumber: order.orderNumber },
+        },
+        Math.round(gatewayLeg.amount * 100), // Gateways charge in kobo
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Gateway leg of split payment ${splitReference} failed: ${error.message}`,
+      );
+      await this.releaseWalletLegs(order, walletRecords, error.message);
+      walletRecords.forEach((record) => {
+        record.status = PaymentStatus.FAILED;
+      });
+      order.paymentHistory.push(...walletRecords, {
+        amount: gatewayLeg.amount,
+        paymentMethod: gatewayLeg.paymentMethod,
+        status: PaymentStatus.FAILED,
+        paymentDate: new Date(),
+        splitReference,
+        notes: error.message,
+      });
+      await order.save();
+      await this.releaseClaim(order, splitReference);
+      throw error;
+    }
+
+    const gatewayRecord: PaymentHistory = {
+      amount: gatewayLeg.amount,
+      paymentMethod: gatewayLeg.paymentMethod,
+      status: PaymentStatus.PENDING,
+      paymentDate: new Date(),
+      transactionRef: gatewayResponse.reference,
+      splitReference,
+      notes: splitPaymentDto.notes,
+    };
+
+    order.paymentHistory.push(...walletRecords, gatewayRecord);
+    await order.save();
+
+    return {
+      message:
+        'Wallet tenders reserved; complete the remaining payment with the gateway',
+      splitReference,
+      authorizationUrl: gatewayResponse.authorizationUrl,
+      paymentRecords: [...walletRecords, gatewayRecord],
+      order: this.summarizeOrder(order),
+    };
+  }
+
+  /**
+   * The gateway leg was paid: settle it together with the reserved wallet legs
+   */
+  async handleGatewayPaymentCompleted(
+    orderId: string,
+    reference: string,
+  ): Promise<void> {
+    const order = await this.findOrderWithPendingLeg(orderId, reference);
+    if (!order) {
+      return;
+    }
+
+    const legs = this.findPendingLegs(
+      order,
+      this.findLeg(order, reference).splitReference,
+    );
+    legs.forEach((leg) => {
+      leg.status = PaymentStatus.COMPLETED;
+    });
+    order.markModified('paymentHistory');
+
+    await this.ordersService.applySettledPayment(order, this.sumLegs(legs));
+    this.logger.log(`Split payment settled for order ${order.orderNumber}`);
+  }
+
+  /**
+   * The gateway leg failed: give the reserved wallet legs back
+   */
+  async handleGatewayPaymentFailed(
+    orderId: string,
+    reference: string,
+    reason?: string,
+  ): Promise<void> {
+    const order = await this.findOrderWithPendingLeg(orderId, reference);
+    if (!order) {
+      return;
+    }
+
+    const legs = this.findPendingLegs(
+      order,
+      this.findLeg(order, reference).splitReference,
+    );
+    await this.releaseWalletLegs(
+      order,
+      legs.filter((leg) => WALLET_TENDERS[leg.paymentMethod]),
+      reason || 'Card payment failed',
+    );
+    legs.forEach((leg) => {
+      leg.status = PaymentStatus.FAILED;
+    });
+    order.markModified('paymentHistory');
+
+    await order.save();
+    this.logger.log(`Split payment released for order ${order.orderNumber}`);
+  }
+
+  /**
+   * Give back the wallet legs of split payments whose gateway leg was never
+   * paid or failed within the hold
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async releaseExpiredSplitPayments(): Promise<number> {
+    const lapsed = await this.orderModel
+      .find({ pendingSplitExpiresAt: { $lte: new Date() } })
+      .limit(SPLIT_TENDER_CONFIG.EXPIRY_BATCH_SIZE);
+
+    let released = 0;
+    for (const candidate of lapsed) {
+      try {
+        const splitReference = candidate.pendingSplitReference;
+        const order = await this.settleClaim(candidate, splitReference);
+        if (!order) {
+          continue; // Settled by the gateway in the meantime
+        }
+
+        const legs = this.findPendingLegs(order, splitReference);
+        await this.releaseWalletLegs(
+          order,
+          legs.filter((leg) => WALLET_TENDERS[leg.paymentMethod]),
+          'Card payment was not completed in time',
+        );
+        legs.forEach((leg) => {
+          leg.status = PaymentStatus.FAILED;
+        });
+        order.markModified('paymentHistory');
+
+        await order.save();
+        released++;
+      } catch (error) {
+        this.logger.error(
+          `Error releasing split payment for order ${candidate._id}: ${error.message}`,
+        );
+      }
+    }
+
+    if (released > 0) {
+      this.logger.log(`Released ${released} expired split payments`);
+    }
+    return released;
+  }
+
+  /**
+   * Work out how much each tender pays, in the order given. Wallet tenders
+   * take what they can up to their cap; a gateway tender pays the rest.
+   */
+  private async planLegs(
+    order: OrderDocument,
+    payerId: string,
+    tenders: PaymentTenderDto[],
+  ): Promise<TenderLeg[]> {
+    const methods = tenders.map((tender) => tender.paymentMethod);
+    if (new Set(methods).size !== methods.length) {
+      throw new BadRequestException(
+        'Each payment method can only be used once',
+      );
+    }
+
+    tenders.forEach((tender, index) => {
+      const isWallet = !!WALLET_TENDERS[tender.paymentMethod];
+      const isGateway = !!GATEWAY_TENDERS[tender.paymentMethod];
+      if (!isWallet && !isGateway) {
+        throw new BadRequestException(
+          `${tender.paymentMethod} cannot be used in a split payment`,
+        );
+      }
+      if (isGateway && index !== tenders.length - 1) {
+        throw new BadRequestException(
+          'A card or bank transfer tender must be the last tender',
+        );
+      }
+    });
+
+    const needsWallet = tenders.some(
+      (tender) => WALLET_TENDERS[tender.paymentMethod],
+    );
+    const wallet = needsWallet
+      ? await this.walletModel.findOne({ userId: new Types.ObjectId(payerId) })
+      : null;
+    if (needsWallet && !wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    const legs: TenderLeg[] = [];
+    let remaining = order.remainingAmount;
+
+    for (const tender of tenders) {
+      if (remaining <= 0) {
+        break;
+      }
+
+      const cap = Math.min(remaining, tender.amount ?? remaining);
+      const walletType = WALLET_TENDERS[tender.paymentMethod];
+
+      if (!walletType) {
+        legs.push({
+          paymentMethod: tender.paymentMethod,
+          amount: this.round(cap),
+        });
+        remaining -= cap;
+        continue;
+      }
+
+      // Round the balance down so a leg never asks for more than the wallet holds
+      const available =
+        Math.floor(this.toNaira(walletType, wallet[walletType]) * 100) / 100;
+      const amount = this.round(Math.min(cap, available));
+      if (amount <= 0) {
+        continue;
+      }
+
+      legs.push({
+        paymentMethod: tender.paymentMethod,
+        amount,
+        walletType,
+        walletAmount: this.fromNaira(walletType, amount),
+      });
+      remaining -= amount;
+    }
+
+    if (this.round(remaining) > 0) {
+      throw new BadRequestException(
+        `Tenders do not cover the order. Remaining: ${this.round(remaining)}`,
+      );
+    }
+
+    return legs;
+  }
+
+  private async releaseWalletLegs(
+    order: OrderDocument,
+    walletRecords: PaymentHistory[],
+    reason: string,
+  ): Promise<void> {
+    for (const record of walletRecords) {
+      const walletType = WALLET_TENDERS[record.paymentMethod];
+      await this.walletsService.refundToWallet(
+        order.userId.toString(),
+        walletType,
+        this.fromNaira(walletType, record.amount),
+        `Released from order ${order.orderNumber}: ${reason}`,
+        {
+          transactionType: LedgerTransactionType.REFUND,
+          counterAccount: LedgerAccount.SYSTEM_REVENUE,
+          reference: {
+            type: LedgerReferenceType.ORDER,
+            id: order._id.toString(),
+          },
+          metadata: { originalTransactionId: record.transactionRef },
+        },
+      );
+    }
+  }
+
+  private async findOrderWithPendingLeg(
+    orderId: string,
+    reference: string,
+  ): Promise<OrderDocument | null> {
+    if (!orderId || !reference || !Types.ObjectId.isValid(orderId)) {
+      return null;
+    }
+
+    const order = await this.orderModel.findById(orderId);
+    const leg = order && this.findLeg(order, reference);
+
+    // Payments outside a split, or legs already settled, are not ours to handle
+    if (!leg?.splitReference || leg.status !== PaymentStatus.PENDING) {
+      return null;
+    }
+    return this.settleClaim(order, leg.splitReference);
+  }
+
+  /**
+   * Take the order for one split payment. Fails while another split payment
+   * on it is waiting for its gateway leg
+   */
+  private async claimOrder(
+    order: OrderDocument,
+    splitReference: string,
+  ): Promise<boolean> {
+    const expiresAt = new Date(
+      Date.now() + SPLIT_TENDER_CONFIG.HOLD_MINUTES * 60 * 1000,
+    );
+    const claimed = await this.orderModel.findOneAndUpdate(
+      { _id: order._id, pendingSplitReference: { $exists: false } },
+      {
+        $set: {
+          pendingSplitReference: splitReference,
+          pendingSplitExpiresAt: expiresAt,
+        },
+      },
+    );
+    return !!claimed;
+  }
+
+  private async releaseClaim(
+    order: OrderDocument,
+    splitReference: string,
+  ): Promise<void> {
+    await this.orderModel.updateOne(
+      { _id: order._id, pendingSplitReference: splitReference },
+      { $unset: { pendingSplitReference: 1, pendingSplitExpiresAt: 1 } },
+    );
+  }
+
+  /**
+   * End the claim of a split payment that is waiting for its gateway leg.
+   * Only one of the gateway outcome and the expiry sweep gets the order
+   */
+  private async settleClaim(
+    order: OrderDocument,
+    splitReference: string,
+  ): Promise<OrderDocument | null> {
+    return this.orderModel.findOneAndUpdate(
+      { _id: order._id, pendingSplitReference: splitReference },
+      { $unset: { pendingSplitReference: 1, pendingSplitExpiresAt: 1 } },
+      { new: true },
+    );
+  }
+
+  private findLeg(
+    order: OrderDocument,
+    reference: string,
+  ): PaymentHistory | undefined {
+    return order.paymentHistory.find(
+      (record) => record.transactionRef === reference,
+    );
+  }
+
+  private findPendingLegs(
+    order: OrderDocument,
+    splitReference?: string,
+  ): PaymentHistory[] {
+    return order.paymentHistory.filter(
+      (record) =>
+        record.splitReference &&
+        record.status === PaymentStatus.PENDING &&
+        (!splitReference || record.splitReference === splitReference),
+    );
+  }
+
+  private sumLegs(records: PaymentHistory[]): number {
+    return this.round(records.reduce((sum, record) => sum + record.amount, 0));
+  }
+
+  private summarizeOrder(order: OrderDocument) {
+    return {
+      orderNumber: order.orderNumber,
+      amountPaid: order.amountPaid,
+      remainingAmount: order.remainingAmount,
+      status: order.status,
+    };
+  }
+
+  private toNaira(walletType: WalletType, walletAmount: number): number {
+    return walletType === WalletType.FOOD_POINTS
+      ? walletAmount / this.ngnToNibiaRate
+      : walletAmount;
+  }
+
+  private fromNaira(walletType: WalletType, amount: number): number {
+    return walletType === WalletType.FOOD_POINTS
+      ? this.round(amount * this.ngnToNibiaRate)
+      : amount;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private generateSplitReference(): string {
+    const random = Math.random().toString(36).substring(2, 8).toUpperCase();
+    return `SPLIT_${Date.now()}_${random}`;
+  }
+}
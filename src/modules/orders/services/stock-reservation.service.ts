@@ -0,0 +1,627 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import {
+  StockReservation,
+  StockReservationDocument,
+  ReservationStatus,
+} from '../entities/stock-reservation.entity';
+import {
+  Order,
+  OrderDocument,
+  OrderStatus,
+  PaymentPlan,
+} from '../entities/order.entity';
+import {
+  Product,
+  ProductDocument,
+} from '../../products/entities/product.entity';
+import { PromotionsService } from '../../promotions/promotions.service';
+import { SubOrdersService } from './sub-orders.service';
+import { StoreInventoryService } from '../../stores/services/store-inventory.service';
+import { PickupSlotsService } from '../../stores/services/pickup-slots.service';
+import { DeliverySlotsService } from '../../delivery-slots/delivery-slots.service';
+import { InventoryService } from '../../products/services/inventory.service';
+import { InventoryMovementType } from '../../products/entities/inventory-movement.entity';
+import { PaymentService } from '../../payments/services/payment.service';
+import { STOCK_RESERVATION_CONFIG, ORDER_ERROR_MESSAGES } from '../constants';
+import { ProductVariants } from '../../products/helpers';
+
+export interface StockItem {
+  productId: Types.ObjectId | string;
+  variantId?: Types.ObjectId | string;
+  quantity: number;
+}
+
+export interface HeldStock {
+  items: StockItem[];
+  storeId?: Types.ObjectId;
+}
+
+/**
+ * Holds stock for orders between checkout and payment. Stock leaves
+ * Product.stock when the hold is placed and only comes back if the hold
+ * expires or the order is cancelled, so two customers can never buy the
+ * same unit. Every change to Product.stock is a conditional $inc, recorded
+ * as a sale against the order in the inventory journal. Orders filled from
+ * a store take the store's stock too, and give back their pickup slot when
+ * cancelled.
+ */
+@Injectable()
+export class StockReservationService {
+  private readonly logger = new Logger(StockReservationService.name);
+
+  constructor(
+    @InjectModel(StockReservation.name)
+    private reservationModel: Model<StockReservationDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    private readonly promotionsService: PromotionsService,
+    @Inject(forwardRef(() => SubOrdersService))
+    private readonly subOrdersService: SubOrdersService,
+    private readonly storeInventoryService: StoreInventoryService,
+    private readonly pickupSlotsService: PickupSlotsService,
+    private readonly deliverySlotsService: DeliverySlotsService,
+    private readonly inventoryService: InventoryService,
+    private readonly paymentService: PaymentService,
+  ) {}
+
+  /**
+   * When an order's hold should run out, from its payment plan
+   */
+  calculateExpiry(order: {
+    paymentPlan: PaymentPlan;
+    scheduledDeliveryDate?: Date;
+    paymentDueDate?: Date;
+    paymentSchedule?: { finalPaymentDate: Date };
+  }): Date {
+    const now = Date.now();
+    const graceMs =
+      STOCK_RESERVATION_CONFIG.SCHEDULED_PLAN_GRACE_DAYS * 24 * 60 * 60 * 1000;
+
+    switch (order.paymentPlan) {
+      case PaymentPlan.PRICE_LOCK:
+        if (order.scheduledDeliveryDate) {
+          return new Date(
+            new Date(order.scheduledDeliveryDate).getTime() + graceMs,
+          );
+        }
+        break;
+
+      case PaymentPlan.PAY_SMALL_SMALL:
+        if (order.paymentSchedule?.finalPaymentDate) {
+          return new Date(
+            new Date(order.paymentSchedule.finalPaymentDate).getTime() +
+              graceMs,
+          );
+        }
+        break;
+
+      case PaymentPlan.PAY_LATER:
+        if (order.paymentDueDate) {
+          return new Date(new Date(order.paymentDueDate).getTime() + graceMs);
+        }
+        return new Date(
+          now + STOCK_RESERVATION_CONFIG.PAY_LATER_HOLD_HOURS * 60 * 60 * 1000,
+        );
+    }
+
+    return new Date(
+      now + STOCK_RESERVATION_CONFIG.PAY_NOW_HOLD_MINUTES * 60 * 1000,
+    );
+  }
+
+  /**
+   * Take the order's items out of stock, and out of the store's stock when
+   * given, and record the hold. Nothing is held if any item is short.
+   */
+  async reserve(
+    orderId: string,
+    userId: string,
+    items: StockItem[],
+    expiresAt: Date,
+    storeId?: Types.ObjectId | string,
+  ): Promise<StockReservationDocument> {
+    await this.takeStock(items, storeId, orderId);
+
+    try {
+      const reservation = await this.reservationModel.create({
+        orderId: new Types.ObjectId(orderId),
+        userId: new Types.ObjectId(userId),
+        storeId: storeId && new Types.ObjectId(storeId.toString()),
+        items: this.toReservedItems(items),
+        status: ReservationStatus.ACTIVE,
+        expiresAt,
+      });
+
+      this.logger.log(
+        `Reserved stock for order ${orderId} until ${expiresAt.toISOString()}`,
+      );
+      return reservation;
+    } catch (error) {
+      await this.returnStock(items, storeId, orderId);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark the order's stock as sold once it is paid. Safe to call more than
+   * once. If the hold already lapsed the stock is taken again when available.
+   */
+  async commit(
+    order: Pick<OrderDocument, '_id' | 'userId' | 'items'>,
+  ): Promise<boolean> {
+    const orderId = new Types.ObjectId(order._id.toString());
+
+    const committed = await this.reservationModel.findOneAndUpdate(
+      { orderId, status: ReservationStatus.ACTIVE },
+      { status: ReservationStatus.COMMITTED, committedAt: new Date() },
+      { new: true },
+    );
+    if (committed) {
+      return true;
+    }
+
+    const existing = await this.reservationModel.findOne({ orderId });
+    if (existing?.status === ReservationStatus.COMMITTED) {
+      return true;
+    }
+
+    // Paid after the hold lapsed, or placed before holds existed
+    try {
+      await this.takeStock(
+        order.items,
+        existing?.storeId,
+        orderId.toString(),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Order ${orderId} was paid but its stock is no longer available: ${error.message}`,
+      );
+      return false;
+    }
+
+    await this.reservationModel.updateOne(
+      { orderId },
+      {
+        $set: {
+          userId: order.userId,
+          items: this.toReservedItems(order.items),
+          status: ReservationStatus.COMMITTED,
+          committedAt: new Date(),
+          expiresAt: new Date(),
+        },
+        $unset: { releasedAt: 1, releaseReason: 1 },
+      },
+      { upsert: true },
+    );
+    return true;
+  }
+
+  /**
+   * Return the order's held or sold stock and its pickup or delivery slot,
+   * e.g. on cancellation. Orders placed before holds existed had stock taken
+   * on payment; pass their items as legacyItems to put it back.
+   */
+  async release(
+    orderId: string,
+    reason: string,
+    legacyItems?: StockItem[],
+  ): Promise<boolean> {
+    await this.pickupSlotsService.release(orderId);
+    await this.deliverySlotsService.release(orderId);
+
+    const reservation = await this.reservationModel.findOneAndUpdate(
+      {
+        orderId: new Types.ObjectId(orderId),
+        status: {
+          $in: [ReservationStatus.ACTIVE, ReservationStatus.COMMITTED],
+        },
+      },
+      {
+        status: ReservationStatus.RELEASED,
+        releasedAt: new Date(),
+        releaseReason: reason,
+      },
+      { new: true },
+    );
+
+    if (reservation) {
+      await this.returnStock(reservation.items, reservation.storeId, orderId);
+      this.logger.log(`Released stock for order ${orderId}: ${reason}`);
+      return true;
+    }
+
+    if (
+      legacyItems?.length &&
+      !(await this.reservationModel.exists({
+        orderId: new Types.ObjectId(orderId),
+      }))
+    ) {
+      await this.returnStock(legacyItems, undefined, orderId);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Swap items on an order's held or sold stock, e.g. when an out-of-stock
+   * line is substituted or dropped. The added items are taken first, so
+   * nothing changes if they are short. Orders without a hold are left alone;
+   * their stock is taken from the order's items when paid.
+   */
+  async swapItems(orderId: string, removed: StockItem[], added: StockItem[]): Promise<void> {
+    const reservation = await this.reservationModel.findOne({
+      orderId: new Types.ObjectId(orderId),
+      status: { $in: [ReservationStatus.ACTIVE, ReservationStatus.COMMITTED] },
+    });
+    if (!reservation) {
+      return;
+    }
+
+    await this.takeStock(added, reservation.storeId, orderId);
+    await this.returnStock(removed, reservation.storeId, orderId);
+
+    const quantities = this.sumQuantities([
+      [reservation.items, 1],
+      [removed, -1],
+      [added, 1],
+    ]);
+    const items = this.toReservedItems(
+      quantities.filter((item) => item.quantity > 0),
+    );
+
+    await this.reservationModel.updateOne({ _id: reservation._id }, { items });
+  }
+
+  /**
+   * Move an order's held or sold stock to a new set of items, and to a new
+   * store when it is now filled from another one. Only the difference in
+   * quantities is taken or returned. Returns the hold as it was, so the
+   * change can be undone, or null if the order has no hold.
+   */
+  async adjust(
+    orderId: string,
+    items: StockItem[],
+    storeId?: Types.ObjectId | string,
+  ): Promise<HeldStock | null> {
+    const reservation = await this.reservationModel.findOne({
+      orderId: new Types.ObjectId(orderId),
+      status: { $in: [ReservationStatus.ACTIVE, ReservationStatus.COMMITTED] },
+    });
+    if (!reservation) {
+      return null;
+    }
+
+    const previous: HeldStock = {
+      items: this.toReservedItems(reservation.items),
+      storeId: reservation.storeId,
+    };
+    const quantities = this.sumQuantities([
+      [items, 1],
+      [reservation.items, -1],
+    ]);
+    const added = quantities.filter((item) => item.quantity > 0);
+    const removed = quantities
+      .filter((item) => item.quantity < 0)
+      .map((item) => ({ ...item, quantity: -item.quantity }));
+
+    if (previous.storeId?.toString() === storeId?.toString()) {
+      await this.takeStock(added, storeId, orderId);
+      await this.returnStock(removed, storeId, orderId);
+    } else {
+      // The new store gives every unit and the old one gets its units back
+      if (storeId) {
+        await this.storeInventoryService.take(storeId, items);
+      }
+      try {
+        await this.takeStock(added, undefined, orderId);
+      } catch (error) {
+        if (storeId) {
+          await this.storeInventoryService.restore(storeId, items);
+        }
+        throw error;
+      }
+      await this.returnStock(removed, undefined, orderId);
+      if (previous.storeId) {
+        await this.storeInventoryService.restore(
+          previous.storeId,
+          previous.items,
+        );
+      }
+    }
+
+    await this.reservationModel.updateOne(
+      { _id: reservation._id },
+      storeId
+        ? {
+            $set: {
+              items: this.toReservedItems(items),
+              storeId: new Types.ObjectId(storeId.toString()),
+            },
+          }
+        : {
+            $set: { items: this.toReservedItems(items) },
+            $unset: { storeId: 1 },
+          },
+    );
+
+    this.logger.log(`Adjusted held stock for order ${orderId}`);
+    return previous;
+  }
+
+  /**
+   * The order's held or sold stock and the store it comes from
+   */
+  async findHeld(orderId: string): Promise<HeldStock | null> {
+    const reservation = await this.reservationModel
+      .findOne({
+        orderId: new Types.ObjectId(orderId),
+        status: {
+          $in: [ReservationStatus.ACTIVE, ReservationStatus.COMMITTED],
+        },
+      })
+      .lean();
+    return (
+      reservation && {
+        items: this.toReservedItems(reservation.items),
+        storeId: reservation.storeId,
+      }
+    );
+  }
+
+  /**
+   * Whether the order's stock is held or sold
+   */
+  async isHeld(orderId: string): Promise<boolean> {
+    const reservation = await this.reservationModel.exists({
+      orderId: new Types.ObjectId(orderId),
+      status: { $in: [ReservationStatus.ACTIVE, ReservationStatus.COMMITTED] },
+    });
+    return !!reservation;
+  }
+
+  /**
+   * Return stock from lapsed holds. Unpaid orders are cancelled; orders with
+   * part payments stay open and take stock again when fully paid. Holds of
+   * orders with a payment still in flight wait for it to settle or lapse.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async expireReservations(): Promise<number> {
+    const now = new Date();
+    const lapsed = await this.reservationModel
+      .find({ status: ReservationStatus.ACTIVE, expiresAt: { $lte: now } })
+      .limit(STOCK_RESERVATION_CONFIG.EXPIRY_BATCH_SIZE);
+
+    let expired = 0;
+    for (const candidate of lapsed) {
+      try {
+        if (await this.isPaymentInFlight(candidate.orderId)) {
+          continue;
+        }
+
+        const reservation = await this.reservationModel.findOneAndUpdate(
+          { _id: candidate._id, status: ReservationStatus.ACTIVE },
+          {
+            status: ReservationStatus.EXPIRED,
+            releasedAt: now,
+            releaseReason: ORDER_ERROR_MESSAGES.PAYMENT_WINDOW_EXPIRED,
+          },
+          { new: true },
+        );
+        if (!reservation) {
+          continue; // Paid or cancelled in the meantime
+        }
+
+        await this.returnStock(
+          reservation.items,
+          reservation.storeId,
+          reservation.orderId.toString(),
+        );
+        await this.cancelUnpaidOrder(reservation.orderId);
+        expired++;
+      } catch (error) {
+        this.logger.error(
+          `Error expiring stock reservation ${candidate._id}: ${error.message}`,
+        );
+      }
+    }
+
+    if (expired > 0) {
+      this.logger.log(`Released stock from ${expired} expired reservations`);
+    }
+    return expired;
+  }
+
+  /**
+   * A split payment holding the order or a pending gateway payment can still
+   * pay for it
+   */
+  private async isPaymentInFlight(orderId: Types.ObjectId): Promise<boolean> {
+    const claimed = await this.orderModel.exists({
+      _id: orderId,
+      pendingSplitReference: { $exists: true },
+    });
+    return (
+      !!claimed || this.paymentService.hasPendingPayment(orderId.toString())
+    );
+  }
+
+  private async cancelUnpaidOrder(orderId: Types.ObjectId): Promise<void> {
+    const order = await this.orderModel.findOneAndUpdate(
+      { _id: orderId, status: OrderStatus.PENDING, amountPaid: 0 },
+      {
+        $set: {
+          status: OrderStatus.CANCELLED,
+          cancellationReason: ORDER_ERROR_MESSAGES.PAYMENT_WINDOW_EXPIRED,
+        },
+        $push: {
+          statusHistory: {
+            status: OrderStatus.CANCELLED,
+            timestamp: new Date(),
+            reason: ORDER_ERROR_MESSAGES.PAYMENT_WINDOW_EXPIRED,
+            updatedBy: 'system',
+          },
+        },
+      },
+      { new: true },
+    );
+    if (!order) {
+      return;
+    }
+
+    await this.subOrdersService.syncWithParent(
+      orderId.toString(),
+      OrderStatus.CANCELLED,
+    );
+    await this.pickupSlotsService.release(orderId.toString());
+    await this.deliverySlotsService.release(orderId.toString());
+    if (order.promotion) {
+      await this.promotionsService.releaseRedemption(orderId.toString());
+    }
+  }
+
+  /**
+   * Decrement stock item by item, each only if enough is left, undoing the
+   * items already taken if one falls short. The store's units go first.
+   * Stock taken for an order is recorded once every item is taken.
+   */
+  private async takeStock(
+    items: StockItem[],
+    storeId?: Types.ObjectId | string,
+    orderId?: string,
+  ): Promise<void> {
+    if (storeId) {
+      await this.storeInventoryService.take(storeId, items);
+    }
+
+    const taken: StockItem[] = [];
+
+    for (const item of items) {
+      const result = await this.productModel.updateOne(
+        this.stockFilter(item, item.quantity),
+        this.stockChange(item, -item.quantity),
+      );
+
+      if (result.modifiedCount === 0) {
+        await this.returnStock(taken);
+        if (storeId) {
+          await this.storeInventoryService.restore(storeId, items);
+        }
+        const product = await this.productModel
+          .findById(item.productId)
+          .select('name')
+          .lean();
+        throw new BadRequestException(
+          `${ORDER_ERROR_MESSAGES.INSUFFICIENT_STOCK} ${product?.name || item.productId.toString()}`,
+        );
+      }
+      taken.push(item);
+    }
+
+    if (orderId) {
+      await this.recordSale(items, -1, orderId);
+    }
+  }
+
+  private async returnStock(
+    items: StockItem[],
+    storeId?: Types.ObjectId | string,
+    orderId?: string,
+  ): Promise<void> {
+    if (storeId) {
+      await this.storeInventoryService.restore(storeId, items);
+    }
+
+    for (const item of items) {
+      await this.productModel.updateOne(
+        this.stockFilter(item),
+        this.stockChange(item, item.quantity),
+      );
+    }
+
+    if (orderId) {
+      await this.recordSale(items, 1, orderId);
+    }
+  }
+
+  // Stock sold on an order is negative; stock given back is positive
+  private async recordSale(
+    items: StockItem[],
+    sign: 1 | -1,
+    orderId: string,
+  ): Promise<void> {
+    for (const item of items) {
+      await this.inventoryService.record({
+        productId: item.productId,
+        variantId: item.variantId,
+        type: InventoryMovementType.SALE,
+        quantity: sign * item.quantity,
+        reference: orderId,
+      });
+    }
+  }
+
+  // Packs keep their own stock; the product's stock is the total of its
+  // packs, so both move together. Taking stock needs at least that much
+  // left; returning it does not.
+  private stockFilter(item: StockItem, atLeast?: number) {
+    const productId = new Types.ObjectId(item.productId.toString());
+    if (!item.variantId) {
+      return atLeast === undefined
+        ? { _id: productId }
+        : { _id: productId, stock: { $gte: atLeast } };
+    }
+    const variantId = new Types.ObjectId(item.variantId.toString());
+    return atLeast === undefined
+      ? { _id: productId, 'variants._id': variantId }
+      : {
+          _id: productId,
+          variants: {
+            $elemMatch: { _id: variantId, stock: { $gte: atLeast } },
+          },
+        };
+  }
+
+  private stockChange(item: StockItem, delta: number) {
+    return item.variantId
+      ? { $inc: { 'variants.$.stock': delta, stock: delta } }
+      : { $inc: { stock: delta } };
+  }
+
+  // Net quantity per product and pack across signed lists of items
+  private sumQuantities(lists: [StockItem[], number][]): StockItem[] {
+    const quantities = new Map<string, StockItem>();
+    for (const [items, sign] of lists) {
+      for (const item of items) {
+        const key = ProductVariants.key(item.productId, item.variantId);
+        const entry = quantities.get(key) || {
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: 0,
+        };
+        entry.quantity += sign * item.quantity;
+        quantities.set(key, entry);
+      }
+    }
+    return Array.from(quantities.values());
+  }
+
+  private toReservedItems(items: StockItem[]) {
+    return items.map((item) => ({
+      productId: new Types.ObjectId(item.productId.toString()),
+      ...(item.variantId && {
+        variantId: new Types.ObjectId(item.variantId.toString()),
+      }),
+      quantity: item.quantity,
+    }));
+  }
+}
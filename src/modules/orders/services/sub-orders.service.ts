@@ -0,0 +1,576 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  SubOrder,
+  SubOrderDocument,
+  SubOrderStatus,
+} from '../entities/sub-order.entity';
+import {
+  Order,
+  OrderDocument,
+  OrderStatus,
+  CartItem,
+} from '../entities/order.entity';
+import {
+  Product,
+  ProductDocument,
+} from '../../products/entities/product.entity';
+import { UserRole } from '../../users/entities/user.entity';
+import { OrdersService } from '../orders.service';
+import { SettlementsService } from '../../settlements/settlements.service';
+import { UpdateSubOrderStatusDto, SubOrderFilterDto } from '../dto';
+import { SUB_ORDER_STATUS_FLOW, ORDER_ERROR_MESSAGES } from '../constants';
+
+interface SellerShare {
+  sellerId?: Types.ObjectId;
+  items: CartItem[];
+  subtotal: number;
+  discountAmount: number;
+  deliveryFee: number;
+  total: number;
+  commissionRate: number;
+  commissionAmount: number;
+  sellerPayout: number;
+}
+
+// How far along fulfilment each status is; sync never moves a sub-order back
+const FULFILMENT_RANK: Record<SubOrderStatus, number> = {
+  [SubOrderStatus.PENDING]: 0,
+  [SubOrderStatus.CONFIRMED]: 1,
+  [SubOrderStatus.PREPARING]: 2,
+  [SubOrderStatus.READY]: 3,
+  [SubOrderStatus.SHIPPED]: 4,
+  [SubOrderStatus.DELIVERED]: 5,
+  [SubOrderStatus.CANCELLED]: 6,
+};
+
+const SELLER_STATUSES = [SubOrderStatus.PREPARING, SubOrderStatus.READY];
+
+/**
+ * Splits each order into one sub-order per seller. The customer pays the
+ * parent order; sub-orders are fulfilled and delivered separately, and the
+ * parent ships and is delivered once all of its sub-orders are.
+ */
+@Injectable()
+export class SubOrdersService {
+  private readonly logger = new Logger(SubOrdersService.name);
+
+  constructor(
+    @InjectModel(SubOrder.name) private subOrderModel: Model<SubOrderDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @Inject(forwardRef(() => OrdersService))
+    private ordersService: OrdersService,
+    private settlementsService: SettlementsService,
+  ) {}
+
+  /**
+   * Create the sub-orders for a newly placed order
+   */
+  async splitOrder(order: OrderDocument): Promise<SubOrderDocument[]> {
+    const shares = await this.buildShares(order);
+    if (shares.length > 1) {
+      this.logger.log(
+        `Split order ${order.orderNumber} into ${shares.length} sub-orders`,
+      );
+    }
+
+    return this.subOrderModel.create(
+      shares.map((share, index) =>
+        this.newSubOrder(order, share, index + 1, SubOrderStatus.PENDING),
+      ),
+    );
+  }
+
+  /**
+   * Regroup sub-orders after the parent's items changed. Sellers whose items
+   * are gone have their sub-order cancelled; new sellers get a sub-order.
+   */
+  async resyncItems(order: OrderDocument): Promise<void> {
+    const subOrders = await this.subOrderModel.find({
+      parentOrderId: order._id,
+    });
+    if (subOrders.length === 0) {
+      return; // Placed before orders were split
+    }
+
+    const shares = await this.buildShares(order);
+    const status =
+      order.status === OrderStatus.PENDING
+        ? SubOrderStatus.PENDING
+        : SubOrderStatus.CONFIRMED;
+    const kept = new Set<string>();
+    let nextNumber = subOrders.length + 1;
+
+    for (const share of shares) {
+      const existing = subOrders.find(
+        (subOrder) =>
+          subOrder.status !== SubOrderStatus.CANCELLED &&
+          this.sellerKey(subOrder.sellerId) === this.sellerKey(share.sellerId),
+      );
+
+      if (existing) {
+        Object.assign(existing, share);
+        await existing.save();
+        kept.add(existing._id.toString());
+      } else {
+        await this.subOrderModel.create(
+          this.newSubOrder(order, share, nextNumber++, status),
+        );
+      }
+    }
+
+    for (const subOrder of subOrders) {
+      if (
+        kept.has(subOrder._id.toString()) ||
+        subOrder.status === SubOrderStatus.CANCELLED
+      ) {
+        continue;
+      }
+
+      Object.assign(subOrder, {
+        items: [],
+        subtotal: 0,
+        discountAmount: 0,
+        deliveryFee: 0,
+        total: 0,
+        commissionAmount: 0,
+        sellerPayout: 0,
+      });
+      this.pushStatus(
+        subOrder,
+        SubOrderStatus.CANCELLED,
+        'All items removed from the order',
+        'system',
+      );
+      await subOrder.save();
+    }
+  }
+
+  /**
+   * Carry a parent status change down to its sub-orders. Sub-orders never
+   * move backwards, and ones already past the new status are left alone.
+   */
+  async syncWithParent(
+    orderId: string,
+    parentStatus: OrderStatus,
+    updatedBy = 'system',
+  ): Promise<void> {
+    const targets: Partial<Record<OrderStatus, SubOrderStatus>> = {
+      [OrderStatus.PAID]: SubOrderStatus.CONFIRMED,
+      [OrderStatus.SHIPPED]: SubOrderStatus.SHIPPED,
+      [OrderStatus.DELIVERED]: SubOrderStatus.DELIVERED,
+      [OrderStatus.CANCELLED]: SubOrderStatus.CANCELLED,
+    };
+    const target = targets[parentStatus];
+    if (!target) {
+      return;
+    }
+
+    const behind = Object.values(SubOrderStatus).filter(
+      (status) =>
+        FULFILMENT_RANK[status] < FULFILMENT_RANK[target] &&
+        // Delivered items stay delivered if the rest is cancelled
+        !(
+          target === SubOrderStatus.CANCELLED &&
+          status === SubOrderStatus.DELIVERED
+        ),
+    );
+
+    const update: any = {
+      $set: { status: target },
+      $push: {
+        statusHistory: {
+          status: target,
+          timestamp: new Date(),
+          reason: `Order ${parentStatus}`,
+          updatedBy,
+        },
+      },
+    };
+    if (target === SubOrderStatus.DELIVERED) {
+      update.$set.deliveredAt = new Date();
+    }
+
+    await this.subOrderModel.updateMany(
+      { parentOrderId: new Types.ObjectId(orderId), status: { $in: behind } },
+      update,
+    );
+
+    if (target === SubOrderStatus.DELIVERED) {
+      await this.settlementsService.accrueDeliveredSubOrders(orderId);
+    }
+  }
+
+  /**
+   * Sub-orders of an order that has more than one; empty if the order ships
+   * as a whole
+   */
+  async findSplitSubOrders(orderId: string): Promise<SubOrderDocument[]> {
+    const subOrders = await this.subOrderModel.find({
+      parentOrderId: new Types.ObjectId(orderId),
+      status: { $ne: SubOrderStatus.CANCELLED },
+    });
+    return subOrders.length > 1 ? subOrders : [];
+  }
+
+  async findByParent(
+    orderId: string,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<SubOrderDocument[]> {
+    const order = await this.orderModel.findById(orderId).select('userId');
+    if (!order) {
+      throw new NotFoundException(ORDER_ERROR_MESSAGES.ORDER_NOT_FOUND);
+    }
+
+    const query: any = { parentOrderId: order._id };
+    if (userRole !== UserRole.ADMIN && order.userId.toString() !== userId) {
+      // Sellers only see their share of someone else's order
+      query.sellerId = new Types.ObjectId(userId);
+    }
+
+    return this.subOrderModel.find(query).sort({ subOrderNumber: 1 });
+  }
+
+  /**
+   * Sub-orders a seller has to fulfil
+   */
+  async findForSeller(sellerId: string, filterDto: SubOrderFilterDto) {
+    const { status, page = 1, limit = 10 } = filterDto;
+    const query: any = { sellerId: new Types.ObjectId(sellerId) };
+    if (status) {
+      query.status = status;
+    }
+
+    const [subOrders, total] = await Promise.all([
+      this.subOrderModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.subOrderModel.countDocuments(query),
+    ]);
+
+    return {
+      subOrders,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findOne(
+    id: string,
+    userId?: string,
+    userRole?: UserRole,
+  ): Promise<SubOrderDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException(ORDER_ERROR_MESSAGES.SUB_ORDER_NOT_FOUND);
+    }
+
+    const subOrder = await this.subOrderModel.findById(id);
+    if (!subOrder) {
+      throw new NotFoundException(ORDER_ERROR_MESSAGES.SUB_ORDER_NOT_FOUND);
+    }
+
+    if (
+      userId &&
+      userRole !== UserRole.ADMIN &&
+      subOrder.sellerId?.toString() !== userId &&
+      subOrder.userId.toString() !== userId
+    ) {
+      throw new ForbiddenException('You can only view your own sub-orders');
+    }
+
+    return subOrder;
+  }
+
+  /**
+   * Seller or admin moves a sub-order along its fulfilment flow
+   */
+  async updateStatus(
+    id: string,
+    updateStatusDto: UpdateSubOrderStatusDto,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<SubOrderDocument> {
+    const subOrder = await this.findOne(id);
+    const { status, notes } = updateStatusDto;
+
+    if (userRole !== UserRole.ADMIN) {
+      if (subOrder.sellerId?.toString() !== userId) {
+        throw new ForbiddenException(
+          'You can only update sub-orders for your own products',
+        );
+      }
+      if (!SELLER_STATUSES.includes(status)) {
+        throw new BadRequestException(
+          ORDER_ERROR_MESSAGES.SUB_ORDER_SELLER_STATUS,
+        );
+      }
+    }
+
+    const allowed: readonly string[] =
+      SUB_ORDER_STATUS_FLOW[subOrder.status.toUpperCase()] || [];
+    if (!allowed.includes(status.toUpperCase())) {
+      throw new BadRequestException(
+        `${ORDER_ERROR_MESSAGES.SUB_ORDER_INVALID_STATUS} from ${subOrder.status} to ${status}`,
+      );
+    }
+
+    await this.setStatus(
+      subOrder,
+      status,
+      notes || `Status changed to ${status}`,
+      userId,
+    );
+    return subOrder;
+  }
+
+  /**
+   * Move a sub-order on as its delivery progresses. Updates that would move
+   * it backwards are ignored.
+   */
+  async applyDeliveryStatus(
+    subOrderId: string,
+    status: SubOrderStatus.SHIPPED | SubOrderStatus.DELIVERED,
+    reason: string,
+    updatedBy = 'system',
+  ): Promise<void> {
+    const subOrder = await this.subOrderModel.findById(subOrderId);
+    if (
+      !subOrder ||
+      FULFILMENT_RANK[subOrder.status] >= FULFILMENT_RANK[status]
+    ) {
+      return;
+    }
+
+    await this.setStatus(subOrder, status, reason, updatedBy);
+  }
+
+  private async setStatus(
+    subOrder: SubOrderDocument,
+    status: SubOrderStatus,
+    reason: string,
+    updatedBy: string,
+  ): Promise<void> {
+    this.pushStatus(subOrder, status, reason, updatedBy);
+    if (status === SubOrderStatus.DELIVERED) {
+      subOrder.deliveredAt = new Date();
+    }
+    await subOrder.save();
+
+    if (status === SubOrderStatus.DELIVERED) {
+      await this.settlementsService.accrueSubOrder(subOrder);
+    }
+
+    await this.rollUp(subOrder.parentOrderId.toString(), updatedBy);
+  }
+
+  /**
+   * Ship the parent once every live sub-order has shipped, and deliver it
+   * once every one has been delivered
+   */
+  private async rollUp(orderId: string, updatedBy: string): Promise<void> {
+    const order = await this.orderModel.findById(orderId).select('status');
+    if (
+      !order ||
+      ![OrderStatus.PAID, OrderStatus.SHIPPED].includes(order.status)
+    ) {
+      return;
+    }
+
+    const subOrders = await this.subOrderModel
+      .find({
+        parentOrderId: order._id,
+        status: { $ne: SubOrderStatus.CANCELLED },
+      })
+      .select('status');
+    if (subOrders.length === 0) {
+      return;
+    }
+
+    const delivered = subOrders.every(
+      (subOrder) => subOrder.status === SubOrderStatus.DELIVERED,
+    );
+    const shipped = subOrders.every(
+      (subOrder) =>
+        FULFILMENT_RANK[subOrder.status] >=
+        FULFILMENT_RANK[SubOrderStatus.SHIPPED],
+    );
+
+    if (shipped && order.status === OrderStatus.PAID) {
+      await this.ordersService.updateOrderStatus(orderId, OrderStatus.SHIPPED, {
+        reason: 'All sub-orders shipped',
+        updatedBy,
+      });
+    }
+
+    if (delivered) {
+      await this.ordersService.updateOrderStatus(
+        orderId,
+        OrderStatus.DELIVERED,
+        { reason: 'All sub-orders delivered', updatedBy },
+      );
+      await this.orderModel.updateOne(
+        { _id: order._id },
+        { $set: { actualDeliveryDate: new Date() } },
+      );
+    }
+  }
+
+  /**
+   * Group the order's items by seller and share the delivery fee out by
+   * subtotal. Admin-managed products form one group with no seller.
+   */
+  private async buildShares(order: OrderDocument): Promise<SellerShare[]> {
+    const products = await this.productModel
+      .find({ _id: { $in: order.items.map((item) => item.productId) } })
+      .select('sellerId category')
+      .lean<
+        Pick<
+          Product & { _id: Types.ObjectId },
+          '_id' | 'sellerId' | 'category'
+        >[]
+      >();
+    const productsById = new Map(
+      products.map((product) => [product._id.toString(), product]),
+    );
+    const commissionFor = await this.settlementsService.loadCommissionResolver(
+      products
+        .map((product) => product.sellerId)
+        .filter((sellerId) => !!sellerId),
+    );
+
+    const groups = new Map<
+      string,
+      { sellerId?: Types.ObjectId; items: CartItem[] }
+    >();
+    for (const item of order.items) {
+      const sellerId = productsById.get(item.productId.toString())?.sellerId;
+      const key = this.sellerKey(sellerId);
+      if (!groups.has(key)) {
+        groups.set(key, { sellerId, items: [] });
+      }
+      groups.get(key).items.push(item);
+    }
+
+    // Delivery promos come off the fee before it is shared out
+    const deliveryFee = Math.max(
+      0,
+      (order.deliveryFee || 0) - (order.promotion?.deliveryDiscount || 0),
+    );
+    const orderSubtotal = order.items.reduce(
+      (sum, item) => sum + item.totalPrice,
+      0,
+    );
+    let feeLeft = deliveryFee;
+
+    return Array.from(groups.values()).map((group, index, all) => {
+      const subtotal = this.round(
+        group.items.reduce((sum, item) => sum + item.totalPrice, 0),
+      );
+      const discountAmount = this.round(
+        group.items.reduce((sum, item) => sum + (item.discountAmount || 0), 0),
+      );
+      const feeShare =
+        index === all.length - 1
+          ? this.round(feeLeft)
+          : this.round(
+              orderSubtotal > 0 ? (deliveryFee * subtotal) / orderSubtotal : 0,
+            );
+      feeLeft -= feeShare;
+
+      const net = subtotal - discountAmount;
+      // Admin-managed items are the platform's own sales
+      const commissionAmount = group.sellerId
+        ? this.round(
+            group.items.reduce(
+              (sum, item) =>
+                sum +
+                (item.totalPrice - (item.discountAmount || 0)) *
+                  commissionFor(
+                    group.sellerId,
+                    productsById.get(item.productId.toString())?.category,
+                  ),
+              0,
+            ),
+          )
+        : 0;
+      const commissionRate =
+        net > 0 ? Math.round((commissionAmount / net) * 10000) / 10000 : 0;
+
+      return {
+        sellerId: group.sellerId,
+        items: group.items,
+        subtotal,
+        discountAmount,
+        deliveryFee: feeShare,
+        total: this.round(net + feeShare),
+        commissionRate,
+        commissionAmount,
+        sellerPayout: group.sellerId ? this.round(net - commissionAmount) : 0,
+      };
+    });
+  }
+
+  private newSubOrder(
+    order: OrderDocument,
+    share: SellerShare,
+    number: number,
+    status: SubOrderStatus,
+  ) {
+    return {
+      ...share,
+      subOrderNumber: `${order.orderNumber}-${number}`,
+      parentOrderId: order._id,
+      userId: order.userId,
+      status,
+      statusHistory: [
+        {
+          status,
+          timestamp: new Date(),
+          reason: 'Split from order',
+          updatedBy: 'system',
+        },
+      ],
+    };
+  }
+
+  private pushStatus(
+    subOrder: SubOrderDocument,
+    status: SubOrderStatus,
+    reason: string,
+    updatedBy: string,
+  ): void {
+    subOrder.status = status;
+    subOrder.statusHistory.push({
+      status,
+      timestamp: new Date(),
+      reason,
+      updatedBy,
+    });
+  }
+
+  private sellerKey(sellerId?: Types.ObjectId): string {
+    return sellerId ? sellerId.toString() : 'platform';
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
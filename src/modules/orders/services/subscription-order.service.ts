@@ -2,11 +2,13 @@ import { Injectable, Logger, BadRequestException, NotFoundException } from '@nes
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Cron, CronExpression } from '@nestjs/schedule';
-import { Order, OrderDocument, OrderStatus, PaymentPlan, DeliveryMethod, PaymentFrequency } from '../../orders/entities/order.entity';
+import { Order, OrderDocument, OrderStatus, PaymentPlan, DeliveryMethod, PaymentFrequency, SubscriptionFrequency } from '../../orders/entities/order.entity';
 import { User, UserDocument } from '../../users/entities/user.entity';
 import { Product, ProductDocument } from '../../products/entities/product.entity';
 import { OrdersService } from '../../orders/orders.service';
 import { CartService } from '../../orders/cart.service';
+import { PRODUCT_ERROR_MESSAGES } from '../../products/constants';
+import { ProductVariants } from '../../products/helpers';
 
 export enum SubscriptionStatus {
   ACTIVE = 'active',
@@ -15,12 +17,7 @@ export enum SubscriptionStatus {
   EXPIRED = 'expired',
 }
 
-export enum SubscriptionFrequency {
-  WEEKLY = 'weekly',
-  BIWEEKLY = 'biweekly', 
-  MONTHLY = 'monthly',
-  QUARTERLY = 'quarterly',
-}
+export { SubscriptionFrequency };
 
 export interface SubscriptionPlan {
   _id?: string;
@@ -34,6 +31,7 @@ export interface SubscriptionPlan {
   endDate?: Date;
   items: Array<{
     productId: Types.ObjectId;
+    variantId?: Types.ObjectId;
     quantity: number;
     customInstructions?: string;
   }>;
@@ -78,6 +76,7 @@ export interface CreateSubscriptionDto {
   endDate?: Date;
   items: Array<{
     productId: string;
+    variantId?: string;
     quantity: number;
     customInstructions?: string;
   }>;
@@ -118,7 +117,11 @@ export class SubscriptionOrderService {
         if (!product) {
           throw new BadRequestException(`Product ${item.productId} not found`);
         }
-        if (product.stock < item.quantity) {
+        const unit = ProductVariants.resolve(product, item.variantId);
+        if (!unit) {
+          throw new BadRequestException(`${product.name}: ${PRODUCT_ERROR_MESSAGES.VARIANT_NOT_FOUND}`);
+        }
+        if (unit.stock < item.quantity) {
           throw new BadRequestException(`Insufficient stock for product ${product.name}`);
         }
       }
@@ -137,6 +140,7 @@ export class SubscriptionOrderService {
         endDate: subscriptionDto.endDate,
         items: subscriptionDto.items.map(item => ({
           productId: new Types.ObjectId(item.productId),
+          variantId: item.variantId && new Types.ObjectId(item.variantId),
           quantity: item.quantity,
           customInstructions: item.customInstructions,
         })),
@@ -219,7 +223,8 @@ export class SubscriptionOrderService {
       // Validate product availability
       for (const item of subscription.items) {
         const product = await this.productModel.findById(item.productId);
-        if (!product || product.stock < item.quantity) {
+        const unit = product && ProductVariants.resolve(product, item.variantId);
+        if (!unit || unit.stock < item.quantity) {
           // Handle out of stock scenario
           await this.handleOutOfStock(subscription, item.productId.toString());
           return {
@@ -280,7 +285,8 @@ export class SubscriptionOrderService {
       await this.cartService.addToCart(
         subscription.userId.toString(), 
         item.productId.toString(), 
-        item.quantity
+        item.quantity,
+        item.variantId?.toString(),
       );
     }
 
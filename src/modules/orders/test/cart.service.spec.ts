@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { CartService } from '../cart.service';
+import { Cart } from '../entities/cart.entity';
+import { Product } from '../../products/entities/product.entity';
+import { User } from '../../users/entities/user.entity';
+import { PromotionsService } from '../../promotions/promotions.service';
+import { PRODUCT_ERROR_MESSAGES } from '../../products/constants';
+
+describe('CartService', () => {
+  let service: CartService;
+  let cartModel: any;
+  let productModel: any;
+  let cart: any;
+
+  const userId = new Types.ObjectId().toString();
+  const riceId = new Types.ObjectId();
+  const smallBagId = new Types.ObjectId();
+  const largeBagId = new Types.ObjectId();
+
+  const rice = {
+    _id: riceId,
+    name: 'Ofada Rice',
+    price: 6000,
+    priceInNibia: 600,
+    stock: 12,
+    variants: [
+      {
+        _id: smallBagId,
+        unitLabel: '5kg bag',
+        price: 6000,
+        priceInNibia: 600,
+        weight: 5,
+        stock: 10,
+      },
+      {
+        _id: largeBagId,
+        unitLabel: '25kg bag',
+        price: 25000,
+        priceInNibia: 2500,
+        weight: 25,
+        stock: 2,
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    cart = { _id: new Types.ObjectId(), items: [] };
+    cartModel = {
+      findOne: jest.fn(() => ({
+        exec: jest.fn(() => Promise.resolve(cart)),
+        populate: jest.fn(() => ({ exec: jest.fn().mockResolvedValue(null) })),
+      })),
+      findByIdAndUpdate: jest.fn(() => ({
+        exec: jest.fn().mockResolvedValue(cart),
+      })),
+    };
+    productModel = {
+      findById: jest.fn(() => ({ exec: jest.fn().mockResolvedValue(rice) })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CartService,
+        { provide: getModelToken(Cart.name), useValue: cartModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: getModelToken(User.name), useValue: {} },
+        { provide: PromotionsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<CartService>(CartService);
+  });
+
+  describe('addToCart', () => {
+    it('should add each pack of a product as its own line at its own price', async () => {
+      await service.addToCart(
+        userId,
+        riceId.toString(),
+        1,
+        smallBagId.toString(),
+      );
+      await service.addToCart(
+        userId,
+        riceId.toString(),
+        1,
+        largeBagId.toString(),
+      );
+
+      expect(cart.items).toHaveLength(2);
+      expect(cart.items[0]).toEqual(
+        expect.objectContaining({
+          variantId: smallBagId,
+          variantLabel: '5kg bag',
+          unitPrice: 6000,
+        }),
+      );
+      expect(cart.items[1]).toEqual(
+        expect.objectContaining({
+          variantId: largeBagId,
+          variantLabel: '25kg bag',
+          unitPrice: 25000,
+        }),
+      );
+    });
+
+    it("should hold a pack to that pack's stock", async () => {
+      await expect(
+        service.addToCart(userId, riceId.toString(), 3, largeBagId.toString()),
+      ).rejects.toThrow('Only 2 items available in stock');
+      expect(cart.items).toHaveLength(0);
+    });
+
+    it('should count a pack already in the cart against its stock', async () => {
+      await service.addToCart(
+        userId,
+        riceId.toString(),
+        2,
+        largeBagId.toString(),
+      );
+
+      await expect(
+        service.addToCart(userId, riceId.toString(), 1, largeBagId.toString()),
+      ).rejects.toThrow(BadRequestException);
+      expect(cart.items[0].quantity).toBe(2);
+    });
+
+    it('should need the pack for a product sold in packs', async () => {
+      await expect(
+        service.addToCart(userId, riceId.toString(), 1),
+      ).rejects.toThrow(PRODUCT_ERROR_MESSAGES.VARIANT_REQUIRED);
+    });
+  });
+});
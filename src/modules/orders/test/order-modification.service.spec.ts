@@ -0,0 +1,422 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { OrderModificationService } from '../services/order-modification.service';
+import {
+  DeliveryMethod,
+  Order,
+  OrderModificationChange,
+  OrderStatus,
+  PaymentPlan,
+} from '../entities/order.entity';
+import { SubOrder } from '../entities/sub-order.entity';
+import { Product } from '../../products/entities/product.entity';
+import { UserRole } from '../../users/entities/user.entity';
+import { WalletsService } from '../../wallets/wallets.service';
+import { PromotionsService } from '../../promotions/promotions.service';
+import { PromotionType } from '../../promotions/constants/promotion.constants';
+import { WalletType } from '../../wallets/dto/update-balance.dto';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { StoresService } from '../../stores/stores.service';
+import { PickupSlotsService } from '../../stores/services/pickup-slots.service';
+import { DeliveryPricingService } from '../../delivery-pricing/delivery-pricing.service';
+import { DeliverySlotsService } from '../../delivery-slots/delivery-slots.service';
+import { StockReservationService } from '../services/stock-reservation.service';
+import { PriceDifferenceService } from '../services/price-difference.service';
+import { SubOrdersService } from '../services/sub-orders.service';
+import { ORDER_ERROR_MESSAGES } from '../constants';
+
+describe('OrderModificationService', () => {
+  let service: OrderModificationService;
+  let subOrderModel: any;
+  let walletsService: any;
+  let promotionsService: any;
+  let stockReservationService: any;
+  let storesService: any;
+  let pickupSlotsService: any;
+  let deliveryPricingService: any;
+  let deliverySlotsService: any;
+  let order: any;
+
+  const userId = new Types.ObjectId();
+  const riceId = new Types.ObjectId();
+  const milkId = new Types.ObjectId();
+  const beansId = new Types.ObjectId();
+  const storeId = new Types.ObjectId();
+  const slot = {
+    startsAt: new Date('2026-10-21T09:00:00Z'),
+    endsAt: new Date('2026-10-21T11:00:00Z'),
+  };
+
+  const line = (
+    productId: Types.ObjectId,
+    quantity: number,
+    unitPrice: number,
+  ) => ({
+    productId,
+    quantity,
+    unitPrice,
+    unitPriceInNibia: unitPrice * 10,
+    totalPrice: quantity * unitPrice,
+    totalPriceInNibia: quantity * unitPrice * 10,
+    discountAmount: 0,
+  });
+
+  const modify = (dto: any, role = UserRole.USER) =>
+    service.modifyOrder(order._id.toString(), userId.toString(), role, dto);
+
+  beforeEach(async () => {
+    order = {
+      _id: new Types.ObjectId(),
+      orderNumber: 'ORD-123456789',
+      userId,
+      status: OrderStatus.PAID,
+      paymentPlan: PaymentPlan.PAY_NOW,
+      deliveryMethod: DeliveryMethod.HOME_DELIVERY,
+      deliveryAddress: {
+        street: '1 Allen Avenue',
+        city: 'Lagos',
+        state: 'Lagos',
+      },
+      deliverySlot: slot,
+      items: [line(riceId, 2, 3000), line(milkId, 3, 1000)],
+      totalAmount: 9000,
+      totalAmountInNibia: 90000,
+      deliveryFee: 500,
+      discountAmount: 0,
+      finalTotal: 9500,
+      amountPaid: 9500,
+      paymentHistory: [],
+      statusHistory: [],
+      modifications: [],
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+
+    subOrderModel = { exists: jest.fn().mockResolvedValue(null) };
+    walletsService = {
+      chargeWallet: jest
+        .fn()
+        .mockResolvedValue({ transactionId: 'TXN_CHARGE' }),
+      refundToWallet: jest
+        .fn()
+        .mockResolvedValue({ transactionId: 'TXN_REFUND' }),
+    };
+    promotionsService = {
+      evaluate: jest.fn(),
+      releaseRedemption: jest.fn().mockResolvedValue(true),
+    };
+    stockReservationService = {
+      adjust: jest.fn().mockResolvedValue({ items: [], storeId: undefined }),
+      findHeld: jest.fn().mockResolvedValue({ items: [], storeId: undefined }),
+    };
+    storesService = {
+      findPickupStore: jest.fn().mockResolvedValue({ _id: storeId }),
+      findFulfilmentStore: jest.fn().mockResolvedValue(null),
+    };
+    pickupSlotsService = {
+      book: jest.fn().mockResolvedValue(slot),
+      release: jest.fn(),
+    };
+    deliveryPricingService = {
+      quote: jest.fn().mockResolvedValue({ deliveryFee: 800 }),
+    };
+    deliverySlotsService = {
+      book: jest.fn().mockResolvedValue(slot),
+      release: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderModificationService,
+        {
+          provide: getModelToken(Order.name),
+          useValue: { findById: jest.fn(() => Promise.resolve(order)) },
+        },
+        { provide: getModelToken(SubOrder.name), useValue: subOrderModel },
+        {
+          provide: getModelToken(Product.name),
+          useValue: {
+            findById: jest.fn().mockResolvedValue({
+              _id: beansId,
+              price: 2000,
+              priceInNibia: 20000,
+              isActive: true,
+            }),
+          },
+        },
+        PriceDifferenceService,
+        { provide: WalletsService, useValue: walletsService },
+        { provide: PromotionsService, useValue: promotionsService },
+        { provide: StockReservationService, useValue: stockReservationService },
+        {
+          provide: NotificationsService,
+          useValue: { notifyOrderUpdate: jest.fn() },
+        },
+        { provide: SubOrdersService, useValue: { resyncItems: jest.fn() } },
+        { provide: StoresService, useValue: storesService },
+        { provide: PickupSlotsService, useValue: pickupSlotsService },
+        { provide: DeliveryPricingService, useValue: deliveryPricingService },
+        { provide: DeliverySlotsService, useValue: deliverySlotsService },
+      ],
+    }).compile();
+
+    service = module.get<OrderModificationService>(OrderModificationService);
+  });
+
+  it('should change quantities, requote delivery and charge the difference on a paid order', async () => {
+    await modify({
+      items: [
+        { productId: milkId.toString(), quantity: 0 },
+        { productId: beansId.toString(), quantity: 2 },
+      ],
+    });
+
+    expect(order.items.map((item) => item.productId)).toEqual([
+      riceId,
+      beansId,
+    ]);
+    expect(order.totalAmount).toBe(10000);
+    expect(order.deliveryFee).toBe(800);
+    expect(stockReservationService.adjust).toHaveBeenCalledWith(
+      order._id.toString(),
+      [
+        { productId: riceId, quantity: 2 },
+        { productId: beansId, quantity: 2 },
+      ],
+      undefined,
+    );
+    expect(walletsService.chargeWallet).toHaveBeenCalledWith(
+      userId.toString(),
+      WalletType.FOOD_MONEY,
+      1300,
+      expect.any(String),
+      expect.any(Object),
+    );
+    expect(order.amountPaid).toBe(10800);
+    expect(order.modifications[0]).toMatchObject({
+      changes: [OrderModificationChange.ITEMS],
+      previousFinalTotal: 9500,
+      finalTotal: 10800,
+      walletAdjustment: 1300,
+      transactionRef: 'TXN_CHARGE',
+    });
+    expect(order.save).toHaveBeenCalled();
+  });
+
+  it('should refund to the wallet when switching to pickup and free the delivery slot', async () => {
+    const pickupStart = '2026-10-21T13:00:00.000Z';
+
+    await modify({
+      deliveryMethod: DeliveryMethod.PICKUP,
+      pickupStoreId: storeId.toString(),
+      pickupSlotStart: pickupStart,
+    });
+
+    expect(pickupSlotsService.book).toHaveBeenCalledWith(
+      { _id: storeId },
+      new Date(pickupStart),
+      order._id.toString(),
+    );
+    expect(deliverySlotsService.release).toHaveBeenCalledWith(
+      order._id.toString(),
+      { city: 'Lagos', startsAt: slot.startsAt },
+    );
+    expect(walletsService.refundToWallet).toHaveBeenCalledWith(
+      userId.toString(),
+      WalletType.FOOD_MONEY,
+      500,
+      expect.any(String),
+      expect.any(Object),
+    );
+    expect(order.deliveryFee).toBe(0);
+    expect(order.deliverySlot).toBeUndefined();
+    expect(order.modifications[0].changes).toEqual([
+      OrderModificationChange.DELIVERY,
+      OrderModificationChange.SLOT,
+    ]);
+  });
+
+  it('should spread the new remaining amount over the instalments left', async () => {
+    Object.assign(order, {
+      status: OrderStatus.PENDING,
+      paymentPlan: PaymentPlan.PAY_SMALL_SMALL,
+      deliverySlot: undefined,
+      amountPaid: 2500,
+      remainingAmount: 7000,
+      paymentSchedule: {
+        totalInstallments: 4,
+        installmentsPaid: 1,
+        installmentAmount: 2375,
+      },
+    });
+
+    await modify({ items: [{ productId: riceId.toString(), quantity: 1 }] });
+
+    // 1 x 3000 + 3 x 1000 + 800 delivery, less the 2500 already paid
+    expect(order.paymentSchedule.installmentAmount).toBe(1433.33);
+    expect(walletsService.chargeWallet).not.toHaveBeenCalled();
+    expect(walletsService.refundToWallet).not.toHaveBeenCalled();
+  });
+
+  it('should put the stock back and free the new slot when the wallet charge fails', async () => {
+    const previous = { items: order.items, storeId: undefined };
+    stockReservationService.adjust.mockResolvedValueOnce(previous);
+    walletsService.chargeWallet.mockRejectedValue(
+      new BadRequestException('Insufficient balance'),
+    );
+    const newStart = '2026-10-22T09:00:00.000Z';
+    deliverySlotsService.book.mockResolvedValue({
+      startsAt: new Date(newStart),
+      endsAt: new Date('2026-10-22T11:00:00Z'),
+    });
+
+    await expect(
+      modify({
+        items: [{ productId: riceId.toString(), quantity: 4 }],
+        deliverySlotStart: newStart,
+      }),
+    ).rejects.toThrow('Insufficient balance');
+
+    expect(deliverySlotsService.release).toHaveBeenCalledWith(
+      order._id.toString(),
+      { city: 'Lagos', startsAt: new Date(newStart) },
+    );
+    expect(stockReservationService.adjust).toHaveBeenLastCalledWith(
+      order._id.toString(),
+      previous.items,
+      undefined,
+    );
+    expect(order.save).not.toHaveBeenCalled();
+  });
+
+  it('should price the promo code again on the changed items', async () => {
+    Object.assign(order, {
+      promotion: {
+        code: 'SAVE10',
+        type: PromotionType.PERCENTAGE,
+        itemDiscount: 900,
+        deliveryDiscount: 0,
+      },
+      discountAmount: 900,
+      amountPaid: 8600,
+    });
+    promotionsService.evaluate.mockResolvedValue({
+      code: 'SAVE10',
+      itemDiscount: 1000,
+      deliveryDiscount: 0,
+      discountAmount: 1000,
+      itemDiscounts: [
+        { productId: riceId.toString(), discountAmount: 600 },
+        { productId: beansId.toString(), discountAmount: 400 },
+      ],
+    });
+
+    await modify({
+      items: [
+        { productId: milkId.toString(), quantity: 0 },
+        { productId: beansId.toString(), quantity: 2 },
+      ],
+    });
+
+    expect(promotionsService.evaluate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'SAVE10',
+        city: 'Lagos',
+        deliveryFee: 800,
+        orderId: order._id.toString(),
+        items: [
+          { productId: riceId.toString(), quantity: 2, unitPrice: 3000 },
+          { productId: beansId.toString(), quantity: 2, unitPrice: 2000 },
+        ],
+      }),
+    );
+    expect(order.items.map((item) => item.discountAmount)).toEqual([600, 400]);
+    expect(order.discountAmount).toBe(1000);
+    // 10000 items + 800 delivery - 1000 discount, less the 8600 paid
+    expect(walletsService.chargeWallet).toHaveBeenCalledWith(
+      userId.toString(),
+      WalletType.FOOD_MONEY,
+      1200,
+      expect.any(String),
+      expect.any(Object),
+    );
+  });
+
+  it('should drop a promo code the changed order no longer qualifies for', async () => {
+    Object.assign(order, {
+      promotion: {
+        code: 'BIGSHOP',
+        type: PromotionType.FIXED_AMOUNT,
+        itemDiscount: 900,
+        deliveryDiscount: 0,
+      },
+      discountAmount: 900,
+      amountPaid: 8600,
+    });
+    promotionsService.evaluate.mockRejectedValue(
+      new BadRequestException('Order does not meet the minimum amount'),
+    );
+
+    await modify({ items: [{ productId: riceId.toString(), quantity: 1 }] });
+
+    expect(order.promotion).toBeUndefined();
+    expect(order.discountAmount).toBe(0);
+    expect(promotionsService.releaseRedemption).toHaveBeenCalledWith(
+      order._id.toString(),
+    );
+  });
+
+  it('should give the wallet charge back when the order cannot be saved', async () => {
+    const previous = { items: order.items, storeId: undefined };
+    stockReservationService.adjust.mockResolvedValueOnce(previous);
+    order.save.mockRejectedValue(new Error('write conflict'));
+
+    await expect(
+      modify({ items: [{ productId: riceId.toString(), quantity: 4 }] }),
+    ).rejects.toThrow('write conflict');
+
+    expect(walletsService.refundToWallet).toHaveBeenCalledWith(
+      userId.toString(),
+      WalletType.FOOD_MONEY,
+      6300,
+      expect.stringContaining('Reversed charge'),
+      expect.any(Object),
+    );
+    expect(stockReservationService.adjust).toHaveBeenLastCalledWith(
+      order._id.toString(),
+      previous.items,
+      undefined,
+    );
+  });
+
+  it('should refuse once a seller has started preparing the order', async () => {
+    subOrderModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+    await expect(
+      modify({ items: [{ productId: riceId.toString(), quantity: 1 }] }),
+    ).rejects.toThrow(ORDER_ERROR_MESSAGES.MODIFICATION_LOCKED);
+    expect(stockReservationService.adjust).not.toHaveBeenCalled();
+  });
+
+  it('should refuse orders with a rider, removing every item and other users', async () => {
+    await expect(
+      modify({
+        items: [
+          { productId: riceId.toString(), quantity: 0 },
+          { productId: milkId.toString(), quantity: 0 },
+        ],
+      }),
+    ).rejects.toThrow(ORDER_ERROR_MESSAGES.MODIFICATION_EMPTY);
+
+    order.assignedRider = new Types.ObjectId();
+    await expect(
+      modify({ items: [{ productId: riceId.toString(), quantity: 1 }] }),
+    ).rejects.toThrow(BadRequestException);
+
+    order.userId = new Types.ObjectId();
+    await expect(
+      modify({ items: [{ productId: riceId.toString(), quantity: 1 }] }),
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,388 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { OrderReturnsService } from '../services/order-returns.service';
+import {
+  ReturnRequest,
+  ReturnReason,
+  ReturnStatus,
+} from '../entities/return-request.entity';
+import { Order, OrderStatus } from '../entities/order.entity';
+import { Product } from '../../products/entities/product.entity';
+import { UserRole } from '../../users/entities/user.entity';
+import { OrdersService } from '../orders.service';
+import {
+  RefundCancellationService,
+  RefundType,
+} from '../services/refund-cancellation.service';
+import { DeliveryService } from '../../delivery/delivery.service';
+import { InventoryService } from '../../products/services/inventory.service';
+import { InventoryMovementType } from '../../products/entities/inventory-movement.entity';
+import { ORDER_ERROR_MESSAGES } from '../constants';
+
+describe('OrderReturnsService', () => {
+  let service: OrderReturnsService;
+  let returnModel: any;
+  let orderModel: any;
+  let productModel: any;
+  let ordersService: any;
+  let refundCancellationService: any;
+  let inventoryService: any;
+  let order: any;
+
+  const userId = new Types.ObjectId();
+  const adminId = new Types.ObjectId().toString();
+  const riceId = new Types.ObjectId();
+  const milkId = new Types.ObjectId();
+  const smallBagId = new Types.ObjectId();
+  const largeBagId = new Types.ObjectId();
+
+  const packOrder = () =>
+    buildOrder({
+      items: [
+        {
+          productId: riceId,
+          variantId: smallBagId,
+          quantity: 2,
+          unitPrice: 3000,
+          returnedQuantity: 0,
+        },
+        {
+          productId: riceId,
+          variantId: largeBagId,
+          quantity: 1,
+          unitPrice: 25000,
+          returnedQuantity: 0,
+        },
+      ],
+    });
+
+  const buildOrder = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(),
+    orderNumber: 'ORD-123456789',
+    userId,
+    status: OrderStatus.DELIVERED,
+    actualDeliveryDate: new Date(),
+    statusHistory: [],
+    items: [
+      { productId: riceId, quantity: 2, unitPrice: 3000, returnedQuantity: 0 },
+      { productId: milkId, quantity: 3, unitPrice: 1000, returnedQuantity: 0 },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    order = buildOrder();
+
+    returnModel = {
+      create: jest
+        .fn()
+        .mockImplementation((doc) =>
+          Promise.resolve({ _id: new Types.ObjectId(), ...doc }),
+        ),
+      findById: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn(),
+      deleteOne: jest.fn(),
+    };
+    orderModel = {
+      findById: jest.fn(() => Promise.resolve(order)),
+      updateOne: jest.fn(),
+    };
+    productModel = { updateOne: jest.fn() };
+    ordersService = { changeOrderStatus: jest.fn() };
+    refundCancellationService = { processRefund: jest.fn() };
+    inventoryService = { record: jest.fn().mockResolvedValue(null) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderReturnsService,
+        { provide: getModelToken(ReturnRequest.name), useValue: returnModel },
+        { provide: getModelToken(Order.name), useValue: orderModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: OrdersService, useValue: ordersService },
+        {
+          provide: RefundCancellationService,
+          useValue: refundCancellationService,
+        },
+        { provide: DeliveryService, useValue: {} },
+        { provide: InventoryService, useValue: inventoryService },
+      ],
+    }).compile();
+
+    service = module.get<OrderReturnsService>(OrderReturnsService);
+  });
+
+  describe('requestReturn', () => {
+    it('should open a return and move the order to RETURN_REQUESTED', async () => {
+      const result = await service.requestReturn(
+        userId.toString(),
+        UserRole.USER,
+        {
+          orderId: order._id.toString(),
+          items: [{ productId: milkId.toString(), quantity: 2 }],
+          reason: ReturnReason.SPOILED,
+          photos: ['https://cdn.example.com/milk.jpg'],
+        },
+      );
+
+      expect(result.status).toBe(ReturnStatus.REQUESTED);
+      expect(result.items).toEqual([
+        {
+          productId: milkId,
+          quantity: 2,
+          reason: undefined,
+          restockable: false,
+        },
+      ]);
+      expect(ordersService.changeOrderStatus).toHaveBeenCalledWith(
+        order._id.toString(),
+        OrderStatus.RETURN_REQUESTED,
+        'REQUEST_RETURN',
+        userId.toString(),
+        UserRole.USER,
+        expect.any(String),
+      );
+    });
+
+    it('should not return more than is left after earlier returns', async () => {
+      order = buildOrder({ status: OrderStatus.PARTIALLY_RETURNED });
+      order.items[1].returnedQuantity = 2;
+
+      await expect(
+        service.requestReturn(userId.toString(), UserRole.USER, {
+          orderId: order._id.toString(),
+          items: [{ productId: milkId.toString(), quantity: 2 }],
+          reason: ReturnReason.DAMAGED,
+        }),
+      ).rejects.toThrow(ORDER_ERROR_MESSAGES.RETURN_QUANTITY_EXCEEDED);
+      expect(returnModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep returns of different packs of a product apart', async () => {
+      order = packOrder();
+
+      const result = await service.requestReturn(
+        userId.toString(),
+        UserRole.USER,
+        {
+          orderId: order._id.toString(),
+          items: [
+            {
+              productId: riceId.toString(),
+              variantId: smallBagId.toString(),
+              quantity: 1,
+            },
+            {
+              productId: riceId.toString(),
+              variantId: largeBagId.toString(),
+              quantity: 1,
+            },
+            {
+              productId: riceId.toString(),
+              variantId: smallBagId.toString(),
+              quantity: 1,
+            },
+          ],
+          reason: ReturnReason.DAMAGED,
+        },
+      );
+
+      expect(result.items).toEqual([
+        expect.objectContaining({
+          productId: riceId,
+          variantId: smallBagId,
+          quantity: 2,
+        }),
+        expect.objectContaining({
+          productId: riceId,
+          variantId: largeBagId,
+          quantity: 1,
+        }),
+      ]);
+    });
+
+    it('should refuse returns after the window closes', async () => {
+      order = buildOrder({ actualDeliveryDate: new Date('2024-01-01') });
+
+      await expect(
+        service.requestReturn(userId.toString(), UserRole.USER, {
+          orderId: order._id.toString(),
+          items: [{ productId: riceId.toString(), quantity: 1 }],
+          reason: ReturnReason.WRONG_ITEM,
+        }),
+      ).rejects.toThrow(ORDER_ERROR_MESSAGES.RETURN_WINDOW_CLOSED);
+    });
+  });
+
+  describe('approveReturn', () => {
+    it('should mark only the resaleable pack of a product restockable', async () => {
+      const returnRequest = {
+        _id: new Types.ObjectId(),
+        returnNumber: 'RTN-123456789',
+        status: ReturnStatus.REQUESTED,
+        items: [
+          { productId: riceId, variantId: smallBagId, quantity: 2 },
+          { productId: riceId, variantId: largeBagId, quantity: 1 },
+          { productId: milkId, quantity: 1 },
+        ],
+        save: jest.fn(),
+      };
+      returnModel.findById.mockResolvedValue(returnRequest);
+
+      await service.approveReturn(returnRequest._id.toString(), adminId, {
+        restockableItems: [
+          { productId: riceId.toString(), variantId: largeBagId.toString() },
+          { productId: milkId.toString() },
+        ],
+      });
+
+      expect(returnRequest.items.map((item: any) => item.restockable)).toEqual([
+        false,
+        true,
+        true,
+      ]);
+      expect(returnRequest.status).toBe(ReturnStatus.APPROVED);
+      expect(returnRequest.save).toHaveBeenCalled();
+    });
+  });
+
+  describe('completeReturn', () => {
+    const returnId = new Types.ObjectId();
+    let returnRequest: any;
+
+    beforeEach(() => {
+      returnRequest = {
+        _id: returnId,
+        returnNumber: 'RTN-123456789',
+        orderId: order._id,
+        userId,
+        reason: ReturnReason.SPOILED,
+        status: ReturnStatus.APPROVED,
+        items: [
+          { productId: riceId, quantity: 1, restockable: true },
+          { productId: milkId, quantity: 3, restockable: false },
+        ],
+      };
+      returnModel.findById.mockResolvedValue(returnRequest);
+      returnModel.findOneAndUpdate.mockResolvedValue(returnRequest);
+    });
+
+    it('should refund each line, restock resaleable items and mark the order partially returned', async () => {
+      refundCancellationService.processRefund.mockResolvedValue({
+        success: true,
+        refundId: 'REF_1',
+        refundAmount: 6000,
+        itemRefunds: [
+          { productId: riceId.toString(), quantity: 1, amount: 3000 },
+          { productId: milkId.toString(), quantity: 3, amount: 3000 },
+        ],
+      });
+
+      await service.completeReturn(returnId.toString(), adminId);
+
+      expect(refundCancellationService.processRefund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: userId.toString(),
+          type: RefundType.PARTIAL,
+          processingFee: 0,
+          items: [
+            { productId: riceId.toString(), quantity: 1 },
+            { productId: milkId.toString(), quantity: 3 },
+          ],
+        }),
+      );
+      expect(productModel.updateOne).toHaveBeenCalledTimes(1);
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        { _id: riceId },
+        { $inc: { stock: 1 } },
+      );
+      expect(inventoryService.record).toHaveBeenCalledTimes(1);
+      expect(inventoryService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          productId: riceId,
+          type: InventoryMovementType.RETURN,
+          quantity: 1,
+          actorId: adminId,
+          reference: 'RTN-123456789',
+        }),
+      );
+      expect(returnRequest.items[0].refundAmount).toBe(3000);
+      expect(ordersService.changeOrderStatus).toHaveBeenCalledWith(
+        order._id.toString(),
+        OrderStatus.PARTIALLY_RETURNED,
+        'COMPLETE_RETURN',
+        adminId,
+        UserRole.ADMIN,
+        expect.any(String),
+      );
+    });
+
+    it('should count and restock the returned pack, not the first line of the product', async () => {
+      order = packOrder();
+      returnRequest.orderId = order._id;
+      returnRequest.items = [
+        {
+          productId: riceId,
+          variantId: largeBagId,
+          quantity: 1,
+          restockable: true,
+        },
+      ];
+      refundCancellationService.processRefund.mockResolvedValue({
+        success: true,
+        refundId: 'REF_2',
+        refundAmount: 25000,
+        itemRefunds: [
+          {
+            productId: riceId.toString(),
+            variantId: largeBagId.toString(),
+            quantity: 1,
+            amount: 25000,
+          },
+        ],
+      });
+
+      await service.completeReturn(returnId.toString(), adminId);
+
+      expect(refundCancellationService.processRefund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          items: [
+            {
+              productId: riceId.toString(),
+              variantId: largeBagId.toString(),
+              quantity: 1,
+            },
+          ],
+        }),
+      );
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        { _id: riceId, 'variants._id': largeBagId },
+        { $inc: { 'variants.$.stock': 1, stock: 1 } },
+      );
+      expect(inventoryService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ productId: riceId, variantId: largeBagId }),
+      );
+      expect(returnRequest.items[0].refundAmount).toBe(25000);
+    });
+
+    it('should reopen the return when the refund fails', async () => {
+      refundCancellationService.processRefund.mockResolvedValue({
+        success: false,
+        reason: 'Refund amount cannot exceed amount paid',
+      });
+
+      await expect(
+        service.completeReturn(returnId.toString(), adminId),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(returnModel.updateOne).toHaveBeenCalledWith(
+        { _id: returnId },
+        { status: ReturnStatus.APPROVED, $unset: { receivedAt: 1 } },
+      );
+      expect(productModel.updateOne).not.toHaveBeenCalled();
+      expect(ordersService.changeOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+});
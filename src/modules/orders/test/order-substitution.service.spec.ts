@@ -0,0 +1,303 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { OrderSubstitutionService } from '../services/order-substitution.service';
+import {
+  Order,
+  OrderStatus,
+  SubstitutionPreference,
+} from '../entities/order.entity';
+import {
+  Product,
+  ProductCategory,
+} from '../../products/entities/product.entity';
+import { WalletsService } from '../../wallets/wallets.service';
+import { WalletType } from '../../wallets/dto/update-balance.dto';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { StockReservationService } from '../services/stock-reservation.service';
+import { PriceDifferenceService } from '../services/price-difference.service';
+import { SubOrdersService } from '../services/sub-orders.service';
+import { ORDER_ERROR_MESSAGES } from '../constants';
+
+describe('OrderSubstitutionService', () => {
+  let service: OrderSubstitutionService;
+  let productModel: any;
+  let walletsService: any;
+  let stockReservationService: any;
+  let notificationsService: any;
+  let order: any;
+  let products: Record<string, any>;
+
+  const userId = new Types.ObjectId();
+  const staffId = new Types.ObjectId().toString();
+  const riceId = new Types.ObjectId();
+  const milkId = new Types.ObjectId();
+  const basmatiId = new Types.ObjectId();
+
+  const line = (
+    productId: Types.ObjectId,
+    quantity: number,
+    unitPrice: number,
+    extra: any = {},
+  ) => ({
+    productId,
+    quantity,
+    unitPrice,
+    unitPriceInNibia: unitPrice * 10,
+    totalPrice: quantity * unitPrice,
+    totalPriceInNibia: quantity * unitPrice * 10,
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    order = {
+      _id: new Types.ObjectId(),
+      orderNumber: 'ORD-123456789',
+      userId,
+      status: OrderStatus.PAID,
+      items: [
+        line(riceId, 2, 3000, {
+          substitutionPreference: SubstitutionPreference.SIMILAR_ITEM,
+        }),
+        line(milkId, 3, 1000, {
+          substitutionPreference: SubstitutionPreference.REFUND,
+        }),
+      ],
+      totalAmount: 9000,
+      totalAmountInNibia: 90000,
+      deliveryFee: 500,
+      discountAmount: 0,
+      amountPaid: 9500,
+      paymentHistory: [],
+      statusHistory: [],
+      substitutions: [],
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+
+    products = {
+      [riceId.toString()]: {
+        _id: riceId,
+        name: 'Rice',
+        price: 3000,
+        category: ProductCategory.GRAINS,
+      },
+      [basmatiId.toString()]: {
+        _id: basmatiId,
+        name: 'Basmati Rice',
+        price: 3500,
+        priceInNibia: 35000,
+        category: ProductCategory.GRAINS,
+        isActive: true,
+      },
+    };
+
+    productModel = {
+      findById: jest.fn((id) => {
+        const product = products[id.toString()];
+        return Object.assign(Promise.resolve(product), {
+          select: () => ({ lean: () => Promise.resolve(product) }),
+        });
+      }),
+    };
+    walletsService = {
+      chargeWallet: jest
+        .fn()
+        .mockResolvedValue({ transactionId: 'TXN_CHARGE' }),
+      refundToWallet: jest
+        .fn()
+        .mockResolvedValue({ transactionId: 'TXN_REFUND' }),
+    };
+    stockReservationService = { swapItems: jest.fn() };
+    notificationsService = { notifyOrderUpdate: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderSubstitutionService,
+        {
+          provide: getModelToken(Order.name),
+          useValue: { findById: jest.fn(() => Promise.resolve(order)) },
+        },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        PriceDifferenceService,
+        { provide: WalletsService, useValue: walletsService },
+        { provide: StockReservationService, useValue: stockReservationService },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: SubOrdersService, useValue: { resyncItems: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<OrderSubstitutionService>(OrderSubstitutionService);
+  });
+
+  it('should drop an unavailable line and refund it to the wallet', async () => {
+    await service.recordSubstitution(order._id.toString(), staffId, {
+      productId: milkId.toString(),
+    });
+
+    expect(order.items).toHaveLength(1);
+    expect(order.totalAmount).toBe(6000);
+    expect(walletsService.refundToWallet).toHaveBeenCalledWith(
+      userId.toString(),
+      WalletType.FOOD_MONEY,
+      3000,
+      expect.any(String),
+      expect.any(Object),
+    );
+    expect(order.amountPaid).toBe(6500);
+    expect(order.substitutions[0]).toEqual(
+      expect.objectContaining({
+        originalProductId: milkId,
+        originalLineTotal: 3000,
+        substituteLineTotal: 0,
+        priceDifference: -3000,
+        walletAdjustment: -3000,
+        transactionRef: 'TXN_REFUND',
+      }),
+    );
+    expect(stockReservationService.swapItems).toHaveBeenCalledWith(
+      order._id.toString(),
+      [{ productId: milkId, quantity: 3 }],
+      [],
+    );
+    expect(notificationsService.notifyOrderUpdate).toHaveBeenCalled();
+    expect(order.save).toHaveBeenCalled();
+  });
+
+  it('should charge the wallet when a similar substitute costs more', async () => {
+    await service.recordSubstitution(order._id.toString(), staffId, {
+      productId: riceId.toString(),
+      substituteProductId: basmatiId.toString(),
+    });
+
+    expect(order.items[0]).toEqual(
+      expect.objectContaining({
+        productId: basmatiId,
+        quantity: 2,
+        unitPrice: 3500,
+        totalPrice: 7000,
+      }),
+    );
+    expect(order.totalAmount).toBe(10000);
+    expect(walletsService.chargeWallet).toHaveBeenCalledWith(
+      userId.toString(),
+      WalletType.FOOD_MONEY,
+      1000,
+      expect.any(String),
+      expect.any(Object),
+    );
+    expect(order.amountPaid).toBe(10500);
+    expect(order.substitutions[0].priceDifference).toBe(1000);
+  });
+
+  it('should return the swapped stock when the wallet cannot cover the difference', async () => {
+    walletsService.chargeWallet.mockRejectedValue(
+      new BadRequestException('Insufficient balance'),
+    );
+
+    await expect(
+      service.recordSubstitution(order._id.toString(), staffId, {
+        productId: riceId.toString(),
+        substituteProductId: basmatiId.toString(),
+      }),
+    ).rejects.toThrow('Insufficient balance');
+
+    expect(stockReservationService.swapItems).toHaveBeenLastCalledWith(
+      order._id.toString(),
+      [{ productId: basmatiId, quantity: 2 }],
+      [{ productId: riceId, quantity: 2 }],
+    );
+    expect(order.save).not.toHaveBeenCalled();
+  });
+
+  it('should substitute the out-of-stock pack, not the first line of the product', async () => {
+    const smallBagId = new Types.ObjectId();
+    const largeBagId = new Types.ObjectId();
+    const basmatiBagId = new Types.ObjectId();
+    order.items = [
+      line(riceId, 2, 3000, {
+        variantId: smallBagId,
+        substitutionPreference: SubstitutionPreference.SIMILAR_ITEM,
+      }),
+      line(riceId, 1, 6000, {
+        variantId: largeBagId,
+        substitutionPreference: SubstitutionPreference.SIMILAR_ITEM,
+      }),
+    ];
+    order.totalAmount = 12000;
+    order.totalAmountInNibia = 120000;
+    order.amountPaid = 12500;
+    products[basmatiId.toString()].variants = [
+      {
+        _id: basmatiBagId,
+        unitLabel: '10kg bag',
+        price: 7000,
+        priceInNibia: 70000,
+        weight: 10000,
+        stock: 5,
+      },
+    ];
+
+    await service.recordSubstitution(order._id.toString(), staffId, {
+      productId: riceId.toString(),
+      variantId: largeBagId.toString(),
+      substituteProductId: basmatiId.toString(),
+      substituteVariantId: basmatiBagId.toString(),
+    });
+
+    expect(order.items[0].variantId).toBe(smallBagId);
+    expect(order.items[1]).toMatchObject({
+      productId: basmatiId,
+      variantId: basmatiBagId,
+      unitPrice: 7000,
+      totalPrice: 7000,
+    });
+    expect(stockReservationService.swapItems).toHaveBeenCalledWith(
+      order._id.toString(),
+      [{ productId: riceId, variantId: largeBagId, quantity: 1 }],
+      [{ productId: basmatiId, variantId: basmatiBagId, quantity: 1 }],
+    );
+    expect(order.substitutions[0]).toMatchObject({
+      originalVariantId: largeBagId,
+      substituteVariantId: basmatiBagId,
+    });
+  });
+
+  it('should give the wallet charge back when the order cannot be saved', async () => {
+    order.save.mockRejectedValue(new Error('write conflict'));
+
+    await expect(
+      service.recordSubstitution(order._id.toString(), staffId, {
+        productId: riceId.toString(),
+        substituteProductId: basmatiId.toString(),
+      }),
+    ).rejects.toThrow('write conflict');
+
+    expect(walletsService.refundToWallet).toHaveBeenCalledWith(
+      userId.toString(),
+      WalletType.FOOD_MONEY,
+      1000,
+      expect.stringContaining('Reversed charge'),
+      expect.objectContaining({
+        metadata: { originalTransactionId: 'TXN_CHARGE' },
+      }),
+    );
+    expect(stockReservationService.swapItems).toHaveBeenLastCalledWith(
+      order._id.toString(),
+      [{ productId: basmatiId, quantity: 2 }],
+      [{ productId: riceId, quantity: 2 }],
+    );
+  });
+
+  it('should refuse a substitute when the customer asked for a refund', async () => {
+    await expect(
+      service.recordSubstitution(order._id.toString(), staffId, {
+        productId: milkId.toString(),
+        substituteProductId: basmatiId.toString(),
+      }),
+    ).rejects.toThrow(ORDER_ERROR_MESSAGES.SUBSTITUTION_NOT_ALLOWED);
+
+    expect(stockReservationService.swapItems).not.toHaveBeenCalled();
+    expect(walletsService.chargeWallet).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import {
+  RefundCancellationService,
+  RefundReason,
+  RefundType,
+} from '../services/refund-cancellation.service';
+import { Order, OrderStatus } from '../entities/order.entity';
+import { User } from '../../users/entities/user.entity';
+import { Product } from '../../products/entities/product.entity';
+import { OrdersService } from '../orders.service';
+import { WalletsService } from '../../wallets/wallets.service';
+import { PromotionsService } from '../../promotions/promotions.service';
+import { StockReservationService } from '../services/stock-reservation.service';
+import { SettlementsService } from '../../settlements/settlements.service';
+
+describe('RefundCancellationService', () => {
+  let service: RefundCancellationService;
+  let orderModel: any;
+  let walletsService: any;
+  let order: any;
+
+  const userId = new Types.ObjectId();
+  const riceId = new Types.ObjectId();
+  const smallBagId = new Types.ObjectId();
+  const largeBagId = new Types.ObjectId();
+
+  const refundRequest = (items: any[]) => ({
+    orderId: order._id.toString(),
+    userId: userId.toString(),
+    type: RefundType.PARTIAL,
+    reason: RefundReason.QUALITY_ISSUE,
+    refundAmount: 0,
+    items,
+    requestedBy: 'admin',
+  });
+
+  beforeEach(async () => {
+    order = {
+      _id: new Types.ObjectId(),
+      orderNumber: 'ORD-123456789',
+      userId,
+      status: OrderStatus.DELIVERED,
+      amountPaid: 31000,
+      items: [
+        {
+          productId: riceId,
+          variantId: smallBagId,
+          quantity: 2,
+          unitPrice: 3000,
+          returnedQuantity: 0,
+        },
+        {
+          productId: riceId,
+          variantId: largeBagId,
+          quantity: 1,
+          unitPrice: 25000,
+          returnedQuantity: 0,
+        },
+      ],
+    };
+    orderModel = {
+      findById: jest.fn(() => Promise.resolve(order)),
+      updateOne: jest.fn(),
+    };
+    walletsService = {
+      refundToWallet: jest
+        .fn()
+        .mockResolvedValue({ wallet: {}, transactionId: 'TXN_1' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundCancellationService,
+        { provide: getModelToken(Order.name), useValue: orderModel },
+        { provide: getModelToken(User.name), useValue: {} },
+        { provide: getModelToken(Product.name), useValue: {} },
+        {
+          provide: OrdersService,
+          useValue: { addStatusHistory: jest.fn() },
+        },
+        { provide: WalletsService, useValue: walletsService },
+        { provide: PromotionsService, useValue: {} },
+        { provide: StockReservationService, useValue: {} },
+        {
+          provide: SettlementsService,
+          useValue: { recordRefund: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RefundCancellationService>(RefundCancellationService);
+  });
+
+  describe('processRefund', () => {
+    it('should count the refunded pack as returned on its own line', async () => {
+      const result = await service.processRefund(
+        refundRequest([
+          {
+            productId: riceId.toString(),
+            variantId: largeBagId.toString(),
+            quantity: 1,
+          },
+        ]),
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.refundAmount).toBe(25000);
+      expect(orderModel.updateOne).toHaveBeenCalledWith(
+        {
+          _id: order._id,
+          items: { $elemMatch: { productId: riceId, variantId: largeBagId } },
+        },
+        { $inc: { 'items.$.returnedQuantity': 1 } },
+      );
+    });
+
+    it('should not refund items that were already refunded', async () => {
+      order.items[0].returnedQuantity = 2;
+
+      const result = await service.processRefund(
+        refundRequest([
+          {
+            productId: riceId.toString(),
+            variantId: smallBagId.toString(),
+            quantity: 1,
+          },
+        ]),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toContain('Cannot refund more than the 0 left');
+      expect(walletsService.refundToWallet).not.toHaveBeenCalled();
+      expect(orderModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should refund only what is left of a partly refunded line', async () => {
+      order.items[0].returnedQuantity = 1;
+
+      const result = await service.processRefund(
+        refundRequest([
+          {
+            productId: riceId.toString(),
+            variantId: smallBagId.toString(),
+            quantity: 2,
+          },
+        ]),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toContain('Cannot refund more than the 1 left');
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ShoppingListsService } from '../services/shopping-lists.service';
+import { ShoppingList } from '../entities/shopping-list.entity';
+import {
+  Order,
+  PaymentPlan,
+  SubscriptionFrequency,
+} from '../entities/order.entity';
+import { Product } from '../../products/entities/product.entity';
+import { CartService } from '../cart.service';
+import { SubscriptionOrderService } from '../services/subscription-order.service';
+import { ORDER_ERROR_MESSAGES } from '../constants';
+
+describe('ShoppingListsService', () => {
+  let service: ShoppingListsService;
+  let shoppingListModel: any;
+  let orderModel: any;
+  let productModel: any;
+  let cartService: any;
+  let subscriptionOrderService: any;
+  let list: any;
+
+  const userId = new Types.ObjectId().toString();
+  const riceId = new Types.ObjectId();
+  const milkId = new Types.ObjectId();
+  const oilId = new Types.ObjectId();
+  const saltId = new Types.ObjectId();
+
+  beforeEach(async () => {
+    list = {
+      _id: new Types.ObjectId(),
+      name: 'Monthly restock',
+      items: [
+        { productId: riceId, quantity: 2 },
+        { productId: milkId, quantity: 5 },
+        { productId: oilId, quantity: 1 },
+        { productId: saltId, quantity: 1 },
+      ],
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+
+    shoppingListModel = {
+      create: jest
+        .fn()
+        .mockImplementation(async (doc) => ({ _id: 'list-1', ...doc })),
+      findOne: jest.fn().mockResolvedValue(list),
+    };
+    orderModel = { findOne: jest.fn() };
+    productModel = {
+      find: jest.fn(() => ({
+        lean: jest.fn().mockResolvedValue([
+          { _id: riceId, name: 'Rice', price: 3200, stock: 10 },
+          { _id: milkId, name: 'Milk', price: 900, stock: 3 },
+          { _id: oilId, name: 'Oil', price: 2500, stock: 0 },
+        ]),
+      })),
+    };
+    cartService = {
+      clearCart: jest.fn(),
+      addToCart: jest.fn(),
+      getCart: jest.fn().mockResolvedValue({ items: [] }),
+    };
+    subscriptionOrderService = {
+      createSubscription: jest.fn().mockResolvedValue({ _id: 'sub-1' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShoppingListsService,
+        {
+          provide: getModelToken(ShoppingList.name),
+          useValue: shoppingListModel,
+        },
+        { provide: getModelToken(Order.name), useValue: orderModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: CartService, useValue: cartService },
+        {
+          provide: SubscriptionOrderService,
+          useValue: subscriptionOrderService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ShoppingListsService>(ShoppingListsService);
+  });
+
+  describe('reorderList', () => {
+    it('should add what is available at current prices and report the rest', async () => {
+      const result = await service.reorderList(list._id.toString(), userId);
+
+      expect(cartService.clearCart).toHaveBeenCalledWith(userId);
+      expect(cartService.addToCart).toHaveBeenCalledTimes(2);
+      expect(result.added).toEqual([
+        {
+          productId: riceId.toString(),
+          name: 'Rice',
+          requestedQuantity: 2,
+          quantity: 2,
+          unitPrice: 3200,
+        },
+        {
+          productId: milkId.toString(),
+          name: 'Milk',
+          requestedQuantity: 5,
+          quantity: 3,
+          unitPrice: 900,
+        },
+      ]);
+      expect(result.skipped).toEqual([
+        {
+          productId: oilId.toString(),
+          name: 'Oil',
+          requestedQuantity: 1,
+          reason: 'out_of_stock',
+        },
+        {
+          productId: saltId.toString(),
+          name: undefined,
+          requestedQuantity: 1,
+          reason: 'not_found',
+        },
+      ]);
+      expect(list.lastReorderedAt).toBeInstanceOf(Date);
+    });
+
+    it('should keep the cart when asked and skip items the cart cannot take', async () => {
+      cartService.addToCart
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(
+          new BadRequestException('Only 1 more available'),
+        );
+
+      const result = await service.reorderList(list._id.toString(), userId, {
+        replaceCart: false,
+      });
+
+      expect(cartService.clearCart).not.toHaveBeenCalled();
+      expect(result.added.map((item) => item.name)).toEqual(['Rice']);
+      expect(result.skipped[0]).toMatchObject({
+        name: 'Milk',
+        reason: 'out_of_stock',
+      });
+    });
+  });
+
+  describe('reorderOrder', () => {
+    it('should only reorder the customer own orders', async () => {
+      orderModel.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.reorderOrder(new Types.ObjectId().toString(), userId),
+      ).rejects.toThrow(ORDER_ERROR_MESSAGES.ORDER_NOT_FOUND);
+      expect(cartService.clearCart).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('create', () => {
+    it('should copy a past order and merge repeated products', async () => {
+      orderModel.findOne.mockResolvedValue({
+        items: [
+          { productId: riceId, quantity: 2, unitPrice: 3000 },
+          { productId: riceId, quantity: 1, unitPrice: 3000 },
+        ],
+      });
+
+      await service.create(userId, {
+        name: 'Weekly basket',
+        orderId: new Types.ObjectId().toString(),
+      });
+
+      expect(shoppingListModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Weekly basket',
+          items: [{ productId: riceId, quantity: 3 }],
+        }),
+      );
+    });
+
+    it('should reject a name already in use', async () => {
+      shoppingListModel.create.mockRejectedValue({ code: 11000 });
+
+      await expect(
+        service.create(userId, { name: 'Monthly restock', items: [] }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should turn the list into a recurring subscription once', async () => {
+      const dto = {
+        frequency: SubscriptionFrequency.MONTHLY,
+        startDate: '2026-11-01',
+        deliveryAddress: {
+          street: '1 Allen Avenue',
+          city: 'Lagos',
+          state: 'Lagos',
+        },
+        paymentPlan: PaymentPlan.PAY_NOW,
+      };
+
+      await service.subscribe(list._id.toString(), userId, dto);
+
+      expect(subscriptionOrderService.createSubscription).toHaveBeenCalledWith(
+        userId,
+        expect.objectContaining({
+          name: 'Monthly restock',
+          frequency: SubscriptionFrequency.MONTHLY,
+          items: expect.arrayContaining([
+            { productId: riceId.toString(), quantity: 2 },
+          ]),
+          deliveryAddress: expect.objectContaining({ country: 'Nigeria' }),
+          autoPayment: false,
+        }),
+      );
+      expect(list.subscriptionId).toBe('sub-1');
+
+      await expect(
+        service.subscribe(list._id.toString(), userId, dto),
+      ).rejects.toThrow(ORDER_ERROR_MESSAGES.SHOPPING_LIST_SUBSCRIBED);
+    });
+  });
+});
@@ -0,0 +1,393 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { SplitTenderService } from '../services/split-tender.service';
+import { OrdersService } from '../orders.service';
+import {
+  Order,
+  PaymentMethod,
+  PaymentPlan,
+  PaymentStatus,
+} from '../entities/order.entity';
+import { Wallet } from '../../wallets/entities/wallet.entity';
+import { WalletsService } from '../../wallets/wallets.service';
+import { WalletType } from '../../wallets/dto/update-balance.dto';
+import { PaymentService } from '../../payments/services/payment.service';
+import { PaymentType } from '../../payments/constants/payment.constants';
+import { UserRole } from '../../users/entities/user.entity';
+
+describe('SplitTenderService', () => {
+  let service: SplitTenderService;
+  let orderModel: any;
+  let walletModel: any;
+  let ordersService: any;
+  let walletsService: any;
+  let paymentService: any;
+  let order: any;
+
+  const userId = new Types.ObjectId().toString();
+
+  beforeEach(async () => {
+    order = {
+      _id: new Types.ObjectId(),
+      orderNumber: 'FRG12345678',
+      userId: new Types.ObjectId(userId),
+      paymentPlan: PaymentPlan.PAY_NOW,
+      remainingAmount: 10000,
+      amountPaid: 0,
+      paymentHistory: [],
+      save: jest.fn().mockResolvedValue(undefined),
+      markModified: jest.fn(),
+    };
+
+    orderModel = {
+      findById: jest.fn().mockResolvedValue(order),
+      findOneAndUpdate: jest.fn().mockResolvedValue(order),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      find: jest.fn(),
+    };
+    walletModel = {
+      findOne: jest
+        .fn()
+        .mockResolvedValue({ foodMoney: 3000, foodPoints: 2000 }),
+    };
+    ordersService = {
+      applySettledPayment: jest.fn().mockResolvedValue(undefined),
+    };
+    walletsService = {
+      chargeWallets: jest
+        .fn()
+        .mockResolvedValue({ wallet: {}, transactionIds: ['TXN_1', 'TXN_2'] }),
+      refundToWallet: jest
+        .fn()
+        .mockResolvedValue({ wallet: {}, transactionId: 'TXN_R' }),
+    };
+    paymentService = {
+      initiatePayment: jest.fn().mockResolvedValue({
+        reference: 'PAY_123',
+        authorizationUrl: 'https://checkout.paystack.com/abc',
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SplitTenderService,
+        { provide: getModelToken(Order.name), useValue: orderModel },
+        { provide: getModelToken(Wallet.name), useValue: walletModel },
+        { provide: OrdersService, useValue: ordersService },
+        { provide: WalletsService, useValue: walletsService },
+        { provide: PaymentService, useValue: paymentService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: number) =>
+              key === 'NGN_TO_NIBIA_RATE' ? '2' : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SplitTenderService>(SplitTenderService);
+  });
+
+  describe('makeSplitPayment', () => {
+    it('should take Nibia, then Food Money, then charge the card for the remainder', async () => {
+      // 2,000 Nibia is worth NGN 1,000 at the configured rate
+      const result = await service.makeSplitPayment(
+        order._id.toString(),
+        userId,
+        UserRole.USER,
+        {
+          tenders: [
+            { paymentMethod: PaymentMethod.FOOD_POINTS },
+            { paymentMethod: PaymentMethod.FOOD_MONEY },
+            { paymentMethod: PaymentMethod.CARD },
+          ],
+        },
+      );
+
+      expect(walletsService.chargeWallets).toHaveBeenCalledWith(userId, [
+        expect.objectContaining({
+          walletType: WalletType.FOOD_POINTS,
+          amount: 2000,
+        }),
+        expect.objectContaining({
+          walletType: WalletType.FOOD_MONEY,
+          amount: 3000,
+        }),
+      ]);
+      expect(paymentService.initiatePayment).toHaveBeenCalledWith(
+        userId,
+        expect.objectContaining({ paymentType: PaymentType.PAY_NOW }),
+        600000,
+      );
+      expect(order.paymentHistory).toHaveLength(3);
+      expect(
+        order.paymentHistory.every(
+          (leg) => leg.status === PaymentStatus.PENDING,
+        ),
+      ).toBe(true);
+      expect(ordersService.applySettledPayment).not.toHaveBeenCalled();
+      expect(result.authorizationUrl).toBe('https://checkout.paystack.com/abc');
+    });
+
+    it('should settle immediately when the wallets cover the order', async () => {
+      order.remainingAmount = 3500;
+
+      await service.makeSplitPayment(
+        order._id.toString(),
+        userId,
+        UserRole.USER,
+        {
+          tenders: [
+            { paymentMethod: PaymentMethod.FOOD_POINTS, amount: 500 },
+            { paymentMethod: PaymentMethod.FOOD_MONEY },
+            { paymentMethod: PaymentMethod.CARD },
+          ],
+        },
+      );
+
+      expect(walletsService.chargeWallets).toHaveBeenCalledWith(userId, [
+        expect.objectContaining({
+          walletType: WalletType.FOOD_POINTS,
+          amount: 1000,
+        }),
+        expect.objectContaining({
+          walletType: WalletType.FOOD_MONEY,
+          amount: 3000,
+        }),
+      ]);
+      expect(paymentService.initiatePayment).not.toHaveBeenCalled();
+      expect(ordersService.applySettledPayment).toHaveBeenCalledWith(
+        order,
+        3500,
+      );
+      expect(orderModel.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: order._id }),
+        { $unset: { pendingSplitReference: 1, pendingSplitExpiresAt: 1 } },
+      );
+    });
+
+    it('should reject a second split payment while one is in progress', async () => {
+      orderModel.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(
+        service.makeSplitPayment(order._id.toString(), userId, UserRole.USER, {
+          tenders: [{ paymentMethod: PaymentMethod.CARD }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(orderModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: order._id, pendingSplitReference: { $exists: false } },
+        expect.any(Object),
+      );
+      expect(paymentService.initiatePayment).not.toHaveBeenCalled();
+    });
+
+    it('should release the wallet legs when the card leg cannot be started', async () => {
+      paymentService.initiatePayment.mockRejectedValue(
+        new ServiceUnavailableException('All payment gateways are unavailable'),
+      );
+
+      await expect(
+        service.makeSplitPayment(order._id.toString(), userId, UserRole.USER, {
+          tenders: [
+            { paymentMethod: PaymentMethod.FOOD_POINTS },
+            { paymentMethod: PaymentMethod.FOOD_MONEY },
+            { paymentMethod: PaymentMethod.CARD },
+          ],
+        }),
+      ).rejects.toThrow(ServiceUnavailableException);
+
+      expect(walletsService.refundToWallet).toHaveBeenCalledTimes(2);
+      expect(order.paymentHistory).toHaveLength(3);
+      expect(
+        order.paymentHistory.every(
+          (leg) => leg.status === PaymentStatus.FAILED,
+        ),
+      ).toBe(true);
+    });
+
+    it('should reject tenders that do not cover the order', async () => {
+      await expect(
+        service.makeSplitPayment(order._id.toString(), userId, UserRole.USER, {
+          tenders: [
+            { paymentMethod: PaymentMethod.FOOD_POINTS },
+            { paymentMethod: PaymentMethod.FOOD_MONEY },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(walletsService.chargeWallets).not.toHaveBeenCalled();
+      expect(orderModel.updateOne).toHaveBeenCalled();
+    });
+
+    it('should reject a card tender that is not last', async () => {
+      await expect(
+        service.makeSplitPayment(order._id.toString(), userId, UserRole.USER, {
+          tenders: [
+            { paymentMethod: PaymentMethod.CARD },
+            { paymentMethod: PaymentMethod.FOOD_MONEY },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('gateway outcome', () => {
+    beforeEach(() => {
+      order.paymentHistory = [
+        {
+          amount: 2000,
+          paymentMethod: PaymentMethod.FOOD_POINTS,
+          status: PaymentStatus.PENDING,
+          transactionRef: 'TXN_1',
+          splitReference: 'SPLIT_1',
+        },
+        {
+          amount: 3000,
+          paymentMethod: PaymentMethod.FOOD_MONEY,
+          status: PaymentStatus.PENDING,
+          transactionRef: 'TXN_2',
+          splitReference: 'SPLIT_1',
+        },
+        {
+          amount: 5000,
+          paymentMethod: PaymentMethod.CARD,
+          status: PaymentStatus.PENDING,
+          transactionRef: 'PAY_123',
+          splitReference: 'SPLIT_1',
+        },
+      ];
+    });
+
+    it('should settle every leg when the card payment completes', async () => {
+      await service.handleGatewayPaymentCompleted(
+        order._id.toString(),
+        'PAY_123',
+      );
+
+      expect(
+        order.paymentHistory.every(
+          (leg) => leg.status === PaymentStatus.COMPLETED,
+        ),
+      ).toBe(true);
+      expect(ordersService.applySettledPayment).toHaveBeenCalledWith(
+        order,
+        10000,
+      );
+    });
+
+    it('should credit the wallet legs back when the card payment fails', async () => {
+      await service.handleGatewayPaymentFailed(
+        order._id.toString(),
+        'PAY_123',
+        'Declined',
+      );
+
+      expect(walletsService.refundToWallet).toHaveBeenCalledWith(
+        userId,
+        WalletType.FOOD_POINTS,
+        4000,
+        expect.stringContaining('Declined'),
+        expect.any(Object),
+      );
+      expect(walletsService.refundToWallet).toHaveBeenCalledWith(
+        userId,
+        WalletType.FOOD_MONEY,
+        3000,
+        expect.any(String),
+        expect.any(Object),
+      );
+      expect(
+        order.paymentHistory.every(
+          (leg) => leg.status === PaymentStatus.FAILED,
+        ),
+      ).toBe(true);
+      expect(ordersService.applySettledPayment).not.toHaveBeenCalled();
+    });
+
+    it('should ignore payments that are not part of a split', async () => {
+      await service.handleGatewayPaymentCompleted(
+        order._id.toString(),
+        'PAY_OTHER',
+      );
+
+      expect(ordersService.applySettledPayment).not.toHaveBeenCalled();
+    });
+
+    it('should leave a split payment the expiry sweep already released', async () => {
+      orderModel.findOneAndUpdate.mockResolvedValue(null);
+
+      await service.handleGatewayPaymentCompleted(
+        order._id.toString(),
+        'PAY_123',
+      );
+
+      expect(ordersService.applySettledPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseExpiredSplitPayments', () => {
+    beforeEach(() => {
+      order.pendingSplitReference = 'SPLIT_1';
+      order.paymentHistory = [
+        {
+          amount: 3000,
+          paymentMethod: PaymentMethod.FOOD_MONEY,
+          status: PaymentStatus.PENDING,
+          transactionRef: 'TXN_2',
+          splitReference: 'SPLIT_1',
+        },
+        {
+          amount: 7000,
+          paymentMethod: PaymentMethod.CARD,
+          status: PaymentStatus.PENDING,
+          transactionRef: 'PAY_123',
+          splitReference: 'SPLIT_1',
+        },
+      ];
+      orderModel.find.mockReturnValue({
+        limit: jest.fn().mockResolvedValue([order]),
+      });
+    });
+
+    it('should credit back the wallet legs of a lapsed split payment', async () => {
+      const released = await service.releaseExpiredSplitPayments();
+
+      expect(released).toBe(1);
+      expect(orderModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: order._id, pendingSplitReference: 'SPLIT_1' },
+        { $unset: { pendingSplitReference: 1, pendingSplitExpiresAt: 1 } },
+        { new: true },
+      );
+      expect(walletsService.refundToWallet).toHaveBeenCalledTimes(1);
+      expect(walletsService.refundToWallet).toHaveBeenCalledWith(
+        userId,
+        WalletType.FOOD_MONEY,
+        3000,
+        expect.any(String),
+        expect.any(Object),
+      );
+      expect(
+        order.paymentHistory.every(
+          (leg) => leg.status === PaymentStatus.FAILED,
+        ),
+      ).toBe(true);
+      expect(order.save).toHaveBeenCalled();
+    });
+
+    it('should skip a split payment settled in the meantime', async () => {
+      orderModel.findOneAndUpdate.mockResolvedValue(null);
+
+      const released = await service.releaseExpiredSplitPayments();
+
+      expect(released).toBe(0);
+      expect(walletsService.refundToWallet).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,370 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { StockReservationService } from '../services/stock-reservation.service';
+import {
+  StockReservation,
+  ReservationStatus,
+} from '../entities/stock-reservation.entity';
+import { Order, OrderStatus } from '../entities/order.entity';
+import { Product } from '../../products/entities/product.entity';
+import { PromotionsService } from '../../promotions/promotions.service';
+import { SubOrdersService } from '../services/sub-orders.service';
+import { StoreInventoryService } from '../../stores/services/store-inventory.service';
+import { PickupSlotsService } from '../../stores/services/pickup-slots.service';
+import { DeliverySlotsService } from '../../delivery-slots/delivery-slots.service';
+import { InventoryService } from '../../products/services/inventory.service';
+import { InventoryMovementType } from '../../products/entities/inventory-movement.entity';
+import { PaymentService } from '../../payments/services/payment.service';
+
+describe('StockReservationService', () => {
+  let service: StockReservationService;
+  let reservationModel: any;
+  let productModel: any;
+  let orderModel: any;
+  let promotionsService: any;
+  let subOrdersService: any;
+  let storeInventoryService: any;
+  let pickupSlotsService: any;
+  let deliverySlotsService: any;
+  let inventoryService: any;
+  let paymentService: any;
+
+  const orderId = new Types.ObjectId();
+  const userId = new Types.ObjectId();
+  const riceId = new Types.ObjectId();
+  const beansId = new Types.ObjectId();
+
+  const items = [
+    { productId: riceId, quantity: 2 },
+    { productId: beansId, quantity: 1 },
+  ];
+
+  beforeEach(async () => {
+    reservationModel = {
+      create: jest.fn().mockImplementation((doc) => Promise.resolve(doc)),
+      findOne: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn(),
+      exists: jest.fn().mockResolvedValue(null),
+      find: jest.fn(),
+    };
+    productModel = {
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      findById: jest.fn(() => ({
+        select: jest.fn(() => ({
+          lean: jest.fn().mockResolvedValue({ name: 'Beans' }),
+        })),
+      })),
+    };
+    orderModel = {
+      findOneAndUpdate: jest.fn(),
+      exists: jest.fn().mockResolvedValue(null),
+    };
+    promotionsService = { releaseRedemption: jest.fn() };
+    subOrdersService = { syncWithParent: jest.fn() };
+    storeInventoryService = {
+      take: jest.fn().mockResolvedValue(undefined),
+      restore: jest.fn().mockResolvedValue(undefined),
+    };
+    pickupSlotsService = { release: jest.fn().mockResolvedValue(false) };
+    deliverySlotsService = { release: jest.fn().mockResolvedValue(false) };
+    inventoryService = { record: jest.fn().mockResolvedValue(null) };
+    paymentService = { hasPendingPayment: jest.fn().mockResolvedValue(false) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockReservationService,
+        {
+          provide: getModelToken(StockReservation.name),
+          useValue: reservationModel,
+        },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: getModelToken(Order.name), useValue: orderModel },
+        { provide: PromotionsService, useValue: promotionsService },
+        { provide: SubOrdersService, useValue: subOrdersService },
+        { provide: StoreInventoryService, useValue: storeInventoryService },
+        { provide: PickupSlotsService, useValue: pickupSlotsService },
+        { provide: DeliverySlotsService, useValue: deliverySlotsService },
+        { provide: InventoryService, useValue: inventoryService },
+        { provide: PaymentService, useValue: paymentService },
+      ],
+    }).compile();
+
+    service = module.get<StockReservationService>(StockReservationService);
+  });
+
+  describe('reserve', () => {
+    it('should hold nothing when an item is short', async () => {
+      productModel.updateOne
+        .mockResolvedValueOnce({ modifiedCount: 1 }) // rice taken
+        .mockResolvedValueOnce({ modifiedCount: 0 }); // beans short
+
+      await expect(
+        service.reserve(
+          orderId.toString(),
+          userId.toString(),
+          items,
+          new Date(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      // Rice is put back and no reservation is recorded
+      expect(productModel.updateOne).toHaveBeenLastCalledWith(
+        { _id: riceId },
+        { $inc: { stock: 2 } },
+      );
+      expect(reservationModel.create).not.toHaveBeenCalled();
+      expect(inventoryService.record).not.toHaveBeenCalled();
+    });
+
+    it('should record each item taken as a sale against the order', async () => {
+      await service.reserve(
+        orderId.toString(),
+        userId.toString(),
+        items,
+        new Date(),
+      );
+
+      expect(inventoryService.record).toHaveBeenCalledTimes(2);
+      expect(inventoryService.record).toHaveBeenCalledWith({
+        productId: riceId,
+        variantId: undefined,
+        type: InventoryMovementType.SALE,
+        quantity: -2,
+        reference: orderId.toString(),
+      });
+    });
+  });
+
+  describe('with packs', () => {
+    const largeBagId = new Types.ObjectId();
+    const packItems = [
+      { productId: riceId, variantId: largeBagId, quantity: 2 },
+    ];
+
+    it('should take a pack only if the pack has enough left', async () => {
+      await service.reserve(
+        orderId.toString(),
+        userId.toString(),
+        packItems,
+        new Date(),
+      );
+
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        {
+          _id: riceId,
+          variants: {
+            $elemMatch: { _id: largeBagId, stock: { $gte: 2 } },
+          },
+        },
+        { $inc: { 'variants.$.stock': -2, stock: -2 } },
+      );
+      expect(inventoryService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ productId: riceId, variantId: largeBagId }),
+      );
+    });
+
+    it('should hold nothing when the pack is short', async () => {
+      productModel.updateOne.mockResolvedValueOnce({ modifiedCount: 0 });
+
+      await expect(
+        service.reserve(
+          orderId.toString(),
+          userId.toString(),
+          packItems,
+          new Date(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(reservationModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should give the pack back its own stock on cancellation', async () => {
+      reservationModel.findOneAndUpdate.mockResolvedValue({
+        orderId,
+        items: packItems,
+      });
+
+      await service.release(orderId.toString(), 'Order cancelled');
+
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        { _id: riceId, 'variants._id': largeBagId },
+        { $inc: { 'variants.$.stock': 2, stock: 2 } },
+      );
+    });
+  });
+
+  describe('commit', () => {
+    it('should not take stock again for an already committed order', async () => {
+      reservationModel.findOneAndUpdate.mockResolvedValue(null);
+      reservationModel.findOne.mockResolvedValue({
+        status: ReservationStatus.COMMITTED,
+      });
+
+      const result = await service.commit({
+        _id: orderId,
+        userId,
+        items,
+      } as any);
+
+      expect(result).toBe(true);
+      expect(productModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('release', () => {
+    it('should return held stock on cancellation', async () => {
+      reservationModel.findOneAndUpdate.mockResolvedValue({ items });
+
+      const result = await service.release(orderId.toString(), 'Changed mind');
+
+      expect(result).toBe(true);
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        { _id: riceId },
+        { $inc: { stock: 2 } },
+      );
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        { _id: beansId },
+        { $inc: { stock: 1 } },
+      );
+    });
+
+    it('should return store stock and free the pickup slot', async () => {
+      const storeId = new Types.ObjectId();
+      reservationModel.findOneAndUpdate.mockResolvedValue({ items, storeId });
+
+      await service.release(orderId.toString(), 'Changed mind');
+
+      expect(pickupSlotsService.release).toHaveBeenCalledWith(
+        orderId.toString(),
+      );
+      expect(storeInventoryService.restore).toHaveBeenCalledWith(
+        storeId,
+        items,
+      );
+      expect(productModel.updateOne).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('adjust', () => {
+    it('should only take and return the difference', async () => {
+      reservationModel.findOne.mockResolvedValue({
+        _id: new Types.ObjectId(),
+        items,
+        status: ReservationStatus.ACTIVE,
+      });
+
+      const previous = await service.adjust(orderId.toString(), [
+        { productId: riceId, quantity: 3 },
+      ]);
+
+      expect(previous.items).toEqual(items);
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        { _id: riceId, stock: { $gte: 1 } },
+        { $inc: { stock: -1 } },
+      );
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        { _id: beansId },
+        { $inc: { stock: 1 } },
+      );
+      expect(storeInventoryService.take).not.toHaveBeenCalled();
+    });
+
+    it('should move store stock when the order is filled from another store', async () => {
+      const oldStoreId = new Types.ObjectId();
+      const newStoreId = new Types.ObjectId();
+      reservationModel.findOne.mockResolvedValue({
+        _id: new Types.ObjectId(),
+        storeId: oldStoreId,
+        items,
+        status: ReservationStatus.COMMITTED,
+      });
+
+      await service.adjust(orderId.toString(), items, newStoreId);
+
+      expect(storeInventoryService.take).toHaveBeenCalledWith(
+        newStoreId,
+        items,
+      );
+      expect(storeInventoryService.restore).toHaveBeenCalledWith(
+        oldStoreId,
+        items,
+      );
+      expect(productModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireReservations', () => {
+    it('should return stock and cancel the unpaid order', async () => {
+      const lapsed = { _id: new Types.ObjectId(), orderId, items };
+      reservationModel.find.mockReturnValue({
+        limit: jest.fn().mockResolvedValue([lapsed]),
+      });
+      reservationModel.findOneAndUpdate.mockResolvedValue(lapsed);
+      orderModel.findOneAndUpdate.mockResolvedValue({
+        _id: orderId,
+        promotion: { code: 'SAVE10' },
+      });
+
+      const expired = await service.expireReservations();
+
+      expect(expired).toBe(1);
+      expect(productModel.updateOne).toHaveBeenCalledTimes(2);
+      expect(orderModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: orderId, status: OrderStatus.PENDING, amountPaid: 0 },
+        expect.objectContaining({
+          $set: expect.objectContaining({ status: OrderStatus.CANCELLED }),
+        }),
+        { new: true },
+      );
+      expect(promotionsService.releaseRedemption).toHaveBeenCalledWith(
+        orderId.toString(),
+      );
+      expect(deliverySlotsService.release).toHaveBeenCalledWith(
+        orderId.toString(),
+      );
+      expect(subOrdersService.syncWithParent).toHaveBeenCalledWith(
+        orderId.toString(),
+        OrderStatus.CANCELLED,
+      );
+    });
+
+    describe('with a payment in flight', () => {
+      beforeEach(() => {
+        reservationModel.find.mockReturnValue({
+          limit: jest
+            .fn()
+            .mockResolvedValue([{ _id: new Types.ObjectId(), orderId, items }]),
+        });
+      });
+
+      it('should keep the hold of an order claimed by a split payment', async () => {
+        orderModel.exists.mockResolvedValue({ _id: orderId });
+
+        const expired = await service.expireReservations();
+
+        expect(expired).toBe(0);
+        expect(orderModel.exists).toHaveBeenCalledWith({
+          _id: orderId,
+          pendingSplitReference: { $exists: true },
+        });
+        expect(reservationModel.findOneAndUpdate).not.toHaveBeenCalled();
+        expect(orderModel.findOneAndUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should keep the hold of an order with a pending card payment', async () => {
+        paymentService.hasPendingPayment.mockResolvedValue(true);
+
+        const expired = await service.expireReservations();
+
+        expect(expired).toBe(0);
+        expect(paymentService.hasPendingPayment).toHaveBeenCalledWith(
+          orderId.toString(),
+        );
+        expect(productModel.updateOne).not.toHaveBeenCalled();
+        expect(orderModel.findOneAndUpdate).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { SubOrdersService } from '../services/sub-orders.service';
+import { SubOrder, SubOrderStatus } from '../entities/sub-order.entity';
+import { Order, OrderStatus } from '../entities/order.entity';
+import { Product } from '../../products/entities/product.entity';
+import { UserRole } from '../../users/entities/user.entity';
+import { OrdersService } from '../orders.service';
+import { SettlementsService } from '../../settlements/settlements.service';
+
+describe('SubOrdersService', () => {
+  let service: SubOrdersService;
+  let subOrderModel: any;
+  let orderModel: any;
+  let productModel: any;
+  let ordersService: any;
+  let settlementsService: any;
+
+  const userId = new Types.ObjectId();
+  const sellerA = new Types.ObjectId();
+  const sellerB = new Types.ObjectId();
+  const riceId = new Types.ObjectId();
+  const beansId = new Types.ObjectId();
+  const saltId = new Types.ObjectId();
+
+  const buildSubOrder = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(),
+    parentOrderId: new Types.ObjectId(),
+    userId,
+    sellerId: sellerA,
+    status: SubOrderStatus.CONFIRMED,
+    statusHistory: [],
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    subOrderModel = {
+      create: jest.fn().mockImplementation((docs) => Promise.resolve(docs)),
+      findById: jest.fn(),
+      find: jest.fn(),
+      updateMany: jest.fn(),
+    };
+    orderModel = { findById: jest.fn(), updateOne: jest.fn() };
+    productModel = {
+      find: jest.fn(() => ({
+        select: () => ({
+          lean: () =>
+            Promise.resolve([
+              { _id: riceId, sellerId: sellerA },
+              { _id: beansId, sellerId: sellerB },
+              { _id: saltId },
+            ]),
+        }),
+      })),
+    };
+    ordersService = { updateOrderStatus: jest.fn() };
+    settlementsService = {
+      loadCommissionResolver: jest.fn().mockResolvedValue(() => 0.1),
+      accrueSubOrder: jest.fn(),
+      accrueDeliveredSubOrders: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubOrdersService,
+        { provide: getModelToken(SubOrder.name), useValue: subOrderModel },
+        { provide: getModelToken(Order.name), useValue: orderModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: OrdersService, useValue: ordersService },
+        { provide: SettlementsService, useValue: settlementsService },
+      ],
+    }).compile();
+
+    service = module.get<SubOrdersService>(SubOrdersService);
+  });
+
+  describe('splitOrder', () => {
+    it('should create a sub-order per seller with fee shares and commission', async () => {
+      const order: any = {
+        _id: new Types.ObjectId(),
+        orderNumber: 'FRG12345678',
+        userId,
+        deliveryFee: 1000,
+        items: [
+          {
+            productId: riceId,
+            quantity: 2,
+            totalPrice: 6000,
+            discountAmount: 600,
+          },
+          { productId: beansId, quantity: 1, totalPrice: 3000 },
+          { productId: saltId, quantity: 1, totalPrice: 1000 },
+        ],
+      };
+
+      const subOrders: any[] = await service.splitOrder(order);
+
+      expect(subOrders).toHaveLength(3);
+      expect(subOrders[0]).toEqual(
+        expect.objectContaining({
+          subOrderNumber: 'FRG12345678-1',
+          sellerId: sellerA,
+          subtotal: 6000,
+          discountAmount: 600,
+          deliveryFee: 600,
+          total: 6000,
+          commissionAmount: 540,
+          sellerPayout: 4860,
+          status: SubOrderStatus.PENDING,
+        }),
+      );
+      expect(subOrders[1]).toEqual(
+        expect.objectContaining({ sellerId: sellerB, deliveryFee: 300 }),
+      );
+      // Admin-managed items take the rest of the fee and pay nobody out
+      expect(subOrders[2]).toEqual(
+        expect.objectContaining({
+          sellerId: undefined,
+          deliveryFee: 100,
+          commissionAmount: 0,
+          sellerPayout: 0,
+        }),
+      );
+    });
+  });
+
+  describe('updateStatus', () => {
+    it("should not let a seller update another seller's sub-order", async () => {
+      subOrderModel.findById.mockResolvedValue(buildSubOrder());
+
+      await expect(
+        service.updateStatus(
+          new Types.ObjectId().toString(),
+          { status: SubOrderStatus.READY },
+          sellerB.toString(),
+          UserRole.USER,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should only let sellers prepare and pack', async () => {
+      subOrderModel.findById.mockResolvedValue(buildSubOrder());
+
+      await expect(
+        service.updateStatus(
+          new Types.ObjectId().toString(),
+          { status: SubOrderStatus.DELIVERED },
+          sellerA.toString(),
+          UserRole.USER,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('applyDeliveryStatus', () => {
+    it('should deliver the parent once the last sub-order is delivered', async () => {
+      const subOrder = buildSubOrder({ status: SubOrderStatus.SHIPPED });
+      subOrderModel.findById.mockResolvedValue(subOrder);
+      orderModel.findById.mockReturnValue({
+        select: () =>
+          Promise.resolve({
+            _id: subOrder.parentOrderId,
+            status: OrderStatus.SHIPPED,
+          }),
+      });
+      subOrderModel.find.mockReturnValue({
+        select: () =>
+          Promise.resolve([
+            { status: SubOrderStatus.DELIVERED },
+            { status: SubOrderStatus.DELIVERED },
+          ]),
+      });
+
+      await service.applyDeliveryStatus(
+        subOrder._id.toString(),
+        SubOrderStatus.DELIVERED,
+        'Delivery confirmed',
+      );
+
+      expect(subOrder.status).toBe(SubOrderStatus.DELIVERED);
+      expect(subOrder.save).toHaveBeenCalled();
+      expect(settlementsService.accrueSubOrder).toHaveBeenCalledWith(subOrder);
+      expect(ordersService.updateOrderStatus).toHaveBeenCalledTimes(1);
+      expect(ordersService.updateOrderStatus).toHaveBeenCalledWith(
+        subOrder.parentOrderId.toString(),
+        OrderStatus.DELIVERED,
+        expect.objectContaining({ reason: 'All sub-orders delivered' }),
+      );
+    });
+
+    it('should leave the parent alone while other sub-orders are in progress', async () => {
+      const subOrder = buildSubOrder({ status: SubOrderStatus.READY });
+      subOrderModel.findById.mockResolvedValue(subOrder);
+      orderModel.findById.mockReturnValue({
+        select: () =>
+          Promise.resolve({
+            _id: subOrder.parentOrderId,
+            status: OrderStatus.PAID,
+          }),
+      });
+      subOrderModel.find.mockReturnValue({
+        select: () =>
+          Promise.resolve([
+            { status: SubOrderStatus.SHIPPED },
+            { status: SubOrderStatus.PREPARING },
+          ]),
+      });
+
+      await service.applyDeliveryStatus(
+        subOrder._id.toString(),
+        SubOrderStatus.SHIPPED,
+        'Picked up by rider',
+      );
+
+      expect(subOrder.status).toBe(SubOrderStatus.SHIPPED);
+      expect(ordersService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -28,6 +28,12 @@ export enum PaymentStatus {
   EXPIRED = 'EXPIRED',
 }
 
+// Payments still waiting on the gateway; only these can complete or fail
+export const PENDING_PAYMENT_STATUSES = [
+  PaymentStatus.PENDING,
+  PaymentStatus.PROCESSING,
+];
+
 export enum PaymentGateway {
   PAYSTACK = 'PAYSTACK',
   FLUTTERWAVE = 'FLUTTERWAVE',
@@ -52,6 +58,16 @@ export enum RefundStatus {
   FAILED = 'FAILED',
 }
 
+export enum WebhookEventStatus {
+  RECEIVED = 'RECEIVED',
+  PROCESSING = 'PROCESSING',
+  PROCESSED = 'PROCESSED',
+  FAILED = 'FAILED', // Failed an attempt, will be retried
+  DEAD_LETTER = 'DEAD_LETTER', // Out of retries, needs admin attention
+}
+
+export const PAYMENT_WEBHOOK_QUEUE = 'payment-webhooks';
+
 export enum PaymentFrequency {
   DAILY = 'DAILY',
   WEEKLY = 'WEEKLY',
@@ -103,6 +119,7 @@ export const PAYMENT_CONSTANTS = {
   WEBHOOK_TIMEOUT: 30000, // 30 seconds
   WEBHOOK_RETRY_ATTEMPTS: 5,
   WEBHOOK_SIGNATURE_TOLERANCE: 300, // 5 minutes
+  WEBHOOK_RETRY_DELAY: 10000, // 10 seconds, doubled on each retry
 
   // Reconciliation
   RECONCILIATION_BATCH_SIZE: 100,
@@ -143,9 +160,16 @@ export const PAYMENT_ERROR_MESSAGES = {
   TRANSACTION_NOT_FOUND: 'Transaction not found',
   REFUND_NOT_ALLOWED: 'Refund not allowed for this transaction',
   WEBHOOK_VERIFICATION_FAILED: 'Webhook signature verification failed',
+  WEBHOOK_EVENT_NOT_FOUND: 'Webhook event not found',
+  WEBHOOK_NOT_RETRYABLE: 'Only failed or dead-lettered webhook events can be retried',
   PAYMENT_EXPIRED: 'Payment session has expired',
   DUPLICATE_TRANSACTION: 'Duplicate transaction detected',
   RECONCILIATION_FAILED: 'Payment reconciliation failed',
+  ORDER_NOT_FOUND: 'Order not found',
+  ORDER_NOT_OWNED: 'You can only pay for your own orders',
+  ORDER_ALREADY_PAID: 'Order is already fully paid',
+  SPLIT_PAYMENT_IN_PROGRESS: 'A split payment for this order is already in progress',
+  WALLET_REFUND_VIA_ORDER: 'Wallet payments are refunded by cancelling or returning the order',
 };
 
 export const PAYMENT_SUCCESS_MESSAGES = {
@@ -9,6 +9,10 @@ import {
   Query, 
   UseGuards, 
   Request,
+  Req,
+  Headers,
+  UnauthorizedException,
+  RawBodyRequest,
   HttpStatus,
   HttpCode,
   Logger,
@@ -23,21 +27,34 @@ import {
   ApiParam,
   ApiQuery 
 } from '@nestjs/swagger';
+import { Request as ExpressRequest } from 'express';
 import { PaymentService } from '../services/payment.service';
+import { WebhookService } from '../services/webhook.service';
+import {
+  PaymentGateway,
+  PAYMENT_ERROR_MESSAGES,
+} from '../constants/payment.constants';
+import { PaystackStrategy } from '../strategies/paystack.strategy';
+import { FlutterwaveStrategy } from '../strategies/flutterwave.strategy';
 import { 
   PaymentInitiationDto, 
   PaymentVerificationDto, 
   RefundRequestDto,
   PaymentQueryDto,
   PaymentAnalyticsDto,
-  WebhookValidationDto
+  WebhookValidationDto,
+  WebhookEventQueryDto,
 } from '../dto/payment.dto';
 import { Payment } from '../entities/payment.entity';
 import { Refund } from '../entities/refund.entity';
 import { PaymentPlanEntity } from '../entities/payment-plan.entity';
+import { WebhookEvent } from '../entities/webhook-event.entity';
+import { Idempotent } from '../../idempotency/decorators/idempotent.decorator';
+import { Public } from '../../auth/decorators/public.decorator';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { UserRole } from '../../users/entities/user.entity';
 // import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 // import { RolesGuard } from '../../auth/guards/roles.guard';
-// import { Roles } from '../../auth/decorators/roles.decorator';
 
 @ApiTags('Payments')
 @Controller('payments')
@@ -45,9 +62,15 @@ import { PaymentPlanEntity } from '../entities/payment-plan.entity';
 export class PaymentController {
   private readonly logger = new Logger(PaymentController.name);
 
-  constructor(private readonly paymentService: PaymentService) {}
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly webhookService: WebhookService,
+    private readonly paystackStrategy: PaystackStrategy,
+    private readonly flutterwaveStrategy: FlutterwaveStrategy,
+  ) {}
 
   @Post('initiate')
+  @Idempotent()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Initiate a payment' })
   @ApiResponse({ status: 200, description: 'Payment initiated successfully' })
@@ -151,33 +174,68 @@ export class PaymentController {
     return await this.paymentService.getPaymentById(paymentId, userId);
   }
 
-  // Webhook endpoints for payment gateways
+  // Webhook endpoints for payment gateways. Events are verified, stored and
+  // acknowledged immediately; processing happens on the webhook queue.
+  @Public()
   @Post('webhooks/paystack')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Paystack webhook endpoint' })
-  @ApiResponse({ status: 200, description: 'Webhook processed successfully' })
-  async paystackWebhook(@Body() payload: any) {
+  @ApiResponse({ status: 200, description: 'Webhook accepted for processing' })
+  @ApiResponse({ status: 401, description: 'Invalid webhook signature' })
+  async paystackWebhook(
+    @Req() req: RawBodyRequest<ExpressRequest>,
+    @Headers('x-paystack-signature') signature: string,
+    @Body() payload: any,
+  ) {
     this.logger.log('Paystack webhook received');
-    
-    // TODO: Implement webhook validation and processing
-    // For now, just log the payload
-    this.logger.debug('Paystack webhook payload:', payload);
-    
-    return { message: 'Webhook received' };
+
+    if (!this.paystackStrategy.verifyWebhookSignature(req.rawBody, signature)) {
+      this.logger.warn('Rejected Paystack webhook with invalid signature');
+      throw new UnauthorizedException(
+        PAYMENT_ERROR_MESSAGES.WEBHOOK_VERIFICATION_FAILED,
+      );
+    }
+
+    const { duplicate } = await this.webhookService.receive(
+      PaymentGateway.PAYSTACK,
+      payload,
+      req.rawBody,
+    );
+
+    return {
+      message: duplicate ? 'Webhook already received' : 'Webhook received',
+    };
   }
 
+  @Public()
   @Post('webhooks/flutterwave')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Flutterwave webhook endpoint' })
   @ApiResponse({ status: 200, description: 'Webhook processed successfully' })
-  async flutterwaveWebhook(@Body() payload: any) {
+  @ApiResponse({ status: 401, description: 'Invalid webhook signature' })
+  async flutterwaveWebhook(
+    @Req() req: RawBodyRequest<ExpressRequest>,
+    @Headers('verif-hash') signature: string,
+    @Body() payload: any,
+  ) {
     this.logger.log('Flutterwave webhook received');
-    
-    // TODO: Implement webhook validation and processing
-    // For now, just log the payload
-    this.logger.debug('Flutterwave webhook payload:', payload);
-    
-    return { message: 'Webhook received' };
+
+    if (!this.flutterwaveStrategy.verifyWebhookSignature(signature)) {
+      this.logger.warn('Rejected Flutterwave webhook with invalid verif-hash');
+      throw new UnauthorizedException(
+        PAYMENT_ERROR_MESSAGES.WEBHOOK_VERIFICATION_FAILED,
+      );
+    }
+
+    const { duplicate } = await this.webhookService.receive(
+      PaymentGateway.FLUTTERWAVE,
+      payload,
+      req.rawBody,
+    );
+
+    return {
+      message: duplicate ? 'Webhook already received' : 'Webhook received',
+    };
   }
 }
 
@@ -185,10 +243,53 @@ export class PaymentController {
 @ApiTags('Admin - Payments')
 @Controller('admin/payments')
 @UsePipes(new ValidationPipe({ transform: true }))
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
 export class AdminPaymentController {
   private readonly logger = new Logger(AdminPaymentController.name);
 
-  constructor(private readonly paymentService: PaymentService) {}
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly webhookService: WebhookService,
+  ) {}
+
+  @Get('webhooks')
+  @ApiOperation({
+    summary: 'List webhook events, dead-lettered ones by default (admin)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook events retrieved successfully',
+  })
+  async getWebhookEvents(@Query() dto: WebhookEventQueryDto) {
+    this.logger.log(
+      `Admin listing ${dto.status || 'dead-lettered'} webhook events`,
+    );
+
+    return await this.webhookService.getWebhookEvents(dto);
+  }
+
+  @Post('webhooks/:id/retry')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Requeue a failed or dead-lettered webhook event (admin)',
+  })
+  @ApiParam({ name: 'id', description: 'Webhook event ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook event requeued',
+    type: WebhookEvent,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Webhook event is not in a retryable state',
+  })
+  @ApiResponse({ status: 404, description: 'Webhook event not found' })
+  async retryWebhookEvent(@Param('id') id: string) {
+    this.logger.log(`Admin retrying webhook event ${id}`);
+
+    return await this.webhookService.retryWebhookEvent(id);
+  }
 
   @Get()
   @ApiOperation({ summary: 'Get all payments (admin)' })
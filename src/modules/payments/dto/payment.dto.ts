@@ -6,12 +6,13 @@ import {
   IsArray, 
   IsBoolean,
   Min,
+  Max,
   ValidateNested,
   IsObject
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { PaymentType, PaymentMethod, PaymentGateway } from '../constants/payment.constants';
+import { PaymentType, PaymentMethod, PaymentGateway, WebhookEventStatus } from '../constants/payment.constants';
 
 export class PaymentInitiationDto {
   @ApiProperty({ description: 'Order ID for payment' })
@@ -30,12 +31,6 @@ export class PaymentInitiationDto {
   @IsEnum(PaymentGateway)
   gateway: PaymentGateway;
 
-  @ApiPropertyOptional({ description: 'Payment amount in kobo (for partial payments)' })
-  @IsOptional()
-  @IsNumber()
-  @Min(1)
-  amount?: number;
-
   @ApiPropertyOptional({ description: 'Number of installments for PAY Small-Small' })
   @IsOptional()
   @IsNumber()
@@ -239,3 +234,33 @@ export class PaymentAnalyticsDto {
   @IsEnum(PaymentGateway, { each: true })
   gateways?: PaymentGateway[];
 }
+
+export class WebhookEventQueryDto {
+  @ApiPropertyOptional({
+    description: 'Webhook status filter (defaults to dead-lettered events)',
+    enum: WebhookEventStatus,
+  })
+  @IsOptional()
+  @IsEnum(WebhookEventStatus)
+  status?: WebhookEventStatus;
+
+  @ApiPropertyOptional({ description: 'Payment gateway filter', enum: PaymentGateway })
+  @IsOptional()
+  @IsEnum(PaymentGateway)
+  gateway?: PaymentGateway;
+
+  @ApiPropertyOptional({ description: 'Page number for pagination' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Number of items per page' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
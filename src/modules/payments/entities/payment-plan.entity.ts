@@ -33,8 +33,8 @@ export class PaymentPlanEntity {
   @Min(0)
   paidAmount: number;
 
+  // Computed by the remainingAmount virtual below
   @ApiProperty({ description: 'Remaining amount to be paid' })
-  @Prop({ required: false, type: Number })
   @IsOptional()
   @IsNumber()
   remainingAmount?: number;
@@ -0,0 +1,83 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsEnum, IsOptional, IsNumber, Min } from 'class-validator';
+import {
+  PaymentGateway,
+  WebhookEventStatus,
+} from '../constants/payment.constants';
+
+export type WebhookEventDocument = WebhookEvent & Document;
+
+@Schema({ timestamps: true })
+export class WebhookEvent {
+  @ApiProperty({
+    description: 'Gateway that sent the webhook',
+    enum: PaymentGateway,
+  })
+  @Prop({ required: true, type: String, enum: PaymentGateway })
+  @IsEnum(PaymentGateway)
+  gateway: PaymentGateway;
+
+  @ApiProperty({ description: 'Gateway event ID used to ignore replays' })
+  @Prop({ required: true, type: String })
+  @IsString()
+  eventId: string;
+
+  @ApiProperty({ description: 'Event type, e.g. charge.success' })
+  @Prop({ required: true, type: String })
+  @IsString()
+  event: string;
+
+  @ApiProperty({ description: 'Payment reference the event refers to' })
+  @Prop({ required: false, type: String })
+  @IsOptional()
+  @IsString()
+  reference?: string;
+
+  @ApiProperty({ description: 'Webhook payload as received' })
+  @Prop({ required: true, type: Object })
+  payload: Record<string, any>;
+
+  @ApiProperty({ description: 'Processing status', enum: WebhookEventStatus })
+  @Prop({
+    required: true,
+    type: String,
+    enum: WebhookEventStatus,
+    default: WebhookEventStatus.RECEIVED,
+  })
+  @IsEnum(WebhookEventStatus)
+  status: WebhookEventStatus;
+
+  @ApiProperty({ description: 'Number of processing attempts' })
+  @Prop({ required: true, type: Number, default: 0, min: 0 })
+  @IsNumber()
+  @Min(0)
+  attempts: number;
+
+  @ApiProperty({ description: 'Error from the last failed attempt' })
+  @Prop({ required: false, type: String })
+  @IsOptional()
+  @IsString()
+  lastError?: string;
+
+  @ApiProperty({ description: 'When processing succeeded' })
+  @Prop({ required: false, type: Date })
+  @IsOptional()
+  processedAt?: Date;
+
+  @ApiProperty({ description: 'When the event ran out of retries' })
+  @Prop({ required: false, type: Date })
+  @IsOptional()
+  deadLetteredAt?: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const WebhookEventSchema = SchemaFactory.createForClass(WebhookEvent);
+
+// A gateway event is only ever stored once; replays hit this index
+WebhookEventSchema.index({ gateway: 1, eventId: 1 }, { unique: true });
+WebhookEventSchema.index({ status: 1, createdAt: -1 });
+WebhookEventSchema.index({ reference: 1 });
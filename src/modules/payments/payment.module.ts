@@ -8,9 +8,12 @@ import { EventEmitterModule } from '@nestjs/event-emitter';
 import { Payment, PaymentSchema } from './entities/payment.entity';
 import { Refund, RefundSchema } from './entities/refund.entity';
 import { PaymentPlanEntity, PaymentPlanSchema } from './entities/payment-plan.entity';
+import { WebhookEvent, WebhookEventSchema } from './entities/webhook-event.entity';
+import { Order, OrderSchema } from '../orders/entities/order.entity';
 
 // Services
 import { PaymentService } from './services/payment.service';
+import { WebhookService } from './services/webhook.service';
 
 // Controllers
 import { PaymentController, AdminPaymentController } from './controllers/payment.controller';
@@ -18,6 +21,8 @@ import { PaymentController, AdminPaymentController } from './controllers/payment
 // Strategies and Factories
 import { PaymentStrategyFactory } from './strategies/payment-strategy.factory';
 import { PaystackStrategy } from './strategies/paystack.strategy';
+import { FlutterwaveStrategy } from './strategies/flutterwave.strategy';
+import { FoodMoneyPaymentStrategy, NibiaPaymentStrategy } from './strategies/wallet-payment.strategy';
 
 // Guards
 import { PaymentGuard } from './guards/payment.guard';
@@ -27,6 +32,13 @@ import { PaymentProcessor } from './processors/payment.processor';
 import { WebhookProcessor } from './processors/webhook.processor';
 import { ReconciliationProcessor } from './processors/reconciliation.processor';
 
+// Constants
+import { PAYMENT_WEBHOOK_QUEUE } from './constants/payment.constants';
+
+// Shared
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { WalletsModule } from '../wallets/wallets.module';
+
 @Module({
   imports: [
     // Mongoose models
@@ -34,6 +46,8 @@ import { ReconciliationProcessor } from './processors/reconciliation.processor';
       { name: Payment.name, schema: PaymentSchema },
       { name: Refund.name, schema: RefundSchema },
       { name: PaymentPlanEntity.name, schema: PaymentPlanSchema },
+      { name: WebhookEvent.name, schema: WebhookEventSchema },
+      { name: Order.name, schema: OrderSchema },
     ]),
     
     // Bull queues for background processing
@@ -46,10 +60,15 @@ import { ReconciliationProcessor } from './processors/reconciliation.processor';
     BullModule.registerQueue({
       name: 'payment-retry',
     }),
+    BullModule.registerQueue({
+      name: PAYMENT_WEBHOOK_QUEUE,
+    }),
     
     // Config and Events
     ConfigModule,
     EventEmitterModule,
+    IdempotencyModule,
+    WalletsModule,
   ],
   
   controllers: [
@@ -59,8 +78,12 @@ import { ReconciliationProcessor } from './processors/reconciliation.processor';
   
   providers: [
     PaymentService,
+    WebhookService,
     PaymentStrategyFactory,
     PaystackStrategy,
+    FlutterwaveStrategy,
+    FoodMoneyPaymentStrategy,
+    NibiaPaymentStrategy,
     PaymentProcessor,
     WebhookProcessor,
     ReconciliationProcessor,
@@ -1,7 +1,7 @@
 import { Processor, Process } from '@nestjs/bull';
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { Job } from 'bull';
 import { Payment, PaymentDocument } from '../entities/payment.entity';
 import { PaymentService } from '../services/payment.service';
@@ -9,7 +9,8 @@ import { PaymentStrategyFactory } from '../strategies/payment-strategy.factory';
 import { 
   PaymentStatus, 
   PaymentGateway,
-  PAYMENT_CONSTANTS 
+  PAYMENT_CONSTANTS,
+  PENDING_PAYMENT_STATUSES,
 } from '../constants/payment.constants';
 import { IPaymentRetryJob } from '../interfaces/payment.interface';
 
@@ -53,10 +54,13 @@ export class PaymentProcessor {
 
       // Check retry limit
       if (retryCount >= maxRetries) {
-        await this.paymentModel.findByIdAndUpdate(payment._id, {
-          status: PaymentStatus.FAILED,
-          lastError: 'Maximum retry attempts exceeded',
-        });
+        await this.paymentModel.findOneAndUpdate(
+          { _id: payment._id, status: { $in: PENDING_PAYMENT_STATUSES } },
+          {
+            status: PaymentStatus.FAILED,
+            lastError: 'Maximum retry attempts exceeded',
+          },
+        );
         this.logger.warn(`Payment ${transactionId} failed after ${maxRetries} retries`);
         return;
       }
@@ -68,12 +72,10 @@ export class PaymentProcessor {
 
         // Update payment based on verification result
         const updateData: Partial<Payment> = {
-          status: verificationResult.status,
           retryCount: payment.retryCount + 1,
         };
 
         if (verificationResult.status === PaymentStatus.COMPLETED) {
-          updateData.completedAt = new Date();
           updateData.gatewayResponse = {
             ...payment.gatewayResponse,
             gatewayTransactionId: verificationResult.transactionId,
@@ -84,7 +86,7 @@ export class PaymentProcessor {
           updateData.lastError = 'Payment verification failed on retry';
         }
 
-        await this.paymentModel.findByIdAndUpdate(payment._id, updateData);
+        await this.applyVerification(payment, verificationResult.status, updateData);
 
         this.logger.log(`Payment retry ${retryCount} completed for ${transactionId}, status: ${verificationResult.status}`);
       } catch (strategyError) {
@@ -98,10 +100,13 @@ export class PaymentProcessor {
 
         // Mark as failed if max retries reached
         if (retryCount >= maxRetries) {
-          await this.paymentModel.findByIdAndUpdate(payment._id, {
-            status: PaymentStatus.FAILED,
-            lastError: `Max retries exceeded. Last error: ${strategyError.message}`,
-          });
+          await this.paymentModel.findOneAndUpdate(
+            { _id: payment._id, status: { $in: PENDING_PAYMENT_STATUSES } },
+            {
+              status: PaymentStatus.FAILED,
+              lastError: `Max retries exceeded. Last error: ${strategyError.message}`,
+            },
+          );
         }
       }
     } catch (error) {
@@ -137,12 +142,10 @@ export class PaymentProcessor {
 
           // Update payment based on verification
           const updateData: Partial<Payment> = {
-            status: verificationResult.status,
             retryCount: payment.retryCount + 1,
           };
 
           if (verificationResult.status === PaymentStatus.COMPLETED) {
-            updateData.completedAt = new Date();
             updateData.gatewayResponse = {
               ...payment.gatewayResponse,
               gatewayTransactionId: verificationResult.transactionId,
@@ -151,7 +154,7 @@ export class PaymentProcessor {
             };
           }
 
-          await this.paymentModel.findByIdAndUpdate(payment._id, updateData);
+          await this.applyVerification(payment, verificationResult.status, updateData);
 
           this.logger.log(`Batch verification completed for payment ${payment.reference}, status: ${verificationResult.status}`);
         } catch (verificationError) {
@@ -188,12 +191,18 @@ export class PaymentProcessor {
       this.logger.log(`Found ${expiredPayments.length} expired payments`);
 
       for (const payment of expiredPayments) {
-        await this.paymentModel.findByIdAndUpdate(payment._id, {
-          status: PaymentStatus.EXPIRED,
-          lastError: 'Payment expired due to timeout',
-        });
-
-        this.logger.log(`Payment ${payment.reference} marked as expired`);
+        // A payment completed since it was found is left alone
+        const expired = await this.paymentModel.findOneAndUpdate(
+          { _id: payment._id, status: { $in: PENDING_PAYMENT_STATUSES } },
+          {
+            status: PaymentStatus.EXPIRED,
+            lastError: 'Payment expired due to timeout',
+          },
+        );
+
+        if (expired) {
+          this.logger.log(`Payment ${payment.reference} marked as expired`);
+        }
       }
 
       this.logger.log('Payment expiry job completed');
@@ -201,4 +210,25 @@ export class PaymentProcessor {
       this.logger.error(`Error in payment expiry job: ${error.message}`, error.stack);
     }
   }
+
+  /**
+   * Record a verification result. A completed payment goes through
+   * PaymentService so its order is settled; any other outcome only applies
+   * while the payment is still pending
+   */
+  private async applyVerification(
+    payment: PaymentDocument,
+    status: PaymentStatus,
+    updateData: Partial<Payment>,
+  ): Promise<void> {
+    if (status === PaymentStatus.COMPLETED) {
+      await this.paymentService.completePayment(payment._id as Types.ObjectId, updateData);
+      return;
+    }
+
+    await this.paymentModel.findOneAndUpdate(
+      { _id: payment._id, status: { $in: PENDING_PAYMENT_STATUSES } },
+      { ...updateData, status },
+    );
+  }
 }
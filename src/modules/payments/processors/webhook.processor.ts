@@ -1,27 +1,100 @@
+import { Processor, Process, OnQueueFailed } from '@nestjs/bull';
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
+import { Job } from 'bull';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Payment, PaymentDocument } from '../entities/payment.entity';
+import {
+  WebhookEvent,
+  WebhookEventDocument,
+} from '../entities/webhook-event.entity';
 import { PaymentService } from '../services/payment.service';
-import { 
-  PaymentStatus, 
-  PaymentGateway, 
+import { WebhookJobData } from '../services/webhook.service';
+import {
+  PaymentStatus,
+  PaymentGateway,
   RefundStatus,
-  PAYMENT_CONSTANTS 
+  WebhookEventStatus,
+  PAYMENT_CONSTANTS,
+  PAYMENT_WEBHOOK_QUEUE,
+  PENDING_PAYMENT_STATUSES,
 } from '../constants/payment.constants';
 import { IWebhookEvent } from '../interfaces/payment.interface';
 
+@Processor(PAYMENT_WEBHOOK_QUEUE)
 @Injectable()
 export class WebhookProcessor {
   private readonly logger = new Logger(WebhookProcessor.name);
 
   constructor(
     @InjectModel(Payment.name) private paymentModel: Model<PaymentDocument>,
+    @InjectModel(WebhookEvent.name)
+    private webhookEventModel: Model<WebhookEventDocument>,
     private readonly paymentService: PaymentService,
     private readonly eventEmitter: EventEmitter2,
   ) {}
 
+  /**
+   * Process a stored webhook event. Throwing lets Bull retry the job with
+   * backoff; the failure handler dead-letters it once retries run out.
+   */
+  @Process('process-webhook')
+  async handleWebhookJob(job: Job<WebhookJobData>): Promise<void> {
+    const webhookEvent = await this.webhookEventModel.findByIdAndUpdate(
+      job.data.webhookEventId,
+      {
+        $set: { status: WebhookEventStatus.PROCESSING },
+        $inc: { attempts: 1 },
+      },
+      { new: true },
+    );
+
+    if (!webhookEvent) {
+      this.logger.error(`Webhook event ${job.data.webhookEventId} not found`);
+      return;
+    }
+
+    const result =
+      webhookEvent.gateway === PaymentGateway.FLUTTERWAVE
+        ? await this.processFlutterwaveWebhook(webhookEvent.payload)
+        : await this.processPaystackWebhook(webhookEvent.payload);
+
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+
+    await this.webhookEventModel.findByIdAndUpdate(webhookEvent._id, {
+      $set: {
+        status: WebhookEventStatus.PROCESSED,
+        processedAt: new Date(),
+      },
+      $unset: { lastError: 1 },
+    });
+  }
+
+  @OnQueueFailed()
+  async onWebhookJobFailed(
+    job: Job<WebhookJobData>,
+    error: Error,
+  ): Promise<void> {
+    const outOfRetries = job.attemptsMade >= (job.opts.attempts || 1);
+
+    this.logger.error(
+      `Webhook event ${job.data.webhookEventId} failed (attempt ${job.attemptsMade}): ${error.message}`,
+    );
+
+    await this.webhookEventModel.findByIdAndUpdate(job.data.webhookEventId, {
+      $set: {
+        status: outOfRetries
+          ? WebhookEventStatus.DEAD_LETTER
+          : WebhookEventStatus.FAILED,
+        lastError: error.message,
+        ...(outOfRetries && { deadLetteredAt: new Date() }),
+      },
+    });
+  }
+
   /**
    * Process Paystack webhook events
    */
@@ -58,8 +131,11 @@ export class WebhookProcessor {
       const { event, data } = payload;
 
       switch (event) {
+        // Sent for failed charges too; only the status tells them apart
         case 'charge.completed':
-          return await this.handlePaymentSuccess(data, PaymentGateway.FLUTTERWAVE);
+          return data?.status === 'successful'
+            ? await this.handlePaymentSuccess(data, PaymentGateway.FLUTTERWAVE)
+            : await this.handlePaymentFailure(data, PaymentGateway.FLUTTERWAVE);
         case 'charge.failed':
           return await this.handlePaymentFailure(data, PaymentGateway.FLUTTERWAVE);
         default:
@@ -91,29 +167,24 @@ export class WebhookProcessor {
         return { success: false, message: 'Payment not found' };
       }
 
-      // Update payment status if not already completed
-      if (payment.status !== PaymentStatus.COMPLETED) {
-        await this.paymentModel.findByIdAndUpdate(payment._id, {
-          status: PaymentStatus.COMPLETED,
-          completedAt: new Date(),
-          gatewayResponse: {
-            ...payment.gatewayResponse,
-            gatewayTransactionId: transactionId,
-            message: 'Payment completed via webhook',
-            rawResponse: data,
-          },
-        });
-
-        // Emit payment completed event
-        this.eventEmitter.emit('payment.completed', {
-          paymentId: payment._id,
-          userId: payment.userId,
-          orderId: payment.metadata?.orderId,
-          amount: payment.amount,
-          reference,
-          gateway,
-        });
+      // A charge for less, or in another currency, does not pay for the order
+      if (amount !== payment.amount || (data.currency && data.currency !== payment.currency)) {
+        this.logger.error(
+          `Payment ${reference} reported ${amount} ${data.currency} but ${payment.amount} ${payment.currency} was expected`,
+        );
+        return { success: true, message: 'Payment amount or currency does not match' };
+      }
 
+      // Verify may already have completed it; only the first one settles the order
+      const completed = await this.paymentService.completePayment(payment._id as Types.ObjectId, {
+        gatewayResponse: {
+          ...payment.gatewayResponse,
+          gatewayTransactionId: transactionId,
+          message: 'Payment completed via webhook',
+          rawResponse: data,
+        },
+      });
+      if (completed) {
         this.logger.log(`Payment ${reference} marked as completed via webhook`);
       }
 
@@ -142,16 +213,24 @@ export class WebhookProcessor {
         return { success: false, message: 'Payment not found' };
       }
 
-      // Update payment status
-      await this.paymentModel.findByIdAndUpdate(payment._id, {
-        status: PaymentStatus.FAILED,
-        lastError: failureReason,
-        gatewayResponse: {
-          ...payment.gatewayResponse,
-          message: failureReason,
-          rawResponse: data,
+      // Only a payment still waiting on the gateway can fail; a late or
+      // replayed failure must not undo a completed one
+      const failed = await this.paymentModel.findOneAndUpdate(
+        { _id: payment._id, status: { $in: PENDING_PAYMENT_STATUSES } },
+        {
+          status: PaymentStatus.FAILED,
+          lastError: failureReason,
+          gatewayResponse: {
+            ...payment.gatewayResponse,
+            message: failureReason,
+            rawResponse: data,
+          },
         },
-      });
+      );
+      if (!failed) {
+        this.logger.warn(`Ignored failure webhook for ${payment.status} payment ${reference}`);
+        return { success: true, message: 'Payment is no longer pending' };
+      }
 
       // Emit payment failed event
       this.eventEmitter.emit('payment.failed', {
@@ -1,4 +1,4 @@
-import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, NotFoundException, ForbiddenException, ServiceUnavailableException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { ConfigService } from '@nestjs/config';
@@ -6,7 +6,8 @@ import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Payment, PaymentDocument } from '../entities/payment.entity';
 import { Refund, RefundDocument } from '../entities/refund.entity';
 import { PaymentPlanEntity, PaymentPlanDocument } from '../entities/payment-plan.entity';
-import { PaymentStrategyFactory } from '../strategies/payment-strategy.factory';
+import { Order, OrderDocument } from '../../orders/entities/order.entity';
+import { PaymentStrategyFactory, FAILOVER_GATEWAYS, INTERNAL_WALLET_METHODS } from '../strategies/payment-strategy.factory';
 import { 
   PaymentInitiationDto, 
   PaymentVerificationDto, 
@@ -20,7 +21,9 @@ import {
   PaymentMethod,
   PaymentGateway,
   RefundStatus,
-  PAYMENT_CONSTANTS
+  PAYMENT_CONSTANTS,
+  PAYMENT_ERROR_MESSAGES,
+  PENDING_PAYMENT_STATUSES,
 } from '../constants/payment.constants';
 import {
   IPaymentRequest,
@@ -40,26 +43,38 @@ export class PaymentService {
     @InjectModel(Payment.name) private paymentModel: Model<PaymentDocument>,
     @InjectModel(Refund.name) private refundModel: Model<RefundDocument>,
     @InjectModel(PaymentPlanEntity.name) private paymentPlanModel: Model<PaymentPlanDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
     private readonly configService: ConfigService,
     private readonly eventEmitter: EventEmitter2,
     private readonly strategyFactory: PaymentStrategyFactory,
   ) {}
 
   /**
-   * Initiate a payment
+   * Initiate a payment for the user's own order. The amount comes from the
+   * order, never from the client; internal callers paying part of it, such as
+   * the card leg of a split payment, pass the amount due in kobo.
    */
-  async initiatePayment(userId: string, dto: PaymentInitiationDto): Promise<IPaymentResponse> {
+  async initiatePayment(userId: string, dto: PaymentInitiationDto, amountDue?: number): Promise<IPaymentResponse> {
     try {
       this.logger.log(`Initiating payment for user ${userId} with order ${dto.orderId}`);
 
       // Validate order exists and get details
-      const orderDetails = await this.validateAndGetOrderDetails(dto.orderId, userId);
+      // Only the split payment holding the order may charge its card leg
+      const splitReference = amountDue !== undefined ? dto.metadata?.splitReference : undefined;
+      const orderDetails = await this.validateAndGetOrderDetails(dto.orderId, userId, splitReference);
       
       // Calculate payment amount based on payment type
-      const paymentAmount = await this.calculatePaymentAmount(orderDetails, dto);
+      const paymentAmount = amountDue !== undefined
+        ? Math.min(amountDue, orderDetails.outstandingAmount)
+        : await this.calculatePaymentAmount(orderDetails, dto);
       
       // Generate unique payment reference
       const paymentReference = this.generatePaymentReference();
+
+      // Wallet payments are settled internally whatever gateway was requested
+      const gateway = INTERNAL_WALLET_METHODS.includes(dto.paymentMethod)
+        ? PaymentGateway.INTERNAL_WALLET
+        : dto.gateway;
       
       // Create payment record
       const paymentData: Partial<Payment> = {
@@ -68,7 +83,7 @@ export class PaymentService {
         amount: paymentAmount,
         paymentType: dto.paymentType,
         paymentMethod: dto.paymentMethod,
-        gateway: dto.gateway,
+        gateway,
         status: PaymentStatus.PENDING,
         currency: PAYMENT_CONSTANTS.DEFAULT_CURRENCY,
         netAmount: paymentAmount, // Will be updated after fee calculation
@@ -85,19 +100,19 @@ export class PaymentService {
       let strategy: IPaymentStrategy;
       
       try {
-        strategy = this.strategyFactory.getGatewayStrategy(dto.gateway);
+        strategy = this.strategyFactory.getPaymentStrategy(gateway, dto.paymentMethod);
       } catch (error) {
         // If gateway strategy not available, return mock response for now
-        this.logger.warn(`Gateway strategy not available for ${dto.gateway}, returning mock response`);
+        this.logger.warn(`Gateway strategy not available for ${gateway}, returning mock response`);
         return {
           transactionId: payment._id.toString(),
           reference: paymentReference,
           status: PaymentStatus.PENDING,
-          gateway: dto.gateway,
+          gateway,
           authorizationUrl: `https://mock-gateway.com/pay/${paymentReference}`,
           message: 'Payment initiation successful',
-          fees: this.calculateFees(paymentAmount, dto.gateway),
-          netAmount: paymentAmount - this.calculateFees(paymentAmount, dto.gateway),
+          fees: this.calculateFees(paymentAmount, gateway),
+          netAmount: paymentAmount - this.calculateFees(paymentAmount, gateway),
         };
       }
 
@@ -118,10 +133,23 @@ export class PaymentService {
         },
       };
 
-      const response = await strategy.initializePayment(paymentRequest);
+      let response: IPaymentResponse;
+      try {
+        response = await this.initializeWithFailover(gateway, strategy, paymentRequest);
+      } catch (error) {
+        await this.paymentModel.findByIdAndUpdate(payment._id, {
+          status: PaymentStatus.FAILED,
+          lastError: error.message,
+        });
+        throw error;
+      }
+
+      // Wallet payments settle during initialization
+      const completed = response.status === PaymentStatus.COMPLETED;
 
       // Update payment with gateway response
       await this.paymentModel.findByIdAndUpdate(payment._id, {
+        gateway: response.gateway,
         gatewayResponse: {
           gatewayTransactionId: response.transactionId,
           gatewayReference: response.reference,
@@ -152,6 +180,10 @@ export class PaymentService {
         reference: paymentReference,
       });
 
+      if (completed) {
+        await this.completePayment(payment._id as Types.ObjectId);
+      }
+
       return response;
     } catch (error) {
       this.logger.error(`Error initiating payment: ${error.message}`, error.stack);
@@ -190,13 +222,11 @@ export class PaymentService {
 
       // Get strategy and verify with gateway
       try {
-        const strategy = this.strategyFactory.getGatewayStrategy(dto.gateway);
+        // The payment may have been moved to another gateway on failover
+        const strategy = this.strategyFactory.getPaymentStrategy(payment.gateway || dto.gateway, payment.paymentMethod);
         const verificationResult = await strategy.verifyPayment(dto.reference);
 
-        // Update payment status
         const updateData: Partial<Payment> = {
-          status: verificationResult.status,
-          completedAt: verificationResult.status === PaymentStatus.COMPLETED ? new Date() : undefined,
           fees: {
             gatewayFee: verificationResult.fees,
             serviceFee: 0,
@@ -206,20 +236,29 @@ export class PaymentService {
           netAmount: verificationResult.netAmount,
         };
 
+        let completed = false;
         if (verificationResult.status === PaymentStatus.COMPLETED) {
-          updateData.gatewayResponse = {
-            ...payment.gatewayResponse,
-            gatewayTransactionId: verificationResult.transactionId,
-            gatewayReference: verificationResult.reference,
-            message: 'Payment verified successfully',
-            rawResponse: verificationResult.gatewayResponse,
-          };
+          completed = !!(await this.completePayment(payment._id as Types.ObjectId, {
+            ...updateData,
+            gatewayResponse: {
+              ...payment.gatewayResponse,
+              gatewayTransactionId: verificationResult.transactionId,
+              gatewayReference: verificationResult.reference,
+              message: 'Payment verified successfully',
+              rawResponse: verificationResult.gatewayResponse,
+            },
+          }));
+        } else {
+          await this.paymentModel.findOneAndUpdate(
+            { _id: payment._id, status: { $in: PENDING_PAYMENT_STATUSES } },
+            { ...updateData, status: verificationResult.status },
+          );
         }
 
-        await this.paymentModel.findByIdAndUpdate(payment._id, updateData);
-
-        // Handle payment plan updates if applicable
-        if (verificationResult.status === PaymentStatus.COMPLETED && payment.metadata?.orderId) {
+        // Handle payment plan updates if applicable. Only the call that
+        // completed the payment counts it, so a webhook or repeat verify
+        // cannot count it twice
+        if (completed && payment.metadata?.orderId) {
           // Find payment plan by order ID if exists
           const paymentPlan = await this.paymentPlanModel.findOne({ 
             orderId: payment.metadata.orderId,
@@ -242,29 +281,20 @@ export class PaymentService {
 
         return verificationResult;
       } catch (strategyError) {
-        this.logger.warn(`Strategy verification failed, returning mock result: ${strategyError.message}`);
-        
-        // Return mock verification for development
-        const mockVerification: IPaymentVerification = {
+        // Without the gateway's word the payment stays as it is; the webhook
+        // or a later verify completes it
+        this.logger.warn(`Strategy verification failed, returning stored status: ${strategyError.message}`);
+        return {
           transactionId: payment._id.toString(),
           reference: dto.reference,
-          status: PaymentStatus.COMPLETED,
+          status: payment.status,
           amount: payment.amount,
           currency: payment.currency,
-          paidAt: new Date(),
           gateway: payment.gateway,
           gatewayResponse: {},
-          fees: this.calculateFees(payment.amount, payment.gateway),
-          netAmount: payment.amount - this.calculateFees(payment.amount, payment.gateway),
+          fees: payment.fees?.totalFees || 0,
+          netAmount: payment.netAmount,
         };
-
-        // Update payment status for mock
-        await this.paymentModel.findByIdAndUpdate(payment._id, {
-          status: PaymentStatus.COMPLETED,
-          fees: mockVerification.fees,
-        });
-
-        return mockVerification;
       }
     } catch (error) {
       this.logger.error(`Error verifying payment: ${error.message}`, error.stack);
@@ -273,7 +303,52 @@ export class PaymentService {
   }
 
   /**
-   * Process refund request
+   * Mark a payment completed and announce it with payment.completed, which
+   * settles its order. The move from pending is one conditional update, so
+   * verification, webhooks and wallet charges racing each other complete
+   * and announce a payment once. Returns null when it was no longer pending.
+   */
+  async completePayment(
+    paymentId: Types.ObjectId,
+    updateData: Partial<Payment> = {},
+  ): Promise<PaymentDocument | null> {
+    const payment = await this.paymentModel.findOneAndUpdate(
+      { _id: paymentId, status: { $in: PENDING_PAYMENT_STATUSES } },
+      { ...updateData, status: PaymentStatus.COMPLETED, completedAt: new Date() },
+      { new: true },
+    );
+    if (!payment) {
+      return null;
+    }
+
+    this.eventEmitter.emit('payment.completed', {
+      paymentId: payment._id,
+      userId: payment.userId,
+      orderId: payment.metadata?.orderId,
+      amount: payment.amount,
+      paymentMethod: payment.paymentMethod,
+      reference: payment.reference,
+      gateway: payment.gateway,
+    });
+    return payment;
+  }
+
+  /**
+   * Whether the order has a gateway payment that may still complete, i.e.
+   * one still pending and not yet past the payment timeout
+   */
+  async hasPendingPayment(orderId: string): Promise<boolean> {
+    const payment = await this.paymentModel.exists({
+      'metadata.orderId': orderId,
+      status: { $in: PENDING_PAYMENT_STATUSES },
+      initiatedAt: { $gt: new Date(Date.now() - PAYMENT_CONSTANTS.PAYMENT_TIMEOUT) },
+    });
+    return !!payment;
+  }
+
+  /**
+   * Process refund request. Wallet payments are refunded by cancelling or
+   * returning the order, which also takes the payment off the order
    */
   async processRefund(userId: string, dto: RefundRequestDto): Promise<IRefundResponse> {
     try {
@@ -293,6 +368,10 @@ export class PaymentService {
         throw new BadRequestException('Can only refund successful payments');
       }
 
+      if (payment.gateway === PaymentGateway.INTERNAL_WALLET) {
+        throw new BadRequestException(PAYMENT_ERROR_MESSAGES.WALLET_REFUND_VIA_ORDER);
+      }
+
       // Check if refund amount is valid
       if (dto.amount > payment.amount) {
         throw new BadRequestException('Refund amount exceeds payment amount');
@@ -300,8 +379,9 @@ export class PaymentService {
 
       // Check for existing refunds
       const existingRefunds = await this.refundModel.find({ paymentId: payment._id });
+      const activeRefundStatuses = [RefundStatus.APPROVED, RefundStatus.PROCESSING, RefundStatus.COMPLETED];
       const totalRefunded = existingRefunds.reduce((sum, refund) => 
-        refund.status === RefundStatus.APPROVED ? sum + refund.amount : sum, 0);
+        activeRefundStatuses.includes(refund.status) ? sum + refund.amount : sum, 0);
 
       if (totalRefunded + dto.amount > payment.amount) {
         throw new BadRequestException('Total refund amount would exceed payment amount');
@@ -325,10 +405,12 @@ export class PaymentService {
       const refund = new this.refundModel(refundData);
       await refund.save();
 
-      // For now, return success response as gateway strategies are not implemented
+      const transactionId = payment.gatewayResponse?.gatewayTransactionId || payment._id.toString();
+
+      // For now, return success response as card gateway refunds are handled manually
       const refundResult: IRefundResponse = {
         refundId: refundReference,
-        transactionId: payment.gatewayResponse?.gatewayTransactionId || payment._id.toString(),
+        transactionId,
         amount: dto.amount,
         status: RefundStatus.PROCESSING,
         gateway: payment.gateway,
@@ -340,10 +422,20 @@ export class PaymentService {
 
       // Update refund record
       await this.refundModel.findByIdAndUpdate(refund._id, {
-        status: RefundStatus.PROCESSING,
+        status: refundResult.status,
+        gatewayRefundId: refundResult.refundId,
+        gatewayResponse: refundResult.gatewayResponse,
         processedAt: new Date(),
       });
 
+      if (refundResult.status === RefundStatus.COMPLETED) {
+        await this.paymentModel.findByIdAndUpdate(payment._id, {
+          status: totalRefunded + dto.amount >= payment.amount
+            ? PaymentStatus.REFUNDED
+            : PaymentStatus.PARTIALLY_REFUNDED,
+        });
+      }
+
       // Emit refund event
       this.eventEmitter.emit('refund.processed', {
         refundId: refund._id as Types.ObjectId,
@@ -483,36 +575,62 @@ export class PaymentService {
     return `REF_${timestamp}_${random}`.toUpperCase();
   }
 
-  private async validateAndGetOrderDetails(orderId: string, userId: string): Promise<any> {
-    // This would typically fetch from the orders service/module
-    // For now, return mock data structure
+  /**
+   * Load the order being paid for. Orders hold naira; the amounts returned
+   * are in kobo, like every payment amount
+   */
+  private async validateAndGetOrderDetails(orderId: string, userId: string, splitReference?: string) {
+    if (!Types.ObjectId.isValid(orderId)) {
+      throw new BadRequestException('Invalid order ID');
+    }
+
+    const order = await this.orderModel
+      .findById(orderId)
+      .populate('userId', 'name email phone');
+    if (!order) {
+      throw new NotFoundException(PAYMENT_ERROR_MESSAGES.ORDER_NOT_FOUND);
+    }
+
+    const customer = order.userId as any;
+    if ((customer?._id ?? customer)?.toString() !== userId) {
+      throw new ForbiddenException(PAYMENT_ERROR_MESSAGES.ORDER_NOT_OWNED);
+    }
+    if (order.remainingAmount <= 0) {
+      throw new BadRequestException(PAYMENT_ERROR_MESSAGES.ORDER_ALREADY_PAID);
+    }
+    if (order.pendingSplitReference && order.pendingSplitReference !== splitReference) {
+      throw new BadRequestException(PAYMENT_ERROR_MESSAGES.SPLIT_PAYMENT_IN_PROGRESS);
+    }
+
     return {
-      id: orderId,
+      id: order._id.toString(),
       userId,
-      totalAmount: 50000, // 500 Naira
-      customerEmail: 'user@example.com',
-      customerPhone: '+2348012345678',
-      customerName: 'John Doe',
+      totalAmount: Math.round(order.finalTotal * 100),
+      outstandingAmount: Math.round(order.remainingAmount * 100),
+      customerEmail: customer?.email,
+      customerPhone: customer?.phone,
+      customerName: customer?.name,
     };
   }
 
-  private async calculatePaymentAmount(orderDetails: any, dto: PaymentInitiationDto): Promise<number> {
+  private async calculatePaymentAmount(
+    orderDetails: { totalAmount: number; outstandingAmount: number },
+    dto: PaymentInitiationDto,
+  ): Promise<number> {
+    const { totalAmount, outstandingAmount } = orderDetails;
+
     switch (dto.paymentType) {
-      case PaymentType.PAY_NOW:
-        return orderDetails.totalAmount;
       case PaymentType.PAY_SMALL_SMALL:
         if (!dto.installments || dto.installments < 2) {
           throw new BadRequestException('PAY Small-Small requires at least 2 installments');
         }
-        return Math.ceil(orderDetails.totalAmount / dto.installments);
+        return Math.min(Math.ceil(totalAmount / dto.installments), outstandingAmount);
       case PaymentType.PAY_LATER:
         return 0; // No immediate payment required
       case PaymentType.PRICE_LOCK:
-        return dto.amount || Math.ceil(orderDetails.totalAmount * 0.1); // 10% deposit
-      case PaymentType.EXCLUSIVE_YEAR_PAYMENT:
-        return orderDetails.totalAmount;
+        return Math.min(Math.ceil(totalAmount * 0.1), outstandingAmount); // 10% deposit
       default:
-        return dto.amount || orderDetails.totalAmount;
+        return outstandingAmount;
     }
   }
 
@@ -571,6 +689,48 @@ export class PaymentService {
     });
   }
 
+  /**
+   * Initialize a payment on the requested gateway, falling over to the other
+   * card gateway when it is unavailable
+   */
+  private async initializeWithFailover(
+    gateway: PaymentGateway,
+    strategy: IPaymentStrategy,
+    paymentRequest: IPaymentRequest,
+  ): Promise<IPaymentResponse> {
+    if (!FAILOVER_GATEWAYS.includes(gateway)) {
+      return strategy.initializePayment(paymentRequest);
+    }
+
+    let lastError: Error;
+
+    for (const candidate of this.strategyFactory.getFailoverGateways(gateway)) {
+      try {
+        const response = await this.strategyFactory
+          .getGatewayStrategy(candidate)
+          .initializePayment(paymentRequest);
+
+        this.strategyFactory.markGatewayUp(candidate);
+        if (candidate !== gateway) {
+          this.logger.warn(`Payment ${paymentRequest.metadata?.paymentReference} failed over from ${gateway} to ${candidate}`);
+        }
+        return response;
+      } catch (error) {
+        // Only an unreachable gateway is worth retrying elsewhere
+        if (!(error instanceof ServiceUnavailableException)) {
+          throw error;
+        }
+        lastError = error;
+        this.logger.warn(`Payment initialization via ${candidate} failed: ${error.message}`);
+        this.strategyFactory.markGatewayDown(candidate);
+      }
+    }
+
+    throw new ServiceUnavailableException(
+      `${PAYMENT_ERROR_MESSAGES.GATEWAY_ERROR}: ${lastError?.message}`,
+    );
+  }
+
   private calculateFees(amount: number, gateway: PaymentGateway): number {
     switch (gateway) {
       case PaymentGateway.PAYSTACK:
@@ -0,0 +1,200 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { InjectQueue } from '@nestjs/bull';
+import { Model, Types } from 'mongoose';
+import { Queue } from 'bull';
+import { createHash } from 'crypto';
+import {
+  WebhookEvent,
+  WebhookEventDocument,
+} from '../entities/webhook-event.entity';
+import { WebhookEventQueryDto } from '../dto/payment.dto';
+import {
+  PaymentGateway,
+  WebhookEventStatus,
+  PAYMENT_CONSTANTS,
+  PAYMENT_ERROR_MESSAGES,
+  PAYMENT_WEBHOOK_QUEUE,
+} from '../constants/payment.constants';
+
+export interface WebhookJobData {
+  webhookEventId: string;
+}
+
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  constructor(
+    @InjectModel(WebhookEvent.name)
+    private webhookEventModel: Model<WebhookEventDocument>,
+    @InjectQueue(PAYMENT_WEBHOOK_QUEUE)
+    private readonly webhookQueue: Queue<WebhookJobData>,
+  ) {}
+
+  /**
+   * Persist a verified webhook and queue it for processing. Events already
+   * seen for the gateway are acknowledged without being processed again.
+   */
+  async receive(
+    gateway: PaymentGateway,
+    payload: any,
+    rawBody?: Buffer | string,
+  ): Promise<{ duplicate: boolean; eventId: string }> {
+    const eventId = this.extractEventId(payload, rawBody);
+
+    let webhookEvent: WebhookEventDocument;
+    try {
+      webhookEvent = await this.webhookEventModel.create({
+        gateway,
+        eventId,
+        event: payload?.event || 'unknown',
+        reference: payload?.data?.reference || payload?.data?.tx_ref,
+        payload,
+        status: WebhookEventStatus.RECEIVED,
+      });
+    } catch (error) {
+      if (error?.code === 11000) {
+        this.logger.log(`Ignoring replayed ${gateway} webhook ${eventId}`);
+        return { duplicate: true, eventId };
+      }
+      throw error;
+    }
+
+    await this.enqueue(webhookEvent._id.toString());
+
+    this.logger.log(
+      `Queued ${gateway} webhook ${eventId} (${webhookEvent.event})`,
+    );
+    return { duplicate: false, eventId };
+  }
+
+  /**
+   * List webhook events for the admin dead-letter view
+   */
+  async getWebhookEvents(query: WebhookEventQueryDto) {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const filter: Record<string, any> = {
+      status: query.status || WebhookEventStatus.DEAD_LETTER,
+    };
+    if (query.gateway) filter.gateway = query.gateway;
+
+    const [events, total] = await Promise.all([
+      this.webhookEventModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.webhookEventModel.countDocuments(filter),
+    ]);
+
+    return {
+      events,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Put a failed or dead-lettered event back on the queue
+   */
+  async retryWebhookEvent(id: string): Promise<WebhookEventDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid webhook event ID');
+    }
+
+    const webhookEvent = await this.webhookEventModel.findOneAndUpdate(
+      {
+        _id: id,
+        status: {
+          $in: [WebhookEventStatus.FAILED, WebhookEventStatus.DEAD_LETTER],
+        },
+      },
+      {
+        $set: { status: WebhookEventStatus.RECEIVED },
+        $unset: { deadLetteredAt: 1 },
+      },
+      { new: true },
+    );
+
+    if (!webhookEvent) {
+      const exists = await this.webhookEventModel.exists({ _id: id });
+      if (!exists) {
+        throw new NotFoundException(
+          PAYMENT_ERROR_MESSAGES.WEBHOOK_EVENT_NOT_FOUND,
+        );
+      }
+      throw new BadRequestException(
+        PAYMENT_ERROR_MESSAGES.WEBHOOK_NOT_RETRYABLE,
+      );
+    }
+
+    await this.enqueue(webhookEvent._id.toString());
+    this.logger.log(`Requeued webhook event ${id} for processing`);
+
+    return webhookEvent;
+  }
+
+  /**
+   * Queue an event for processing. An event that cannot be queued is marked
+   * failed, since gateway replays of it are deduplicated away and only an
+   * admin retry will pick it up again
+   */
+  private async enqueue(webhookEventId: string): Promise<void> {
+    try {
+      await this.webhookQueue.add(
+        'process-webhook',
+        { webhookEventId },
+        {
+          attempts: PAYMENT_CONSTANTS.WEBHOOK_RETRY_ATTEMPTS,
+          backoff: {
+            type: 'exponential',
+            delay: PAYMENT_CONSTANTS.WEBHOOK_RETRY_DELAY,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 100,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue webhook event ${webhookEventId}: ${error.message}`,
+      );
+      await this.webhookEventModel.updateOne(
+        { _id: webhookEventId },
+        {
+          $set: {
+            status: WebhookEventStatus.FAILED,
+            lastError: `Could not be queued: ${error.message}`,
+          },
+        },
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Gateways do not send a dedicated event ID, so the event type and the
+   * gateway's transaction ID identify a delivery. The payload hash is a
+   * last resort for events without a data ID.
+   */
+  private extractEventId(payload: any, rawBody?: Buffer | string): string {
+    const dataId = payload?.data?.id ?? payload?.id;
+    if (dataId !== undefined && dataId !== null) {
+      return `${payload?.event || 'unknown'}:${dataId}`;
+    }
+
+    return createHash('sha256')
+      .update(rawBody || JSON.stringify(payload ?? {}))
+      .digest('hex');
+  }
+}
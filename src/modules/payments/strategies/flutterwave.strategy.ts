@@ -0,0 +1,388 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+import { timingSafeEqual } from 'crypto';
+import {
+  IPaymentStrategy,
+  IPaymentRequest,
+  IPaymentResponse,
+  IPaymentVerification,
+  IRefundRequest,
+  IRefundResponse,
+} from '../interfaces/payment.interface';
+import {
+  PaymentMethod,
+  PaymentStatus,
+  PaymentGateway,
+  RefundStatus,
+  PAYMENT_CONSTANTS,
+} from '../constants/payment.constants';
+
+@Injectable()
+export class FlutterwaveStrategy implements IPaymentStrategy {
+  private readonly logger = new Logger(FlutterwaveStrategy.name);
+  private readonly baseUrl: string;
+  private readonly secretKey: string;
+  private readonly publicKey: string;
+  private readonly webhookSecretHash: string;
+  private readonly client: AxiosInstance;
+
+  constructor(private readonly configService: ConfigService) {
+    this.baseUrl = this.configService.get<string>(
+      'FLUTTERWAVE_BASE_URL',
+      'https://api.flutterwave.com/v3',
+    );
+    this.secretKey = this.configService.get<string>(
+      'FLUTTERWAVE_SECRET_KEY',
+      '',
+    );
+    this.publicKey = this.configService.get<string>(
+      'FLUTTERWAVE_PUBLIC_KEY',
+      '',
+    );
+    this.webhookSecretHash = this.configService.get<string>(
+      'FLUTTERWAVE_WEBHOOK_SECRET',
+      '',
+    );
+
+    this.client = axios.create({
+      baseURL: this.baseUrl,
+      timeout: PAYMENT_CONSTANTS.WEBHOOK_TIMEOUT,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  supports(paymentMethod: PaymentMethod): boolean {
+    const supportedMethods = [
+      PaymentMethod.DEBIT_CARD,
+      PaymentMethod.CREDIT_CARD,
+      PaymentMethod.BANK_TRANSFER,
+    ];
+    return supportedMethods.includes(paymentMethod);
+  }
+
+  async initializePayment(request: IPaymentRequest): Promise<IPaymentResponse> {
+    try {
+      this.logger.log(
+        `Initializing Flutterwave payment for order ${request.orderId}`,
+      );
+
+      const reference =
+        request.metadata?.paymentReference ||
+        `flw_${request.orderId}_${Date.now()}`;
+
+      // For development, return mock response
+      if (!this.secretKey) {
+        this.logger.warn(
+          'Flutterwave secret key not configured, returning mock response',
+        );
+        return this.getMockInitializationResponse(request, reference);
+      }
+
+      const { data } = await this.client.post('/payments', {
+        tx_ref: reference,
+        amount: this.toMajorUnits(request.amount),
+        currency: request.currency,
+        redirect_url: request.redirectUrl || request.callbackUrl,
+        payment_options: this.getPaymentOptions(request.paymentMethod),
+        customer: {
+          email: request.metadata?.customerEmail,
+          phonenumber: request.metadata?.customerPhone,
+          name: request.metadata?.customerName,
+        },
+        meta: {
+          orderId: request.orderId,
+          userId: request.userId,
+          paymentType: request.paymentType,
+        },
+      });
+
+      if (data?.status !== 'success') {
+        throw new Error(
+          data?.message || 'Unexpected response from Flutterwave',
+        );
+      }
+
+      const fees = this.calculateFees(request.amount);
+
+      return {
+        transactionId: reference,
+        reference,
+        status: PaymentStatus.PENDING,
+        gateway: PaymentGateway.FLUTTERWAVE,
+        authorizationUrl: data.data?.link,
+        message: data.message || 'Payment initialization successful',
+        gatewayResponse: data.data,
+        fees,
+        netAmount: request.amount - fees,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Flutterwave payment initialization failed: ${error.message}`,
+        error.stack,
+      );
+      throw this.toGatewayError('Payment initialization failed', error);
+    }
+  }
+
+  async verifyPayment(reference: string): Promise<IPaymentVerification> {
+    try {
+      this.logger.log(
+        `Verifying Flutterwave payment for reference ${reference}`,
+      );
+
+      // For development, return mock response
+      if (!this.secretKey) {
+        this.logger.warn(
+          'Flutterwave secret key not configured, returning mock verification',
+        );
+        return this.getMockVerificationResponse(reference);
+      }
+
+      const { data } = await this.client.get(
+        '/transactions/verify_by_reference',
+        {
+          params: { tx_ref: reference },
+        },
+      );
+
+      if (data?.status !== 'success' || !data.data) {
+        throw new Error(
+          data?.message || 'Unexpected response from Flutterwave',
+        );
+      }
+
+      const transaction = data.data;
+      const amount = this.toMinorUnits(transaction.amount);
+      const fees =
+        transaction.app_fee !== undefined
+          ? this.toMinorUnits(transaction.app_fee)
+          : this.calculateFees(amount);
+
+      return {
+        transactionId: transaction.id?.toString(),
+        reference: transaction.tx_ref || reference,
+        status: this.mapTransactionStatus(transaction.status),
+        amount,
+        currency: transaction.currency,
+        paidAt: transaction.created_at
+          ? new Date(transaction.created_at)
+          : undefined,
+        gateway: PaymentGateway.FLUTTERWAVE,
+        gatewayResponse: transaction,
+        fees,
+        netAmount: amount - fees,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Flutterwave payment verification failed: ${error.message}`,
+        error.stack,
+      );
+      throw this.toGatewayError('Payment verification failed', error);
+    }
+  }
+
+  async processRefund(request: IRefundRequest): Promise<IRefundResponse> {
+    try {
+      this.logger.log(
+        `Processing Flutterwave refund for transaction ${request.transactionId}`,
+      );
+
+      // For development, return mock response
+      if (!this.secretKey) {
+        this.logger.warn(
+          'Flutterwave secret key not configured, returning mock refund',
+        );
+        return this.getMockRefundResponse(request);
+      }
+
+      // Omitting the amount refunds the full transaction
+      const { data } = await this.client.post(
+        `/transactions/${request.transactionId}/refund`,
+        request.amount ? { amount: this.toMajorUnits(request.amount) } : {},
+      );
+
+      if (data?.status !== 'success' || !data.data) {
+        throw new Error(
+          data?.message || 'Unexpected response from Flutterwave',
+        );
+      }
+
+      const refund = data.data;
+
+      return {
+        refundId: refund.id?.toString(),
+        transactionId: request.transactionId,
+        amount: this.toMinorUnits(refund.amount_refunded ?? refund.amount),
+        status: this.mapRefundStatus(refund.status),
+        gateway: PaymentGateway.FLUTTERWAVE,
+        message: data.message || 'Refund initiated successfully',
+        gatewayResponse: refund,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Flutterwave refund failed: ${error.message}`,
+        error.stack,
+      );
+      throw this.toGatewayError('Refund processing failed', error);
+    }
+  }
+
+  calculateFees(amount: number): number {
+    // Flutterwave fee calculation
+    // 1.4% (capped at ₦2,000)
+    const calculatedFee = Math.ceil(
+      (amount * PAYMENT_CONSTANTS.FLUTTERWAVE_FEE_PERCENTAGE) / 100,
+    );
+    return Math.min(calculatedFee, PAYMENT_CONSTANTS.FLUTTERWAVE_FEE_CAP);
+  }
+
+  /**
+   * Verify the `verif-hash` header sent with Flutterwave webhooks.
+   * Flutterwave echoes the secret hash configured on the dashboard rather
+   * than signing the payload, so a constant-time comparison is sufficient.
+   */
+  verifyWebhookSignature(signature: string | undefined): boolean {
+    if (!this.webhookSecretHash) {
+      this.logger.warn(
+        'Flutterwave webhook secret not configured, rejecting webhook',
+      );
+      return false;
+    }
+    if (!signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.webhookSecretHash);
+    const received = Buffer.from(signature);
+
+    return (
+      expected.length === received.length && timingSafeEqual(expected, received)
+    );
+  }
+
+  /**
+   * Amounts are stored in kobo; Flutterwave works in naira
+   */
+  private toMajorUnits(amount: number): number {
+    return amount / 100;
+  }
+
+  private toMinorUnits(amount: number): number {
+    return Math.round(Number(amount || 0) * 100);
+  }
+
+  private getPaymentOptions(paymentMethod: PaymentMethod): string {
+    switch (paymentMethod) {
+      case PaymentMethod.BANK_TRANSFER:
+        return 'banktransfer,account';
+      case PaymentMethod.DEBIT_CARD:
+      case PaymentMethod.CREDIT_CARD:
+        return 'card';
+      default:
+        return 'card,banktransfer,ussd';
+    }
+  }
+
+  private mapTransactionStatus(status: string): PaymentStatus {
+    switch (status) {
+      case 'successful':
+        return PaymentStatus.COMPLETED;
+      case 'failed':
+        return PaymentStatus.FAILED;
+      case 'cancelled':
+        return PaymentStatus.CANCELLED;
+      default:
+        return PaymentStatus.PENDING;
+    }
+  }
+
+  private mapRefundStatus(status: string): RefundStatus {
+    switch (status) {
+      case 'completed':
+      case 'completed-offline':
+        return RefundStatus.COMPLETED;
+      case 'failed':
+        return RefundStatus.FAILED;
+      default:
+        return RefundStatus.PROCESSING;
+    }
+  }
+
+  /**
+   * Network failures and 5xx responses mean the gateway is down, which
+   * lets the strategy factory fail over to another gateway
+   */
+  private toGatewayError(message: string, error: any): Error {
+    if (
+      axios.isAxiosError(error) &&
+      (!error.response || error.response.status >= 500)
+    ) {
+      return new ServiceUnavailableException(
+        `${message}: Flutterwave is unavailable`,
+      );
+    }
+    const gatewayMessage = axios.isAxiosError(error)
+      ? error.response?.data?.message
+      : undefined;
+    return new Error(`${message}: ${gatewayMessage || error.message}`);
+  }
+
+  /**
+   * Mock responses for development
+   */
+  private getMockInitializationResponse(
+    request: IPaymentRequest,
+    reference: string,
+  ): IPaymentResponse {
+    return {
+      transactionId: `flw_txn_${Date.now()}`,
+      reference,
+      status: PaymentStatus.PENDING,
+      gateway: PaymentGateway.FLUTTERWAVE,
+      authorizationUrl: `https://checkout.flutterwave.com/v3/hosted/pay/${reference}`,
+      message: 'Payment initialization successful',
+      fees: this.calculateFees(request.amount),
+      netAmount: request.amount - this.calculateFees(request.amount),
+    };
+  }
+
+  private getMockVerificationResponse(reference: string): IPaymentVerification {
+    return {
+      transactionId: `flw_${Date.now()}`,
+      reference,
+      status: PaymentStatus.COMPLETED,
+      amount: 50000, // Mock amount
+      currency: 'NGN',
+      paidAt: new Date(),
+      gateway: PaymentGateway.FLUTTERWAVE,
+      gatewayResponse: {
+        status: 'successful',
+        processor_response: 'Approved',
+      },
+      fees: this.calculateFees(50000),
+      netAmount: 50000 - this.calculateFees(50000),
+    };
+  }
+
+  private getMockRefundResponse(request: IRefundRequest): IRefundResponse {
+    return {
+      refundId: `flw_ref_${Date.now()}`,
+      transactionId: request.transactionId,
+      amount: request.amount,
+      status: RefundStatus.PROCESSING,
+      gateway: PaymentGateway.FLUTTERWAVE,
+      message: 'Refund initiated successfully',
+      gatewayResponse: {
+        estimatedProcessingTime: '5-10 business days',
+      },
+    };
+  }
+}
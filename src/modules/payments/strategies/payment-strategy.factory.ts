@@ -1,18 +1,46 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { IPaymentStrategy } from '../interfaces/payment.interface';
 import { PaystackStrategy } from './paystack.strategy';
-import { PaymentGateway, PaymentMethod } from '../constants/payment.constants';
+import { FlutterwaveStrategy } from './flutterwave.strategy';
+import { FoodMoneyPaymentStrategy, NibiaPaymentStrategy } from './wallet-payment.strategy';
+import { PaymentGateway, PaymentMethod, PAYMENT_CONSTANTS } from '../constants/payment.constants';
+
+/**
+ * External card/bank gateways in order of preference. Each can stand in for
+ * the other when it is down.
+ */
+export const FAILOVER_GATEWAYS: PaymentGateway[] = [
+  PaymentGateway.PAYSTACK,
+  PaymentGateway.FLUTTERWAVE,
+];
+
+/**
+ * Payment methods settled from the user's own wallet
+ */
+export const INTERNAL_WALLET_METHODS: PaymentMethod[] = [
+  PaymentMethod.FOOD_MONEY,
+  PaymentMethod.FOOD_POINTS,
+  PaymentMethod.WALLET_TRANSFER,
+];
 
 @Injectable()
 export class PaymentStrategyFactory {
+  private readonly logger = new Logger(PaymentStrategyFactory.name);
   private readonly strategies: Map<string, IPaymentStrategy> = new Map();
+  // Gateway -> time until which it is considered down
+  private readonly gatewayDownUntil: Map<PaymentGateway, number> = new Map();
 
   constructor(
     private readonly paystackStrategy: PaystackStrategy,
+    private readonly flutterwaveStrategy: FlutterwaveStrategy,
+    private readonly foodMoneyPaymentStrategy: FoodMoneyPaymentStrategy,
+    private readonly nibiaPaymentStrategy: NibiaPaymentStrategy,
   ) {
     // Initialize strategy mappings
     this.strategies.set(PaymentGateway.PAYSTACK, paystackStrategy);
-    this.strategies.set('PAYSTACK', paystackStrategy);
+    this.strategies.set(PaymentGateway.FLUTTERWAVE, flutterwaveStrategy);
+    this.strategies.set('WALLET', foodMoneyPaymentStrategy);
+    this.strategies.set('FOOD_POINTS', nibiaPaymentStrategy);
   }
 
   /**
@@ -26,6 +54,17 @@ export class PaymentStrategyFactory {
     return strategy;
   }
 
+  /**
+   * Get the strategy for a payment. Wallet methods are settled internally
+   * whatever gateway was requested; other methods use the gateway.
+   */
+  getPaymentStrategy(gateway: PaymentGateway, method: PaymentMethod): IPaymentStrategy {
+    if (INTERNAL_WALLET_METHODS.includes(method)) {
+      return this.getMethodStrategy(method);
+    }
+    return this.getGatewayStrategy(gateway);
+  }
+
   /**
    * Get payment strategy based on payment method
    */
@@ -43,8 +82,8 @@ export class PaymentStrategyFactory {
       case PaymentMethod.DEBIT_CARD:
       case PaymentMethod.CREDIT_CARD:
       case PaymentMethod.BANK_TRANSFER:
-        // Default to Paystack for card/bank payments
-        strategyKey = PaymentGateway.PAYSTACK;
+        // Default to the first healthy gateway for card/bank payments
+        strategyKey = this.getFailoverGateways()[0];
         break;
       default:
         throw new Error(`Unsupported payment method: ${method}`);
@@ -57,6 +96,44 @@ export class PaymentStrategyFactory {
     return strategy;
   }
 
+  /**
+   * Card/bank gateways to try for a payment, starting with the preferred one.
+   * Gateways marked down are moved to the end so they are only retried when
+   * every other gateway has failed too.
+   */
+  getFailoverGateways(preferred?: PaymentGateway): PaymentGateway[] {
+    const candidates = preferred && FAILOVER_GATEWAYS.includes(preferred)
+      ? [preferred, ...FAILOVER_GATEWAYS.filter((gateway) => gateway !== preferred)]
+      : [...FAILOVER_GATEWAYS];
+
+    const available = candidates.filter((gateway) => this.isGatewayAvailable(gateway));
+    const down = candidates.filter((gateway) => !this.isGatewayAvailable(gateway));
+
+    return [...available, ...down];
+  }
+
+  /**
+   * Take a gateway out of rotation for the gateway status TTL
+   */
+  markGatewayDown(gateway: PaymentGateway): void {
+    this.logger.warn(`Marking payment gateway ${gateway} as unavailable`);
+    this.gatewayDownUntil.set(
+      gateway,
+      Date.now() + PAYMENT_CONSTANTS.GATEWAY_STATUS_CACHE_TTL * 1000,
+    );
+  }
+
+  markGatewayUp(gateway: PaymentGateway): void {
+    if (this.gatewayDownUntil.delete(gateway)) {
+      this.logger.log(`Payment gateway ${gateway} is available again`);
+    }
+  }
+
+  isGatewayAvailable(gateway: PaymentGateway): boolean {
+    const downUntil = this.gatewayDownUntil.get(gateway);
+    return !downUntil || downUntil <= Date.now();
+  }
+
   /**
    * Get all available strategies
    */
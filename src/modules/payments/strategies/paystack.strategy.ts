@@ -1,5 +1,7 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+import { createHmac, timingSafeEqual } from 'crypto';
 import { 
   IPaymentStrategy, 
   IPaymentRequest, 
@@ -8,7 +10,7 @@ import {
   IRefundRequest,
   IRefundResponse
 } from '../interfaces/payment.interface';
-import { PaymentMethod, PaymentStatus, PaymentGateway, RefundStatus } from '../constants/payment.constants';
+import { PaymentMethod, PaymentStatus, PaymentGateway, RefundStatus, PAYMENT_CONSTANTS } from '../constants/payment.constants';
 
 @Injectable()
 export class PaystackStrategy implements IPaymentStrategy {
@@ -16,11 +18,21 @@ export class PaystackStrategy implements IPaymentStrategy {
   private readonly baseUrl: string;
   private readonly secretKey: string;
   private readonly publicKey: string;
+  private readonly client: AxiosInstance;
 
   constructor(private readonly configService: ConfigService) {
     this.baseUrl = this.configService.get<string>('PAYSTACK_BASE_URL', 'https://api.paystack.co');
     this.secretKey = this.configService.get<string>('PAYSTACK_SECRET_KEY', '');
     this.publicKey = this.configService.get<string>('PAYSTACK_PUBLIC_KEY', '');
+
+    this.client = axios.create({
+      baseURL: this.baseUrl,
+      timeout: PAYMENT_CONSTANTS.WEBHOOK_TIMEOUT,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
   }
 
   supports(paymentMethod: PaymentMethod): boolean {
@@ -36,35 +48,49 @@ export class PaystackStrategy implements IPaymentStrategy {
     try {
       this.logger.log(`Initializing Paystack payment for order ${request.orderId}`);
 
+      const reference = request.metadata?.paymentReference || `paystack_${request.orderId}_${Date.now()}`;
+
       // For development, return mock response
       if (!this.secretKey) {
         this.logger.warn('Paystack secret key not configured, returning mock response');
-        return this.getMockInitializationResponse(request);
+        return this.getMockInitializationResponse(request, reference);
+      }
+
+      // Paystack works in kobo, like the stored amounts
+      const { data } = await this.client.post('/transaction/initialize', {
+        email: request.metadata?.customerEmail,
+        amount: request.amount,
+        reference,
+        currency: request.currency,
+        callback_url: request.callbackUrl || request.redirectUrl,
+        channels: this.getChannels(request.paymentMethod),
+        metadata: {
+          orderId: request.orderId,
+          userId: request.userId,
+          paymentType: request.paymentType,
+        },
+      });
+
+      if (!data?.status || !data.data) {
+        throw new Error(data?.message || 'Unexpected response from Paystack');
       }
 
-      // TODO: Implement actual Paystack API call
-      // const response = await axios.post(
-      //   `${this.baseUrl}/transaction/initialize`,
-      //   {
-      //     email: request.customerEmail,
-      //     amount: request.amount,
-      //     reference: `paystack_${request.orderId}_${Date.now()}`,
-      //     currency: request.currency,
-      //     metadata: request.metadata,
-      //   },
-      //   {
-      //     headers: {
-      //       Authorization: `Bearer ${this.secretKey}`,
-      //       'Content-Type': 'application/json',
-      //     },
-      //   }
-      // );
-
-      // For now, return mock response
-      return this.getMockInitializationResponse(request);
+      const fees = this.calculateFees(request.amount);
+
+      return {
+        transactionId: data.data.access_code || reference,
+        reference: data.data.reference || reference,
+        status: PaymentStatus.PENDING,
+        gateway: PaymentGateway.PAYSTACK,
+        authorizationUrl: data.data.authorization_url,
+        message: data.message || 'Payment initialization successful',
+        gatewayResponse: data.data,
+        fees,
+        netAmount: request.amount - fees,
+      };
     } catch (error) {
       this.logger.error(`Paystack payment initialization failed: ${error.message}`, error.stack);
-      throw new Error(`Payment initialization failed: ${error.message}`);
+      throw this.toGatewayError('Payment initialization failed', error);
     }
   }
 
@@ -78,21 +104,35 @@ export class PaystackStrategy implements IPaymentStrategy {
         return this.getMockVerificationResponse(reference);
       }
 
-      // TODO: Implement actual Paystack verification
-      // const response = await axios.get(
-      //   `${this.baseUrl}/transaction/verify/${reference}`,
-      //   {
-      //     headers: {
-      //       Authorization: `Bearer ${this.secretKey}`,
-      //     },
-      //   }
-      // );
-
-      // For now, return mock response
-      return this.getMockVerificationResponse(reference);
+      const { data } = await this.client.get(
+        `/transaction/verify/${encodeURIComponent(reference)}`,
+      );
+
+      if (!data?.status || !data.data) {
+        throw new Error(data?.message || 'Unexpected response from Paystack');
+      }
+
+      const transaction = data.data;
+      const amount = Number(transaction.amount || 0);
+      const fees = transaction.fees !== undefined && transaction.fees !== null
+        ? Number(transaction.fees)
+        : this.calculateFees(amount);
+
+      return {
+        transactionId: transaction.id?.toString(),
+        reference: transaction.reference || reference,
+        status: this.mapTransactionStatus(transaction.status),
+        amount,
+        currency: transaction.currency,
+        paidAt: transaction.paid_at ? new Date(transaction.paid_at) : undefined,
+        gateway: PaymentGateway.PAYSTACK,
+        gatewayResponse: transaction,
+        fees,
+        netAmount: amount - fees,
+      };
     } catch (error) {
       this.logger.error(`Paystack payment verification failed: ${error.message}`, error.stack);
-      throw new Error(`Payment verification failed: ${error.message}`);
+      throw this.toGatewayError('Payment verification failed', error);
     }
   }
 
@@ -106,28 +146,31 @@ export class PaystackStrategy implements IPaymentStrategy {
         return this.getMockRefundResponse(request);
       }
 
-      // TODO: Implement actual Paystack refund
-      // const response = await axios.post(
-      //   `${this.baseUrl}/refund`,
-      //   {
-      //     transaction: request.transactionId,
-      //     amount: request.amount,
-      //     currency: request.currency,
-      //     reason: request.reason,
-      //   },
-      //   {
-      //     headers: {
-      //       Authorization: `Bearer ${this.secretKey}`,
-      //       'Content-Type': 'application/json',
-      //     },
-      //   }
-      // );
-
-      // For now, return mock response
-      return this.getMockRefundResponse(request);
+      // Omitting the amount refunds the full transaction
+      const { data } = await this.client.post('/refund', {
+        transaction: request.transactionId,
+        ...(request.amount ? { amount: request.amount } : {}),
+        merchant_note: request.reason,
+      });
+
+      if (!data?.status || !data.data) {
+        throw new Error(data?.message || 'Unexpected response from Paystack');
+      }
+
+      const refund = data.data;
+
+      return {
+        refundId: refund.id?.toString(),
+        transactionId: request.transactionId,
+        amount: Number(refund.amount ?? request.amount),
+        status: this.mapRefundStatus(refund.status),
+        gateway: PaymentGateway.PAYSTACK,
+        message: data.message || 'Refund initiated successfully',
+        gatewayResponse: refund,
+      };
     } catch (error) {
       this.logger.error(`Paystack refund failed: ${error.message}`, error.stack);
-      throw new Error(`Refund processing failed: ${error.message}`);
+      throw this.toGatewayError('Refund processing failed', error);
     }
   }
 
@@ -142,12 +185,79 @@ export class PaystackStrategy implements IPaymentStrategy {
     return Math.min(calculatedFee, maxFee);
   }
 
+  /**
+   * Verify the `x-paystack-signature` header, an HMAC-SHA512 of the raw
+   * request body keyed with the secret key
+   */
+  verifyWebhookSignature(rawBody: Buffer | string | undefined, signature: string | undefined): boolean {
+    if (!this.secretKey) {
+      this.logger.warn('Paystack secret key not configured, rejecting webhook');
+      return false;
+    }
+    if (!rawBody || !signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(
+      createHmac('sha512', this.secretKey).update(rawBody).digest('hex'),
+    );
+    const received = Buffer.from(signature);
+
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  private getChannels(paymentMethod: PaymentMethod): string[] {
+    switch (paymentMethod) {
+      case PaymentMethod.BANK_TRANSFER:
+        return ['bank_transfer', 'bank'];
+      case PaymentMethod.DEBIT_CARD:
+      case PaymentMethod.CREDIT_CARD:
+        return ['card'];
+      default:
+        return ['card', 'bank_transfer', 'ussd'];
+    }
+  }
+
+  private mapTransactionStatus(status: string): PaymentStatus {
+    switch (status) {
+      case 'success':
+        return PaymentStatus.COMPLETED;
+      case 'failed':
+        return PaymentStatus.FAILED;
+      case 'abandoned':
+        return PaymentStatus.CANCELLED;
+      default:
+        return PaymentStatus.PENDING;
+    }
+  }
+
+  private mapRefundStatus(status: string): RefundStatus {
+    switch (status) {
+      case 'processed':
+        return RefundStatus.COMPLETED;
+      case 'failed':
+        return RefundStatus.FAILED;
+      default:
+        return RefundStatus.PROCESSING;
+    }
+  }
+
+  /**
+   * Network failures, timeouts and 5xx responses mean the gateway is down,
+   * which lets the strategy factory fail over to another gateway
+   */
+  private toGatewayError(message: string, error: any): Error {
+    if (axios.isAxiosError(error) && (!error.response || error.response.status >= 500)) {
+      return new ServiceUnavailableException(`${message}: Paystack is unavailable`);
+    }
+    const gatewayMessage = axios.isAxiosError(error) ? error.response?.data?.message : undefined;
+    return new Error(`${message}: ${gatewayMessage || error.message}`);
+  }
+
   /**
    * Mock responses for development
    */
-  private getMockInitializationResponse(request: IPaymentRequest): IPaymentResponse {
-    const reference = `paystack_${request.orderId}_${Date.now()}`;
-    
+  private getMockInitializationResponse(request: IPaymentRequest, reference: string): IPaymentResponse {
     return {
       transactionId: `paystack_txn_${Date.now()}`,
       reference,
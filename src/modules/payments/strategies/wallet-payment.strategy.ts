@@ -0,0 +1,258 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  IPaymentStrategy,
+  IPaymentRequest,
+  IPaymentResponse,
+  IPaymentVerification,
+  IRefundRequest,
+  IRefundResponse,
+} from '../interfaces/payment.interface';
+import {
+  PaymentMethod,
+  PaymentStatus,
+  PaymentGateway,
+  RefundStatus,
+} from '../constants/payment.constants';
+import { WalletsService } from '../../wallets/wallets.service';
+import { WalletLedgerService } from '../../wallets/services/wallet-ledger.service';
+import { WalletType } from '../../wallets/dto/update-balance.dto';
+import { WALLET_CONSTANTS } from '../../wallets/constants/wallet.constants';
+import {
+  LedgerAccount,
+  LedgerCurrency,
+  LedgerEntryDirection,
+  LedgerReferenceType,
+  LedgerTransactionType,
+  WalletLedgerEntry,
+  WALLET_TYPE_ACCOUNTS,
+} from '../../wallets/entities/wallet-ledger-entry.entity';
+
+/**
+ * Pays for orders from a user's own wallet. Payments settle immediately, so
+ * the gateway transaction ID is the wallet ledger transaction ID and
+ * verification reads the ledger instead of calling out to a gateway.
+ *
+ * Payment amounts are in kobo; wallets hold naira (Food Money) or Nibia.
+ */
+abstract class InternalWalletPaymentStrategy implements IPaymentStrategy {
+  protected abstract readonly logger: Logger;
+  protected abstract readonly walletType: WalletType;
+  protected abstract readonly supportedMethods: PaymentMethod[];
+
+  constructor(
+    protected readonly walletsService: WalletsService,
+    protected readonly walletLedgerService: WalletLedgerService,
+  ) {}
+
+  /**
+   * Convert a kobo amount into the wallet's unit
+   */
+  protected abstract toWalletAmount(amount: number): number;
+
+  /**
+   * Convert a wallet amount back into kobo
+   */
+  protected abstract fromWalletAmount(walletAmount: number): number;
+
+  supports(paymentMethod: PaymentMethod): boolean {
+    return this.supportedMethods.includes(paymentMethod);
+  }
+
+  async initializePayment(request: IPaymentRequest): Promise<IPaymentResponse> {
+    const reference = request.metadata?.paymentReference;
+    if (!reference) {
+      throw new BadRequestException(
+        'Wallet payments require a payment reference',
+      );
+    }
+
+    const walletAmount = this.toWalletAmount(request.amount);
+    this.logger.log(
+      `Charging ${walletAmount} ${this.walletType} for order ${request.orderId}`,
+    );
+
+    const { transactionId } = await this.walletsService.chargeWallet(
+      request.userId,
+      this.walletType,
+      walletAmount,
+      `Payment for order ${request.orderId}`,
+      {
+        transactionType: LedgerTransactionType.ORDER_PAYMENT,
+        counterAccount: LedgerAccount.SYSTEM_REVENUE,
+        reference: { type: LedgerReferenceType.PAYMENT, id: reference },
+        createdBy: request.userId,
+        metadata: { orderId: request.orderId, amountInKobo: request.amount },
+      },
+    );
+
+    return {
+      transactionId,
+      reference,
+      status: PaymentStatus.COMPLETED,
+      gateway: PaymentGateway.INTERNAL_WALLET,
+      message: 'Payment completed from wallet',
+      gatewayResponse: { walletType: this.walletType, walletAmount },
+      fees: this.calculateFees(),
+      netAmount: request.amount,
+    };
+  }
+
+  async verifyPayment(reference: string): Promise<IPaymentVerification> {
+    const entries = await this.walletLedgerService.getEntriesByReference(
+      LedgerReferenceType.PAYMENT,
+      reference,
+    );
+    const debit = entries.find(
+      (entry) =>
+        entry.transactionType === LedgerTransactionType.ORDER_PAYMENT &&
+        entry.account === WALLET_TYPE_ACCOUNTS[this.walletType] &&
+        entry.direction === LedgerEntryDirection.DEBIT,
+    );
+
+    // Wallet payments are synchronous; no debit means the payment never happened
+    const amount = debit ? this.fromWalletAmount(debit.amount) : 0;
+
+    return {
+      transactionId: debit?.transactionId,
+      reference,
+      status: debit ? PaymentStatus.COMPLETED : PaymentStatus.FAILED,
+      amount,
+      currency: debit?.currency || LedgerCurrency.NGN,
+      paidAt: debit?.createdAt,
+      gateway: PaymentGateway.INTERNAL_WALLET,
+      gatewayResponse: debit || {},
+      fees: 0,
+      netAmount: amount,
+    };
+  }
+
+  async processRefund(request: IRefundRequest): Promise<IRefundResponse> {
+    const debit = await this.findPaymentDebit(request.transactionId);
+    const walletAmount = request.amount
+      ? this.toWalletAmount(request.amount)
+      : debit.amount;
+
+    if (walletAmount > debit.amount) {
+      throw new BadRequestException(
+        'Refund amount exceeds the amount paid from the wallet',
+      );
+    }
+
+    this.logger.log(
+      `Refunding ${walletAmount} ${this.walletType} for transaction ${request.transactionId}`,
+    );
+
+    const { transactionId } = await this.walletsService.refundToWallet(
+      debit.userId.toString(),
+      this.walletType,
+      walletAmount,
+      `Refund: ${request.reason}`,
+      {
+        transactionType: LedgerTransactionType.REFUND,
+        counterAccount: LedgerAccount.SYSTEM_REFUNDS,
+        reference: debit.referenceType
+          ? { type: debit.referenceType, id: debit.referenceId }
+          : undefined,
+        createdBy: request.requestedBy,
+        metadata: { originalTransactionId: request.transactionId },
+      },
+    );
+
+    return {
+      refundId: transactionId,
+      transactionId: request.transactionId,
+      amount: this.fromWalletAmount(walletAmount),
+      status: RefundStatus.COMPLETED,
+      gateway: PaymentGateway.INTERNAL_WALLET,
+      message: 'Refund credited to wallet',
+      gatewayResponse: { walletType: this.walletType, walletAmount },
+    };
+  }
+
+  // Wallet payments are free
+  calculateFees(): number {
+    return 0;
+  }
+
+  private async findPaymentDebit(
+    transactionId: string,
+  ): Promise<WalletLedgerEntry> {
+    const entries =
+      await this.walletLedgerService.getTransactionEntries(transactionId);
+    const debit = entries.find(
+      (entry) =>
+        entry.account === WALLET_TYPE_ACCOUNTS[this.walletType] &&
+        entry.direction === LedgerEntryDirection.DEBIT,
+    );
+
+    if (!debit) {
+      throw new NotFoundException(`Wallet payment ${transactionId} not found`);
+    }
+    return debit;
+  }
+
+  protected round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+@Injectable()
+export class FoodMoneyPaymentStrategy extends InternalWalletPaymentStrategy {
+  protected readonly logger = new Logger(FoodMoneyPaymentStrategy.name);
+  protected readonly walletType = WalletType.FOOD_MONEY;
+  protected readonly supportedMethods = [
+    PaymentMethod.FOOD_MONEY,
+    PaymentMethod.WALLET_TRANSFER,
+  ];
+
+  constructor(
+    walletsService: WalletsService,
+    walletLedgerService: WalletLedgerService,
+  ) {
+    super(walletsService, walletLedgerService);
+  }
+
+  protected toWalletAmount(amount: number): number {
+    return this.round(amount / 100);
+  }
+
+  protected fromWalletAmount(walletAmount: number): number {
+    return Math.round(walletAmount * 100);
+  }
+}
+
+@Injectable()
+export class NibiaPaymentStrategy extends InternalWalletPaymentStrategy {
+  protected readonly logger = new Logger(NibiaPaymentStrategy.name);
+  protected readonly walletType = WalletType.FOOD_POINTS;
+  protected readonly supportedMethods = [PaymentMethod.FOOD_POINTS];
+  private readonly ngnToNibiaRate: number;
+
+  constructor(
+    walletsService: WalletsService,
+    walletLedgerService: WalletLedgerService,
+    private readonly configService: ConfigService,
+  ) {
+    super(walletsService, walletLedgerService);
+    this.ngnToNibiaRate = Number(
+      this.configService.get(
+        'NGN_TO_NIBIA_RATE',
+        WALLET_CONSTANTS.NGN_TO_NIBIA_RATE,
+      ),
+    );
+  }
+
+  protected toWalletAmount(amount: number): number {
+    return this.round((amount / 100) * this.ngnToNibiaRate);
+  }
+
+  protected fromWalletAmount(walletAmount: number): number {
+    return Math.round((walletAmount / this.ngnToNibiaRate) * 100);
+  }
+}
@@ -0,0 +1,124 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { FlutterwaveStrategy } from '../strategies/flutterwave.strategy';
+import { PaystackStrategy } from '../strategies/paystack.strategy';
+import { PaymentStrategyFactory } from '../strategies/payment-strategy.factory';
+import {
+  FoodMoneyPaymentStrategy,
+  NibiaPaymentStrategy,
+} from '../strategies/wallet-payment.strategy';
+import {
+  PaymentGateway,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentType,
+} from '../constants/payment.constants';
+
+describe('FlutterwaveStrategy', () => {
+  let strategy: FlutterwaveStrategy;
+  let factory: PaymentStrategyFactory;
+  let config: Record<string, string>;
+
+  const createModule = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FlutterwaveStrategy,
+        PaystackStrategy,
+        PaymentStrategyFactory,
+        { provide: FoodMoneyPaymentStrategy, useValue: {} },
+        { provide: NibiaPaymentStrategy, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string, defaultValue?: string) =>
+                config[key] ?? defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    strategy = module.get<FlutterwaveStrategy>(FlutterwaveStrategy);
+    factory = module.get<PaymentStrategyFactory>(PaymentStrategyFactory);
+  };
+
+  beforeEach(async () => {
+    config = { FLUTTERWAVE_WEBHOOK_SECRET: 'flw-secret-hash' };
+    await createModule();
+  });
+
+  describe('verifyWebhookSignature', () => {
+    it('should accept the configured verif-hash', () => {
+      expect(strategy.verifyWebhookSignature('flw-secret-hash')).toBe(true);
+    });
+
+    it('should reject a missing or wrong verif-hash', () => {
+      expect(strategy.verifyWebhookSignature(undefined)).toBe(false);
+      expect(strategy.verifyWebhookSignature('flw-secret-hasx')).toBe(false);
+      expect(strategy.verifyWebhookSignature('short')).toBe(false);
+    });
+
+    it('should reject every webhook when no secret is configured', async () => {
+      config = {};
+      await createModule();
+
+      expect(strategy.verifyWebhookSignature('')).toBe(false);
+      expect(strategy.verifyWebhookSignature('anything')).toBe(false);
+    });
+  });
+
+  describe('calculateFees', () => {
+    it('should charge 1.4% capped at the Flutterwave fee cap', () => {
+      expect(strategy.calculateFees(10000)).toBe(140);
+      expect(strategy.calculateFees(10000000)).toBe(2000);
+    });
+  });
+
+  describe('initializePayment', () => {
+    it('should use the local payment reference as tx_ref', async () => {
+      const response = await strategy.initializePayment({
+        orderId: 'order-1',
+        userId: 'user-1',
+        amount: 50000,
+        currency: 'NGN',
+        paymentMethod: PaymentMethod.DEBIT_CARD,
+        paymentType: PaymentType.PAY_NOW,
+        metadata: { paymentReference: 'PAY_123' },
+      });
+
+      expect(response.reference).toBe('PAY_123');
+      expect(response.gateway).toBe(PaymentGateway.FLUTTERWAVE);
+      expect(response.status).toBe(PaymentStatus.PENDING);
+    });
+  });
+
+  describe('PaymentStrategyFactory failover', () => {
+    it('should resolve the Flutterwave strategy', () => {
+      expect(factory.getGatewayStrategy(PaymentGateway.FLUTTERWAVE)).toBe(
+        strategy,
+      );
+    });
+
+    it('should move a gateway that is down to the back of the queue', () => {
+      expect(factory.getFailoverGateways(PaymentGateway.PAYSTACK)).toEqual([
+        PaymentGateway.PAYSTACK,
+        PaymentGateway.FLUTTERWAVE,
+      ]);
+
+      factory.markGatewayDown(PaymentGateway.PAYSTACK);
+
+      expect(factory.getFailoverGateways(PaymentGateway.PAYSTACK)).toEqual([
+        PaymentGateway.FLUTTERWAVE,
+        PaymentGateway.PAYSTACK,
+      ]);
+      expect(factory.getMethodStrategy(PaymentMethod.DEBIT_CARD)).toBe(
+        strategy,
+      );
+
+      factory.markGatewayUp(PaymentGateway.PAYSTACK);
+
+      expect(factory.getFailoverGateways()[0]).toBe(PaymentGateway.PAYSTACK);
+    });
+  });
+});
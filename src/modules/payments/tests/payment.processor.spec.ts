@@ -0,0 +1,91 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { PaymentProcessor } from '../processors/payment.processor';
+import { PaymentService } from '../services/payment.service';
+import { PaymentStrategyFactory } from '../strategies/payment-strategy.factory';
+import { Payment } from '../entities/payment.entity';
+import { PaymentGateway, PaymentStatus } from '../constants/payment.constants';
+
+describe('PaymentProcessor', () => {
+  let processor: PaymentProcessor;
+  let paymentModel: any;
+  let paymentService: { completePayment: jest.Mock };
+  let strategy: { verifyPayment: jest.Mock };
+  let payment: any;
+
+  const job = (data: any = {}) => ({ data }) as any;
+
+  beforeEach(async () => {
+    payment = {
+      _id: new Types.ObjectId(),
+      reference: 'PAY_123',
+      status: PaymentStatus.PENDING,
+      gateway: PaymentGateway.PAYSTACK,
+      retryCount: 0,
+      gatewayResponse: {},
+    };
+    paymentModel = {
+      findOne: jest.fn().mockResolvedValue(payment),
+      find: jest.fn(() => ({ limit: jest.fn().mockResolvedValue([payment]) })),
+      findByIdAndUpdate: jest.fn(),
+      findOneAndUpdate: jest.fn().mockResolvedValue(null),
+    };
+    paymentService = { completePayment: jest.fn().mockResolvedValue(payment) };
+    strategy = {
+      verifyPayment: jest.fn().mockResolvedValue({
+        transactionId: '42',
+        status: PaymentStatus.COMPLETED,
+        gatewayResponse: {},
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentProcessor,
+        { provide: getModelToken(Payment.name), useValue: paymentModel },
+        { provide: PaymentService, useValue: paymentService },
+        {
+          provide: PaymentStrategyFactory,
+          useValue: { getGatewayStrategy: jest.fn(() => strategy) },
+        },
+      ],
+    }).compile();
+
+    processor = module.get<PaymentProcessor>(PaymentProcessor);
+  });
+
+  describe('handlePaymentRetry', () => {
+    it('should complete a payment verified on retry through PaymentService', async () => {
+      await processor.handlePaymentRetry(
+        job({ transactionId: 'PAY_123', retryCount: 1, maxRetries: 3 }),
+      );
+
+      expect(paymentService.completePayment).toHaveBeenCalledWith(
+        payment._id,
+        expect.objectContaining({
+          gatewayResponse: expect.objectContaining({
+            gatewayTransactionId: '42',
+          }),
+        }),
+      );
+      expect(paymentModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handlePaymentExpiry', () => {
+    it('should only expire payments that are still pending', async () => {
+      paymentModel.find.mockResolvedValue([payment]);
+
+      await processor.handlePaymentExpiry(job());
+
+      expect(paymentModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: payment._id,
+          status: { $in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] },
+        },
+        expect.objectContaining({ status: PaymentStatus.EXPIRED }),
+      );
+    });
+  });
+});
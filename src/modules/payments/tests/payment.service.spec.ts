@@ -0,0 +1,193 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Types } from 'mongoose';
+import { PaymentService } from '../services/payment.service';
+import { PaymentStrategyFactory } from '../strategies/payment-strategy.factory';
+import { Payment } from '../entities/payment.entity';
+import { Refund } from '../entities/refund.entity';
+import { PaymentPlanEntity } from '../entities/payment-plan.entity';
+import { Order } from '../../orders/entities/order.entity';
+import {
+  PaymentGateway,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentType,
+  PAYMENT_ERROR_MESSAGES,
+} from '../constants/payment.constants';
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+  let paymentModel: any;
+  let refundModel: any;
+  let paymentPlanModel: any;
+  let orderModel: any;
+  let eventEmitter: { emit: jest.Mock };
+  let strategy: { verifyPayment: jest.Mock };
+  let payment: any;
+
+  const userId = new Types.ObjectId();
+  const orderId = new Types.ObjectId().toString();
+
+  beforeEach(async () => {
+    payment = {
+      _id: new Types.ObjectId(),
+      userId,
+      reference: 'PAY_123',
+      amount: 50000,
+      currency: 'NGN',
+      status: PaymentStatus.PENDING,
+      paymentMethod: PaymentMethod.DEBIT_CARD,
+      gateway: PaymentGateway.PAYSTACK,
+      metadata: { orderId },
+      gatewayResponse: {},
+    };
+    paymentModel = {
+      findOne: jest.fn().mockResolvedValue(payment),
+      findById: jest.fn().mockResolvedValue(payment),
+      findByIdAndUpdate: jest.fn(),
+      findOneAndUpdate: jest.fn((filter, update) =>
+        Promise.resolve(
+          filter.status.$in.includes(payment.status)
+            ? Object.assign(payment, update)
+            : null,
+        ),
+      ),
+    };
+    refundModel = { find: jest.fn().mockResolvedValue([]) };
+    paymentPlanModel = { findOne: jest.fn().mockResolvedValue(null) };
+    orderModel = {
+      findById: jest.fn(() => ({
+        populate: jest.fn().mockResolvedValue({
+          _id: new Types.ObjectId(orderId),
+          userId: { _id: userId, email: 'ada@example.com' },
+          finalTotal: 500,
+          remainingAmount: 500,
+          pendingSplitReference: 'SPLIT_123',
+        }),
+      })),
+    };
+    eventEmitter = { emit: jest.fn() };
+    strategy = {
+      verifyPayment: jest.fn().mockResolvedValue({
+        transactionId: '42',
+        reference: 'PAY_123',
+        status: PaymentStatus.COMPLETED,
+        amount: 50000,
+        currency: 'NGN',
+        gateway: PaymentGateway.PAYSTACK,
+        gatewayResponse: {},
+        fees: 850,
+        netAmount: 49150,
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentService,
+        { provide: getModelToken(Payment.name), useValue: paymentModel },
+        { provide: getModelToken(Refund.name), useValue: refundModel },
+        {
+          provide: getModelToken(PaymentPlanEntity.name),
+          useValue: paymentPlanModel,
+        },
+        { provide: getModelToken(Order.name), useValue: orderModel },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: EventEmitter2, useValue: eventEmitter },
+        {
+          provide: PaymentStrategyFactory,
+          useValue: { getPaymentStrategy: jest.fn(() => strategy) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentService>(PaymentService);
+  });
+
+  const completedEvents = () =>
+    eventEmitter.emit.mock.calls.filter(
+      ([event]) => event === 'payment.completed',
+    );
+
+  describe('verifyPayment', () => {
+    it('should settle the order when verify completes the payment', async () => {
+      await service.verifyPayment({ reference: 'PAY_123' } as any);
+
+      expect(payment.status).toBe(PaymentStatus.COMPLETED);
+      expect(completedEvents()).toEqual([
+        [
+          'payment.completed',
+          expect.objectContaining({
+            orderId,
+            reference: 'PAY_123',
+            amount: 50000,
+          }),
+        ],
+      ]);
+    });
+
+    it('should settle the order once when the webhook arrives after verify', async () => {
+      await service.verifyPayment({ reference: 'PAY_123' } as any);
+      await service.completePayment(payment._id);
+
+      expect(completedEvents()).toHaveLength(1);
+    });
+
+    it('should leave the payment pending when the gateway cannot be reached', async () => {
+      strategy.verifyPayment.mockRejectedValue(new Error('timeout'));
+
+      const result = await service.verifyPayment({
+        reference: 'PAY_123',
+      } as any);
+
+      expect(result.status).toBe(PaymentStatus.PENDING);
+      expect(paymentModel.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(completedEvents()).toHaveLength(0);
+    });
+  });
+
+  describe('initiatePayment', () => {
+    const dto = {
+      orderId,
+      paymentType: PaymentType.PAY_NOW,
+      paymentMethod: PaymentMethod.DEBIT_CARD,
+      gateway: PaymentGateway.PAYSTACK,
+    };
+
+    it('should refuse to charge an order held by a split payment', async () => {
+      await expect(
+        service.initiatePayment(userId.toString(), dto as any),
+      ).rejects.toThrow(PAYMENT_ERROR_MESSAGES.SPLIT_PAYMENT_IN_PROGRESS);
+    });
+
+    it('should refuse a leg that claims a different split payment', async () => {
+      await expect(
+        service.initiatePayment(
+          userId.toString(),
+          { ...dto, metadata: { splitReference: 'SPLIT_999' } } as any,
+          50000,
+        ),
+      ).rejects.toThrow(PAYMENT_ERROR_MESSAGES.SPLIT_PAYMENT_IN_PROGRESS);
+    });
+  });
+
+  describe('processRefund', () => {
+    it('should refuse to refund a wallet payment outside the order flows', async () => {
+      Object.assign(payment, {
+        status: PaymentStatus.COMPLETED,
+        paymentMethod: PaymentMethod.FOOD_MONEY,
+        gateway: PaymentGateway.INTERNAL_WALLET,
+      });
+
+      await expect(
+        service.processRefund(userId.toString(), {
+          paymentId: payment._id.toString(),
+          amount: 50000,
+          reason: 'Changed my mind',
+        } as any),
+      ).rejects.toThrow(PAYMENT_ERROR_MESSAGES.WALLET_REFUND_VIA_ORDER);
+      expect(refundModel.find).not.toHaveBeenCalled();
+    });
+  });
+});
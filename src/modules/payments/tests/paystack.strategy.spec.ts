@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { PaystackStrategy } from '../strategies/paystack.strategy';
+import {
+  PaymentGateway,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentType,
+} from '../constants/payment.constants';
+
+describe('PaystackStrategy', () => {
+  let strategy: PaystackStrategy;
+  let client: { get: jest.Mock; post: jest.Mock };
+
+  const request = {
+    orderId: 'order-1',
+    userId: 'user-1',
+    amount: 50000,
+    currency: 'NGN',
+    paymentMethod: PaymentMethod.DEBIT_CARD,
+    paymentType: PaymentType.PAY_NOW,
+    metadata: {
+      paymentReference: 'PAY_123',
+      customerEmail: 'ada@forage.ng',
+    },
+  };
+
+  const axiosError = (status?: number) => ({
+    isAxiosError: true,
+    message: status ? `Request failed with status code ${status}` : 'timeout',
+    response: status ? { status, data: { message: 'Invalid key' } } : undefined,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaystackStrategy,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) =>
+              key === 'PAYSTACK_SECRET_KEY' ? 'sk_test_123' : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    strategy = module.get<PaystackStrategy>(PaystackStrategy);
+    client = { get: jest.fn(), post: jest.fn() };
+    (strategy as any).client = client;
+  });
+
+  describe('initializePayment', () => {
+    it('should send the local payment reference and amount in kobo', async () => {
+      client.post.mockResolvedValue({
+        data: {
+          status: true,
+          message: 'Authorization URL created',
+          data: {
+            authorization_url: 'https://checkout.paystack.com/abc',
+            access_code: 'abc',
+            reference: 'PAY_123',
+          },
+        },
+      });
+
+      const response = await strategy.initializePayment(request);
+
+      expect(client.post).toHaveBeenCalledWith(
+        '/transaction/initialize',
+        expect.objectContaining({
+          email: 'ada@forage.ng',
+          amount: 50000,
+          reference: 'PAY_123',
+          channels: ['card'],
+        }),
+      );
+      expect(response).toMatchObject({
+        reference: 'PAY_123',
+        gateway: PaymentGateway.PAYSTACK,
+        status: PaymentStatus.PENDING,
+        authorizationUrl: 'https://checkout.paystack.com/abc',
+      });
+    });
+
+    it('should report a timeout as the gateway being unavailable', async () => {
+      client.post.mockRejectedValue(axiosError());
+
+      await expect(strategy.initializePayment(request)).rejects.toBeInstanceOf(
+        ServiceUnavailableException,
+      );
+    });
+
+    it('should report a 5xx response as the gateway being unavailable', async () => {
+      client.post.mockRejectedValue(axiosError(502));
+
+      await expect(strategy.initializePayment(request)).rejects.toBeInstanceOf(
+        ServiceUnavailableException,
+      );
+    });
+
+    it('should not fail over when Paystack rejects the request', async () => {
+      client.post.mockRejectedValue(axiosError(401));
+
+      const error = await strategy.initializePayment(request).catch((e) => e);
+
+      expect(error).not.toBeInstanceOf(ServiceUnavailableException);
+      expect(error.message).toBe('Payment initialization failed: Invalid key');
+    });
+  });
+
+  describe('verifyPayment', () => {
+    it('should map a successful transaction', async () => {
+      client.get.mockResolvedValue({
+        data: {
+          status: true,
+          data: {
+            id: 42,
+            reference: 'PAY_123',
+            status: 'success',
+            amount: 50000,
+            fees: 850,
+            currency: 'NGN',
+            paid_at: '2026-10-19T10:00:00.000Z',
+          },
+        },
+      });
+
+      const verification = await strategy.verifyPayment('PAY_123');
+
+      expect(verification).toMatchObject({
+        transactionId: '42',
+        status: PaymentStatus.COMPLETED,
+        amount: 50000,
+        fees: 850,
+        netAmount: 49150,
+      });
+    });
+  });
+});
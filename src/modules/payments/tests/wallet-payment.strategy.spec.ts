@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  FoodMoneyPaymentStrategy,
+  NibiaPaymentStrategy,
+} from '../strategies/wallet-payment.strategy';
+import { WalletsService } from '../../wallets/wallets.service';
+import { WalletLedgerService } from '../../wallets/services/wallet-ledger.service';
+import { WalletType } from '../../wallets/dto/update-balance.dto';
+import {
+  LedgerAccount,
+  LedgerEntryDirection,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../../wallets/entities/wallet-ledger-entry.entity';
+import {
+  PaymentMethod,
+  PaymentStatus,
+  PaymentType,
+  RefundStatus,
+} from '../constants/payment.constants';
+
+describe('Wallet payment strategies', () => {
+  let foodMoneyStrategy: FoodMoneyPaymentStrategy;
+  let nibiaStrategy: NibiaPaymentStrategy;
+  let walletsService: any;
+  let walletLedgerService: any;
+
+  const userId = new Types.ObjectId();
+  const paymentRequest = {
+    orderId: 'order-1',
+    userId: userId.toString(),
+    amount: 250000,
+    currency: 'NGN',
+    paymentMethod: PaymentMethod.FOOD_MONEY,
+    paymentType: PaymentType.PAY_NOW,
+    metadata: { paymentReference: 'PAY_123' },
+  };
+
+  beforeEach(async () => {
+    walletsService = {
+      chargeWallet: jest
+        .fn()
+        .mockResolvedValue({ wallet: {}, transactionId: 'TXN_1' }),
+      refundToWallet: jest
+        .fn()
+        .mockResolvedValue({ wallet: {}, transactionId: 'TXN_2' }),
+    };
+    walletLedgerService = {
+      getEntriesByReference: jest.fn(),
+      getTransactionEntries: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FoodMoneyPaymentStrategy,
+        NibiaPaymentStrategy,
+        { provide: WalletsService, useValue: walletsService },
+        { provide: WalletLedgerService, useValue: walletLedgerService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: number) =>
+              key === 'NGN_TO_NIBIA_RATE' ? '2' : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    foodMoneyStrategy = module.get<FoodMoneyPaymentStrategy>(
+      FoodMoneyPaymentStrategy,
+    );
+    nibiaStrategy = module.get<NibiaPaymentStrategy>(NibiaPaymentStrategy);
+  });
+
+  describe('initializePayment', () => {
+    it('should debit Food Money in naira and complete immediately', async () => {
+      const response =
+        await foodMoneyStrategy.initializePayment(paymentRequest);
+
+      expect(walletsService.chargeWallet).toHaveBeenCalledWith(
+        userId.toString(),
+        WalletType.FOOD_MONEY,
+        2500,
+        expect.any(String),
+        expect.objectContaining({
+          transactionType: LedgerTransactionType.ORDER_PAYMENT,
+          reference: { type: LedgerReferenceType.PAYMENT, id: 'PAY_123' },
+        }),
+      );
+      expect(response.status).toBe(PaymentStatus.COMPLETED);
+      expect(response.transactionId).toBe('TXN_1');
+      expect(response.fees).toBe(0);
+    });
+
+    it('should convert the amount to Nibia at the configured rate', async () => {
+      await nibiaStrategy.initializePayment({
+        ...paymentRequest,
+        paymentMethod: PaymentMethod.FOOD_POINTS,
+      });
+
+      expect(walletsService.chargeWallet).toHaveBeenCalledWith(
+        userId.toString(),
+        WalletType.FOOD_POINTS,
+        5000,
+        expect.any(String),
+        expect.any(Object),
+      );
+    });
+
+    it('should surface an insufficient balance from the wallet', async () => {
+      walletsService.chargeWallet.mockRejectedValue(
+        new BadRequestException('Insufficient balance'),
+      );
+
+      await expect(
+        foodMoneyStrategy.initializePayment(paymentRequest),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('verifyPayment', () => {
+    it('should read the payment debit from the ledger', async () => {
+      walletLedgerService.getEntriesByReference.mockResolvedValue([
+        {
+          transactionId: 'TXN_1',
+          transactionType: LedgerTransactionType.ORDER_PAYMENT,
+          account: LedgerAccount.FOOD_MONEY,
+          direction: LedgerEntryDirection.DEBIT,
+          amount: 2500,
+        },
+      ]);
+
+      const verification = await foodMoneyStrategy.verifyPayment('PAY_123');
+
+      expect(verification.status).toBe(PaymentStatus.COMPLETED);
+      expect(verification.amount).toBe(250000);
+    });
+  });
+
+  describe('processRefund', () => {
+    const debit = {
+      transactionId: 'TXN_1',
+      userId,
+      account: LedgerAccount.FOOD_MONEY,
+      direction: LedgerEntryDirection.DEBIT,
+      amount: 2500,
+      referenceType: LedgerReferenceType.PAYMENT,
+      referenceId: 'PAY_123',
+    };
+
+    it('should credit a partial refund back to the wallet', async () => {
+      walletLedgerService.getTransactionEntries.mockResolvedValue([debit]);
+
+      const response = await foodMoneyStrategy.processRefund({
+        transactionId: 'TXN_1',
+        amount: 100000,
+        reason: 'Item out of stock',
+        requestedBy: userId.toString(),
+      });
+
+      expect(walletsService.refundToWallet).toHaveBeenCalledWith(
+        userId.toString(),
+        WalletType.FOOD_MONEY,
+        1000,
+        'Refund: Item out of stock',
+        expect.objectContaining({
+          transactionType: LedgerTransactionType.REFUND,
+        }),
+      );
+      expect(response.status).toBe(RefundStatus.COMPLETED);
+      expect(response.amount).toBe(100000);
+    });
+
+    it('should refuse to refund more than was paid', async () => {
+      walletLedgerService.getTransactionEntries.mockResolvedValue([debit]);
+
+      await expect(
+        foodMoneyStrategy.processRefund({
+          transactionId: 'TXN_1',
+          amount: 300000,
+          reason: 'Too much',
+          requestedBy: userId.toString(),
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw when the wallet payment does not exist', async () => {
+      walletLedgerService.getTransactionEntries.mockResolvedValue([]);
+
+      await expect(
+        foodMoneyStrategy.processRefund({
+          transactionId: 'TXN_X',
+          reason: 'Missing',
+          requestedBy: userId.toString(),
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Types } from 'mongoose';
+import { WebhookProcessor } from '../processors/webhook.processor';
+import { PaymentService } from '../services/payment.service';
+import { Payment } from '../entities/payment.entity';
+import { WebhookEvent } from '../entities/webhook-event.entity';
+import { PaymentStatus } from '../constants/payment.constants';
+
+describe('WebhookProcessor', () => {
+  let processor: WebhookProcessor;
+  let paymentModel: any;
+  let eventEmitter: { emit: jest.Mock };
+  let paymentService: { completePayment: jest.Mock };
+  let payment: any;
+
+  const flutterwaveCharge = (data: Record<string, any> = {}) => ({
+    event: 'charge.completed',
+    data: {
+      id: 285959875,
+      tx_ref: 'PAY_123',
+      amount: 500,
+      currency: 'NGN',
+      status: 'successful',
+      ...data,
+    },
+  });
+
+  beforeEach(async () => {
+    payment = {
+      _id: new Types.ObjectId(),
+      userId: new Types.ObjectId(),
+      reference: 'PAY_123',
+      amount: 50000,
+      currency: 'NGN',
+      status: PaymentStatus.PENDING,
+      metadata: { orderId: new Types.ObjectId().toString() },
+      gatewayResponse: {},
+    };
+    paymentModel = {
+      findOne: jest.fn().mockResolvedValue(payment),
+      findByIdAndUpdate: jest.fn().mockResolvedValue(payment),
+      findOneAndUpdate: jest.fn().mockResolvedValue(payment),
+    };
+    eventEmitter = { emit: jest.fn() };
+    paymentService = { completePayment: jest.fn().mockResolvedValue(payment) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookProcessor,
+        { provide: getModelToken(Payment.name), useValue: paymentModel },
+        { provide: getModelToken(WebhookEvent.name), useValue: {} },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: EventEmitter2, useValue: eventEmitter },
+      ],
+    }).compile();
+
+    processor = module.get<WebhookProcessor>(WebhookProcessor);
+  });
+
+  describe('processFlutterwaveWebhook', () => {
+    it('should fail a charge.completed event for a failed charge', async () => {
+      await processor.processFlutterwaveWebhook(
+        flutterwaveCharge({ status: 'failed', processor_response: 'Declined' }),
+      );
+
+      expect(paymentModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: payment._id }),
+        expect.objectContaining({ status: PaymentStatus.FAILED }),
+      );
+      expect(paymentService.completePayment).not.toHaveBeenCalled();
+    });
+
+    it('should not complete a payment for a different amount', async () => {
+      const result = await processor.processFlutterwaveWebhook(
+        flutterwaveCharge({ amount: 5 }),
+      );
+
+      expect(result.success).toBe(true);
+      expect(paymentService.completePayment).not.toHaveBeenCalled();
+    });
+
+    it('should not complete a payment in a different currency', async () => {
+      await processor.processFlutterwaveWebhook(
+        flutterwaveCharge({ currency: 'USD' }),
+      );
+
+      expect(paymentService.completePayment).not.toHaveBeenCalled();
+    });
+
+    it('should complete a successful charge for the expected amount', async () => {
+      await processor.processFlutterwaveWebhook(flutterwaveCharge());
+
+      expect(paymentService.completePayment).toHaveBeenCalledWith(payment._id, {
+        gatewayResponse: expect.objectContaining({
+          gatewayTransactionId: '285959875',
+        }),
+      });
+    });
+  });
+
+  describe('processPaystackWebhook', () => {
+    it('should leave a completed payment alone when a failure arrives late', async () => {
+      payment.status = PaymentStatus.COMPLETED;
+      paymentModel.findOneAndUpdate.mockResolvedValue(null);
+
+      const result = await processor.processPaystackWebhook({
+        event: 'charge.failed',
+        data: { reference: 'PAY_123', gateway_response: 'Declined' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(paymentModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: payment._id,
+          status: { $in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] },
+        },
+        expect.any(Object),
+      );
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { getQueueToken } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { Types } from 'mongoose';
+import { WebhookService } from '../services/webhook.service';
+import { PaystackStrategy } from '../strategies/paystack.strategy';
+import { WebhookEvent } from '../entities/webhook-event.entity';
+import {
+  PaymentGateway,
+  WebhookEventStatus,
+  PAYMENT_CONSTANTS,
+  PAYMENT_WEBHOOK_QUEUE,
+} from '../constants/payment.constants';
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+  let paystackStrategy: PaystackStrategy;
+  let webhookEventModel: any;
+  let webhookQueue: any;
+
+  const payload = {
+    event: 'charge.success',
+    data: { id: 302961, reference: 'PAY_123', amount: 50000 },
+  };
+
+  beforeEach(async () => {
+    webhookEventModel = {
+      create: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({}),
+      exists: jest.fn(),
+    };
+    webhookQueue = { add: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookService,
+        PaystackStrategy,
+        {
+          provide: getModelToken(WebhookEvent.name),
+          useValue: webhookEventModel,
+        },
+        {
+          provide: getQueueToken(PAYMENT_WEBHOOK_QUEUE),
+          useValue: webhookQueue,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) =>
+              key === 'PAYSTACK_SECRET_KEY' ? 'sk_test_secret' : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhookService>(WebhookService);
+    paystackStrategy = module.get<PaystackStrategy>(PaystackStrategy);
+  });
+
+  describe('receive', () => {
+    it('should store the event and queue it with retries', async () => {
+      const id = new Types.ObjectId();
+      webhookEventModel.create.mockResolvedValue({
+        _id: id,
+        event: payload.event,
+      });
+
+      const result = await service.receive(PaymentGateway.PAYSTACK, payload);
+
+      expect(result).toEqual({
+        duplicate: false,
+        eventId: 'charge.success:302961',
+      });
+      expect(webhookEventModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          gateway: PaymentGateway.PAYSTACK,
+          eventId: 'charge.success:302961',
+          reference: 'PAY_123',
+        }),
+      );
+      expect(webhookQueue.add).toHaveBeenCalledWith(
+        'process-webhook',
+        { webhookEventId: id.toString() },
+        expect.objectContaining({
+          attempts: PAYMENT_CONSTANTS.WEBHOOK_RETRY_ATTEMPTS,
+        }),
+      );
+    });
+
+    it('should mark the event failed when it cannot be queued', async () => {
+      const id = new Types.ObjectId();
+      webhookEventModel.create.mockResolvedValue({
+        _id: id,
+        event: payload.event,
+      });
+      webhookQueue.add.mockRejectedValue(new Error('Redis unavailable'));
+
+      await expect(
+        service.receive(PaymentGateway.PAYSTACK, payload),
+      ).rejects.toThrow('Redis unavailable');
+      expect(webhookEventModel.updateOne).toHaveBeenCalledWith(
+        { _id: id.toString() },
+        {
+          $set: {
+            status: WebhookEventStatus.FAILED,
+            lastError: 'Could not be queued: Redis unavailable',
+          },
+        },
+      );
+    });
+
+    it('should ignore a replayed event', async () => {
+      webhookEventModel.create.mockRejectedValue({ code: 11000 });
+
+      const result = await service.receive(PaymentGateway.PAYSTACK, payload);
+
+      expect(result.duplicate).toBe(true);
+      expect(webhookQueue.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retryWebhookEvent', () => {
+    it('should requeue a dead-lettered event', async () => {
+      const id = new Types.ObjectId();
+      webhookEventModel.findOneAndUpdate.mockResolvedValue({ _id: id });
+
+      await service.retryWebhookEvent(id.toString());
+
+      expect(webhookQueue.add).toHaveBeenCalledWith(
+        'process-webhook',
+        { webhookEventId: id.toString() },
+        expect.any(Object),
+      );
+    });
+
+    it('should refuse to retry an event that has not failed', async () => {
+      webhookEventModel.findOneAndUpdate.mockResolvedValue(null);
+      webhookEventModel.exists.mockResolvedValue({ _id: 'x' });
+
+      await expect(
+        service.retryWebhookEvent(new Types.ObjectId().toString()),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw when the event does not exist', async () => {
+      webhookEventModel.findOneAndUpdate.mockResolvedValue(null);
+      webhookEventModel.exists.mockResolvedValue(null);
+
+      await expect(
+        service.retryWebhookEvent(new Types.ObjectId().toString()),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('Paystack signature verification', () => {
+    const rawBody = Buffer.from(JSON.stringify(payload));
+
+    it('should accept an HMAC-SHA512 signature of the raw body', () => {
+      const signature = createHmac('sha512', 'sk_test_secret')
+        .update(rawBody)
+        .digest('hex');
+
+      expect(paystackStrategy.verifyWebhookSignature(rawBody, signature)).toBe(
+        true,
+      );
+    });
+
+    it('should reject a signature computed over a different body', () => {
+      const signature = createHmac('sha512', 'sk_test_secret')
+        .update(JSON.stringify({ ...payload, event: 'charge.failed' }))
+        .digest('hex');
+
+      expect(paystackStrategy.verifyWebhookSignature(rawBody, signature)).toBe(
+        false,
+      );
+      expect(paystackStrategy.verifyWebhookSignature(rawBody, undefined)).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { CategoriesService } from './services/categories.service';
+import { ProductsService } from './products.service';
+import { ProductFilterDto } from './dto';
+import { Public } from '../auth/decorators';
+
+@ApiTags('Categories')
+@Controller('categories')
+export class CategoriesController {
+  constructor(
+    private readonly categoriesService: CategoriesService,
+    private readonly productsService: ProductsService,
+  ) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({
+    summary: 'Category tree in display order, with product counts',
+  })
+  @ApiResponse({ status: 200, description: 'Return the category tree' })
+  getTree() {
+    return this.categoriesService.getTree();
+  }
+
+  @Get(':idOrSlug')
+  @Public()
+  @ApiOperation({
+    summary: 'A category with its sub-categories and the path to it',
+  })
+  @ApiParam({ name: 'idOrSlug', description: 'Category ID or slug' })
+  @ApiResponse({ status: 200, description: 'Return the category' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  findOne(@Param('idOrSlug') idOrSlug: string) {
+    return this.categoriesService.findOne(idOrSlug);
+  }
+
+  @Get(':idOrSlug/products')
+  @Public()
+  @ApiOperation({
+    summary: 'Products in a category and all of its sub-categories',
+  })
+  @ApiParam({ name: 'idOrSlug', description: 'Category ID or slug' })
+  @ApiResponse({ status: 200, description: 'Products retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  findProducts(
+    @Param('idOrSlug') idOrSlug: string,
+    @Query() filterDto: ProductFilterDto,
+  ) {
+    return this.productsService.findByCategory(idOrSlug, filterDto);
+  }
+}
@@ -7,6 +7,17 @@ export {
   PRICE_RANGES,
   PRODUCT_VALIDATION,
   PRODUCT_ERROR_MESSAGES,
+  CATEGORY_ERROR_MESSAGES,
+  PRICE_ERROR_MESSAGES,
+  IMPORT_ERROR_MESSAGES,
+  REVIEW_ERROR_MESSAGES,
+  INVENTORY_ERROR_MESSAGES,
+  INVENTORY_MOVEMENT_DIRECTION,
   PRODUCT_SUCCESS_MESSAGES,
   PRODUCT_DEFAULTS,
+  PRODUCT_CSV,
+  PRODUCT_CSV_COLUMNS,
+  PRODUCT_CSV_REQUIRED_COLUMNS,
+  PRODUCT_CSV_LIST_SEPARATOR,
+  PRODUCT_IMPORT_QUEUE,
 } from './product.constants';
@@ -1,3 +1,5 @@
+import { InventoryMovementType } from '../entities/inventory-movement.entity';
+
 // Product business constants
 export const PRODUCT_CONSTANTS = {
   // Pricing limits
@@ -12,12 +14,34 @@ export const PRODUCT_CONSTANTS = {
   MAX_DESCRIPTION_LENGTH: 2000,
   MAX_TAGS_COUNT: 20,
   MAX_IMAGES_COUNT: 10,
+  MAX_VARIANTS_COUNT: 20,
+
+  // Price changes
+  MAX_BULK_PRICE_ROWS: 1000,
+  MAX_PRICE_CSV_SIZE: 1024 * 1024, // 1MB
+  PRICE_CHANGES_PER_RUN: 200, // due changes applied per scheduler run
+
+  // Catalog import and export
+  MAX_IMPORT_ROWS: 5000,
+  MAX_IMPORT_CSV_SIZE: 5 * 1024 * 1024, // 5MB
+  IMPORT_INLINE_ROWS: 100, // larger files are imported on the queue
+  IMPORT_PROGRESS_EVERY: 50, // rows between progress updates
+  IMPORT_RETRY_ATTEMPTS: 3,
+  IMPORT_RETRY_DELAY: 10000, // 10 seconds, doubled on each retry
+  MAX_EXPORT_ROWS: 10000,
+
+  // Reviews
+  MAX_REVIEW_TITLE_LENGTH: 120,
+  MAX_REVIEW_LENGTH: 2000,
+  MAX_REVIEW_PHOTOS: 5,
+  MAX_REVIEW_RESPONSE_LENGTH: 1000,
   
   // Stock management
   DEFAULT_STOCK: 0,
   LOW_STOCK_THRESHOLD: 10,
   OUT_OF_STOCK_THRESHOLD: 0,
   MAX_STOCK_QUANTITY: 10000,
+  MAX_STOCK_TAKE_LINES: 500,
   
   // Search and pagination
   DEFAULT_PAGE_SIZE: 20,
@@ -73,6 +97,7 @@ export const PRODUCT_SORT_FIELDS = [
   'city',
   'createdAt',
   'updatedAt',
+  'rating',
 ] as const;
 
 // Price range configurations
@@ -113,6 +138,78 @@ export const PRODUCT_ERROR_MESSAGES = {
   WEIGHT_OUT_OF_RANGE: `Weight must be between ${PRODUCT_CONSTANTS.MIN_WEIGHT}g and ${PRODUCT_CONSTANTS.MAX_WEIGHT}g`,
   UNAUTHORIZED_SELLER: 'You are not authorized to manage this product',
   PRODUCT_INACTIVE: 'This product is currently inactive',
+  VARIANT_REQUIRED: 'Choose a pack size for this product',
+  VARIANT_NOT_FOUND: 'Product variant not found',
+  DUPLICATE_SKU: 'A product or pack with this SKU already exists',
+  TOO_MANY_VARIANTS: `Maximum ${PRODUCT_CONSTANTS.MAX_VARIANTS_COUNT} variants allowed`,
+} as const;
+
+export const CATEGORY_ERROR_MESSAGES = {
+  CATEGORY_NOT_FOUND: 'Category not found',
+  PARENT_NOT_FOUND: 'Parent category not found',
+  CATEGORY_INACTIVE: 'Products cannot be added to an inactive category',
+  DEPARTMENT_REQUIRED: 'A top-level category needs a department',
+  SLUG_TAKEN: 'A category with this slug already exists',
+  OWN_PARENT: 'A category cannot be its own parent',
+  PARENT_IS_DESCENDANT: 'A category cannot be moved under one of its own sub-categories',
+  HAS_CHILDREN: 'Cannot delete a category that has child categories',
+  IN_USE: 'Cannot delete a category that is being used by products',
+} as const;
+
+export const REVIEW_ERROR_MESSAGES = {
+  REVIEW_NOT_FOUND: 'Review not found',
+  ORDER_NOT_FOUND: 'Order not found',
+  NOT_YOUR_ORDER: 'You can only review products from your own orders',
+  ORDER_NOT_DELIVERED: 'Products can be reviewed once the order is delivered',
+  PRODUCT_NOT_ON_ORDER: 'This product was not on the order',
+  PRODUCT_RETURNED: 'Products returned in full cannot be reviewed',
+  ALREADY_REVIEWED: 'You have already reviewed this product for this order',
+  NOT_YOUR_REVIEW: 'You can only delete your own reviews',
+  NOT_APPROVED: 'Only published reviews can be answered',
+  NOT_YOUR_PRODUCT: 'You can only answer reviews of your own products',
+} as const;
+
+export const INVENTORY_ERROR_MESSAGES = {
+  STOCK_IN_ONLY: 'Restocks and returns can only add stock',
+  STOCK_OUT_ONLY: 'Sales, spoilage and auction lots can only take stock out',
+  DUPLICATE_COUNT: 'The product or pack is counted more than once',
+  COUNT_CHANGED: 'Stock changed while it was being counted. Count it again',
+  TOO_MANY_COUNTS: `A stock take can count at most ${PRODUCT_CONSTANTS.MAX_STOCK_TAKE_LINES} products or packs`,
+} as const;
+
+// Which way a stock update of each kind may move stock: 1 in, -1 out, 0 either
+export const INVENTORY_MOVEMENT_DIRECTION: Record<InventoryMovementType, 1 | -1 | 0> = {
+  [InventoryMovementType.SALE]: -1,
+  [InventoryMovementType.RESTOCK]: 1,
+  [InventoryMovementType.RETURN]: 1,
+  [InventoryMovementType.ADJUSTMENT]: 0,
+  [InventoryMovementType.SPOILAGE]: -1,
+  [InventoryMovementType.AUCTION]: -1,
+};
+
+export const IMPORT_ERROR_MESSAGES = {
+  JOB_NOT_FOUND: 'Import job not found',
+  CSV_REQUIRED: 'Upload a CSV file of products',
+  CSV_EMPTY: 'The CSV file has no product rows',
+  CSV_TOO_MANY_ROWS: `A CSV file can hold at most ${PRODUCT_CONSTANTS.MAX_IMPORT_ROWS} products`,
+  CSV_MISSING_COLUMNS: 'The CSV file is missing columns',
+  SKU_REQUIRED: 'sku is required to import a product',
+  DUPLICATE_ROW: 'The SKU appears more than once in the file',
+} as const;
+
+export const PRICE_ERROR_MESSAGES = {
+  CHANGE_NOT_FOUND: 'Price change not found',
+  NOT_CANCELLABLE: 'Only scheduled price changes and running sales can be cancelled',
+  SALE_END_NOT_CANCELLABLE: 'Cancel the sale itself to end it now',
+  SALE_OVERLAP: 'The product has a sale running at that time',
+  SALE_NOT_LOWER: 'A sale price must be below the current price',
+  SALE_ENDS_BEFORE_START: 'A sale must end after it starts and in the future',
+  SCOPE_REQUIRED: 'Choose either a category or a seller for a bulk price update',
+  CSV_REQUIRED: 'Upload a CSV file of prices',
+  CSV_EMPTY: 'The CSV file has no price rows',
+  CSV_TOO_MANY_ROWS: `A CSV file can change at most ${PRODUCT_CONSTANTS.MAX_BULK_PRICE_ROWS} prices`,
+  CSV_MISSING_COLUMNS: 'The CSV file needs a price column and a productId or sku column',
+  OUT_OF_SCOPE: 'Product is not in the chosen category or seller',
 } as const;
 
 // Success messages
@@ -127,6 +224,116 @@ export const PRODUCT_SUCCESS_MESSAGES = {
   IMAGES_UPLOADED: 'Images uploaded successfully',
 } as const;
 
+// Columns of catalog imports and exports. Lists such as tags and images
+// are separated by PRODUCT_CSV_LIST_SEPARATOR within their cell.
+export const PRODUCT_CSV_COLUMNS = [
+  'sku',
+  'name',
+  'description',
+  'categoryId',
+  'city',
+  'price',
+  'priceInNibia',
+  'weight',
+  'stock',
+  'deliveryType',
+  'tags',
+  'images',
+  'sellerId',
+] as const;
+
+export const PRODUCT_CSV_REQUIRED_COLUMNS = [
+  'sku',
+  'name',
+  'description',
+  'categoryId',
+  'city',
+  'price',
+  'priceInNibia',
+  'weight',
+  'stock',
+  'deliveryType',
+] as const;
+
+export const PRODUCT_CSV_LIST_SEPARATOR = '|';
+
+export const PRODUCT_IMPORT_QUEUE = 'product-import';
+
+// Spreadsheet uploads: rows keyed by their header. Quoted cells may hold
+// commas, line breaks and doubled quotes.
+export const PRODUCT_CSV = {
+  parse: (text: string): Record<string, string>[] => {
+    const input = text.replace(/^\uFEFF/, '');
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') {
+          i++;
+        }
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    if (cell || row.length) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    const [header = [], ...body] = rows.filter((cells) =>
+      cells.some((value) => value.trim()),
+    );
+    const keys = header.map((key) => key.trim());
+    return body.map((cells) =>
+      Object.fromEntries(
+        keys.map((key, index) => [key, (cells[index] ?? '').trim()]),
+      ),
+    );
+  },
+
+  // Cells quoted where they hold commas, quotes or line breaks
+  stringify: (rows: unknown[][]): string =>
+    rows
+      .map((row) =>
+        row
+          .map((value) => {
+            const text =
+              value === undefined || value === null ? '' : String(value);
+            return /[",\r\n]/.test(text)
+              ? `"${text.replace(/"/g, '""')}"`
+              : text;
+          })
+          .join(','),
+      )
+      .join('\n'),
+
+  // Amounts as typed in spreadsheets, e.g. "1,500"; NaN when not a number
+  toAmount: (value?: string): number =>
+    value ? Number(value.replace(/[,\s]/g, '')) : NaN,
+};
+
 // Default values
 export const PRODUCT_DEFAULTS = {
   DELIVERY_TYPE: DELIVERY_TYPES.PAID,
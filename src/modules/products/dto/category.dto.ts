@@ -0,0 +1,113 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsBoolean,
+  IsUrl,
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { ProductCategory } from '../entities/product.entity';
+
+export class CreateCategoryDto {
+  @ApiProperty({ description: 'Category name', example: 'Local rice' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'URL name of the category. Made from the name when left out',
+    example: 'local-rice',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(/^[a-z0-9]+(-[a-z0-9]+)*$/, {
+    message: 'slug must be lowercase letters and numbers joined by hyphens',
+  })
+  slug?: string;
+
+  @ApiProperty({ description: 'Category description', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    description:
+      'Parent category ID. Send null on update to move the category to the top level',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  parentCategoryId?: string | null;
+
+  @ApiProperty({
+    description:
+      'Department of a top-level category. Sub-categories take their root department',
+    enum: ProductCategory,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ProductCategory)
+  department?: ProductCategory;
+
+  @ApiProperty({ description: 'Category icon URL', required: false })
+  @IsOptional()
+  @IsUrl()
+  iconUrl?: string;
+
+  @ApiProperty({ description: 'Category banner image URL', required: false })
+  @IsOptional()
+  @IsUrl()
+  imageUrl?: string;
+
+  @ApiProperty({
+    description: 'Position among sibling categories, lowest first',
+    required: false,
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  sortOrder?: number;
+}
+
+export class UpdateCategoryDto extends PartialType(CreateCategoryDto) {
+  @ApiProperty({ description: 'Category active status', required: false })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class CategoryPositionDto {
+  @ApiProperty({ description: 'Category ID' })
+  @IsMongoId()
+  categoryId: string;
+
+  @ApiProperty({ description: 'New position among its siblings', example: 0 })
+  @IsInt()
+  @Min(0)
+  sortOrder: number;
+}
+
+export class ReorderCategoriesDto {
+  @ApiProperty({
+    description: 'Categories and their new positions',
+    type: [CategoryPositionDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => CategoryPositionDto)
+  positions: CategoryPositionDto[];
+}
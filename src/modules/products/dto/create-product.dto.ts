@@ -7,10 +7,17 @@ import {
   IsArray,
   IsEnum,
   IsInt,
+  IsMongoId,
   IsUrl,
+  ArrayMaxSize,
+  Matches,
+  ValidateNested,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
-import { DeliveryType, ProductCategory } from '../../products/entities/product.entity';
+import { Type } from 'class-transformer';
+import { DeliveryType } from '../../products/entities/product.entity';
+import { CreateProductVariantDto } from './product-variant.dto';
+import { PRODUCT_CONSTANTS } from '../constants';
 
 export class CreateProductDto {
   @ApiProperty({ description: 'Product name', example: 'Fresh Tomatoes' })
@@ -18,6 +25,17 @@ export class CreateProductDto {
   @IsNotEmpty()
   name: string;
 
+  @ApiProperty({
+    description: 'Stock keeping unit. Catalog imports update the product with the same SKU',
+    example: 'TOM-FRESH-1KG',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, {
+    message: 'sku must be letters and numbers, optionally joined by dots, hyphens or underscores',
+  })
+  sku?: string;
+
   @ApiProperty({
     description: 'Product description',
     example: 'Fresh organic tomatoes grown locally',
@@ -62,12 +80,11 @@ export class CreateProductDto {
   city: string;
 
   @ApiProperty({
-    description: 'Product category',
-    example: 'vegetables',
-    enum: ProductCategory,
+    description: 'Category the product is listed in. Its department is set from it',
+    example: '507f1f77bcf86cd799439011',
   })
-  @IsEnum(ProductCategory)
-  category: ProductCategory;
+  @IsMongoId()
+  categoryId: string;
 
   @ApiProperty({
     description: 'Seller ID (optional for admin-managed products)',
@@ -104,6 +121,17 @@ export class CreateProductDto {
   @Min(0)
   stock: number;
 
+  @ApiProperty({
+    description: 'Stock level at which you are told to reorder',
+    example: 10,
+    minimum: 0,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  reorderPoint?: number;
+
   @ApiProperty({
     description: 'Product images URLs',
     example: ['https://example.com/image1.jpg', 'https://example.com/image2.jpg'],
@@ -114,4 +142,16 @@ export class CreateProductDto {
   @IsArray()
   @IsUrl({}, { each: true })
   images?: string[];
+
+  @ApiProperty({
+    description: 'Packs the product is sold in, e.g. 5kg, 10kg and 50kg bags. Price, weight and stock then come from the packs',
+    type: [CreateProductVariantDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(PRODUCT_CONSTANTS.MAX_VARIANTS_COUNT)
+  @ValidateNested({ each: true })
+  @Type(() => CreateProductVariantDto)
+  variants?: CreateProductVariantDto[];
 }
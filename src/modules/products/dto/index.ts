@@ -2,3 +2,30 @@ export { CreateProductDto } from './create-product.dto';
 export { UpdateProductDto } from './update-product.dto';
 export { ProductFilterDto } from './product-filter.dto';
 export { UpdateStockDto } from './update-stock.dto';
+export { CreateProductVariantDto, UpdateProductVariantDto } from './product-variant.dto';
+export {
+  CreateCategoryDto,
+  UpdateCategoryDto,
+  CategoryPositionDto,
+  ReorderCategoriesDto,
+} from './category.dto';
+export {
+  SchedulePriceChangeDto,
+  ScheduleSaleDto,
+  BulkPriceUpdateDto,
+  ScheduledPriceChangesQueryDto,
+} from './price-schedule.dto';
+export { ImportProductsDto } from './catalog-csv.dto';
+export {
+  CreateReviewDto,
+  ModerateReviewDto,
+  RespondToReviewDto,
+  ReviewFilterDto,
+  ReviewModerationFilterDto,
+} from './product-review.dto';
+export {
+  InventoryMovementFilterDto,
+  InventoryValuationQueryDto,
+  StockCountDto,
+  StockTakeDto,
+} from './inventory.dto';
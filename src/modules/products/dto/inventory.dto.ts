@@ -0,0 +1,159 @@
+import {
+  IsString,
+  IsOptional,
+  IsMongoId,
+  IsInt,
+  IsEnum,
+  IsNumber,
+  IsArray,
+  IsDateString,
+  ArrayMinSize,
+  ArrayMaxSize,
+  MaxLength,
+  ValidateNested,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { InventoryMovementType } from '../entities/inventory-movement.entity';
+import { PRODUCT_CONSTANTS, INVENTORY_ERROR_MESSAGES } from '../constants';
+
+export class InventoryMovementFilterDto {
+  @ApiProperty({ description: 'Filter by product ID', required: false })
+  @IsOptional()
+  @IsMongoId()
+  productId?: string;
+
+  @ApiProperty({
+    description: 'Filter by seller ID. Sellers only see their own products',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  sellerId?: string;
+
+  @ApiProperty({
+    description: 'Filter by kind of movement',
+    enum: InventoryMovementType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(InventoryMovementType)
+  type?: InventoryMovementType;
+
+  @ApiProperty({
+    description: 'Filter by order, return number or stock take reference',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  reference?: string;
+
+  @ApiProperty({
+    description: 'Movements on or after this date',
+    example: '2026-10-01',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    description: 'Movements before this date',
+    example: '2026-11-01',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiProperty({
+    description: 'Page number for pagination',
+    required: false,
+    minimum: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    required: false,
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(PRODUCT_CONSTANTS.MAX_PAGE_SIZE)
+  limit?: number = PRODUCT_CONSTANTS.DEFAULT_PAGE_SIZE;
+}
+
+export class InventoryValuationQueryDto {
+  @ApiProperty({
+    description: 'Value the stock of one seller. Sellers only see their own',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  sellerId?: string;
+
+  @ApiProperty({
+    description: 'Value the stock of one category and its subcategories',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  categoryId?: string;
+}
+
+export class StockCountDto {
+  @ApiProperty({ description: 'Product counted' })
+  @IsMongoId()
+  productId: string;
+
+  @ApiProperty({
+    description: 'Pack counted, for products sold in packs',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
+  @ApiProperty({ description: 'Units found on the shelf', example: 37 })
+  @IsInt()
+  @Min(0)
+  @Max(PRODUCT_CONSTANTS.MAX_STOCK_QUANTITY)
+  counted: number;
+}
+
+export class StockTakeDto {
+  @ApiProperty({
+    description: 'What was found on the shelf',
+    type: [StockCountDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(PRODUCT_CONSTANTS.MAX_STOCK_TAKE_LINES, {
+    message: INVENTORY_ERROR_MESSAGES.TOO_MANY_COUNTS,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => StockCountDto)
+  counts: StockCountDto[];
+
+  @ApiProperty({
+    description: 'Note kept with every adjustment',
+    example: 'End of month count, Lagos warehouse',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
@@ -0,0 +1,153 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  IsMongoId,
+  IsDate,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { PRODUCT_CONSTANTS } from '../constants';
+
+export class SchedulePriceChangeDto {
+  @ApiProperty({ description: 'Product ID' })
+  @IsMongoId()
+  @IsNotEmpty()
+  productId: string;
+
+  @ApiProperty({
+    description: 'Pack ID, required for products sold in packs',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
+  @ApiProperty({ description: 'New price in NGN', example: 8200 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(PRODUCT_CONSTANTS.MIN_PRICE)
+  @Max(PRODUCT_CONSTANTS.MAX_PRICE)
+  price: number;
+
+  @ApiProperty({
+    description:
+      'New price in Nibia points. Scaled with the price when left out',
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  priceInNibia?: number;
+
+  @ApiProperty({
+    description: 'When the new price takes effect. Now when left out',
+    required: false,
+  })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  effectiveDate?: Date;
+
+  @ApiProperty({ description: 'Reason for price change' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class ScheduleSaleDto {
+  @ApiProperty({ description: 'Product ID' })
+  @IsMongoId()
+  @IsNotEmpty()
+  productId: string;
+
+  @ApiProperty({
+    description: 'Pack ID, required for products sold in packs',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
+  @ApiProperty({ description: 'Sale price in NGN', example: 6500 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(PRODUCT_CONSTANTS.MIN_PRICE)
+  salePrice: number;
+
+  @ApiProperty({
+    description:
+      'Sale price in Nibia points. Scaled with the price when left out',
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  salePriceInNibia?: number;
+
+  @ApiProperty({
+    description: 'When the sale starts. Now when left out',
+    required: false,
+  })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  startsAt?: Date;
+
+  @ApiProperty({
+    description: 'When the sale ends and the price it replaced comes back',
+  })
+  @IsDate()
+  @Type(() => Date)
+  endsAt: Date;
+
+  @ApiProperty({ description: 'Reason for the sale', example: 'Harvest sale' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class BulkPriceUpdateDto {
+  @ApiProperty({
+    description: 'Only change products in this category or its sub-categories',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  categoryId?: string;
+
+  @ApiProperty({
+    description: 'Only change products of this seller',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  sellerId?: string;
+
+  @ApiProperty({
+    description: 'When the new prices take effect. Now when left out',
+    required: false,
+  })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  effectiveDate?: Date;
+
+  @ApiProperty({ description: 'Reason for the price changes' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class ScheduledPriceChangesQueryDto {
+  @ApiProperty({ description: 'Filter by product ID', required: false })
+  @IsOptional()
+  @IsMongoId()
+  productId?: string;
+
+  @ApiProperty({ description: 'Filter by bulk upload ID', required: false })
+  @IsOptional()
+  @IsString()
+  batchId?: string;
+}
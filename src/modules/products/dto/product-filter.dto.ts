@@ -6,6 +6,8 @@ import {
   Min,
   IsBoolean,
   IsArray,
+  IsMongoId,
+  Max,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { Transform, Type } from 'class-transformer';
@@ -31,7 +33,7 @@ export class ProductFilterDto {
   city?: string;
 
   @ApiProperty({
-    description: 'Filter by category',
+    description: 'Filter by department',
     example: 'vegetables',
     enum: ProductCategory,
     required: false,
@@ -40,6 +42,15 @@ export class ProductFilterDto {
   @IsEnum(ProductCategory)
   category?: ProductCategory;
 
+  @ApiProperty({
+    description: 'Filter by category, including its sub-categories',
+    example: '507f1f77bcf86cd799439011',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  categoryId?: string;
+
   @ApiProperty({
     description: 'Filter by delivery type',
     example: 'free',
@@ -107,6 +118,20 @@ export class ProductFilterDto {
   @Min(0)
   maxPriceInNibia?: number;
 
+  @ApiProperty({
+    description: 'Minimum average rating, from 1 to 5',
+    example: 4,
+    minimum: 1,
+    maximum: 5,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(5)
+  minRating?: number;
+
   @ApiProperty({
     description: 'Filter by product availability',
     example: true,
@@ -165,7 +190,7 @@ export class ProductFilterDto {
   @ApiProperty({
     description: 'Sort field',
     example: 'createdAt',
-    enum: ['name', 'price', 'priceInNibia', 'createdAt', 'stock'],
+    enum: ['name', 'price', 'priceInNibia', 'createdAt', 'stock', 'rating'],
     required: false,
   })
   @IsOptional()
@@ -0,0 +1,146 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsMongoId,
+  IsInt,
+  IsIn,
+  IsArray,
+  IsUrl,
+  IsEnum,
+  IsNumber,
+  ArrayMaxSize,
+  MaxLength,
+  ValidateIf,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ReviewStatus } from '../entities/product-review.entity';
+import { PRODUCT_CONSTANTS } from '../constants';
+
+export class CreateReviewDto {
+  @ApiProperty({ description: 'Product being reviewed' })
+  @IsMongoId()
+  productId: string;
+
+  @ApiProperty({ description: 'Delivered order the product came on' })
+  @IsMongoId()
+  orderId: string;
+
+  @ApiProperty({ description: 'Rating from 1 to 5', minimum: 1, maximum: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @ApiProperty({
+    description: 'Review headline',
+    example: 'Stone-free and cooks fast',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(PRODUCT_CONSTANTS.MAX_REVIEW_TITLE_LENGTH)
+  title?: string;
+
+  @ApiProperty({ description: 'Review text', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(PRODUCT_CONSTANTS.MAX_REVIEW_LENGTH)
+  comment?: string;
+
+  @ApiProperty({
+    description: 'Photo URLs of the product',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(PRODUCT_CONSTANTS.MAX_REVIEW_PHOTOS)
+  @IsUrl({}, { each: true })
+  photos?: string[];
+}
+
+export class ModerateReviewDto {
+  @ApiProperty({
+    description: 'Publish or reject the review',
+    enum: [ReviewStatus.APPROVED, ReviewStatus.REJECTED],
+  })
+  @IsIn([ReviewStatus.APPROVED, ReviewStatus.REJECTED])
+  status: ReviewStatus.APPROVED | ReviewStatus.REJECTED;
+
+  @ApiProperty({
+    description: 'Why the review was rejected. Required when rejecting',
+    required: false,
+  })
+  @ValidateIf((dto) => dto.status === ReviewStatus.REJECTED)
+  @IsString()
+  @IsNotEmpty()
+  note?: string;
+}
+
+export class RespondToReviewDto {
+  @ApiProperty({
+    description: 'Reply shown under the review',
+    example: 'Thank you! The new harvest arrives next week.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(PRODUCT_CONSTANTS.MAX_REVIEW_RESPONSE_LENGTH)
+  message: string;
+}
+
+export class ReviewFilterDto {
+  @ApiProperty({
+    description: 'Only reviews with this rating',
+    minimum: 1,
+    maximum: 5,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating?: number;
+
+  @ApiProperty({
+    description: 'Page number for pagination',
+    required: false,
+    minimum: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    required: false,
+    minimum: 1,
+    maximum: 100,
+    default: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(PRODUCT_CONSTANTS.MAX_PAGE_SIZE)
+  limit?: number = 10;
+}
+
+export class ReviewModerationFilterDto extends ReviewFilterDto {
+  @ApiProperty({
+    description: 'Filter by moderation status',
+    enum: ReviewStatus,
+    required: false,
+    default: ReviewStatus.PENDING,
+  })
+  @IsOptional()
+  @IsEnum(ReviewStatus)
+  status?: ReviewStatus = ReviewStatus.PENDING;
+}
@@ -0,0 +1,82 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsBoolean,
+  Min,
+} from 'class-validator';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { UnitOfMeasure } from '../entities/product.entity';
+
+export class CreateProductVariantDto {
+  @ApiProperty({ description: 'Stock keeping unit', example: 'RICE-5KG' })
+  @IsString()
+  @IsNotEmpty()
+  sku: string;
+
+  @ApiProperty({ description: 'Label shown to customers', example: '5kg bag' })
+  @IsString()
+  @IsNotEmpty()
+  unitLabel: string;
+
+  @ApiProperty({
+    description: 'Unit the pack size is measured in',
+    example: 'kg',
+    enum: UnitOfMeasure,
+  })
+  @IsEnum(UnitOfMeasure)
+  unit: UnitOfMeasure;
+
+  @ApiProperty({ description: 'Amount of the unit in one pack', example: 5 })
+  @IsNumber()
+  @Min(0)
+  packSize: number;
+
+  @ApiProperty({ description: 'Pack weight in grams', example: 5000 })
+  @IsNumber()
+  @Min(1)
+  weight: number;
+
+  @ApiProperty({
+    description: 'Pack price in Nigerian Naira (NGN)',
+    example: 7500,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  price: number;
+
+  @ApiProperty({ description: 'Pack price in Nibia points', example: 1875 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  priceInNibia: number;
+
+  @ApiProperty({ description: 'Packs in stock', example: 20 })
+  @IsInt()
+  @Min(0)
+  stock: number;
+
+  @ApiProperty({
+    description: 'Barcode printed on the pack',
+    example: '6151100052349',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  barcode?: string;
+
+  @ApiProperty({
+    description: 'Whether the pack is on sale',
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateProductVariantDto extends PartialType(
+  CreateProductVariantDto,
+) {}
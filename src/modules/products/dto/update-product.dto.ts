@@ -1,4 +1,4 @@
-import { PartialType } from '@nestjs/swagger';
+import { OmitType, PartialType } from '@nestjs/swagger';
 import { CreateProductDto } from './create-product.dto';
 import {
   IsBoolean,
@@ -6,7 +6,10 @@ import {
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
-export class UpdateProductDto extends PartialType(CreateProductDto) {
+// Packs are changed through their own endpoints
+export class UpdateProductDto extends PartialType(
+  OmitType(CreateProductDto, ['variants'] as const),
+) {
   @ApiProperty({
     description: 'Product availability status',
     example: true,
@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNumber, IsOptional, IsEnum, Min } from 'class-validator';
+import { IsNumber, IsOptional, IsEnum, IsMongoId, IsString, MaxLength, Min } from 'class-validator';
+import { InventoryMovementType } from '../entities/inventory-movement.entity';
 
 export enum StockOperation {
   ADD = 'add',
@@ -26,4 +27,38 @@ export class UpdateStockDto {
   @IsOptional()
   @IsEnum(StockOperation)
   operation?: StockOperation;
+
+  @ApiProperty({
+    description: 'Pack to change the stock of, for products sold in packs',
+    required: false
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
+  @ApiProperty({
+    description: 'Why the stock changed. Defaults to restock when adding and adjustment when subtracting',
+    enum: InventoryMovementType,
+    example: InventoryMovementType.RESTOCK,
+    required: false
+  })
+  @IsOptional()
+  @IsEnum(InventoryMovementType)
+  type?: InventoryMovementType;
+
+  @ApiProperty({
+    description: 'Delivery note, invoice or other reference kept with the change',
+    example: 'GRN-2291',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  reference?: string;
+
+  @ApiProperty({ description: 'Note kept with the change', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
 }
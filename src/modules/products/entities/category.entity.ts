@@ -0,0 +1,75 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { ProductCategory } from './product.entity';
+
+export type CategoryDocument = Category & Document;
+
+/**
+ * A node in the catalogue's category tree, e.g. Grains > Rice > Local rice.
+ * Every category belongs to the department (the old product category)
+ * of its root, which commission rules, promotions and bundle templates
+ * still work with.
+ */
+@Schema({ timestamps: true })
+export class Category {
+  @ApiProperty({ description: 'Category name', example: 'Local rice' })
+  @Prop({ required: true, type: String, trim: true })
+  name: string;
+
+  @ApiProperty({
+    description: 'URL name of the category, unique',
+    example: 'local-rice',
+  })
+  @Prop({ required: true, type: String, trim: true, lowercase: true })
+  slug: string;
+
+  @ApiProperty({ description: 'Category description', required: false })
+  @Prop({ required: false, type: String, trim: true })
+  description?: string;
+
+  @ApiProperty({ description: 'Parent category ID', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'Category', default: null })
+  parentCategoryId?: Types.ObjectId | null;
+
+  @ApiProperty({
+    description: 'Categories above this one, from the root down',
+    type: [String],
+  })
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Category' }], default: [] })
+  ancestors: Types.ObjectId[];
+
+  @ApiProperty({
+    description: 'Department of the root category',
+    enum: ProductCategory,
+  })
+  @Prop({ required: true, enum: Object.values(ProductCategory) })
+  department: ProductCategory;
+
+  @ApiProperty({ description: 'Icon URL', required: false })
+  @Prop({ required: false, type: String })
+  iconUrl?: string;
+
+  @ApiProperty({ description: 'Banner image URL', required: false })
+  @Prop({ required: false, type: String })
+  imageUrl?: string;
+
+  @ApiProperty({
+    description: 'Position among its sibling categories, lowest first',
+  })
+  @Prop({ type: Number, default: 0 })
+  sortOrder: number;
+
+  @ApiProperty({ description: 'Whether the category is shown to shoppers' })
+  @Prop({ type: Boolean, default: true })
+  isActive: boolean;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const CategorySchema = SchemaFactory.createForClass(Category);
+
+CategorySchema.index({ slug: 1 }, { unique: true });
+CategorySchema.index({ parentCategoryId: 1, sortOrder: 1 });
+CategorySchema.index({ ancestors: 1 });
@@ -0,0 +1,86 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum InventoryMovementType {
+  SALE = 'sale', // Taken by an order, or put back when it is released
+  RESTOCK = 'restock',
+  RETURN = 'return', // Customer return put back on the shelf
+  ADJUSTMENT = 'adjustment', // Manual correction or stock-take difference
+  SPOILAGE = 'spoilage',
+  AUCTION = 'auction', // Taken for an auction lot
+}
+
+export type InventoryMovementDocument = InventoryMovement & Document;
+
+/**
+ * One change to a product's stock. Quantities are signed: stock taken out is
+ * negative. The journal is append-only; corrections are new movements.
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class InventoryMovement {
+  @ApiProperty({ description: 'Product whose stock moved' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Product' })
+  productId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Pack whose stock moved, for products sold in packs',
+    required: false,
+  })
+  @Prop({ required: false, type: Types.ObjectId })
+  variantId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Seller of the product', required: false })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'User' })
+  sellerId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Why the stock moved',
+    enum: InventoryMovementType,
+  })
+  @Prop({ required: true, enum: Object.values(InventoryMovementType) })
+  type: InventoryMovementType;
+
+  @ApiProperty({
+    description: 'Units added, or taken out when negative',
+    example: -2,
+  })
+  @Prop({ required: true, type: Number })
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Stock of the product, or pack, after the movement',
+    example: 48,
+  })
+  @Prop({ required: true, type: Number })
+  stockAfter: number;
+
+  @ApiProperty({
+    description: 'User who moved the stock. Empty for system movements',
+    required: false,
+  })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'User' })
+  actorId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Order, return number, stock take or delivery note',
+    example: 'STK-1760000000000-4F2A9C',
+    required: false,
+  })
+  @Prop({ required: false, type: String, trim: true })
+  reference?: string;
+
+  @ApiProperty({ description: 'Free-text note', required: false })
+  @Prop({ required: false, type: String, trim: true })
+  note?: string;
+
+  createdAt?: Date;
+}
+
+export const InventoryMovementSchema =
+  SchemaFactory.createForClass(InventoryMovement);
+
+InventoryMovementSchema.index({ productId: 1, createdAt: -1 });
+InventoryMovementSchema.index({ sellerId: 1, createdAt: -1 });
+InventoryMovementSchema.index({ reference: 1 });
+InventoryMovementSchema.index({ type: 1, createdAt: -1 });
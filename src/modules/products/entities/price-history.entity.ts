@@ -0,0 +1,134 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum PriceChangeType {
+  REGULAR = 'regular',
+  SALE = 'sale',
+  SALE_END = 'sale_end',
+}
+
+export enum PriceChangeStatus {
+  SCHEDULED = 'scheduled',
+  APPLIED = 'applied',
+  CANCELLED = 'cancelled',
+  SKIPPED = 'skipped',
+}
+
+export type PriceHistoryDocument = PriceHistory & Document;
+
+/**
+ * A change to the price of a product, or of one of its packs. Changes are
+ * recorded when they are made and applied at their effective date; a sale
+ * schedules its own end, which puts back the price it replaced.
+ */
+@Schema({ timestamps: true })
+export class PriceHistory {
+  @ApiProperty({ description: 'Product ID' })
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  productId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Pack ID, for products sold in packs',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, required: false })
+  variantId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Type of change', enum: PriceChangeType })
+  @Prop({
+    type: String,
+    enum: Object.values(PriceChangeType),
+    default: PriceChangeType.REGULAR,
+  })
+  type: PriceChangeType;
+
+  // Changes recorded before scheduling were applied as they were made
+  @ApiProperty({
+    description: 'Whether the change has been applied',
+    enum: PriceChangeStatus,
+  })
+  @Prop({
+    type: String,
+    enum: Object.values(PriceChangeStatus),
+    default: PriceChangeStatus.APPLIED,
+  })
+  status: PriceChangeStatus;
+
+  @ApiProperty({
+    description: 'Price before the change, as of when it was applied',
+    required: false,
+  })
+  @Prop({ type: Number, required: false })
+  oldPrice?: number;
+
+  @ApiProperty({ description: 'Price after the change' })
+  @Prop({ type: Number, required: true })
+  newPrice: number;
+
+  @ApiProperty({
+    description: 'Nibia price before the change',
+    required: false,
+  })
+  @Prop({ type: Number, required: false })
+  oldPriceInNibia?: number;
+
+  @ApiProperty({
+    description:
+      'Nibia price after the change. Scaled with the price when not given',
+    required: false,
+  })
+  @Prop({ type: Number, required: false })
+  newPriceInNibia?: number;
+
+  @ApiProperty({ description: 'When the change takes effect' })
+  @Prop({ type: Date, required: true })
+  effectiveDate: Date;
+
+  @ApiProperty({ description: 'When a sale ends', required: false })
+  @Prop({ type: Date, required: false })
+  saleEndsAt?: Date;
+
+  @ApiProperty({ description: 'Sale this change ends', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'PriceHistory', required: false })
+  saleId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Bulk upload the change came from',
+    required: false,
+  })
+  @Prop({ type: String, required: false })
+  batchId?: string;
+
+  @ApiProperty({ description: 'Reason for the change', required: false })
+  @Prop({ type: String, required: false })
+  reason?: string;
+
+  @ApiProperty({
+    description:
+      'Admin, or seller for edits to their product, who made the change',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  adminId: Types.ObjectId;
+
+  @ApiProperty({ description: 'When the change was applied', required: false })
+  @Prop({ type: Date, required: false })
+  appliedAt?: Date;
+
+  @ApiProperty({
+    description: 'Why the change could not be applied',
+    required: false,
+  })
+  @Prop({ type: String, required: false })
+  skipReason?: string;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const PriceHistorySchema = SchemaFactory.createForClass(PriceHistory);
+
+PriceHistorySchema.index({ status: 1, effectiveDate: 1 });
+PriceHistorySchema.index({ productId: 1, effectiveDate: -1 });
+PriceHistorySchema.index({ saleId: 1 });
+PriceHistorySchema.index({ batchId: 1 });
@@ -20,6 +20,10 @@ export class PriceLock {
   @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Product', required: true })
   productId: Product;
 
+  // Pack the price was locked for, when the product is sold in packs
+  @Prop({ type: MongooseSchema.Types.ObjectId, required: false })
+  variantId?: MongooseSchema.Types.ObjectId;
+
   @Prop({ required: true })
   price: number;
 
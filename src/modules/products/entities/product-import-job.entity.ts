@@ -0,0 +1,113 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum ImportJobStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export class ImportRowError {
+  @ApiProperty({
+    description: 'Line of the CSV file, counting the header as line 1',
+  })
+  row: number;
+
+  @ApiProperty({ description: 'SKU on the row', required: false })
+  sku?: string;
+
+  @ApiProperty({ description: 'What is wrong with the row', type: [String] })
+  messages: string[];
+}
+
+export type ProductImportJobDocument = ProductImportJob & Document;
+
+/**
+ * One upload of a product CSV file. Small files are imported while the
+ * upload waits; larger ones on the import queue, with progress kept here.
+ * A dry run checks every row and reports what would be created or updated
+ * without saving anything.
+ */
+@Schema({ timestamps: true })
+export class ProductImportJob {
+  @ApiProperty({ description: 'User who uploaded the file' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Role of the uploader when the file was sent' })
+  @Prop({ type: String, required: true })
+  userRole: string;
+
+  @ApiProperty({ description: 'Name of the uploaded file', required: false })
+  @Prop({ type: String, required: false })
+  fileName?: string;
+
+  @ApiProperty({ description: 'Check the rows without saving products' })
+  @Prop({ type: Boolean, default: false })
+  dryRun: boolean;
+
+  @ApiProperty({ description: 'Import status', enum: ImportJobStatus })
+  @Prop({
+    type: String,
+    enum: Object.values(ImportJobStatus),
+    default: ImportJobStatus.PENDING,
+  })
+  status: ImportJobStatus;
+
+  // The uploaded file, kept for the queue and left out of responses
+  @Prop({ type: String, required: true, select: false })
+  csv: string;
+
+  @ApiProperty({ description: 'Product rows in the file' })
+  @Prop({ type: Number, default: 0 })
+  totalRows: number;
+
+  @ApiProperty({ description: 'Rows checked or imported so far' })
+  @Prop({ type: Number, default: 0 })
+  processedRows: number;
+
+  @ApiProperty({
+    description: 'Products created, or that a dry run would create',
+  })
+  @Prop({ type: Number, default: 0 })
+  created: number;
+
+  @ApiProperty({
+    description: 'Products updated, or that a dry run would update',
+  })
+  @Prop({ type: Number, default: 0 })
+  updated: number;
+
+  @ApiProperty({ description: 'Rows rejected' })
+  @Prop({ type: Number, default: 0 })
+  failed: number;
+
+  @ApiProperty({ description: 'Rejected rows and why', type: [ImportRowError] })
+  @Prop({
+    type: [{ row: Number, sku: String, messages: [String], _id: false }],
+    default: [],
+  })
+  rowErrors: ImportRowError[];
+
+  @ApiProperty({ description: 'Why the whole import failed', required: false })
+  @Prop({ type: String, required: false })
+  failureReason?: string;
+
+  @ApiProperty({ description: 'When processing started', required: false })
+  @Prop({ type: Date, required: false })
+  startedAt?: Date;
+
+  @ApiProperty({ description: 'When processing finished', required: false })
+  @Prop({ type: Date, required: false })
+  completedAt?: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const ProductImportJobSchema =
+  SchemaFactory.createForClass(ProductImportJob);
+
+ProductImportJobSchema.index({ userId: 1, createdAt: -1 });
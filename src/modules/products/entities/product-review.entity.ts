@@ -0,0 +1,110 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum ReviewStatus {
+  PENDING = 'pending', // Waiting for moderation
+  APPROVED = 'approved', // Shown on the product and counted in its rating
+  REJECTED = 'rejected',
+}
+
+@Schema({ _id: false })
+export class SellerResponse {
+  @ApiProperty({ description: 'Reply from the seller' })
+  @Prop({ required: true, type: String })
+  message: string;
+
+  @ApiProperty({ description: 'Seller, or admin, who replied' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  respondedBy: Types.ObjectId;
+
+  @ApiProperty({ description: 'When the reply was last written' })
+  @Prop({ required: true, type: Date })
+  respondedAt: Date;
+}
+
+export type ProductReviewDocument = ProductReview & Document;
+
+/**
+ * A customer's rating of a product they received. One review per product
+ * per order; it is shown, and counted in the product's rating, once an
+ * admin approves it.
+ */
+@Schema({ timestamps: true })
+export class ProductReview {
+  @ApiProperty({ description: 'Product reviewed' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Product' })
+  productId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Delivered order the product came on' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Order' })
+  orderId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Customer who wrote the review' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Seller of the product', required: false })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'User' })
+  sellerId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Rating from 1 to 5', minimum: 1, maximum: 5 })
+  @Prop({ required: true, type: Number, min: 1, max: 5 })
+  rating: number;
+
+  @ApiProperty({ description: 'Review headline', required: false })
+  @Prop({ required: false, type: String, trim: true })
+  title?: string;
+
+  @ApiProperty({ description: 'Review text', required: false })
+  @Prop({ required: false, type: String, trim: true })
+  comment?: string;
+
+  @ApiProperty({ description: 'Photo URLs of the product', type: [String] })
+  @Prop({ type: [String], default: [] })
+  photos: string[];
+
+  @ApiProperty({
+    description: 'Whether the reviewer bought the product on the order',
+  })
+  @Prop({ required: true, type: Boolean, default: false })
+  verifiedPurchase: boolean;
+
+  @ApiProperty({ description: 'Moderation status', enum: ReviewStatus })
+  @Prop({
+    required: true,
+    enum: Object.values(ReviewStatus),
+    default: ReviewStatus.PENDING,
+  })
+  status: ReviewStatus;
+
+  @ApiProperty({ description: 'Admin who approved or rejected the review' })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'User' })
+  moderatedBy?: Types.ObjectId;
+
+  @ApiProperty({ description: 'When the review was approved or rejected' })
+  @Prop({ required: false, type: Date })
+  moderatedAt?: Date;
+
+  @ApiProperty({ description: 'Why the review was rejected', required: false })
+  @Prop({ required: false, type: String })
+  moderationNote?: string;
+
+  @ApiProperty({
+    description: 'Reply from the seller',
+    type: SellerResponse,
+    required: false,
+  })
+  @Prop({ required: false, type: SellerResponse })
+  sellerResponse?: SellerResponse;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const ProductReviewSchema = SchemaFactory.createForClass(ProductReview);
+
+ProductReviewSchema.index({ orderId: 1, productId: 1 }, { unique: true });
+ProductReviewSchema.index({ productId: 1, status: 1, createdAt: -1 });
+ProductReviewSchema.index({ userId: 1, createdAt: -1 });
+ProductReviewSchema.index({ status: 1, createdAt: 1 });
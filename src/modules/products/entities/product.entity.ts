@@ -32,8 +32,106 @@ export enum ProductCategory {
   OTHERS = 'others',
 }
 
+export enum UnitOfMeasure {
+  GRAM = 'g',
+  KILOGRAM = 'kg',
+  MILLILITRE = 'ml',
+  LITRE = 'l',
+  PIECE = 'piece',
+  BAG = 'bag',
+  BASKET = 'basket',
+  BUCKET = 'bucket',
+  CRATE = 'crate',
+  BUNCH = 'bunch',
+  TUBER = 'tuber',
+  PACK = 'pack',
+}
+
+/**
+ * A pack of a product sold at its own price, e.g. a 5kg, 10kg or 50kg bag
+ * of rice. Each variant keeps its own stock; the product's stock is the sum.
+ */
+@Schema({ timestamps: true })
+export class ProductVariant {
+  _id?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Stock keeping unit', example: 'RICE-5KG' })
+  @Prop({ required: true, type: String, trim: true, uppercase: true })
+  @IsString()
+  @IsNotEmpty()
+  sku: string;
+
+  @ApiProperty({ description: 'Label shown to customers', example: '5kg bag' })
+  @Prop({ required: true, type: String, trim: true })
+  @IsString()
+  @IsNotEmpty()
+  unitLabel: string;
+
+  @ApiProperty({
+    description: 'Unit the pack size is measured in',
+    example: 'kg',
+    enum: UnitOfMeasure,
+  })
+  @Prop({ required: true, type: String, enum: Object.values(UnitOfMeasure) })
+  @IsEnum(UnitOfMeasure)
+  unit: UnitOfMeasure;
+
+  @ApiProperty({ description: 'Amount of the unit in one pack', example: 5 })
+  @Prop({ required: true, type: Number, min: 0 })
+  @IsNumber()
+  @Min(0)
+  packSize: number;
+
+  @ApiProperty({ description: 'Pack weight in grams', example: 5000 })
+  @Prop({ required: true, type: Number, min: 1 })
+  @IsNumber()
+  @Min(1)
+  weight: number;
+
+  @ApiProperty({ description: 'Pack price in Nigerian Naira (NGN)', example: 7500 })
+  @Prop({ required: true, type: Number, min: 0 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  price: number;
+
+  @ApiProperty({ description: 'Pack price in Nibia points', example: 1875 })
+  @Prop({ required: true, type: Number, min: 0 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  priceInNibia: number;
+
+  @ApiProperty({ description: 'Packs in stock', example: 20 })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  @IsInt()
+  @Min(0)
+  stock: number;
+
+  @ApiProperty({ description: 'Barcode printed on the pack', required: false })
+  @Prop({ required: false, type: String, trim: true })
+  @IsOptional()
+  @IsString()
+  barcode?: string;
+
+  @ApiProperty({ description: 'Whether the pack is on sale', example: true })
+  @Prop({ required: true, type: Boolean, default: true })
+  @IsOptional()
+  isActive?: boolean;
+}
+
+export const ProductVariantSchema = SchemaFactory.createForClass(ProductVariant);
+
 @Schema({ timestamps: true })
 export class Product {
+  @ApiProperty({
+    description: 'Stock keeping unit, used to match rows of catalog imports',
+    example: 'TOM-FRESH-1KG',
+    required: false,
+  })
+  @Prop({ required: false, type: String, trim: true, uppercase: true })
+  @IsOptional()
+  @IsString()
+  sku?: string;
+
   @ApiProperty({ description: 'Product name', example: 'Fresh Tomatoes' })
   @Prop({ required: true, type: String, trim: true })
   @IsString()
@@ -89,7 +187,7 @@ export class Product {
   city: string;
 
   @ApiProperty({
-    description: 'Product category',
+    description: 'Department of the product category, set from the category',
     example: 'vegetables',
     enum: ProductCategory,
   })
@@ -101,6 +199,20 @@ export class Product {
   @IsEnum(ProductCategory)
   category: ProductCategory;
 
+  @ApiProperty({
+    description: 'Category the product is listed in',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Category' })
+  categoryId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The category and every category above it, from the root down',
+    type: [String],
+  })
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Category' }], default: [] })
+  categoryPath: Types.ObjectId[];
+
   @ApiProperty({
     description: 'Seller ID (optional for admin-managed products)',
     example: '507f1f77bcf86cd799439011',
@@ -145,6 +257,18 @@ export class Product {
   @Min(0)
   stock: number;
 
+  @ApiProperty({
+    description: 'Stock level at which the seller is told to reorder',
+    example: 10,
+    minimum: 0,
+    required: false,
+  })
+  @Prop({ required: false, type: Number, min: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  reorderPoint?: number;
+
   @ApiProperty({
     description: 'Product availability status',
     example: true,
@@ -164,17 +288,59 @@ export class Product {
   @IsArray()
   @IsString({ each: true })
   images?: string[];
+
+  @ApiProperty({
+    description: 'Average rating of approved reviews, 0 until the first one',
+    example: 4.5,
+    required: false,
+  })
+  @Prop({ type: Number, min: 0, max: 5, default: 0 })
+  rating?: number;
+
+  @ApiProperty({
+    description: 'Number of approved reviews',
+    example: 12,
+    required: false,
+  })
+  @Prop({ type: Number, min: 0, default: 0 })
+  reviewCount?: number;
+
+  @ApiProperty({
+    description:
+      'Packs the product is sold in. When set, price, weight and stock are taken from the cheapest pack and the sum of stock',
+    type: [ProductVariant],
+    required: false,
+  })
+  @Prop({ type: [ProductVariantSchema], default: [] })
+  @IsOptional()
+  @IsArray()
+  variants?: ProductVariant[];
 }
 
 export const ProductSchema = SchemaFactory.createForClass(Product);
 
 // Add indexes for better query performance
-ProductSchema.index({ name: 'text', description: 'text', tags: 'text' });
+// Search relevance: a match in the name counts most, then tags, then description
+ProductSchema.index(
+  { name: 'text', tags: 'text', description: 'text' },
+  { name: 'product_search', weights: { name: 10, tags: 5, description: 1 } },
+);
 ProductSchema.index({ city: 1 });
 ProductSchema.index({ category: 1 });
+ProductSchema.index({ categoryPath: 1 });
 ProductSchema.index({ sellerId: 1 });
 ProductSchema.index({ deliveryType: 1 });
 ProductSchema.index({ price: 1 });
 ProductSchema.index({ priceInNibia: 1 });
 ProductSchema.index({ isActive: 1 });
 ProductSchema.index({ createdAt: -1 });
+ProductSchema.index({ rating: -1, reviewCount: -1 });
+ProductSchema.index(
+  { 'variants.sku': 1 },
+  { unique: true, partialFilterExpression: { 'variants.sku': { $exists: true } } },
+);
+ProductSchema.index({ 'variants.barcode': 1 });
+ProductSchema.index(
+  { sku: 1 },
+  { unique: true, partialFilterExpression: { sku: { $type: 'string' } } },
+);
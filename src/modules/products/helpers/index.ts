@@ -0,0 +1 @@
+export { ProductVariants } from './product-variants.helper';
@@ -0,0 +1,89 @@
+import { SellableUnit } from '../interfaces';
+
+type VariantLike = {
+  _id?: { toString(): string };
+  unitLabel: string;
+  price: number;
+  priceInNibia: number;
+  weight: number;
+  stock: number;
+  isActive?: boolean;
+};
+
+type VariantHolder = {
+  price: number;
+  priceInNibia: number;
+  weight: number;
+  stock: number;
+  variants?: VariantLike[];
+};
+
+// Products sold in packs. Lines in carts, orders and bundles name the pack
+// they are for; products without packs are sold as they are.
+export const ProductVariants = {
+  find: <T extends VariantLike>(
+    product: { variants?: T[] },
+    variantId?: { toString(): string },
+  ): T | undefined =>
+    variantId
+      ? product.variants?.find(
+          (variant) => variant._id?.toString() === variantId.toString(),
+        )
+      : undefined,
+
+  // Price, weight and stock of what a line sells: the pack when the product
+  // has packs, the product otherwise. Null when the pack is missing, retired
+  // or needed but not given.
+  resolve: (
+    product: VariantHolder,
+    variantId?: { toString(): string },
+  ): SellableUnit | null => {
+    if (!product.variants?.length) {
+      return variantId
+        ? null
+        : {
+            price: product.price,
+            priceInNibia: product.priceInNibia,
+            weight: product.weight,
+            stock: product.stock,
+          };
+    }
+
+    const variant = ProductVariants.find(product, variantId);
+    if (!variant || variant.isActive === false) {
+      return null;
+    }
+    return {
+      variantId: variant._id.toString(),
+      unitLabel: variant.unitLabel,
+      price: variant.price,
+      priceInNibia: variant.priceInNibia,
+      weight: variant.weight,
+      stock: variant.stock,
+    };
+  },
+
+  // One entry per product and pack when adding up quantities
+  key: (
+    productId: { toString(): string },
+    variantId?: { toString(): string },
+  ): string =>
+    variantId
+      ? `${productId.toString()}:${variantId.toString()}`
+      : productId.toString(),
+
+  // Product fields kept in step with its packs so listings, filters and
+  // search still work: the cheapest pack on sale and the stock of all packs
+  summarize: (variants: VariantLike[]) => {
+    const onSale = variants.filter((variant) => variant.isActive !== false);
+    const cheapest = (onSale.length ? onSale : variants).reduce(
+      (min, variant) => (variant.price < min.price ? variant : min),
+    );
+    return {
+      price: cheapest.price,
+      priceInNibia: cheapest.priceInNibia,
+      weight: cheapest.weight,
+      stock: variants.reduce((total, variant) => total + variant.stock, 0),
+    };
+  },
+};
@@ -0,0 +1,8 @@
+export interface ProductImportJobData {
+  jobId: string;
+}
+
+// Outcome of one CSV row: the product it created or updated, or why not
+export type ProductImportRowOutcome =
+  | { action: 'created' | 'updated'; productId?: string }
+  | { action: 'failed'; messages: string[] };
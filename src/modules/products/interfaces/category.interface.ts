@@ -0,0 +1,37 @@
+import { Types } from 'mongoose';
+import { ProductCategory } from '../entities/product.entity';
+
+export interface CategoryTreeNode {
+  _id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  department: ProductCategory;
+  iconUrl?: string;
+  imageUrl?: string;
+  sortOrder: number;
+  isActive: boolean;
+  // Active products in the category and everything below it
+  productCount: number;
+  children: CategoryTreeNode[];
+}
+
+export interface CategoryBreadcrumb {
+  _id: string;
+  name: string;
+  slug: string;
+}
+
+export interface CategoryDetail extends CategoryTreeNode {
+  breadcrumb: CategoryBreadcrumb[];
+}
+
+/**
+ * Category fields stored on a product: its category, that category with
+ * everything above it, and its department
+ */
+export interface ProductCategoryRef {
+  categoryId: Types.ObjectId;
+  categoryPath: Types.ObjectId[];
+  category: ProductCategory;
+}
@@ -1,5 +1,7 @@
 export {
   IProduct,
+  IProductVariant,
+  SellableUnit,
   ProductSearchParams,
   ProductSummary,
   ProductAnalytics,
@@ -7,3 +9,31 @@ export {
   ProductPricing,
   ProductExport,
 } from './product.interface';
+export {
+  CategoryTreeNode,
+  CategoryBreadcrumb,
+  CategoryDetail,
+  ProductCategoryRef,
+} from './category.interface';
+export {
+  BulkPriceRowResult,
+  BulkPriceUpdateResult,
+} from './price-schedule.interface';
+export {
+  ProductImportJobData,
+  ProductImportRowOutcome,
+} from './catalog-csv.interface';
+export {
+  RatingSummary,
+  ReviewPage,
+  ProductReviewPage,
+} from './product-review.interface';
+export {
+  InventoryMovementInput,
+  StockMovementDetails,
+  InventoryMovementPage,
+  InventoryValuationGroup,
+  InventoryValuation,
+  StockTakeLine,
+  StockTakeResult,
+} from './inventory.interface';
@@ -0,0 +1,66 @@
+import { Types } from 'mongoose';
+import {
+  InventoryMovement,
+  InventoryMovementType,
+} from '../entities/inventory-movement.entity';
+
+// What a caller knows about a stock change it has just made
+export interface InventoryMovementInput {
+  productId: string | Types.ObjectId;
+  variantId?: string | Types.ObjectId;
+  type: InventoryMovementType;
+  // Signed: negative when stock was taken out
+  quantity: number;
+  actorId?: string | Types.ObjectId;
+  reference?: string;
+  note?: string;
+}
+
+// Why a stock update was made, kept in the journal alongside it
+export interface StockMovementDetails {
+  type?: InventoryMovementType;
+  reference?: string;
+  note?: string;
+}
+
+export interface InventoryMovementPage {
+  movements: InventoryMovement[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface InventoryValuationGroup {
+  category: string;
+  products: number;
+  units: number;
+  value: number;
+}
+
+export interface InventoryValuation {
+  generatedAt: Date;
+  products: number;
+  units: number;
+  // Stock at current selling prices, in NGN
+  value: number;
+  byCategory: InventoryValuationGroup[];
+}
+
+export interface StockTakeLine {
+  productId: string;
+  variantId?: string;
+  status: 'adjusted' | 'unchanged' | 'failed';
+  expected?: number;
+  counted: number;
+  difference?: number;
+  error?: string;
+}
+
+export interface StockTakeResult {
+  reference: string;
+  adjusted: number;
+  unchanged: number;
+  failed: number;
+  lines: StockTakeLine[];
+}
@@ -0,0 +1,21 @@
+import { PriceChangeStatus } from '../entities/price-history.entity';
+
+export interface BulkPriceRowResult {
+  // Line of the CSV file, counting the header as line 1
+  row: number;
+  productId?: string;
+  sku?: string;
+  price?: number;
+  status: PriceChangeStatus.SCHEDULED | PriceChangeStatus.APPLIED | 'rejected';
+  changeId?: string;
+  error?: string;
+}
+
+export interface BulkPriceUpdateResult {
+  batchId: string;
+  total: number;
+  scheduled: number;
+  applied: number;
+  rejected: number;
+  results: BulkPriceRowResult[];
+}
@@ -0,0 +1,20 @@
+import { ProductReview } from '../entities/product-review.entity';
+
+export interface RatingSummary {
+  rating: number;
+  reviewCount: number;
+  // Approved reviews by star, 1 to 5
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export interface ReviewPage {
+  reviews: ProductReview[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface ProductReviewPage extends ReviewPage {
+  summary: RatingSummary;
+}
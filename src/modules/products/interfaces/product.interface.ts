@@ -1,5 +1,9 @@
 import { Types } from 'mongoose';
-import { DeliveryType, ProductCategory } from '../entities/product.entity';
+import {
+  DeliveryType,
+  ProductCategory,
+  UnitOfMeasure,
+} from '../entities/product.entity';
 
 export interface IProduct {
   _id?: Types.ObjectId;
@@ -10,16 +14,46 @@ export interface IProduct {
   weight: number;
   city: string;
   category: ProductCategory;
+  categoryId: Types.ObjectId;
+  categoryPath: Types.ObjectId[];
   sellerId?: Types.ObjectId;
   tags: string[];
   deliveryType: DeliveryType;
   stock: number;
   isActive?: boolean;
   images?: string[];
+  variants?: IProductVariant[];
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export interface IProductVariant {
+  _id?: Types.ObjectId;
+  sku: string;
+  unitLabel: string;
+  unit: UnitOfMeasure;
+  packSize: number;
+  weight: number;
+  price: number;
+  priceInNibia: number;
+  stock: number;
+  barcode?: string;
+  isActive?: boolean;
+}
+
+/**
+ * What a cart, order or bundle line sells: a pack of the product, or the
+ * product itself when it has no packs
+ */
+export interface SellableUnit {
+  variantId?: string;
+  unitLabel?: string;
+  price: number;
+  priceInNibia: number;
+  weight: number;
+  stock: number;
+}
+
 export interface ProductSearchParams {
   search?: string;
   category?: ProductCategory;
@@ -0,0 +1,69 @@
+import { Controller, Get, Post, Body, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { InventoryService } from './services/inventory.service';
+import {
+  InventoryMovementFilterDto,
+  InventoryValuationQueryDto,
+  StockTakeDto,
+} from './dto';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles, CurrentUser } from '../auth/decorators';
+import { UserRole } from '../users/entities/user.entity';
+
+@ApiTags('Inventory')
+@Controller('inventory')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.USER)
+@ApiBearerAuth('JWT-auth')
+export class InventoryController {
+  constructor(private readonly inventoryService: InventoryService) {}
+
+  @Get('movements')
+  @ApiOperation({
+    summary: 'Stock movements, newest first. Sellers see their own products',
+  })
+  @ApiResponse({ status: 200, description: 'Movements retrieved successfully' })
+  findMovements(
+    @Query() filterDto: InventoryMovementFilterDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.inventoryService.findMovements(filterDto, user.id, user.role);
+  }
+
+  @Get('valuation')
+  @ApiOperation({
+    summary: 'Value of stock on hand at current prices, by category',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Valuation calculated successfully',
+  })
+  getValuation(
+    @Query() query: InventoryValuationQueryDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.inventoryService.getValuation(query, user.id, user.role);
+  }
+
+  @Post('stock-takes')
+  @ApiOperation({
+    summary: 'Adjust stock to a physical count, line by line',
+  })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Stock take applied. Lines that could not be applied are reported as failed',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - a product or pack is counted twice',
+  })
+  reconcile(@Body() stockTakeDto: StockTakeDto, @CurrentUser() user: any) {
+    return this.inventoryService.reconcile(stockTakeDto, user.id, user.role);
+  }
+}
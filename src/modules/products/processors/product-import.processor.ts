@@ -0,0 +1,37 @@
+import { Processor, Process, OnQueueFailed } from '@nestjs/bull';
+import { Injectable, Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { CatalogCsvService } from '../services/catalog-csv.service';
+import { ProductImportJobData } from '../interfaces';
+import { PRODUCT_IMPORT_QUEUE } from '../constants';
+
+@Processor(PRODUCT_IMPORT_QUEUE)
+@Injectable()
+export class ProductImportProcessor {
+  private readonly logger = new Logger(ProductImportProcessor.name);
+
+  constructor(private readonly catalogCsvService: CatalogCsvService) {}
+
+  /**
+   * Import a large CSV file. Throwing lets Bull retry the job with backoff;
+   * rows already imported are matched by SKU and updated on the retry.
+   */
+  @Process('import-products')
+  async handleImportJob(job: Job<ProductImportJobData>): Promise<void> {
+    await this.catalogCsvService.processJob(job.data.jobId);
+  }
+
+  @OnQueueFailed()
+  async onImportJobFailed(
+    job: Job<ProductImportJobData>,
+    error: Error,
+  ): Promise<void> {
+    this.logger.error(
+      `Product import ${job.data.jobId} failed (attempt ${job.attemptsMade}): ${error.message}`,
+    );
+
+    if (job.attemptsMade >= (job.opts.attempts || 1)) {
+      await this.catalogCsvService.markFailed(job.data.jobId, error.message);
+    }
+  }
+}
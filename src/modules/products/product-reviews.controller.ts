@@ -0,0 +1,152 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ProductReviewsService } from './services/product-reviews.service';
+import {
+  CreateReviewDto,
+  ModerateReviewDto,
+  RespondToReviewDto,
+  ReviewFilterDto,
+  ReviewModerationFilterDto,
+} from './dto';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles, CurrentUser, Public } from '../auth/decorators';
+import { UserRole } from '../users/entities/user.entity';
+
+@ApiTags('Reviews')
+@Controller('reviews')
+export class ProductReviewsController {
+  constructor(private readonly productReviewsService: ProductReviewsService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Review a product received on a delivered order' })
+  @ApiResponse({ status: 201, description: 'Review submitted for moderation' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - order not delivered or product not on it',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - can only review own orders',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - product already reviewed for the order',
+  })
+  create(
+    @CurrentUser('id') userId: string,
+    @Body() createReviewDto: CreateReviewDto,
+  ) {
+    return this.productReviewsService.create(userId, createReviewDto);
+  }
+
+  @Get('product/:productId')
+  @Public()
+  @ApiOperation({
+    summary: 'Published reviews of a product with its rating breakdown',
+  })
+  @ApiResponse({ status: 200, description: 'Reviews retrieved successfully' })
+  findForProduct(
+    @Param('productId') productId: string,
+    @Query() filterDto: ReviewFilterDto,
+  ) {
+    return this.productReviewsService.findForProduct(productId, filterDto);
+  }
+
+  @Get('mine')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Reviews written by the current user' })
+  @ApiResponse({ status: 200, description: 'Reviews retrieved successfully' })
+  findMine(
+    @CurrentUser('id') userId: string,
+    @Query() filterDto: ReviewFilterDto,
+  ) {
+    return this.productReviewsService.findMine(userId, filterDto);
+  }
+
+  @Get('moderation')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Reviews waiting for moderation (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Reviews retrieved successfully' })
+  findForModeration(@Query() filterDto: ReviewModerationFilterDto) {
+    return this.productReviewsService.findForModeration(filterDto);
+  }
+
+  @Patch(':id/moderate')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Publish or reject a review (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Review moderated successfully' })
+  @ApiResponse({ status: 404, description: 'Review not found' })
+  moderate(
+    @Param('id') id: string,
+    @CurrentUser('id') adminId: string,
+    @Body() moderateReviewDto: ModerateReviewDto,
+  ) {
+    return this.productReviewsService.moderate(id, adminId, moderateReviewDto);
+  }
+
+  @Put(':id/response')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.USER)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Answer a review of your product as its seller' })
+  @ApiResponse({ status: 200, description: 'Response saved successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - review not published',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - can only answer reviews of own products',
+  })
+  @ApiResponse({ status: 404, description: 'Review not found' })
+  respond(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() respondDto: RespondToReviewDto,
+  ) {
+    return this.productReviewsService.respond(
+      id,
+      user.id,
+      user.role,
+      respondDto,
+    );
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Delete your review, or any review as an admin' })
+  @ApiResponse({ status: 200, description: 'Review deleted successfully' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - can only delete own reviews',
+  })
+  @ApiResponse({ status: 404, description: 'Review not found' })
+  async remove(@Param('id') id: string, @CurrentUser() user: any) {
+    await this.productReviewsService.remove(id, user.id, user.role);
+    return { message: 'Review deleted successfully' };
+  }
+}
@@ -9,16 +9,35 @@ import {
   Query,
   UseGuards,
   Request,
+  Res,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
   ApiQuery,
+  ApiConsumes,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { ProductsService } from './products.service';
-import { CreateProductDto, UpdateProductDto, ProductFilterDto, UpdateStockDto } from './dto';
+import { CatalogCsvService } from './services/catalog-csv.service';
+import {
+  CreateProductDto,
+  UpdateProductDto,
+  ProductFilterDto,
+  UpdateStockDto,
+  CreateProductVariantDto,
+  UpdateProductVariantDto,
+  ImportProductsDto,
+} from './dto';
+import { PRODUCT_CONSTANTS } from './constants';
+import { StockMovementDetails } from './interfaces';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
@@ -29,7 +48,10 @@ import { UserRole } from '../users/entities/user.entity';
 @ApiTags('Products')
 @Controller('products')
 export class ProductsController {
-  constructor(private readonly productsService: ProductsService) {}
+  constructor(
+    private readonly productsService: ProductsService,
+    private readonly catalogCsvService: CatalogCsvService,
+  ) {}
 
   @Post()
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -73,6 +95,69 @@ export class ProductsController {
     return this.productsService.findAll(filterDto);
   }
 
+  @Get('export')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.USER)
+  @ApiBearerAuth('JWT-auth')
+  @ApiProduces('text/csv')
+  @ApiOperation({ summary: 'Export the filtered catalog as CSV. Sellers export their own products' })
+  @ApiResponse({ status: 200, description: 'CSV file in the import layout' })
+  async exportCsv(
+    @Query() filterDto: ProductFilterDto,
+    @CurrentUser() user: any,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const csv = await this.catalogCsvService.exportCsv(filterDto, user.id, user.role);
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="products-${new Date().toISOString().slice(0, 10)}.csv"`,
+    );
+    return csv;
+  }
+
+  @Post('import')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.USER)
+  @ApiBearerAuth('JWT-auth')
+  @UseInterceptors(FileInterceptor('file', {
+    limits: {
+      fileSize: PRODUCT_CONSTANTS.MAX_IMPORT_CSV_SIZE,
+    },
+    fileFilter: (req, file, cb) => {
+      if (file.mimetype === 'text/csv' || file.originalname.toLowerCase().endsWith('.csv')) {
+        cb(null, true);
+      } else {
+        cb(new BadRequestException('Invalid file type. Only CSV files are allowed'), false);
+      }
+    },
+  }))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Create or update products by SKU from a CSV file' })
+  @ApiResponse({ status: 201, description: 'Import job; large files are imported in the background' })
+  @ApiResponse({ status: 400, description: 'Invalid CSV file' })
+  async importCsv(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importDto: ImportProductsDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.catalogCsvService.startImport(file, importDto, user.id, user.role);
+  }
+
+  @Get('import/:jobId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.USER)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get progress and row errors of a CSV import' })
+  @ApiResponse({ status: 200, description: 'Import job retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Import job not found' })
+  async getImportJob(
+    @Param('jobId') jobId: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.catalogCsvService.getJob(jobId, user.id, user.role);
+  }
+
   @Get('my-products')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
@@ -180,18 +265,79 @@ export class ProductsController {
   @ApiOperation({ summary: 'Update product stock' })
   @ApiResponse({ status: 200, description: 'Stock updated successfully' })
   @ApiResponse({ status: 400, description: 'Bad request - Invalid quantity or insufficient stock' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
   @ApiResponse({ status: 404, description: 'Product not found' })
   async updateStock(
     @Param('id') id: string,
     @Body() updateStockDto: UpdateStockDto,
+    @CurrentUser() user: any,
   ) {
     return this.productsService.updateStock(
       id,
       updateStockDto.quantity,
       updateStockDto.operation || 'subtract',
+      user.id,
+      user.role,
+      updateStockDto.variantId,
+      {
+        type: updateStockDto.type,
+        reference: updateStockDto.reference,
+        note: updateStockDto.note,
+      },
     );
   }
 
+  @Post(':id/variants')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.USER)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Add a pack the product is sold in' })
+  @ApiResponse({ status: 201, description: 'Variant added successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - SKU already in use' })
+  async addVariant(
+    @Param('id') id: string,
+    @Body() createVariantDto: CreateProductVariantDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.productsService.addVariant(id, createVariantDto, user.id, user.role);
+  }
+
+  @Patch(':id/variants/:variantId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.USER)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update a pack the product is sold in' })
+  @ApiResponse({ status: 200, description: 'Variant updated successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Product or variant not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - SKU already in use' })
+  async updateVariant(
+    @Param('id') id: string,
+    @Param('variantId') variantId: string,
+    @Body() updateVariantDto: UpdateProductVariantDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.productsService.updateVariant(id, variantId, updateVariantDto, user.id, user.role);
+  }
+
+  @Delete(':id/variants/:variantId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.USER)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Stop selling a pack of the product' })
+  @ApiResponse({ status: 200, description: 'Variant removed successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Product or variant not found' })
+  async removeVariant(
+    @Param('id') id: string,
+    @Param('variantId') variantId: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.productsService.removeVariant(id, variantId, user.id, user.role);
+  }
+
   // Admin-only endpoints
   @Post('admin/bulk-stock-update')
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -201,9 +347,10 @@ export class ProductsController {
   @ApiResponse({ status: 200, description: 'Bulk update completed' })
   async bulkUpdateStock(
     @Body() 
-    updates: { productId: string; quantity: number; operation: 'add' | 'subtract' }[],
+    updates: ({ productId: string; quantity: number; operation: 'add' | 'subtract' } & StockMovementDetails)[],
+    @CurrentUser() user: any,
   ) {
-    return this.productsService.bulkUpdateStock(updates);
+    return this.productsService.bulkUpdateStock(updates, user.id, user.role);
   }
 
   @Post('admin/:sellerId')
@@ -1,21 +1,66 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
+import { BullModule } from '@nestjs/bull';
 import { ProductsService } from './products.service';
 import { ProductsController } from './products.controller';
 import { Product, ProductSchema } from '../products/entities/product.entity';
 import { PriceLock, PriceLockSchema } from '../products/entities/price-lock.entity';
+import { Category, CategorySchema } from './entities/category.entity';
+import { PriceHistory, PriceHistorySchema } from './entities/price-history.entity';
+import { CategoriesService } from './services/categories.service';
+import { CategoriesController } from './categories.controller';
+import { PriceScheduleService } from './services/price-schedule.service';
+import { ProductImportJob, ProductImportJobSchema } from './entities/product-import-job.entity';
+import { CatalogCsvService } from './services/catalog-csv.service';
+import { ProductImportProcessor } from './processors/product-import.processor';
+import { ProductReview, ProductReviewSchema } from './entities/product-review.entity';
+import { ProductReviewsService } from './services/product-reviews.service';
+import { ProductReviewsController } from './product-reviews.controller';
+import { InventoryMovement, InventoryMovementSchema } from './entities/inventory-movement.entity';
+import { InventoryService } from './services/inventory.service';
+import { InventoryController } from './inventory.controller';
+import { Order, OrderSchema } from '../orders/entities/order.entity';
+import { User, UserSchema } from '../users/entities/user.entity';
+import { PRODUCT_IMPORT_QUEUE } from './constants';
 import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Product.name, schema: ProductSchema },
-      { name: PriceLock.name, schema: PriceLockSchema }
+      { name: PriceLock.name, schema: PriceLockSchema },
+      { name: Category.name, schema: CategorySchema },
+      { name: PriceHistory.name, schema: PriceHistorySchema },
+      { name: ProductImportJob.name, schema: ProductImportJobSchema },
+      { name: ProductReview.name, schema: ProductReviewSchema },
+      { name: Order.name, schema: OrderSchema },
+      { name: InventoryMovement.name, schema: InventoryMovementSchema },
+      { name: User.name, schema: UserSchema },
     ]),
+    BullModule.registerQueue({ name: PRODUCT_IMPORT_QUEUE }),
     NotificationsModule
   ],
-  controllers: [ProductsController],
-  providers: [ProductsService],
-  exports: [ProductsService],
+  controllers: [
+    ProductsController,
+    CategoriesController,
+    ProductReviewsController,
+    InventoryController,
+  ],
+  providers: [
+    ProductsService,
+    CategoriesService,
+    PriceScheduleService,
+    CatalogCsvService,
+    ProductImportProcessor,
+    ProductReviewsService,
+    InventoryService,
+  ],
+  exports: [
+    ProductsService,
+    CategoriesService,
+    PriceScheduleService,
+    ProductReviewsService,
+    InventoryService,
+  ],
 })
 export class ProductsModule {}
@@ -3,15 +3,34 @@ import {
   NotFoundException,
   ForbiddenException,
   BadRequestException,
+  ConflictException,
   Logger,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Product, ProductDocument } from '../products/entities/product.entity';
+import { Product, ProductDocument, ProductVariant } from '../products/entities/product.entity';
 import { PriceLock, PriceLockDocument, PriceLockStatus } from '../products/entities/price-lock.entity';
 import { NotificationsService } from '../notifications/notifications.service';
 import { NotificationType, NotificationChannel } from '../notifications/entities/notification.entity';
-import { CreateProductDto, UpdateProductDto, ProductFilterDto } from './dto';
+import {
+  CreateProductDto,
+  UpdateProductDto,
+  ProductFilterDto,
+  CreateProductVariantDto,
+  UpdateProductVariantDto,
+} from './dto';
+import {
+  PRODUCT_CONSTANTS,
+  PRODUCT_ERROR_MESSAGES,
+  INVENTORY_ERROR_MESSAGES,
+  INVENTORY_MOVEMENT_DIRECTION,
+} from './constants';
+import { ProductVariants } from './helpers';
+import { ProductCategoryRef, StockMovementDetails } from './interfaces';
+import { CategoriesService } from './services/categories.service';
+import { PriceScheduleService } from './services/price-schedule.service';
+import { InventoryService } from './services/inventory.service';
+import { InventoryMovementType } from './entities/inventory-movement.entity';
 
 @Injectable()
 export class ProductsService {
@@ -21,6 +40,9 @@ export class ProductsService {
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
     @InjectModel(PriceLock.name) private priceLockModel: Model<PriceLockDocument>,
     private readonly notificationsService: NotificationsService,
+    private readonly categoriesService: CategoriesService,
+    private readonly priceScheduleService: PriceScheduleService,
+    private readonly inventoryService: InventoryService,
   ) {}
 
   async create(
@@ -54,7 +76,14 @@ export class ProductsService {
       const productData = {
         ...createProductDto,
         sellerId: createProductDto.sellerId ? new Types.ObjectId(createProductDto.sellerId) : undefined,
+        ...(await this.categoriesService.resolveForProduct(createProductDto.categoryId)),
       };
+
+      // Products sold in packs are priced and stocked from their packs
+      if (createProductDto.variants?.length) {
+        this.assertUniqueSkus(createProductDto.variants);
+        Object.assign(productData, ProductVariants.summarize(createProductDto.variants));
+      }
       
       console.log('💾 Final productData.sellerId:', productData.sellerId);
 
@@ -64,9 +93,16 @@ export class ProductsService {
       return savedProduct;
     } catch (error) {
       console.log('❌ Error in create:', error.message);
-      if (error instanceof ForbiddenException) {
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof ConflictException ||
+        error instanceof NotFoundException
+      ) {
         throw error;
       }
+      if (error.code === 11000) {
+        throw new ConflictException(PRODUCT_ERROR_MESSAGES.DUPLICATE_SKU);
+      }
       throw new BadRequestException('Failed to create product: ' + error.message);
     }
   }
@@ -79,69 +115,20 @@ export class ProductsService {
     totalPages: number;
   }> {
     const {
-      search,
-      city,
-      category,
-      deliveryType,
-      sellerId,
-      minPrice,
-      maxPrice,
-      minPriceInNibia,
-      maxPriceInNibia,
-      isActive,
-      tags,
       page = 1,
       limit = 10,
       sortBy = 'createdAt',
       sortOrder = 'desc',
     } = filterDto;
-
-    const query: any = {};
-
-    // Build search query
-    if (search) {
-      query.$text = { $search: search };
-    }
-
-    if (city) {
-      query.city = { $regex: city, $options: 'i' };
-    }
-
-    if (category) {
-      query.category = category;
-    }
-
-    if (deliveryType) {
-      query.deliveryType = deliveryType;
-    }
-
-    if (sellerId) {
-      query.sellerId = new Types.ObjectId(sellerId);
-    }
-
-    if (minPrice !== undefined || maxPrice !== undefined) {
-      query.price = {};
-      if (minPrice !== undefined) query.price.$gte = minPrice;
-      if (maxPrice !== undefined) query.price.$lte = maxPrice;
-    }
-
-    if (minPriceInNibia !== undefined || maxPriceInNibia !== undefined) {
-      query.priceInNibia = {};
-      if (minPriceInNibia !== undefined) query.priceInNibia.$gte = minPriceInNibia;
-      if (maxPriceInNibia !== undefined) query.priceInNibia.$lte = maxPriceInNibia;
-    }
-
-    if (isActive !== undefined) {
-      query.isActive = isActive;
-    }
-
-    if (tags && tags.length > 0) {
-      query.tags = { $in: tags };
-    }
+    const query = this.buildFilterQuery(filterDto);
 
     const skip = (page - 1) * limit;
     const sortOptions: any = {};
     sortOptions[sortBy] = sortOrder === 'asc' ? 1 : -1;
+    // Among equal ratings, the better reviewed product comes first
+    if (sortBy === 'rating') {
+      sortOptions.reviewCount = sortOptions.rating;
+    }
 
     const [products, total] = await Promise.all([
       this.productModel
@@ -163,6 +150,19 @@ export class ProductsService {
     };
   }
 
+  /**
+   * Every product matching the filter, without paging, for catalog exports
+   */
+  async findForExport(filterDto: ProductFilterDto = {}): Promise<Product[]> {
+    const { sortBy = 'createdAt', sortOrder = 'desc' } = filterDto;
+    return this.productModel
+      .find(this.buildFilterQuery(filterDto))
+      .sort({ [sortBy]: sortOrder === 'asc' ? 1 : -1 })
+      .limit(PRODUCT_CONSTANTS.MAX_EXPORT_ROWS)
+      .lean<Product[]>()
+      .exec();
+  }
+
   async findOne(id: string): Promise<Product> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid product ID');
@@ -197,7 +197,10 @@ export class ProductsService {
     limit: number;
     totalPages: number;
   }> {
-    return this.findAll({ ...filterDto, category: category as any });
+    // Department names were the first top-level category slugs, so old
+    // links keep working
+    const found = await this.categoriesService.findByIdOrSlug(category);
+    return this.findAll({ ...filterDto, categoryId: found._id.toString() });
   }
 
   async findBySeller(sellerId: string, filterDto: ProductFilterDto = {}): Promise<{
@@ -241,16 +244,40 @@ export class ProductsService {
       }
     }
 
+    // Moving a product to another category also moves its department
+    const { categoryId, ...fields } = updateProductDto;
+    const update: typeof fields & Partial<ProductCategoryRef> = categoryId
+      ? { ...fields, ...(await this.categoriesService.resolveForProduct(categoryId)) }
+      : fields;
+
+    // Price, weight and stock of products sold in packs follow their packs
+    if (existingProduct.variants?.length) {
+      delete update.price;
+      delete update.priceInNibia;
+      delete update.weight;
+      delete update.stock;
+    }
+
+    let updatedProduct: ProductDocument;
     try {
-      const updatedProduct = await this.productModel
-        .findByIdAndUpdate(id, updateProductDto, { new: true })
+      updatedProduct = await this.productModel
+        .findByIdAndUpdate(id, update, { new: true })
         .populate('sellerId', 'name email')
         .exec();
-
-      return updatedProduct;
     } catch (error) {
       throw new BadRequestException('Failed to update product: ' + error.message);
     }
+
+    // Price edits are kept in price history like scheduled changes
+    if (userId && !existingProduct.variants?.length) {
+      await this.priceScheduleService.recordEdit(
+        updatedProduct,
+        undefined,
+        existingProduct,
+        userId,
+      );
+    }
+    return updatedProduct;
   }
 
   async remove(id: string, userId?: string, userRole?: string): Promise<void> {
@@ -273,36 +300,141 @@ export class ProductsService {
     await this.productModel.findByIdAndDelete(id);
   }
 
-  async updateStock(id: string, quantity: number, operation: 'add' | 'subtract' = 'subtract'): Promise<Product> {
+  async updateStock(
+    id: string,
+    quantity: number,
+    operation: 'add' | 'subtract' = 'subtract',
+    userId?: string,
+    userRole?: string,
+    variantId?: string,
+    movement: StockMovementDetails = {},
+  ): Promise<Product> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid product ID');
     }
 
+    const type = movement.type
+      ?? (operation === 'add' ? InventoryMovementType.RESTOCK : InventoryMovementType.ADJUSTMENT);
+    const direction = INVENTORY_MOVEMENT_DIRECTION[type];
+    if (direction === 1 && operation !== 'add') {
+      throw new BadRequestException(INVENTORY_ERROR_MESSAGES.STOCK_IN_ONLY);
+    }
+    if (direction === -1 && operation === 'add') {
+      throw new BadRequestException(INVENTORY_ERROR_MESSAGES.STOCK_OUT_ONLY);
+    }
+
     const product = await this.productModel.findById(id);
     if (!product) {
       throw new NotFoundException('Product not found');
     }
 
-    const newStock = operation === 'add' 
-      ? product.stock + quantity 
-      : product.stock - quantity;
-
-    if (newStock < 0) {
-      throw new BadRequestException('Insufficient stock');
+    // Check permissions
+    if (userId && userRole !== 'admin') {
+      if (!product.sellerId || product.sellerId.toString() !== userId) {
+        throw new ForbiddenException('You can only update stock for your own products');
+      }
     }
 
-    const updatedProduct = await this.productModel
-      .findByIdAndUpdate(
-        id,
-        { stock: newStock },
-        { new: true }
-      )
-      .populate('sellerId', 'name email')
-      .exec();
+    let updatedProduct: Product;
+    if (product.variants?.length || variantId) {
+      updatedProduct = await this.updateVariantStock(product, quantity, operation, variantId);
+    } else {
+      // Move stock by the quantity rather than overwrite it, so concurrent
+      // updates all land and each journal entry matches what happened
+      const delta = operation === 'add' ? quantity : -quantity;
+      updatedProduct = await this.productModel
+        .findOneAndUpdate(
+          { _id: product._id, stock: { $gte: Math.max(0, -delta) } },
+          { $inc: { stock: delta } },
+          { new: true }
+        )
+        .populate('sellerId', 'name email')
+        .exec();
+
+      if (!updatedProduct) {
+        throw new BadRequestException('Insufficient stock');
+      }
+    }
 
+    await this.inventoryService.record({
+      productId: id,
+      variantId,
+      type,
+      quantity: operation === 'add' ? quantity : -quantity,
+      actorId: userId,
+      reference: movement.reference,
+      note: movement.note,
+    });
     return updatedProduct;
   }
 
+  /**
+   * Add a pack the product is sold in. The product's price, weight and
+   * stock then follow its packs.
+   */
+  async addVariant(
+    id: string,
+    createVariantDto: CreateProductVariantDto,
+    userId?: string,
+    userRole?: string,
+  ): Promise<Product> {
+    const product = await this.findOwnProduct(id, userId, userRole);
+    if (product.variants.length >= PRODUCT_CONSTANTS.MAX_VARIANTS_COUNT) {
+      throw new BadRequestException(PRODUCT_ERROR_MESSAGES.TOO_MANY_VARIANTS);
+    }
+    this.assertUniqueSkus([...product.variants, createVariantDto]);
+
+    product.variants.push(createVariantDto as ProductVariant);
+    return this.saveVariants(product);
+  }
+
+  async updateVariant(
+    id: string,
+    variantId: string,
+    updateVariantDto: UpdateProductVariantDto,
+    userId?: string,
+    userRole?: string,
+  ): Promise<Product> {
+    const product = await this.findOwnProduct(id, userId, userRole);
+    const variant = ProductVariants.find(product, variantId);
+    if (!variant) {
+      throw new NotFoundException(PRODUCT_ERROR_MESSAGES.VARIANT_NOT_FOUND);
+    }
+
+    const before = { price: variant.price, priceInNibia: variant.priceInNibia };
+    Object.assign(variant, updateVariantDto);
+    this.assertUniqueSkus(product.variants);
+    const updated = await this.saveVariants(product);
+
+    if (userId) {
+      await this.priceScheduleService.recordEdit(product, variantId, before, userId);
+    }
+    return updated;
+  }
+
+  /**
+   * Stop selling a pack. Carts and orders that already hold it keep their
+   * price; new lines can no longer choose it.
+   */
+  async removeVariant(
+    id: string,
+    variantId: string,
+    userId?: string,
+    userRole?: string,
+  ): Promise<Product> {
+    const product = await this.findOwnProduct(id, userId, userRole);
+    const variant = ProductVariants.find(product, variantId);
+    if (!variant) {
+      throw new NotFoundException(PRODUCT_ERROR_MESSAGES.VARIANT_NOT_FOUND);
+    }
+
+    product.variants = product.variants.filter((pack) => pack !== variant);
+    if (!product.variants.length) {
+      product.stock = 0;
+    }
+    return this.saveVariants(product);
+  }
+
   async getStatistics(): Promise<{
     totalProducts: number;
     totalActiveProducts: number;
@@ -346,7 +478,11 @@ export class ProductsService {
     };
   }
 
-  async bulkUpdateStock(updates: { productId: string; quantity: number; operation: 'add' | 'subtract' }[]): Promise<{
+  async bulkUpdateStock(
+    updates: ({ productId: string; quantity: number; operation: 'add' | 'subtract' } & StockMovementDetails)[],
+    userId?: string,
+    userRole?: string,
+  ): Promise<{
     successful: string[];
     failed: { productId: string; error: string }[];
   }> {
@@ -357,7 +493,15 @@ export class ProductsService {
 
     for (const update of updates) {
       try {
-        await this.updateStock(update.productId, update.quantity, update.operation);
+        await this.updateStock(
+          update.productId,
+          update.quantity,
+          update.operation,
+          userId,
+          userRole,
+          undefined,
+          { type: update.type, reference: update.reference, note: update.note },
+        );
         results.successful.push(update.productId);
       } catch (error) {
         results.failed.push({
@@ -371,6 +515,163 @@ export class ProductsService {
   }
 
 
+  private buildFilterQuery(filterDto: ProductFilterDto): any {
+    const {
+      search,
+      city,
+      category,
+      categoryId,
+      deliveryType,
+      sellerId,
+      minPrice,
+      maxPrice,
+      minPriceInNibia,
+      maxPriceInNibia,
+      minRating,
+      isActive,
+      tags,
+    } = filterDto;
+
+    const query: any = {};
+
+    // Build search query
+    if (search) {
+      query.$text = { $search: search };
+    }
+
+    if (city) {
+      query.city = { $regex: city, $options: 'i' };
+    }
+
+    if (category) {
+      query.category = category;
+    }
+
+    if (categoryId) {
+      query.categoryPath = new Types.ObjectId(categoryId);
+    }
+
+    if (deliveryType) {
+      query.deliveryType = deliveryType;
+    }
+
+    if (sellerId) {
+      query.sellerId = new Types.ObjectId(sellerId);
+    }
+
+    if (minPrice !== undefined || maxPrice !== undefined) {
+      query.price = {};
+      if (minPrice !== undefined) query.price.$gte = minPrice;
+      if (maxPrice !== undefined) query.price.$lte = maxPrice;
+    }
+
+    if (minPriceInNibia !== undefined || maxPriceInNibia !== undefined) {
+      query.priceInNibia = {};
+      if (minPriceInNibia !== undefined) query.priceInNibia.$gte = minPriceInNibia;
+      if (maxPriceInNibia !== undefined) query.priceInNibia.$lte = maxPriceInNibia;
+    }
+
+    if (minRating !== undefined) {
+      query.rating = { $gte: minRating };
+    }
+
+    if (isActive !== undefined) {
+      query.isActive = isActive;
+    }
+
+    if (tags && tags.length > 0) {
+      query.tags = { $in: tags };
+    }
+
+    return query;
+  }
+
+  private async findOwnProduct(
+    id: string,
+    userId?: string,
+    userRole?: string,
+  ): Promise<ProductDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid product ID');
+    }
+
+    const product = await this.productModel.findById(id);
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+
+    if (userRole !== 'admin') {
+      if (!product.sellerId || product.sellerId.toString() !== userId) {
+        throw new ForbiddenException(PRODUCT_ERROR_MESSAGES.UNAUTHORIZED_SELLER);
+      }
+    }
+
+    return product;
+  }
+
+  private async saveVariants(product: ProductDocument): Promise<Product> {
+    if (product.variants.length) {
+      Object.assign(product, ProductVariants.summarize(product.variants));
+    }
+
+    try {
+      await product.save();
+    } catch (error) {
+      if (error.code === 11000) {
+        throw new ConflictException(PRODUCT_ERROR_MESSAGES.DUPLICATE_SKU);
+      }
+      throw new BadRequestException('Failed to update product: ' + error.message);
+    }
+    return this.findOne(product._id.toString());
+  }
+
+  /**
+   * Add or take stock of one pack, moving the product's total with it
+   */
+  private async updateVariantStock(
+    product: ProductDocument,
+    quantity: number,
+    operation: 'add' | 'subtract',
+    variantId?: string,
+  ): Promise<Product> {
+    if (!variantId) {
+      throw new BadRequestException(PRODUCT_ERROR_MESSAGES.VARIANT_REQUIRED);
+    }
+    if (!ProductVariants.find(product, variantId)) {
+      throw new NotFoundException(PRODUCT_ERROR_MESSAGES.VARIANT_NOT_FOUND);
+    }
+
+    const delta = operation === 'add' ? quantity : -quantity;
+    const updatedProduct = await this.productModel
+      .findOneAndUpdate(
+        {
+          _id: product._id,
+          variants: {
+            $elemMatch: {
+              _id: new Types.ObjectId(variantId),
+              stock: { $gte: Math.max(0, -delta) },
+            },
+          },
+        },
+        { $inc: { 'variants.$.stock': delta, stock: delta } },
+        { new: true },
+      )
+      .populate('sellerId', 'name email')
+      .exec();
+
+    if (!updatedProduct) {
+      throw new BadRequestException('Insufficient stock');
+    }
+    return updatedProduct;
+  }
+
+  private assertUniqueSkus(variants: { sku: string }[]): void {
+    const skus = variants.map((variant) => variant.sku.trim().toUpperCase());
+    if (new Set(skus).size !== skus.length) {
+      throw new ConflictException(PRODUCT_ERROR_MESSAGES.DUPLICATE_SKU);
+    }
+  }
+
   // Added methods for scheduled tasks
   async expirePriceLocks(): Promise<number> {
     const now = new Date();
@@ -0,0 +1,361 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+  HttpException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { InjectQueue } from '@nestjs/bull';
+import { Model, Types } from 'mongoose';
+import { Queue } from 'bull';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import {
+  ImportJobStatus,
+  ImportRowError,
+  ProductImportJob,
+  ProductImportJobDocument,
+} from '../entities/product-import-job.entity';
+import { Product, ProductDocument } from '../entities/product.entity';
+import { CreateProductDto, ImportProductsDto, ProductFilterDto } from '../dto';
+import { ProductImportJobData, ProductImportRowOutcome } from '../interfaces';
+import {
+  IMPORT_ERROR_MESSAGES,
+  PRODUCT_CONSTANTS,
+  PRODUCT_CSV,
+  PRODUCT_CSV_COLUMNS,
+  PRODUCT_CSV_LIST_SEPARATOR,
+  PRODUCT_CSV_REQUIRED_COLUMNS,
+  PRODUCT_ERROR_MESSAGES,
+  PRODUCT_IMPORT_QUEUE,
+} from '../constants';
+import { ProductsService } from '../products.service';
+import { CategoriesService } from './categories.service';
+
+type ExistingProduct = Pick<ProductDocument, '_id' | 'sku' | 'sellerId'>;
+
+@Injectable()
+export class CatalogCsvService {
+  private readonly logger = new Logger(CatalogCsvService.name);
+
+  constructor(
+    @InjectModel(ProductImportJob.name)
+    private importJobModel: Model<ProductImportJobDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectQueue(PRODUCT_IMPORT_QUEUE)
+    private readonly importQueue: Queue<ProductImportJobData>,
+    private readonly productsService: ProductsService,
+    private readonly categoriesService: CategoriesService,
+  ) {}
+
+  /**
+   * Check the file's shape and import it: small files straight away, larger
+   * ones on the import queue. The returned job reports progress and the
+   * rows that were rejected.
+   */
+  async startImport(
+    file: Express.Multer.File,
+    importDto: ImportProductsDto,
+    userId: string,
+    userRole: string,
+  ): Promise<ProductImportJob> {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException(IMPORT_ERROR_MESSAGES.CSV_REQUIRED);
+    }
+
+    const csv = file.buffer.toString('utf8');
+    const rows = PRODUCT_CSV.parse(csv);
+    if (!rows.length) {
+      throw new BadRequestException(IMPORT_ERROR_MESSAGES.CSV_EMPTY);
+    }
+    if (rows.length > PRODUCT_CONSTANTS.MAX_IMPORT_ROWS) {
+      throw new BadRequestException(IMPORT_ERROR_MESSAGES.CSV_TOO_MANY_ROWS);
+    }
+    const columns = Object.keys(rows[0]);
+    const missing = PRODUCT_CSV_REQUIRED_COLUMNS.filter(
+      (column) => !columns.includes(column),
+    );
+    if (missing.length) {
+      throw new BadRequestException(
+        `${IMPORT_ERROR_MESSAGES.CSV_MISSING_COLUMNS}: ${missing.join(', ')}`,
+      );
+    }
+
+    const job = await this.importJobModel.create({
+      userId: new Types.ObjectId(userId),
+      userRole,
+      fileName: file.originalname,
+      dryRun: !!importDto.dryRun,
+      csv,
+      totalRows: rows.length,
+    });
+    const jobId = job._id.toString();
+
+    if (rows.length <= PRODUCT_CONSTANTS.IMPORT_INLINE_ROWS) {
+      try {
+        return await this.processJob(jobId);
+      } catch (error) {
+        await this.markFailed(jobId, error.message);
+        throw error;
+      }
+    }
+
+    await this.importQueue.add(
+      'import-products',
+      { jobId },
+      {
+        attempts: PRODUCT_CONSTANTS.IMPORT_RETRY_ATTEMPTS,
+        backoff: {
+          type: 'exponential',
+          delay: PRODUCT_CONSTANTS.IMPORT_RETRY_DELAY,
+        },
+        removeOnComplete: 100,
+        removeOnFail: 100,
+      },
+    );
+    return this.importJobModel.findById(jobId);
+  }
+
+  /**
+   * Import every row of a job, or only check them on a dry run. Rows are
+   * matched to products by SKU, so running a job again updates what an
+   * earlier attempt created.
+   */
+  async processJob(jobId: string): Promise<ProductImportJob> {
+    const job = await this.importJobModel
+      .findByIdAndUpdate(
+        jobId,
+        {
+          $set: {
+            status: ImportJobStatus.PROCESSING,
+            startedAt: new Date(),
+            processedRows: 0,
+            created: 0,
+            updated: 0,
+            failed: 0,
+            rowErrors: [],
+          },
+        },
+        { new: true },
+      )
+      .select('+csv');
+    if (!job) {
+      throw new NotFoundException(IMPORT_ERROR_MESSAGES.JOB_NOT_FOUND);
+    }
+
+    const rows = PRODUCT_CSV.parse(job.csv);
+    const skus = rows.map((row) => row.sku?.toUpperCase()).filter(Boolean);
+    const existing = await this.productModel
+      .find({ sku: { $in: skus } })
+      .select('_id sku sellerId');
+    const bySku = new Map<string, ExistingProduct>(
+      existing.map((product) => [product.sku, product]),
+    );
+
+    const seen = new Set<string>();
+    const counts = { created: 0, updated: 0, failed: 0 };
+    const rowErrors: ImportRowError[] = [];
+
+    for (const [index, row] of rows.entries()) {
+      const sku = row.sku?.toUpperCase();
+      let outcome: ProductImportRowOutcome;
+      if (sku && seen.has(sku)) {
+        outcome = {
+          action: 'failed',
+          messages: [IMPORT_ERROR_MESSAGES.DUPLICATE_ROW],
+        };
+      } else {
+        seen.add(sku);
+        outcome = await this.importRow(row, bySku.get(sku), job);
+      }
+
+      if (outcome.action === 'failed') {
+        counts.failed++;
+        rowErrors.push({
+          row: index + 2,
+          sku: row.sku || undefined,
+          messages: outcome.messages,
+        });
+      } else {
+        counts[outcome.action]++;
+      }
+
+      const processedRows = index + 1;
+      if (
+        processedRows % PRODUCT_CONSTANTS.IMPORT_PROGRESS_EVERY === 0 &&
+        processedRows < rows.length
+      ) {
+        await this.importJobModel.updateOne(
+          { _id: job._id },
+          { $set: { processedRows, ...counts, rowErrors } },
+        );
+      }
+    }
+
+    this.logger.log(
+      `Import ${jobId}${job.dryRun ? ' (dry run)' : ''}: ${counts.created} created, ${counts.updated} updated, ${counts.failed} failed`,
+    );
+    return this.importJobModel.findByIdAndUpdate(
+      job._id,
+      {
+        $set: {
+          status: ImportJobStatus.COMPLETED,
+          processedRows: rows.length,
+          ...counts,
+          rowErrors,
+          completedAt: new Date(),
+        },
+      },
+      { new: true },
+    );
+  }
+
+  async markFailed(jobId: string, reason: string): Promise<void> {
+    await this.importJobModel.updateOne(
+      { _id: jobId },
+      {
+        $set: {
+          status: ImportJobStatus.FAILED,
+          failureReason: reason,
+          completedAt: new Date(),
+        },
+      },
+    );
+  }
+
+  async getJob(
+    jobId: string,
+    userId: string,
+    userRole: string,
+  ): Promise<ProductImportJob> {
+    if (!Types.ObjectId.isValid(jobId)) {
+      throw new NotFoundException(IMPORT_ERROR_MESSAGES.JOB_NOT_FOUND);
+    }
+
+    const job = await this.importJobModel.findById(jobId);
+    // Sellers only see their own imports
+    if (!job || (userRole !== 'admin' && job.userId.toString() !== userId)) {
+      throw new NotFoundException(IMPORT_ERROR_MESSAGES.JOB_NOT_FOUND);
+    }
+    return job;
+  }
+
+  /**
+   * The filtered catalog in the import layout, so an edited export can be
+   * uploaded again. Sellers export their own products only.
+   */
+  async exportCsv(
+    filterDto: ProductFilterDto,
+    userId: string,
+    userRole: string,
+  ): Promise<string> {
+    const products = await this.productsService.findForExport(
+      userRole === 'admin' ? filterDto : { ...filterDto, sellerId: userId },
+    );
+
+    return PRODUCT_CSV.stringify([
+      [...PRODUCT_CSV_COLUMNS],
+      ...products.map((product) => [
+        product.sku,
+        product.name,
+        product.description,
+        product.categoryId,
+        product.city,
+        product.price,
+        product.priceInNibia,
+        product.weight,
+        product.stock,
+        product.deliveryType,
+        product.tags?.join(PRODUCT_CSV_LIST_SEPARATOR),
+        product.images?.join(PRODUCT_CSV_LIST_SEPARATOR),
+        product.sellerId,
+      ]),
+    ]);
+  }
+
+  private async importRow(
+    row: Record<string, string>,
+    existing: ExistingProduct | undefined,
+    job: ProductImportJobDocument,
+  ): Promise<ProductImportRowOutcome> {
+    const productDto = plainToInstance(CreateProductDto, this.toProduct(row));
+    const messages = (await validate(productDto)).flatMap((error) =>
+      Object.values(error.constraints ?? {}),
+    );
+    if (!productDto.sku) {
+      messages.unshift(IMPORT_ERROR_MESSAGES.SKU_REQUIRED);
+    }
+    if (messages.length) {
+      return { action: 'failed', messages };
+    }
+
+    const userId = job.userId.toString();
+    try {
+      // Sellers can only import into their own catalog
+      if (
+        job.userRole !== 'admin' &&
+        ((existing && existing.sellerId?.toString() !== userId) ||
+          (productDto.sellerId && productDto.sellerId !== userId))
+      ) {
+        throw new ForbiddenException(
+          PRODUCT_ERROR_MESSAGES.UNAUTHORIZED_SELLER,
+        );
+      }
+
+      if (job.dryRun) {
+        await this.categoriesService.resolveForProduct(productDto.categoryId);
+        return {
+          action: existing ? 'updated' : 'created',
+          productId: existing?._id.toString(),
+        };
+      }
+
+      const product = (
+        existing
+          ? await this.productsService.update(
+              existing._id.toString(),
+              productDto,
+              userId,
+              job.userRole,
+            )
+          : await this.productsService.create(productDto, userId, job.userRole)
+      ) as ProductDocument;
+      return {
+        action: existing ? 'updated' : 'created',
+        productId: product._id.toString(),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        return { action: 'failed', messages: [error.message] };
+      }
+      throw error;
+    }
+  }
+
+  // Cells as the fields of a new product; blank optional cells are left out
+  private toProduct(row: Record<string, string>): Record<string, unknown> {
+    const list = (value?: string) =>
+      (value ?? '')
+        .split(PRODUCT_CSV_LIST_SEPARATOR)
+        .map((item) => item.trim())
+        .filter(Boolean);
+
+    return {
+      sku: row.sku || undefined,
+      name: row.name,
+      description: row.description,
+      categoryId: row.categoryId,
+      city: row.city,
+      price: PRODUCT_CSV.toAmount(row.price),
+      priceInNibia: PRODUCT_CSV.toAmount(row.priceInNibia),
+      weight: PRODUCT_CSV.toAmount(row.weight),
+      stock: PRODUCT_CSV.toAmount(row.stock),
+      deliveryType: row.deliveryType?.toLowerCase(),
+      tags: list(row.tags),
+      images: list(row.images),
+      ...(row.sellerId && { sellerId: row.sellerId }),
+    };
+  }
+}
@@ -0,0 +1,388 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { AnyBulkWriteOperation, Model, Types } from 'mongoose';
+import { Category, CategoryDocument } from '../entities/category.entity';
+import { Product, ProductDocument } from '../entities/product.entity';
+import {
+  CreateCategoryDto,
+  UpdateCategoryDto,
+  ReorderCategoriesDto,
+} from '../dto';
+import {
+  CategoryDetail,
+  CategoryTreeNode,
+  ProductCategoryRef,
+} from '../interfaces';
+import { CATEGORY_ERROR_MESSAGES } from '../constants';
+
+type CategoryRecord = Category & { _id: Types.ObjectId };
+
+/**
+ * The catalogue's category tree. Each category keeps the IDs of the
+ * categories above it, and each product keeps its category with
+ * everything above it, so a whole branch can be counted or listed with
+ * one query. Moving a category rewrites both for the branch.
+ */
+@Injectable()
+export class CategoriesService {
+  private readonly logger = new Logger(CategoriesService.name);
+
+  constructor(
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+  ) {}
+
+  /**
+   * Categories as a tree with active product counts. Inactive categories,
+   * and everything below them, are left out unless asked for.
+   */
+  async getTree(includeInactive = false): Promise<CategoryTreeNode[]> {
+    const { roots } = await this.buildTree(includeInactive);
+    return roots;
+  }
+
+  /**
+   * One category by ID or slug, with its branch and the path to it
+   */
+  async findOne(
+    idOrSlug: string,
+    includeInactive = false,
+  ): Promise<CategoryDetail> {
+    const category = await this.findByIdOrSlug(idOrSlug);
+    const { nodes } = await this.buildTree(includeInactive);
+    const node = nodes.get(category._id.toString());
+    if (!node) {
+      throw new NotFoundException(CATEGORY_ERROR_MESSAGES.CATEGORY_NOT_FOUND);
+    }
+
+    return {
+      ...node,
+      breadcrumb: category.ancestors.map((ancestorId) => {
+        const ancestor = nodes.get(ancestorId.toString());
+        return {
+          _id: ancestor._id,
+          name: ancestor.name,
+          slug: ancestor.slug,
+        };
+      }),
+    };
+  }
+
+  async findAll(): Promise<CategoryDocument[]> {
+    return this.categoryModel.find().sort({ sortOrder: 1, name: 1 }).exec();
+  }
+
+  async findById(categoryId: string): Promise<CategoryDocument> {
+    const category = Types.ObjectId.isValid(categoryId)
+      ? await this.categoryModel.findById(categoryId)
+      : null;
+    if (!category) {
+      throw new NotFoundException(CATEGORY_ERROR_MESSAGES.CATEGORY_NOT_FOUND);
+    }
+    return category;
+  }
+
+  async findByIdOrSlug(idOrSlug: string): Promise<CategoryDocument> {
+    const category = await this.categoryModel.findOne(
+      Types.ObjectId.isValid(idOrSlug)
+        ? { _id: idOrSlug }
+        : { slug: idOrSlug.toLowerCase() },
+    );
+    if (!category) {
+      throw new NotFoundException(CATEGORY_ERROR_MESSAGES.CATEGORY_NOT_FOUND);
+    }
+    return category;
+  }
+
+  async create(createDto: CreateCategoryDto): Promise<CategoryDocument> {
+    const parent = createDto.parentCategoryId
+      ? await this.findParent(createDto.parentCategoryId)
+      : null;
+    if (!parent && !createDto.department) {
+      throw new BadRequestException(
+        CATEGORY_ERROR_MESSAGES.DEPARTMENT_REQUIRED,
+      );
+    }
+
+    try {
+      const category = await this.categoryModel.create({
+        ...createDto,
+        slug: createDto.slug || this.toSlug(createDto.name),
+        parentCategoryId: parent?._id ?? null,
+        ancestors: parent ? this.pathOf(parent) : [],
+        department: parent ? parent.department : createDto.department,
+      });
+      this.logger.log(`Created category ${category.slug}`);
+      return category;
+    } catch (error) {
+      throw this.toConflict(error);
+    }
+  }
+
+  /**
+   * Update a category. Moving it, or changing a root's department, carries
+   * its sub-categories and their products along.
+   */
+  async update(
+    categoryId: string,
+    updateDto: UpdateCategoryDto,
+  ): Promise<CategoryDocument> {
+    const category = await this.findById(categoryId);
+    const { parentCategoryId, department, ...fields } = updateDto;
+    const previousPath = this.pathOf(category).join(',');
+    const previousDepartment = category.department;
+
+    if (
+      parentCategoryId !== undefined &&
+      String(parentCategoryId) !== String(category.parentCategoryId)
+    ) {
+      const parent = parentCategoryId
+        ? await this.findParent(parentCategoryId, category._id.toString())
+        : null;
+      category.parentCategoryId = parent
+        ? (parent._id as Types.ObjectId)
+        : null;
+      category.ancestors = parent ? this.pathOf(parent) : [];
+      category.department = parent
+        ? parent.department
+        : department || category.department;
+    } else if (department && !category.parentCategoryId) {
+      category.department = department;
+    }
+
+    Object.assign(category, fields);
+    if (!category.slug) {
+      category.slug = this.toSlug(category.name);
+    }
+
+    try {
+      await category.save();
+    } catch (error) {
+      throw this.toConflict(error);
+    }
+
+    if (
+      this.pathOf(category).join(',') !== previousPath ||
+      category.department !== previousDepartment
+    ) {
+      await this.moveBranch(category);
+    }
+    return category;
+  }
+
+  async remove(categoryId: string): Promise<void> {
+    const category = await this.findById(categoryId);
+
+    if (await this.categoryModel.exists({ parentCategoryId: category._id })) {
+      throw new BadRequestException(CATEGORY_ERROR_MESSAGES.HAS_CHILDREN);
+    }
+    if (await this.productModel.exists({ categoryPath: category._id })) {
+      throw new BadRequestException(CATEGORY_ERROR_MESSAGES.IN_USE);
+    }
+
+    await this.categoryModel.deleteOne({ _id: category._id });
+    this.logger.log(`Deleted category ${category.slug}`);
+  }
+
+  async reorder(reorderDto: ReorderCategoriesDto): Promise<CategoryTreeNode[]> {
+    const ids = reorderDto.positions.map(
+      (position) => new Types.ObjectId(position.categoryId),
+    );
+    const found = await this.categoryModel.countDocuments({
+      _id: { $in: ids },
+    });
+    if (found !== new Set(ids.map(String)).size) {
+      throw new NotFoundException(CATEGORY_ERROR_MESSAGES.CATEGORY_NOT_FOUND);
+    }
+
+    await this.categoryModel.bulkWrite(
+      reorderDto.positions.map((position) => ({
+        updateOne: {
+          filter: { _id: new Types.ObjectId(position.categoryId) },
+          update: { $set: { sortOrder: position.sortOrder } },
+        },
+      })),
+    );
+    return this.getTree(true);
+  }
+
+  /**
+   * Category fields to store on a product placed in the given category
+   */
+  async resolveForProduct(categoryId: string): Promise<ProductCategoryRef> {
+    const category = await this.findById(categoryId);
+    if (!category.isActive) {
+      throw new BadRequestException(CATEGORY_ERROR_MESSAGES.CATEGORY_INACTIVE);
+    }
+    return {
+      categoryId: category._id as Types.ObjectId,
+      categoryPath: this.pathOf(category),
+      category: category.department,
+    };
+  }
+
+  private async buildTree(includeInactive: boolean) {
+    const [categories, counts] = await Promise.all([
+      this.categoryModel
+        .find()
+        .sort({ sortOrder: 1, name: 1 })
+        .lean<CategoryRecord[]>(),
+      this.productModel.aggregate<{ _id: Types.ObjectId; count: number }>([
+        { $match: { isActive: true } },
+        { $unwind: '$categoryPath' },
+        { $group: { _id: '$categoryPath', count: { $sum: 1 } } },
+      ]),
+    ]);
+    const countById = new Map(
+      counts.map((count) => [count._id.toString(), count.count]),
+    );
+
+    const nodes = new Map<string, CategoryTreeNode>();
+    for (const category of categories) {
+      nodes.set(category._id.toString(), {
+        _id: category._id.toString(),
+        name: category.name,
+        slug: category.slug,
+        description: category.description,
+        department: category.department,
+        iconUrl: category.iconUrl,
+        imageUrl: category.imageUrl,
+        sortOrder: category.sortOrder,
+        isActive: category.isActive,
+        productCount: countById.get(category._id.toString()) ?? 0,
+        children: [],
+      });
+    }
+
+    // Categories come sorted, so children are added in order
+    const roots: CategoryTreeNode[] = [];
+    for (const category of categories) {
+      const hidden =
+        !includeInactive &&
+        [...category.ancestors, category._id].some(
+          (id) => !nodes.get(id.toString())?.isActive,
+        );
+      if (hidden) {
+        nodes.delete(category._id.toString());
+        continue;
+      }
+      const node = nodes.get(category._id.toString());
+      const parent =
+        category.parentCategoryId &&
+        nodes.get(category.parentCategoryId.toString());
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+    return { roots, nodes };
+  }
+
+  // Rewrite the path and department of everything below a moved category,
+  // and of the products filed under any of them
+  private async moveBranch(category: CategoryDocument): Promise<void> {
+    const categoryId = category._id as Types.ObjectId;
+    const descendants = await this.categoryModel
+      .find({ ancestors: categoryId })
+      .lean<CategoryRecord[]>();
+
+    const branch = [
+      {
+        _id: categoryId,
+        ancestors: category.ancestors,
+        department: category.department,
+      },
+    ];
+    for (const descendant of descendants) {
+      const below = descendant.ancestors.slice(
+        descendant.ancestors.findIndex((id) => id.equals(categoryId)) + 1,
+      );
+      branch.push({
+        _id: descendant._id,
+        ancestors: [...this.pathOf(category), ...below],
+        department: category.department,
+      });
+    }
+
+    if (descendants.length) {
+      await this.categoryModel.bulkWrite(
+        branch.slice(1).map((node) => ({
+          updateOne: {
+            filter: { _id: node._id },
+            update: {
+              $set: { ancestors: node.ancestors, department: node.department },
+            },
+          },
+        })),
+      );
+    }
+
+    const productUpdates: AnyBulkWriteOperation<ProductDocument>[] = branch.map(
+      (node) => ({
+        updateMany: {
+          filter: { categoryId: node._id },
+          update: {
+            $set: {
+              categoryPath: [...node.ancestors, node._id],
+              category: node.department,
+            },
+          },
+        },
+      }),
+    );
+    await this.productModel.bulkWrite(productUpdates);
+
+    this.logger.log(
+      `Moved category ${category.slug} with ${descendants.length} sub-categories`,
+    );
+  }
+
+  private async findParent(
+    parentCategoryId: string,
+    movingCategoryId?: string,
+  ): Promise<CategoryDocument> {
+    if (parentCategoryId === movingCategoryId) {
+      throw new BadRequestException(CATEGORY_ERROR_MESSAGES.OWN_PARENT);
+    }
+    const parent = Types.ObjectId.isValid(parentCategoryId)
+      ? await this.categoryModel.findById(parentCategoryId)
+      : null;
+    if (!parent) {
+      throw new NotFoundException(CATEGORY_ERROR_MESSAGES.PARENT_NOT_FOUND);
+    }
+    if (
+      movingCategoryId &&
+      parent.ancestors.some((id) => id.toString() === movingCategoryId)
+    ) {
+      throw new BadRequestException(
+        CATEGORY_ERROR_MESSAGES.PARENT_IS_DESCENDANT,
+      );
+    }
+    return parent;
+  }
+
+  private pathOf(category: { _id: unknown; ancestors: Types.ObjectId[] }) {
+    return [...category.ancestors, category._id as Types.ObjectId];
+  }
+
+  private toSlug(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
+  private toConflict(error: any) {
+    if (error.code === 11000) {
+      return new ConflictException(CATEGORY_ERROR_MESSAGES.SLUG_TAKEN);
+    }
+    return error;
+  }
+}
@@ -0,0 +1,444 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  InventoryMovement,
+  InventoryMovementDocument,
+  InventoryMovementType,
+} from '../entities/inventory-movement.entity';
+import { Product, ProductDocument } from '../entities/product.entity';
+import {
+  User,
+  UserDocument,
+  UserRole,
+  AccountStatus,
+} from '../../users/entities/user.entity';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { NotificationType } from '../../notifications/entities/notification.entity';
+import {
+  InventoryMovementFilterDto,
+  InventoryValuationQueryDto,
+  StockCountDto,
+  StockTakeDto,
+} from '../dto';
+import {
+  InventoryMovementInput,
+  InventoryMovementPage,
+  InventoryValuation,
+  StockTakeLine,
+  StockTakeResult,
+} from '../interfaces';
+import { PRODUCT_ERROR_MESSAGES, INVENTORY_ERROR_MESSAGES } from '../constants';
+import { ProductVariants } from '../helpers';
+
+/**
+ * Journal of every change to product stock, with reorder-point alerts, a
+ * valuation of stock on hand and stock-take reconciliation. Callers change
+ * the stock first and record the movement after; recording never undoes or
+ * blocks a stock change that has already happened.
+ */
+@Injectable()
+export class InventoryService {
+  private readonly logger = new Logger(InventoryService.name);
+
+  constructor(
+    @InjectModel(InventoryMovement.name)
+    private movementModel: Model<InventoryMovementDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Record a stock change that has been made, and warn the seller when it
+   * takes the product to its reorder point
+   */
+  async record(
+    input: InventoryMovementInput,
+  ): Promise<InventoryMovementDocument | null> {
+    if (!input.quantity) {
+      return null;
+    }
+
+    try {
+      const product = await this.productModel
+        .findById(input.productId)
+        .select('name stock variants reorderPoint sellerId');
+      if (!product) {
+        this.logger.warn(
+          `Stock of missing product ${input.productId} moved by ${input.quantity}`,
+        );
+        return null;
+      }
+
+      const unit = input.variantId
+        ? ProductVariants.find(product, input.variantId)
+        : product;
+      const movement = await this.movementModel.create({
+        productId: product._id,
+        variantId: input.variantId
+          ? new Types.ObjectId(input.variantId.toString())
+          : undefined,
+        sellerId: product.sellerId,
+        type: input.type,
+        quantity: input.quantity,
+        stockAfter: unit?.stock ?? product.stock,
+        actorId: input.actorId
+          ? new Types.ObjectId(input.actorId.toString())
+          : undefined,
+        reference: input.reference,
+        note: input.note,
+      });
+
+      await this.checkReorderPoint(product, input.quantity);
+      return movement;
+    } catch (error) {
+      this.logger.error(
+        `Failed to record ${input.type} of ${input.quantity} for product ${input.productId}:`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Movements, newest first. Sellers only see movements of their own products
+   */
+  async findMovements(
+    filterDto: InventoryMovementFilterDto,
+    userId: string,
+    userRole: string,
+  ): Promise<InventoryMovementPage> {
+    const {
+      productId,
+      sellerId,
+      type,
+      reference,
+      from,
+      to,
+      page = 1,
+      limit = 20,
+    } = filterDto;
+
+    const query: FilterQuery<InventoryMovementDocument> = {};
+    if (productId) {
+      query.productId = new Types.ObjectId(productId);
+    }
+    const scopedSellerId = userRole === 'admin' ? sellerId : userId;
+    if (scopedSellerId) {
+      query.sellerId = new Types.ObjectId(scopedSellerId);
+    }
+    if (type) {
+      query.type = type;
+    }
+    if (reference) {
+      query.reference = reference;
+    }
+    if (from || to) {
+      query.createdAt = {};
+      if (from) {
+        query.createdAt.$gte = new Date(from);
+      }
+      if (to) {
+        query.createdAt.$lt = new Date(to);
+      }
+    }
+
+    const [movements, total] = await Promise.all([
+      this.movementModel
+        .find(query)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('productId', 'name sku')
+        .populate('actorId', 'name')
+        .exec(),
+      this.movementModel.countDocuments(query).exec(),
+    ]);
+
+    return {
+      movements,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Stock on hand at current selling prices, by category. Products sold in
+   * packs are valued pack by pack
+   */
+  async getValuation(
+    query: InventoryValuationQueryDto,
+    userId: string,
+    userRole: string,
+  ): Promise<InventoryValuation> {
+    const match: FilterQuery<ProductDocument> = { stock: { $gt: 0 } };
+    const sellerId = userRole === 'admin' ? query.sellerId : userId;
+    if (sellerId) {
+      match.sellerId = new Types.ObjectId(sellerId);
+    }
+    if (query.categoryId) {
+      match.categoryPath = new Types.ObjectId(query.categoryId);
+    }
+
+    const groups = await this.productModel.aggregate<{
+      _id: string;
+      products: number;
+      units: number;
+      value: number;
+    }>([
+      { $match: match },
+      {
+        $project: {
+          category: 1,
+          stock: 1,
+          value: {
+            $cond: [
+              { $gt: [{ $size: { $ifNull: ['$variants', []] } }, 0] },
+              {
+                $sum: {
+                  $map: {
+                    input: '$variants',
+                    as: 'variant',
+                    in: { $multiply: ['$$variant.stock', '$$variant.price'] },
+                  },
+                },
+              },
+              { $multiply: ['$stock', '$price'] },
+            ],
+          },
+        },
+      },
+      {
+        $group: {
+          _id: '$category',
+          products: { $sum: 1 },
+          units: { $sum: '$stock' },
+          value: { $sum: '$value' },
+        },
+      },
+      { $sort: { value: -1 } },
+    ]);
+
+    const byCategory = groups.map((group) => ({
+      category: group._id,
+      products: group.products,
+      units: group.units,
+      value: this.toAmount(group.value),
+    }));
+
+    return {
+      generatedAt: new Date(),
+      products: byCategory.reduce((total, group) => total + group.products, 0),
+      units: byCategory.reduce((total, group) => total + group.units, 0),
+      value: this.toAmount(
+        byCategory.reduce((total, group) => total + group.value, 0),
+      ),
+      byCategory,
+    };
+  }
+
+  /**
+   * Bring stock in line with a physical count. Each line is adjusted on its
+   * own; a line fails, rather than the whole count, when it can't be applied
+   */
+  async reconcile(
+    stockTakeDto: StockTakeDto,
+    userId: string,
+    userRole: string,
+  ): Promise<StockTakeResult> {
+    const keys = stockTakeDto.counts.map((count) =>
+      ProductVariants.key(count.productId, count.variantId),
+    );
+    if (new Set(keys).size !== keys.length) {
+      throw new BadRequestException(INVENTORY_ERROR_MESSAGES.DUPLICATE_COUNT);
+    }
+
+    const reference = `STK-${Date.now()}-${Math.random()
+      .toString(16)
+      .slice(2, 8)
+      .toUpperCase()}`;
+    const lines: StockTakeLine[] = [];
+    for (const count of stockTakeDto.counts) {
+      lines.push(
+        await this.reconcileLine(
+          count,
+          reference,
+          stockTakeDto.note,
+          userId,
+          userRole,
+        ),
+      );
+    }
+
+    this.logger.log(
+      `Stock take ${reference} by ${userId}: ${lines.length} lines counted`,
+    );
+    return {
+      reference,
+      adjusted: lines.filter((line) => line.status === 'adjusted').length,
+      unchanged: lines.filter((line) => line.status === 'unchanged').length,
+      failed: lines.filter((line) => line.status === 'failed').length,
+      lines,
+    };
+  }
+
+  private async reconcileLine(
+    count: StockCountDto,
+    reference: string,
+    note: string | undefined,
+    userId: string,
+    userRole: string,
+  ): Promise<StockTakeLine> {
+    const line: StockTakeLine = {
+      productId: count.productId,
+      variantId: count.variantId,
+      status: 'failed',
+      counted: count.counted,
+    };
+
+    try {
+      const product = await this.productModel
+        .findById(count.productId)
+        .select('sellerId stock variants');
+      if (!product) {
+        throw new NotFoundException(PRODUCT_ERROR_MESSAGES.PRODUCT_NOT_FOUND);
+      }
+      if (userRole !== 'admin' && product.sellerId?.toString() !== userId) {
+        throw new ForbiddenException(
+          PRODUCT_ERROR_MESSAGES.UNAUTHORIZED_SELLER,
+        );
+      }
+      if (product.variants?.length && !count.variantId) {
+        throw new BadRequestException(PRODUCT_ERROR_MESSAGES.VARIANT_REQUIRED);
+      }
+
+      const variant = count.variantId
+        ? ProductVariants.find(product, count.variantId)
+        : undefined;
+      if (count.variantId && !variant) {
+        throw new NotFoundException(PRODUCT_ERROR_MESSAGES.VARIANT_NOT_FOUND);
+      }
+
+      line.expected = variant ? variant.stock : product.stock;
+      line.difference = count.counted - line.expected;
+      if (!line.difference) {
+        line.status = 'unchanged';
+        return line;
+      }
+
+      // Only apply the difference to the stock that was counted against
+      const { modifiedCount } = await this.productModel.updateOne(
+        variant
+          ? {
+              _id: product._id,
+              variants: {
+                $elemMatch: { _id: variant._id, stock: line.expected },
+              },
+            }
+          : { _id: product._id, stock: line.expected },
+        {
+          $inc: variant
+            ? { 'variants.$.stock': line.difference, stock: line.difference }
+            : { stock: line.difference },
+        },
+      );
+      if (!modifiedCount) {
+        throw new ConflictException(INVENTORY_ERROR_MESSAGES.COUNT_CHANGED);
+      }
+
+      await this.record({
+        productId: count.productId,
+        variantId: count.variantId,
+        type: InventoryMovementType.ADJUSTMENT,
+        quantity: line.difference,
+        actorId: userId,
+        reference,
+        note: note ?? 'Stock take',
+      });
+      line.status = 'adjusted';
+      return line;
+    } catch (error) {
+      if (!(error instanceof HttpException)) {
+        throw error;
+      }
+      line.error = error.message;
+      return line;
+    }
+  }
+
+  /**
+   * Warn the seller, or the admins for products without one, when stock
+   * falls to or below the product's reorder point
+   */
+  private async checkReorderPoint(
+    product: ProductDocument,
+    quantity: number,
+  ): Promise<void> {
+    const { reorderPoint } = product;
+    if (reorderPoint === undefined || reorderPoint === null || quantity >= 0) {
+      return;
+    }
+
+    const stockBefore = product.stock - quantity;
+    if (stockBefore <= reorderPoint || product.stock > reorderPoint) {
+      return;
+    }
+
+    const recipients = product.sellerId
+      ? await this.userModel.find({ _id: product.sellerId }).select('email')
+      : await this.userModel
+          .find({ role: UserRole.ADMIN, accountStatus: AccountStatus.ACTIVE })
+          .select('email');
+
+    for (const recipient of recipients) {
+      if (!recipient.email) {
+        continue;
+      }
+
+      try {
+        await this.notificationsService.sendEmail({
+          recipientEmail: recipient.email,
+          type: NotificationType.LOW_STOCK,
+          title: `Low stock: ${product.name}`,
+          message: `
+            Hello,
+
+            ${product.name} is down to ${product.stock} in stock, at or below its reorder point of ${reorderPoint}.
+
+            Restock it soon to keep it available to customers.
+
+            Thank you,
+            Forage Stores Team
+          `,
+          recipientId: recipient._id.toString(),
+          metadata: {
+            productId: product._id.toString(),
+            productName: product.name,
+            stock: product.stock,
+            reorderPoint,
+          },
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to send low stock alert for product ${product._id}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  private toAmount(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,675 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  PriceChangeStatus,
+  PriceChangeType,
+  PriceHistory,
+  PriceHistoryDocument,
+} from '../entities/price-history.entity';
+import { Product, ProductDocument } from '../entities/product.entity';
+import {
+  PriceLock,
+  PriceLockDocument,
+  PriceLockStatus,
+} from '../entities/price-lock.entity';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { NotificationType } from '../../notifications/entities/notification.entity';
+import {
+  SchedulePriceChangeDto,
+  ScheduleSaleDto,
+  BulkPriceUpdateDto,
+  ScheduledPriceChangesQueryDto,
+} from '../dto';
+import { BulkPriceRowResult, BulkPriceUpdateResult } from '../interfaces';
+import {
+  PRODUCT_CONSTANTS,
+  PRODUCT_CSV,
+  PRODUCT_ERROR_MESSAGES,
+  PRICE_ERROR_MESSAGES,
+} from '../constants';
+import { ProductVariants } from '../helpers';
+
+type NewPriceChange = {
+  variantId?: string;
+  type: PriceChangeType;
+  newPrice: number;
+  newPriceInNibia?: number;
+  effectiveDate: Date;
+  saleEndsAt?: Date;
+  batchId?: string;
+  reason: string;
+  adminId: string;
+};
+
+/**
+ * Price changes made ahead of time. Each change is written to price
+ * history when it is made and applied by the scheduler at its effective
+ * date, or straight away when that date has passed. Customers holding a
+ * price lock on the product are told when its price moves.
+ */
+@Injectable()
+export class PriceScheduleService {
+  private readonly logger = new Logger(PriceScheduleService.name);
+
+  constructor(
+    @InjectModel(PriceHistory.name)
+    private priceHistoryModel: Model<PriceHistoryDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(PriceLock.name)
+    private priceLockModel: Model<PriceLockDocument>,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  async getHistory(productId: string): Promise<PriceHistoryDocument[]> {
+    const product = await this.findProduct(productId);
+    return this.priceHistoryModel
+      .find({ productId: product._id })
+      .sort({ effectiveDate: -1, createdAt: -1 })
+      .exec();
+  }
+
+  async findScheduled(
+    query: ScheduledPriceChangesQueryDto,
+  ): Promise<PriceHistoryDocument[]> {
+    const filter: FilterQuery<PriceHistoryDocument> = {
+      status: PriceChangeStatus.SCHEDULED,
+    };
+    if (query.productId) {
+      filter.productId = new Types.ObjectId(query.productId);
+    }
+    if (query.batchId) {
+      filter.batchId = query.batchId;
+    }
+    return this.priceHistoryModel
+      .find(filter)
+      .sort({ effectiveDate: 1 })
+      .exec();
+  }
+
+  async schedulePriceChange(
+    scheduleDto: SchedulePriceChangeDto,
+    adminId: string,
+  ): Promise<PriceHistoryDocument> {
+    const product = await this.findProduct(scheduleDto.productId);
+    const effectiveDate = scheduleDto.effectiveDate ?? new Date();
+    this.unitFor(product, scheduleDto.variantId);
+    await this.assertNoSale(product, scheduleDto.variantId, {
+      effectiveDate: { $lte: effectiveDate },
+      saleEndsAt: { $gt: effectiveDate },
+    });
+
+    return this.createChange(product, {
+      variantId: scheduleDto.variantId,
+      type: PriceChangeType.REGULAR,
+      newPrice: scheduleDto.price,
+      newPriceInNibia: scheduleDto.priceInNibia,
+      effectiveDate,
+      reason: scheduleDto.reason,
+      adminId,
+    });
+  }
+
+  /**
+   * Put a product on sale for a while. When the sale ends the price it
+   * replaced comes back.
+   */
+  async scheduleSale(
+    saleDto: ScheduleSaleDto,
+    adminId: string,
+  ): Promise<PriceHistoryDocument> {
+    const now = new Date();
+    const startsAt = saleDto.startsAt ?? now;
+    if (saleDto.endsAt <= startsAt || saleDto.endsAt <= now) {
+      throw new BadRequestException(
+        PRICE_ERROR_MESSAGES.SALE_ENDS_BEFORE_START,
+      );
+    }
+
+    const product = await this.findProduct(saleDto.productId);
+    const unit = this.unitFor(product, saleDto.variantId);
+    if (saleDto.salePrice >= unit.price) {
+      throw new BadRequestException(PRICE_ERROR_MESSAGES.SALE_NOT_LOWER);
+    }
+    await this.assertNoSale(product, saleDto.variantId, {
+      effectiveDate: { $lt: saleDto.endsAt },
+      saleEndsAt: { $gt: startsAt },
+    });
+    const changesDuringSale = await this.priceHistoryModel.exists({
+      ...this.unitFilter(product, saleDto.variantId),
+      type: PriceChangeType.REGULAR,
+      status: PriceChangeStatus.SCHEDULED,
+      effectiveDate: { $gte: startsAt, $lt: saleDto.endsAt },
+    });
+    if (changesDuringSale) {
+      throw new ConflictException(PRICE_ERROR_MESSAGES.SALE_OVERLAP);
+    }
+
+    return this.createChange(product, {
+      variantId: saleDto.variantId,
+      type: PriceChangeType.SALE,
+      newPrice: saleDto.salePrice,
+      newPriceInNibia: saleDto.salePriceInNibia,
+      effectiveDate: startsAt,
+      saleEndsAt: saleDto.endsAt,
+      reason: saleDto.reason,
+      adminId,
+    });
+  }
+
+  /**
+   * Cancel a change that has not happened yet. Cancelling a running sale
+   * ends it now.
+   */
+  async cancel(changeId: string): Promise<PriceHistoryDocument> {
+    const change = Types.ObjectId.isValid(changeId)
+      ? await this.priceHistoryModel.findById(changeId)
+      : null;
+    if (!change) {
+      throw new NotFoundException(PRICE_ERROR_MESSAGES.CHANGE_NOT_FOUND);
+    }
+    if (change.type === PriceChangeType.SALE_END) {
+      throw new BadRequestException(
+        PRICE_ERROR_MESSAGES.SALE_END_NOT_CANCELLABLE,
+      );
+    }
+
+    if (change.status === PriceChangeStatus.SCHEDULED) {
+      change.status = PriceChangeStatus.CANCELLED;
+      await change.save();
+      return change;
+    }
+
+    const saleEnd =
+      change.type === PriceChangeType.SALE &&
+      change.status === PriceChangeStatus.APPLIED &&
+      (await this.priceHistoryModel.findOne({
+        saleId: change._id,
+        status: PriceChangeStatus.SCHEDULED,
+      }));
+    if (!saleEnd) {
+      throw new BadRequestException(PRICE_ERROR_MESSAGES.NOT_CANCELLABLE);
+    }
+
+    const now = new Date();
+    change.saleEndsAt = now;
+    saleEnd.effectiveDate = now;
+    await Promise.all([change.save(), saleEnd.save()]);
+    await this.applyChange(saleEnd);
+    this.logger.log(`Ended sale ${change._id} early`);
+    return change;
+  }
+
+  /**
+   * Apply the changes whose time has come, oldest first. Called by the
+   * scheduler; returns how many were applied.
+   */
+  async applyDueChanges(): Promise<number> {
+    const due = await this.priceHistoryModel
+      .find({
+        status: PriceChangeStatus.SCHEDULED,
+        effectiveDate: { $lte: new Date() },
+      })
+      .sort({ effectiveDate: 1, createdAt: 1 })
+      .limit(PRODUCT_CONSTANTS.PRICE_CHANGES_PER_RUN);
+
+    let appliedCount = 0;
+    for (const change of due) {
+      try {
+        const result = await this.applyChange(change);
+        if (result.status === PriceChangeStatus.APPLIED) {
+          appliedCount++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to apply price change ${change._id}:`, error);
+      }
+    }
+    return appliedCount;
+  }
+
+  /**
+   * Change the prices listed in a CSV file with a price column and a
+   * productId or sku column, and optionally priceInNibia and variantId.
+   * Only products in the chosen category or of the chosen seller are
+   * changed; other rows are reported back as rejected.
+   */
+  async bulkUpdate(
+    file: Express.Multer.File,
+    bulkDto: BulkPriceUpdateDto,
+    adminId: string,
+  ): Promise<BulkPriceUpdateResult> {
+    if (!bulkDto.categoryId === !bulkDto.sellerId) {
+      throw new BadRequestException(PRICE_ERROR_MESSAGES.SCOPE_REQUIRED);
+    }
+    if (!file?.buffer?.length) {
+      throw new BadRequestException(PRICE_ERROR_MESSAGES.CSV_REQUIRED);
+    }
+
+    const rows = PRODUCT_CSV.parse(file.buffer.toString('utf8'));
+    if (!rows.length) {
+      throw new BadRequestException(PRICE_ERROR_MESSAGES.CSV_EMPTY);
+    }
+    if (rows.length > PRODUCT_CONSTANTS.MAX_BULK_PRICE_ROWS) {
+      throw new BadRequestException(PRICE_ERROR_MESSAGES.CSV_TOO_MANY_ROWS);
+    }
+    const columns = Object.keys(rows[0]);
+    if (
+      !columns.includes('price') ||
+      !(columns.includes('productId') || columns.includes('sku'))
+    ) {
+      throw new BadRequestException(PRICE_ERROR_MESSAGES.CSV_MISSING_COLUMNS);
+    }
+
+    const productIds = rows
+      .map((row) => row.productId)
+      .filter((id) => id && Types.ObjectId.isValid(id))
+      .map((id) => new Types.ObjectId(id));
+    const skus = rows.map((row) => row.sku?.toUpperCase()).filter(Boolean);
+    const products = await this.productModel.find({
+      $or: [{ _id: { $in: productIds } }, { 'variants.sku': { $in: skus } }],
+    });
+    const byId = new Map(
+      products.map((product) => [product._id.toString(), product]),
+    );
+    const bySku = new Map<
+      string,
+      { product: ProductDocument; variantId: string }
+    >();
+    for (const product of products) {
+      for (const variant of product.variants ?? []) {
+        bySku.set(variant.sku, { product, variantId: variant._id.toString() });
+      }
+    }
+
+    const inScope = (product: ProductDocument) =>
+      bulkDto.categoryId
+        ? product.categoryPath?.some(
+            (id) => id.toString() === bulkDto.categoryId,
+          )
+        : product.sellerId?.toString() === bulkDto.sellerId;
+
+    const batchId = `PRC-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
+    const effectiveDate = bulkDto.effectiveDate ?? new Date();
+    const results: BulkPriceRowResult[] = [];
+
+    for (const [index, row] of rows.entries()) {
+      const result: BulkPriceRowResult = {
+        row: index + 2,
+        productId: row.productId || undefined,
+        sku: row.sku || undefined,
+        status: 'rejected',
+      };
+      results.push(result);
+
+      try {
+        const match = row.sku
+          ? bySku.get(row.sku.toUpperCase())
+          : byId.get(row.productId) && {
+              product: byId.get(row.productId),
+              variantId: row.variantId || undefined,
+            };
+        if (!match) {
+          throw new NotFoundException(PRODUCT_ERROR_MESSAGES.PRODUCT_NOT_FOUND);
+        }
+        if (!inScope(match.product)) {
+          throw new BadRequestException(PRICE_ERROR_MESSAGES.OUT_OF_SCOPE);
+        }
+
+        const price = PRODUCT_CSV.toAmount(row.price);
+        if (
+          !(price >= PRODUCT_CONSTANTS.MIN_PRICE) ||
+          price > PRODUCT_CONSTANTS.MAX_PRICE
+        ) {
+          throw new BadRequestException(
+            PRODUCT_ERROR_MESSAGES.PRICE_OUT_OF_RANGE,
+          );
+        }
+        const priceInNibia = row.priceInNibia
+          ? PRODUCT_CSV.toAmount(row.priceInNibia)
+          : undefined;
+        if (priceInNibia !== undefined && !(priceInNibia >= 0)) {
+          throw new BadRequestException(PRODUCT_ERROR_MESSAGES.INVALID_PRICE);
+        }
+
+        this.unitFor(match.product, match.variantId);
+        await this.assertNoSale(match.product, match.variantId, {
+          effectiveDate: { $lte: effectiveDate },
+          saleEndsAt: { $gt: effectiveDate },
+        });
+
+        const change = await this.createChange(match.product, {
+          variantId: match.variantId,
+          type: PriceChangeType.REGULAR,
+          newPrice: price,
+          newPriceInNibia: priceInNibia,
+          effectiveDate,
+          batchId,
+          reason: bulkDto.reason,
+          adminId,
+        });
+        Object.assign(result, {
+          productId: match.product._id.toString(),
+          price,
+          status: change.status,
+          changeId: change._id.toString(),
+        });
+      } catch (error) {
+        result.error = error.message;
+      }
+    }
+
+    const count = (status: BulkPriceRowResult['status']) =>
+      results.filter((result) => result.status === status).length;
+    this.logger.log(
+      `Bulk price update ${batchId}: ${count('rejected')} of ${rows.length} rows rejected`,
+    );
+    return {
+      batchId,
+      total: rows.length,
+      scheduled: count(PriceChangeStatus.SCHEDULED),
+      applied: count(PriceChangeStatus.APPLIED),
+      rejected: count('rejected'),
+      results,
+    };
+  }
+
+  /**
+   * Record a price edited on the product itself, which takes effect at once
+   */
+  async recordEdit(
+    product: ProductDocument,
+    variantId: string | undefined,
+    before: { price: number; priceInNibia: number },
+    userId: string,
+  ): Promise<void> {
+    const after = this.findUnit(product, variantId);
+    if (
+      !after ||
+      (after.price === before.price &&
+        after.priceInNibia === before.priceInNibia)
+    ) {
+      return;
+    }
+
+    const now = new Date();
+    const change = await this.priceHistoryModel.create({
+      productId: product._id,
+      variantId: variantId ? new Types.ObjectId(variantId) : undefined,
+      type: PriceChangeType.REGULAR,
+      status: PriceChangeStatus.APPLIED,
+      oldPrice: before.price,
+      newPrice: after.price,
+      oldPriceInNibia: before.priceInNibia,
+      newPriceInNibia: after.priceInNibia,
+      effectiveDate: now,
+      appliedAt: now,
+      reason: 'Edited on the product',
+      adminId: new Types.ObjectId(userId),
+    });
+    await this.notifyPriceLockHolders(product, change);
+  }
+
+  private async createChange(
+    product: ProductDocument,
+    change: NewPriceChange,
+  ): Promise<PriceHistoryDocument> {
+    const unit = this.unitFor(product, change.variantId);
+    const entry = await this.priceHistoryModel.create({
+      ...change,
+      productId: product._id,
+      variantId: change.variantId
+        ? new Types.ObjectId(change.variantId)
+        : undefined,
+      adminId: new Types.ObjectId(change.adminId),
+      status: PriceChangeStatus.SCHEDULED,
+      oldPrice: unit.price,
+      oldPriceInNibia: unit.priceInNibia,
+    });
+
+    if (entry.effectiveDate <= new Date()) {
+      return this.applyChange(entry);
+    }
+    this.logger.log(
+      `Scheduled ${entry.type} price change for product ${product._id} at ${entry.effectiveDate.toISOString()}`,
+    );
+    return entry;
+  }
+
+  private async applyChange(
+    change: PriceHistoryDocument,
+  ): Promise<PriceHistoryDocument> {
+    const product = await this.productModel.findById(change.productId);
+    const unit = product && this.findUnit(product, change.variantId);
+    if (!unit) {
+      return this.priceHistoryModel.findOneAndUpdate(
+        { _id: change._id, status: PriceChangeStatus.SCHEDULED },
+        {
+          $set: {
+            status: PriceChangeStatus.SKIPPED,
+            skipReason: product
+              ? PRODUCT_ERROR_MESSAGES.VARIANT_NOT_FOUND
+              : PRODUCT_ERROR_MESSAGES.PRODUCT_NOT_FOUND,
+          },
+        },
+        { new: true },
+      );
+    }
+
+    // Claim the change first so it is applied once however many
+    // scheduler runs pick it up
+    const newPriceInNibia =
+      change.newPriceInNibia ?? this.scaleNibia(unit, change.newPrice);
+    const applied = await this.priceHistoryModel.findOneAndUpdate(
+      { _id: change._id, status: PriceChangeStatus.SCHEDULED },
+      {
+        $set: {
+          status: PriceChangeStatus.APPLIED,
+          appliedAt: new Date(),
+          oldPrice: unit.price,
+          oldPriceInNibia: unit.priceInNibia,
+          newPriceInNibia,
+        },
+      },
+      { new: true },
+    );
+    if (!applied) {
+      return change;
+    }
+
+    await this.setPrice(
+      product,
+      change.variantId,
+      change.newPrice,
+      newPriceInNibia,
+    );
+
+    if (applied.type === PriceChangeType.SALE) {
+      await this.priceHistoryModel.create({
+        productId: applied.productId,
+        variantId: applied.variantId,
+        type: PriceChangeType.SALE_END,
+        status: PriceChangeStatus.SCHEDULED,
+        oldPrice: applied.newPrice,
+        newPrice: applied.oldPrice,
+        oldPriceInNibia: applied.newPriceInNibia,
+        newPriceInNibia: applied.oldPriceInNibia,
+        effectiveDate: applied.saleEndsAt,
+        saleId: applied._id,
+        reason: `End of sale: ${applied.reason}`,
+        adminId: applied.adminId,
+      });
+    }
+
+    this.logger.log(
+      `Applied ${applied.type} price change for product ${product._id}: ${applied.oldPrice} -> ${applied.newPrice}`,
+    );
+    await this.notifyPriceLockHolders(product, applied);
+    return applied;
+  }
+
+  private async setPrice(
+    product: ProductDocument,
+    variantId: Types.ObjectId | undefined,
+    price: number,
+    priceInNibia: number,
+  ): Promise<void> {
+    if (!variantId) {
+      await this.productModel.updateOne(
+        { _id: product._id },
+        { $set: { price, priceInNibia } },
+      );
+      return;
+    }
+
+    // The product shows its cheapest pack, which may now be another one
+    const variant = ProductVariants.find(product, variantId);
+    variant.price = price;
+    variant.priceInNibia = priceInNibia;
+    const summary = ProductVariants.summarize(product.variants);
+    await this.productModel.updateOne(
+      { _id: product._id, 'variants._id': variantId },
+      {
+        $set: {
+          'variants.$.price': price,
+          'variants.$.priceInNibia': priceInNibia,
+          price: summary.price,
+          priceInNibia: summary.priceInNibia,
+          weight: summary.weight,
+        },
+      },
+    );
+  }
+
+  private async notifyPriceLockHolders(
+    product: ProductDocument,
+    change: PriceHistoryDocument,
+  ): Promise<void> {
+    if (change.oldPrice === change.newPrice) {
+      return;
+    }
+
+    const filter: FilterQuery<PriceLockDocument> = {
+      productId: product._id,
+      status: PriceLockStatus.ACTIVE,
+      expiryDate: { $gt: new Date() },
+    };
+    if (change.variantId) {
+      filter.variantId = change.variantId;
+    }
+    const priceLocks = await this.priceLockModel
+      .find(filter)
+      .populate('userId', 'email');
+
+    for (const priceLock of priceLocks) {
+      const user = priceLock.userId as any;
+      if (!user?.email) {
+        continue;
+      }
+
+      try {
+        await this.notificationsService.sendEmail({
+          recipientEmail: user.email,
+          type: NotificationType.PRICE_CHANGE,
+          title: `Price Update for ${product.name}`,
+          message: `
+            Hello,
+
+            The price of ${product.name} has changed from ₦${change.oldPrice.toFixed(2)} to ₦${change.newPrice.toFixed(2)}.
+
+            Your locked price of ₦${priceLock.price.toFixed(2)} still applies until ${priceLock.expiryDate.toDateString()}.
+
+            Thank you,
+            Forage Stores Team
+          `,
+          recipientId: user._id.toString(),
+          metadata: {
+            priceLockId: priceLock._id.toString(),
+            priceChangeId: change._id.toString(),
+            productName: product.name,
+            lockedPrice: priceLock.price,
+            oldPrice: change.oldPrice,
+            newPrice: change.newPrice,
+            changeType: change.type,
+          },
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to notify price lock ${priceLock._id} of a price change:`,
+          error,
+        );
+      }
+    }
+  }
+
+  private async assertNoSale(
+    product: ProductDocument,
+    variantId: string | undefined,
+    window: FilterQuery<PriceHistoryDocument>,
+  ): Promise<void> {
+    const sale = await this.priceHistoryModel.exists({
+      ...this.unitFilter(product, variantId),
+      ...window,
+      type: PriceChangeType.SALE,
+      status: { $in: [PriceChangeStatus.SCHEDULED, PriceChangeStatus.APPLIED] },
+    });
+    if (sale) {
+      throw new ConflictException(PRICE_ERROR_MESSAGES.SALE_OVERLAP);
+    }
+  }
+
+  private unitFilter(product: ProductDocument, variantId?: string) {
+    return {
+      productId: product._id,
+      variantId: variantId ? new Types.ObjectId(variantId) : { $exists: false },
+    };
+  }
+
+  // The product, or its pack, whose price is changing
+  private unitFor(product: ProductDocument, variantId?: string) {
+    if (!variantId && product.variants?.length) {
+      throw new BadRequestException(PRODUCT_ERROR_MESSAGES.VARIANT_REQUIRED);
+    }
+    const unit = this.findUnit(product, variantId);
+    if (!unit) {
+      throw new NotFoundException(PRODUCT_ERROR_MESSAGES.VARIANT_NOT_FOUND);
+    }
+    return unit;
+  }
+
+  private findUnit(
+    product: ProductDocument,
+    variantId?: { toString(): string },
+  ): { price: number; priceInNibia: number } | null {
+    if (!variantId) {
+      return product.variants?.length ? null : product;
+    }
+    return ProductVariants.find(product, variantId) ?? null;
+  }
+
+  private scaleNibia(
+    unit: { price: number; priceInNibia: number },
+    price: number,
+  ): number {
+    const nibia =
+      unit.price > 0
+        ? (unit.priceInNibia * price) / unit.price
+        : price * PRODUCT_CONSTANTS.NIBIA_CONVERSION_RATE;
+    return Math.round(nibia * 100) / 100;
+  }
+
+  private async findProduct(productId: string): Promise<ProductDocument> {
+    const product = Types.ObjectId.isValid(productId)
+      ? await this.productModel.findById(productId)
+      : null;
+    if (!product) {
+      throw new NotFoundException(PRODUCT_ERROR_MESSAGES.PRODUCT_NOT_FOUND);
+    }
+    return product;
+  }
+}
@@ -0,0 +1,294 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  ProductReview,
+  ProductReviewDocument,
+  ReviewStatus,
+} from '../entities/product-review.entity';
+import { Product, ProductDocument } from '../entities/product.entity';
+import {
+  Order,
+  OrderDocument,
+  OrderStatus,
+} from '../../orders/entities/order.entity';
+import {
+  CreateReviewDto,
+  ModerateReviewDto,
+  RespondToReviewDto,
+  ReviewFilterDto,
+  ReviewModerationFilterDto,
+} from '../dto';
+import { ProductReviewPage, RatingSummary, ReviewPage } from '../interfaces';
+import { PRODUCT_ERROR_MESSAGES, REVIEW_ERROR_MESSAGES } from '../constants';
+
+// Items kept after a partial return were still received
+const REVIEWABLE_ORDER_STATUSES = [
+  OrderStatus.DELIVERED,
+  OrderStatus.PARTIALLY_RETURNED,
+];
+
+/**
+ * Reviews of products received on delivered orders. Reviews wait for an
+ * admin before they are shown; the product's rating and review count are
+ * recalculated from approved reviews whenever one is published or removed.
+ */
+@Injectable()
+export class ProductReviewsService {
+  private readonly logger = new Logger(ProductReviewsService.name);
+
+  constructor(
+    @InjectModel(ProductReview.name)
+    private reviewModel: Model<ProductReviewDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+  ) {}
+
+  async create(
+    userId: string,
+    createReviewDto: CreateReviewDto,
+  ): Promise<ProductReviewDocument> {
+    const order = await this.orderModel.findById(createReviewDto.orderId);
+    if (!order) {
+      throw new NotFoundException(REVIEW_ERROR_MESSAGES.ORDER_NOT_FOUND);
+    }
+    if (order.userId.toString() !== userId) {
+      throw new ForbiddenException(REVIEW_ERROR_MESSAGES.NOT_YOUR_ORDER);
+    }
+    if (!REVIEWABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new BadRequestException(REVIEW_ERROR_MESSAGES.ORDER_NOT_DELIVERED);
+    }
+
+    const lines = order.items.filter(
+      (item) => item.productId.toString() === createReviewDto.productId,
+    );
+    if (!lines.length) {
+      throw new BadRequestException(REVIEW_ERROR_MESSAGES.PRODUCT_NOT_ON_ORDER);
+    }
+
+    // Some of the product, in any of its packs, has to have been kept
+    const kept = lines.some(
+      (item) => item.quantity - (item.returnedQuantity || 0) > 0,
+    );
+    if (!kept) {
+      throw new BadRequestException(REVIEW_ERROR_MESSAGES.PRODUCT_RETURNED);
+    }
+
+    const product = await this.productModel
+      .findById(createReviewDto.productId)
+      .select('sellerId');
+    if (!product) {
+      throw new NotFoundException(PRODUCT_ERROR_MESSAGES.PRODUCT_NOT_FOUND);
+    }
+
+    try {
+      return await this.reviewModel.create({
+        productId: product._id,
+        orderId: order._id,
+        userId: order.userId,
+        sellerId: product.sellerId,
+        rating: createReviewDto.rating,
+        title: createReviewDto.title,
+        comment: createReviewDto.comment,
+        photos: createReviewDto.photos || [],
+        verifiedPurchase: true,
+        status: ReviewStatus.PENDING,
+      });
+    } catch (error) {
+      if (error.code === 11000) {
+        throw new ConflictException(REVIEW_ERROR_MESSAGES.ALREADY_REVIEWED);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Published reviews of a product, newest first, with its rating breakdown
+   */
+  async findForProduct(
+    productId: string,
+    filterDto: ReviewFilterDto = {},
+  ): Promise<ProductReviewPage> {
+    if (!Types.ObjectId.isValid(productId)) {
+      throw new BadRequestException('Invalid product ID');
+    }
+
+    const productObjectId = new Types.ObjectId(productId);
+    const [page, summary] = await Promise.all([
+      this.paginate(
+        { productId: productObjectId, status: ReviewStatus.APPROVED },
+        filterDto,
+        { createdAt: -1 },
+      ),
+      this.summarize(productObjectId),
+    ]);
+    return { ...page, summary };
+  }
+
+  async findMine(
+    userId: string,
+    filterDto: ReviewFilterDto = {},
+  ): Promise<ReviewPage> {
+    return this.paginate({ userId: new Types.ObjectId(userId) }, filterDto, {
+      createdAt: -1,
+    });
+  }
+
+  /**
+   * Reviews waiting for moderation, oldest first
+   */
+  async findForModeration(
+    filterDto: ReviewModerationFilterDto = {},
+  ): Promise<ReviewPage> {
+    const { status = ReviewStatus.PENDING } = filterDto;
+    return this.paginate({ status }, filterDto, { createdAt: 1 });
+  }
+
+  async moderate(
+    reviewId: string,
+    adminId: string,
+    moderateReviewDto: ModerateReviewDto,
+  ): Promise<ProductReviewDocument> {
+    const review = await this.findReview(reviewId);
+    const wasApproved = review.status === ReviewStatus.APPROVED;
+
+    review.status = moderateReviewDto.status;
+    review.moderatedBy = new Types.ObjectId(adminId);
+    review.moderatedAt = new Date();
+    review.moderationNote = moderateReviewDto.note;
+    await review.save();
+
+    if (wasApproved !== (review.status === ReviewStatus.APPROVED)) {
+      await this.refreshRating(review.productId);
+    }
+
+    this.logger.log(`Review ${reviewId} ${review.status} by ${adminId}`);
+    return review;
+  }
+
+  /**
+   * Reply to a published review. Answering again replaces the reply
+   */
+  async respond(
+    reviewId: string,
+    userId: string,
+    userRole: string,
+    respondDto: RespondToReviewDto,
+  ): Promise<ProductReviewDocument> {
+    const review = await this.findReview(reviewId);
+    if (userRole !== 'admin' && review.sellerId?.toString() !== userId) {
+      throw new ForbiddenException(REVIEW_ERROR_MESSAGES.NOT_YOUR_PRODUCT);
+    }
+    if (review.status !== ReviewStatus.APPROVED) {
+      throw new BadRequestException(REVIEW_ERROR_MESSAGES.NOT_APPROVED);
+    }
+
+    review.sellerResponse = {
+      message: respondDto.message,
+      respondedBy: new Types.ObjectId(userId),
+      respondedAt: new Date(),
+    };
+    return review.save();
+  }
+
+  async remove(
+    reviewId: string,
+    userId: string,
+    userRole: string,
+  ): Promise<void> {
+    const review = await this.findReview(reviewId);
+    if (userRole !== 'admin' && review.userId.toString() !== userId) {
+      throw new ForbiddenException(REVIEW_ERROR_MESSAGES.NOT_YOUR_REVIEW);
+    }
+
+    await this.reviewModel.deleteOne({ _id: review._id });
+    if (review.status === ReviewStatus.APPROVED) {
+      await this.refreshRating(review.productId);
+    }
+  }
+
+  private async findReview(reviewId: string): Promise<ProductReviewDocument> {
+    if (!Types.ObjectId.isValid(reviewId)) {
+      throw new BadRequestException('Invalid review ID');
+    }
+
+    const review = await this.reviewModel.findById(reviewId);
+    if (!review) {
+      throw new NotFoundException(REVIEW_ERROR_MESSAGES.REVIEW_NOT_FOUND);
+    }
+    return review;
+  }
+
+  private async paginate(
+    query: FilterQuery<ProductReviewDocument>,
+    filterDto: ReviewFilterDto,
+    sort: Record<string, 1 | -1>,
+  ): Promise<ReviewPage> {
+    const { rating, page = 1, limit = 10 } = filterDto;
+    const filter = rating ? { ...query, rating } : query;
+
+    const [reviews, total] = await Promise.all([
+      this.reviewModel
+        .find(filter)
+        .sort(sort)
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('userId', 'name')
+        .populate('productId', 'name images')
+        .exec(),
+      this.reviewModel.countDocuments(filter).exec(),
+    ]);
+
+    return {
+      reviews,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  private async summarize(productId: Types.ObjectId): Promise<RatingSummary> {
+    const counts = await this.reviewModel.aggregate<{
+      _id: number;
+      count: number;
+    }>([
+      { $match: { productId, status: ReviewStatus.APPROVED } },
+      { $group: { _id: '$rating', count: { $sum: 1 } } },
+    ]);
+
+    const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    for (const { _id, count } of counts) {
+      distribution[_id] = count;
+    }
+    const reviewCount = counts.reduce((total, { count }) => total + count, 0);
+    const stars = counts.reduce(
+      (total, { _id, count }) => total + _id * count,
+      0,
+    );
+
+    return {
+      rating: reviewCount ? Math.round((stars / reviewCount) * 10) / 10 : 0,
+      reviewCount,
+      distribution,
+    };
+  }
+
+  /**
+   * Store the product's rating and review count from its approved reviews
+   */
+  private async refreshRating(productId: Types.ObjectId): Promise<void> {
+    const { rating, reviewCount } = await this.summarize(productId);
+    await this.productModel.updateOne(
+      { _id: productId },
+      { $set: { rating, reviewCount } },
+    );
+  }
+}
@@ -0,0 +1,312 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { getQueueToken } from '@nestjs/bull';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { CatalogCsvService } from '../services/catalog-csv.service';
+import { ProductsService } from '../products.service';
+import { CategoriesService } from '../services/categories.service';
+import {
+  ImportJobStatus,
+  ProductImportJob,
+} from '../entities/product-import-job.entity';
+import { DeliveryType, Product } from '../entities/product.entity';
+import {
+  IMPORT_ERROR_MESSAGES,
+  PRODUCT_CONSTANTS,
+  PRODUCT_CSV,
+  PRODUCT_CSV_COLUMNS,
+  PRODUCT_ERROR_MESSAGES,
+  PRODUCT_IMPORT_QUEUE,
+} from '../constants';
+
+describe('CatalogCsvService', () => {
+  let service: CatalogCsvService;
+  let importJobModel: any;
+  let productModel: any;
+  let importQueue: any;
+  let productsService: any;
+  let categoriesService: any;
+  let storedJob: any;
+
+  const sellerId = new Types.ObjectId().toString();
+  const adminId = new Types.ObjectId().toString();
+  const categoryId = new Types.ObjectId().toString();
+
+  const header = PRODUCT_CSV_COLUMNS.join(',');
+  const row = (sku: string, overrides: Record<string, unknown> = {}) => {
+    const cells: Record<string, unknown> = {
+      sku,
+      name: 'Ofada Rice',
+      description: 'Stone-free local rice',
+      categoryId,
+      city: 'Lagos',
+      price: '"7,500"',
+      priceInNibia: 1875,
+      weight: 5000,
+      stock: 20,
+      deliveryType: 'paid',
+      tags: 'rice|local',
+      images: '',
+      sellerId: '',
+      ...overrides,
+    };
+    return PRODUCT_CSV_COLUMNS.map((column) => cells[column]).join(',');
+  };
+  const csv = (...rows: string[]) =>
+    ({
+      originalname: 'products.csv',
+      buffer: Buffer.from([header, ...rows].join('\n')),
+    }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    storedJob = undefined;
+    importJobModel = {
+      create: jest.fn(async (data) => {
+        storedJob = {
+          _id: new Types.ObjectId(),
+          status: ImportJobStatus.PENDING,
+          ...data,
+        };
+        return storedJob;
+      }),
+      findByIdAndUpdate: jest.fn((id, update) => {
+        Object.assign(storedJob, update.$set);
+        const result = Promise.resolve(storedJob);
+        return Object.assign(result, {
+          select: jest.fn().mockResolvedValue(storedJob),
+        });
+      }),
+      findById: jest.fn(async () => storedJob),
+      updateOne: jest.fn(async (filter, update) =>
+        Object.assign(storedJob, update.$set),
+      ),
+    };
+    productModel = {
+      find: jest.fn(() => ({ select: jest.fn().mockResolvedValue([]) })),
+    };
+    importQueue = { add: jest.fn().mockResolvedValue({}) };
+    productsService = {
+      create: jest.fn(async () => ({ _id: new Types.ObjectId() })),
+      update: jest.fn(async (id) => ({ _id: new Types.ObjectId(id) })),
+      findForExport: jest.fn().mockResolvedValue([]),
+    };
+    categoriesService = { resolveForProduct: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CatalogCsvService,
+        {
+          provide: getModelToken(ProductImportJob.name),
+          useValue: importJobModel,
+        },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: getQueueToken(PRODUCT_IMPORT_QUEUE), useValue: importQueue },
+        { provide: ProductsService, useValue: productsService },
+        { provide: CategoriesService, useValue: categoriesService },
+      ],
+    }).compile();
+
+    service = module.get<CatalogCsvService>(CatalogCsvService);
+  });
+
+  describe('startImport', () => {
+    it('should report row errors against the product rules on a dry run', async () => {
+      const job = await service.startImport(
+        csv(
+          row('RICE-5KG'),
+          row('', { price: 'abc' }),
+          row('rice-5kg'),
+          row('BEANS-1KG', { deliveryType: 'drone' }),
+        ),
+        { dryRun: true },
+        sellerId,
+        'user',
+      );
+
+      expect(job).toMatchObject({
+        status: ImportJobStatus.COMPLETED,
+        totalRows: 4,
+        processedRows: 4,
+        created: 1,
+        updated: 0,
+        failed: 3,
+      });
+      expect(job.rowErrors[0].row).toBe(3);
+      expect(job.rowErrors[0].messages).toEqual(
+        expect.arrayContaining([
+          IMPORT_ERROR_MESSAGES.SKU_REQUIRED,
+          expect.stringContaining('price'),
+        ]),
+      );
+      expect(job.rowErrors[1]).toEqual({
+        row: 4,
+        sku: 'rice-5kg',
+        messages: [IMPORT_ERROR_MESSAGES.DUPLICATE_ROW],
+      });
+      expect(job.rowErrors[2].messages[0]).toContain('deliveryType');
+      expect(productsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should update products with a known SKU and create the rest', async () => {
+      const existingId = new Types.ObjectId();
+      productModel.find.mockReturnValue({
+        select: jest.fn().mockResolvedValue([
+          {
+            _id: existingId,
+            sku: 'RICE-5KG',
+            sellerId: new Types.ObjectId(sellerId),
+          },
+        ]),
+      });
+
+      const job = await service.startImport(
+        csv(row('rice-5kg'), row('BEANS-1KG', { sellerId })),
+        {},
+        sellerId,
+        'user',
+      );
+
+      expect(job).toMatchObject({ created: 1, updated: 1, failed: 0 });
+      expect(productsService.update).toHaveBeenCalledWith(
+        existingId.toString(),
+        expect.objectContaining({
+          sku: 'rice-5kg',
+          price: 7500,
+          tags: ['rice', 'local'],
+          deliveryType: DeliveryType.PAID,
+        }),
+        sellerId,
+        'user',
+      );
+      expect(productsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ sku: 'BEANS-1KG', sellerId }),
+        sellerId,
+        'user',
+      );
+    });
+
+    it("should not let a seller import over another seller's product", async () => {
+      productModel.find.mockReturnValue({
+        select: jest.fn().mockResolvedValue([
+          {
+            _id: new Types.ObjectId(),
+            sku: 'RICE-5KG',
+            sellerId: new Types.ObjectId(),
+          },
+        ]),
+      });
+
+      const job = await service.startImport(
+        csv(row('RICE-5KG')),
+        {},
+        sellerId,
+        'user',
+      );
+
+      expect(job.rowErrors).toEqual([
+        {
+          row: 2,
+          sku: 'RICE-5KG',
+          messages: [PRODUCT_ERROR_MESSAGES.UNAUTHORIZED_SELLER],
+        },
+      ]);
+      expect(productsService.update).not.toHaveBeenCalled();
+    });
+
+    it('should queue large files instead of importing them straight away', async () => {
+      const rows = Array.from(
+        { length: PRODUCT_CONSTANTS.IMPORT_INLINE_ROWS + 1 },
+        (_, index) => row(`SKU-${index}`),
+      );
+
+      const job = await service.startImport(csv(...rows), {}, adminId, 'admin');
+
+      expect(job.status).toBe(ImportJobStatus.PENDING);
+      expect(importQueue.add).toHaveBeenCalledWith(
+        'import-products',
+        { jobId: storedJob._id.toString() },
+        expect.objectContaining({
+          attempts: PRODUCT_CONSTANTS.IMPORT_RETRY_ATTEMPTS,
+        }),
+      );
+      expect(productsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject files without the required columns', async () => {
+      await expect(
+        service.startImport(
+          {
+            buffer: Buffer.from('sku,name\nRICE-5KG,Ofada Rice'),
+          } as Express.Multer.File,
+          {},
+          adminId,
+          'admin',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(importJobModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getJob', () => {
+    it("should hide other users' imports from sellers", async () => {
+      storedJob = { _id: new Types.ObjectId(), userId: new Types.ObjectId() };
+
+      await expect(
+        service.getJob(storedJob._id.toString(), sellerId, 'user'),
+      ).rejects.toThrow(
+        new NotFoundException(IMPORT_ERROR_MESSAGES.JOB_NOT_FOUND),
+      );
+    });
+  });
+
+  describe('exportCsv', () => {
+    it("should export a seller's own products in the import layout", async () => {
+      productsService.findForExport.mockResolvedValue([
+        {
+          sku: 'RICE-5KG',
+          name: 'Ofada Rice, premium',
+          description: 'Stone-free',
+          categoryId: new Types.ObjectId(categoryId),
+          city: 'Lagos',
+          price: 7500,
+          priceInNibia: 1875,
+          weight: 5000,
+          stock: 20,
+          deliveryType: DeliveryType.PAID,
+          tags: ['rice', 'local'],
+          images: [],
+          sellerId: new Types.ObjectId(sellerId),
+        },
+      ]);
+
+      const exported = await service.exportCsv(
+        { city: 'Lagos', sellerId: adminId },
+        sellerId,
+        'user',
+      );
+
+      expect(productsService.findForExport).toHaveBeenCalledWith({
+        city: 'Lagos',
+        sellerId,
+      });
+      expect(PRODUCT_CSV.parse(exported)).toEqual([
+        {
+          sku: 'RICE-5KG',
+          name: 'Ofada Rice, premium',
+          description: 'Stone-free',
+          categoryId,
+          city: 'Lagos',
+          price: '7500',
+          priceInNibia: '1875',
+          weight: '5000',
+          stock: '20',
+          deliveryType: 'paid',
+          tags: 'rice|local',
+          images: '',
+          sellerId,
+        },
+      ]);
+    });
+  });
+});
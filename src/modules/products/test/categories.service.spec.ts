@@ -0,0 +1,263 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { CategoriesService } from '../services/categories.service';
+import { Category } from '../entities/category.entity';
+import { Product, ProductCategory } from '../entities/product.entity';
+import { CATEGORY_ERROR_MESSAGES } from '../constants';
+
+describe('CategoriesService', () => {
+  let service: CategoriesService;
+  let categoryModel: any;
+  let productModel: any;
+
+  const grains = {
+    _id: new Types.ObjectId(),
+    name: 'Grains',
+    slug: 'grains',
+    parentCategoryId: null,
+    ancestors: [],
+    department: ProductCategory.GRAINS,
+    sortOrder: 0,
+    isActive: true,
+  };
+  const rice = {
+    _id: new Types.ObjectId(),
+    name: 'Rice',
+    slug: 'rice',
+    parentCategoryId: grains._id,
+    ancestors: [grains._id],
+    department: ProductCategory.GRAINS,
+    sortOrder: 0,
+    isActive: true,
+  };
+  const localRice = {
+    _id: new Types.ObjectId(),
+    name: 'Local rice',
+    slug: 'local-rice',
+    parentCategoryId: rice._id,
+    ancestors: [grains._id, rice._id],
+    department: ProductCategory.GRAINS,
+    sortOrder: 0,
+    isActive: true,
+  };
+  const dairy = {
+    _id: new Types.ObjectId(),
+    name: 'Dairy',
+    slug: 'dairy',
+    parentCategoryId: null,
+    ancestors: [],
+    department: ProductCategory.DAIRY,
+    sortOrder: 1,
+    isActive: true,
+  };
+
+  const asDocument = (category: any) => ({
+    ...category,
+    ancestors: [...category.ancestors],
+    save: jest.fn().mockResolvedValue(undefined),
+  });
+
+  const findReturning = (categories: any[]) => ({
+    sort: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockResolvedValue(categories),
+  });
+
+  beforeEach(async () => {
+    categoryModel = {
+      find: jest.fn(() => findReturning([grains, rice, localRice, dairy])),
+      findById: jest.fn(),
+      findOne: jest.fn(),
+      create: jest.fn((data) =>
+        Promise.resolve({ _id: new Types.ObjectId(), ...data }),
+      ),
+      exists: jest.fn().mockResolvedValue(null),
+      countDocuments: jest.fn(),
+      bulkWrite: jest.fn().mockResolvedValue({}),
+      deleteOne: jest.fn().mockResolvedValue({}),
+    };
+    productModel = {
+      aggregate: jest.fn().mockResolvedValue([]),
+      exists: jest.fn().mockResolvedValue(null),
+      bulkWrite: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CategoriesService,
+        { provide: getModelToken(Category.name), useValue: categoryModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+      ],
+    }).compile();
+
+    service = module.get<CategoriesService>(CategoriesService);
+  });
+
+  describe('getTree', () => {
+    it('should nest categories and count products across a branch', async () => {
+      productModel.aggregate.mockResolvedValue([
+        { _id: grains._id, count: 3 },
+        { _id: rice._id, count: 3 },
+        { _id: localRice._id, count: 2 },
+      ]);
+
+      const tree = await service.getTree();
+
+      expect(tree.map((node) => node.slug)).toEqual(['grains', 'dairy']);
+      expect(tree[0].productCount).toBe(3);
+      expect(tree[0].children[0].slug).toBe('rice');
+      expect(tree[0].children[0].children[0]).toMatchObject({
+        slug: 'local-rice',
+        productCount: 2,
+      });
+      expect(tree[1].productCount).toBe(0);
+    });
+
+    it('should hide everything below an inactive category', async () => {
+      categoryModel.find.mockReturnValue(
+        findReturning([grains, { ...rice, isActive: false }, localRice, dairy]),
+      );
+
+      const tree = await service.getTree();
+      const adminTree = await service.getTree(true);
+
+      expect(tree[0].children).toEqual([]);
+      expect(adminTree[0].children[0].children[0].slug).toBe('local-rice');
+    });
+  });
+
+  describe('findOne', () => {
+    it('should return the path down to the category', async () => {
+      categoryModel.findOne.mockResolvedValue(localRice);
+
+      const detail = await service.findOne('local-rice');
+
+      expect(categoryModel.findOne).toHaveBeenCalledWith({
+        slug: 'local-rice',
+      });
+      expect(detail.breadcrumb.map((crumb) => crumb.slug)).toEqual([
+        'grains',
+        'rice',
+      ]);
+    });
+  });
+
+  describe('create', () => {
+    it('should require a department for a top-level category', async () => {
+      await expect(service.create({ name: 'Tubers' })).rejects.toThrow(
+        new BadRequestException(CATEGORY_ERROR_MESSAGES.DEPARTMENT_REQUIRED),
+      );
+    });
+
+    it('should place a sub-category under its parent department', async () => {
+      categoryModel.findById.mockResolvedValue(rice);
+
+      await service.create({
+        name: 'Basmati Rice',
+        parentCategoryId: rice._id.toString(),
+        department: ProductCategory.OTHERS,
+      });
+
+      expect(categoryModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          slug: 'basmati-rice',
+          parentCategoryId: rice._id,
+          ancestors: [grains._id, rice._id],
+          department: ProductCategory.GRAINS,
+        }),
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should not move a category under its own sub-category', async () => {
+      categoryModel.findById
+        .mockResolvedValueOnce(asDocument(rice))
+        .mockResolvedValueOnce(localRice);
+
+      await expect(
+        service.update(rice._id.toString(), {
+          parentCategoryId: localRice._id.toString(),
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(CATEGORY_ERROR_MESSAGES.PARENT_IS_DESCENDANT),
+      );
+    });
+
+    it('should carry sub-categories and products along when moved', async () => {
+      const category = asDocument(rice);
+      categoryModel.findById
+        .mockResolvedValueOnce(category)
+        .mockResolvedValueOnce(dairy);
+      categoryModel.find.mockReturnValue(findReturning([localRice]));
+
+      await service.update(rice._id.toString(), {
+        parentCategoryId: dairy._id.toString(),
+      });
+
+      expect(category.save).toHaveBeenCalled();
+      expect(category.department).toBe(ProductCategory.DAIRY);
+      expect(categoryModel.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { _id: localRice._id },
+            update: {
+              $set: {
+                ancestors: [dairy._id, rice._id],
+                department: ProductCategory.DAIRY,
+              },
+            },
+          },
+        },
+      ]);
+      const [, localRiceProducts] = productModel.bulkWrite.mock.calls[0][0];
+      expect(localRiceProducts.updateMany).toEqual({
+        filter: { categoryId: localRice._id },
+        update: {
+          $set: {
+            categoryPath: [dairy._id, rice._id, localRice._id],
+            category: ProductCategory.DAIRY,
+          },
+        },
+      });
+    });
+
+    it('should leave products alone when only the name changes', async () => {
+      categoryModel.findById.mockResolvedValueOnce(asDocument(rice));
+
+      await service.update(rice._id.toString(), { name: 'Rice & Pasta' });
+
+      expect(productModel.bulkWrite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should refuse a category with products anywhere in its branch', async () => {
+      categoryModel.findById.mockResolvedValue(localRice);
+      productModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(service.remove(localRice._id.toString())).rejects.toThrow(
+        new BadRequestException(CATEGORY_ERROR_MESSAGES.IN_USE),
+      );
+      expect(productModel.exists).toHaveBeenCalledWith({
+        categoryPath: localRice._id,
+      });
+      expect(categoryModel.deleteOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveForProduct', () => {
+    it('should give products the full path and the department', async () => {
+      categoryModel.findById.mockResolvedValue(localRice);
+
+      const ref = await service.resolveForProduct(localRice._id.toString());
+
+      expect(ref).toEqual({
+        categoryId: localRice._id,
+        categoryPath: [grains._id, rice._id, localRice._id],
+        category: ProductCategory.GRAINS,
+      });
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { InventoryService } from '../services/inventory.service';
+import {
+  InventoryMovement,
+  InventoryMovementType,
+} from '../entities/inventory-movement.entity';
+import { Product } from '../entities/product.entity';
+import { User, UserRole } from '../../users/entities/user.entity';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { NotificationType } from '../../notifications/entities/notification.entity';
+import { INVENTORY_ERROR_MESSAGES, PRODUCT_ERROR_MESSAGES } from '../constants';
+
+describe('InventoryService', () => {
+  let service: InventoryService;
+  let movementModel: any;
+  let productModel: any;
+  let userModel: any;
+  let notificationsService: any;
+
+  const sellerId = new Types.ObjectId();
+  const productId = new Types.ObjectId();
+
+  const product = (overrides: Record<string, unknown> = {}) => ({
+    _id: productId,
+    name: 'Ofada Rice',
+    stock: 8,
+    reorderPoint: 10,
+    sellerId,
+    variants: [],
+    ...overrides,
+  });
+
+  const selectResolving = (value: unknown) => ({
+    select: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    movementModel = {
+      create: jest.fn(async (data) => ({ _id: new Types.ObjectId(), ...data })),
+      find: jest.fn(),
+      countDocuments: jest.fn(),
+    };
+    productModel = {
+      findById: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      aggregate: jest.fn().mockResolvedValue([]),
+    };
+    userModel = {
+      find: jest.fn(() =>
+        selectResolving([
+          { _id: sellerId, email: 'seller@forage.ng', role: UserRole.USER },
+        ]),
+      ),
+    };
+    notificationsService = { sendEmail: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InventoryService,
+        {
+          provide: getModelToken(InventoryMovement.name),
+          useValue: movementModel,
+        },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: NotificationsService, useValue: notificationsService },
+      ],
+    }).compile();
+
+    service = module.get<InventoryService>(InventoryService);
+  });
+
+  describe('record', () => {
+    it('should keep the stock left after the movement', async () => {
+      productModel.findById.mockReturnValue(selectResolving(product()));
+      const actorId = new Types.ObjectId();
+
+      const movement = await service.record({
+        productId,
+        type: InventoryMovementType.SALE,
+        quantity: -2,
+        actorId,
+        reference: 'ORD-1',
+      });
+
+      expect(movement).toMatchObject({
+        productId,
+        sellerId,
+        type: InventoryMovementType.SALE,
+        quantity: -2,
+        stockAfter: 8,
+        actorId,
+        reference: 'ORD-1',
+      });
+    });
+
+    it('should warn the seller when stock falls to the reorder point', async () => {
+      productModel.findById.mockReturnValue(selectResolving(product()));
+
+      await service.record({
+        productId,
+        type: InventoryMovementType.SALE,
+        quantity: -3,
+      });
+
+      expect(userModel.find).toHaveBeenCalledWith({ _id: sellerId });
+      expect(notificationsService.sendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recipientEmail: 'seller@forage.ng',
+          type: NotificationType.LOW_STOCK,
+          metadata: expect.objectContaining({ stock: 8, reorderPoint: 10 }),
+        }),
+      );
+    });
+
+    it('should not warn again while stock stays below the reorder point', async () => {
+      productModel.findById.mockReturnValue(
+        selectResolving(product({ stock: 5 })),
+      );
+
+      await service.record({
+        productId,
+        type: InventoryMovementType.SALE,
+        quantity: -3,
+      });
+
+      expect(notificationsService.sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the stock change when the journal cannot be written', async () => {
+      productModel.findById.mockReturnValue(selectResolving(product()));
+      movementModel.create.mockRejectedValue(new Error('write failed'));
+
+      await expect(
+        service.record({
+          productId,
+          type: InventoryMovementType.RESTOCK,
+          quantity: 20,
+        }),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('reconcile', () => {
+    it('should apply the counted difference and record it as an adjustment', async () => {
+      productModel.findById
+        .mockReturnValueOnce(selectResolving(product({ stock: 12 })))
+        .mockReturnValueOnce(selectResolving(product({ stock: 9 })));
+
+      const result = await service.reconcile(
+        { counts: [{ productId: productId.toString(), counted: 9 }] },
+        sellerId.toString(),
+        UserRole.USER,
+      );
+
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        { _id: productId, stock: 12 },
+        { $inc: { stock: -3 } },
+      );
+      expect(movementModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: InventoryMovementType.ADJUSTMENT,
+          quantity: -3,
+          stockAfter: 9,
+          reference: result.reference,
+        }),
+      );
+      expect(result).toMatchObject({ adjusted: 1, unchanged: 0, failed: 0 });
+      expect(result.reference).toMatch(/^STK-/);
+    });
+
+    it('should fail a line whose stock moved while it was counted', async () => {
+      productModel.findById.mockReturnValue(
+        selectResolving(product({ stock: 12 })),
+      );
+      productModel.updateOne.mockResolvedValue({ modifiedCount: 0 });
+
+      const result = await service.reconcile(
+        { counts: [{ productId: productId.toString(), counted: 9 }] },
+        sellerId.toString(),
+        UserRole.USER,
+      );
+
+      expect(result.lines[0]).toMatchObject({
+        status: 'failed',
+        error: INVENTORY_ERROR_MESSAGES.COUNT_CHANGED,
+      });
+      expect(movementModel.create).not.toHaveBeenCalled();
+    });
+
+    it("should not let a seller count another seller's product", async () => {
+      productModel.findById.mockReturnValue(selectResolving(product()));
+
+      const result = await service.reconcile(
+        { counts: [{ productId: productId.toString(), counted: 9 }] },
+        new Types.ObjectId().toString(),
+        UserRole.USER,
+      );
+
+      expect(result.lines[0]).toMatchObject({
+        status: 'failed',
+        error: PRODUCT_ERROR_MESSAGES.UNAUTHORIZED_SELLER,
+      });
+      expect(productModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should reject a count that lists a product twice', async () => {
+      const count = { productId: productId.toString(), counted: 9 };
+
+      await expect(
+        service.reconcile(
+          { counts: [count, count] },
+          sellerId.toString(),
+          UserRole.ADMIN,
+        ),
+      ).rejects.toThrow(
+        new BadRequestException(INVENTORY_ERROR_MESSAGES.DUPLICATE_COUNT),
+      );
+    });
+  });
+
+  describe('getValuation', () => {
+    it("should value only the seller's own stock", async () => {
+      productModel.aggregate.mockResolvedValue([
+        { _id: 'grains', products: 2, units: 30, value: 45000.499 },
+        { _id: 'tubers', products: 1, units: 10, value: 5000 },
+      ]);
+
+      const valuation = await service.getValuation(
+        { sellerId: new Types.ObjectId().toString() },
+        sellerId.toString(),
+        UserRole.USER,
+      );
+
+      expect(productModel.aggregate.mock.calls[0][0][0]).toEqual({
+        $match: { stock: { $gt: 0 }, sellerId },
+      });
+      expect(valuation).toMatchObject({
+        products: 3,
+        units: 40,
+        value: 50000.5,
+        byCategory: [
+          { category: 'grains', products: 2, units: 30, value: 45000.5 },
+          { category: 'tubers', products: 1, units: 10, value: 5000 },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PriceScheduleService } from '../services/price-schedule.service';
+import {
+  PriceChangeStatus,
+  PriceChangeType,
+  PriceHistory,
+} from '../entities/price-history.entity';
+import { Product } from '../entities/product.entity';
+import { PriceLock, PriceLockStatus } from '../entities/price-lock.entity';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { PRICE_ERROR_MESSAGES, PRODUCT_CSV } from '../constants';
+
+describe('PriceScheduleService', () => {
+  let service: PriceScheduleService;
+  let priceHistoryModel: any;
+  let productModel: any;
+  let priceLockModel: any;
+  let notificationsService: any;
+
+  const adminId = new Types.ObjectId().toString();
+  const categoryId = new Types.ObjectId();
+  const hour = 60 * 60 * 1000;
+
+  const garri = () => ({
+    _id: new Types.ObjectId(),
+    name: 'Ijebu Garri',
+    price: 2000,
+    priceInNibia: 500,
+    categoryPath: [categoryId],
+    variants: [],
+  });
+
+  const riceVariant = {
+    _id: new Types.ObjectId(),
+    sku: 'RICE-5KG',
+    price: 7500,
+    priceInNibia: 1875,
+    weight: 5000,
+    stock: 10,
+  };
+
+  const rice = () => ({
+    _id: new Types.ObjectId(),
+    name: 'Ofada Rice',
+    price: 7500,
+    priceInNibia: 1875,
+    categoryPath: [new Types.ObjectId()],
+    variants: [{ ...riceVariant }],
+  });
+
+  const csv = (text: string) =>
+    ({ buffer: Buffer.from(text) }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    priceHistoryModel = {
+      create: jest.fn((data) =>
+        Promise.resolve({
+          _id: new Types.ObjectId(),
+          ...data,
+          save: jest.fn(),
+        }),
+      ),
+      exists: jest.fn().mockResolvedValue(null),
+      find: jest.fn(),
+      findById: jest.fn(),
+      findOne: jest.fn(),
+      // Applies the update to the change created earlier in the test
+      findOneAndUpdate: jest.fn(async (filter, update) => {
+        const created = await Promise.all(
+          priceHistoryModel.create.mock.results.map((result) => result.value),
+        );
+        const change = created.find((entry) => entry._id.equals(filter._id));
+        return Object.assign(change, update.$set);
+      }),
+    };
+    productModel = {
+      findById: jest.fn(),
+      find: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({}),
+    };
+    priceLockModel = {
+      find: jest.fn(() => ({ populate: jest.fn().mockResolvedValue([]) })),
+    };
+    notificationsService = { sendEmail: jest.fn().mockResolvedValue(true) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PriceScheduleService,
+        {
+          provide: getModelToken(PriceHistory.name),
+          useValue: priceHistoryModel,
+        },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: getModelToken(PriceLock.name), useValue: priceLockModel },
+        { provide: NotificationsService, useValue: notificationsService },
+      ],
+    }).compile();
+
+    service = module.get<PriceScheduleService>(PriceScheduleService);
+  });
+
+  describe('schedulePriceChange', () => {
+    it('should leave the price alone until the effective date', async () => {
+      const product = garri();
+      productModel.findById.mockResolvedValue(product);
+
+      const change = await service.schedulePriceChange(
+        {
+          productId: product._id.toString(),
+          price: 2400,
+          effectiveDate: new Date(Date.now() + hour),
+          reason: 'Harmattan supply',
+        },
+        adminId,
+      );
+
+      expect(change).toMatchObject({
+        status: PriceChangeStatus.SCHEDULED,
+        oldPrice: 2000,
+        newPrice: 2400,
+      });
+      expect(productModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should apply a change due now, scaling the Nibia price and telling lock holders', async () => {
+      const product = garri();
+      productModel.findById.mockResolvedValue(product);
+      const lockHolder = {
+        _id: new Types.ObjectId(),
+        email: 'ada@example.com',
+      };
+      priceLockModel.find.mockReturnValue({
+        populate: jest.fn().mockResolvedValue([
+          {
+            _id: new Types.ObjectId(),
+            userId: lockHolder,
+            price: 2000,
+            status: PriceLockStatus.ACTIVE,
+            expiryDate: new Date(Date.now() + 24 * hour),
+          },
+        ]),
+      });
+
+      const change = await service.schedulePriceChange(
+        {
+          productId: product._id.toString(),
+          price: 2400,
+          reason: 'Harmattan supply',
+        },
+        adminId,
+      );
+
+      expect(change.status).toBe(PriceChangeStatus.APPLIED);
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        { _id: product._id },
+        { $set: { price: 2400, priceInNibia: 600 } },
+      );
+      expect(notificationsService.sendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recipientEmail: 'ada@example.com',
+          recipientId: lockHolder._id.toString(),
+          metadata: expect.objectContaining({
+            lockedPrice: 2000,
+            newPrice: 2400,
+          }),
+        }),
+      );
+    });
+
+    it('should not change a price while a sale is running', async () => {
+      const product = garri();
+      productModel.findById.mockResolvedValue(product);
+      priceHistoryModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(
+        service.schedulePriceChange(
+          {
+            productId: product._id.toString(),
+            price: 2400,
+            reason: 'Harmattan supply',
+          },
+          adminId,
+        ),
+      ).rejects.toThrow(
+        new ConflictException(PRICE_ERROR_MESSAGES.SALE_OVERLAP),
+      );
+    });
+
+    it('should update a pack and keep the product on its cheapest pack', async () => {
+      const product = rice();
+      productModel.findById.mockResolvedValue(product);
+
+      await service.schedulePriceChange(
+        {
+          productId: product._id.toString(),
+          variantId: riceVariant._id.toString(),
+          price: 8000,
+          priceInNibia: 2000,
+          reason: 'New harvest',
+        },
+        adminId,
+      );
+
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        { _id: product._id, 'variants._id': riceVariant._id },
+        {
+          $set: expect.objectContaining({
+            'variants.$.price': 8000,
+            'variants.$.priceInNibia': 2000,
+            price: 8000,
+          }),
+        },
+      );
+    });
+  });
+
+  describe('scheduleSale', () => {
+    it('should only accept a price below the current one', async () => {
+      const product = garri();
+      productModel.findById.mockResolvedValue(product);
+
+      await expect(
+        service.scheduleSale(
+          {
+            productId: product._id.toString(),
+            salePrice: 2000,
+            endsAt: new Date(Date.now() + hour),
+            reason: 'Harvest sale',
+          },
+          adminId,
+        ),
+      ).rejects.toThrow(
+        new BadRequestException(PRICE_ERROR_MESSAGES.SALE_NOT_LOWER),
+      );
+    });
+
+    it('should schedule the old price back for when the sale ends', async () => {
+      const product = garri();
+      productModel.findById.mockResolvedValue(product);
+      const endsAt = new Date(Date.now() + 2 * hour);
+
+      const sale = await service.scheduleSale(
+        {
+          productId: product._id.toString(),
+          salePrice: 1500,
+          endsAt,
+          reason: 'Harvest sale',
+        },
+        adminId,
+      );
+
+      expect(sale.status).toBe(PriceChangeStatus.APPLIED);
+      expect(priceHistoryModel.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          type: PriceChangeType.SALE_END,
+          status: PriceChangeStatus.SCHEDULED,
+          newPrice: 2000,
+          newPriceInNibia: 500,
+          effectiveDate: endsAt,
+          saleId: sale._id,
+        }),
+      );
+    });
+  });
+
+  describe('cancel', () => {
+    it('should end a running sale now', async () => {
+      const product = garri();
+      productModel.findById.mockResolvedValue({ ...product, price: 1500 });
+      const sale = {
+        _id: new Types.ObjectId(),
+        type: PriceChangeType.SALE,
+        status: PriceChangeStatus.APPLIED,
+        saleEndsAt: new Date(Date.now() + hour),
+        save: jest.fn(),
+      };
+      const saleEnd = {
+        _id: new Types.ObjectId(),
+        productId: product._id,
+        type: PriceChangeType.SALE_END,
+        status: PriceChangeStatus.SCHEDULED,
+        newPrice: 2000,
+        newPriceInNibia: 500,
+        effectiveDate: sale.saleEndsAt,
+        save: jest.fn(),
+      };
+      priceHistoryModel.findById.mockResolvedValue(sale);
+      priceHistoryModel.findOne.mockResolvedValue(saleEnd);
+      priceHistoryModel.findOneAndUpdate.mockImplementation(
+        async (filter, update) => Object.assign(saleEnd, update.$set),
+      );
+
+      await service.cancel(sale._id.toString());
+
+      expect(saleEnd.effectiveDate.getTime()).toBeLessThanOrEqual(Date.now());
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        { _id: product._id },
+        { $set: { price: 2000, priceInNibia: 500 } },
+      );
+    });
+  });
+
+  describe('bulkUpdate', () => {
+    it('should only change products in the chosen category', async () => {
+      const inCategory = garri();
+      const elsewhere = rice();
+      productModel.find.mockResolvedValue([inCategory, elsewhere]);
+      productModel.findById.mockResolvedValue(inCategory);
+
+      const result = await service.bulkUpdate(
+        csv(
+          [
+            'productId,sku,price',
+            `${inCategory._id},,"2,400"`,
+            ',RICE-5KG,8000',
+            ',BEANS-1KG,1200',
+          ].join('\n'),
+        ),
+        {
+          categoryId: categoryId.toString(),
+          effectiveDate: new Date(Date.now() + hour),
+          reason: 'Monthly review',
+        },
+        adminId,
+      );
+
+      expect(result).toMatchObject({ total: 3, scheduled: 1, rejected: 2 });
+      expect(result.results[0]).toMatchObject({
+        row: 2,
+        price: 2400,
+        status: PriceChangeStatus.SCHEDULED,
+      });
+      expect(result.results[1].error).toBe(PRICE_ERROR_MESSAGES.OUT_OF_SCOPE);
+      expect(result.results[2].row).toBe(4);
+      expect(priceHistoryModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ batchId: result.batchId }),
+      );
+    });
+
+    it('should need a category or a seller', async () => {
+      await expect(
+        service.bulkUpdate(
+          csv('sku,price\nRICE-5KG,8000'),
+          { reason: 'x' },
+          adminId,
+        ),
+      ).rejects.toThrow(
+        new BadRequestException(PRICE_ERROR_MESSAGES.SCOPE_REQUIRED),
+      );
+    });
+  });
+
+  describe('PRODUCT_CSV', () => {
+    it('should read quoted cells and skip blank lines', () => {
+      expect(
+        PRODUCT_CSV.parse('sku,note\r\n"RICE-5KG","50kg, ""premium"""\r\n\r\n'),
+      ).toEqual([{ sku: 'RICE-5KG', note: '50kg, "premium"' }]);
+    });
+  });
+});
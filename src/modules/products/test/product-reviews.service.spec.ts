@@ -0,0 +1,292 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ProductReviewsService } from '../services/product-reviews.service';
+import { ProductReview, ReviewStatus } from '../entities/product-review.entity';
+import { Product } from '../entities/product.entity';
+import { Order, OrderStatus } from '../../orders/entities/order.entity';
+import { REVIEW_ERROR_MESSAGES } from '../constants';
+
+describe('ProductReviewsService', () => {
+  let service: ProductReviewsService;
+  let reviewModel: any;
+  let productModel: any;
+  let orderModel: any;
+
+  const customerId = new Types.ObjectId();
+  const sellerId = new Types.ObjectId();
+  const adminId = new Types.ObjectId().toString();
+  const productId = new Types.ObjectId();
+
+  const deliveredOrder = (overrides: Record<string, unknown> = {}) => ({
+    _id: new Types.ObjectId(),
+    userId: customerId,
+    status: OrderStatus.DELIVERED,
+    items: [{ productId, quantity: 2 }],
+    ...overrides,
+  });
+
+  const review = (overrides: Record<string, unknown> = {}) => ({
+    _id: new Types.ObjectId(),
+    productId,
+    userId: customerId,
+    sellerId,
+    rating: 4,
+    status: ReviewStatus.PENDING,
+    save: jest.fn(function () {
+      return Promise.resolve(this);
+    }),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    reviewModel = {
+      create: jest.fn(async (data) => ({ _id: new Types.ObjectId(), ...data })),
+      findById: jest.fn(),
+      find: jest.fn(),
+      countDocuments: jest.fn(),
+      deleteOne: jest.fn().mockResolvedValue({}),
+      aggregate: jest.fn().mockResolvedValue([]),
+    };
+    productModel = {
+      findById: jest.fn(() => ({
+        select: jest.fn().mockResolvedValue({ _id: productId, sellerId }),
+      })),
+      updateOne: jest.fn().mockResolvedValue({}),
+    };
+    orderModel = { findById: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductReviewsService,
+        { provide: getModelToken(ProductReview.name), useValue: reviewModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: getModelToken(Order.name), useValue: orderModel },
+      ],
+    }).compile();
+
+    service = module.get<ProductReviewsService>(ProductReviewsService);
+  });
+
+  describe('create', () => {
+    it('should hold a verified review of a delivered product for moderation', async () => {
+      const order = deliveredOrder();
+      orderModel.findById.mockResolvedValue(order);
+
+      const created = await service.create(customerId.toString(), {
+        productId: productId.toString(),
+        orderId: order._id.toString(),
+        rating: 5,
+        comment: 'Stone-free and cooks fast',
+      });
+
+      expect(created).toMatchObject({
+        productId,
+        orderId: order._id,
+        sellerId,
+        rating: 5,
+        photos: [],
+        verifiedPurchase: true,
+        status: ReviewStatus.PENDING,
+      });
+    });
+
+    it('should wait until the order is delivered', async () => {
+      const order = deliveredOrder({ status: OrderStatus.SHIPPED });
+      orderModel.findById.mockResolvedValue(order);
+
+      await expect(
+        service.create(customerId.toString(), {
+          productId: productId.toString(),
+          orderId: order._id.toString(),
+          rating: 5,
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(REVIEW_ERROR_MESSAGES.ORDER_NOT_DELIVERED),
+      );
+    });
+
+    it('should only accept products that were on the order', async () => {
+      const order = deliveredOrder();
+      orderModel.findById.mockResolvedValue(order);
+
+      await expect(
+        service.create(customerId.toString(), {
+          productId: new Types.ObjectId().toString(),
+          orderId: order._id.toString(),
+          rating: 5,
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(REVIEW_ERROR_MESSAGES.PRODUCT_NOT_ON_ORDER),
+      );
+    });
+
+    it('should not accept a product that was returned in full', async () => {
+      const order = deliveredOrder({
+        status: OrderStatus.PARTIALLY_RETURNED,
+        items: [
+          { productId, quantity: 2, returnedQuantity: 2 },
+          { productId: new Types.ObjectId(), quantity: 1, returnedQuantity: 0 },
+        ],
+      });
+      orderModel.findById.mockResolvedValue(order);
+
+      await expect(
+        service.create(customerId.toString(), {
+          productId: productId.toString(),
+          orderId: order._id.toString(),
+          rating: 1,
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(REVIEW_ERROR_MESSAGES.PRODUCT_RETURNED),
+      );
+      expect(reviewModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should accept a product kept in one of its packs', async () => {
+      const order = deliveredOrder({
+        status: OrderStatus.PARTIALLY_RETURNED,
+        items: [
+          { productId, quantity: 1, returnedQuantity: 1 },
+          { productId, quantity: 2, returnedQuantity: 1 },
+        ],
+      });
+      orderModel.findById.mockResolvedValue(order);
+
+      await service.create(customerId.toString(), {
+        productId: productId.toString(),
+        orderId: order._id.toString(),
+        rating: 4,
+      });
+
+      expect(reviewModel.create).toHaveBeenCalled();
+    });
+
+    it('should allow one review per product per order', async () => {
+      const order = deliveredOrder();
+      orderModel.findById.mockResolvedValue(order);
+      reviewModel.create.mockRejectedValue({ code: 11000 });
+
+      await expect(
+        service.create(customerId.toString(), {
+          productId: productId.toString(),
+          orderId: order._id.toString(),
+          rating: 3,
+        }),
+      ).rejects.toThrow(
+        new ConflictException(REVIEW_ERROR_MESSAGES.ALREADY_REVIEWED),
+      );
+    });
+  });
+
+  describe('moderate', () => {
+    it('should store the new rating on the product when a review is published', async () => {
+      reviewModel.findById.mockResolvedValue(review());
+      reviewModel.aggregate.mockResolvedValue([
+        { _id: 5, count: 2 },
+        { _id: 4, count: 1 },
+      ]);
+
+      const moderated = await service.moderate(
+        new Types.ObjectId().toString(),
+        adminId,
+        { status: ReviewStatus.APPROVED },
+      );
+
+      expect(moderated.status).toBe(ReviewStatus.APPROVED);
+      expect(productModel.updateOne).toHaveBeenCalledWith(
+        { _id: productId },
+        { $set: { rating: 4.7, reviewCount: 3 } },
+      );
+    });
+
+    it('should leave the rating alone when a pending review is rejected', async () => {
+      reviewModel.findById.mockResolvedValue(review());
+
+      await service.moderate(new Types.ObjectId().toString(), adminId, {
+        status: ReviewStatus.REJECTED,
+        note: 'Not about the product',
+      });
+
+      expect(productModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('respond', () => {
+    it("should not let a seller answer reviews of another seller's product", async () => {
+      reviewModel.findById.mockResolvedValue(
+        review({ status: ReviewStatus.APPROVED }),
+      );
+
+      await expect(
+        service.respond(
+          new Types.ObjectId().toString(),
+          new Types.ObjectId().toString(),
+          'user',
+          { message: 'Thanks!' },
+        ),
+      ).rejects.toThrow(
+        new ForbiddenException(REVIEW_ERROR_MESSAGES.NOT_YOUR_PRODUCT),
+      );
+    });
+
+    it('should keep the reply on a published review', async () => {
+      reviewModel.findById.mockResolvedValue(
+        review({ status: ReviewStatus.APPROVED }),
+      );
+
+      const answered = await service.respond(
+        new Types.ObjectId().toString(),
+        sellerId.toString(),
+        'user',
+        { message: 'Thanks!' },
+      );
+
+      expect(answered.sellerResponse).toMatchObject({
+        message: 'Thanks!',
+        respondedBy: sellerId,
+      });
+    });
+  });
+
+  describe('findForProduct', () => {
+    it('should list published reviews with the rating breakdown', async () => {
+      const published = [review({ status: ReviewStatus.APPROVED, rating: 2 })];
+      const query = {
+        sort: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        populate: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(published),
+      };
+      reviewModel.find.mockReturnValue(query);
+      reviewModel.countDocuments.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(1),
+      });
+      reviewModel.aggregate.mockResolvedValue([{ _id: 2, count: 1 }]);
+
+      const page = await service.findForProduct(productId.toString(), {
+        rating: 2,
+      });
+
+      expect(reviewModel.find).toHaveBeenCalledWith({
+        productId,
+        status: ReviewStatus.APPROVED,
+        rating: 2,
+      });
+      expect(page).toMatchObject({
+        total: 1,
+        summary: {
+          rating: 2,
+          reviewCount: 1,
+          distribution: { 1: 0, 2: 1, 3: 0, 4: 0, 5: 0 },
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { Types } from 'mongoose';
+import { ProductVariants } from '../helpers';
+
+describe('ProductVariants', () => {
+  const smallBagId = new Types.ObjectId();
+  const largeBagId = new Types.ObjectId();
+  const retiredBagId = new Types.ObjectId();
+
+  const variant = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(),
+    unitLabel: '5kg bag',
+    price: 6000,
+    priceInNibia: 600,
+    weight: 5,
+    stock: 10,
+    isActive: true,
+    ...overrides,
+  });
+
+  const rice = () => ({
+    price: 6000,
+    priceInNibia: 600,
+    weight: 5,
+    stock: 14,
+    variants: [
+      variant({ _id: smallBagId }),
+      variant({
+        _id: largeBagId,
+        unitLabel: '25kg bag',
+        price: 25000,
+        priceInNibia: 2500,
+        weight: 25,
+        stock: 4,
+      }),
+      variant({ _id: retiredBagId, isActive: false, stock: 0 }),
+    ],
+  });
+
+  const milk = {
+    price: 1000,
+    priceInNibia: 100,
+    weight: 1,
+    stock: 30,
+    variants: [],
+  };
+
+  describe('resolve', () => {
+    it('should sell the pack asked for', () => {
+      expect(ProductVariants.resolve(rice(), largeBagId)).toEqual({
+        variantId: largeBagId.toString(),
+        unitLabel: '25kg bag',
+        price: 25000,
+        priceInNibia: 2500,
+        weight: 25,
+        stock: 4,
+      });
+    });
+
+    it('should match a pack given as a string', () => {
+      expect(
+        ProductVariants.resolve(rice(), largeBagId.toString())?.stock,
+      ).toBe(4);
+    });
+
+    it('should sell a product without packs as it is', () => {
+      expect(ProductVariants.resolve(milk)).toEqual({
+        price: 1000,
+        priceInNibia: 100,
+        weight: 1,
+        stock: 30,
+      });
+    });
+
+    it('should not sell a product with packs without a pack', () => {
+      expect(ProductVariants.resolve(rice())).toBeNull();
+    });
+
+    it('should not sell a retired or unknown pack', () => {
+      expect(ProductVariants.resolve(rice(), retiredBagId)).toBeNull();
+      expect(ProductVariants.resolve(rice(), new Types.ObjectId())).toBeNull();
+    });
+
+    it('should not sell a pack of a product without packs', () => {
+      expect(ProductVariants.resolve(milk, smallBagId)).toBeNull();
+    });
+  });
+
+  describe('key', () => {
+    it('should tell packs of the same product apart', () => {
+      const productId = new Types.ObjectId();
+
+      expect(ProductVariants.key(productId, smallBagId)).not.toBe(
+        ProductVariants.key(productId, largeBagId),
+      );
+      expect(ProductVariants.key(productId, smallBagId)).toBe(
+        ProductVariants.key(productId.toString(), smallBagId.toString()),
+      );
+      expect(ProductVariants.key(productId)).toBe(productId.toString());
+    });
+  });
+
+  describe('summarize', () => {
+    it('should price the product at its cheapest pack on sale', () => {
+      const summary = ProductVariants.summarize([
+        variant({ price: 25000, priceInNibia: 2500, weight: 25, stock: 4 }),
+        variant({ price: 6000, priceInNibia: 600, weight: 5, stock: 10 }),
+        variant({ price: 500, weight: 0.5, stock: 0, isActive: false }),
+      ]);
+
+      expect(summary).toEqual({
+        price: 6000,
+        priceInNibia: 600,
+        weight: 5,
+        stock: 14,
+      });
+    });
+
+    it('should fall back to the cheapest pack when none is on sale', () => {
+      const summary = ProductVariants.summarize([
+        variant({ price: 25000, isActive: false }),
+        variant({ price: 6000, isActive: false }),
+      ]);
+
+      expect(summary.price).toBe(6000);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ProductsService } from '../products.service';
+import { Product } from '../entities/product.entity';
+import { PriceLock } from '../entities/price-lock.entity';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { CategoriesService } from '../services/categories.service';
+import { PriceScheduleService } from '../services/price-schedule.service';
+import { InventoryService } from '../services/inventory.service';
+import { InventoryMovementType } from '../entities/inventory-movement.entity';
+import { PRODUCT_ERROR_MESSAGES } from '../constants';
+
+describe('ProductsService', () => {
+  let service: ProductsService;
+  let productModel: any;
+  let inventoryService: any;
+  let updated: any;
+
+  const productId = new Types.ObjectId();
+  const smallBagId = new Types.ObjectId();
+  const largeBagId = new Types.ObjectId();
+
+  const product = (overrides: Record<string, unknown> = {}) => ({
+    _id: productId,
+    name: 'Ofada Rice',
+    stock: 14,
+    variants: [
+      { _id: smallBagId, unitLabel: '5kg bag', stock: 10 },
+      { _id: largeBagId, unitLabel: '25kg bag', stock: 4 },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    updated = product();
+    productModel = {
+      findById: jest.fn().mockResolvedValue(product()),
+      findOneAndUpdate: jest.fn(() => ({
+        populate: jest.fn(() => ({
+          exec: jest.fn(() => Promise.resolve(updated)),
+        })),
+      })),
+    };
+    inventoryService = { record: jest.fn().mockResolvedValue(null) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductsService,
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: getModelToken(PriceLock.name), useValue: {} },
+        { provide: NotificationsService, useValue: {} },
+        { provide: CategoriesService, useValue: {} },
+        { provide: PriceScheduleService, useValue: {} },
+        { provide: InventoryService, useValue: inventoryService },
+      ],
+    }).compile();
+
+    service = module.get<ProductsService>(ProductsService);
+  });
+
+  describe('updateStock', () => {
+    it('should take stock from the pack only if the pack has enough', async () => {
+      await service.updateStock(
+        productId.toString(),
+        3,
+        'subtract',
+        undefined,
+        'admin',
+        largeBagId.toString(),
+        { type: InventoryMovementType.ADJUSTMENT },
+      );
+
+      expect(productModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: productId,
+          variants: {
+            $elemMatch: { _id: largeBagId, stock: { $gte: 3 } },
+          },
+        },
+        { $inc: { 'variants.$.stock': -3, stock: -3 } },
+        { new: true },
+      );
+      expect(inventoryService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          productId: productId.toString(),
+          variantId: largeBagId.toString(),
+          quantity: -3,
+        }),
+      );
+    });
+
+    it('should add stock to the pack and the product together', async () => {
+      await service.updateStock(
+        productId.toString(),
+        5,
+        'add',
+        undefined,
+        'admin',
+        smallBagId.toString(),
+      );
+
+      expect(productModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: productId,
+          variants: {
+            $elemMatch: { _id: smallBagId, stock: { $gte: 0 } },
+          },
+        },
+        { $inc: { 'variants.$.stock': 5, stock: 5 } },
+        { new: true },
+      );
+    });
+
+    it('should refuse to take more than the pack holds', async () => {
+      updated = null;
+
+      await expect(
+        service.updateStock(
+          productId.toString(),
+          5,
+          'subtract',
+          undefined,
+          'admin',
+          largeBagId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(inventoryService.record).not.toHaveBeenCalled();
+    });
+
+    it('should need the pack for a product sold in packs', async () => {
+      await expect(
+        service.updateStock(productId.toString(), 1, 'add'),
+      ).rejects.toThrow(PRODUCT_ERROR_MESSAGES.VARIANT_REQUIRED);
+      expect(productModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a pack the product is not sold in', async () => {
+      await expect(
+        service.updateStock(
+          productId.toString(),
+          1,
+          'add',
+          undefined,
+          'admin',
+          new Types.ObjectId().toString(),
+        ),
+      ).rejects.toThrow(PRODUCT_ERROR_MESSAGES.VARIANT_NOT_FOUND);
+      expect(productModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -6,6 +6,11 @@ import { ProfitPool, ProfitPoolDocument, ProfitPoolStatus } from '../entities/pr
 import { User, UserDocument, UserRole } from '../../users/entities/user.entity';
 import { WalletsService } from '../../wallets/wallets.service';
 import { TransactionType, WalletType } from '../../wallets/dto/update-balance.dto';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../../wallets/entities/wallet-ledger-entry.entity';
 import { RevenueCalculationService } from './revenue-calculation.service';
 import { PROFIT_POOL_CONSTANTS } from '../constants/profit-pool.constants';
 import {
@@ -210,6 +215,15 @@ export class ProfitPoolService {
               walletType: WalletType.FOOD_POINTS, // Nibia is stored in foodPoints
               transactionType: TransactionType.CREDIT,
               description: `Profit pool distribution for ${pool.city} - ${pool.month}`,
+              reference: transactionRef,
+            },
+            {
+              transactionType: LedgerTransactionType.PROFIT_POOL,
+              counterAccount: LedgerAccount.SYSTEM_REWARDS,
+              reference: {
+                type: LedgerReferenceType.PROFIT_POOL,
+                id: pool._id.toString(),
+              },
             }
           );
 
@@ -0,0 +1,42 @@
+export enum PromotionType {
+  PERCENTAGE = 'percentage', // value is percent off eligible items
+  FIXED_AMOUNT = 'fixed_amount', // value is NGN off eligible items
+  FREE_DELIVERY = 'free_delivery',
+  BUY_X_GET_Y = 'buy_x_get_y', // cheapest getQuantity of every buyQuantity + getQuantity units free
+}
+
+export enum RedemptionStatus {
+  REDEEMED = 'redeemed',
+  RELEASED = 'released', // Order cancelled; the use no longer counts towards caps
+}
+
+export const PROMOTION_CONSTANTS = {
+  CODE_PATTERN: /^[A-Z0-9_-]{3,32}$/,
+  MAX_PERCENTAGE: 100,
+} as const;
+
+export const PROMOTION_ERROR_MESSAGES = {
+  NOT_FOUND: 'Promo code not found',
+  CODE_EXISTS: 'A campaign with this code already exists',
+  INVALID_CODE:
+    'Promo codes must be 3-32 letters, digits, dashes or underscores',
+  INACTIVE: 'This promo code is no longer active',
+  NOT_STARTED: 'This promo code is not valid yet',
+  EXPIRED: 'This promo code has expired',
+  USAGE_LIMIT_REACHED: 'This promo code has reached its usage limit',
+  USER_LIMIT_REACHED:
+    'You have already used this promo code the maximum number of times',
+  FIRST_ORDER_ONLY: 'This promo code is only valid on your first order',
+  CITY_NOT_ELIGIBLE: 'This promo code is not valid in your city',
+  CITY_REQUIRED: 'Add your city or a delivery address to use this promo code',
+  MIN_ORDER_NOT_MET:
+    'Order does not meet the minimum amount for this promo code',
+  NO_ELIGIBLE_ITEMS: 'No items in your cart qualify for this promo code',
+  BUY_X_GET_Y_NOT_MET: 'Add more qualifying items to get the free ones',
+  NO_DELIVERY_FEE: 'This promo code only applies to home delivery',
+  INVALID_WINDOW: 'Campaign end date must be after its start date',
+  INVALID_BUY_X_GET_Y: 'Buy X get Y campaigns need buyQuantity and getQuantity',
+  INVALID_PERCENTAGE: 'Percentage campaigns cannot exceed 100%',
+  INVALID_VALUE:
+    'Percentage and fixed-amount campaigns need a value above zero',
+} as const;
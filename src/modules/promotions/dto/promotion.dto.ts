@@ -0,0 +1,207 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsDateString,
+  Min,
+  Max,
+  Matches,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import {
+  PromotionType,
+  PROMOTION_CONSTANTS,
+  PROMOTION_ERROR_MESSAGES,
+} from '../constants/promotion.constants';
+import { ProductCategory } from '../../products/entities/product.entity';
+
+const toUpperCode = ({ value }) =>
+  typeof value === 'string' ? value.trim().toUpperCase() : value;
+
+export class CreatePromotionDto {
+  @ApiProperty({ description: 'Code customers enter', example: 'WELCOME10' })
+  @Transform(toUpperCode)
+  @Matches(PROMOTION_CONSTANTS.CODE_PATTERN, {
+    message: PROMOTION_ERROR_MESSAGES.INVALID_CODE,
+  })
+  code: string;
+
+  @ApiProperty({ description: 'Campaign name', example: 'Welcome 10% off' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Campaign description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ description: 'Discount type', enum: PromotionType })
+  @IsEnum(PromotionType)
+  type: PromotionType;
+
+  @ApiPropertyOptional({
+    description: 'Percent off, or NGN off for fixed-amount campaigns',
+    example: 10,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  value?: number;
+
+  @ApiPropertyOptional({
+    description: 'Largest discount in NGN a single order can get',
+    example: 2000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDiscount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Lowest cart subtotal in NGN the code applies to',
+    example: 5000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minOrderAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Units to buy for buy-X-get-Y campaigns',
+    example: 2,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  buyQuantity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Units given free for buy-X-get-Y campaigns',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  getQuantity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only items in these categories qualify',
+    enum: ProductCategory,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(ProductCategory, { each: true })
+  categories?: ProductCategory[];
+
+  @ApiPropertyOptional({
+    description: 'Only items with one of these tags qualify',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Cities the code is valid in',
+    type: [String],
+    example: ['Lagos'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  cities?: string[];
+
+  @ApiPropertyOptional({
+    description: "Only valid on a customer's first order",
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  firstOrderOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Total redemptions allowed across all customers',
+    example: 1000,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Redemptions allowed per customer',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  perUserLimit?: number;
+
+  @ApiPropertyOptional({ description: 'Start of the validity window' })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional({ description: 'End of the validity window' })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the code can be used',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdatePromotionDto extends PartialType(CreatePromotionDto) {}
+
+export class PromotionFilterDto {
+  @ApiPropertyOptional({
+    description: 'Filter by discount type',
+    enum: PromotionType,
+  })
+  @IsOptional()
+  @IsEnum(PromotionType)
+  type?: PromotionType;
+
+  @ApiPropertyOptional({ description: 'Filter by active status' })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  isActive?: boolean;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 20 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number = 20;
+}
+
+export class ApplyPromoCodeDto {
+  @ApiProperty({ description: 'Promo code', example: 'WELCOME10' })
+  @Transform(toUpperCode)
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
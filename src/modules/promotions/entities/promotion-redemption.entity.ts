@@ -0,0 +1,52 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { RedemptionStatus } from '../constants/promotion.constants';
+
+export type PromotionRedemptionDocument = PromotionRedemption & Document;
+
+@Schema({ timestamps: true })
+export class PromotionRedemption {
+  @ApiProperty({ description: 'Campaign redeemed' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Promotion' })
+  promotionId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Code as entered' })
+  @Prop({ required: true, type: String })
+  code: string;
+
+  @ApiProperty({ description: 'Customer who redeemed the code' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Order the code was redeemed on' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Order' })
+  orderId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Total discount given in NGN, items and delivery',
+  })
+  @Prop({ required: true, type: Number, min: 0 })
+  discountAmount: number;
+
+  @ApiProperty({ description: 'Redemption status', enum: RedemptionStatus })
+  @Prop({
+    required: true,
+    enum: Object.values(RedemptionStatus),
+    default: RedemptionStatus.REDEEMED,
+  })
+  status: RedemptionStatus;
+
+  @ApiProperty({ description: 'When the redemption was released' })
+  @Prop({ required: false, type: Date })
+  releasedAt?: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const PromotionRedemptionSchema =
+  SchemaFactory.createForClass(PromotionRedemption);
+
+PromotionRedemptionSchema.index({ orderId: 1 }, { unique: true });
+PromotionRedemptionSchema.index({ promotionId: 1, userId: 1, status: 1 });
@@ -0,0 +1,34 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type PromotionUsageDocument = PromotionUsage & Document;
+
+/**
+ * How many times one customer has redeemed one campaign, kept so the
+ * per-customer limit can be checked and counted in a single update
+ */
+@Schema({ timestamps: true })
+export class PromotionUsage {
+  @ApiProperty({ description: 'Campaign redeemed' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Promotion' })
+  promotionId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Customer who redeemed the code' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Redemptions by the customer, excluding cancelled orders',
+  })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  uses: number;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const PromotionUsageSchema =
+  SchemaFactory.createForClass(PromotionUsage);
+
+PromotionUsageSchema.index({ promotionId: 1, userId: 1 }, { unique: true });
@@ -0,0 +1,172 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  Min,
+} from 'class-validator';
+import { PromotionType } from '../constants/promotion.constants';
+import { ProductCategory } from '../../products/entities/product.entity';
+
+export type PromotionDocument = Promotion & Document;
+
+@Schema({ timestamps: true })
+export class Promotion {
+  @ApiProperty({
+    description: 'Code customers enter (stored uppercase)',
+    example: 'WELCOME10',
+  })
+  @Prop({ required: true, type: String, uppercase: true, trim: true })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @ApiProperty({ description: 'Campaign name', example: 'Welcome 10% off' })
+  @Prop({ required: true, type: String, trim: true })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ description: 'Campaign description' })
+  @Prop({ required: false, type: String })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ description: 'Discount type', enum: PromotionType })
+  @Prop({ required: true, enum: Object.values(PromotionType) })
+  @IsEnum(PromotionType)
+  type: PromotionType;
+
+  @ApiProperty({
+    description:
+      'Percent off for percentage campaigns, NGN off for fixed-amount campaigns',
+  })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  @IsNumber()
+  @Min(0)
+  value: number;
+
+  @ApiProperty({
+    description: 'Largest discount in NGN a single order can get',
+  })
+  @Prop({ required: false, type: Number, min: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDiscount?: number;
+
+  @ApiProperty({
+    description: 'Lowest cart subtotal in NGN the code applies to',
+  })
+  @Prop({ required: false, type: Number, min: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minOrderAmount?: number;
+
+  @ApiProperty({ description: 'Units to buy for buy-X-get-Y campaigns' })
+  @Prop({ required: false, type: Number, min: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  buyQuantity?: number;
+
+  @ApiProperty({ description: 'Units given free for buy-X-get-Y campaigns' })
+  @Prop({ required: false, type: Number, min: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  getQuantity?: number;
+
+  @ApiProperty({
+    description:
+      'Only items in these categories qualify. Empty means every category',
+    enum: ProductCategory,
+    isArray: true,
+  })
+  @Prop({ type: [String], enum: Object.values(ProductCategory), default: [] })
+  @IsArray()
+  categories: ProductCategory[];
+
+  @ApiProperty({
+    description:
+      'Only items with one of these tags qualify. Empty means any tags',
+    type: [String],
+  })
+  @Prop({ type: [String], default: [] })
+  @IsArray()
+  tags: string[];
+
+  @ApiProperty({
+    description:
+      'Cities the code is valid in (stored lowercase). Empty means everywhere',
+    type: [String],
+  })
+  @Prop({ type: [String], lowercase: true, default: [] })
+  @IsArray()
+  cities: string[];
+
+  @ApiProperty({ description: "Only valid on a customer's first order" })
+  @Prop({ required: true, type: Boolean, default: false })
+  @IsBoolean()
+  firstOrderOnly: boolean;
+
+  @ApiProperty({
+    description: 'Total redemptions allowed across all customers',
+  })
+  @Prop({ required: false, type: Number, min: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  usageLimit?: number;
+
+  @ApiProperty({ description: 'Redemptions allowed per customer' })
+  @Prop({ required: false, type: Number, min: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  perUserLimit?: number;
+
+  @ApiProperty({
+    description: 'Redemptions so far, excluding cancelled orders',
+  })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  @IsNumber()
+  @Min(0)
+  usageCount: number;
+
+  @ApiProperty({ description: 'Start of the validity window' })
+  @Prop({ required: false, type: Date })
+  @IsOptional()
+  startsAt?: Date;
+
+  @ApiProperty({ description: 'End of the validity window' })
+  @Prop({ required: false, type: Date })
+  @IsOptional()
+  endsAt?: Date;
+
+  @ApiProperty({ description: 'Whether the code can be used' })
+  @Prop({ required: true, type: Boolean, default: true })
+  @IsBoolean()
+  isActive: boolean;
+
+  @ApiProperty({ description: 'Admin who created the campaign' })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'User' })
+  @IsOptional()
+  createdBy?: Types.ObjectId;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const PromotionSchema = SchemaFactory.createForClass(Promotion);
+
+PromotionSchema.index({ code: 1 }, { unique: true });
+PromotionSchema.index({ isActive: 1, endsAt: 1 });
@@ -0,0 +1,7 @@
+export * from './promotions.module';
+export * from './promotions.service';
+export * from './entities/promotion.entity';
+export * from './entities/promotion-redemption.entity';
+export * from './entities/promotion-usage.entity';
+export * from './interfaces/promotion.interface';
+export * from './constants/promotion.constants';
@@ -0,0 +1,42 @@
+import { PromotionType } from '../constants/promotion.constants';
+
+export interface PromotionCartItem {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface PromotionEvaluationRequest {
+  code: string;
+  userId: string;
+  items: PromotionCartItem[];
+  /** Required by, and checked against, campaigns limited to some cities */
+  city?: string;
+  /** Delivery fee in NGN before any discount; free-delivery codes waive it */
+  deliveryFee?: number;
+  at?: Date;
+  /**
+   * Re-pricing an order that already redeemed the code. Only the city and
+   * the pricing rules are checked; the order's own use is not counted again
+   */
+  orderId?: string;
+}
+
+export interface PromotionItemDiscount {
+  productId: string;
+  discountAmount: number;
+}
+
+export interface PromotionEvaluation {
+  promotionId: string;
+  code: string;
+  type: PromotionType;
+  /** Discount on items in NGN */
+  itemDiscount: number;
+  /** Discount on the delivery fee in NGN */
+  deliveryDiscount: number;
+  /** itemDiscount + deliveryDiscount */
+  discountAmount: number;
+  /** How itemDiscount is spread over the items, used to pro-rate refunds */
+  itemDiscounts: PromotionItemDiscount[];
+}
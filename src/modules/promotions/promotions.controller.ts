@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { PromotionsService } from './promotions.service';
+import {
+  CreatePromotionDto,
+  UpdatePromotionDto,
+  PromotionFilterDto,
+} from './dto/promotion.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators';
+import { UserRole } from '../users/entities/user.entity';
+
+@ApiTags('promotions')
+@Controller('promotions')
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class PromotionsController {
+  constructor(private readonly promotionsService: PromotionsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a promo code campaign' })
+  @ApiResponse({ status: 201, description: 'Campaign created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid campaign' })
+  @ApiResponse({ status: 409, description: 'Code already in use' })
+  create(
+    @CurrentUser('id') adminId: string,
+    @Body() createPromotionDto: CreatePromotionDto,
+  ) {
+    return this.promotionsService.create(createPromotionDto, adminId);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List promo code campaigns' })
+  @ApiResponse({ status: 200, description: 'Campaigns retrieved successfully' })
+  findAll(@Query() filterDto: PromotionFilterDto) {
+    return this.promotionsService.findAll(filterDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a promo code campaign' })
+  @ApiResponse({ status: 200, description: 'Campaign retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Campaign not found' })
+  findOne(@Param('id') id: string) {
+    return this.promotionsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a promo code campaign' })
+  @ApiResponse({ status: 200, description: 'Campaign updated successfully' })
+  @ApiResponse({ status: 404, description: 'Campaign not found' })
+  update(
+    @Param('id') id: string,
+    @Body() updatePromotionDto: UpdatePromotionDto,
+  ) {
+    return this.promotionsService.update(id, updatePromotionDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Deactivate a promo code campaign' })
+  @ApiResponse({ status: 200, description: 'Campaign deactivated' })
+  @ApiResponse({ status: 404, description: 'Campaign not found' })
+  deactivate(@Param('id') id: string) {
+    return this.promotionsService.deactivate(id);
+  }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PromotionsController } from './promotions.controller';
+import { PromotionsService } from './promotions.service';
+import { Promotion, PromotionSchema } from './entities/promotion.entity';
+import {
+  PromotionRedemption,
+  PromotionRedemptionSchema,
+} from './entities/promotion-redemption.entity';
+import {
+  PromotionUsage,
+  PromotionUsageSchema,
+} from './entities/promotion-usage.entity';
+import { Product, ProductSchema } from '../products/entities/product.entity';
+import { Order, OrderSchema } from '../orders/entities/order.entity';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Promotion.name, schema: PromotionSchema },
+      { name: PromotionRedemption.name, schema: PromotionRedemptionSchema },
+      { name: PromotionUsage.name, schema: PromotionUsageSchema },
+      { name: Product.name, schema: ProductSchema },
+      { name: Order.name, schema: OrderSchema },
+    ]),
+  ],
+  controllers: [PromotionsController],
+  providers: [PromotionsService],
+  exports: [PromotionsService],
+})
+export class PromotionsModule {}
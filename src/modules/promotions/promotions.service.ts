@@ -0,0 +1,588 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Promotion, PromotionDocument } from './entities/promotion.entity';
+import {
+  PromotionRedemption,
+  PromotionRedemptionDocument,
+} from './entities/promotion-redemption.entity';
+import {
+  PromotionUsage,
+  PromotionUsageDocument,
+} from './entities/promotion-usage.entity';
+import { Product, ProductDocument } from '../products/entities/product.entity';
+import {
+  Order,
+  OrderDocument,
+  OrderStatus,
+} from '../orders/entities/order.entity';
+import {
+  CreatePromotionDto,
+  UpdatePromotionDto,
+  PromotionFilterDto,
+} from './dto/promotion.dto';
+import {
+  PromotionCartItem,
+  PromotionEvaluation,
+  PromotionEvaluationRequest,
+  PromotionItemDiscount,
+} from './interfaces/promotion.interface';
+import {
+  PromotionType,
+  RedemptionStatus,
+  PROMOTION_CONSTANTS,
+  PROMOTION_ERROR_MESSAGES,
+} from './constants/promotion.constants';
+
+type CampaignRules = Pick<
+  Promotion,
+  'type' | 'value' | 'buyQuantity' | 'getQuantity' | 'startsAt' | 'endsAt'
+>;
+
+@Injectable()
+export class PromotionsService {
+  private readonly logger = new Logger(PromotionsService.name);
+
+  constructor(
+    @InjectModel(Promotion.name)
+    private promotionModel: Model<PromotionDocument>,
+    @InjectModel(PromotionRedemption.name)
+    private redemptionModel: Model<PromotionRedemptionDocument>,
+    @InjectModel(PromotionUsage.name)
+    private usageModel: Model<PromotionUsageDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+  ) {}
+
+  async create(
+    createPromotionDto: CreatePromotionDto,
+    adminId: string,
+  ): Promise<Promotion> {
+    this.validateCampaign(createPromotionDto as unknown as CampaignRules);
+
+    const existing = await this.promotionModel.exists({
+      code: createPromotionDto.code,
+    });
+    if (existing) {
+      throw new ConflictException(PROMOTION_ERROR_MESSAGES.CODE_EXISTS);
+    }
+
+    const promotion = await this.promotionModel.create({
+      ...createPromotionDto,
+      createdBy: new Types.ObjectId(adminId),
+    });
+
+    this.logger.log(`Promotion ${promotion.code} created by ${adminId}`);
+    return promotion;
+  }
+
+  async findAll(filterDto: PromotionFilterDto): Promise<{
+    promotions: Promotion[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const { type, isActive, page = 1, limit = 20 } = filterDto;
+
+    const query: any = {};
+    if (type) query.type = type;
+    if (isActive !== undefined) query.isActive = isActive;
+
+    const [promotions, total] = await Promise.all([
+      this.promotionModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      this.promotionModel.countDocuments(query),
+    ]);
+
+    return {
+      promotions,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(id: string): Promise<PromotionDocument> {
+    const promotion = Types.ObjectId.isValid(id)
+      ? await this.promotionModel.findById(id)
+      : null;
+    if (!promotion) {
+      throw new NotFoundException(PROMOTION_ERROR_MESSAGES.NOT_FOUND);
+    }
+    return promotion;
+  }
+
+  async update(
+    id: string,
+    updatePromotionDto: UpdatePromotionDto,
+  ): Promise<Promotion> {
+    const promotion = await this.findOne(id);
+
+    if (updatePromotionDto.code && updatePromotionDto.code !== promotion.code) {
+      const existing = await this.promotionModel.exists({
+        code: updatePromotionDto.code,
+      });
+      if (existing) {
+        throw new ConflictException(PROMOTION_ERROR_MESSAGES.CODE_EXISTS);
+      }
+    }
+
+    promotion.set(updatePromotionDto);
+    this.validateCampaign(promotion);
+    return promotion.save();
+  }
+
+  /**
+   * Campaigns are deactivated rather than deleted so past orders keep their history
+   */
+  async deactivate(id: string): Promise<Promotion> {
+    const promotion = await this.findOne(id);
+    promotion.isActive = false;
+    return promotion.save();
+  }
+
+  /**
+   * Check a code against the cart and work out its discount. Throws if the
+   * code cannot be used.
+   */
+  async evaluate(
+    request: PromotionEvaluationRequest,
+  ): Promise<PromotionEvaluation> {
+    const promotion = await this.promotionModel
+      .findOne({ code: this.normalizeCode(request.code) })
+      .lean<Promotion & { _id: Types.ObjectId }>();
+    if (!promotion) {
+      throw new NotFoundException(PROMOTION_ERROR_MESSAGES.NOT_FOUND);
+    }
+
+    if (request.orderId) {
+      this.assertCityEligible(promotion, request);
+    } else {
+      await this.assertRedeemable(promotion, request);
+    }
+
+    const subtotal = request.items.reduce(
+      (sum, item) => sum + item.unitPrice * item.quantity,
+      0,
+    );
+    if (promotion.minOrderAmount && subtotal < promotion.minOrderAmount) {
+      throw new BadRequestException(PROMOTION_ERROR_MESSAGES.MIN_ORDER_NOT_MET);
+    }
+
+    let itemDiscounts: PromotionItemDiscount[] = [];
+    let deliveryDiscount = 0;
+
+    if (promotion.type === PromotionType.FREE_DELIVERY) {
+      // The fee is unknown until checkout; the code is re-evaluated there
+      if (request.deliveryFee === 0) {
+        throw new BadRequestException(PROMOTION_ERROR_MESSAGES.NO_DELIVERY_FEE);
+      }
+      deliveryDiscount = this.capDiscount(
+        request.deliveryFee || 0,
+        promotion.maxDiscount,
+      );
+    } else {
+      const eligibleItems = await this.getEligibleItems(
+        promotion,
+        request.items,
+      );
+      if (eligibleItems.length === 0) {
+        throw new BadRequestException(
+          PROMOTION_ERROR_MESSAGES.NO_ELIGIBLE_ITEMS,
+        );
+      }
+      itemDiscounts = this.calculateItemDiscounts(promotion, eligibleItems);
+    }
+
+    const itemDiscount = this.round(
+      itemDiscounts.reduce((sum, item) => sum + item.discountAmount, 0),
+    );
+
+    return {
+      promotionId: promotion._id.toString(),
+      code: promotion.code,
+      type: promotion.type,
+      itemDiscount,
+      deliveryDiscount: this.round(deliveryDiscount),
+      discountAmount: this.round(itemDiscount + deliveryDiscount),
+      itemDiscounts,
+    };
+  }
+
+  /**
+   * Count a use of the code against an order. The global and per-customer
+   * caps are enforced atomically so concurrent checkouts cannot overshoot
+   * them.
+   */
+  async redeem(
+    evaluation: PromotionEvaluation,
+    userId: string,
+    orderId: string,
+  ): Promise<void> {
+    const promotionId = new Types.ObjectId(evaluation.promotionId);
+    const promotion = await this.promotionModel.findOneAndUpdate(
+      {
+        _id: promotionId,
+        isActive: true,
+        $or: [
+          { usageLimit: null },
+          { $expr: { $lt: ['$usageCount', '$usageLimit'] } },
+        ],
+      },
+      { $inc: { usageCount: 1 } },
+      { new: true },
+    );
+    if (!promotion) {
+      throw new BadRequestException(
+        PROMOTION_ERROR_MESSAGES.USAGE_LIMIT_REACHED,
+      );
+    }
+
+    const customerId = new Types.ObjectId(userId);
+    let userCounted = false;
+    try {
+      if (promotion.perUserLimit) {
+        await this.countUserRedemption(
+          promotionId,
+          customerId,
+          promotion.perUserLimit,
+        );
+        userCounted = true;
+      }
+
+      await this.redemptionModel.create({
+        promotionId: promotion._id,
+        code: promotion.code,
+        userId: customerId,
+        orderId: new Types.ObjectId(orderId),
+        discountAmount: evaluation.discountAmount,
+        status: RedemptionStatus.REDEEMED,
+      });
+    } catch (error) {
+      await this.promotionModel.updateOne(
+        { _id: promotion._id },
+        { $inc: { usageCount: -1 } },
+      );
+      if (userCounted) {
+        await this.uncountUserRedemption(promotionId, customerId);
+      }
+      throw error;
+    }
+
+    this.logger.log(`Promotion ${promotion.code} redeemed on order ${orderId}`);
+  }
+
+  /**
+   * Give a use back when its order is cancelled or never created
+   */
+  async releaseRedemption(orderId: string): Promise<boolean> {
+    const redemption = await this.redemptionModel.findOneAndUpdate(
+      {
+        orderId: new Types.ObjectId(orderId),
+        status: RedemptionStatus.REDEEMED,
+      },
+      { status: RedemptionStatus.RELEASED, releasedAt: new Date() },
+      { new: true },
+    );
+    if (!redemption) {
+      return false;
+    }
+
+    await this.promotionModel.updateOne(
+      { _id: redemption.promotionId, usageCount: { $gt: 0 } },
+      { $inc: { usageCount: -1 } },
+    );
+    await this.uncountUserRedemption(redemption.promotionId, redemption.userId);
+
+    this.logger.log(
+      `Promotion ${redemption.code} released from order ${orderId}`,
+    );
+    return true;
+  }
+
+  private async assertRedeemable(
+    promotion: Promotion & { _id: Types.ObjectId },
+    request: PromotionEvaluationRequest,
+  ): Promise<void> {
+    const at = request.at || new Date();
+
+    if (!promotion.isActive) {
+      throw new BadRequestException(PROMOTION_ERROR_MESSAGES.INACTIVE);
+    }
+    if (promotion.startsAt && promotion.startsAt > at) {
+      throw new BadRequestException(PROMOTION_ERROR_MESSAGES.NOT_STARTED);
+    }
+    if (promotion.endsAt && promotion.endsAt <= at) {
+      throw new BadRequestException(PROMOTION_ERROR_MESSAGES.EXPIRED);
+    }
+    if (promotion.usageLimit && promotion.usageCount >= promotion.usageLimit) {
+      throw new BadRequestException(
+        PROMOTION_ERROR_MESSAGES.USAGE_LIMIT_REACHED,
+      );
+    }
+    this.assertCityEligible(promotion, request);
+
+    const userId = new Types.ObjectId(request.userId);
+
+    if (promotion.perUserLimit) {
+      const usage = await this.usageModel
+        .findOne({ promotionId: promotion._id, userId })
+        .lean();
+      if ((usage?.uses ?? 0) >= promotion.perUserLimit) {
+        throw new BadRequestException(
+          PROMOTION_ERROR_MESSAGES.USER_LIMIT_REACHED,
+        );
+      }
+    }
+
+    if (promotion.firstOrderOnly) {
+      const previousOrder = await this.orderModel.exists({
+        userId,
+        status: { $ne: OrderStatus.CANCELLED },
+      });
+      if (previousOrder) {
+        throw new BadRequestException(
+          PROMOTION_ERROR_MESSAGES.FIRST_ORDER_ONLY,
+        );
+      }
+    }
+  }
+
+  private assertCityEligible(
+    promotion: Promotion,
+    request: PromotionEvaluationRequest,
+  ): void {
+    if (!promotion.cities?.length) {
+      return;
+    }
+    if (!request.city) {
+      throw new BadRequestException(PROMOTION_ERROR_MESSAGES.CITY_REQUIRED);
+    }
+    if (!promotion.cities.includes(request.city.trim().toLowerCase())) {
+      throw new BadRequestException(PROMOTION_ERROR_MESSAGES.CITY_NOT_ELIGIBLE);
+    }
+  }
+
+  /**
+   * Count a redemption against the customer's limit. A customer at the limit
+   * fails the filter, so the upsert hits the unique index instead
+   */
+  private async countUserRedemption(
+    promotionId: Types.ObjectId,
+    userId: Types.ObjectId,
+    perUserLimit: number,
+  ): Promise<void> {
+    try {
+      await this.usageModel.findOneAndUpdate(
+        { promotionId, userId, uses: { $lt: perUserLimit } },
+        { $inc: { uses: 1 } },
+        { upsert: true, new: true },
+      );
+    } catch (error) {
+      if (error.code === 11000) {
+        throw new BadRequestException(
+          PROMOTION_ERROR_MESSAGES.USER_LIMIT_REACHED,
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async uncountUserRedemption(
+    promotionId: Types.ObjectId,
+    userId: Types.ObjectId,
+  ): Promise<void> {
+    await this.usageModel.updateOne(
+      { promotionId, userId, uses: { $gt: 0 } },
+      { $inc: { uses: -1 } },
+    );
+  }
+
+  private async getEligibleItems(
+    promotion: Promotion,
+    items: PromotionCartItem[],
+  ): Promise<PromotionCartItem[]> {
+    if (!promotion.categories?.length && !promotion.tags?.length) {
+      return items;
+    }
+
+    const products = await this.productModel
+      .find({
+        _id: { $in: items.map((item) => new Types.ObjectId(item.productId)) },
+      })
+      .select('category tags')
+      .lean();
+    const productsById = new Map(
+      products.map((product) => [product._id.toString(), product]),
+    );
+    const campaignTags = (promotion.tags || []).map((tag) => tag.toLowerCase());
+
+    return items.filter((item) => {
+      const product = productsById.get(item.productId.toString());
+      if (!product) {
+        return false;
+      }
+      const inCategory =
+        !promotion.categories?.length ||
+        promotion.categories.includes(product.category);
+      const hasTag =
+        !campaignTags.length ||
+        (product.tags || []).some((tag) =>
+          campaignTags.includes(tag.toLowerCase()),
+        );
+      return inCategory && hasTag;
+    });
+  }
+
+  private calculateItemDiscounts(
+    promotion: Promotion,
+    items: PromotionCartItem[],
+  ): PromotionItemDiscount[] {
+    const eligibleSubtotal = items.reduce(
+      (sum, item) => sum + item.unitPrice * item.quantity,
+      0,
+    );
+
+    switch (promotion.type) {
+      case PromotionType.PERCENTAGE:
+        return this.allocate(
+          this.capDiscount(
+            (eligibleSubtotal * promotion.value) / 100,
+            promotion.maxDiscount,
+          ),
+          items,
+        );
+
+      case PromotionType.FIXED_AMOUNT:
+        return this.allocate(
+          this.capDiscount(
+            Math.min(promotion.value, eligibleSubtotal),
+            promotion.maxDiscount,
+          ),
+          items,
+        );
+
+      case PromotionType.BUY_X_GET_Y: {
+        // The cheapest units in the cart are the free ones
+        const groupSize = promotion.buyQuantity + promotion.getQuantity;
+        const units = items
+          .flatMap((item) => Array.from({ length: item.quantity }, () => item))
+          .sort((a, b) => b.unitPrice - a.unitPrice);
+        const freeUnits =
+          Math.floor(units.length / groupSize) * promotion.getQuantity;
+        if (freeUnits === 0) {
+          throw new BadRequestException(
+            PROMOTION_ERROR_MESSAGES.BUY_X_GET_Y_NOT_MET,
+          );
+        }
+
+        const freeValueByItem = new Map<PromotionCartItem, number>();
+        for (const unit of units.slice(units.length - freeUnits)) {
+          freeValueByItem.set(
+            unit,
+            (freeValueByItem.get(unit) || 0) + unit.unitPrice,
+          );
+        }
+        const freeItems = [...freeValueByItem.keys()];
+        const freeValue = [...freeValueByItem.values()].reduce(
+          (sum, value) => sum + value,
+          0,
+        );
+
+        return this.allocate(
+          this.capDiscount(freeValue, promotion.maxDiscount),
+          freeItems,
+          (item) => freeValueByItem.get(item),
+        );
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Spread a discount over items in proportion to their value, putting any
+   * rounding remainder on the last item so the parts add up exactly
+   */
+  private allocate(
+    total: number,
+    items: PromotionCartItem[],
+    weightOf: (item: PromotionCartItem) => number = (item) =>
+      item.unitPrice * item.quantity,
+  ): PromotionItemDiscount[] {
+    const roundedTotal = this.round(total);
+    const totalWeight = items.reduce((sum, item) => sum + weightOf(item), 0);
+    if (roundedTotal <= 0 || totalWeight <= 0) {
+      return [];
+    }
+
+    let allocated = 0;
+    return items.map((item, index) => {
+      const discountAmount =
+        index === items.length - 1
+          ? this.round(roundedTotal - allocated)
+          : this.round((roundedTotal * weightOf(item)) / totalWeight);
+      allocated += discountAmount;
+      return { productId: item.productId.toString(), discountAmount };
+    });
+  }
+
+  private validateCampaign(campaign: CampaignRules): void {
+    if (
+      campaign.startsAt &&
+      campaign.endsAt &&
+      new Date(campaign.endsAt) <= new Date(campaign.startsAt)
+    ) {
+      throw new BadRequestException(PROMOTION_ERROR_MESSAGES.INVALID_WINDOW);
+    }
+    if (
+      campaign.type === PromotionType.BUY_X_GET_Y &&
+      (!campaign.buyQuantity || !campaign.getQuantity)
+    ) {
+      throw new BadRequestException(
+        PROMOTION_ERROR_MESSAGES.INVALID_BUY_X_GET_Y,
+      );
+    }
+    if (
+      [PromotionType.PERCENTAGE, PromotionType.FIXED_AMOUNT].includes(
+        campaign.type,
+      ) &&
+      !(campaign.value > 0)
+    ) {
+      throw new BadRequestException(PROMOTION_ERROR_MESSAGES.INVALID_VALUE);
+    }
+    if (
+      campaign.type === PromotionType.PERCENTAGE &&
+      campaign.value > PROMOTION_CONSTANTS.MAX_PERCENTAGE
+    ) {
+      throw new BadRequestException(
+        PROMOTION_ERROR_MESSAGES.INVALID_PERCENTAGE,
+      );
+    }
+  }
+
+  private capDiscount(amount: number, maxDiscount?: number): number {
+    return maxDiscount !== undefined && maxDiscount !== null
+      ? Math.min(amount, maxDiscount)
+      : amount;
+  }
+
+  private normalizeCode(code: string): string {
+    return (code || '').trim().toUpperCase();
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,272 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PromotionsService } from '../promotions.service';
+import { Promotion } from '../entities/promotion.entity';
+import { PromotionRedemption } from '../entities/promotion-redemption.entity';
+import { PromotionUsage } from '../entities/promotion-usage.entity';
+import {
+  Product,
+  ProductCategory,
+} from '../../products/entities/product.entity';
+import { Order } from '../../orders/entities/order.entity';
+import {
+  PromotionType,
+  PROMOTION_ERROR_MESSAGES,
+} from '../constants/promotion.constants';
+
+describe('PromotionsService', () => {
+  let service: PromotionsService;
+  let promotionModel: any;
+  let redemptionModel: any;
+  let usageModel: any;
+  let productModel: any;
+  let orderModel: any;
+  let promotion: any;
+
+  const userId = new Types.ObjectId().toString();
+  const riceId = new Types.ObjectId();
+  const beansId = new Types.ObjectId();
+  const milkId = new Types.ObjectId();
+
+  const items = [
+    { productId: riceId.toString(), quantity: 2, unitPrice: 3000 },
+    { productId: beansId.toString(), quantity: 1, unitPrice: 2000 },
+    { productId: milkId.toString(), quantity: 3, unitPrice: 1000 },
+  ];
+
+  const lean = (value: any) => ({ lean: jest.fn().mockResolvedValue(value) });
+
+  const buildPromotion = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(),
+    code: 'SAVE10',
+    type: PromotionType.PERCENTAGE,
+    value: 10,
+    categories: [],
+    tags: [],
+    cities: [],
+    firstOrderOnly: false,
+    usageCount: 0,
+    isActive: true,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    promotion = buildPromotion();
+
+    promotionModel = {
+      findOne: jest.fn(() => lean(promotion)),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn(),
+      exists: jest.fn(),
+    };
+    redemptionModel = {
+      create: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+    };
+    usageModel = {
+      findOne: jest.fn(() => lean(null)),
+      findOneAndUpdate: jest.fn().mockResolvedValue({ uses: 1 }),
+      updateOne: jest.fn(),
+    };
+    productModel = {
+      find: jest.fn(() => ({
+        select: jest.fn(() =>
+          lean([
+            { _id: riceId, category: ProductCategory.GRAINS, tags: ['Staple'] },
+            { _id: beansId, category: ProductCategory.GRAINS, tags: [] },
+            {
+              _id: milkId,
+              category: ProductCategory.DAIRY,
+              tags: ['breakfast'],
+            },
+          ]),
+        ),
+      })),
+    };
+    orderModel = { exists: jest.fn().mockResolvedValue(null) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromotionsService,
+        { provide: getModelToken(Promotion.name), useValue: promotionModel },
+        {
+          provide: getModelToken(PromotionRedemption.name),
+          useValue: redemptionModel,
+        },
+        { provide: getModelToken(PromotionUsage.name), useValue: usageModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: getModelToken(Order.name), useValue: orderModel },
+      ],
+    }).compile();
+
+    service = module.get<PromotionsService>(PromotionsService);
+  });
+
+  describe('evaluate', () => {
+    it('should take a capped percentage off and spread it over the items', async () => {
+      promotion = buildPromotion({ value: 10, maxDiscount: 1000 });
+
+      const result = await service.evaluate({ code: 'save10', userId, items });
+
+      expect(result.itemDiscount).toBe(1000);
+      expect(result.deliveryDiscount).toBe(0);
+      expect(result.itemDiscounts).toEqual([
+        { productId: riceId.toString(), discountAmount: 545.45 },
+        { productId: beansId.toString(), discountAmount: 181.82 },
+        { productId: milkId.toString(), discountAmount: 272.73 },
+      ]);
+    });
+
+    it('should only discount items in the campaign categories', async () => {
+      promotion = buildPromotion({
+        type: PromotionType.FIXED_AMOUNT,
+        value: 5000,
+        categories: [ProductCategory.DAIRY],
+      });
+
+      const result = await service.evaluate({ code: 'SAVE10', userId, items });
+
+      expect(result.itemDiscount).toBe(3000);
+      expect(result.itemDiscounts).toEqual([
+        { productId: milkId.toString(), discountAmount: 3000 },
+      ]);
+    });
+
+    it('should give the cheapest units free on buy-x-get-y tagged items', async () => {
+      promotion = buildPromotion({
+        type: PromotionType.BUY_X_GET_Y,
+        value: 0,
+        buyQuantity: 2,
+        getQuantity: 1,
+        tags: ['staple', 'breakfast'],
+      });
+
+      // Rice ×2 at 3000 and milk ×3 at 1000: five units make one group of three
+      const result = await service.evaluate({ code: 'SAVE10', userId, items });
+
+      expect(result.itemDiscount).toBe(1000);
+      expect(result.itemDiscounts).toEqual([
+        { productId: milkId.toString(), discountAmount: 1000 },
+      ]);
+    });
+
+    it('should waive the delivery fee for free-delivery codes', async () => {
+      promotion = buildPromotion({
+        type: PromotionType.FREE_DELIVERY,
+        value: 0,
+      });
+
+      const result = await service.evaluate({
+        code: 'SAVE10',
+        userId,
+        items,
+        deliveryFee: 750,
+      });
+
+      expect(result.deliveryDiscount).toBe(750);
+      expect(result.discountAmount).toBe(750);
+    });
+
+    it('should reject codes outside their validity window', async () => {
+      promotion = buildPromotion({ endsAt: new Date('2024-01-01') });
+
+      await expect(
+        service.evaluate({
+          code: 'SAVE10',
+          userId,
+          items,
+          at: new Date('2024-02-01'),
+        }),
+      ).rejects.toThrow(PROMOTION_ERROR_MESSAGES.EXPIRED);
+    });
+
+    it('should reject first-order codes for returning customers', async () => {
+      promotion = buildPromotion({ firstOrderOnly: true });
+      orderModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(
+        service.evaluate({ code: 'SAVE10', userId, items }),
+      ).rejects.toThrow(PROMOTION_ERROR_MESSAGES.FIRST_ORDER_ONLY);
+    });
+
+    it('should enforce the per-user cap and city restriction', async () => {
+      promotion = buildPromotion({ perUserLimit: 1, cities: ['lagos'] });
+
+      await expect(
+        service.evaluate({ code: 'SAVE10', userId, items, city: 'Abuja' }),
+      ).rejects.toThrow(PROMOTION_ERROR_MESSAGES.CITY_NOT_ELIGIBLE);
+
+      usageModel.findOne.mockReturnValue(lean({ uses: 1 }));
+      await expect(
+        service.evaluate({ code: 'SAVE10', userId, items, city: 'Lagos' }),
+      ).rejects.toThrow(PROMOTION_ERROR_MESSAGES.USER_LIMIT_REACHED);
+    });
+
+    it('should reject a city-restricted code when the city is unknown', async () => {
+      promotion = buildPromotion({ cities: ['lagos'] });
+
+      await expect(
+        service.evaluate({ code: 'SAVE10', userId, items }),
+      ).rejects.toThrow(PROMOTION_ERROR_MESSAGES.CITY_REQUIRED);
+    });
+  });
+
+  describe('redeem', () => {
+    const evaluation = () => ({
+      promotionId: promotion._id.toString(),
+      code: 'SAVE10',
+      type: PromotionType.PERCENTAGE,
+      itemDiscount: 500,
+      deliveryDiscount: 0,
+      discountAmount: 500,
+      itemDiscounts: [],
+    });
+
+    it('should refuse when the customer reached their limit in a concurrent checkout', async () => {
+      promotion = buildPromotion({ perUserLimit: 2 });
+      promotionModel.findOneAndUpdate.mockResolvedValue(promotion);
+      usageModel.findOneAndUpdate.mockRejectedValue({ code: 11000 });
+
+      await expect(
+        service.redeem(evaluation(), userId, new Types.ObjectId().toString()),
+      ).rejects.toThrow(PROMOTION_ERROR_MESSAGES.USER_LIMIT_REACHED);
+      expect(usageModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          promotionId: promotion._id,
+          userId: new Types.ObjectId(userId),
+          uses: { $lt: 2 },
+        },
+        { $inc: { uses: 1 } },
+        { upsert: true, new: true },
+      );
+      expect(promotionModel.updateOne).toHaveBeenCalledWith(
+        { _id: promotion._id },
+        { $inc: { usageCount: -1 } },
+      );
+      expect(redemptionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse when the global cap was reached by a concurrent checkout', async () => {
+      promotionModel.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(
+        service.redeem(
+          {
+            promotionId: promotion._id.toString(),
+            code: 'SAVE10',
+            type: PromotionType.PERCENTAGE,
+            itemDiscount: 500,
+            deliveryDiscount: 0,
+            discountAmount: 500,
+            itemDiscounts: [],
+          },
+          userId,
+          new Types.ObjectId().toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(redemptionModel.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, Inject, forwardRef } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, ClientSession, Types } from 'mongoose';
 import { Commission, CommissionDocument, CommissionType, CommissionStatus } from '../entities/commission.entity';
@@ -6,6 +6,13 @@ import { User, UserDocument, UserRole } from '../../users/entities/user.entity';
 import { Order, OrderDocument } from '../../orders/entities/order.entity';
 import { CommissionStrategyFactory } from '../strategies/commission.strategies';
 import { TransactionService } from './transaction.service';
+import { WalletsService } from '../../wallets/wallets.service';
+import { TransactionType, WalletType } from '../../wallets/dto/update-balance.dto';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../../wallets/entities/wallet-ledger-entry.entity';
 
 // Define interfaces for DTOs
 export interface CreateCommissionDto {
@@ -79,6 +86,8 @@ export class CommissionService {
     @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
     private readonly commissionStrategyFactory: CommissionStrategyFactory,
     private readonly transactionService: TransactionService,
+    @Inject(forwardRef(() => WalletsService))
+    private readonly walletsService: WalletsService,
   ) {}
 
   async createCommission(dto: CreateCommissionDto): Promise<CommissionDocument> {
@@ -219,8 +228,28 @@ export class CommissionService {
     try {
       // Use transaction service to process payment
       await this.transactionService.executeTransaction(async (currentSession) => {
-        // Commission processing will be handled by payment interceptor
-        // Just update the commission status
+        // Credit the earned Nibia to the referrer's wallet
+        if (commission.amount > 0) {
+          await this.walletsService.updateBalance(
+            commission.userId.toString(),
+            {
+              amount: commission.amount,
+              walletType: WalletType.FOOD_POINTS,
+              transactionType: TransactionType.CREDIT,
+              description: `Referral commission (${commission.type})`,
+            },
+            {
+              transactionType: LedgerTransactionType.COMMISSION,
+              counterAccount: LedgerAccount.SYSTEM_COMMISSIONS,
+              reference: {
+                type: LedgerReferenceType.COMMISSION,
+                id: commission._id.toString(),
+              },
+              session: currentSession,
+            },
+          );
+        }
+
         commission.status = CommissionStatus.PROCESSED;
         commission.processedAt = new Date();
         await commission.save({ session: currentSession });
@@ -349,7 +378,28 @@ export class CommissionService {
         }
 
         if (commission.status === CommissionStatus.PROCESSED) {
-          // Use transaction service to handle wallet rollback
+          // Reverse the wallet credit made when the commission was processed
+          if (commission.amount > 0) {
+            await this.walletsService.updateBalance(
+              commission.userId.toString(),
+              {
+                amount: commission.amount,
+                walletType: WalletType.FOOD_POINTS,
+                transactionType: TransactionType.DEBIT,
+                description: `Commission rollback: ${reason}`,
+              },
+              {
+                transactionType: LedgerTransactionType.COMMISSION,
+                counterAccount: LedgerAccount.SYSTEM_COMMISSIONS,
+                reference: {
+                  type: LedgerReferenceType.COMMISSION,
+                  id: commission._id.toString(),
+                },
+                session,
+              },
+            );
+          }
+
           commission.status = CommissionStatus.FAILED;
           commission.failedAt = new Date();
           commission.failureReason = reason;
@@ -0,0 +1,125 @@
+export const SEARCH_CONSTANTS = {
+  DEFAULT_LIMIT: 20,
+  MAX_LIMIT: 50,
+  MAX_QUERY_LENGTH: 100,
+  SUGGEST_MIN_LENGTH: 2,
+  SUGGEST_LIMIT: 8,
+  SELLER_FACET_LIMIT: 20,
+  // Words this short are never corrected: too many real words are one
+  // letter apart
+  TYPO_MIN_LENGTH: 4,
+  TYPO_TWO_EDITS_LENGTH: 8, // Longer words may be two letters off
+  VOCABULARY_TTL_MS: 10 * 60 * 1000,
+  ANALYTICS_DAYS: 30,
+  ANALYTICS_LIMIT: 20,
+  QUERY_RETENTION_DAYS: 180,
+} as const;
+
+export enum SearchSort {
+  RELEVANCE = 'relevance',
+  PRICE_ASC = 'price_asc',
+  PRICE_DESC = 'price_desc',
+  NEWEST = 'newest',
+  RATING = 'rating',
+}
+
+/**
+ * Names shoppers use for the same food. A query naming one also matches
+ * products listed under the others.
+ */
+export const SEARCH_SYNONYMS: readonly string[][] = [
+  ['garri', 'gari', 'cassava flakes'],
+  ['egusi', 'melon seed'],
+  ['ugu', 'pumpkin leaves', 'fluted pumpkin'],
+  ['tatashe', 'bell pepper', 'red pepper'],
+  ['ata rodo', 'scotch bonnet', 'habanero'],
+  ['okra', 'okro'],
+  ['groundnut', 'peanut'],
+  ['palm oil', 'red oil'],
+  ['ogi', 'pap', 'akamu'],
+  ['semovita', 'semolina'],
+  ['titus', 'mackerel'],
+  ['stockfish', 'okporoko'],
+  ['crayfish', 'dried shrimp'],
+  ['plantain', 'dodo'],
+  ['yam flour', 'elubo', 'amala'],
+  ['cocoyam', 'ede'],
+  ['locust beans', 'iru', 'dawadawa', 'ogiri'],
+  ['bitter leaf', 'onugbu', 'ewuro'],
+  ['uziza', 'ashanti pepper'],
+  ['beans', 'cowpea'],
+  ['maize', 'corn'],
+  ['guinea corn', 'sorghum'],
+  ['millet', 'gero'],
+];
+
+// Query clean-up and typo matching shared by search and suggest
+export const SEARCH_TEXT = {
+  normalize: (query: string): string =>
+    query
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim(),
+
+  tokenize: (text: string): string[] =>
+    SEARCH_TEXT.normalize(text).split(' ').filter(Boolean),
+
+  escapeRegex: (text: string): string =>
+    text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+
+  // Words from every synonym group the query names
+  synonymsOf: (normalizedQuery: string): string[] => {
+    const padded = ` ${normalizedQuery} `;
+    return SEARCH_SYNONYMS.filter((group) =>
+      group.some((name) => padded.includes(` ${name} `)),
+    ).flatMap((group) => group.flatMap((name) => name.split(' ')));
+  },
+
+  // Levenshtein distance, giving up once it exceeds max
+  distance: (a: string, b: string, max: number): number => {
+    if (Math.abs(a.length - b.length) > max) {
+      return max + 1;
+    }
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        );
+        rowMin = Math.min(rowMin, current[j]);
+      }
+      if (rowMin > max) {
+        return max + 1;
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  },
+
+  // Closest catalogue word to a misspelt term, or undefined when the term
+  // is spelt right, too short to correct or nothing is close enough
+  correct: (term: string, vocabulary: Set<string>): string | undefined => {
+    if (
+      term.length < SEARCH_CONSTANTS.TYPO_MIN_LENGTH ||
+      vocabulary.has(term)
+    ) {
+      return undefined;
+    }
+    const max = term.length >= SEARCH_CONSTANTS.TYPO_TWO_EDITS_LENGTH ? 2 : 1;
+    let best: string | undefined;
+    let bestDistance = max + 1;
+    for (const word of vocabulary) {
+      const distance = SEARCH_TEXT.distance(term, word, max);
+      if (distance < bestDistance) {
+        best = word;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  },
+};
@@ -0,0 +1,159 @@
+import {
+  IsOptional,
+  IsString,
+  IsEnum,
+  IsNumber,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  Min,
+  Max,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  DeliveryType,
+  ProductCategory,
+} from '../../products/entities/product.entity';
+import { SEARCH_CONSTANTS, SearchSort } from '../constants/search.constants';
+
+export class SearchProductsDto {
+  @ApiProperty({
+    description:
+      'What to look for. Leave out to browse the filters and facets only',
+    example: 'gari',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(SEARCH_CONSTANTS.MAX_QUERY_LENGTH)
+  q?: string;
+
+  @ApiProperty({
+    description: 'Filter by city',
+    example: 'Lagos',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @ApiProperty({
+    description: 'Filter by category',
+    enum: ProductCategory,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ProductCategory)
+  category?: ProductCategory;
+
+  @ApiProperty({
+    description: 'Filter by delivery type',
+    enum: DeliveryType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(DeliveryType)
+  deliveryType?: DeliveryType;
+
+  @ApiProperty({ description: 'Filter by seller ID', required: false })
+  @IsOptional()
+  @IsMongoId()
+  sellerId?: string;
+
+  @ApiProperty({
+    description: 'Minimum price in NGN',
+    example: 500,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minPrice?: number;
+
+  @ApiProperty({
+    description: 'Maximum price in NGN, exclusive',
+    example: 1000,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  maxPrice?: number;
+
+  @ApiProperty({
+    description: 'Order of results. Relevance needs a query',
+    enum: SearchSort,
+    required: false,
+    default: SearchSort.RELEVANCE,
+  })
+  @IsOptional()
+  @IsEnum(SearchSort)
+  sortBy?: SearchSort;
+
+  @ApiProperty({ description: 'Page number', example: 1, required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiProperty({
+    description: 'Results per page',
+    example: SEARCH_CONSTANTS.DEFAULT_LIMIT,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(SEARCH_CONSTANTS.MAX_LIMIT)
+  limit?: number;
+}
+
+export class SuggestDto {
+  @ApiProperty({ description: 'What has been typed so far', example: 'eg' })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(SEARCH_CONSTANTS.SUGGEST_MIN_LENGTH)
+  @MaxLength(SEARCH_CONSTANTS.MAX_QUERY_LENGTH)
+  q: string;
+
+  @ApiProperty({
+    description: 'Only suggest products in this city',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  city?: string;
+}
+
+export class SearchAnalyticsQueryDto {
+  @ApiProperty({
+    description: 'How many days back to look',
+    example: SEARCH_CONSTANTS.ANALYTICS_DAYS,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(SEARCH_CONSTANTS.QUERY_RETENTION_DAYS)
+  days?: number;
+
+  @ApiProperty({
+    description: 'Queries to list in each ranking',
+    example: SEARCH_CONSTANTS.ANALYTICS_LIMIT,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
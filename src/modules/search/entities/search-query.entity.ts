@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { SEARCH_CONSTANTS } from '../constants/search.constants';
+
+export type SearchQueryDocument = SearchQuery & Document;
+
+/**
+ * One product search as typed by a shopper, kept to show what people look
+ * for and what the catalogue is missing
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class SearchQuery {
+  @ApiProperty({ description: 'Query as typed' })
+  @Prop({ required: true, type: String })
+  query: string;
+
+  @ApiProperty({ description: 'Query lower-cased without punctuation' })
+  @Prop({ required: true, type: String })
+  normalizedQuery: string;
+
+  @ApiProperty({ description: 'Products found' })
+  @Prop({ required: true, type: Number, min: 0 })
+  resultCount: number;
+
+  @ApiProperty({ description: 'Misspelt words and what they were read as' })
+  @Prop({ type: Object, default: {} })
+  corrections: Record<string, string>;
+
+  @ApiProperty({ description: 'City filter applied', required: false })
+  @Prop({ required: false, type: String })
+  city?: string;
+
+  @ApiProperty({ description: 'Category filter applied', required: false })
+  @Prop({ required: false, type: String })
+  category?: string;
+
+  createdAt?: Date;
+}
+
+export const SearchQuerySchema = SchemaFactory.createForClass(SearchQuery);
+
+SearchQuerySchema.index({ createdAt: -1, normalizedQuery: 1 });
+SearchQuerySchema.index({ normalizedQuery: 1, resultCount: 1 });
+SearchQuerySchema.index(
+  { createdAt: 1 },
+  {
+    name: 'search_query_retention',
+    expireAfterSeconds: SEARCH_CONSTANTS.QUERY_RETENTION_DAYS * 24 * 60 * 60,
+  },
+);
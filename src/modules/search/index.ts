@@ -0,0 +1,4 @@
+export * from './search.module';
+export * from './search.service';
+export * from './entities/search-query.entity';
+export * from './interfaces/search.interface';
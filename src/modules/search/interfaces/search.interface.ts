@@ -0,0 +1,62 @@
+export interface FacetCount {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+/**
+ * Matches per filter value. Each facet ignores its own filter, so picking
+ * a category still shows how many matches the other categories have.
+ */
+export interface SearchFacets {
+  category: FacetCount[];
+  city: FacetCount[];
+  price: FacetCount[];
+  deliveryType: FacetCount[];
+  seller: FacetCount[];
+}
+
+export interface SearchResult {
+  products: any[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  facets: SearchFacets;
+  // Misspelt words and the catalogue words they were read as
+  corrections: Record<string, string>;
+  // Other names for the food searched for that were also matched
+  synonyms: string[];
+}
+
+export interface SuggestedProduct {
+  _id: string;
+  name: string;
+  category: string;
+}
+
+export interface SuggestedQuery {
+  query: string;
+  searches: number;
+}
+
+export interface SearchSuggestions {
+  products: SuggestedProduct[];
+  queries: SuggestedQuery[];
+}
+
+export interface QueryStats {
+  query: string;
+  searches: number;
+  averageResults: number;
+  lastSearchedAt: Date;
+}
+
+export interface SearchAnalytics {
+  from: Date;
+  totalSearches: number;
+  zeroResultSearches: number;
+  zeroResultRate: number; // Percent of searches that found nothing
+  topQueries: QueryStats[];
+  zeroResultQueries: QueryStats[];
+}
@@ -0,0 +1,55 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SearchService } from './search.service';
+import {
+  SearchProductsDto,
+  SuggestDto,
+  SearchAnalyticsQueryDto,
+} from './dto/search.dto';
+import { Public } from '../auth/decorators';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/entities/user.entity';
+
+@ApiTags('search')
+@Controller('search')
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({
+    summary:
+      'Search products by relevance, with typo tolerance, local food names and facet counts',
+  })
+  @ApiResponse({ status: 200, description: 'Return matching products' })
+  search(@Query() query: SearchProductsDto) {
+    return this.searchService.search(query);
+  }
+
+  @Get('suggest')
+  @Public()
+  @ApiOperation({ summary: 'Suggest products and searches as the user types' })
+  @ApiResponse({ status: 200, description: 'Return the suggestions' })
+  suggest(@Query() query: SuggestDto) {
+    return this.searchService.suggest(query);
+  }
+
+  @Get('analytics')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Most searched and zero-result queries (admin)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Search analytics retrieved successfully',
+  })
+  getAnalytics(@Query() query: SearchAnalyticsQueryDto) {
+    return this.searchService.getAnalytics(query);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SearchController } from './search.controller';
+import { SearchService } from './search.service';
+import { SearchQuery, SearchQuerySchema } from './entities/search-query.entity';
+import { Product, ProductSchema } from '../products/entities/product.entity';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SearchQuery.name, schema: SearchQuerySchema },
+      { name: Product.name, schema: ProductSchema },
+    ]),
+  ],
+  controllers: [SearchController],
+  providers: [SearchService],
+  exports: [SearchService],
+})
+export class SearchModule {}
@@ -0,0 +1,427 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, PipelineStage, Types } from 'mongoose';
+import { Product, ProductDocument } from '../products/entities/product.entity';
+import { PRICE_RANGES } from '../products/constants';
+import {
+  SearchQuery,
+  SearchQueryDocument,
+} from './entities/search-query.entity';
+import {
+  SearchProductsDto,
+  SuggestDto,
+  SearchAnalyticsQueryDto,
+} from './dto/search.dto';
+import {
+  FacetCount,
+  QueryStats,
+  SearchAnalytics,
+  SearchFacets,
+  SearchResult,
+  SearchSuggestions,
+} from './interfaces/search.interface';
+import {
+  SEARCH_CONSTANTS,
+  SEARCH_SYNONYMS,
+  SEARCH_TEXT,
+  SearchSort,
+} from './constants/search.constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FacetName = keyof SearchFacets;
+
+interface ExpandedQuery {
+  terms: string[];
+  corrections: Record<string, string>;
+  synonyms: string[];
+}
+
+const SORTS: Record<SearchSort, Record<string, 1 | -1>> = {
+  [SearchSort.RELEVANCE]: { score: -1, _id: 1 },
+  [SearchSort.PRICE_ASC]: { price: 1, _id: 1 },
+  [SearchSort.PRICE_DESC]: { price: -1, _id: 1 },
+  [SearchSort.NEWEST]: { createdAt: -1, _id: 1 },
+  [SearchSort.RATING]: { rating: -1, reviewCount: -1, _id: 1 },
+};
+
+/**
+ * Product search for shoppers. Matches rank by where the words appear
+ * (name, then tags, then description), misspelt words are read as the
+ * nearest catalogue word and local names for the same food match each
+ * other. Every search is logged so admins can see what people look for
+ * and what returns nothing.
+ */
+@Injectable()
+export class SearchService {
+  private readonly logger = new Logger(SearchService.name);
+  private vocabulary?: { words: Set<string>; loadedAt: number };
+
+  constructor(
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(SearchQuery.name)
+    private searchQueryModel: Model<SearchQueryDocument>,
+  ) {}
+
+  /**
+   * Active products matching the query and filters, with facet counts
+   */
+  async search(dto: SearchProductsDto): Promise<SearchResult> {
+    const page = dto.page ?? 1;
+    const limit = dto.limit ?? SEARCH_CONSTANTS.DEFAULT_LIMIT;
+    const normalizedQuery = dto.q ? SEARCH_TEXT.normalize(dto.q) : '';
+    const expanded = normalizedQuery
+      ? await this.expandQuery(normalizedQuery)
+      : { terms: [], corrections: {}, synonyms: [] };
+
+    const base: Record<string, any> = { isActive: true };
+    if (expanded.terms.length) {
+      base.$text = { $search: expanded.terms.join(' ') };
+    }
+    const filters = this.buildFilters(dto);
+    // Facets count matches as if their own filter were not applied
+    const matching = (facet?: FacetName) => ({
+      $match: Object.assign(
+        {},
+        ...Object.entries(filters)
+          .filter(([name]) => name !== facet)
+          .map(([, filter]) => filter),
+      ),
+    });
+
+    const sortBy =
+      !expanded.terms.length &&
+      (dto.sortBy ?? SearchSort.RELEVANCE) === SearchSort.RELEVANCE
+        ? SearchSort.NEWEST
+        : (dto.sortBy ?? SearchSort.RELEVANCE);
+
+    const pipeline: PipelineStage[] = [
+      { $match: base },
+      ...(expanded.terms.length
+        ? [{ $addFields: { score: { $meta: 'textScore' } } }]
+        : []),
+      {
+        $facet: {
+          products: [
+            matching(),
+            { $sort: SORTS[sortBy] },
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+          ],
+          total: [matching(), { $count: 'count' }],
+          category: [matching('category'), ...this.countBy('$category')],
+          city: [matching('city'), ...this.countBy('$city')],
+          deliveryType: [
+            matching('deliveryType'),
+            ...this.countBy('$deliveryType'),
+          ],
+          seller: [
+            matching('seller'),
+            ...this.countBy('$sellerId'),
+            { $limit: SEARCH_CONSTANTS.SELLER_FACET_LIMIT },
+            {
+              $lookup: {
+                from: 'users',
+                localField: '_id',
+                foreignField: '_id',
+                as: 'seller',
+              },
+            },
+            {
+              $project: {
+                count: 1,
+                label: { $arrayElemAt: ['$seller.name', 0] },
+              },
+            },
+          ],
+          price: [
+            matching('price'),
+            {
+              $bucket: {
+                groupBy: '$price',
+                boundaries: PRICE_RANGES.map((range) => range.min),
+                default: PRICE_RANGES[PRICE_RANGES.length - 1].min,
+                output: { count: { $sum: 1 } },
+              },
+            },
+          ],
+        },
+      },
+    ];
+
+    const [result] = await this.productModel.aggregate(pipeline);
+    const total = result.total[0]?.count ?? 0;
+
+    // Paging through results is one search, not several
+    if (normalizedQuery && page === 1) {
+      this.record(dto, normalizedQuery, total, expanded.corrections);
+    }
+
+    return {
+      products: result.products,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      facets: {
+        category: this.toFacet(result.category),
+        city: this.toFacet(result.city),
+        deliveryType: this.toFacet(result.deliveryType),
+        seller: this.toFacet(result.seller),
+        price: result.price.map((bucket) => {
+          const range = PRICE_RANGES.find((r) => r.min === bucket._id);
+          return {
+            value:
+              range.max === Infinity
+                ? `${range.min}+`
+                : `${range.min}-${range.max}`,
+            label: range.label,
+            count: bucket.count,
+          };
+        }),
+      },
+      corrections: expanded.corrections,
+      synonyms: expanded.synonyms,
+    };
+  }
+
+  /**
+   * Products whose name has a word starting with what has been typed, and
+   * past searches starting with it that found something
+   */
+  async suggest(dto: SuggestDto): Promise<SearchSuggestions> {
+    const prefix = SEARCH_TEXT.normalize(dto.q);
+    if (prefix.length < SEARCH_CONSTANTS.SUGGEST_MIN_LENGTH) {
+      return { products: [], queries: [] };
+    }
+    const escaped = SEARCH_TEXT.escapeRegex(prefix);
+
+    const [products, queries] = await Promise.all([
+      this.productModel
+        .find({
+          isActive: true,
+          name: { $regex: `(^|\\s)${escaped}`, $options: 'i' },
+          ...(dto.city && this.cityFilter(dto.city)),
+        })
+        .select('name category')
+        .sort({ name: 1 })
+        .limit(SEARCH_CONSTANTS.SUGGEST_LIMIT)
+        .lean(),
+      this.searchQueryModel.aggregate([
+        {
+          $match: {
+            normalizedQuery: { $regex: `^${escaped}` },
+            resultCount: { $gt: 0 },
+            createdAt: { $gte: this.since(SEARCH_CONSTANTS.ANALYTICS_DAYS) },
+          },
+        },
+        { $group: { _id: '$normalizedQuery', searches: { $sum: 1 } } },
+        { $sort: { searches: -1, _id: 1 } },
+        { $limit: SEARCH_CONSTANTS.SUGGEST_LIMIT },
+      ]),
+    ]);
+
+    return {
+      products: products.map((product) => ({
+        _id: product._id.toString(),
+        name: product.name,
+        category: product.category,
+      })),
+      queries: queries.map((query) => ({
+        query: query._id,
+        searches: query.searches,
+      })),
+    };
+  }
+
+  /**
+   * Most searched queries and queries that found nothing (admin)
+   */
+  async getAnalytics(
+    dto: SearchAnalyticsQueryDto = {},
+  ): Promise<SearchAnalytics> {
+    const from = this.since(dto.days ?? SEARCH_CONSTANTS.ANALYTICS_DAYS);
+    const limit = dto.limit ?? SEARCH_CONSTANTS.ANALYTICS_LIMIT;
+    const period = { createdAt: { $gte: from } };
+    const zeroResult = { ...period, resultCount: 0 };
+
+    const [totalSearches, zeroResultSearches, topQueries, zeroResultQueries] =
+      await Promise.all([
+        this.searchQueryModel.countDocuments(period),
+        this.searchQueryModel.countDocuments(zeroResult),
+        this.rankQueries(period, limit),
+        this.rankQueries(zeroResult, limit),
+      ]);
+
+    return {
+      from,
+      totalSearches,
+      zeroResultSearches,
+      zeroResultRate: totalSearches
+        ? Math.round((zeroResultSearches / totalSearches) * 10000) / 100
+        : 0,
+      topQueries,
+      zeroResultQueries,
+    };
+  }
+
+  /**
+   * The words to search for: the query's own words, the catalogue words
+   * misspelt ones were read as and the other names of foods it mentions
+   */
+  private async expandQuery(normalizedQuery: string): Promise<ExpandedQuery> {
+    const vocabulary = await this.getVocabulary();
+    const words = SEARCH_TEXT.tokenize(normalizedQuery);
+
+    const corrections: Record<string, string> = {};
+    const corrected = words.map((word) => {
+      const correction = SEARCH_TEXT.correct(word, vocabulary);
+      if (correction) {
+        corrections[word] = correction;
+      }
+      return correction ?? word;
+    });
+
+    const synonyms = [
+      ...new Set(SEARCH_TEXT.synonymsOf(corrected.join(' '))),
+    ].filter((word) => !corrected.includes(word));
+
+    return {
+      terms: [...new Set([...words, ...corrected, ...synonyms])],
+      corrections,
+      synonyms,
+    };
+  }
+
+  /**
+   * Words in active product names and tags, plus every synonym so that
+   * one local name is never "corrected" into another. Cached for a while
+   * as it takes a pass over the catalogue.
+   */
+  private async getVocabulary(): Promise<Set<string>> {
+    if (
+      this.vocabulary &&
+      Date.now() - this.vocabulary.loadedAt < SEARCH_CONSTANTS.VOCABULARY_TTL_MS
+    ) {
+      return this.vocabulary.words;
+    }
+
+    const products = await this.productModel
+      .find({ isActive: true })
+      .select('name tags')
+      .lean();
+    const words = new Set(
+      SEARCH_SYNONYMS.flat().flatMap((name) => name.split(' ')),
+    );
+    for (const product of products) {
+      for (const word of SEARCH_TEXT.tokenize(
+        [product.name, ...(product.tags || [])].join(' '),
+      )) {
+        words.add(word);
+      }
+    }
+
+    this.vocabulary = { words, loadedAt: Date.now() };
+    return words;
+  }
+
+  private buildFilters(
+    dto: SearchProductsDto,
+  ): Partial<Record<FacetName, Record<string, any>>> {
+    const filters: Partial<Record<FacetName, Record<string, any>>> = {};
+    if (dto.category) {
+      filters.category = { category: dto.category };
+    }
+    if (dto.city) {
+      filters.city = this.cityFilter(dto.city);
+    }
+    if (dto.deliveryType) {
+      filters.deliveryType = { deliveryType: dto.deliveryType };
+    }
+    if (dto.sellerId) {
+      filters.seller = { sellerId: new Types.ObjectId(dto.sellerId) };
+    }
+    if (dto.minPrice !== undefined || dto.maxPrice !== undefined) {
+      filters.price = {
+        price: {
+          ...(dto.minPrice !== undefined && { $gte: dto.minPrice }),
+          ...(dto.maxPrice !== undefined && { $lt: dto.maxPrice }),
+        },
+      };
+    }
+    return filters;
+  }
+
+  private cityFilter(city: string) {
+    const escaped = SEARCH_TEXT.escapeRegex(city.trim());
+    return { city: { $regex: `^${escaped}$`, $options: 'i' } };
+  }
+
+  private countBy(field: string): PipelineStage.FacetPipelineStage[] {
+    return [
+      { $match: { [field.slice(1)]: { $ne: null } } },
+      { $group: { _id: field, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+    ];
+  }
+
+  private toFacet(buckets: any[]): FacetCount[] {
+    return buckets.map((bucket) => ({
+      value: bucket._id.toString(),
+      ...(bucket.label && { label: bucket.label }),
+      count: bucket.count,
+    }));
+  }
+
+  private async rankQueries(
+    match: Record<string, any>,
+    limit: number,
+  ): Promise<QueryStats[]> {
+    const ranked = await this.searchQueryModel.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: '$normalizedQuery',
+          searches: { $sum: 1 },
+          averageResults: { $avg: '$resultCount' },
+          lastSearchedAt: { $max: '$createdAt' },
+        },
+      },
+      { $sort: { searches: -1, _id: 1 } },
+      { $limit: limit },
+    ]);
+    return ranked.map((query) => ({
+      query: query._id,
+      searches: query.searches,
+      averageResults: Math.round(query.averageResults * 10) / 10,
+      lastSearchedAt: query.lastSearchedAt,
+    }));
+  }
+
+  // Logging a search must never slow or fail it
+  private record(
+    dto: SearchProductsDto,
+    normalizedQuery: string,
+    resultCount: number,
+    corrections: Record<string, string>,
+  ): void {
+    this.searchQueryModel
+      .create({
+        query: dto.q.trim(),
+        normalizedQuery,
+        resultCount,
+        corrections,
+        city: dto.city,
+        category: dto.category,
+      })
+      .catch((error) =>
+        this.logger.warn(
+          `Failed to record search "${normalizedQuery}": ${error.message}`,
+        ),
+      );
+  }
+
+  private since(days: number): Date {
+    return new Date(Date.now() - days * DAY_MS);
+  }
+}
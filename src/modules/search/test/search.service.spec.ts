@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SearchService } from '../search.service';
+import { SearchQuery } from '../entities/search-query.entity';
+import {
+  Product,
+  ProductCategory,
+} from '../../products/entities/product.entity';
+import { SEARCH_TEXT } from '../constants/search.constants';
+
+describe('SearchService', () => {
+  let service: SearchService;
+  let productModel: any;
+  let searchQueryModel: any;
+
+  const emptyFacets = {
+    products: [],
+    total: [],
+    category: [],
+    city: [],
+    deliveryType: [],
+    seller: [],
+    price: [],
+  };
+
+  beforeEach(async () => {
+    productModel = {
+      aggregate: jest.fn().mockResolvedValue([emptyFacets]),
+      find: jest.fn(() => ({
+        select: jest.fn().mockReturnThis(),
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockResolvedValue([
+          {
+            _id: new Types.ObjectId(),
+            name: 'Ijebu Garri',
+            tags: ['cassava', 'swallow'],
+          },
+          {
+            _id: new Types.ObjectId(),
+            name: 'Ofada Rice',
+            tags: ['rice', 'local'],
+          },
+        ]),
+      })),
+    };
+    searchQueryModel = {
+      create: jest.fn().mockResolvedValue({}),
+      aggregate: jest.fn().mockResolvedValue([]),
+      countDocuments: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchService,
+        { provide: getModelToken(Product.name), useValue: productModel },
+        {
+          provide: getModelToken(SearchQuery.name),
+          useValue: searchQueryModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SearchService>(SearchService);
+  });
+
+  describe('search', () => {
+    it('should read misspelt words as catalogue words and match local names', async () => {
+      const result = await service.search({ q: 'Garrii & ofada' });
+
+      const [match] = productModel.aggregate.mock.calls[0][0];
+      expect(match.$match.isActive).toBe(true);
+      expect(match.$match.$text.$search.split(' ')).toEqual(
+        expect.arrayContaining(['garrii', 'garri', 'gari', 'ofada']),
+      );
+      expect(result.corrections).toEqual({ garrii: 'garri' });
+      expect(result.synonyms).toEqual(
+        expect.arrayContaining(['gari', 'cassava', 'flakes']),
+      );
+    });
+
+    it('should not correct one local name into another', async () => {
+      const result = await service.search({ q: 'gari' });
+
+      expect(result.corrections).toEqual({});
+      expect(result.synonyms).toContain('garri');
+    });
+
+    it('should count each facet without its own filter', async () => {
+      const sellerId = new Types.ObjectId();
+      productModel.aggregate.mockResolvedValue([
+        {
+          ...emptyFacets,
+          products: [{ name: 'Ijebu Garri' }],
+          total: [{ count: 1 }],
+          category: [{ _id: 'grains', count: 1 }],
+          seller: [{ _id: sellerId, count: 1, label: 'Mama Put Foods' }],
+          price: [
+            { _id: 500, count: 1 },
+            { _id: 10000, count: 2 },
+          ],
+        },
+      ]);
+
+      const result = await service.search({
+        q: 'garri',
+        category: ProductCategory.GRAINS,
+        minPrice: 500,
+        maxPrice: 1000,
+      });
+
+      const facet = productModel.aggregate.mock.calls[0][0].find(
+        (stage) => stage.$facet,
+      ).$facet;
+      expect(facet.products[0].$match).toEqual({
+        category: ProductCategory.GRAINS,
+        price: { $gte: 500, $lt: 1000 },
+      });
+      expect(facet.category[0].$match).toEqual({
+        price: { $gte: 500, $lt: 1000 },
+      });
+      expect(facet.price[0].$match).toEqual({
+        category: ProductCategory.GRAINS,
+      });
+
+      expect(result.total).toBe(1);
+      expect(result.facets.category).toEqual([{ value: 'grains', count: 1 }]);
+      expect(result.facets.seller).toEqual([
+        { value: sellerId.toString(), label: 'Mama Put Foods', count: 1 },
+      ]);
+      expect(result.facets.price).toEqual([
+        { value: '500-1000', label: '₦500 - ₦1,000', count: 1 },
+        { value: '10000+', label: 'Above ₦10,000', count: 2 },
+      ]);
+    });
+
+    it('should log zero-result searches on the first page only', async () => {
+      await service.search({ q: 'Bitter leaf', city: 'Lagos' });
+      await service.search({ q: 'Bitter leaf', page: 2 });
+
+      expect(searchQueryModel.create).toHaveBeenCalledTimes(1);
+      expect(searchQueryModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          query: 'Bitter leaf',
+          normalizedQuery: 'bitter leaf',
+          resultCount: 0,
+          city: 'Lagos',
+        }),
+      );
+    });
+
+    it('should browse without a query or logging', async () => {
+      await service.search({ category: ProductCategory.GRAINS });
+
+      const pipeline = productModel.aggregate.mock.calls[0][0];
+      expect(pipeline[0].$match).toEqual({ isActive: true });
+      expect(pipeline[1].$facet.products[1].$sort).toEqual({
+        createdAt: -1,
+        _id: 1,
+      });
+      expect(searchQueryModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('suggest', () => {
+    it('should match word starts with the typed text escaped', async () => {
+      await service.suggest({ q: 'rice (' });
+
+      expect(productModel.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: { $regex: '(^|\\s)rice', $options: 'i' },
+        }),
+      );
+      expect(
+        searchQueryModel.aggregate.mock.calls[0][0][0].$match,
+      ).toMatchObject({
+        normalizedQuery: { $regex: '^rice' },
+        resultCount: { $gt: 0 },
+      });
+    });
+  });
+
+  describe('getAnalytics', () => {
+    it('should report the share of searches that found nothing', async () => {
+      searchQueryModel.countDocuments
+        .mockResolvedValueOnce(8)
+        .mockResolvedValueOnce(2);
+      searchQueryModel.aggregate.mockResolvedValue([
+        {
+          _id: 'ugu',
+          searches: 2,
+          averageResults: 0,
+          lastSearchedAt: new Date(),
+        },
+      ]);
+
+      const analytics = await service.getAnalytics({ days: 7 });
+
+      expect(analytics.totalSearches).toBe(8);
+      expect(analytics.zeroResultRate).toBe(25);
+      expect(analytics.zeroResultQueries[0]).toMatchObject({
+        query: 'ugu',
+        searches: 2,
+      });
+    });
+  });
+
+  describe('SEARCH_TEXT', () => {
+    it('should allow more edits for longer words', () => {
+      const vocabulary = new Set(['tomatoes', 'egusi']);
+
+      expect(SEARCH_TEXT.correct('tomatoos', vocabulary)).toBe('tomatoes');
+      expect(SEARCH_TEXT.correct('tamatoos', vocabulary)).toBe('tomatoes');
+      expect(SEARCH_TEXT.correct('egsi', vocabulary)).toBe('egusi');
+      expect(SEARCH_TEXT.correct('egs', vocabulary)).toBeUndefined();
+      expect(SEARCH_TEXT.correct('agossi', vocabulary)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { SubOrderStatus } from '../../orders/entities/sub-order.entity';
+
+export const SELLER_CONSTANTS = {
+  DEFAULT_PERIOD_DAYS: 30, // analytics window when no dates are given
+  TOP_PRODUCTS_LIMIT: 10,
+  // Items can be reported out of stock until the seller has packed them
+  OUT_OF_STOCK_STATUSES: [
+    SubOrderStatus.PENDING,
+    SubOrderStatus.CONFIRMED,
+    SubOrderStatus.PREPARING,
+  ],
+} as const;
+
+export enum StockAlertLevel {
+  LOW_STOCK = 'low_stock',
+  OUT_OF_STOCK = 'out_of_stock',
+}
+
+export const SELLER_ERROR_MESSAGES = {
+  NOT_A_SELLER: 'Seller access only: list a product to use the seller portal',
+  ACCOUNT_NOT_ACTIVE: 'Your account must be active to use the seller portal',
+  SUB_ORDER_NOT_FOUND: 'Sub-order not found',
+  PRODUCT_NOT_FOUND: 'Product not found',
+  ITEM_NOT_ON_SUB_ORDER: 'Product is not on this sub-order',
+  OUT_OF_STOCK_TOO_LATE:
+    'Items can only be reported out of stock before the sub-order is ready',
+  SUBSTITUTE_NOT_OWNED: 'You can only substitute your own products',
+  INVALID_PERIOD: 'Start date must be before the end date',
+} as const;
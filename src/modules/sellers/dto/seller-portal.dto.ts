@@ -0,0 +1,64 @@
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsNumber,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { RecordSubstitutionDto } from '../../orders/dto';
+
+export class FulfilmentNoteDto {
+  @ApiProperty({ description: 'Note for the customer', required: false })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+/**
+ * The seller drops the line, or sends one of their own products instead if
+ * the customer's substitution preference allows it. Sellers cannot set the
+ * substitute's price; it is charged at its current price.
+ */
+export class ReportOutOfStockDto extends PickType(RecordSubstitutionDto, [
+  'productId',
+  'substituteProductId',
+  'substituteQuantity',
+  'reason',
+] as const) {}
+
+export class InventoryFilterDto {
+  @ApiProperty({
+    description: 'Only products at or below the low-stock threshold',
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  lowStockOnly?: boolean;
+
+  @ApiProperty({
+    description: 'Page number for pagination',
+    required: false,
+    minimum: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    required: false,
+    minimum: 1,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  limit?: number = 20;
+}
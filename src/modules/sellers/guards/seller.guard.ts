@@ -0,0 +1,65 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Product,
+  ProductDocument,
+} from '../../products/entities/product.entity';
+import {
+  SubOrder,
+  SubOrderDocument,
+  SubOrderStatus,
+} from '../../orders/entities/sub-order.entity';
+import { AccountStatus } from '../../users/entities/user.entity';
+import { SELLER_ERROR_MESSAGES } from '../constants/seller.constants';
+
+/**
+ * Sellers are users who own products; there is no separate role. An active
+ * account passes if it has a product on sale, or sub-orders it still has to
+ * fulfil after taking its listings down. Everything behind the guard is then
+ * scoped to the caller's own seller ID.
+ */
+@Injectable()
+export class SellerGuard implements CanActivate {
+  constructor(
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(SubOrder.name) private subOrderModel: Model<SubOrderDocument>,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const { user } = context.switchToHttp().getRequest();
+    if (!user) {
+      throw new UnauthorizedException('User not authenticated');
+    }
+
+    if (!Types.ObjectId.isValid(user.id)) {
+      throw new ForbiddenException(SELLER_ERROR_MESSAGES.NOT_A_SELLER);
+    }
+
+    if (user.accountStatus !== AccountStatus.ACTIVE) {
+      throw new ForbiddenException(SELLER_ERROR_MESSAGES.ACCOUNT_NOT_ACTIVE);
+    }
+
+    const sellerId = new Types.ObjectId(user.id);
+    const [listsProducts, hasOpenSales] = await Promise.all([
+      this.productModel.exists({ sellerId, isActive: true }),
+      this.subOrderModel.exists({
+        sellerId,
+        status: {
+          $nin: [SubOrderStatus.DELIVERED, SubOrderStatus.CANCELLED],
+        },
+      }),
+    ]);
+    if (!listsProducts && !hasOpenSales) {
+      throw new ForbiddenException(SELLER_ERROR_MESSAGES.NOT_A_SELLER);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,5 @@
+export * from './sellers.module';
+export * from './seller-portal.service';
+export * from './services/seller-analytics.service';
+export * from './guards/seller.guard';
+export * from './constants/seller.constants';
@@ -0,0 +1,209 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SellerPortalService } from './seller-portal.service';
+import { SellerAnalyticsService } from './services/seller-analytics.service';
+import { SubOrdersService } from '../orders/services/sub-orders.service';
+import { SubOrderFilterDto } from '../orders/dto';
+import { SettlementsService } from '../settlements/settlements.service';
+import { PayoutBatchesService } from '../settlements/services/payout-batches.service';
+import {
+  UpdatePayoutAccountDto,
+  StatementQueryDto,
+  PayoutBatchFilterDto,
+} from '../settlements/dto/settlement.dto';
+import { UpdateStockDto } from '../products/dto/update-stock.dto';
+import {
+  FulfilmentNoteDto,
+  ReportOutOfStockDto,
+  InventoryFilterDto,
+} from './dto/seller-portal.dto';
+import { SellerGuard } from './guards/seller.guard';
+import { CurrentUser } from '../auth/decorators';
+
+@ApiTags('seller-portal')
+@Controller('seller')
+@UseGuards(SellerGuard)
+@ApiBearerAuth('JWT-auth')
+@ApiResponse({ status: 403, description: 'Forbidden - not a seller' })
+export class SellerPortalController {
+  constructor(
+    private readonly sellerPortalService: SellerPortalService,
+    private readonly sellerAnalyticsService: SellerAnalyticsService,
+    private readonly subOrdersService: SubOrdersService,
+    private readonly settlementsService: SettlementsService,
+    private readonly payoutBatchesService: PayoutBatchesService,
+  ) {}
+
+  @Get('sub-orders')
+  @ApiOperation({ summary: 'Sub-orders for my products' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sub-orders retrieved successfully',
+  })
+  findSubOrders(
+    @CurrentUser('id') sellerId: string,
+    @Query() filterDto: SubOrderFilterDto,
+  ) {
+    return this.subOrdersService.findForSeller(sellerId, filterDto);
+  }
+
+  @Get('sub-orders/:id')
+  @ApiOperation({ summary: 'Get one of my sub-orders' })
+  @ApiResponse({ status: 200, description: 'Sub-order retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Sub-order not found' })
+  findSubOrder(@CurrentUser('id') sellerId: string, @Param('id') id: string) {
+    return this.sellerPortalService.findSubOrder(sellerId, id);
+  }
+
+  @Patch('sub-orders/:id/accept')
+  @ApiOperation({ summary: 'Accept a sub-order and start preparing it' })
+  @ApiResponse({ status: 200, description: 'Sub-order accepted' })
+  @ApiResponse({ status: 400, description: 'Sub-order cannot be accepted' })
+  @ApiResponse({ status: 404, description: 'Sub-order not found' })
+  accept(
+    @CurrentUser('id') sellerId: string,
+    @Param('id') id: string,
+    @Body() noteDto: FulfilmentNoteDto,
+  ) {
+    return this.sellerPortalService.accept(sellerId, id, noteDto);
+  }
+
+  @Patch('sub-orders/:id/ready')
+  @ApiOperation({ summary: 'Mark a sub-order packed and ready for pickup' })
+  @ApiResponse({ status: 200, description: 'Sub-order marked ready' })
+  @ApiResponse({ status: 400, description: 'Sub-order cannot be marked ready' })
+  @ApiResponse({ status: 404, description: 'Sub-order not found' })
+  markReady(
+    @CurrentUser('id') sellerId: string,
+    @Param('id') id: string,
+    @Body() noteDto: FulfilmentNoteDto,
+  ) {
+    return this.sellerPortalService.markReady(sellerId, id, noteDto);
+  }
+
+  @Post('sub-orders/:id/out-of-stock')
+  @ApiOperation({
+    summary:
+      'Report an item out of stock; it is refunded or swapped for one of my products',
+  })
+  @ApiResponse({ status: 201, description: 'Item substituted or refunded' })
+  @ApiResponse({
+    status: 400,
+    description: 'Sub-order is past preparing or substitute not allowed',
+  })
+  @ApiResponse({ status: 404, description: 'Sub-order or item not found' })
+  reportOutOfStock(
+    @CurrentUser('id') sellerId: string,
+    @Param('id') id: string,
+    @Body() reportDto: ReportOutOfStockDto,
+  ) {
+    return this.sellerPortalService.reportOutOfStock(sellerId, id, reportDto);
+  }
+
+  @Get('inventory')
+  @ApiOperation({ summary: 'My products with stock and reserved quantities' })
+  @ApiResponse({ status: 200, description: 'Inventory retrieved successfully' })
+  getInventory(
+    @CurrentUser('id') sellerId: string,
+    @Query() filterDto: InventoryFilterDto,
+  ) {
+    return this.sellerPortalService.getInventory(sellerId, filterDto);
+  }
+
+  @Get('inventory/alerts')
+  @ApiOperation({ summary: 'My products that are low or out of stock' })
+  @ApiResponse({ status: 200, description: 'Alerts retrieved successfully' })
+  getStockAlerts(@CurrentUser('id') sellerId: string) {
+    return this.sellerPortalService.getStockAlerts(sellerId);
+  }
+
+  @Patch('inventory/:productId/stock')
+  @ApiOperation({ summary: 'Restock or write off one of my products' })
+  @ApiResponse({ status: 200, description: 'Stock updated successfully' })
+  @ApiResponse({ status: 400, description: 'Insufficient stock' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  updateStock(
+    @CurrentUser('id') sellerId: string,
+    @Param('productId') productId: string,
+    @Body() updateStockDto: UpdateStockDto,
+  ) {
+    return this.sellerPortalService.updateStock(
+      sellerId,
+      productId,
+      updateStockDto,
+    );
+  }
+
+  @Get('analytics')
+  @ApiOperation({ summary: 'My sales, refunds and top products' })
+  @ApiResponse({ status: 200, description: 'Analytics retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid period' })
+  getAnalytics(
+    @CurrentUser('id') sellerId: string,
+    @Query() query: StatementQueryDto,
+  ) {
+    return this.sellerAnalyticsService.getAnalytics(sellerId, query);
+  }
+
+  @Get('payouts/statement')
+  @ApiOperation({ summary: 'My settlement statement and balances' })
+  @ApiResponse({ status: 200, description: 'Statement retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid statement period' })
+  getStatement(
+    @CurrentUser('id') sellerId: string,
+    @Query() query: StatementQueryDto,
+  ) {
+    return this.settlementsService.getStatement(sellerId, query);
+  }
+
+  @Get('payouts')
+  @ApiOperation({ summary: 'My payout batches' })
+  @ApiResponse({ status: 200, description: 'Batches retrieved successfully' })
+  findPayouts(
+    @CurrentUser('id') sellerId: string,
+    @Query() filterDto: PayoutBatchFilterDto,
+  ) {
+    return this.payoutBatchesService.findAll(filterDto, sellerId);
+  }
+
+  @Get('payouts/:id')
+  @ApiOperation({ summary: 'One of my payout batches with its earnings' })
+  @ApiResponse({ status: 200, description: 'Batch retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Batch not found' })
+  findPayout(@CurrentUser('id') sellerId: string, @Param('id') id: string) {
+    return this.payoutBatchesService.findOne(id, sellerId);
+  }
+
+  @Get('payout-account')
+  @ApiOperation({ summary: 'Where my payouts go' })
+  @ApiResponse({ status: 200, description: 'Payout account retrieved' })
+  getPayoutAccount(@CurrentUser('id') sellerId: string) {
+    return this.settlementsService.getPayoutAccount(sellerId);
+  }
+
+  @Put('payout-account')
+  @ApiOperation({ summary: 'Choose wallet or bank payouts' })
+  @ApiResponse({ status: 200, description: 'Payout account updated' })
+  @ApiResponse({ status: 400, description: 'Bank details missing' })
+  updatePayoutAccount(
+    @CurrentUser('id') sellerId: string,
+    @Body() updateDto: UpdatePayoutAccountDto,
+  ) {
+    return this.settlementsService.updatePayoutAccount(sellerId, updateDto);
+  }
+}
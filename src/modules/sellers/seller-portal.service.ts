@@ -0,0 +1,278 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Product, ProductDocument } from '../products/entities/product.entity';
+import {
+  SubOrderDocument,
+  SubOrderStatus,
+} from '../orders/entities/sub-order.entity';
+import {
+  StockReservation,
+  StockReservationDocument,
+  ReservationStatus,
+} from '../orders/entities/stock-reservation.entity';
+import { SubOrdersService } from '../orders/services/sub-orders.service';
+import { OrderSubstitutionService } from '../orders/services/order-substitution.service';
+import { ProductsService } from '../products/products.service';
+import { PRODUCT_CONSTANTS } from '../products/constants';
+import {
+  UpdateStockDto,
+  StockOperation,
+} from '../products/dto/update-stock.dto';
+import { UserRole } from '../users/entities/user.entity';
+import {
+  FulfilmentNoteDto,
+  ReportOutOfStockDto,
+  InventoryFilterDto,
+} from './dto/seller-portal.dto';
+import {
+  SELLER_CONSTANTS,
+  SELLER_ERROR_MESSAGES,
+  StockAlertLevel,
+} from './constants/seller.constants';
+
+/**
+ * Fulfilment and inventory for the calling seller. Every lookup is filtered
+ * by the seller's ID, and other sellers' records are reported as not found
+ * so their IDs cannot be probed.
+ */
+@Injectable()
+export class SellerPortalService {
+  constructor(
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(StockReservation.name)
+    private reservationModel: Model<StockReservationDocument>,
+    private readonly subOrdersService: SubOrdersService,
+    private readonly orderSubstitutionService: OrderSubstitutionService,
+    private readonly productsService: ProductsService,
+  ) {}
+
+  async findSubOrder(
+    sellerId: string,
+    subOrderId: string,
+  ): Promise<SubOrderDocument> {
+    let subOrder: SubOrderDocument;
+    try {
+      subOrder = await this.subOrdersService.findOne(subOrderId);
+    } catch (error) {
+      throw new NotFoundException(SELLER_ERROR_MESSAGES.SUB_ORDER_NOT_FOUND);
+    }
+
+    if (subOrder.sellerId?.toString() !== sellerId) {
+      throw new NotFoundException(SELLER_ERROR_MESSAGES.SUB_ORDER_NOT_FOUND);
+    }
+
+    return subOrder;
+  }
+
+  /**
+   * Seller takes the sub-order and starts picking it
+   */
+  async accept(
+    sellerId: string,
+    subOrderId: string,
+    noteDto: FulfilmentNoteDto,
+  ): Promise<SubOrderDocument> {
+    await this.findSubOrder(sellerId, subOrderId);
+
+    return this.subOrdersService.updateStatus(
+      subOrderId,
+      {
+        status: SubOrderStatus.PREPARING,
+        notes: noteDto.notes || 'Accepted by seller',
+      },
+      sellerId,
+      UserRole.USER,
+    );
+  }
+
+  /**
+   * Items are packed and waiting for the rider
+   */
+  async markReady(
+    sellerId: string,
+    subOrderId: string,
+    noteDto: FulfilmentNoteDto,
+  ): Promise<SubOrderDocument> {
+    await this.findSubOrder(sellerId, subOrderId);
+
+    return this.subOrdersService.updateStatus(
+      subOrderId,
+      {
+        status: SubOrderStatus.READY,
+        notes: noteDto.notes || 'Ready for pickup',
+      },
+      sellerId,
+      UserRole.USER,
+    );
+  }
+
+  /**
+   * Seller cannot supply an item. Runs through the order's substitution
+   * flow, so the customer's preference is honoured and the price
+   * difference is settled against their wallet.
+   */
+  async reportOutOfStock(
+    sellerId: string,
+    subOrderId: string,
+    reportDto: ReportOutOfStockDto,
+  ): Promise<SubOrderDocument> {
+    const subOrder = await this.findSubOrder(sellerId, subOrderId);
+
+    if (
+      !(SELLER_CONSTANTS.OUT_OF_STOCK_STATUSES as readonly string[]).includes(
+        subOrder.status,
+      )
+    ) {
+      throw new BadRequestException(
+        SELLER_ERROR_MESSAGES.OUT_OF_STOCK_TOO_LATE,
+      );
+    }
+
+    const onSubOrder = subOrder.items.some(
+      (item) => item.productId.toString() === reportDto.productId,
+    );
+    if (!onSubOrder) {
+      throw new NotFoundException(SELLER_ERROR_MESSAGES.ITEM_NOT_ON_SUB_ORDER);
+    }
+
+    if (reportDto.substituteProductId) {
+      const ownsSubstitute = await this.productModel.exists({
+        _id: new Types.ObjectId(reportDto.substituteProductId),
+        sellerId: new Types.ObjectId(sellerId),
+      });
+      if (!ownsSubstitute) {
+        throw new ForbiddenException(
+          SELLER_ERROR_MESSAGES.SUBSTITUTE_NOT_OWNED,
+        );
+      }
+    }
+
+    await this.orderSubstitutionService.recordSubstitution(
+      subOrder.parentOrderId.toString(),
+      sellerId,
+      reportDto,
+    );
+
+    return this.subOrdersService.findOne(subOrderId);
+  }
+
+  /**
+   * The seller's products with stock held by unpaid checkouts alongside
+   */
+  async getInventory(sellerId: string, filterDto: InventoryFilterDto) {
+    const { lowStockOnly, page = 1, limit = 20 } = filterDto;
+    const query: any = { sellerId: new Types.ObjectId(sellerId) };
+    if (lowStockOnly) {
+      query.stock = { $lte: PRODUCT_CONSTANTS.LOW_STOCK_THRESHOLD };
+    }
+
+    const [products, total] = await Promise.all([
+      this.productModel
+        .find(query)
+        .select('name category city price stock isActive')
+        .sort({ stock: 1, name: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      this.productModel.countDocuments(query),
+    ]);
+
+    const reserved = await this.getReservedQuantities(
+      products.map((product) => product._id as Types.ObjectId),
+    );
+
+    return {
+      products: products.map((product) => ({
+        ...product,
+        reserved: reserved.get(product._id.toString()) || 0,
+        isLowStock: product.stock <= PRODUCT_CONSTANTS.LOW_STOCK_THRESHOLD,
+        isOutOfStock: product.stock === 0,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Active products that are running out, emptiest first
+   */
+  async getStockAlerts(sellerId: string) {
+    const products = await this.productModel
+      .find({
+        sellerId: new Types.ObjectId(sellerId),
+        isActive: true,
+        stock: { $lte: PRODUCT_CONSTANTS.LOW_STOCK_THRESHOLD },
+      })
+      .select('name category stock')
+      .sort({ stock: 1 })
+      .lean();
+
+    return {
+      threshold: PRODUCT_CONSTANTS.LOW_STOCK_THRESHOLD,
+      alerts: products.map((product) => ({
+        productId: product._id,
+        name: product.name,
+        category: product.category,
+        stock: product.stock,
+        level:
+          product.stock === 0
+            ? StockAlertLevel.OUT_OF_STOCK
+            : StockAlertLevel.LOW_STOCK,
+      })),
+    };
+  }
+
+  async updateStock(
+    sellerId: string,
+    productId: string,
+    updateStockDto: UpdateStockDto,
+  ): Promise<Product> {
+    return this.productsService.updateStock(
+      productId,
+      updateStockDto.quantity,
+      updateStockDto.operation || StockOperation.SUBTRACT,
+      sellerId,
+      UserRole.USER,
+    );
+  }
+
+  private async getReservedQuantities(
+    productIds: Types.ObjectId[],
+  ): Promise<Map<string, number>> {
+    if (!productIds.length) {
+      return new Map();
+    }
+
+    const rows = await this.reservationModel.aggregate<{
+      _id: Types.ObjectId;
+      quantity: number;
+    }>([
+      {
+        $match: {
+          status: ReservationStatus.ACTIVE,
+          'items.productId': { $in: productIds },
+        },
+      },
+      { $unwind: '$items' },
+      { $match: { 'items.productId': { $in: productIds } } },
+      {
+        $group: {
+          _id: '$items.productId',
+          quantity: { $sum: '$items.quantity' },
+        },
+      },
+    ]);
+
+    return new Map(rows.map((row) => [row._id.toString(), row.quantity]));
+  }
+}
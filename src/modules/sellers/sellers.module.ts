@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SellerPortalController } from './seller-portal.controller';
+import { SellerPortalService } from './seller-portal.service';
+import { SellerAnalyticsService } from './services/seller-analytics.service';
+import { SellerGuard } from './guards/seller.guard';
+import { Product, ProductSchema } from '../products/entities/product.entity';
+import { SubOrder, SubOrderSchema } from '../orders/entities/sub-order.entity';
+import {
+  StockReservation,
+  StockReservationSchema,
+} from '../orders/entities/stock-reservation.entity';
+import {
+  SellerEarning,
+  SellerEarningSchema,
+} from '../settlements/entities/seller-earning.entity';
+import { OrdersModule } from '../orders/orders.module';
+import { ProductsModule } from '../products/products.module';
+import { SettlementsModule } from '../settlements/settlements.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Product.name, schema: ProductSchema },
+      { name: SubOrder.name, schema: SubOrderSchema },
+      { name: StockReservation.name, schema: StockReservationSchema },
+      { name: SellerEarning.name, schema: SellerEarningSchema },
+    ]),
+    OrdersModule,
+    ProductsModule,
+    SettlementsModule,
+  ],
+  controllers: [SellerPortalController],
+  providers: [SellerPortalService, SellerAnalyticsService, SellerGuard],
+  exports: [SellerPortalService, SellerAnalyticsService],
+})
+export class SellersModule {}
@@ -0,0 +1,167 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  SellerEarning,
+  SellerEarningDocument,
+} from '../../settlements/entities/seller-earning.entity';
+import { EarningType } from '../../settlements/constants/settlement.constants';
+import { StatementQueryDto } from '../../settlements/dto/settlement.dto';
+import {
+  SubOrder,
+  SubOrderDocument,
+} from '../../orders/entities/sub-order.entity';
+import {
+  SELLER_CONSTANTS,
+  SELLER_ERROR_MESSAGES,
+} from '../constants/seller.constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sales and refund figures for a seller. Sales are read from the settlement
+ * ledger, so they count delivered items at what the seller was credited and
+ * refunds at what was clawed back.
+ */
+@Injectable()
+export class SellerAnalyticsService {
+  constructor(
+    @InjectModel(SellerEarning.name)
+    private earningModel: Model<SellerEarningDocument>,
+    @InjectModel(SubOrder.name) private subOrderModel: Model<SubOrderDocument>,
+  ) {}
+
+  async getAnalytics(sellerId: string, query: StatementQueryDto) {
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - SELLER_CONSTANTS.DEFAULT_PERIOD_DAYS * DAY_MS);
+    if (from >= to) {
+      throw new BadRequestException(SELLER_ERROR_MESSAGES.INVALID_PERIOD);
+    }
+
+    const match = {
+      sellerId: new Types.ObjectId(sellerId),
+      createdAt: { $gte: from, $lte: to },
+    };
+
+    const [totals, daily, topProducts, subOrders] = await Promise.all([
+      this.earningModel.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: '$type',
+            quantity: { $sum: '$quantity' },
+            gross: { $sum: '$grossAmount' },
+            commission: { $sum: '$commissionAmount' },
+            net: { $sum: '$netAmount' },
+            subOrders: { $addToSet: '$subOrderId' },
+          },
+        },
+      ]),
+      this.earningModel.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: {
+              $dateToString: { format: '%Y-%m-%d', date: '$createdAt' },
+            },
+            sales: {
+              $sum: {
+                $cond: [
+                  { $eq: ['$type', EarningType.SALE] },
+                  '$grossAmount',
+                  0,
+                ],
+              },
+            },
+            refunds: {
+              $sum: {
+                $cond: [
+                  { $eq: ['$type', EarningType.ADJUSTMENT] },
+                  { $multiply: ['$grossAmount', -1] },
+                  0,
+                ],
+              },
+            },
+            net: { $sum: '$netAmount' },
+          },
+        },
+        { $sort: { _id: 1 } },
+      ]),
+      this.earningModel.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: '$productId',
+            unitsSold: { $sum: '$quantity' },
+            sales: { $sum: '$grossAmount' },
+            net: { $sum: '$netAmount' },
+          },
+        },
+        { $sort: { sales: -1 } },
+        { $limit: SELLER_CONSTANTS.TOP_PRODUCTS_LIMIT },
+        {
+          $lookup: {
+            from: 'products',
+            localField: '_id',
+            foreignField: '_id',
+            as: 'product',
+          },
+        },
+        { $unwind: { path: '$product', preserveNullAndEmptyArrays: true } },
+        {
+          $project: {
+            _id: 0,
+            productId: '$_id',
+            name: '$product.name',
+            unitsSold: 1,
+            sales: 1,
+            net: 1,
+          },
+        },
+      ]),
+      this.subOrderModel.aggregate([
+        { $match: match },
+        { $group: { _id: '$status', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const sales = totals.find((row) => row._id === EarningType.SALE);
+    const refunds = totals.find((row) => row._id === EarningType.ADJUSTMENT);
+    const grossSales = this.round(sales?.gross || 0);
+    const refundedAmount = this.round(-(refunds?.gross || 0));
+
+    return {
+      period: { from, to },
+      summary: {
+        deliveredSubOrders: sales?.subOrders.length || 0,
+        unitsSold: sales?.quantity || 0,
+        grossSales,
+        commission: this.round(
+          (sales?.commission || 0) + (refunds?.commission || 0),
+        ),
+        refundedAmount,
+        refundedUnits: -(refunds?.quantity || 0),
+        netEarnings: this.round((sales?.net || 0) + (refunds?.net || 0)),
+        refundRate: grossSales
+          ? Math.round((refundedAmount / grossSales) * 10000) / 100
+          : 0,
+      },
+      daily: daily.map((row) => ({
+        date: row._id,
+        sales: this.round(row.sales),
+        refunds: this.round(row.refunds),
+        net: this.round(row.net),
+      })),
+      topProducts,
+      subOrdersByStatus: Object.fromEntries(
+        subOrders.map((row) => [row._id, row.count]),
+      ),
+    };
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
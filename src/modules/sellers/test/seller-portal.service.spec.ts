@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { SellerPortalService } from '../seller-portal.service';
+import { Product } from '../../products/entities/product.entity';
+import { StockReservation } from '../../orders/entities/stock-reservation.entity';
+import { SubOrderStatus } from '../../orders/entities/sub-order.entity';
+import { SubOrdersService } from '../../orders/services/sub-orders.service';
+import { OrderSubstitutionService } from '../../orders/services/order-substitution.service';
+import { ProductsService } from '../../products/products.service';
+import { UserRole } from '../../users/entities/user.entity';
+import { StockAlertLevel } from '../constants/seller.constants';
+
+describe('SellerPortalService', () => {
+  let service: SellerPortalService;
+  let productModel: any;
+  let reservationModel: any;
+  let subOrdersService: any;
+  let orderSubstitutionService: any;
+
+  const sellerId = new Types.ObjectId().toString();
+  const otherSellerId = new Types.ObjectId().toString();
+  const productId = new Types.ObjectId();
+  const subOrderId = new Types.ObjectId().toString();
+  const parentOrderId = new Types.ObjectId();
+
+  const buildSubOrder = (overrides: any = {}) => ({
+    _id: subOrderId,
+    parentOrderId,
+    sellerId: new Types.ObjectId(sellerId),
+    status: SubOrderStatus.CONFIRMED,
+    items: [{ productId, quantity: 2 }],
+    ...overrides,
+  });
+
+  const leanQuery = (result: any) => {
+    const query: any = {};
+    ['select', 'sort', 'skip', 'limit'].forEach((method) => {
+      query[method] = jest.fn(() => query);
+    });
+    query.lean = jest.fn().mockResolvedValue(result);
+    return query;
+  };
+
+  beforeEach(async () => {
+    productModel = {
+      find: jest.fn(),
+      countDocuments: jest.fn().mockResolvedValue(0),
+      exists: jest.fn(),
+    };
+    reservationModel = { aggregate: jest.fn().mockResolvedValue([]) };
+    subOrdersService = {
+      findOne: jest.fn().mockResolvedValue(buildSubOrder()),
+      updateStatus: jest.fn().mockResolvedValue(buildSubOrder()),
+    };
+    orderSubstitutionService = { recordSubstitution: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SellerPortalService,
+        { provide: getModelToken(Product.name), useValue: productModel },
+        {
+          provide: getModelToken(StockReservation.name),
+          useValue: reservationModel,
+        },
+        { provide: SubOrdersService, useValue: subOrdersService },
+        {
+          provide: OrderSubstitutionService,
+          useValue: orderSubstitutionService,
+        },
+        { provide: ProductsService, useValue: { updateStock: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<SellerPortalService>(SellerPortalService);
+  });
+
+  describe('findSubOrder', () => {
+    it("should hide another seller's sub-order as not found", async () => {
+      await expect(
+        service.findSubOrder(otherSellerId, subOrderId),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('accept', () => {
+    it('should move the sub-order to preparing as the seller', async () => {
+      await service.accept(sellerId, subOrderId, {});
+
+      expect(subOrdersService.updateStatus).toHaveBeenCalledWith(
+        subOrderId,
+        { status: SubOrderStatus.PREPARING, notes: 'Accepted by seller' },
+        sellerId,
+        UserRole.USER,
+      );
+    });
+  });
+
+  describe('reportOutOfStock', () => {
+    it('should run the substitution against the parent order', async () => {
+      await service.reportOutOfStock(sellerId, subOrderId, {
+        productId: productId.toString(),
+      });
+
+      expect(orderSubstitutionService.recordSubstitution).toHaveBeenCalledWith(
+        parentOrderId.toString(),
+        sellerId,
+        { productId: productId.toString() },
+      );
+    });
+
+    it('should reject once the sub-order is ready', async () => {
+      subOrdersService.findOne.mockResolvedValue(
+        buildSubOrder({ status: SubOrderStatus.READY }),
+      );
+
+      await expect(
+        service.reportOutOfStock(sellerId, subOrderId, {
+          productId: productId.toString(),
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it("should not allow substituting another seller's product", async () => {
+      productModel.exists.mockResolvedValue(null);
+
+      await expect(
+        service.reportOutOfStock(sellerId, subOrderId, {
+          productId: productId.toString(),
+          substituteProductId: new Types.ObjectId().toString(),
+        }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(
+        orderSubstitutionService.recordSubstitution,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('inventory', () => {
+    it('should show reserved stock and flag low stock', async () => {
+      productModel.find.mockReturnValue(
+        leanQuery([
+          { _id: productId, name: 'Rice', stock: 4 },
+          { _id: new Types.ObjectId(), name: 'Beans', stock: 50 },
+        ]),
+      );
+      productModel.countDocuments.mockResolvedValue(2);
+      reservationModel.aggregate.mockResolvedValue([
+        { _id: productId, quantity: 3 },
+      ]);
+
+      const { products } = await service.getInventory(sellerId, {});
+
+      expect(products[0]).toEqual(
+        expect.objectContaining({ reserved: 3, isLowStock: true }),
+      );
+      expect(products[1]).toEqual(
+        expect.objectContaining({ reserved: 0, isLowStock: false }),
+      );
+    });
+
+    it('should mark empty products out of stock in alerts', async () => {
+      productModel.find.mockReturnValue(
+        leanQuery([
+          { _id: productId, name: 'Rice', stock: 0 },
+          { _id: new Types.ObjectId(), name: 'Beans', stock: 6 },
+        ]),
+      );
+
+      const { alerts } = await service.getStockAlerts(sellerId);
+
+      expect(alerts.map((alert) => alert.level)).toEqual([
+        StockAlertLevel.OUT_OF_STOCK,
+        StockAlertLevel.LOW_STOCK,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { RETURN_CONFIG } from '../../orders/constants';
+
+export enum EarningType {
+  SALE = 'sale', // Seller's share of a delivered line
+  ADJUSTMENT = 'adjustment', // Negative; reverses part of a sale after a refund
+}
+
+export enum EarningStatus {
+  PENDING = 'pending', // Not in a batch yet; held until availableAt
+  BATCHED = 'batched',
+  PAID = 'paid',
+}
+
+export enum CommissionScope {
+  CATEGORY = 'category',
+  SELLER = 'seller', // Overrides the category rate for all of a seller's items
+}
+
+export enum PayoutMethod {
+  WALLET = 'wallet', // Food Money wallet, credited on approval
+  BANK = 'bank', // Transferred outside the platform, then marked paid
+}
+
+export enum PayoutBatchStatus {
+  PENDING_APPROVAL = 'pending_approval',
+  APPROVED = 'approved', // Bank batches waiting on the transfer
+  PAID = 'paid',
+  REJECTED = 'rejected', // Earnings go back into the next batch
+}
+
+export const SETTLEMENT_CONFIG = {
+  DEFAULT_COMMISSION_RATE: 0.1, // platform share when no rule matches
+  HOLD_DAYS: RETURN_CONFIG.WINDOW_DAYS, // earnings wait out the return window
+  MIN_PAYOUT_AMOUNT: 1, // smaller balances roll over to the next week
+  BATCH_NUMBER_PREFIX: 'PAY',
+} as const;
+
+export const SETTLEMENT_ERROR_MESSAGES = {
+  BATCH_NOT_FOUND: 'Payout batch not found',
+  BATCH_INVALID_STATUS: 'Payout batch cannot be updated in its current status',
+  BATCH_NOT_BANK: 'Only bank payouts are marked paid by hand',
+  PAYOUT_FAILED: 'Crediting the seller wallet failed',
+  RULE_NOT_FOUND: 'Commission rule not found',
+  RULE_EXISTS: 'A commission rule already exists for this category or seller',
+  RULE_TARGET_REQUIRED:
+    'Category rules need a category and seller rules need a sellerId',
+  BANK_DETAILS_REQUIRED:
+    'Bank payouts need a bank name, account number and account name',
+  INVALID_PERIOD: 'Statement start date must be before its end date',
+} as const;
@@ -0,0 +1,170 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsBoolean,
+  IsMongoId,
+  IsDateString,
+  ValidateNested,
+  ValidateIf,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, PartialType, PickType } from '@nestjs/swagger';
+import { ProductCategory } from '../../products/entities/product.entity';
+import {
+  CommissionScope,
+  PayoutBatchStatus,
+  PayoutMethod,
+} from '../constants/settlement.constants';
+
+export class CreateCommissionRuleDto {
+  @ApiProperty({
+    description: 'What the rule applies to',
+    enum: CommissionScope,
+  })
+  @IsEnum(CommissionScope)
+  scope: CommissionScope;
+
+  @ApiProperty({
+    description: 'Category for category rules',
+    enum: ProductCategory,
+    required: false,
+  })
+  @ValidateIf((dto) => dto.scope === CommissionScope.CATEGORY)
+  @IsEnum(ProductCategory)
+  category?: ProductCategory;
+
+  @ApiProperty({ description: 'Seller for seller rules', required: false })
+  @ValidateIf((dto) => dto.scope === CommissionScope.SELLER)
+  @IsMongoId()
+  sellerId?: string;
+
+  @ApiProperty({ description: 'Commission rate, e.g. 0.08 for 8%' })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  rate: number;
+
+  @ApiProperty({ description: 'Why the rate was agreed', required: false })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class UpdateCommissionRuleDto extends PartialType(
+  PickType(CreateCommissionRuleDto, ['rate', 'notes'] as const),
+) {
+  @ApiProperty({ description: 'Whether the rule is applied', required: false })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class BankDetailsDto {
+  @ApiProperty({ description: 'Bank name', example: 'GTBank' })
+  @IsString()
+  @IsNotEmpty()
+  bankName: string;
+
+  @ApiProperty({ description: 'Account number', example: '0123456789' })
+  @IsString()
+  @IsNotEmpty()
+  accountNumber: string;
+
+  @ApiProperty({ description: 'Name on the account' })
+  @IsString()
+  @IsNotEmpty()
+  accountName: string;
+}
+
+export class UpdatePayoutAccountDto {
+  @ApiProperty({ description: 'Where payouts go', enum: PayoutMethod })
+  @IsEnum(PayoutMethod)
+  method: PayoutMethod;
+
+  @ApiProperty({
+    description: 'Account for bank payouts',
+    type: BankDetailsDto,
+    required: false,
+  })
+  @ValidateIf((dto) => dto.method === PayoutMethod.BANK)
+  @ValidateNested()
+  @Type(() => BankDetailsDto)
+  bankDetails?: BankDetailsDto;
+}
+
+export class StatementQueryDto {
+  @ApiProperty({
+    description: 'Start of the statement period (defaults to 30 days ago)',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    description: 'End of the statement period (defaults to now)',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class PayoutBatchFilterDto {
+  @ApiProperty({
+    description: 'Filter by batch status',
+    enum: PayoutBatchStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(PayoutBatchStatus)
+  status?: PayoutBatchStatus;
+
+  @ApiProperty({ description: 'Filter by seller (admins)', required: false })
+  @IsOptional()
+  @IsMongoId()
+  sellerId?: string;
+
+  @ApiProperty({
+    description: 'Page number for pagination',
+    required: false,
+    minimum: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    required: false,
+    minimum: 1,
+    default: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  limit?: number = 10;
+}
+
+export class RejectPayoutBatchDto {
+  @ApiProperty({ description: 'Why the batch was rejected' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class MarkBatchPaidDto {
+  @ApiProperty({ description: 'Bank transfer reference' })
+  @IsString()
+  @IsNotEmpty()
+  transferReference: string;
+}
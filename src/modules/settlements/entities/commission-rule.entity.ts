@@ -0,0 +1,67 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { ProductCategory } from '../../products/entities/product.entity';
+import { CommissionScope } from '../constants/settlement.constants';
+
+export type CommissionRuleDocument = CommissionRule & Document;
+
+/**
+ * Platform commission for a category or a seller. A seller rule beats a
+ * category rule; with neither the default rate applies.
+ */
+@Schema({ timestamps: true })
+export class CommissionRule {
+  @ApiProperty({
+    description: 'What the rule applies to',
+    enum: CommissionScope,
+  })
+  @Prop({ required: true, enum: Object.values(CommissionScope) })
+  scope: CommissionScope;
+
+  @ApiProperty({
+    description: 'Category for category rules',
+    enum: ProductCategory,
+    required: false,
+  })
+  @Prop({ required: false, enum: Object.values(ProductCategory) })
+  category?: ProductCategory;
+
+  @ApiProperty({ description: 'Seller for seller rules', required: false })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'User' })
+  sellerId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Commission rate, e.g. 0.08 for 8%' })
+  @Prop({ required: true, type: Number, min: 0, max: 1 })
+  rate: number;
+
+  @ApiProperty({ description: 'Whether the rule is applied' })
+  @Prop({ required: true, type: Boolean, default: true })
+  isActive: boolean;
+
+  @ApiProperty({ description: 'Why the rate was agreed', required: false })
+  @Prop({ required: false, type: String })
+  notes?: string;
+
+  @ApiProperty({ description: 'Admin who created the rule' })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const CommissionRuleSchema =
+  SchemaFactory.createForClass(CommissionRule);
+
+CommissionRuleSchema.index(
+  { category: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { scope: CommissionScope.CATEGORY },
+  },
+);
+CommissionRuleSchema.index(
+  { sellerId: 1 },
+  { unique: true, partialFilterExpression: { scope: CommissionScope.SELLER } },
+);
@@ -0,0 +1,119 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  PayoutBatchStatus,
+  PayoutMethod,
+} from '../constants/settlement.constants';
+
+export type PayoutBatchDocument = PayoutBatch & Document;
+
+@Schema({ _id: false })
+export class BankDetails {
+  @ApiProperty({ description: 'Bank name' })
+  @Prop({ required: true, type: String })
+  bankName: string;
+
+  @ApiProperty({ description: 'Account number' })
+  @Prop({ required: true, type: String })
+  accountNumber: string;
+
+  @ApiProperty({ description: 'Name on the account' })
+  @Prop({ required: true, type: String })
+  accountName: string;
+}
+
+/**
+ * One seller's weekly payout: every earning that cleared the return window,
+ * less any refund adjustments since the last batch
+ */
+@Schema({ timestamps: true })
+export class PayoutBatch {
+  @ApiProperty({ description: 'Batch reference', example: 'PAY-20261019-AB12' })
+  @Prop({ required: true, type: String })
+  batchNumber: string;
+
+  @ApiProperty({ description: 'Seller being paid' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  sellerId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Earliest earning in the batch' })
+  @Prop({ required: true, type: Date })
+  periodStart: Date;
+
+  @ApiProperty({ description: 'When the batch was cut' })
+  @Prop({ required: true, type: Date })
+  periodEnd: Date;
+
+  @ApiProperty({ description: 'Number of earnings and adjustments' })
+  @Prop({ required: true, type: Number, min: 1 })
+  earningCount: number;
+
+  @ApiProperty({ description: 'Sales paid by customers in NGN' })
+  @Prop({ required: true, type: Number })
+  salesAmount: number;
+
+  @ApiProperty({ description: 'Commission on those sales in NGN' })
+  @Prop({ required: true, type: Number })
+  commissionAmount: number;
+
+  @ApiProperty({ description: 'Refund adjustments (negative) in NGN' })
+  @Prop({ required: true, type: Number, default: 0 })
+  adjustmentAmount: number;
+
+  @ApiProperty({ description: 'Paid to the seller in NGN' })
+  @Prop({ required: true, type: Number, min: 0 })
+  netAmount: number;
+
+  @ApiProperty({ description: 'Where the money goes', enum: PayoutMethod })
+  @Prop({ required: true, enum: Object.values(PayoutMethod) })
+  method: PayoutMethod;
+
+  @ApiProperty({
+    description: 'Account for bank payouts',
+    type: BankDetails,
+    required: false,
+  })
+  @Prop({ required: false, type: BankDetails })
+  bankDetails?: BankDetails;
+
+  @ApiProperty({ description: 'Batch status', enum: PayoutBatchStatus })
+  @Prop({
+    required: true,
+    enum: Object.values(PayoutBatchStatus),
+    default: PayoutBatchStatus.PENDING_APPROVAL,
+  })
+  status: PayoutBatchStatus;
+
+  @ApiProperty({ description: 'Admin who approved or rejected the batch' })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'User' })
+  reviewedBy?: Types.ObjectId;
+
+  @ApiProperty({ description: 'When the batch was approved or rejected' })
+  @Prop({ required: false, type: Date })
+  reviewedAt?: Date;
+
+  @ApiProperty({ description: 'Why the batch was rejected', required: false })
+  @Prop({ required: false, type: String })
+  rejectionReason?: string;
+
+  @ApiProperty({ description: 'When the seller was paid', required: false })
+  @Prop({ required: false, type: Date })
+  paidAt?: Date;
+
+  @ApiProperty({
+    description: 'Wallet transaction ID or bank transfer reference',
+    required: false,
+  })
+  @Prop({ required: false, type: String })
+  transactionRef?: string;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const PayoutBatchSchema = SchemaFactory.createForClass(PayoutBatch);
+
+PayoutBatchSchema.index({ batchNumber: 1 }, { unique: true });
+PayoutBatchSchema.index({ sellerId: 1, createdAt: -1 });
+PayoutBatchSchema.index({ status: 1, createdAt: -1 });
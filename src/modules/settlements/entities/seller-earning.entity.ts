@@ -0,0 +1,110 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { ProductCategory } from '../../products/entities/product.entity';
+import { EarningStatus, EarningType } from '../constants/settlement.constants';
+
+export type SellerEarningDocument = SellerEarning & Document;
+
+/**
+ * What a seller is owed for one delivered line, or a negative adjustment
+ * when some of it is refunded. Amounts on adjustments are negative so
+ * batches and statements can simply add them up.
+ */
+@Schema({ timestamps: true })
+export class SellerEarning {
+  @ApiProperty({ description: 'Seller being paid' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  sellerId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Order the line was sold on' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Order' })
+  orderId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Sub-order number, for statements' })
+  @Prop({ required: true, type: String })
+  subOrderNumber: string;
+
+  @ApiProperty({ description: "Seller's sub-order the line belongs to" })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'SubOrder' })
+  subOrderId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Product sold' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Product' })
+  productId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Product category when sold', required: false })
+  @Prop({ required: false, enum: Object.values(ProductCategory) })
+  category?: ProductCategory;
+
+  @ApiProperty({ description: 'Sale or refund adjustment', enum: EarningType })
+  @Prop({ required: true, enum: Object.values(EarningType) })
+  type: EarningType;
+
+  @ApiProperty({ description: 'Units sold, or negative units refunded' })
+  @Prop({ required: true, type: Number, default: 0 })
+  quantity: number;
+
+  @ApiProperty({ description: 'What the customer paid for the line in NGN' })
+  @Prop({ required: true, type: Number })
+  grossAmount: number;
+
+  @ApiProperty({ description: 'Platform commission rate applied' })
+  @Prop({ required: true, type: Number, min: 0, max: 1 })
+  commissionRate: number;
+
+  @ApiProperty({ description: 'Platform commission in NGN' })
+  @Prop({ required: true, type: Number })
+  commissionAmount: number;
+
+  @ApiProperty({ description: 'Owed to the seller in NGN' })
+  @Prop({ required: true, type: Number })
+  netAmount: number;
+
+  @ApiProperty({ description: 'Payout status', enum: EarningStatus })
+  @Prop({
+    required: true,
+    enum: Object.values(EarningStatus),
+    default: EarningStatus.PENDING,
+  })
+  status: EarningStatus;
+
+  @ApiProperty({ description: 'When the return window closes' })
+  @Prop({ required: true, type: Date })
+  availableAt: Date;
+
+  @ApiProperty({ description: 'Payout batch paying this out', required: false })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'PayoutBatch' })
+  batchId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Sale an adjustment reverses', required: false })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'SellerEarning' })
+  saleEarningId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Refund behind an adjustment', required: false })
+  @Prop({ required: false, type: String })
+  refundId?: string;
+
+  @ApiProperty({ description: 'Why an adjustment was made', required: false })
+  @Prop({ required: false, type: String })
+  reason?: string;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const SellerEarningSchema = SchemaFactory.createForClass(SellerEarning);
+
+SellerEarningSchema.index({ sellerId: 1, status: 1, availableAt: 1 });
+SellerEarningSchema.index({ sellerId: 1, createdAt: -1 });
+SellerEarningSchema.index({ orderId: 1, type: 1 });
+SellerEarningSchema.index({ batchId: 1 });
+// A line accrues once however many times delivery is reported
+SellerEarningSchema.index(
+  { subOrderId: 1, productId: 1 },
+  { unique: true, partialFilterExpression: { type: EarningType.SALE } },
+);
+SellerEarningSchema.index(
+  { refundId: 1, saleEarningId: 1 },
+  { unique: true, partialFilterExpression: { type: EarningType.ADJUSTMENT } },
+);
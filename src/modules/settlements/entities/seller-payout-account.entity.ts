@@ -0,0 +1,42 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { PayoutMethod } from '../constants/settlement.constants';
+import { BankDetails } from './payout-batch.entity';
+
+export type SellerPayoutAccountDocument = SellerPayoutAccount & Document;
+
+/**
+ * Where a seller wants to be paid. Sellers without one are paid to their
+ * Food Money wallet.
+ */
+@Schema({ timestamps: true })
+export class SellerPayoutAccount {
+  @ApiProperty({ description: 'Seller' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  sellerId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Payout method', enum: PayoutMethod })
+  @Prop({
+    required: true,
+    enum: Object.values(PayoutMethod),
+    default: PayoutMethod.WALLET,
+  })
+  method: PayoutMethod;
+
+  @ApiProperty({
+    description: 'Account for bank payouts',
+    type: BankDetails,
+    required: false,
+  })
+  @Prop({ required: false, type: BankDetails })
+  bankDetails?: BankDetails;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const SellerPayoutAccountSchema =
+  SchemaFactory.createForClass(SellerPayoutAccount);
+
+SellerPayoutAccountSchema.index({ sellerId: 1 }, { unique: true });
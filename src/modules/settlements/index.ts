@@ -0,0 +1,9 @@
+export * from './settlements.module';
+export * from './settlements.service';
+export * from './services/payout-batches.service';
+export * from './entities/seller-earning.entity';
+export * from './entities/commission-rule.entity';
+export * from './entities/payout-batch.entity';
+export * from './entities/seller-payout-account.entity';
+export * from './interfaces/settlement.interface';
+export * from './constants/settlement.constants';
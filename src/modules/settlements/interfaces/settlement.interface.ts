@@ -0,0 +1,50 @@
+import { Types } from 'mongoose';
+import { ProductCategory } from '../../products/entities/product.entity';
+import { SellerEarningDocument } from '../entities/seller-earning.entity';
+import { PayoutBatchDocument } from '../entities/payout-batch.entity';
+
+/**
+ * Commission rate for an item, from rules loaded up front
+ */
+export type CommissionResolver = (
+  sellerId: Types.ObjectId | undefined,
+  category?: ProductCategory,
+) => number;
+
+/**
+ * A refund on an order whose sellers may already have accrued earnings.
+ * Either the refunded lines are given, or the share of what was still paid
+ * that was refunded.
+ */
+export interface SettlementRefund {
+  orderId: string;
+  refundId: string;
+  items?: { productId: string; quantity: number }[];
+  fraction?: number;
+  reason?: string;
+}
+
+export interface SettlementTotals {
+  sales: number;
+  commission: number;
+  adjustments: number;
+  net: number;
+}
+
+export interface SettlementStatement {
+  sellerId: string;
+  period: { from: Date; to: Date };
+  totals: SettlementTotals;
+  balances: {
+    /** Still inside the return window */
+    held: number;
+    /** Cleared and waiting for the next weekly batch */
+    available: number;
+    /** In a batch awaiting approval or transfer */
+    inPayout: number;
+    /** Paid out, all time */
+    paid: number;
+  };
+  earnings: SellerEarningDocument[];
+  batches: PayoutBatchDocument[];
+}
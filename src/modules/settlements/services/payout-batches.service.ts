@@ -0,0 +1,374 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import {
+  PayoutBatch,
+  PayoutBatchDocument,
+} from '../entities/payout-batch.entity';
+import {
+  SellerEarning,
+  SellerEarningDocument,
+} from '../entities/seller-earning.entity';
+import { SettlementsService } from '../settlements.service';
+import { WalletsService } from '../../wallets/wallets.service';
+import { WalletType } from '../../wallets/dto';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../../wallets/entities/wallet-ledger-entry.entity';
+import { UserRole } from '../../users/entities/user.entity';
+import {
+  PayoutBatchFilterDto,
+  RejectPayoutBatchDto,
+  MarkBatchPaidDto,
+} from '../dto/settlement.dto';
+import {
+  EarningStatus,
+  PayoutBatchStatus,
+  PayoutMethod,
+  SETTLEMENT_CONFIG,
+  SETTLEMENT_ERROR_MESSAGES,
+} from '../constants/settlement.constants';
+
+/**
+ * Weekly seller payouts. Every earning past its hold goes into one batch per
+ * seller; an admin approves the batch, which credits the seller's wallet or
+ * clears it for a bank transfer.
+ */
+@Injectable()
+export class PayoutBatchesService {
+  private readonly logger = new Logger(PayoutBatchesService.name);
+
+  constructor(
+    @InjectModel(PayoutBatch.name)
+    private batchModel: Model<PayoutBatchDocument>,
+    @InjectModel(SellerEarning.name)
+    private earningModel: Model<SellerEarningDocument>,
+    private settlementsService: SettlementsService,
+    private walletsService: WalletsService,
+  ) {}
+
+  @Cron('0 5 * * 1') // Every Monday at 5:00 AM
+  async createWeeklyBatches(): Promise<void> {
+    try {
+      await this.runBatches();
+    } catch (error) {
+      this.logger.error('Failed to create weekly payout batches', error.stack);
+    }
+  }
+
+  /**
+   * Batch every seller's cleared earnings up to the cutoff. Sellers whose
+   * refunds outweigh their sales are skipped and carried to next week.
+   */
+  async runBatches(cutoff = new Date()): Promise<PayoutBatchDocument[]> {
+    const sellerIds: Types.ObjectId[] = await this.earningModel.distinct(
+      'sellerId',
+      { status: EarningStatus.PENDING, availableAt: { $lte: cutoff } },
+    );
+
+    const batches: PayoutBatchDocument[] = [];
+    for (const sellerId of sellerIds) {
+      try {
+        const batch = await this.createBatch(sellerId, cutoff);
+        if (batch) {
+          batches.push(batch);
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to batch payouts for seller ${sellerId}`,
+          error.stack,
+        );
+      }
+    }
+
+    this.logger.log(`Created ${batches.length} payout batches`);
+    return batches;
+  }
+
+  async findAll(filterDto: PayoutBatchFilterDto, sellerId?: string) {
+    const { status, page = 1, limit = 10 } = filterDto;
+    const query: any = {};
+    if (status) {
+      query.status = status;
+    }
+    if (sellerId || filterDto.sellerId) {
+      query.sellerId = new Types.ObjectId(sellerId || filterDto.sellerId);
+    }
+
+    const [batches, total] = await Promise.all([
+      this.batchModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.batchModel.countDocuments(query),
+    ]);
+
+    return {
+      batches,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * A batch with the earnings and adjustments in it
+   */
+  async findOne(id: string, userId?: string, userRole?: UserRole) {
+    const batch = Types.ObjectId.isValid(id)
+      ? await this.batchModel.findById(id)
+      : null;
+    if (!batch) {
+      throw new NotFoundException(SETTLEMENT_ERROR_MESSAGES.BATCH_NOT_FOUND);
+    }
+
+    if (
+      userId &&
+      userRole !== UserRole.ADMIN &&
+      batch.sellerId.toString() !== userId
+    ) {
+      throw new ForbiddenException('You can only view your own payouts');
+    }
+
+    const earnings = await this.earningModel
+      .find({ batchId: batch._id })
+      .sort({ createdAt: 1 });
+    return { batch, earnings };
+  }
+
+  /**
+   * Approve a batch. Wallet payouts are credited straight away; bank
+   * payouts wait for the transfer to be marked paid.
+   */
+  async approve(id: string, adminId: string): Promise<PayoutBatchDocument> {
+    await this.findOne(id);
+
+    // Claim the batch first so a double submit cannot pay twice
+    const batch = await this.batchModel.findOneAndUpdate(
+      { _id: id, status: PayoutBatchStatus.PENDING_APPROVAL },
+      {
+        status: PayoutBatchStatus.APPROVED,
+        reviewedBy: new Types.ObjectId(adminId),
+        reviewedAt: new Date(),
+      },
+      { new: true },
+    );
+    if (!batch) {
+      throw new BadRequestException(
+        SETTLEMENT_ERROR_MESSAGES.BATCH_INVALID_STATUS,
+      );
+    }
+
+    if (batch.method === PayoutMethod.BANK) {
+      this.logger.log(
+        `Payout batch ${batch.batchNumber} approved for bank transfer`,
+      );
+      return batch;
+    }
+
+    let transactionId: string;
+    try {
+      ({ transactionId } = await this.walletsService.creditWallet(
+        batch.sellerId.toString(),
+        WalletType.FOOD_MONEY,
+        batch.netAmount,
+        `Seller payout ${batch.batchNumber}`,
+        {
+          transactionType: LedgerTransactionType.SELLER_PAYOUT,
+          counterAccount: LedgerAccount.SYSTEM_PAYOUTS,
+          reference: {
+            type: LedgerReferenceType.PAYOUT_BATCH,
+            id: batch._id.toString(),
+          },
+          createdBy: adminId,
+        },
+      ));
+    } catch (error) {
+      await this.batchModel.updateOne(
+        { _id: batch._id },
+        {
+          status: PayoutBatchStatus.PENDING_APPROVAL,
+          $unset: { reviewedBy: 1, reviewedAt: 1 },
+        },
+      );
+      this.logger.error(
+        `Wallet payout for batch ${batch.batchNumber} failed`,
+        error.stack,
+      );
+      throw new BadRequestException(
+        `${SETTLEMENT_ERROR_MESSAGES.PAYOUT_FAILED}: ${error.message}`,
+      );
+    }
+
+    return this.settle(batch, transactionId);
+  }
+
+  /**
+   * Record the bank transfer for an approved bank batch
+   */
+  async markPaid(
+    id: string,
+    markPaidDto: MarkBatchPaidDto,
+  ): Promise<PayoutBatchDocument> {
+    const { batch } = await this.findOne(id);
+    if (batch.method !== PayoutMethod.BANK) {
+      throw new BadRequestException(SETTLEMENT_ERROR_MESSAGES.BATCH_NOT_BANK);
+    }
+
+    const claimed = await this.batchModel.findOneAndUpdate(
+      { _id: batch._id, status: PayoutBatchStatus.APPROVED },
+      { status: PayoutBatchStatus.PAID },
+      { new: true },
+    );
+    if (!claimed) {
+      throw new BadRequestException(
+        SETTLEMENT_ERROR_MESSAGES.BATCH_INVALID_STATUS,
+      );
+    }
+
+    return this.settle(claimed, markPaidDto.transferReference);
+  }
+
+  /**
+   * Reject a batch; its earnings go back into next week's batch
+   */
+  async reject(
+    id: string,
+    rejectDto: RejectPayoutBatchDto,
+    adminId: string,
+  ): Promise<PayoutBatchDocument> {
+    await this.findOne(id);
+
+    const batch = await this.batchModel.findOneAndUpdate(
+      {
+        _id: id,
+        // Wallet batches are paid as soon as they are approved
+        $or: [
+          { status: PayoutBatchStatus.PENDING_APPROVAL },
+          { status: PayoutBatchStatus.APPROVED, method: PayoutMethod.BANK },
+        ],
+      },
+      {
+        status: PayoutBatchStatus.REJECTED,
+        rejectionReason: rejectDto.reason,
+        reviewedBy: new Types.ObjectId(adminId),
+        reviewedAt: new Date(),
+      },
+      { new: true },
+    );
+    if (!batch) {
+      throw new BadRequestException(
+        SETTLEMENT_ERROR_MESSAGES.BATCH_INVALID_STATUS,
+      );
+    }
+
+    await this.earningModel.updateMany(
+      { batchId: batch._id },
+      { status: EarningStatus.PENDING, $unset: { batchId: 1 } },
+    );
+
+    this.logger.log(
+      `Payout batch ${batch.batchNumber} rejected: ${rejectDto.reason}`,
+    );
+    return batch;
+  }
+
+  private async createBatch(
+    sellerId: Types.ObjectId,
+    cutoff: Date,
+  ): Promise<PayoutBatchDocument | null> {
+    const earnings = await this.earningModel
+      .find({
+        sellerId,
+        status: EarningStatus.PENDING,
+        availableAt: { $lte: cutoff },
+      })
+      .sort({ createdAt: 1 });
+    const totals = this.settlementsService.summarize(earnings);
+    if (totals.net < SETTLEMENT_CONFIG.MIN_PAYOUT_AMOUNT) {
+      return null;
+    }
+
+    const account = await this.settlementsService.getPayoutAccount(
+      sellerId.toString(),
+    );
+    const toBank =
+      account.method === PayoutMethod.BANK && !!account.bankDetails;
+
+    const batch = await this.batchModel.create({
+      batchNumber: this.generateBatchNumber(),
+      sellerId,
+      periodStart: earnings[0].createdAt,
+      periodEnd: cutoff,
+      earningCount: earnings.length,
+      salesAmount: totals.sales,
+      commissionAmount: totals.commission,
+      adjustmentAmount: totals.adjustments,
+      netAmount: totals.net,
+      method: toBank ? PayoutMethod.BANK : PayoutMethod.WALLET,
+      bankDetails: toBank ? account.bankDetails : undefined,
+      status: PayoutBatchStatus.PENDING_APPROVAL,
+    });
+
+    const claimed = await this.earningModel.updateMany(
+      {
+        _id: { $in: earnings.map((earning) => earning._id) },
+        status: EarningStatus.PENDING,
+      },
+      { status: EarningStatus.BATCHED, batchId: batch._id },
+    );
+    if (claimed.modifiedCount !== earnings.length) {
+      // Another run batched some of them first; leave them all to it
+      await this.earningModel.updateMany(
+        { batchId: batch._id },
+        { status: EarningStatus.PENDING, $unset: { batchId: 1 } },
+      );
+      await this.batchModel.deleteOne({ _id: batch._id });
+      return null;
+    }
+
+    return batch;
+  }
+
+  private async settle(
+    batch: PayoutBatchDocument,
+    transactionRef: string,
+  ): Promise<PayoutBatchDocument> {
+    batch.status = PayoutBatchStatus.PAID;
+    batch.paidAt = new Date();
+    batch.transactionRef = transactionRef;
+    await batch.save();
+
+    await this.earningModel.updateMany(
+      { batchId: batch._id },
+      { status: EarningStatus.PAID },
+    );
+
+    this.logger.log(
+      `Paid seller ${batch.sellerId} ₦${batch.netAmount} for batch ${batch.batchNumber}`,
+    );
+    return batch;
+  }
+
+  private generateBatchNumber(): string {
+    const timestamp = Date.now().toString();
+    const random = Math.floor(Math.random() * 1000)
+      .toString()
+      .padStart(3, '0');
+    return `${SETTLEMENT_CONFIG.BATCH_NUMBER_PREFIX}-${timestamp.slice(-6)}${random}`;
+  }
+}
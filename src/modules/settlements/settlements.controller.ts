@@ -0,0 +1,155 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SettlementsService } from './settlements.service';
+import { PayoutBatchesService } from './services/payout-batches.service';
+import {
+  CreateCommissionRuleDto,
+  UpdateCommissionRuleDto,
+  StatementQueryDto,
+  PayoutBatchFilterDto,
+  RejectPayoutBatchDto,
+  MarkBatchPaidDto,
+} from './dto/settlement.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators';
+import { UserRole } from '../users/entities/user.entity';
+
+@ApiTags('settlements')
+@Controller('settlements')
+@ApiBearerAuth('JWT-auth')
+export class SettlementsController {
+  constructor(
+    private readonly settlementsService: SettlementsService,
+    private readonly payoutBatchesService: PayoutBatchesService,
+  ) {}
+
+  @Get('admin/sellers/:sellerId/statement')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: "A seller's settlement statement (admin)" })
+  @ApiResponse({ status: 200, description: 'Statement retrieved successfully' })
+  getSellerStatement(
+    @Param('sellerId') sellerId: string,
+    @Query() query: StatementQueryDto,
+  ) {
+    return this.settlementsService.getStatement(sellerId, query);
+  }
+
+  @Get('admin/batches')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List payout batches (admin)' })
+  @ApiResponse({ status: 200, description: 'Batches retrieved successfully' })
+  findAllBatches(@Query() filterDto: PayoutBatchFilterDto) {
+    return this.payoutBatchesService.findAll(filterDto);
+  }
+
+  @Post('admin/batches/run')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Batch cleared earnings now instead of waiting for Monday (admin)',
+  })
+  @ApiResponse({ status: 201, description: 'Batches created' })
+  runBatches() {
+    return this.payoutBatchesService.runBatches();
+  }
+
+  @Patch('admin/batches/:id/approve')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Approve a batch; wallet payouts are credited at once (admin)',
+  })
+  @ApiResponse({ status: 200, description: 'Batch approved' })
+  @ApiResponse({ status: 400, description: 'Batch cannot be approved' })
+  @ApiResponse({ status: 404, description: 'Batch not found' })
+  approveBatch(@Param('id') id: string, @CurrentUser('id') adminId: string) {
+    return this.payoutBatchesService.approve(id, adminId);
+  }
+
+  @Patch('admin/batches/:id/reject')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Reject a batch; its earnings roll into the next one (admin)',
+  })
+  @ApiResponse({ status: 200, description: 'Batch rejected' })
+  @ApiResponse({ status: 400, description: 'Batch cannot be rejected' })
+  @ApiResponse({ status: 404, description: 'Batch not found' })
+  rejectBatch(
+    @Param('id') id: string,
+    @CurrentUser('id') adminId: string,
+    @Body() rejectDto: RejectPayoutBatchDto,
+  ) {
+    return this.payoutBatchesService.reject(id, rejectDto, adminId);
+  }
+
+  @Patch('admin/batches/:id/paid')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Record the bank transfer for a batch (admin)' })
+  @ApiResponse({ status: 200, description: 'Batch marked paid' })
+  @ApiResponse({
+    status: 400,
+    description: 'Batch is not an approved bank payout',
+  })
+  @ApiResponse({ status: 404, description: 'Batch not found' })
+  markBatchPaid(
+    @Param('id') id: string,
+    @Body() markPaidDto: MarkBatchPaidDto,
+  ) {
+    return this.payoutBatchesService.markPaid(id, markPaidDto);
+  }
+
+  @Get('admin/commission-rules')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List commission rules (admin)' })
+  @ApiResponse({ status: 200, description: 'Rules retrieved successfully' })
+  findCommissionRules() {
+    return this.settlementsService.findCommissionRules();
+  }
+
+  @Post('admin/commission-rules')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Set the commission for a category or seller (admin)',
+  })
+  @ApiResponse({ status: 201, description: 'Rule created successfully' })
+  @ApiResponse({ status: 409, description: 'Rule already exists' })
+  createCommissionRule(
+    @CurrentUser('id') adminId: string,
+    @Body() createDto: CreateCommissionRuleDto,
+  ) {
+    return this.settlementsService.createCommissionRule(createDto, adminId);
+  }
+
+  @Patch('admin/commission-rules/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update a commission rule (admin)' })
+  @ApiResponse({ status: 200, description: 'Rule updated successfully' })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  updateCommissionRule(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateCommissionRuleDto,
+  ) {
+    return this.settlementsService.updateCommissionRule(id, updateDto);
+  }
+
+  @Delete('admin/commission-rules/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Delete a commission rule (admin)' })
+  @ApiResponse({ status: 200, description: 'Rule deleted' })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  removeCommissionRule(@Param('id') id: string) {
+    return this.settlementsService.removeCommissionRule(id);
+  }
+}
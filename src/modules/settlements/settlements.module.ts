@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SettlementsController } from './settlements.controller';
+import { SettlementsService } from './settlements.service';
+import { PayoutBatchesService } from './services/payout-batches.service';
+import {
+  SellerEarning,
+  SellerEarningSchema,
+} from './entities/seller-earning.entity';
+import {
+  CommissionRule,
+  CommissionRuleSchema,
+} from './entities/commission-rule.entity';
+import { PayoutBatch, PayoutBatchSchema } from './entities/payout-batch.entity';
+import {
+  SellerPayoutAccount,
+  SellerPayoutAccountSchema,
+} from './entities/seller-payout-account.entity';
+import { SubOrder, SubOrderSchema } from '../orders/entities/sub-order.entity';
+import { Product, ProductSchema } from '../products/entities/product.entity';
+import { WalletsModule } from '../wallets/wallets.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SellerEarning.name, schema: SellerEarningSchema },
+      { name: CommissionRule.name, schema: CommissionRuleSchema },
+      { name: PayoutBatch.name, schema: PayoutBatchSchema },
+      { name: SellerPayoutAccount.name, schema: SellerPayoutAccountSchema },
+      { name: SubOrder.name, schema: SubOrderSchema },
+      { name: Product.name, schema: ProductSchema },
+    ]),
+    WalletsModule,
+  ],
+  controllers: [SettlementsController],
+  providers: [SettlementsService, PayoutBatchesService],
+  exports: [SettlementsService, PayoutBatchesService],
+})
+export class SettlementsModule {}
@@ -0,0 +1,497 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  SellerEarning,
+  SellerEarningDocument,
+} from './entities/seller-earning.entity';
+import {
+  CommissionRule,
+  CommissionRuleDocument,
+} from './entities/commission-rule.entity';
+import {
+  PayoutBatch,
+  PayoutBatchDocument,
+} from './entities/payout-batch.entity';
+import {
+  SellerPayoutAccount,
+  SellerPayoutAccountDocument,
+} from './entities/seller-payout-account.entity';
+import {
+  Product,
+  ProductDocument,
+  ProductCategory,
+} from '../products/entities/product.entity';
+import {
+  SubOrder,
+  SubOrderDocument,
+  SubOrderStatus,
+} from '../orders/entities/sub-order.entity';
+import {
+  CreateCommissionRuleDto,
+  UpdateCommissionRuleDto,
+  UpdatePayoutAccountDto,
+  StatementQueryDto,
+} from './dto/settlement.dto';
+import {
+  CommissionResolver,
+  SettlementRefund,
+  SettlementStatement,
+  SettlementTotals,
+} from './interfaces/settlement.interface';
+import {
+  CommissionScope,
+  EarningStatus,
+  EarningType,
+  PayoutMethod,
+  SETTLEMENT_CONFIG,
+  SETTLEMENT_ERROR_MESSAGES,
+} from './constants/settlement.constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Seller earnings. Each delivered line accrues the seller's share less the
+ * platform commission, held until the return window closes; refunds add
+ * negative adjustments that come off the seller's next payout.
+ */
+@Injectable()
+export class SettlementsService {
+  private readonly logger = new Logger(SettlementsService.name);
+
+  constructor(
+    @InjectModel(SellerEarning.name)
+    private earningModel: Model<SellerEarningDocument>,
+    @InjectModel(CommissionRule.name)
+    private ruleModel: Model<CommissionRuleDocument>,
+    @InjectModel(PayoutBatch.name)
+    private batchModel: Model<PayoutBatchDocument>,
+    @InjectModel(SellerPayoutAccount.name)
+    private payoutAccountModel: Model<SellerPayoutAccountDocument>,
+    @InjectModel(SubOrder.name) private subOrderModel: Model<SubOrderDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+  ) {}
+
+  /**
+   * Load the commission rules that can apply to these sellers' items
+   */
+  async loadCommissionResolver(
+    sellerIds: Types.ObjectId[],
+  ): Promise<CommissionResolver> {
+    const rules = await this.ruleModel
+      .find({
+        isActive: true,
+        $or: [
+          { scope: CommissionScope.CATEGORY },
+          { scope: CommissionScope.SELLER, sellerId: { $in: sellerIds } },
+        ],
+      })
+      .lean<CommissionRule[]>();
+
+    const sellerRates = new Map<string, number>();
+    const categoryRates = new Map<ProductCategory, number>();
+    for (const rule of rules) {
+      if (rule.scope === CommissionScope.SELLER) {
+        sellerRates.set(rule.sellerId.toString(), rule.rate);
+      } else {
+        categoryRates.set(rule.category, rule.rate);
+      }
+    }
+
+    return (sellerId, category) =>
+      (sellerId && sellerRates.get(sellerId.toString())) ??
+      (category && categoryRates.get(category)) ??
+      SETTLEMENT_CONFIG.DEFAULT_COMMISSION_RATE;
+  }
+
+  /**
+   * Accrue the seller's share of each line on a delivered sub-order. Safe to
+   * call more than once; a sub-order only accrues the first time.
+   */
+  async accrueSubOrder(subOrder: SubOrderDocument): Promise<void> {
+    if (!subOrder.sellerId || subOrder.items.length === 0) {
+      return; // Admin-managed items are the platform's own sales
+    }
+
+    const accrued = await this.earningModel.exists({
+      subOrderId: subOrder._id,
+      type: EarningType.SALE,
+    });
+    if (accrued) {
+      return;
+    }
+
+    const products = await this.productModel
+      .find({ _id: { $in: subOrder.items.map((item) => item.productId) } })
+      .select('category')
+      .lean<Pick<Product & { _id: Types.ObjectId }, '_id' | 'category'>[]>();
+    const categories = new Map(
+      products.map((product) => [product._id.toString(), product.category]),
+    );
+    const commissionFor = await this.loadCommissionResolver([
+      subOrder.sellerId,
+    ]);
+
+    const deliveredAt = subOrder.deliveredAt || new Date();
+    const availableAt = new Date(
+      deliveredAt.getTime() + SETTLEMENT_CONFIG.HOLD_DAYS * DAY_MS,
+    );
+
+    const earnings = subOrder.items.map((item) => {
+      const category = categories.get(item.productId.toString());
+      const grossAmount = this.round(
+        item.totalPrice - (item.discountAmount || 0),
+      );
+      const commissionRate = commissionFor(subOrder.sellerId, category);
+      const commissionAmount = this.round(grossAmount * commissionRate);
+
+      return {
+        sellerId: subOrder.sellerId,
+        orderId: subOrder.parentOrderId,
+        subOrderNumber: subOrder.subOrderNumber,
+        subOrderId: subOrder._id,
+        productId: item.productId,
+        category,
+        type: EarningType.SALE,
+        quantity: item.quantity,
+        grossAmount,
+        commissionRate,
+        commissionAmount,
+        netAmount: this.round(grossAmount - commissionAmount),
+        status: EarningStatus.PENDING,
+        availableAt,
+      };
+    });
+
+    try {
+      await this.earningModel.create(earnings);
+    } catch (error) {
+      if (error.code === 11000) {
+        return; // Accrued by a concurrent delivery update
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Accrued ₦${this.summarize(earnings).net} for seller ${subOrder.sellerId} on ${subOrder.subOrderNumber}`,
+    );
+  }
+
+  /**
+   * Accrue every delivered sub-order of an order, e.g. after the whole order
+   * was marked delivered
+   */
+  async accrueDeliveredSubOrders(orderId: string): Promise<void> {
+    const subOrders = await this.subOrderModel.find({
+      parentOrderId: new Types.ObjectId(orderId),
+      status: SubOrderStatus.DELIVERED,
+      sellerId: { $exists: true },
+    });
+
+    for (const subOrder of subOrders) {
+      await this.accrueSubOrder(subOrder);
+    }
+  }
+
+  /**
+   * Reverse the sellers' share of a refund. Adjustments are available at
+   * once, so they come off the next batch whether or not the sale itself
+   * has been paid out yet.
+   */
+  async recordRefund(refund: SettlementRefund): Promise<void> {
+    const orderId = new Types.ObjectId(refund.orderId);
+    const earnings = await this.earningModel.find({ orderId });
+    const sales = earnings.filter(
+      (earning) => earning.type === EarningType.SALE,
+    );
+    if (sales.length === 0) {
+      return; // Not delivered yet, or no seller items
+    }
+
+    const remaining = (sale: SellerEarningDocument) =>
+      earnings
+        .filter((earning) =>
+          earning.saleEarningId?.equals(sale._id as Types.ObjectId),
+        )
+        .reduce(
+          (left, adjustment) => ({
+            quantity: left.quantity + adjustment.quantity,
+            gross: left.gross + adjustment.grossAmount,
+            commission: left.commission + adjustment.commissionAmount,
+          }),
+          {
+            quantity: sale.quantity,
+            gross: sale.grossAmount,
+            commission: sale.commissionAmount,
+          },
+        );
+
+    const reversals: {
+      sale: SellerEarningDocument;
+      quantity: number;
+      share: number;
+    }[] = [];
+    if (refund.items?.length) {
+      for (const item of refund.items) {
+        const sale = sales.find(
+          (earning) => earning.productId.toString() === item.productId,
+        );
+        if (!sale) {
+          continue;
+        }
+        const left = remaining(sale).quantity;
+        const quantity = Math.min(item.quantity, left);
+        if (quantity > 0) {
+          reversals.push({ sale, quantity, share: quantity / left });
+        }
+      }
+    } else if (refund.fraction > 0) {
+      const share = Math.min(1, refund.fraction);
+      for (const sale of sales) {
+        reversals.push({ sale, quantity: 0, share });
+      }
+    }
+
+    const now = new Date();
+    const adjustments = reversals
+      .map(({ sale, quantity, share }) => {
+        const left = remaining(sale);
+        const grossAmount = -this.round(left.gross * share);
+        const commissionAmount = -this.round(left.commission * share);
+
+        return {
+          sellerId: sale.sellerId,
+          orderId: sale.orderId,
+          subOrderNumber: sale.subOrderNumber,
+          subOrderId: sale.subOrderId,
+          productId: sale.productId,
+          category: sale.category,
+          type: EarningType.ADJUSTMENT,
+          quantity: -quantity,
+          grossAmount,
+          commissionRate: sale.commissionRate,
+          commissionAmount,
+          netAmount: this.round(grossAmount - commissionAmount),
+          status: EarningStatus.PENDING,
+          availableAt: now,
+          saleEarningId: sale._id,
+          refundId: refund.refundId,
+          reason: refund.reason,
+        };
+      })
+      .filter((adjustment) => adjustment.netAmount !== 0);
+    if (adjustments.length === 0) {
+      return;
+    }
+
+    try {
+      await this.earningModel.create(adjustments);
+    } catch (error) {
+      if (error.code === 11000) {
+        return; // Refund already recorded
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Refund ${refund.refundId} adjusted seller earnings by ₦${this.summarize(adjustments).net}`,
+    );
+  }
+
+  /**
+   * Sales, commission and adjustments in a set of earnings. Net is what the
+   * seller is owed: sales less commission plus (negative) adjustments.
+   */
+  summarize(
+    earnings: Pick<
+      SellerEarning,
+      'type' | 'grossAmount' | 'commissionAmount' | 'netAmount'
+    >[],
+  ): SettlementTotals {
+    const totals = { sales: 0, commission: 0, adjustments: 0, net: 0 };
+    for (const earning of earnings) {
+      if (earning.type === EarningType.SALE) {
+        totals.sales += earning.grossAmount;
+        totals.commission += earning.commissionAmount;
+      } else {
+        totals.adjustments += earning.netAmount;
+      }
+      totals.net += earning.netAmount;
+    }
+
+    return {
+      sales: this.round(totals.sales),
+      commission: this.round(totals.commission),
+      adjustments: this.round(totals.adjustments),
+      net: this.round(totals.net),
+    };
+  }
+
+  /**
+   * Earnings and payouts for a period, with the seller's running balances
+   */
+  async getStatement(
+    sellerId: string,
+    query: StatementQueryDto,
+  ): Promise<SettlementStatement> {
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - 30 * DAY_MS);
+    if (from >= to) {
+      throw new BadRequestException(SETTLEMENT_ERROR_MESSAGES.INVALID_PERIOD);
+    }
+
+    const seller = new Types.ObjectId(sellerId);
+    const now = new Date();
+    const [earnings, batches, balances] = await Promise.all([
+      this.earningModel
+        .find({ sellerId: seller, createdAt: { $gte: from, $lte: to } })
+        .sort({ createdAt: -1 }),
+      this.batchModel
+        .find({ sellerId: seller, createdAt: { $gte: from, $lte: to } })
+        .sort({ createdAt: -1 }),
+      this.earningModel.aggregate<{ _id: string; total: number }>([
+        { $match: { sellerId: seller } },
+        {
+          $group: {
+            _id: {
+              $cond: [
+                {
+                  $and: [
+                    { $eq: ['$status', EarningStatus.PENDING] },
+                    { $gt: ['$availableAt', now] },
+                  ],
+                },
+                'held',
+                '$status',
+              ],
+            },
+            total: { $sum: '$netAmount' },
+          },
+        },
+      ]),
+    ]);
+
+    const balance = (key: string) =>
+      this.round(balances.find((row) => row._id === key)?.total || 0);
+
+    return {
+      sellerId,
+      period: { from, to },
+      totals: this.summarize(earnings),
+      balances: {
+        held: balance('held'),
+        available: balance(EarningStatus.PENDING),
+        inPayout: balance(EarningStatus.BATCHED),
+        paid: balance(EarningStatus.PAID),
+      },
+      earnings,
+      batches,
+    };
+  }
+
+  /**
+   * Where a seller is paid; the wallet unless they set up a bank account
+   */
+  async getPayoutAccount(sellerId: string): Promise<SellerPayoutAccount> {
+    const account = await this.payoutAccountModel.findOne({
+      sellerId: new Types.ObjectId(sellerId),
+    });
+
+    return (
+      account || {
+        sellerId: new Types.ObjectId(sellerId),
+        method: PayoutMethod.WALLET,
+      }
+    );
+  }
+
+  async updatePayoutAccount(
+    sellerId: string,
+    updateDto: UpdatePayoutAccountDto,
+  ): Promise<SellerPayoutAccountDocument> {
+    const { method, bankDetails } = updateDto;
+    if (method === PayoutMethod.BANK && !bankDetails) {
+      throw new BadRequestException(
+        SETTLEMENT_ERROR_MESSAGES.BANK_DETAILS_REQUIRED,
+      );
+    }
+
+    return this.payoutAccountModel.findOneAndUpdate(
+      { sellerId: new Types.ObjectId(sellerId) },
+      { $set: { method, ...(bankDetails && { bankDetails }) } },
+      { new: true, upsert: true },
+    );
+  }
+
+  async createCommissionRule(
+    createDto: CreateCommissionRuleDto,
+    adminId: string,
+  ): Promise<CommissionRuleDocument> {
+    const { scope, category, sellerId, rate, notes } = createDto;
+    const target =
+      scope === CommissionScope.CATEGORY
+        ? category && { category }
+        : sellerId && { sellerId: new Types.ObjectId(sellerId) };
+    if (!target) {
+      throw new BadRequestException(
+        SETTLEMENT_ERROR_MESSAGES.RULE_TARGET_REQUIRED,
+      );
+    }
+
+    const existing = await this.ruleModel.exists({ scope, ...target });
+    if (existing) {
+      throw new ConflictException(SETTLEMENT_ERROR_MESSAGES.RULE_EXISTS);
+    }
+
+    return this.ruleModel.create({
+      scope,
+      ...target,
+      rate,
+      notes,
+      isActive: true,
+      createdBy: new Types.ObjectId(adminId),
+    });
+  }
+
+  async findCommissionRules(): Promise<CommissionRuleDocument[]> {
+    return this.ruleModel.find().sort({ scope: 1, category: 1, createdAt: 1 });
+  }
+
+  async updateCommissionRule(
+    id: string,
+    updateDto: UpdateCommissionRuleDto,
+  ): Promise<CommissionRuleDocument> {
+    const rule = Types.ObjectId.isValid(id)
+      ? await this.ruleModel.findByIdAndUpdate(id, updateDto, { new: true })
+      : null;
+    if (!rule) {
+      throw new NotFoundException(SETTLEMENT_ERROR_MESSAGES.RULE_NOT_FOUND);
+    }
+    return rule;
+  }
+
+  /**
+   * Delete a rule; its items fall back to the category or default rate
+   */
+  async removeCommissionRule(id: string): Promise<CommissionRuleDocument> {
+    const rule = Types.ObjectId.isValid(id)
+      ? await this.ruleModel.findByIdAndDelete(id)
+      : null;
+    if (!rule) {
+      throw new NotFoundException(SETTLEMENT_ERROR_MESSAGES.RULE_NOT_FOUND);
+    }
+    return rule;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
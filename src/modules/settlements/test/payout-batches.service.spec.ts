@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PayoutBatchesService } from '../services/payout-batches.service';
+import { SettlementsService } from '../settlements.service';
+import { PayoutBatch } from '../entities/payout-batch.entity';
+import { SellerEarning } from '../entities/seller-earning.entity';
+import { WalletsService } from '../../wallets/wallets.service';
+import { WalletType } from '../../wallets/dto';
+import {
+  LedgerAccount,
+  LedgerTransactionType,
+} from '../../wallets/entities/wallet-ledger-entry.entity';
+import {
+  EarningStatus,
+  EarningType,
+  PayoutBatchStatus,
+  PayoutMethod,
+} from '../constants/settlement.constants';
+
+describe('PayoutBatchesService', () => {
+  let service: PayoutBatchesService;
+  let batchModel: any;
+  let earningModel: any;
+  let settlementsService: any;
+  let walletsService: any;
+
+  const sellerId = new Types.ObjectId();
+  const adminId = new Types.ObjectId().toString();
+
+  const buildBatch = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(),
+    batchNumber: 'PAY-123456789',
+    sellerId,
+    netAmount: 13500,
+    method: PayoutMethod.WALLET,
+    status: PayoutBatchStatus.APPROVED,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    batchModel = {
+      create: jest.fn(),
+      findById: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn(),
+      deleteOne: jest.fn(),
+    };
+    earningModel = {
+      distinct: jest.fn().mockResolvedValue([sellerId]),
+      find: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ modifiedCount: 0 }),
+    };
+    settlementsService = {
+      summarize: jest.fn(),
+      getPayoutAccount: jest
+        .fn()
+        .mockResolvedValue({ sellerId, method: PayoutMethod.WALLET }),
+    };
+    walletsService = {
+      creditWallet: jest.fn().mockResolvedValue({ transactionId: 'TXN_1' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PayoutBatchesService,
+        { provide: getModelToken(PayoutBatch.name), useValue: batchModel },
+        { provide: getModelToken(SellerEarning.name), useValue: earningModel },
+        { provide: SettlementsService, useValue: settlementsService },
+        { provide: WalletsService, useValue: walletsService },
+      ],
+    }).compile();
+
+    service = module.get<PayoutBatchesService>(PayoutBatchesService);
+  });
+
+  describe('runBatches', () => {
+    const earnings = [
+      {
+        _id: new Types.ObjectId(),
+        type: EarningType.SALE,
+        createdAt: new Date('2026-10-01'),
+      },
+      { _id: new Types.ObjectId(), type: EarningType.ADJUSTMENT },
+    ];
+
+    beforeEach(() => {
+      earningModel.find.mockReturnValue({
+        sort: () => Promise.resolve(earnings),
+      });
+    });
+
+    it('should batch cleared earnings net of adjustments', async () => {
+      settlementsService.summarize.mockReturnValue({
+        sales: 20000,
+        commission: 2000,
+        adjustments: -4500,
+        net: 13500,
+      });
+      const batch = buildBatch({
+        status: PayoutBatchStatus.PENDING_APPROVAL,
+      });
+      batchModel.create.mockResolvedValue(batch);
+      earningModel.updateMany.mockResolvedValue({ modifiedCount: 2 });
+
+      const batches = await service.runBatches();
+
+      expect(batches).toEqual([batch]);
+      expect(batchModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sellerId,
+          earningCount: 2,
+          adjustmentAmount: -4500,
+          netAmount: 13500,
+          method: PayoutMethod.WALLET,
+          status: PayoutBatchStatus.PENDING_APPROVAL,
+        }),
+      );
+      expect(earningModel.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ status: EarningStatus.PENDING }),
+        { status: EarningStatus.BATCHED, batchId: batch._id },
+      );
+    });
+
+    it('should carry earnings forward when refunds outweigh sales', async () => {
+      settlementsService.summarize.mockReturnValue({
+        sales: 5000,
+        commission: 500,
+        adjustments: -9000,
+        net: -4500,
+      });
+
+      const batches = await service.runBatches();
+
+      expect(batches).toEqual([]);
+      expect(batchModel.create).not.toHaveBeenCalled();
+      expect(earningModel.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approve', () => {
+    it('should credit the seller wallet and mark the batch paid', async () => {
+      const batch = buildBatch();
+      batchModel.findById.mockResolvedValue(batch);
+      batchModel.findOneAndUpdate.mockResolvedValue(batch);
+      earningModel.find.mockReturnValue({ sort: () => Promise.resolve([]) });
+
+      const result = await service.approve(batch._id.toString(), adminId);
+
+      expect(walletsService.creditWallet).toHaveBeenCalledWith(
+        sellerId.toString(),
+        WalletType.FOOD_MONEY,
+        13500,
+        expect.any(String),
+        expect.objectContaining({
+          transactionType: LedgerTransactionType.SELLER_PAYOUT,
+          counterAccount: LedgerAccount.SYSTEM_PAYOUTS,
+        }),
+      );
+      expect(result.status).toBe(PayoutBatchStatus.PAID);
+      expect(result.transactionRef).toBe('TXN_1');
+      expect(earningModel.updateMany).toHaveBeenCalledWith(
+        { batchId: batch._id },
+        { status: EarningStatus.PAID },
+      );
+    });
+
+    it('should put the batch back if the wallet credit fails', async () => {
+      const batch = buildBatch();
+      batchModel.findById.mockResolvedValue(batch);
+      batchModel.findOneAndUpdate.mockResolvedValue(batch);
+      earningModel.find.mockReturnValue({ sort: () => Promise.resolve([]) });
+      walletsService.creditWallet.mockRejectedValue(
+        new Error('Wallet is frozen'),
+      );
+
+      await expect(
+        service.approve(batch._id.toString(), adminId),
+      ).rejects.toThrow(BadRequestException);
+      expect(batchModel.updateOne).toHaveBeenCalledWith(
+        { _id: batch._id },
+        expect.objectContaining({
+          status: PayoutBatchStatus.PENDING_APPROVAL,
+        }),
+      );
+      expect(earningModel.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should leave bank batches approved until the transfer is recorded', async () => {
+      const batch = buildBatch({ method: PayoutMethod.BANK });
+      batchModel.findById.mockResolvedValue(batch);
+      batchModel.findOneAndUpdate.mockResolvedValue(batch);
+      earningModel.find.mockReturnValue({ sort: () => Promise.resolve([]) });
+
+      const result = await service.approve(batch._id.toString(), adminId);
+
+      expect(result.status).toBe(PayoutBatchStatus.APPROVED);
+      expect(walletsService.creditWallet).not.toHaveBeenCalled();
+    });
+  });
+});
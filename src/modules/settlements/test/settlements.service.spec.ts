@@ -0,0 +1,254 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SettlementsService } from '../settlements.service';
+import { SellerEarning } from '../entities/seller-earning.entity';
+import { CommissionRule } from '../entities/commission-rule.entity';
+import { PayoutBatch } from '../entities/payout-batch.entity';
+import { SellerPayoutAccount } from '../entities/seller-payout-account.entity';
+import { SubOrder } from '../../orders/entities/sub-order.entity';
+import {
+  Product,
+  ProductCategory,
+} from '../../products/entities/product.entity';
+import {
+  CommissionScope,
+  EarningStatus,
+  EarningType,
+} from '../constants/settlement.constants';
+
+describe('SettlementsService', () => {
+  let service: SettlementsService;
+  let earningModel: any;
+  let ruleModel: any;
+
+  const sellerId = new Types.ObjectId();
+  const orderId = new Types.ObjectId();
+  const riceId = new Types.ObjectId();
+  const juiceId = new Types.ObjectId();
+
+  beforeEach(async () => {
+    earningModel = {
+      exists: jest.fn().mockResolvedValue(null),
+      create: jest.fn().mockImplementation((docs) => Promise.resolve(docs)),
+      find: jest.fn(),
+    };
+    ruleModel = {
+      find: jest.fn(() => ({
+        lean: () =>
+          Promise.resolve([
+            {
+              scope: CommissionScope.CATEGORY,
+              category: ProductCategory.GRAINS,
+              rate: 0.05,
+            },
+          ]),
+      })),
+    };
+    const productModel = {
+      find: jest.fn(() => ({
+        select: () => ({
+          lean: () =>
+            Promise.resolve([
+              { _id: riceId, category: ProductCategory.GRAINS },
+              { _id: juiceId, category: ProductCategory.BEVERAGES },
+            ]),
+        }),
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SettlementsService,
+        { provide: getModelToken(SellerEarning.name), useValue: earningModel },
+        { provide: getModelToken(CommissionRule.name), useValue: ruleModel },
+        { provide: getModelToken(PayoutBatch.name), useValue: {} },
+        { provide: getModelToken(SellerPayoutAccount.name), useValue: {} },
+        { provide: getModelToken(SubOrder.name), useValue: {} },
+        { provide: getModelToken(Product.name), useValue: productModel },
+      ],
+    }).compile();
+
+    service = module.get<SettlementsService>(SettlementsService);
+  });
+
+  describe('accrueSubOrder', () => {
+    const deliveredAt = new Date('2026-10-01T10:00:00Z');
+    const subOrder: any = {
+      _id: new Types.ObjectId(),
+      subOrderNumber: 'FRG12345678-1',
+      parentOrderId: orderId,
+      sellerId,
+      deliveredAt,
+      items: [
+        {
+          productId: riceId,
+          quantity: 2,
+          totalPrice: 10000,
+          discountAmount: 1000,
+        },
+        { productId: juiceId, quantity: 1, totalPrice: 4000 },
+      ],
+    };
+
+    it('should accrue each line less its category or default commission, held for the return window', async () => {
+      await service.accrueSubOrder(subOrder);
+
+      const [earnings] = earningModel.create.mock.calls[0];
+      expect(earnings).toHaveLength(2);
+      expect(earnings[0]).toEqual(
+        expect.objectContaining({
+          type: EarningType.SALE,
+          grossAmount: 9000,
+          commissionRate: 0.05,
+          commissionAmount: 450,
+          netAmount: 8550,
+          status: EarningStatus.PENDING,
+          availableAt: new Date('2026-10-08T10:00:00Z'),
+        }),
+      );
+      // No rule for beverages, so the default rate applies
+      expect(earnings[1]).toEqual(
+        expect.objectContaining({
+          commissionRate: 0.1,
+          commissionAmount: 400,
+          netAmount: 3600,
+        }),
+      );
+    });
+
+    it('should let a seller rule override the category rate', async () => {
+      ruleModel.find.mockReturnValue({
+        lean: () =>
+          Promise.resolve([
+            {
+              scope: CommissionScope.CATEGORY,
+              category: ProductCategory.GRAINS,
+              rate: 0.05,
+            },
+            { scope: CommissionScope.SELLER, sellerId, rate: 0.02 },
+          ]),
+      });
+
+      await service.accrueSubOrder(subOrder);
+
+      const [earnings] = earningModel.create.mock.calls[0];
+      expect(earnings.map((earning) => earning.commissionRate)).toEqual([
+        0.02, 0.02,
+      ]);
+    });
+
+    it('should not accrue a sub-order twice', async () => {
+      earningModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await service.accrueSubOrder(subOrder);
+
+      expect(earningModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordRefund', () => {
+    const sale: any = {
+      _id: new Types.ObjectId(),
+      sellerId,
+      orderId,
+      subOrderNumber: 'FRG12345678-1',
+      subOrderId: new Types.ObjectId(),
+      productId: riceId,
+      type: EarningType.SALE,
+      quantity: 4,
+      grossAmount: 20000,
+      commissionRate: 0.1,
+      commissionAmount: 2000,
+      netAmount: 18000,
+      status: EarningStatus.PAID,
+    };
+
+    it('should add a negative adjustment for the returned units', async () => {
+      earningModel.find.mockResolvedValue([sale]);
+
+      await service.recordRefund({
+        orderId: orderId.toString(),
+        refundId: 'REF_1',
+        items: [{ productId: riceId.toString(), quantity: 1 }],
+      });
+
+      const [adjustments] = earningModel.create.mock.calls[0];
+      expect(adjustments).toEqual([
+        expect.objectContaining({
+          type: EarningType.ADJUSTMENT,
+          quantity: -1,
+          grossAmount: -5000,
+          commissionAmount: -500,
+          netAmount: -4500,
+          status: EarningStatus.PENDING,
+          saleEarningId: sale._id,
+          refundId: 'REF_1',
+        }),
+      ]);
+    });
+
+    it('should only reverse what earlier refunds left', async () => {
+      earningModel.find.mockResolvedValue([
+        sale,
+        {
+          type: EarningType.ADJUSTMENT,
+          saleEarningId: sale._id,
+          quantity: -3,
+          grossAmount: -15000,
+          commissionAmount: -1500,
+          netAmount: -13500,
+        },
+      ]);
+
+      await service.recordRefund({
+        orderId: orderId.toString(),
+        refundId: 'REF_2',
+        items: [{ productId: riceId.toString(), quantity: 2 }],
+      });
+
+      const [adjustments] = earningModel.create.mock.calls[0];
+      expect(adjustments[0]).toEqual(
+        expect.objectContaining({ quantity: -1, netAmount: -4500 }),
+      );
+    });
+
+    it('should do nothing for orders with no accrued sales', async () => {
+      earningModel.find.mockResolvedValue([]);
+
+      await service.recordRefund({
+        orderId: orderId.toString(),
+        refundId: 'REF_3',
+        fraction: 1,
+      });
+
+      expect(earningModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('summarize', () => {
+    it('should net refund adjustments off sales less commission', () => {
+      expect(
+        service.summarize([
+          {
+            type: EarningType.SALE,
+            grossAmount: 20000,
+            commissionAmount: 2000,
+            netAmount: 18000,
+          },
+          {
+            type: EarningType.ADJUSTMENT,
+            grossAmount: -5000,
+            commissionAmount: -500,
+            netAmount: -4500,
+          },
+        ]),
+      ).toEqual({
+        sales: 20000,
+        commission: 2000,
+        adjustments: -4500,
+        net: 13500,
+      });
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { DELIVERY_PRICING_CONSTANTS } from '../../delivery-pricing/constants/delivery-pricing.constants';
+
+export const STORE_CONSTANTS = {
+  // Opening hours and holidays are written in Lagos time
+  TIMEZONE_OFFSET_MINUTES: DELIVERY_PRICING_CONSTANTS.TIMEZONE_OFFSET_MINUTES,
+  DEFAULT_PICKUP_SLOT_MINUTES: 60,
+  DEFAULT_PICKUP_SLOT_CAPACITY: 10, // orders per slot
+  PICKUP_LEAD_MINUTES: 120, // time to pick and pack before the first slot
+  PICKUP_BOOKING_DAYS: 7, // how far ahead pickup slots can be booked
+  NEARBY_RADIUS_KM: 25,
+} as const;
+
+export const STORE_ERROR_MESSAGES = {
+  STORE_NOT_FOUND: 'Store not found',
+  PICKUP_NOT_AVAILABLE: 'This store does not offer pickup',
+  PICKUP_STORE_REQUIRED: 'A pickup store and slot are required for pickup',
+  SLOT_NOT_AVAILABLE: 'The store is not open for pickup at this time',
+  SLOT_FULL: 'This pickup slot is fully booked',
+  SLOT_TOO_SOON: `Pickup slots must be booked at least ${STORE_CONSTANTS.PICKUP_LEAD_MINUTES} minutes ahead`,
+  SLOT_TOO_FAR: `Pickup slots can only be booked up to ${STORE_CONSTANTS.PICKUP_BOOKING_DAYS} days ahead`,
+  NOT_STOCKED: 'Not available at this store:',
+  STOCK_OUT_OF_SYNC:
+    'Product stock is lower than the units being removed from this store',
+  INVALID_TIME: 'Times must be in HH:mm format',
+  INVALID_HOURS: 'Closing time must be after opening time',
+} as const;
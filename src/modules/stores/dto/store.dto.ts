@@ -1,5 +1,66 @@
 import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsOptional, IsEmail, MaxLength } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEmail,
+  MaxLength,
+  IsNumber,
+  IsInt,
+  IsBoolean,
+  IsArray,
+  Min,
+  Max,
+  Matches,
+  ValidateNested,
+  IsMongoId,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { STORE_ERROR_MESSAGES } from '../constants/store.constants';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class StoreLocationDto {
+  @ApiProperty({ description: 'Latitude', example: 6.4281 })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude: number;
+
+  @ApiProperty({ description: 'Longitude', example: 3.4219 })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude: number;
+}
+
+export class OpeningHoursDto {
+  @ApiProperty({ description: 'Day of week, 0 = Sunday', example: 1 })
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dayOfWeek: number;
+
+  @ApiProperty({ description: 'Opening time (HH:mm, Lagos time)', example: '08:00' })
+  @Matches(TIME_PATTERN, { message: STORE_ERROR_MESSAGES.INVALID_TIME })
+  openTime: string;
+
+  @ApiProperty({ description: 'Closing time (HH:mm, Lagos time)', example: '20:00' })
+  @Matches(TIME_PATTERN, { message: STORE_ERROR_MESSAGES.INVALID_TIME })
+  closeTime: string;
+}
+
+export class StoreHolidayDto {
+  @ApiProperty({ description: 'Day the store is closed (YYYY-MM-DD)', example: '2026-12-25' })
+  @Matches(DATE_PATTERN, { message: 'Date must be in YYYY-MM-DD format' })
+  date: string;
+
+  @ApiPropertyOptional({ description: 'Why the store is closed', example: 'Christmas Day' })
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
 
 export class CreateStoreDto {
   @ApiProperty({ description: 'Store name', example: 'My Awesome Store' })
@@ -19,6 +80,17 @@ export class CreateStoreDto {
   @MaxLength(500)
   address: string;
 
+  @ApiProperty({ description: 'City the store serves', example: 'Lagos' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  city: string;
+
+  @ApiProperty({ description: 'Where the store is', type: StoreLocationDto })
+  @ValidateNested()
+  @Type(() => StoreLocationDto)
+  location: StoreLocationDto;
+
   @ApiPropertyOptional({ description: 'Store phone number', example: '+1234567890' })
   @IsString()
   @IsOptional()
@@ -30,9 +102,104 @@ export class CreateStoreDto {
   @IsOptional()
   @MaxLength(255)
   email?: string;
+
+  @ApiPropertyOptional({ description: 'Weekly opening hours; days not listed are closed', type: [OpeningHoursDto] })
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => OpeningHoursDto)
+  openingHours?: OpeningHoursDto[];
+
+  @ApiPropertyOptional({ description: 'Days the store is closed', type: [StoreHolidayDto] })
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => StoreHolidayDto)
+  holidays?: StoreHolidayDto[];
+
+  @ApiPropertyOptional({ description: 'Whether customers can collect orders here', default: true })
+  @IsBoolean()
+  @IsOptional()
+  supportsPickup?: boolean;
+
+  @ApiPropertyOptional({ description: 'Length of a pickup slot in minutes', example: 60 })
+  @IsInt()
+  @IsOptional()
+  @Min(15)
+  pickupSlotMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Orders that can be collected in one slot', example: 10 })
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  pickupSlotCapacity?: number;
+
+  @ApiPropertyOptional({ description: 'Whether the store is trading', default: true })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
 }
 
 export class UpdateStoreDto extends PartialType(CreateStoreDto) {
   // All fields from CreateStoreDto are now optional
   // No id field needed - it comes from the URL parameter
 }
+
+export class NearbyStoresQueryDto {
+  @ApiPropertyOptional({ description: 'City to search in', example: 'Lagos' })
+  @IsString()
+  @IsOptional()
+  city?: string;
+
+  @ApiPropertyOptional({ description: 'Customer latitude; sorts stores by distance' })
+  @Type(() => Number)
+  @IsNumber()
+  @IsOptional()
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Customer longitude; sorts stores by distance' })
+  @Type(() => Number)
+  @IsNumber()
+  @IsOptional()
+  longitude?: number;
+
+  @ApiPropertyOptional({ description: 'Only stores that offer pickup' })
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  pickupOnly?: boolean;
+}
+
+export class PickupSlotsQueryDto {
+  @ApiProperty({ description: 'Day to list slots for (YYYY-MM-DD, Lagos time)', example: '2026-10-20' })
+  @Matches(DATE_PATTERN, { message: 'Date must be in YYYY-MM-DD format' })
+  date: string;
+}
+
+export class SetStoreStockDto {
+  @ApiProperty({ description: 'Units on hand at the store', example: 40 })
+  @IsInt()
+  @Min(0)
+  stock: number;
+
+  @ApiPropertyOptional({ description: 'Pack counted, for products sold in packs' })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+}
+
+export class StoreInventoryFilterDto {
+  @ApiPropertyOptional({ description: 'Page number for pagination', minimum: 1, default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Number of items per page', minimum: 1, default: 20 })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  limit?: number = 20;
+}
@@ -1 +1,3 @@
 export * from './store.entity';
+export * from './store-inventory.entity';
+export * from './pickup-slot.entity';
@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type PickupSlotDocument = PickupSlot & Document;
+
+/**
+ * Bookings for one pickup slot at a store. Created on the first booking;
+ * slots nobody has booked only exist in the store's opening hours.
+ */
+@Schema({ timestamps: true })
+export class PickupSlot {
+  @ApiProperty({ description: 'Store the orders are collected from' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Store' })
+  storeId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Slot start' })
+  @Prop({ required: true, type: Date })
+  startsAt: Date;
+
+  @ApiProperty({ description: 'Slot end' })
+  @Prop({ required: true, type: Date })
+  endsAt: Date;
+
+  @ApiProperty({ description: 'Orders booked into the slot' })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  booked: number;
+
+  @ApiProperty({ description: 'Orders collected in this slot' })
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Order' }], default: [] })
+  orderIds: Types.ObjectId[];
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const PickupSlotSchema = SchemaFactory.createForClass(PickupSlot);
+
+PickupSlotSchema.index({ storeId: 1, startsAt: 1 }, { unique: true });
+PickupSlotSchema.index({ orderIds: 1 });
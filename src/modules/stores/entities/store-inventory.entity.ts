@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type StoreInventoryDocument = StoreInventory & Document;
+
+/**
+ * Units of a product held at one store. They are part of Product.stock,
+ * which stays the total sellable quantity, so every change here moves
+ * Product.stock by the same amount.
+ */
+@Schema({ timestamps: true })
+export class StoreInventory {
+  @ApiProperty({ description: 'Store holding the stock' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Store' })
+  storeId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Product stocked' })
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Product' })
+  productId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Pack stocked, for products sold in packs',
+    required: false,
+  })
+  @Prop({ required: false, type: Types.ObjectId, default: null })
+  variantId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Units on hand at the store' })
+  @Prop({ required: true, type: Number, min: 0, default: 0 })
+  stock: number;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const StoreInventorySchema =
+  SchemaFactory.createForClass(StoreInventory);
+
+StoreInventorySchema.index(
+  { storeId: 1, productId: 1, variantId: 1 },
+  { unique: true },
+);
+StoreInventorySchema.index({ productId: 1, stock: 1 });
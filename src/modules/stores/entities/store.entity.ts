@@ -1,11 +1,60 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsOptional, IsEmail } from 'class-validator';
-import { IStore } from '../interfaces/store.interface';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEmail,
+  IsBoolean,
+} from 'class-validator';
+import {
+  IStore,
+  IStoreHoliday,
+  IStoreLocation,
+  IOpeningHours,
+} from '../interfaces/store.interface';
+import { STORE_CONSTANTS } from '../constants/store.constants';
 
 export type StoreDocument = Store & Document;
 
+@Schema({ _id: false })
+export class StoreLocation implements IStoreLocation {
+  @ApiProperty({ description: 'Latitude', example: 6.4281 })
+  @Prop({ required: true, type: Number, min: -90, max: 90 })
+  latitude: number;
+
+  @ApiProperty({ description: 'Longitude', example: 3.4219 })
+  @Prop({ required: true, type: Number, min: -180, max: 180 })
+  longitude: number;
+}
+
+@Schema({ _id: false })
+export class OpeningHours implements IOpeningHours {
+  @ApiProperty({ description: 'Day of week, 0 = Sunday', example: 1 })
+  @Prop({ required: true, type: Number, min: 0, max: 6 })
+  dayOfWeek: number;
+
+  @ApiProperty({ description: 'Opening time (HH:mm, Lagos time)', example: '08:00' })
+  @Prop({ required: true, type: String })
+  openTime: string;
+
+  @ApiProperty({ description: 'Closing time (HH:mm, Lagos time)', example: '20:00' })
+  @Prop({ required: true, type: String })
+  closeTime: string;
+}
+
+@Schema({ _id: false })
+export class StoreHoliday implements IStoreHoliday {
+  @ApiProperty({ description: 'Day the store is closed (YYYY-MM-DD)', example: '2026-12-25' })
+  @Prop({ required: true, type: String })
+  date: string;
+
+  @ApiPropertyOptional({ description: 'Why the store is closed' })
+  @Prop({ required: false, type: String })
+  reason?: string;
+}
+
 @Schema({ timestamps: true })
 export class Store implements IStore {
   @ApiProperty({ description: 'Store ID' })
@@ -29,6 +78,16 @@ export class Store implements IStore {
   @IsNotEmpty()
   address: string;
 
+  @ApiProperty({ description: 'City the store serves', example: 'Lagos' })
+  @Prop({ required: true, maxlength: 100 })
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @ApiProperty({ description: 'Where the store is', type: StoreLocation })
+  @Prop({ required: true, type: StoreLocation })
+  location: StoreLocation;
+
   @ApiPropertyOptional({ description: 'Store phone number' })
   @Prop({ required: false, maxlength: 20 })
   @IsString()
@@ -41,6 +100,45 @@ export class Store implements IStore {
   @IsOptional()
   email?: string;
 
+  @ApiProperty({
+    description: 'Weekly opening hours; days not listed are closed',
+    type: [OpeningHours],
+  })
+  @Prop({ type: [OpeningHours], default: [] })
+  openingHours: OpeningHours[];
+
+  @ApiProperty({ description: 'Days the store is closed', type: [StoreHoliday] })
+  @Prop({ type: [StoreHoliday], default: [] })
+  holidays: StoreHoliday[];
+
+  @ApiProperty({ description: 'Whether customers can collect orders here' })
+  @Prop({ required: true, default: true })
+  @IsBoolean()
+  supportsPickup: boolean;
+
+  @ApiProperty({ description: 'Length of a pickup slot in minutes' })
+  @Prop({
+    required: true,
+    type: Number,
+    min: 15,
+    default: STORE_CONSTANTS.DEFAULT_PICKUP_SLOT_MINUTES,
+  })
+  pickupSlotMinutes: number;
+
+  @ApiProperty({ description: 'Orders that can be collected in one slot' })
+  @Prop({
+    required: true,
+    type: Number,
+    min: 1,
+    default: STORE_CONSTANTS.DEFAULT_PICKUP_SLOT_CAPACITY,
+  })
+  pickupSlotCapacity: number;
+
+  @ApiProperty({ description: 'Whether the store is trading' })
+  @Prop({ required: true, default: true })
+  @IsBoolean()
+  isActive: boolean;
+
   @ApiProperty({ description: 'Creation timestamp' })
   createdAt: Date;
 
@@ -49,3 +147,5 @@ export class Store implements IStore {
 }
 
 export const StoreSchema = SchemaFactory.createForClass(Store);
+
+StoreSchema.index({ city: 1, isActive: 1 });
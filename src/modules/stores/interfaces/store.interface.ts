@@ -1,10 +1,36 @@
+import { Types } from 'mongoose';
+
+export interface IStoreLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export interface IOpeningHours {
+  dayOfWeek: number;
+  openTime: string;
+  closeTime: string;
+}
+
+export interface IStoreHoliday {
+  date: string;
+  reason?: string;
+}
+
 export interface IStore {
   id: string;
   name: string;
   description?: string;
   address: string;
+  city: string;
+  location: IStoreLocation;
   phone?: string;
   email?: string;
+  openingHours: IOpeningHours[];
+  holidays: IStoreHoliday[];
+  supportsPickup: boolean;
+  pickupSlotMinutes: number;
+  pickupSlotCapacity: number;
+  isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -16,3 +42,30 @@ export interface IStoreService {
   update(id: string, data: Partial<IStore>): Promise<IStore>;
   remove(id: string): Promise<IStore>;
 }
+
+export interface PickupSlotAvailability {
+  startsAt: Date;
+  endsAt: Date;
+  capacity: number;
+  booked: number;
+  available: boolean;
+}
+
+export interface StockedItem {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+/**
+ * Store an order is fulfilled from. Stock is only taken from the store
+ * when it holds every item; otherwise the store is just the rider's
+ * starting point.
+ */
+export interface FulfilmentStore {
+  store: Pick<IStore, 'name' | 'city' | 'location'> & {
+    _id: Types.ObjectId;
+  };
+  distanceKm?: number;
+  stocked: boolean;
+}
@@ -0,0 +1,246 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { PickupSlot, PickupSlotDocument } from '../entities/pickup-slot.entity';
+import { Store, StoreDocument } from '../entities/store.entity';
+import { IStore, PickupSlotAvailability } from '../interfaces/store.interface';
+import {
+  STORE_CONSTANTS,
+  STORE_ERROR_MESSAGES,
+} from '../constants/store.constants';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+type SlotStore = Pick<
+  IStore,
+  'openingHours' | 'holidays' | 'pickupSlotMinutes' | 'pickupSlotCapacity'
+> & { _id?: unknown };
+
+/**
+ * Pickup slots are cut from a store's opening hours and each takes a fixed
+ * number of orders. A booking only exists once an order takes the slot.
+ */
+@Injectable()
+export class PickupSlotsService {
+  private readonly logger = new Logger(PickupSlotsService.name);
+
+  constructor(
+    @InjectModel(PickupSlot.name)
+    private pickupSlotModel: Model<PickupSlotDocument>,
+    @InjectModel(Store.name) private storeModel: Model<StoreDocument>,
+  ) {}
+
+  /**
+   * A store's slots on a day with how full each is. Slots that are too soon
+   * to prepare for are left out.
+   */
+  async getSlots(
+    storeId: string,
+    date: string,
+  ): Promise<PickupSlotAvailability[]> {
+    const store = Types.ObjectId.isValid(storeId)
+      ? await this.storeModel.findOne({ _id: storeId, isActive: true }).lean()
+      : null;
+    if (!store) {
+      throw new NotFoundException(STORE_ERROR_MESSAGES.STORE_NOT_FOUND);
+    }
+    if (!store.supportsPickup) {
+      throw new BadRequestException(STORE_ERROR_MESSAGES.PICKUP_NOT_AVAILABLE);
+    }
+
+    const earliest =
+      Date.now() + STORE_CONSTANTS.PICKUP_LEAD_MINUTES * MINUTE_MS;
+    const slots = this.buildSlots(store, date).filter(
+      (slot) => slot.startsAt.getTime() >= earliest,
+    );
+    if (!slots.length) {
+      return [];
+    }
+
+    const bookings = await this.pickupSlotModel
+      .find({
+        storeId: store._id,
+        startsAt: { $in: slots.map((slot) => slot.startsAt) },
+      })
+      .select('startsAt booked')
+      .lean();
+    const booked = new Map(
+      bookings.map((booking) => [booking.startsAt.getTime(), booking.booked]),
+    );
+
+    return slots.map((slot) => {
+      const count = booked.get(slot.startsAt.getTime()) || 0;
+      return {
+        ...slot,
+        capacity: store.pickupSlotCapacity,
+        booked: count,
+        available: count < store.pickupSlotCapacity,
+      };
+    });
+  }
+
+  /**
+   * Book an order into the slot starting at the given time. Rebooking the
+   * same order is a no-op.
+   */
+  async book(
+    store: SlotStore,
+    startsAt: Date,
+    orderId: string,
+  ): Promise<{ startsAt: Date; endsAt: Date }> {
+    const slot = this.findSlot(store, startsAt);
+    const storeId = store._id as Types.ObjectId;
+    const order = new Types.ObjectId(orderId);
+
+    const existing = await this.pickupSlotModel.exists({
+      storeId,
+      startsAt: slot.startsAt,
+      orderIds: order,
+    });
+    if (existing) {
+      return slot;
+    }
+
+    try {
+      // A full slot fails the filter, so the upsert hits the unique index
+      await this.pickupSlotModel.findOneAndUpdate(
+        {
+          storeId,
+          startsAt: slot.startsAt,
+          booked: { $lt: store.pickupSlotCapacity },
+        },
+        {
+          $inc: { booked: 1 },
+          $push: { orderIds: order },
+          $setOnInsert: { endsAt: slot.endsAt },
+        },
+        { upsert: true, new: true },
+      );
+    } catch (error) {
+      if (error.code === 11000) {
+        throw new BadRequestException(STORE_ERROR_MESSAGES.SLOT_FULL);
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Booked order ${orderId} for pickup at ${slot.startsAt.toISOString()}`,
+    );
+    return slot;
+  }
+
+  /**
+   * Free an order's slot, e.g. when it is cancelled. Pass the slot to free
+   * just that one while the order moves to another. Safe to call for
+   * orders without one.
+   */
+  async release(
+    orderId: string,
+    slot?: { storeId: Types.ObjectId | string; startsAt: Date },
+  ): Promise<boolean> {
+    const order = new Types.ObjectId(orderId);
+    const filter = slot
+      ? {
+          storeId: new Types.ObjectId(slot.storeId.toString()),
+          startsAt: slot.startsAt,
+          orderIds: order,
+        }
+      : { orderIds: order };
+    const result = await this.pickupSlotModel.updateOne(filter, {
+      $inc: { booked: -1 },
+      $pull: { orderIds: order },
+    });
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * The store's slot starting exactly at the given time, if it is open and
+   * within the booking window
+   */
+  private findSlot(
+    store: SlotStore,
+    startsAt: Date,
+  ): { startsAt: Date; endsAt: Date } {
+    const now = Date.now();
+    if (
+      startsAt.getTime() <
+      now + STORE_CONSTANTS.PICKUP_LEAD_MINUTES * MINUTE_MS
+    ) {
+      throw new BadRequestException(STORE_ERROR_MESSAGES.SLOT_TOO_SOON);
+    }
+    if (
+      startsAt.getTime() >
+      now + STORE_CONSTANTS.PICKUP_BOOKING_DAYS * DAY_MS
+    ) {
+      throw new BadRequestException(STORE_ERROR_MESSAGES.SLOT_TOO_FAR);
+    }
+
+    const slot = this.buildSlots(store, this.toLocalDate(startsAt)).find(
+      (candidate) => candidate.startsAt.getTime() === startsAt.getTime(),
+    );
+    if (!slot) {
+      throw new BadRequestException(STORE_ERROR_MESSAGES.SLOT_NOT_AVAILABLE);
+    }
+    return slot;
+  }
+
+  /**
+   * Slots on a local day, from each of that weekday's opening periods.
+   * None on holidays.
+   */
+  buildSlots(
+    store: Pick<SlotStore, 'openingHours' | 'holidays' | 'pickupSlotMinutes'>,
+    date: string,
+  ): { startsAt: Date; endsAt: Date }[] {
+    if (store.holidays?.some((holiday) => holiday.date === date)) {
+      return [];
+    }
+
+    const [year, month, day] = date.split('-').map(Number);
+    const localMidnight = Date.UTC(year, month - 1, day);
+    const dayOfWeek = new Date(localMidnight).getUTCDay();
+    const midnight =
+      localMidnight - STORE_CONSTANTS.TIMEZONE_OFFSET_MINUTES * MINUTE_MS;
+    const length =
+      store.pickupSlotMinutes || STORE_CONSTANTS.DEFAULT_PICKUP_SLOT_MINUTES;
+
+    const slots: { startsAt: Date; endsAt: Date }[] = [];
+    for (const hours of store.openingHours || []) {
+      if (hours.dayOfWeek !== dayOfWeek) {
+        continue;
+      }
+      const close = this.toMinutes(hours.closeTime);
+      for (
+        let start = this.toMinutes(hours.openTime);
+        start + length <= close;
+        start += length
+      ) {
+        slots.push({
+          startsAt: new Date(midnight + start * MINUTE_MS),
+          endsAt: new Date(midnight + (start + length) * MINUTE_MS),
+        });
+      }
+    }
+
+    return slots.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  private toLocalDate(at: Date): string {
+    return new Date(
+      at.getTime() + STORE_CONSTANTS.TIMEZONE_OFFSET_MINUTES * MINUTE_MS,
+    )
+      .toISOString()
+      .slice(0, 10);
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
@@ -0,0 +1,241 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  StoreInventory,
+  StoreInventoryDocument,
+} from '../entities/store-inventory.entity';
+import { Store, StoreDocument } from '../entities/store.entity';
+import {
+  Product,
+  ProductDocument,
+} from '../../products/entities/product.entity';
+import { SetStoreStockDto, StoreInventoryFilterDto } from '../dto/store.dto';
+import { StockedItem } from '../interfaces/store.interface';
+import { STORE_ERROR_MESSAGES } from '../constants/store.constants';
+import { PRODUCT_ERROR_MESSAGES } from '../../products/constants';
+import { ProductVariants } from '../../products/helpers';
+
+type StockItem = {
+  productId: Types.ObjectId | string;
+  variantId?: Types.ObjectId | string;
+  quantity: number;
+};
+
+/**
+ * Per-store stock. Store rows are a breakdown of Product.stock: receiving or
+ * writing off units at a store moves both, and orders filled from a store
+ * take from both. Products sold in packs are counted per pack.
+ */
+@Injectable()
+export class StoreInventoryService {
+  private readonly logger = new Logger(StoreInventoryService.name);
+
+  constructor(
+    @InjectModel(StoreInventory.name)
+    private inventoryModel: Model<StoreInventoryDocument>,
+    @InjectModel(Store.name) private storeModel: Model<StoreDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+  ) {}
+
+  async findForStore(storeId: string, filterDto: StoreInventoryFilterDto) {
+    const { page = 1, limit = 20 } = filterDto;
+    const query = { storeId: new Types.ObjectId(storeId) };
+
+    const [inventory, total] = await Promise.all([
+      this.inventoryModel
+        .find(query)
+        .populate('productId', 'name category price stock')
+        .sort({ stock: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      this.inventoryModel.countDocuments(query),
+    ]);
+
+    return {
+      inventory,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Record a stock count at a store. The difference is added to or taken
+   * from Product.stock, and from the pack's stock when counted per pack.
+   */
+  async setStock(
+    storeId: string,
+    productId: string,
+    setStockDto: SetStoreStockDto,
+  ): Promise<StoreInventoryDocument> {
+    if (
+      !Types.ObjectId.isValid(storeId) ||
+      !(await this.storeModel.exists({ _id: storeId }))
+    ) {
+      throw new NotFoundException(STORE_ERROR_MESSAGES.STORE_NOT_FOUND);
+    }
+    const product = Types.ObjectId.isValid(productId)
+      ? await this.productModel.findById(productId).select('variants').lean()
+      : null;
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+    if (product.variants?.length && !setStockDto.variantId) {
+      throw new BadRequestException(PRODUCT_ERROR_MESSAGES.VARIANT_REQUIRED);
+    }
+    if (
+      setStockDto.variantId &&
+      !ProductVariants.find(product, setStockDto.variantId)
+    ) {
+      throw new NotFoundException(PRODUCT_ERROR_MESSAGES.VARIANT_NOT_FOUND);
+    }
+
+    const key = this.toKey(storeId, {
+      productId,
+      variantId: setStockDto.variantId,
+    });
+    const previous = await this.inventoryModel.findOneAndUpdate(
+      key,
+      { $set: { stock: setStockDto.stock } },
+      { upsert: true, new: false },
+    );
+    const previousStock = previous?.stock || 0;
+    const delta = setStockDto.stock - previousStock;
+
+    if (delta !== 0) {
+      const result = await this.productModel.updateOne(
+        this.productStockFilter(key, Math.max(0, -delta)),
+        this.productStockChange(key, delta),
+      );
+      if (result.modifiedCount === 0) {
+        await this.inventoryModel.updateOne(key, {
+          $set: { stock: previousStock },
+        });
+        throw new BadRequestException(STORE_ERROR_MESSAGES.STOCK_OUT_OF_SYNC);
+      }
+    }
+
+    this.logger.log(
+      `Store ${storeId} stock of ${ProductVariants.key(productId, setStockDto.variantId)} set to ${setStockDto.stock}`,
+    );
+    return this.inventoryModel.findOne(key);
+  }
+
+  /**
+   * Stores, of those given, holding enough of every item
+   */
+  async findStoresStocking(
+    storeIds: Types.ObjectId[],
+    items: StockedItem[],
+  ): Promise<Set<string>> {
+    if (!storeIds.length || !items.length) {
+      return new Set();
+    }
+
+    const rows = await this.inventoryModel.aggregate<{ _id: Types.ObjectId }>([
+      {
+        $match: {
+          storeId: { $in: storeIds },
+          $or: items.map((item) => ({
+            productId: new Types.ObjectId(item.productId),
+            variantId: item.variantId
+              ? new Types.ObjectId(item.variantId)
+              : null,
+            stock: { $gte: item.quantity },
+          })),
+        },
+      },
+      { $group: { _id: '$storeId', lines: { $sum: 1 } } },
+      { $match: { lines: items.length } },
+    ]);
+
+    return new Set(rows.map((row) => row._id.toString()));
+  }
+
+  /**
+   * Decrement a store's stock item by item, each only if enough is left,
+   * undoing the items already taken if one falls short
+   */
+  async take(storeId: Types.ObjectId | string, items: StockItem[]) {
+    const taken: StockItem[] = [];
+
+    for (const item of items) {
+      const result = await this.inventoryModel.updateOne(
+        { ...this.toKey(storeId, item), stock: { $gte: item.quantity } },
+        { $inc: { stock: -item.quantity } },
+      );
+
+      if (result.modifiedCount === 0) {
+        await this.restore(storeId, taken);
+        const product = await this.productModel
+          .findById(item.productId)
+          .select('name')
+          .lean();
+        throw new BadRequestException(
+          `${STORE_ERROR_MESSAGES.NOT_STOCKED} ${product?.name || item.productId.toString()}`,
+        );
+      }
+      taken.push(item);
+    }
+  }
+
+  async restore(
+    storeId: Types.ObjectId | string,
+    items: StockItem[],
+  ): Promise<void> {
+    for (const item of items) {
+      await this.inventoryModel.updateOne(
+        this.toKey(storeId, item),
+        { $inc: { stock: item.quantity } },
+        { upsert: true },
+      );
+    }
+  }
+
+  // Rows without a pack hold null, which also matches rows saved before
+  // packs existed
+  private toKey(
+    storeId: Types.ObjectId | string,
+    item: Omit<StockItem, 'quantity'>,
+  ) {
+    return {
+      storeId: new Types.ObjectId(storeId.toString()),
+      productId: new Types.ObjectId(item.productId.toString()),
+      variantId: item.variantId
+        ? new Types.ObjectId(item.variantId.toString())
+        : null,
+    };
+  }
+
+  private productStockFilter(
+    key: ReturnType<StoreInventoryService['toKey']>,
+    atLeast: number,
+  ) {
+    return key.variantId
+      ? {
+          _id: key.productId,
+          variants: {
+            $elemMatch: { _id: key.variantId, stock: { $gte: atLeast } },
+          },
+        }
+      : { _id: key.productId, stock: { $gte: atLeast } };
+  }
+
+  private productStockChange(
+    key: ReturnType<StoreInventoryService['toKey']>,
+    delta: number,
+  ) {
+    return key.variantId
+      ? { $inc: { 'variants.$.stock': delta, stock: delta } }
+      : { $inc: { stock: delta } };
+  }
+}
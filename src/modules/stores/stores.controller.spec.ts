@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { StoresController } from './stores.controller';
 import { StoresService } from './stores.service';
+import { StoreInventoryService } from './services/store-inventory.service';
+import { PickupSlotsService } from './services/pickup-slots.service';
 import { CreateStoreDto, UpdateStoreDto } from './dto/store.dto';
 import { Store } from './entities/store.entity';
 
@@ -25,6 +27,8 @@ describe('StoresController', () => {
           provide: StoresService,
           useValue: mockStoresService,
         },
+        { provide: StoreInventoryService, useValue: {} },
+        { provide: PickupSlotsService, useValue: {} },
       ],
     }).compile();
 
@@ -41,6 +45,8 @@ describe('StoresController', () => {
       const dto: CreateStoreDto = {
         name: 'Test Store',
         address: '123 Test St',
+        city: 'Lagos',
+        location: { latitude: 6.4281, longitude: 3.4219 },
       };
       const expected: Partial<Store> = {
         id: '1',
@@ -2,33 +2,52 @@ import {
   Controller,
   Get,
   Post,
+  Put,
   Body,
   Patch,
   Param,
   Delete,
+  Query,
   UseGuards,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { StoresService } from './stores.service';
+import { StoreInventoryService } from './services/store-inventory.service';
+import { PickupSlotsService } from './services/pickup-slots.service';
 import { Store } from './entities/store.entity';
-import { CreateStoreDto, UpdateStoreDto } from './dto/store.dto';
+import {
+  CreateStoreDto,
+  UpdateStoreDto,
+  NearbyStoresQueryDto,
+  PickupSlotsQueryDto,
+  SetStoreStockDto,
+  StoreInventoryFilterDto,
+} from './dto/store.dto';
 import { Public } from '../auth/decorators';
 import { JwtAuthGuard } from '../auth/guards';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/entities/user.entity';
 
 @ApiTags('stores')
 @Controller('stores')
 export class StoresController {
-  constructor(private readonly storesService: StoresService) {}
+  constructor(
+    private readonly storesService: StoresService,
+    private readonly storeInventoryService: StoreInventoryService,
+    private readonly pickupSlotsService: PickupSlotsService,
+  ) {}
 
   @Post()
   @UseGuards(JwtAuthGuard)
+  @Roles(UserRole.ADMIN)
   @ApiBearerAuth('JWT-auth')
-  @ApiOperation({ summary: 'Create a new store' })
+  @ApiOperation({ summary: 'Create a new store (admin)' })
   @ApiResponse({
     status: 201,
     description: 'Store created successfully',
     type: Store,
   })
+  @ApiResponse({ status: 400, description: 'Invalid opening hours' })
   create(@Body() createStoreDto: CreateStoreDto) {
     return this.storesService.create(createStoreDto);
   }
@@ -41,18 +60,69 @@ export class StoresController {
     return this.storesService.findAll();
   }
 
+  @Get('nearby')
+  @Public()
+  @ApiOperation({ summary: 'Trading stores in a city or near a point, closest first' })
+  @ApiResponse({ status: 200, description: 'Return matching stores' })
+  findNearby(@Query() query: NearbyStoresQueryDto) {
+    return this.storesService.findNearby(query);
+  }
+
   @Get(':id')
   @Public()
   @ApiOperation({ summary: 'Get a store by id' })
   @ApiResponse({ status: 200, description: 'Return the store', type: Store })
+  @ApiResponse({ status: 404, description: 'Store not found' })
   findOne(@Param('id') id: string) {
     return this.storesService.findOne(id);
   }
 
+  @Get(':id/pickup-slots')
+  @Public()
+  @ApiOperation({ summary: 'Pickup slots at a store on a day, with how full each is' })
+  @ApiResponse({ status: 200, description: 'Return the slots' })
+  @ApiResponse({ status: 400, description: 'Store does not offer pickup' })
+  @ApiResponse({ status: 404, description: 'Store not found' })
+  getPickupSlots(@Param('id') id: string, @Query() query: PickupSlotsQueryDto) {
+    return this.pickupSlotsService.getSlots(id, query.date);
+  }
+
+  @Get(':id/inventory')
+  @UseGuards(JwtAuthGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Stock held at a store (admin)' })
+  @ApiResponse({ status: 200, description: 'Return the store inventory' })
+  getInventory(
+    @Param('id') id: string,
+    @Query() filterDto: StoreInventoryFilterDto,
+  ) {
+    return this.storeInventoryService.findForStore(id, filterDto);
+  }
+
+  @Put(':id/inventory/:productId')
+  @UseGuards(JwtAuthGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: "Record a product's stock count at a store; product stock moves by the difference (admin)",
+  })
+  @ApiResponse({ status: 200, description: 'Store stock updated' })
+  @ApiResponse({ status: 400, description: 'Product stock out of sync' })
+  @ApiResponse({ status: 404, description: 'Store or product not found' })
+  setStock(
+    @Param('id') id: string,
+    @Param('productId') productId: string,
+    @Body() setStockDto: SetStoreStockDto,
+  ) {
+    return this.storeInventoryService.setStock(id, productId, setStockDto);
+  }
+
   @Patch(':id')
   @UseGuards(JwtAuthGuard)
+  @Roles(UserRole.ADMIN)
   @ApiBearerAuth('JWT-auth')
-  @ApiOperation({ summary: 'Update a store' })
+  @ApiOperation({ summary: 'Update a store (admin)' })
   @ApiResponse({
     status: 200,
     description: 'Store updated successfully',
@@ -64,8 +134,9 @@ export class StoresController {
 
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
+  @Roles(UserRole.ADMIN)
   @ApiBearerAuth('JWT-auth')
-  @ApiOperation({ summary: 'Delete a store' })
+  @ApiOperation({ summary: 'Delete a store (admin)' })
   @ApiResponse({
     status: 200,
     description: 'Store deleted successfully',
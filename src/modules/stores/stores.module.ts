@@ -1,14 +1,28 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Store, StoreSchema } from './entities/store.entity';
+import {
+  StoreInventory,
+  StoreInventorySchema,
+} from './entities/store-inventory.entity';
+import { PickupSlot, PickupSlotSchema } from './entities/pickup-slot.entity';
+import { Product, ProductSchema } from '../products/entities/product.entity';
 import { StoresController } from './stores.controller';
 import { StoresService } from './stores.service';
+import { StoreInventoryService } from './services/store-inventory.service';
+import { PickupSlotsService } from './services/pickup-slots.service';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Store.name, schema: StoreSchema }]),
+    MongooseModule.forFeature([
+      { name: Store.name, schema: StoreSchema },
+      { name: StoreInventory.name, schema: StoreInventorySchema },
+      { name: PickupSlot.name, schema: PickupSlotSchema },
+      { name: Product.name, schema: ProductSchema },
+    ]),
   ],
   controllers: [StoresController],
-  providers: [StoresService],
+  providers: [StoresService, StoreInventoryService, PickupSlotsService],
+  exports: [StoresService, StoreInventoryService, PickupSlotsService],
 })
 export class StoresModule {}
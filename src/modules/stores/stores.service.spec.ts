@@ -3,6 +3,7 @@ import { getModelToken } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { StoresService } from './stores.service';
 import { Store, StoreDocument } from './entities/store.entity';
+import { StoreInventoryService } from './services/store-inventory.service';
 import { CreateStoreDto, UpdateStoreDto } from './dto/store.dto';
 
 const mockStore = {
@@ -35,6 +36,7 @@ describe('StoresService', () => {
             exec: jest.fn(),
           },
         },
+        { provide: StoreInventoryService, useValue: {} },
       ],
     }).compile();
 
@@ -51,6 +53,8 @@ describe('StoresService', () => {
       const createStoreDto: CreateStoreDto = {
         name: 'New Store',
         address: '123 New St',
+        city: 'Lagos',
+        location: { latitude: 6.4281, longitude: 3.4219 },
       };
       const expectedStore = { id: '1', ...createStoreDto };
 
@@ -1,17 +1,38 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { Store, StoreDocument } from './entities/store.entity';
-import { IStoreService } from './interfaces/store.interface';
-import { CreateStoreDto, UpdateStoreDto } from './dto/store.dto';
+import {
+  IStoreService,
+  IStoreLocation,
+  FulfilmentStore,
+  StockedItem,
+} from './interfaces/store.interface';
+import {
+  CreateStoreDto,
+  UpdateStoreDto,
+  NearbyStoresQueryDto,
+} from './dto/store.dto';
+import { StoreInventoryService } from './services/store-inventory.service';
+import {
+  STORE_CONSTANTS,
+  STORE_ERROR_MESSAGES,
+} from './constants/store.constants';
+import { FEE_CALCULATOR } from '../delivery/constants/delivery.constants';
 
 @Injectable()
 export class StoresService implements IStoreService {
   constructor(
     @InjectModel(Store.name) private storeModel: Model<StoreDocument>,
+    private readonly storeInventoryService: StoreInventoryService,
   ) {}
 
   async create(storeData: CreateStoreDto): Promise<Store> {
+    this.validateOpeningHours(storeData);
     const createdStore = new this.storeModel(storeData);
     return createdStore.save();
   }
@@ -21,16 +42,164 @@ export class StoresService implements IStoreService {
   }
 
   async findOne(id: string): Promise<Store> {
-    return this.storeModel.findById(id).exec();
+    const store = Types.ObjectId.isValid(id)
+      ? await this.storeModel.findById(id).exec()
+      : null;
+    if (!store) {
+      throw new NotFoundException(STORE_ERROR_MESSAGES.STORE_NOT_FOUND);
+    }
+    return store;
   }
 
   async update(id: string, storeData: UpdateStoreDto): Promise<Store> {
+    this.validateOpeningHours(storeData);
     return this.storeModel
-      .findByIdAndUpdate(id, storeData, { new: true })
+      .findByIdAndUpdate(id, storeData, { new: true, runValidators: true })
       .exec();
   }
 
   async remove(id: string): Promise<Store> {
     return this.storeModel.findByIdAndDelete(id).exec();
   }
+
+  /**
+   * Trading stores in a city or near the customer, closest first
+   */
+  async findNearby(query: NearbyStoresQueryDto) {
+    const filter: any = { isActive: true };
+    if (query.city) {
+      filter.city = this.cityPattern(query.city);
+    }
+    if (query.pickupOnly) {
+      filter.supportsPickup = true;
+    }
+
+    const stores = await this.storeModel.find(filter).lean();
+    const hasPosition =
+      typeof query.latitude === 'number' &&
+      typeof query.longitude === 'number';
+    if (!hasPosition) {
+      return stores;
+    }
+
+    return stores
+      .map((store) => ({
+        ...store,
+        distanceKm: this.distance(store.location, {
+          latitude: query.latitude,
+          longitude: query.longitude,
+        }),
+      }))
+      .filter(
+        (store) =>
+          query.city || store.distanceKm <= STORE_CONSTANTS.NEARBY_RADIUS_KM,
+      )
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+  }
+
+  /**
+   * Store a customer has chosen to collect from
+   */
+  async findPickupStore(id: string): Promise<StoreDocument> {
+    const store = Types.ObjectId.isValid(id)
+      ? await this.storeModel.findOne({ _id: id, isActive: true })
+      : null;
+    if (!store) {
+      throw new NotFoundException(STORE_ERROR_MESSAGES.STORE_NOT_FOUND);
+    }
+    if (!store.supportsPickup) {
+      throw new BadRequestException(STORE_ERROR_MESSAGES.PICKUP_NOT_AVAILABLE);
+    }
+    return store;
+  }
+
+  /**
+   * Store a home delivery leaves from: the closest one in the city that has
+   * every item, or failing that the closest one in the city. Stores are
+   * equally close when the customer gave no coordinates.
+   */
+  async findFulfilmentStore(
+    destination: { city: string; latitude?: number; longitude?: number },
+    items: StockedItem[],
+  ): Promise<FulfilmentStore | null> {
+    const stores = await this.storeModel
+      .find({ city: this.cityPattern(destination.city), isActive: true })
+      .lean();
+    if (!stores.length) {
+      return null;
+    }
+
+    const hasPosition =
+      typeof destination.latitude === 'number' &&
+      typeof destination.longitude === 'number';
+    const ranked = stores
+      .map((store) => ({
+        store,
+        distanceKm: hasPosition
+          ? this.distance(store.location, {
+              latitude: destination.latitude,
+              longitude: destination.longitude,
+            })
+          : undefined,
+      }))
+      .sort((a, b) => (a.distanceKm ?? 0) - (b.distanceKm ?? 0));
+
+    const stocked = await this.storeInventoryService.findStoresStocking(
+      ranked.map(({ store }) => store._id as Types.ObjectId),
+      items,
+    );
+    const best =
+      ranked.find(({ store }) => stocked.has(store._id.toString())) ||
+      ranked[0];
+
+    return {
+      store: {
+        _id: best.store._id as Types.ObjectId,
+        name: best.store.name,
+        city: best.store.city,
+        location: best.store.location,
+      },
+      distanceKm: best.distanceKm,
+      stocked: stocked.has(best.store._id.toString()),
+    };
+  }
+
+  /**
+   * Where a rider collects an order from the store
+   */
+  async getLocation(
+    storeId: Types.ObjectId | string,
+  ): Promise<IStoreLocation | undefined> {
+    const store = await this.storeModel
+      .findById(storeId)
+      .select('location')
+      .lean();
+    return store?.location;
+  }
+
+  private validateOpeningHours(storeData: UpdateStoreDto): void {
+    for (const hours of storeData.openingHours || []) {
+      if (hours.closeTime <= hours.openTime) {
+        throw new BadRequestException(STORE_ERROR_MESSAGES.INVALID_HOURS);
+      }
+    }
+  }
+
+  private distance(from: IStoreLocation, to: IStoreLocation): number {
+    return (
+      Math.round(
+        FEE_CALCULATOR.calculateDistance(
+          from.latitude,
+          from.longitude,
+          to.latitude,
+          to.longitude,
+        ) * 100,
+      ) / 100
+    );
+  }
+
+  private cityPattern(city: string): RegExp {
+    const escaped = city.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^${escaped}$`, 'i');
+  }
 }
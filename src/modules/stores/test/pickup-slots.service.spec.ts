@@ -0,0 +1,101 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PickupSlotsService } from '../services/pickup-slots.service';
+import { PickupSlot } from '../entities/pickup-slot.entity';
+import { Store } from '../entities/store.entity';
+
+describe('PickupSlotsService', () => {
+  let service: PickupSlotsService;
+  let pickupSlotModel: any;
+
+  const store = {
+    _id: new Types.ObjectId(),
+    // Mondays, Lagos time
+    openingHours: [{ dayOfWeek: 1, openTime: '09:00', closeTime: '12:00' }],
+    holidays: [{ date: '2026-12-28', reason: 'Public holiday' }],
+    pickupSlotMinutes: 60,
+    pickupSlotCapacity: 2,
+  };
+
+  beforeEach(async () => {
+    pickupSlotModel = {
+      exists: jest.fn().mockResolvedValue(null),
+      findOneAndUpdate: jest.fn().mockResolvedValue({}),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PickupSlotsService,
+        { provide: getModelToken(PickupSlot.name), useValue: pickupSlotModel },
+        { provide: getModelToken(Store.name), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<PickupSlotsService>(PickupSlotsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('buildSlots', () => {
+    it('should cut slots from the opening hours in Lagos time', () => {
+      const slots = service.buildSlots(store, '2026-12-21');
+
+      expect(slots).toHaveLength(3);
+      expect(slots[0].startsAt.toISOString()).toBe('2026-12-21T08:00:00.000Z');
+      expect(slots[2].endsAt.toISOString()).toBe('2026-12-21T11:00:00.000Z');
+    });
+
+    it('should have no slots on closed days or holidays', () => {
+      expect(service.buildSlots(store, '2026-12-22')).toEqual([]);
+      expect(service.buildSlots(store, '2026-12-28')).toEqual([]);
+    });
+  });
+
+  describe('book', () => {
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-12-20T12:00:00Z'));
+    });
+
+    it('should reject a time that is not a slot start', async () => {
+      await expect(
+        service.book(
+          store,
+          new Date('2026-12-21T08:30:00Z'),
+          new Types.ObjectId().toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(pickupSlotModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should report a full slot', async () => {
+      pickupSlotModel.findOneAndUpdate.mockRejectedValue({ code: 11000 });
+
+      await expect(
+        service.book(
+          store,
+          new Date('2026-12-21T08:00:00Z'),
+          new Types.ObjectId().toString(),
+        ),
+      ).rejects.toThrow('This pickup slot is fully booked');
+    });
+  });
+
+  describe('release', () => {
+    it("should free the order's place in its slot", async () => {
+      const orderId = new Types.ObjectId();
+
+      const released = await service.release(orderId.toString());
+
+      expect(released).toBe(true);
+      expect(pickupSlotModel.updateOne).toHaveBeenCalledWith(
+        { orderIds: orderId },
+        { $inc: { booked: -1 }, $pull: { orderIds: orderId } },
+      );
+    });
+  });
+});
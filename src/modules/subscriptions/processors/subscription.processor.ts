@@ -6,6 +6,13 @@ import { InjectQueue } from '@nestjs/bull';
 import { Model } from 'mongoose';
 import { Subscription, SubscriptionDocument, SubscriptionStatus } from '../entities/subscription.entity';
 import { Wallet, WalletDocument } from '../../wallets/entities/wallet.entity';
+import { WalletsService } from '../../wallets/wallets.service';
+import { WalletType } from '../../wallets/dto';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../../wallets/entities/wallet-ledger-entry.entity';
 import { Order, OrderDocument, PaymentStatus, PaymentMethod } from '../../orders/entities/order.entity';
 import { NotificationsService } from '../../notifications/notifications.service';
 
@@ -29,6 +36,7 @@ export class SubscriptionProcessor {
     @InjectQueue('subscription-retry') private retryQueue: Queue,
     @InjectQueue('subscription-notifications') private notificationQueue: Queue,
     private readonly notificationsService: NotificationsService,
+    private readonly walletsService: WalletsService,
   ) {}
 
   @Process('process-drop')
@@ -79,13 +87,25 @@ export class SubscriptionProcessor {
       }
 
       // Process payment
-      wallet.foodMoney -= dropToProcess.amount;
-      await wallet.save();
+      const { transactionId } = await this.walletsService.chargeWallet(
+        userId,
+        WalletType.FOOD_MONEY,
+        dropToProcess.amount,
+        `Subscription drop ${targetDropIndex + 1}`,
+        {
+          transactionType: LedgerTransactionType.ORDER_PAYMENT,
+          counterAccount: LedgerAccount.SYSTEM_REVENUE,
+          reference: {
+            type: LedgerReferenceType.SUBSCRIPTION,
+            id: subscriptionId,
+          },
+        },
+      );
 
       // Update subscription
       subscription.dropSchedule[targetDropIndex].isPaid = true;
       subscription.dropSchedule[targetDropIndex].paidDate = new Date();
-      subscription.dropSchedule[targetDropIndex].transactionRef = transactionRef || `drop_${Date.now()}`;
+      subscription.dropSchedule[targetDropIndex].transactionRef = transactionRef || transactionId;
       subscription.dropsPaid += 1;
       subscription.amountPaid += dropToProcess.amount;
 
@@ -9,6 +9,7 @@ import { Wallet, WalletSchema } from '../wallets/entities/wallet.entity';
 import { Order, OrderSchema } from '../orders/entities/order.entity';
 import { User, UserSchema } from '../users/entities/user.entity';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { WalletsModule } from '../wallets/wallets.module';
 import { SubscriptionProcessor } from './processors/subscription.processor';
 import { SubscriptionRetryProcessor } from './processors/subscription-retry.processor';
 import { SubscriptionNotificationProcessor } from './processors/subscription-notifications.processor';
@@ -26,6 +27,7 @@ import { ConflictResolutionService } from './services/conflict-resolution.servic
     ]),
     ScheduleModule.forRoot(),
     NotificationsModule,
+    WalletsModule,
     
     // Bull queues for subscription background processing
     BullModule.registerQueue({
@@ -22,6 +22,13 @@ import {
   CartItem
 } from '../orders/entities/order.entity';
 import { Wallet, WalletDocument } from '../wallets/entities/wallet.entity';
+import { WalletsService } from '../wallets/wallets.service';
+import { WalletType } from '../wallets/dto';
+import {
+  LedgerAccount,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../wallets/entities/wallet-ledger-entry.entity';
 import { NotificationsService } from '../notifications/notifications.service';
 import { NotificationType, NotificationChannel } from '../notifications/entities/notification.entity';
 import { ConvenienceFeeProvider } from './services/convenience-fee.provider';
@@ -45,6 +52,7 @@ export class SubscriptionsService {
     @InjectModel(Wallet.name) private walletModel: Model<WalletDocument>,
     @InjectQueue('subscription-processing') private processingQueue: Queue,
     private readonly notificationsService: NotificationsService,
+    private readonly walletsService: WalletsService,
     private readonly convenienceFeeProvider: ConvenienceFeeProvider,
     private readonly stateMachine: SubscriptionStateMachine,
     private readonly conflictResolver: ConflictResolutionService,
@@ -220,16 +228,29 @@ export class SubscriptionsService {
     }
     
     // Process the payment
+    let transactionId: string | undefined;
     if (!processDto.markAsPaid) {
-      // Deduct from wallet
-      wallet.foodMoney -= dropAmount;
-      await wallet.save();
+      ({ transactionId } = await this.walletsService.chargeWallet(
+        subscription.userId.toString(),
+        WalletType.FOOD_MONEY,
+        dropAmount,
+        `Subscription drop ${nextDropIndex + 1} for order ${order.orderNumber}`,
+        {
+          transactionType: LedgerTransactionType.ORDER_PAYMENT,
+          counterAccount: LedgerAccount.SYSTEM_REVENUE,
+          reference: {
+            type: LedgerReferenceType.SUBSCRIPTION,
+            id: subscription._id.toString(),
+          },
+          createdBy: userId,
+        },
+      ));
     }
     
     // Update drop as paid
     subscription.dropSchedule[nextDropIndex].isPaid = true;
     subscription.dropSchedule[nextDropIndex].paidDate = new Date();
-    subscription.dropSchedule[nextDropIndex].transactionRef = processDto.transactionRef || `drop_${Date.now()}`;
+    subscription.dropSchedule[nextDropIndex].transactionRef = processDto.transactionRef || transactionId || `drop_${Date.now()}`;
     
     // Update subscription statistics
     subscription.dropsPaid += 1;
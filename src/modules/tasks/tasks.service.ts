@@ -6,6 +6,7 @@ import { NotificationsService } from '../notifications/notifications.service';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
 import { AuctionsService } from '../auctions/auctions.service';
 import { ProductsService } from '../products/products.service';
+import { PriceScheduleService } from '../products/services/price-schedule.service';
 import { ReferralsService } from '../referrals/referrals.service';
 import { GrowthManagementService } from '../referrals/services/growth-management.service';
 import { CommissionService } from '../referrals/services/commission.service';
@@ -19,6 +20,7 @@ export class TasksService {
     private readonly subscriptionsService: SubscriptionsService,
     private readonly auctionsService: AuctionsService,
     private readonly productsService: ProductsService,
+    private readonly priceScheduleService: PriceScheduleService,
     private readonly referralsService: ReferralsService,
     private readonly growthManagementService: GrowthManagementService,
     private readonly commissionService: CommissionService,
@@ -60,6 +62,19 @@ export class TasksService {
     }
   }
 
+  // Run every minute
+  @Cron(CronExpression.EVERY_MINUTE)
+  async handleScheduledPriceChanges() {
+    try {
+      const appliedCount = await this.priceScheduleService.applyDueChanges();
+      if (appliedCount > 0) {
+        this.logger.log(`Successfully applied ${appliedCount} scheduled price changes`);
+      }
+    } catch (error) {
+      this.logger.error(`Error applying scheduled price changes: ${error.message}`, error.stack);
+    }
+  }
+
   // Run every 5 minutes
   @Cron(CronExpression.EVERY_5_MINUTES)
   async handleAuctionEndStatus() {
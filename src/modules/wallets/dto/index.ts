@@ -2,6 +2,7 @@ export * from './update-balance.dto';
 export * from './transfer-funds.dto';
 export * from './lock-unlock-funds.dto';
 export * from './withdrawal-request.dto';
+export * from './wallet-history.dto';
 export {
   CreateWalletDto,
   UpdateWalletBalanceDto,
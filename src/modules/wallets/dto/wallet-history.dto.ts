@@ -0,0 +1,111 @@
+import {
+  IsEnum,
+  IsOptional,
+  IsDateString,
+  IsInt,
+  IsIn,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional, ApiProperty } from '@nestjs/swagger';
+import { WalletType } from './update-balance.dto';
+import {
+  LedgerTransactionType,
+  LedgerReferenceType,
+} from '../entities/wallet-ledger-entry.entity';
+
+export class WalletHistoryQueryDto {
+  @ApiPropertyOptional({
+    description: 'Wallet to show movements for (defaults to all)',
+    enum: WalletType,
+  })
+  @IsOptional()
+  @IsEnum(WalletType)
+  walletType?: WalletType;
+
+  @ApiPropertyOptional({
+    description: 'Filter by movement type',
+    enum: LedgerTransactionType,
+  })
+  @IsOptional()
+  @IsEnum(LedgerTransactionType)
+  transactionType?: LedgerTransactionType;
+
+  @ApiPropertyOptional({
+    description: 'Filter by source document type',
+    enum: LedgerReferenceType,
+  })
+  @IsOptional()
+  @IsEnum(LedgerReferenceType)
+  referenceType?: LedgerReferenceType;
+
+  @ApiPropertyOptional({
+    description: 'Only include movements on or after this date',
+    example: '2024-01-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only include movements on or before this date',
+    example: '2024-01-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Items per page',
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class WalletStatementQueryDto {
+  @ApiProperty({ description: 'Statement year', example: 2024 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(2020)
+  year: number;
+
+  @ApiProperty({ description: 'Statement month (1-12)', example: 6 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  month: number;
+
+  @ApiPropertyOptional({
+    description: 'Wallet to produce the statement for',
+    enum: WalletType,
+    default: WalletType.FOOD_MONEY,
+  })
+  @IsOptional()
+  @IsEnum(WalletType)
+  walletType?: WalletType = WalletType.FOOD_MONEY;
+
+  @ApiPropertyOptional({
+    description: 'Response format; csv returns a downloadable file',
+    enum: ['json', 'csv'],
+    default: 'json',
+  })
+  @IsOptional()
+  @IsIn(['json', 'csv'])
+  format?: 'json' | 'csv' = 'json';
+}
@@ -1 +1,11 @@
 export { Wallet, WalletDocument, WalletSchema, WalletStatus } from './wallet.entity';
+export {
+  WalletLedgerEntry,
+  WalletLedgerEntryDocument,
+  WalletLedgerEntrySchema,
+  LedgerAccount,
+  LedgerEntryDirection,
+  LedgerCurrency,
+  LedgerTransactionType,
+  LedgerReferenceType,
+} from './wallet-ledger-entry.entity';
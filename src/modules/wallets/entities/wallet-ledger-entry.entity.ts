@@ -0,0 +1,240 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  Min,
+  IsEnum,
+  IsOptional,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { WalletType } from '../dto/update-balance.dto';
+
+export type WalletLedgerEntryDocument = WalletLedgerEntry & Document;
+
+/**
+ * Ledger accounts. The first three mirror the wallet balance fields and are
+ * always tied to a user; the `system:*` accounts hold the other side of every
+ * movement so each transaction balances.
+ *
+ * Wallet accounts are liabilities owed to the user: a credit increases the
+ * balance and a debit decreases it.
+ */
+export enum LedgerAccount {
+  FOOD_MONEY = 'foodMoney',
+  FOOD_POINTS = 'foodPoints',
+  FOOD_SAFE = 'foodSafe',
+  SYSTEM_FUNDING = 'system:funding',
+  SYSTEM_ADJUSTMENT = 'system:adjustment',
+  SYSTEM_REVENUE = 'system:revenue',
+  SYSTEM_REFUNDS = 'system:refunds',
+  SYSTEM_COMMISSIONS = 'system:commissions',
+  SYSTEM_REWARDS = 'system:rewards',
+  SYSTEM_AUCTION_ESCROW = 'system:auction_escrow',
+  SYSTEM_PAYOUTS = 'system:payouts',
+  SYSTEM_NIBIA_CONVERSION = 'system:nibia_conversion',
+}
+
+export enum LedgerEntryDirection {
+  DEBIT = 'debit',
+  CREDIT = 'credit',
+}
+
+export enum LedgerCurrency {
+  NGN = 'NGN',
+  NIBIA = 'NIBIA',
+}
+
+export enum LedgerTransactionType {
+  OPENING_BALANCE = 'opening_balance',
+  FUNDING = 'funding',
+  ADMIN_ADJUSTMENT = 'admin_adjustment',
+  TRANSFER = 'transfer',
+  LOCK = 'lock',
+  UNLOCK = 'unlock',
+  WITHDRAWAL = 'withdrawal',
+  COMMISSION = 'commission',
+  REFUND = 'refund',
+  ORDER_PAYMENT = 'order_payment',
+  AUCTION_BID = 'auction_bid',
+  AUCTION_REFUND = 'auction_refund',
+  PROFIT_POOL = 'profit_pool',
+  DEFAULT_RECOVERY = 'default_recovery',
+  SELLER_PAYOUT = 'seller_payout',
+  RIDER_PAYOUT = 'rider_payout',
+}
+
+export enum LedgerReferenceType {
+  ORDER = 'order',
+  PAYMENT = 'payment',
+  COMMISSION = 'commission',
+  REFERRAL = 'referral',
+  WITHDRAWAL = 'withdrawal',
+  AUCTION = 'auction',
+  PROFIT_POOL = 'profit_pool',
+  TRANSFER = 'transfer',
+  ADMIN = 'admin',
+  PAYOUT_BATCH = 'payout_batch',
+  DELIVERY = 'delivery',
+  SUBSCRIPTION = 'subscription',
+}
+
+/**
+ * Ledger account that mirrors each wallet balance
+ */
+export const WALLET_TYPE_ACCOUNTS: Record<WalletType, LedgerAccount> = {
+  [WalletType.FOOD_MONEY]: LedgerAccount.FOOD_MONEY,
+  [WalletType.FOOD_POINTS]: LedgerAccount.FOOD_POINTS,
+  [WalletType.FOOD_SAFE]: LedgerAccount.FOOD_SAFE,
+};
+
+export const WALLET_LEDGER_ACCOUNTS = [
+  LedgerAccount.FOOD_MONEY,
+  LedgerAccount.FOOD_POINTS,
+  LedgerAccount.FOOD_SAFE,
+];
+
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class WalletLedgerEntry {
+  @ApiProperty({
+    description:
+      'Transaction ID shared by all entries of one balanced movement',
+    example: 'TXN_1703500000000_abc123def',
+  })
+  @Prop({ required: true, index: true })
+  @IsString()
+  @IsNotEmpty()
+  transactionId: string;
+
+  @ApiProperty({
+    description: 'Business type of the movement',
+    enum: LedgerTransactionType,
+  })
+  @Prop({ required: true, enum: Object.values(LedgerTransactionType) })
+  @IsEnum(LedgerTransactionType)
+  transactionType: LedgerTransactionType;
+
+  @ApiProperty({ description: 'Ledger account affected', enum: LedgerAccount })
+  @Prop({ required: true, enum: Object.values(LedgerAccount) })
+  @IsEnum(LedgerAccount)
+  account: LedgerAccount;
+
+  @ApiProperty({
+    description: 'Wallet owner for wallet accounts',
+    required: false,
+  })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'User' })
+  @IsOptional()
+  userId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Wallet ID for wallet accounts',
+    required: false,
+  })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'Wallet' })
+  @IsOptional()
+  walletId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Entry direction', enum: LedgerEntryDirection })
+  @Prop({ required: true, enum: Object.values(LedgerEntryDirection) })
+  @IsEnum(LedgerEntryDirection)
+  direction: LedgerEntryDirection;
+
+  @ApiProperty({
+    description: 'Entry amount (always positive)',
+    example: 1500.0,
+  })
+  @Prop({ required: true, type: Number, min: 0.01 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  @ApiProperty({ description: 'Currency of the entry', enum: LedgerCurrency })
+  @Prop({ required: true, enum: Object.values(LedgerCurrency) })
+  @IsEnum(LedgerCurrency)
+  currency: LedgerCurrency;
+
+  @ApiProperty({
+    description:
+      'Wallet balance after this entry was applied (wallet accounts only)',
+    required: false,
+  })
+  @Prop({ required: false, type: Number })
+  @IsOptional()
+  balanceAfter?: number;
+
+  @ApiProperty({
+    description: 'Source document type',
+    enum: LedgerReferenceType,
+    required: false,
+  })
+  @Prop({ required: false, enum: Object.values(LedgerReferenceType) })
+  @IsOptional()
+  @IsEnum(LedgerReferenceType)
+  referenceType?: LedgerReferenceType;
+
+  @ApiProperty({
+    description: 'Source document ID or external reference',
+    required: false,
+  })
+  @Prop({ required: false })
+  @IsOptional()
+  @IsString()
+  referenceId?: string;
+
+  @ApiProperty({ description: 'Human readable description', required: false })
+  @Prop({ required: false, maxlength: 255 })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    description: 'User who initiated the movement',
+    required: false,
+  })
+  @Prop({ required: false, type: Types.ObjectId, ref: 'User' })
+  @IsOptional()
+  createdBy?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Additional metadata', required: false })
+  @Prop({ type: Object, required: false })
+  @IsOptional()
+  metadata?: Record<string, any>;
+
+  @ApiProperty({ description: 'Entry timestamp' })
+  createdAt?: Date;
+}
+
+export const WalletLedgerEntrySchema =
+  SchemaFactory.createForClass(WalletLedgerEntry);
+
+// Ledger entries are append-only; corrections must be posted as new transactions
+const rejectMutation = function (next: (err?: Error) => void) {
+  next(new Error('Wallet ledger entries are immutable'));
+};
+
+WalletLedgerEntrySchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return rejectMutation(next);
+  }
+  next();
+});
+
+for (const operation of [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'replaceOne',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete',
+] as const) {
+  WalletLedgerEntrySchema.pre(operation as any, rejectMutation);
+}
+
+// Indexes for statements and reconciliation
+WalletLedgerEntrySchema.index({ userId: 1, account: 1, createdAt: -1 });
+WalletLedgerEntrySchema.index({ referenceType: 1, referenceId: 1 });
+WalletLedgerEntrySchema.index({ transactionType: 1, createdAt: -1 });
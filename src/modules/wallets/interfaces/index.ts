@@ -9,4 +9,6 @@ export {
   WalletAnalytics,
   WalletLimits,
   WalletSearchParams,
+  WalletStatement,
+  WalletStatementLine,
 } from './wallet.interface';
@@ -108,3 +108,28 @@ export interface WalletSearchParams {
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
 }
+
+export interface WalletStatementLine {
+  date: Date;
+  transactionId: string;
+  transactionType: string;
+  description?: string;
+  referenceType?: string;
+  referenceId?: string;
+  credit: number;
+  debit: number;
+  balance: number;
+}
+
+export interface WalletStatement {
+  userId: string;
+  walletType: string;
+  currency: string;
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: number;
+  totalCredits: number;
+  totalDebits: number;
+  closingBalance: number;
+  lines: WalletStatementLine[];
+}
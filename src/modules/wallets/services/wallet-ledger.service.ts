@@ -0,0 +1,567 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model, Types } from 'mongoose';
+import {
+  WalletLedgerEntry,
+  WalletLedgerEntryDocument,
+  LedgerAccount,
+  LedgerCurrency,
+  LedgerEntryDirection,
+  LedgerReferenceType,
+  LedgerTransactionType,
+  WALLET_LEDGER_ACCOUNTS,
+} from '../entities/wallet-ledger-entry.entity';
+import { Wallet, WalletDocument } from '../entities/wallet.entity';
+import { WalletType } from '../dto/update-balance.dto';
+import { WalletHistoryQueryDto } from '../dto/wallet-history.dto';
+import {
+  WalletStatement,
+  WalletStatementLine,
+} from '../interfaces/wallet.interface';
+
+export interface LedgerReference {
+  type: LedgerReferenceType;
+  id: string;
+}
+
+export interface LedgerLeg {
+  account: LedgerAccount;
+  direction: LedgerEntryDirection;
+  amount: number;
+  currency?: LedgerCurrency;
+  userId?: string | Types.ObjectId;
+  walletId?: string | Types.ObjectId;
+  balanceAfter?: number;
+}
+
+export interface PostLedgerTransactionInput {
+  transactionType: LedgerTransactionType;
+  legs: LedgerLeg[];
+  transactionId?: string;
+  reference?: LedgerReference;
+  description?: string;
+  createdBy?: string;
+  metadata?: Record<string, any>;
+  session?: ClientSession;
+}
+
+/**
+ * Options accepted by callers that move money on a single wallet account.
+ * The counter account defaults depend on the operation.
+ */
+export interface LedgerPostingOptions {
+  transactionType?: LedgerTransactionType;
+  counterAccount?: LedgerAccount;
+  reference?: LedgerReference;
+  transactionId?: string;
+  createdBy?: string;
+  metadata?: Record<string, any>;
+  session?: ClientSession;
+}
+
+export interface LedgerReconciliationResult {
+  userId: string;
+  balanced: boolean;
+  accounts: Record<
+    WalletType,
+    { stored: number; derived: number; difference: number }
+  >;
+}
+
+@Injectable()
+export class WalletLedgerService {
+  private readonly logger = new Logger(WalletLedgerService.name);
+
+  constructor(
+    @InjectModel(WalletLedgerEntry.name)
+    private ledgerEntryModel: Model<WalletLedgerEntryDocument>,
+    @InjectModel(Wallet.name) private walletModel: Model<WalletDocument>,
+  ) {}
+
+  generateTransactionId(): string {
+    return `TXN_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Currency held by a ledger account. Nibia lives in foodPoints; system
+   * accounts default to NGN unless the leg says otherwise.
+   */
+  currencyFor(account: LedgerAccount): LedgerCurrency {
+    return account === LedgerAccount.FOOD_POINTS
+      ? LedgerCurrency.NIBIA
+      : LedgerCurrency.NGN;
+  }
+
+  /**
+   * Persist a balanced set of ledger entries. Debits must equal credits for
+   * every currency in the transaction.
+   */
+  async postTransaction(input: PostLedgerTransactionInput): Promise<string> {
+    const { legs, session } = input;
+
+    if (!legs || legs.length < 2) {
+      throw new BadRequestException(
+        'A ledger transaction needs at least one debit and one credit',
+      );
+    }
+
+    const totals = new Map<LedgerCurrency, number>();
+    for (const leg of legs) {
+      if (!(leg.amount > 0)) {
+        throw new BadRequestException('Ledger entry amounts must be positive');
+      }
+      if (WALLET_LEDGER_ACCOUNTS.includes(leg.account) && !leg.userId) {
+        throw new BadRequestException(
+          `Ledger entry on ${leg.account} requires a userId`,
+        );
+      }
+      const currency = leg.currency || this.currencyFor(leg.account);
+      const signed =
+        leg.direction === LedgerEntryDirection.CREDIT
+          ? leg.amount
+          : -leg.amount;
+      totals.set(currency, this.round((totals.get(currency) || 0) + signed));
+    }
+
+    for (const [currency, total] of totals) {
+      if (total !== 0) {
+        throw new BadRequestException(
+          `Unbalanced ledger transaction: ${currency} credits and debits differ by ${total}`,
+        );
+      }
+    }
+
+    const transactionId = input.transactionId || this.generateTransactionId();
+    const entries = legs.map((leg) => ({
+      transactionId,
+      transactionType: input.transactionType,
+      account: leg.account,
+      userId: leg.userId
+        ? new Types.ObjectId(leg.userId.toString())
+        : undefined,
+      walletId: leg.walletId
+        ? new Types.ObjectId(leg.walletId.toString())
+        : undefined,
+      direction: leg.direction,
+      amount: this.round(leg.amount),
+      currency: leg.currency || this.currencyFor(leg.account),
+      balanceAfter: leg.balanceAfter,
+      referenceType: input.reference?.type,
+      referenceId: input.reference?.id,
+      description: input.description,
+      createdBy: input.createdBy
+        ? new Types.ObjectId(input.createdBy)
+        : undefined,
+      metadata: input.metadata,
+    }));
+
+    await this.ledgerEntryModel.insertMany(entries, { session });
+
+    this.logger.debug(
+      `Posted ledger transaction ${transactionId} (${input.transactionType}) with ${entries.length} entries`,
+    );
+
+    return transactionId;
+  }
+
+  /**
+   * Record money coming into a user wallet account from a system account.
+   */
+  async recordWalletCredit(
+    wallet: { _id?: any; userId: any },
+    walletType: WalletType,
+    amount: number,
+    balanceAfter: number,
+    description: string,
+    options: LedgerPostingOptions = {},
+  ): Promise<string> {
+    return this.recordSingleWalletMovement(
+      wallet,
+      walletType,
+      LedgerEntryDirection.CREDIT,
+      amount,
+      balanceAfter,
+      description,
+      options,
+    );
+  }
+
+  /**
+   * Record money leaving a user wallet account to a system account.
+   */
+  async recordWalletDebit(
+    wallet: { _id?: any; userId: any },
+    walletType: WalletType,
+    amount: number,
+    balanceAfter: number,
+    description: string,
+    options: LedgerPostingOptions = {},
+  ): Promise<string> {
+    return this.recordSingleWalletMovement(
+      wallet,
+      walletType,
+      LedgerEntryDirection.DEBIT,
+      amount,
+      balanceAfter,
+      description,
+      options,
+    );
+  }
+
+  /**
+   * Sum of credits minus debits for each wallet account of a user
+   */
+  async getDerivedBalances(
+    userId: string,
+  ): Promise<Record<WalletType, number>> {
+    const rows = await this.ledgerEntryModel.aggregate([
+      {
+        $match: {
+          userId: new Types.ObjectId(userId),
+          account: { $in: WALLET_LEDGER_ACCOUNTS },
+        },
+      },
+      {
+        $group: {
+          _id: '$account',
+          balance: {
+            $sum: {
+              $cond: [
+                { $eq: ['$direction', LedgerEntryDirection.CREDIT] },
+                '$amount',
+                { $multiply: ['$amount', -1] },
+              ],
+            },
+          },
+        },
+      },
+    ]);
+
+    const balances = {
+      [WalletType.FOOD_MONEY]: 0,
+      [WalletType.FOOD_POINTS]: 0,
+      [WalletType.FOOD_SAFE]: 0,
+    } as Record<WalletType, number>;
+
+    for (const row of rows) {
+      balances[row._id as WalletType] = this.round(row.balance);
+    }
+
+    return balances;
+  }
+
+  /**
+   * Compare the running balances on the wallet with the balances derived
+   * from the ledger.
+   */
+  async reconcileWallet(userId: string): Promise<LedgerReconciliationResult> {
+    const wallet = await this.walletModel
+      .findOne({ userId: new Types.ObjectId(userId) })
+      .lean();
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found for this user');
+    }
+
+    const derived = await this.getDerivedBalances(userId);
+    const accounts = {} as LedgerReconciliationResult['accounts'];
+    let balanced = true;
+
+    for (const walletType of Object.values(WalletType)) {
+      const stored = this.round(wallet[walletType] || 0);
+      const difference = this.round(stored - derived[walletType]);
+      if (difference !== 0) {
+        balanced = false;
+      }
+      accounts[walletType] = {
+        stored,
+        derived: derived[walletType],
+        difference,
+      };
+    }
+
+    if (!balanced) {
+      this.logger.warn(`Wallet ledger mismatch for user ${userId}`);
+    }
+
+    return { userId, balanced, accounts };
+  }
+
+  /**
+   * All entries posted against a source document
+   */
+  async getEntriesByReference(
+    type: LedgerReferenceType,
+    id: string,
+  ): Promise<WalletLedgerEntry[]> {
+    return this.ledgerEntryModel
+      .find({ referenceType: type, referenceId: id })
+      .sort({ createdAt: 1 })
+      .lean()
+      .exec();
+  }
+
+  /**
+   * All entries posted under one transaction ID
+   */
+  async getTransactionEntries(
+    transactionId: string,
+  ): Promise<WalletLedgerEntry[]> {
+    return this.ledgerEntryModel
+      .find({ transactionId })
+      .sort({ createdAt: 1 })
+      .lean()
+      .exec();
+  }
+
+  /**
+   * Paginated wallet movements for a user, newest first
+   */
+  async getWalletHistory(
+    userId: string,
+    query: WalletHistoryQueryDto,
+  ): Promise<{
+    entries: WalletLedgerEntry[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const { page = 1, limit = 20 } = query;
+    const filter: any = {
+      userId: new Types.ObjectId(userId),
+      account: query.walletType
+        ? (query.walletType as unknown as LedgerAccount)
+        : { $in: WALLET_LEDGER_ACCOUNTS },
+    };
+
+    if (query.transactionType) {
+      filter.transactionType = query.transactionType;
+    }
+    if (query.referenceType) {
+      filter.referenceType = query.referenceType;
+    }
+    if (query.startDate || query.endDate) {
+      filter.createdAt = {};
+      if (query.startDate) {
+        filter.createdAt.$gte = new Date(query.startDate);
+      }
+      if (query.endDate) {
+        const endDate = new Date(query.endDate);
+        endDate.setUTCHours(23, 59, 59, 999);
+        filter.createdAt.$lte = endDate;
+      }
+    }
+
+    const [entries, total] = await Promise.all([
+      this.ledgerEntryModel
+        .find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.ledgerEntryModel.countDocuments(filter),
+    ]);
+
+    return {
+      entries,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Monthly statement for one wallet account with opening and closing
+   * balances derived from the ledger
+   */
+  async getMonthlyStatement(
+    userId: string,
+    year: number,
+    month: number,
+    walletType: WalletType,
+  ): Promise<WalletStatement> {
+    const account = walletType as unknown as LedgerAccount;
+    const userObjectId = new Types.ObjectId(userId);
+    const periodStart = new Date(Date.UTC(year, month - 1, 1));
+    const periodEnd = new Date(Date.UTC(year, month, 1));
+
+    const [opening] = await this.ledgerEntryModel.aggregate([
+      {
+        $match: {
+          userId: userObjectId,
+          account,
+          createdAt: { $lt: periodStart },
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          balance: {
+            $sum: {
+              $cond: [
+                { $eq: ['$direction', LedgerEntryDirection.CREDIT] },
+                '$amount',
+                { $multiply: ['$amount', -1] },
+              ],
+            },
+          },
+        },
+      },
+    ]);
+
+    const entries = await this.ledgerEntryModel
+      .find({
+        userId: userObjectId,
+        account,
+        createdAt: { $gte: periodStart, $lt: periodEnd },
+      })
+      .sort({ createdAt: 1, _id: 1 })
+      .lean()
+      .exec();
+
+    const openingBalance = this.round(opening?.balance || 0);
+    let balance = openingBalance;
+    let totalCredits = 0;
+    let totalDebits = 0;
+
+    const lines: WalletStatementLine[] = entries.map((entry) => {
+      const isCredit = entry.direction === LedgerEntryDirection.CREDIT;
+      if (isCredit) {
+        totalCredits += entry.amount;
+        balance += entry.amount;
+      } else {
+        totalDebits += entry.amount;
+        balance -= entry.amount;
+      }
+
+      return {
+        date: entry.createdAt,
+        transactionId: entry.transactionId,
+        transactionType: entry.transactionType,
+        description: entry.description,
+        referenceType: entry.referenceType,
+        referenceId: entry.referenceId,
+        credit: isCredit ? entry.amount : 0,
+        debit: isCredit ? 0 : entry.amount,
+        balance: this.round(balance),
+      };
+    });
+
+    return {
+      userId,
+      walletType,
+      currency: this.currencyFor(account),
+      periodStart,
+      periodEnd,
+      openingBalance,
+      totalCredits: this.round(totalCredits),
+      totalDebits: this.round(totalDebits),
+      closingBalance: this.round(balance),
+      lines,
+    };
+  }
+
+  /**
+   * Render a statement as CSV for download
+   */
+  statementToCsv(statement: WalletStatement): string {
+    const escape = (value: any) => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = [
+      ['Wallet', statement.walletType],
+      ['Currency', statement.currency],
+      ['Period start', statement.periodStart.toISOString()],
+      ['Period end', statement.periodEnd.toISOString()],
+      ['Opening balance', statement.openingBalance],
+      [],
+      [
+        'Date',
+        'Transaction ID',
+        'Type',
+        'Description',
+        'Reference type',
+        'Reference ID',
+        'Credit',
+        'Debit',
+        'Balance',
+      ],
+      ...statement.lines.map((line) => [
+        new Date(line.date).toISOString(),
+        line.transactionId,
+        line.transactionType,
+        line.description,
+        line.referenceType,
+        line.referenceId,
+        line.credit,
+        line.debit,
+        line.balance,
+      ]),
+      [],
+      ['Total credits', statement.totalCredits],
+      ['Total debits', statement.totalDebits],
+      ['Closing balance', statement.closingBalance],
+    ];
+
+    return rows.map((row) => row.map(escape).join(',')).join('\n');
+  }
+
+  private async recordSingleWalletMovement(
+    wallet: { _id?: any; userId: any },
+    walletType: WalletType,
+    direction: LedgerEntryDirection,
+    amount: number,
+    balanceAfter: number,
+    description: string,
+    options: LedgerPostingOptions,
+  ): Promise<string> {
+    const account = walletType as unknown as LedgerAccount;
+    const currency = this.currencyFor(account);
+    const counterDirection =
+      direction === LedgerEntryDirection.CREDIT
+        ? LedgerEntryDirection.DEBIT
+        : LedgerEntryDirection.CREDIT;
+
+    return this.postTransaction({
+      transactionType:
+        options.transactionType || LedgerTransactionType.ADMIN_ADJUSTMENT,
+      transactionId: options.transactionId,
+      reference: options.reference,
+      description,
+      createdBy: options.createdBy,
+      metadata: options.metadata,
+      session: options.session,
+      legs: [
+        {
+          account,
+          direction,
+          amount,
+          currency,
+          userId: wallet.userId?._id ?? wallet.userId,
+          walletId: wallet._id,
+          balanceAfter,
+        },
+        {
+          account: options.counterAccount || LedgerAccount.SYSTEM_ADJUSTMENT,
+          direction: counterDirection,
+          amount,
+          currency,
+        },
+      ],
+    });
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
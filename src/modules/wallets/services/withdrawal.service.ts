@@ -22,6 +22,14 @@ import {
   WithdrawalStatsDto,
 } from '../dto/withdrawal-request.dto';
 import { WALLET_CONSTANTS } from '../constants/wallet.constants';
+import { WalletLedgerService } from './wallet-ledger.service';
+import {
+  LedgerAccount,
+  LedgerCurrency,
+  LedgerEntryDirection,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../entities/wallet-ledger-entry.entity';
 
 @Injectable()
 export class WithdrawalService {
@@ -32,6 +40,7 @@ export class WithdrawalService {
     private walletModel: Model<WalletDocument>,
     @InjectModel(User.name)
     private userModel: Model<UserDocument>,
+    private readonly walletLedgerService: WalletLedgerService,
   ) {}
 
   /**
@@ -226,7 +235,7 @@ export class WithdrawalService {
 
     // If approved, process the withdrawal
     if (processDto.action === WithdrawalStatus.APPROVED) {
-      await this.executeWithdrawal(withdrawalRequest);
+      await this.executeWithdrawal(withdrawalRequest, adminId);
     }
 
     // Update request status
@@ -414,7 +423,10 @@ export class WithdrawalService {
     }
   }
 
-  private async executeWithdrawal(withdrawalRequest: WithdrawalRequest): Promise<void> {
+  private async executeWithdrawal(
+    withdrawalRequest: WithdrawalRequestDocument,
+    adminId: string,
+  ): Promise<void> {
     // Deduct Nibia from user's wallet
     const wallet = await this.walletModel.findById(withdrawalRequest.walletId);
     if (!wallet) {
@@ -430,6 +442,62 @@ export class WithdrawalService {
     wallet.foodMoney += withdrawalRequest.ngnAmount;
     wallet.lastTransactionAt = new Date();
 
-    await wallet.save();
+    // The balances and their ledger entries commit or roll back together
+    const session = await this.walletModel.db.startSession();
+    session.startTransaction();
+
+    try {
+      await wallet.save({ session });
+
+      // Nibia leaves foodPoints and the equivalent NGN lands in foodMoney,
+      // balanced per currency through the conversion account
+      await this.walletLedgerService.postTransaction({
+        transactionType: LedgerTransactionType.WITHDRAWAL,
+        reference: {
+          type: LedgerReferenceType.WITHDRAWAL,
+          id: withdrawalRequest._id.toString(),
+        },
+        description: `Nibia withdrawal of ${withdrawalRequest.nibiaAmount}`,
+        createdBy: adminId,
+        session,
+        legs: [
+          {
+            account: LedgerAccount.FOOD_POINTS,
+            direction: LedgerEntryDirection.DEBIT,
+            amount: withdrawalRequest.nibiaAmount,
+            userId: wallet.userId,
+            walletId: wallet._id as Types.ObjectId,
+            balanceAfter: wallet.foodPoints,
+          },
+          {
+            account: LedgerAccount.SYSTEM_NIBIA_CONVERSION,
+            direction: LedgerEntryDirection.CREDIT,
+            amount: withdrawalRequest.nibiaAmount,
+            currency: LedgerCurrency.NIBIA,
+          },
+          {
+            account: LedgerAccount.SYSTEM_NIBIA_CONVERSION,
+            direction: LedgerEntryDirection.DEBIT,
+            amount: withdrawalRequest.ngnAmount,
+            currency: LedgerCurrency.NGN,
+          },
+          {
+            account: LedgerAccount.FOOD_MONEY,
+            direction: LedgerEntryDirection.CREDIT,
+            amount: withdrawalRequest.ngnAmount,
+            userId: wallet.userId,
+            walletId: wallet._id as Types.ObjectId,
+            balanceAfter: wallet.foodMoney,
+          },
+        ],
+      });
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
   }
 }
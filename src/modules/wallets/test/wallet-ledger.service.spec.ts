@@ -0,0 +1,249 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { WalletLedgerService } from '../services/wallet-ledger.service';
+import {
+  WalletLedgerEntry,
+  LedgerAccount,
+  LedgerCurrency,
+  LedgerEntryDirection,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../entities/wallet-ledger-entry.entity';
+import { Wallet } from '../entities/wallet.entity';
+import { WalletType } from '../dto/update-balance.dto';
+
+describe('WalletLedgerService', () => {
+  let service: WalletLedgerService;
+  let ledgerEntryModel: any;
+  let walletModel: any;
+
+  const userId = new Types.ObjectId().toString();
+  const walletId = new Types.ObjectId();
+
+  beforeEach(async () => {
+    ledgerEntryModel = {
+      insertMany: jest.fn().mockResolvedValue([]),
+      aggregate: jest.fn().mockResolvedValue([]),
+      find: jest.fn(),
+    };
+
+    walletModel = {
+      findOne: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletLedgerService,
+        {
+          provide: getModelToken(WalletLedgerEntry.name),
+          useValue: ledgerEntryModel,
+        },
+        {
+          provide: getModelToken(Wallet.name),
+          useValue: walletModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WalletLedgerService>(WalletLedgerService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('postTransaction', () => {
+    it('should persist balanced entries under one transaction ID', async () => {
+      const transactionId = await service.postTransaction({
+        transactionType: LedgerTransactionType.TRANSFER,
+        reference: { type: LedgerReferenceType.TRANSFER, id: 'TXN_1' },
+        legs: [
+          {
+            account: LedgerAccount.FOOD_MONEY,
+            direction: LedgerEntryDirection.DEBIT,
+            amount: 100,
+            userId,
+          },
+          {
+            account: LedgerAccount.FOOD_MONEY,
+            direction: LedgerEntryDirection.CREDIT,
+            amount: 100,
+            userId: new Types.ObjectId().toString(),
+          },
+        ],
+      });
+
+      const [entries] = ledgerEntryModel.insertMany.mock.calls[0];
+      expect(entries).toHaveLength(2);
+      expect(entries.every((e) => e.transactionId === transactionId)).toBe(
+        true,
+      );
+      expect(entries[0].currency).toBe(LedgerCurrency.NGN);
+      expect(entries[0].referenceId).toBe('TXN_1');
+    });
+
+    it('should reject unbalanced transactions', async () => {
+      await expect(
+        service.postTransaction({
+          transactionType: LedgerTransactionType.ADMIN_ADJUSTMENT,
+          legs: [
+            {
+              account: LedgerAccount.FOOD_MONEY,
+              direction: LedgerEntryDirection.CREDIT,
+              amount: 100,
+              userId,
+            },
+            {
+              account: LedgerAccount.SYSTEM_ADJUSTMENT,
+              direction: LedgerEntryDirection.DEBIT,
+              amount: 90,
+            },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(ledgerEntryModel.insertMany).not.toHaveBeenCalled();
+    });
+
+    it('should balance each currency separately', async () => {
+      await expect(
+        service.postTransaction({
+          transactionType: LedgerTransactionType.WITHDRAWAL,
+          legs: [
+            {
+              account: LedgerAccount.FOOD_POINTS,
+              direction: LedgerEntryDirection.DEBIT,
+              amount: 50,
+              userId,
+            },
+            {
+              account: LedgerAccount.FOOD_MONEY,
+              direction: LedgerEntryDirection.CREDIT,
+              amount: 50,
+              userId,
+            },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should require a user on wallet accounts', async () => {
+      await expect(
+        service.postTransaction({
+          transactionType: LedgerTransactionType.FUNDING,
+          legs: [
+            {
+              account: LedgerAccount.FOOD_MONEY,
+              direction: LedgerEntryDirection.CREDIT,
+              amount: 10,
+            },
+            {
+              account: LedgerAccount.SYSTEM_FUNDING,
+              direction: LedgerEntryDirection.DEBIT,
+              amount: 10,
+            },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('recordWalletCredit', () => {
+    it('should post the counter entry in the wallet currency', async () => {
+      await service.recordWalletCredit(
+        { _id: walletId, userId },
+        WalletType.FOOD_POINTS,
+        25,
+        125,
+        'Profit pool distribution',
+        { counterAccount: LedgerAccount.SYSTEM_REWARDS },
+      );
+
+      const [entries] = ledgerEntryModel.insertMany.mock.calls[0];
+      expect(entries[0]).toMatchObject({
+        account: LedgerAccount.FOOD_POINTS,
+        direction: LedgerEntryDirection.CREDIT,
+        currency: LedgerCurrency.NIBIA,
+        balanceAfter: 125,
+      });
+      expect(entries[1]).toMatchObject({
+        account: LedgerAccount.SYSTEM_REWARDS,
+        direction: LedgerEntryDirection.DEBIT,
+        currency: LedgerCurrency.NIBIA,
+      });
+    });
+  });
+
+  describe('reconcileWallet', () => {
+    it('should report differences between stored and derived balances', async () => {
+      walletModel.findOne.mockReturnValue({
+        lean: jest.fn().mockResolvedValue({
+          foodMoney: 1000,
+          foodPoints: 40,
+          foodSafe: 0,
+        }),
+      });
+      ledgerEntryModel.aggregate.mockResolvedValue([
+        { _id: 'foodMoney', balance: 900 },
+        { _id: 'foodPoints', balance: 40 },
+      ]);
+
+      const result = await service.reconcileWallet(userId);
+
+      expect(result.balanced).toBe(false);
+      expect(result.accounts.foodMoney).toEqual({
+        stored: 1000,
+        derived: 900,
+        difference: 100,
+      });
+      expect(result.accounts.foodPoints.difference).toBe(0);
+    });
+  });
+
+  describe('getMonthlyStatement', () => {
+    it('should roll the opening balance forward through the month', async () => {
+      ledgerEntryModel.aggregate.mockResolvedValue([
+        { _id: null, balance: 500 },
+      ]);
+      ledgerEntryModel.find.mockReturnValue({
+        sort: jest.fn().mockReturnValue({
+          lean: jest.fn().mockReturnValue({
+            exec: jest.fn().mockResolvedValue([
+              {
+                transactionId: 'TXN_1',
+                transactionType: LedgerTransactionType.FUNDING,
+                direction: LedgerEntryDirection.CREDIT,
+                amount: 200,
+                createdAt: new Date('2024-06-03'),
+              },
+              {
+                transactionId: 'TXN_2',
+                transactionType: LedgerTransactionType.ORDER_PAYMENT,
+                direction: LedgerEntryDirection.DEBIT,
+                amount: 150,
+                createdAt: new Date('2024-06-10'),
+              },
+            ]),
+          }),
+        }),
+      });
+
+      const statement = await service.getMonthlyStatement(
+        userId,
+        2024,
+        6,
+        WalletType.FOOD_MONEY,
+      );
+
+      expect(statement.periodStart.toISOString()).toBe(
+        '2024-06-01T00:00:00.000Z',
+      );
+      expect(statement.openingBalance).toBe(500);
+      expect(statement.totalCredits).toBe(200);
+      expect(statement.totalDebits).toBe(150);
+      expect(statement.closingBalance).toBe(550);
+      expect(statement.lines.map((line) => line.balance)).toEqual([700, 550]);
+    });
+  });
+});
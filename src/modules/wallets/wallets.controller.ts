@@ -5,6 +5,8 @@ import {
   Body,
   Patch,
   Param,
+  Query,
+  Res,
   UseGuards,
   UseInterceptors,
   UsePipes,
@@ -17,19 +19,24 @@ import {
   ApiResponse,
   ApiParam,
   ApiBearerAuth,
+  ApiProduces,
 } from '@nestjs/swagger';
+import { Response } from 'express';
 import { WalletsService } from './wallets.service';
 import {
   UpdateBalanceDto,
   TransferFundsDto,
   LockFundsDto,
   UnlockFundsDto,
+  WalletHistoryQueryDto,
+  WalletStatementQueryDto,
 } from './dto';
 import { JwtAuthGuard, RolesGuard } from '../auth/guards';
 import { Roles, CurrentUser } from '../auth/decorators';
 import { UserRole } from '../users/entities/user.entity';
 import { Wallet } from '../wallets/entities/wallet.entity';
 import { WalletAuditInterceptor } from './interceptors/wallet-audit.interceptor';
+import { Idempotent } from '../idempotency/decorators/idempotent.decorator';
 import { AdminTwoFactorGuard, RequireAdminTwoFactor } from './guards/admin-2fa.guard';
 import { BalanceValidationPipe, TransferValidationPipe } from './pipes/wallet-validation.pipes';
 
@@ -66,6 +73,74 @@ export class WalletsController {
     return this.walletsService.getWalletBalance(userId);
   }
 
+  @Get('my-wallet/transactions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Get current user wallet transaction history',
+    description:
+      'Paginated ledger movements across Food Money, Food Points (Nibia) and FoodSafe, including order payments, auction holds and refunds, commissions, profit-pool credits and withdrawals',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Transaction history retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        entries: { type: 'array', items: { type: 'object' } },
+        total: { type: 'number', example: 42 },
+        page: { type: 'number', example: 1 },
+        limit: { type: 'number', example: 20 },
+        totalPages: { type: 'number', example: 3 },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getMyTransactions(
+    @CurrentUser() user: any,
+    @Query() query: WalletHistoryQueryDto,
+  ) {
+    const userId = user.id || user._id?.toString();
+    return this.walletsService.getTransactionHistory(userId, query);
+  }
+
+  @Get('my-wallet/statements')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Get monthly wallet statement',
+    description:
+      'Statement with opening and closing balances for one wallet; use format=csv to download',
+  })
+  @ApiProduces('application/json', 'text/csv')
+  @ApiResponse({ status: 200, description: 'Statement generated successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getMyStatement(
+    @CurrentUser() user: any,
+    @Query() query: WalletStatementQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const userId = user.id || user._id?.toString();
+    const statement = await this.walletsService.getMonthlyStatement(
+      userId,
+      query.year,
+      query.month,
+      query.walletType,
+    );
+
+    if (query.format === 'csv') {
+      const month = String(query.month).padStart(2, '0');
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="statement-${query.walletType}-${query.year}-${month}.csv"`,
+      );
+      return this.walletsService.statementToCsv(statement);
+    }
+
+    return statement;
+  }
+
   @Post('create')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
@@ -84,6 +159,7 @@ export class WalletsController {
   }
 
   @Post('transfer')
+  @Idempotent()
   @UseGuards(JwtAuthGuard)
   @UsePipes(TransferValidationPipe)
   @ApiBearerAuth('JWT-auth')
@@ -227,6 +303,35 @@ export class WalletsController {
     return this.walletsService.getWalletByUserId(userId);
   }
 
+  @Get('admin/user/:userId/reconcile')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Check wallet balances against the ledger (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Reconciliation result per wallet account',
+    schema: {
+      type: 'object',
+      properties: {
+        userId: { type: 'string' },
+        balanced: { type: 'boolean', example: true },
+        accounts: {
+          type: 'object',
+          example: {
+            foodMoney: { stored: 5000, derived: 5000, difference: 0 },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  async reconcileWallet(@Param('userId') userId: string) {
+    return this.walletsService.reconcileWallet(userId);
+  }
+
   @Get('admin/:walletId')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
@@ -286,7 +391,9 @@ export class WalletsController {
     @Body() updateBalanceDto: UpdateBalanceDto,
     @CurrentUser() admin: any,
   ) {
-    return this.walletsService.updateBalance(userId, updateBalanceDto);
+    return this.walletsService.updateBalance(userId, updateBalanceDto, {
+      createdBy: admin.id || admin._id?.toString(),
+    });
   }
 
   @Patch('admin/:walletId/status')
@@ -4,15 +4,18 @@ import { CacheModule } from '@nestjs/cache-manager';
 import { EventEmitterModule } from '@nestjs/event-emitter';
 import { Wallet, WalletSchema } from '../wallets/entities/wallet.entity';
 import { WithdrawalRequest, WithdrawalRequestSchema } from './entities/withdrawal-request.entity';
+import { WalletLedgerEntry, WalletLedgerEntrySchema } from './entities/wallet-ledger-entry.entity';
 import { User, UserSchema } from '../users/entities/user.entity';
 import { WalletsController } from './wallets.controller';
 import { WithdrawalController } from './controllers/withdrawal.controller';
 import { WalletsService } from './wallets.service';
 import { WithdrawalService } from './services/withdrawal.service';
 import { WalletCacheService } from './services/wallet-cache.service';
+import { WalletLedgerService } from './services/wallet-ledger.service';
 import { WalletEventListener } from './listeners/wallet-event.listener';
 import { WalletAuditInterceptor } from './interceptors/wallet-audit.interceptor';
 import { AdminTwoFactorGuard } from './guards/admin-2fa.guard';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
 import { BalanceValidationPipe, WithdrawalValidationPipe, TransferValidationPipe } from './pipes/wallet-validation.pipes';
 
 @Module({
@@ -20,6 +23,7 @@ import { BalanceValidationPipe, WithdrawalValidationPipe, TransferValidationPipe
     MongooseModule.forFeature([
       { name: Wallet.name, schema: WalletSchema },
       { name: WithdrawalRequest.name, schema: WithdrawalRequestSchema },
+      { name: WalletLedgerEntry.name, schema: WalletLedgerEntrySchema },
       { name: User.name, schema: UserSchema },
     ]),
     CacheModule.register({
@@ -27,12 +31,14 @@ import { BalanceValidationPipe, WithdrawalValidationPipe, TransferValidationPipe
       max: 1000, // Maximum number of items in cache
     }),
     EventEmitterModule,
+    IdempotencyModule,
   ],
   controllers: [WalletsController, WithdrawalController],
   providers: [
     WalletsService,
     WithdrawalService,
     WalletCacheService,
+    WalletLedgerService,
     WalletEventListener,
     WalletAuditInterceptor,
     AdminTwoFactorGuard,
@@ -44,6 +50,7 @@ import { BalanceValidationPipe, WithdrawalValidationPipe, TransferValidationPipe
     WalletsService,
     WithdrawalService,
     WalletCacheService,
+    WalletLedgerService,
     WalletAuditInterceptor,
     AdminTwoFactorGuard,
     BalanceValidationPipe,
@@ -5,10 +5,20 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
+import { ClientSession, Model, Types } from 'mongoose';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Wallet, WalletDocument } from '../wallets/entities/wallet.entity';
 import { WalletCacheService } from './services/wallet-cache.service';
+import {
+  WalletLedgerService,
+  LedgerPostingOptions,
+} from './services/wallet-ledger.service';
+import {
+  LedgerAccount,
+  LedgerEntryDirection,
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from './entities/wallet-ledger-entry.entity';
 import { WalletCreatedEvent, WalletBalanceUpdatedEvent, WalletStatusChangedEvent } from './events/wallet.events';
 import {
   UpdateBalanceDto,
@@ -17,13 +27,26 @@ import {
   UnlockFundsDto,
   TransactionType,
   WalletType,
+  WalletHistoryQueryDto,
 } from './dto';
+import { WalletStatement } from './interfaces';
+
+/**
+ * One balance movement applied by {@link WalletsService.chargeWallets}
+ */
+export interface WalletCharge {
+  walletType: WalletType;
+  amount: number;
+  description: string;
+  ledgerOptions?: LedgerPostingOptions;
+}
 
 @Injectable()
 export class WalletsService {
   constructor(
     @InjectModel(Wallet.name) private walletModel: Model<WalletDocument>,
     private readonly walletCacheService: WalletCacheService,
+    private readonly walletLedgerService: WalletLedgerService,
     private readonly eventEmitter: EventEmitter2,
   ) {}
 
@@ -142,10 +165,13 @@ export class WalletsService {
     }
   }
 
-  // Update wallet balance (Admin only) with caching and events
+  // Update wallet balance with caching, events and a ledger posting.
+  // Callers crediting or debiting for a business reason (commission, refund,
+  // profit pool...) pass ledgerOptions so the entry points at its source.
   async updateBalance(
     userId: string,
     updateBalanceDto: UpdateBalanceDto,
+    ledgerOptions: LedgerPostingOptions = {},
   ): Promise<Wallet> {
     const wallet = await this.getWalletByUserId(userId);
 
@@ -153,7 +179,8 @@ export class WalletsService {
       throw new ForbiddenException('Wallet is not active');
     }
 
-    const { amount, walletType, transactionType } = updateBalanceDto;
+    const { amount, walletType, transactionType, description, reference } =
+      updateBalanceDto;
     
     // Store old balance for event emission
     const oldBalance = wallet[walletType];
@@ -176,7 +203,9 @@ export class WalletsService {
     }
 
     // Generate transaction ID
-    const transactionId = `TXN_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const transactionId =
+      ledgerOptions.transactionId ||
+      this.walletLedgerService.generateTransactionId();
 
     // Update the wallet
     const updateData = {
@@ -184,17 +213,54 @@ export class WalletsService {
       lastTransactionAt: new Date(),
     };
 
-    const updatedWallet = await this.walletModel
-      .findOneAndUpdate(
-        { userId: new Types.ObjectId(userId) },
-        updateData,
-        { new: true },
-      )
-      .exec();
+    // Ledger posting for the movement
+    const ledgerDescription =
+      description || `Admin balance update: ${transactionType} ${amount}`;
+    const postingOptions: LedgerPostingOptions = {
+      reference: reference
+        ? { type: LedgerReferenceType.ADMIN, id: reference }
+        : undefined,
+      ...ledgerOptions,
+      transactionId,
+    };
 
-    if (!updatedWallet) {
-      throw new NotFoundException('Failed to update wallet');
-    }
+    // The balance and its ledger entry commit together, inside the caller's
+    // transaction when one is passed in
+    const updatedWallet = await this.runInTransaction(async (session) => {
+      const saved = await this.walletModel
+        .findOneAndUpdate(
+          { userId: new Types.ObjectId(userId) },
+          updateData,
+          { new: true },
+        )
+        .session(session);
+
+      if (!saved) {
+        throw new NotFoundException('Failed to update wallet');
+      }
+
+      if (transactionType === TransactionType.CREDIT) {
+        await this.walletLedgerService.recordWalletCredit(
+          saved,
+          walletType,
+          amount,
+          newBalance,
+          ledgerDescription,
+          { ...postingOptions, session },
+        );
+      } else {
+        await this.walletLedgerService.recordWalletDebit(
+          saved,
+          walletType,
+          amount,
+          newBalance,
+          ledgerDescription,
+          { ...postingOptions, session },
+        );
+      }
+
+      return saved;
+    }, ledgerOptions.session);
 
     // Update cache
     await this.walletCacheService.updateBalance(
@@ -253,38 +319,69 @@ export class WalletsService {
     }
 
     // Perform transfer
+    const transactionId = this.walletLedgerService.generateTransactionId();
     const session = await this.walletModel.db.startSession();
     session.startTransaction();
 
     try {
       // Debit from sender
-      await this.walletModel
+      const updatedFromWallet = await this.walletModel
         .findOneAndUpdate(
           { userId: new Types.ObjectId(fromUserId) },
           {
             $inc: { foodMoney: -amount },
             lastTransactionAt: new Date(),
           },
+          { new: true },
         )
         .session(session);
 
       // Credit to recipient
-      await this.walletModel
+      const updatedToWallet = await this.walletModel
         .findOneAndUpdate(
           { userId: new Types.ObjectId(toUserId) },
           {
             $inc: { foodMoney: amount },
             lastTransactionAt: new Date(),
           },
+          { new: true },
         )
         .session(session);
 
+      // Ledger entries commit or roll back with the balances
+      await this.walletLedgerService.postTransaction({
+        transactionId,
+        transactionType: LedgerTransactionType.TRANSFER,
+        reference: { type: LedgerReferenceType.TRANSFER, id: transactionId },
+        description: description || 'Food money transfer',
+        createdBy: fromUserId,
+        session,
+        legs: [
+          {
+            account: LedgerAccount.FOOD_MONEY,
+            direction: LedgerEntryDirection.DEBIT,
+            amount,
+            userId: fromUserId,
+            walletId: updatedFromWallet._id as Types.ObjectId,
+            balanceAfter: updatedFromWallet.foodMoney,
+          },
+          {
+            account: LedgerAccount.FOOD_MONEY,
+            direction: LedgerEntryDirection.CREDIT,
+            amount,
+            userId: toUserId,
+            walletId: updatedToWallet._id as Types.ObjectId,
+            balanceAfter: updatedToWallet.foodMoney,
+          },
+        ],
+      });
+
       await session.commitTransaction();
 
       return {
         success: true,
         message: `Successfully transferred ₦${amount} to recipient`,
-        transactionId: `TXN_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        transactionId,
       };
     } catch (error) {
       await session.abortTransaction();
@@ -313,19 +410,29 @@ export class WalletsService {
     }
 
     // Move funds from foodMoney to foodSafe
-    await this.walletModel
-      .findOneAndUpdate(
-        { userId: new Types.ObjectId(userId) },
-        {
-          $inc: { 
-            foodMoney: -amount, 
-            foodSafe: amount 
+    await this.runInTransaction(async (session) => {
+      const updatedWallet = await this.walletModel
+        .findOneAndUpdate(
+          { userId: new Types.ObjectId(userId) },
+          {
+            $inc: {
+              foodMoney: -amount,
+              foodSafe: amount,
+            },
+            lastTransactionAt: new Date(),
           },
-          lastTransactionAt: new Date(),
-        },
-        { new: true },
-      )
-      .exec();
+          { new: true },
+        )
+        .session(session);
+
+      await this.recordSafeMovement(
+        updatedWallet,
+        LedgerTransactionType.LOCK,
+        amount,
+        reason || 'Funds locked in food safe',
+        session,
+      );
+    });
 
     return {
       success: true,
@@ -352,19 +459,29 @@ export class WalletsService {
     }
 
     // Move funds from foodSafe to foodMoney
-    await this.walletModel
-      .findOneAndUpdate(
-        { userId: new Types.ObjectId(userId) },
-        {
-          $inc: { 
-            foodSafe: -amount, 
-            foodMoney: amount 
+    await this.runInTransaction(async (session) => {
+      const updatedWallet = await this.walletModel
+        .findOneAndUpdate(
+          { userId: new Types.ObjectId(userId) },
+          {
+            $inc: {
+              foodSafe: -amount,
+              foodMoney: amount,
+            },
+            lastTransactionAt: new Date(),
           },
-          lastTransactionAt: new Date(),
-        },
-        { new: true },
-      )
-      .exec();
+          { new: true },
+        )
+        .session(session);
+
+      await this.recordSafeMovement(
+        updatedWallet,
+        LedgerTransactionType.UNLOCK,
+        amount,
+        reason || 'Funds unlocked from food safe',
+        session,
+      );
+    });
 
     return {
       success: true,
@@ -372,6 +489,36 @@ export class WalletsService {
     };
   }
 
+  // Ledger-backed transaction history for a user
+  async getTransactionHistory(userId: string, query: WalletHistoryQueryDto) {
+    return this.walletLedgerService.getWalletHistory(userId, query);
+  }
+
+  // Monthly statement with opening and closing balances
+  async getMonthlyStatement(
+    userId: string,
+    year: number,
+    month: number,
+    walletType: WalletType = WalletType.FOOD_MONEY,
+  ): Promise<WalletStatement> {
+    await this.getWalletByUserId(userId);
+    return this.walletLedgerService.getMonthlyStatement(
+      userId,
+      year,
+      month,
+      walletType,
+    );
+  }
+
+  statementToCsv(statement: WalletStatement): string {
+    return this.walletLedgerService.statementToCsv(statement);
+  }
+
+  // Reconcile stored balances against the ledger
+  async reconcileWallet(userId: string) {
+    return this.walletLedgerService.reconcileWallet(userId);
+  }
+
   // Admin functions
   async getAllWallets(): Promise<Wallet[]> {
     return this.walletModel
@@ -499,4 +646,283 @@ export class WalletsService {
     const wallet = await this.walletModel.findOne({ userId: new Types.ObjectId(userId) });
     return wallet?.nibiaWithdrawEnabled || false;
   }
+
+  /**
+   * Debit a wallet for a payment. The balance check and the decrement are a
+   * single conditional update, so concurrent payments cannot overdraw it.
+   */
+  async chargeWallet(
+    userId: string,
+    walletType: WalletType,
+    amount: number,
+    description: string,
+    ledgerOptions: LedgerPostingOptions = {},
+  ): Promise<{ wallet: WalletDocument; transactionId: string }> {
+    const { wallet, transactionIds } = await this.applyAtomicMovements(
+      userId,
+      TransactionType.DEBIT,
+      [{ walletType, amount, description, ledgerOptions }],
+    );
+    return { wallet, transactionId: transactionIds[0] };
+  }
+
+  /**
+   * Debit several wallet balances in one update, e.g. Nibia and Food Money
+   * for the same order. Either every charge is applied or none is; each
+   * charge gets its own ledger transaction so it can be refunded alone.
+   */
+  async chargeWallets(
+    userId: string,
+    charges: WalletCharge[],
+  ): Promise<{ wallet: WalletDocument; transactionIds: string[] }> {
+    return this.applyAtomicMovements(userId, TransactionType.DEBIT, charges);
+  }
+
+  /**
+   * Credit a refund back to a wallet
+   */
+  async refundToWallet(
+    userId: string,
+    walletType: WalletType,
+    amount: number,
+    description: string,
+    ledgerOptions: LedgerPostingOptions = {},
+  ): Promise<{ wallet: WalletDocument; transactionId: string }> {
+    const { wallet, transactionIds } = await this.applyAtomicMovements(
+      userId,
+      TransactionType.CREDIT,
+      [{ walletType, amount, description, ledgerOptions }],
+    );
+    return { wallet, transactionId: transactionIds[0] };
+  }
+
+  /**
+   * Credit earnings to a wallet, e.g. a seller payout
+   */
+  async creditWallet(
+    userId: string,
+    walletType: WalletType,
+    amount: number,
+    description: string,
+    ledgerOptions: LedgerPostingOptions = {},
+  ): Promise<{ wallet: WalletDocument; transactionId: string }> {
+    const { wallet, transactionIds } = await this.applyAtomicMovements(
+      userId,
+      TransactionType.CREDIT,
+      [{ walletType, amount, description, ledgerOptions }],
+    );
+    return { wallet, transactionId: transactionIds[0] };
+  }
+
+  private async applyAtomicMovements(
+    userId: string,
+    transactionType: TransactionType,
+    movements: WalletCharge[],
+  ): Promise<{ wallet: WalletDocument; transactionIds: string[] }> {
+    if (movements.length === 0) {
+      throw new BadRequestException('At least one wallet movement is required');
+    }
+
+    const isDebit = transactionType === TransactionType.DEBIT;
+
+    // The same balance may appear more than once; check and apply the total
+    const totals = new Map<WalletType, number>();
+    for (const movement of movements) {
+      if (movement.amount <= 0) {
+        throw new BadRequestException('Amount must be greater than zero');
+      }
+      totals.set(
+        movement.walletType,
+        (totals.get(movement.walletType) || 0) + movement.amount,
+      );
+    }
+
+    const transactionIds = movements.map(
+      (movement) =>
+        movement.ledgerOptions?.transactionId ||
+        this.walletLedgerService.generateTransactionId(),
+    );
+
+    const filter: Record<string, any> = {
+      userId: new Types.ObjectId(userId),
+      status: 'active',
+    };
+    const increments: Record<string, number> = {};
+    for (const [walletType, total] of totals) {
+      if (isDebit) {
+        filter[walletType] = { $gte: total };
+      }
+      increments[walletType] = isDebit ? -total : total;
+    }
+
+    const session = await this.walletModel.db.startSession();
+    session.startTransaction();
+
+    let wallet: WalletDocument;
+    try {
+      wallet = await this.walletModel
+        .findOneAndUpdate(
+          filter,
+          {
+            $inc: increments,
+            lastTransactionAt: new Date(),
+          },
+          { new: true },
+        )
+        .session(session);
+
+      if (!wallet) {
+        const current = await this.getWalletByUserId(userId);
+        if (current.status !== 'active') {
+          throw new ForbiddenException('Wallet is not active');
+        }
+        const [walletType, total] = [...totals].find(
+          ([type, amount]) => current[type] < amount,
+        ) || [...totals][0];
+        throw new BadRequestException(
+          `Insufficient ${walletType} balance. Available: ${current[walletType]}, Requested: ${total}`,
+        );
+      }
+
+      // Replay the movements in order so each entry carries its running balance
+      const runningBalances = new Map<WalletType, number>();
+      for (const [walletType, total] of totals) {
+        runningBalances.set(
+          walletType,
+          wallet[walletType] + (isDebit ? total : -total),
+        );
+      }
+
+      for (const [index, movement] of movements.entries()) {
+        const balanceAfter =
+          runningBalances.get(movement.walletType) +
+          (isDebit ? -movement.amount : movement.amount);
+        runningBalances.set(movement.walletType, balanceAfter);
+
+        const postingOptions: LedgerPostingOptions = {
+          ...movement.ledgerOptions,
+          transactionId: transactionIds[index],
+          session,
+        };
+
+        if (isDebit) {
+          await this.walletLedgerService.recordWalletDebit(
+            wallet,
+            movement.walletType,
+            movement.amount,
+            balanceAfter,
+            movement.description,
+            postingOptions,
+          );
+        } else {
+          await this.walletLedgerService.recordWalletCredit(
+            wallet,
+            movement.walletType,
+            movement.amount,
+            balanceAfter,
+            movement.description,
+            postingOptions,
+          );
+        }
+      }
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    for (const [walletType, total] of totals) {
+      const index = movements.findIndex((m) => m.walletType === walletType);
+      const { description } = movements[index];
+      const newBalance = wallet[walletType];
+      const oldBalance = isDebit ? newBalance + total : newBalance - total;
+
+      await this.walletCacheService.updateBalance(
+        userId,
+        walletType,
+        newBalance,
+        transactionIds[index],
+        description,
+      );
+
+      this.eventEmitter.emit(
+        'wallet.balance.updated',
+        new WalletBalanceUpdatedEvent(
+          userId,
+          walletType,
+          oldBalance,
+          newBalance,
+          transactionIds[index],
+          description,
+        ),
+      );
+    }
+
+    return { wallet, transactionIds };
+  }
+
+  // Ledger posting for moves between foodMoney and foodSafe
+  private async recordSafeMovement(
+    wallet: WalletDocument,
+    transactionType: LedgerTransactionType.LOCK | LedgerTransactionType.UNLOCK,
+    amount: number,
+    description: string,
+    session: ClientSession,
+  ): Promise<void> {
+    const [from, to] =
+      transactionType === LedgerTransactionType.LOCK
+        ? [LedgerAccount.FOOD_MONEY, LedgerAccount.FOOD_SAFE]
+        : [LedgerAccount.FOOD_SAFE, LedgerAccount.FOOD_MONEY];
+
+    await this.walletLedgerService.postTransaction({
+      transactionType,
+      description,
+      createdBy: wallet.userId.toString(),
+      session,
+      legs: [
+        {
+          account: from,
+          direction: LedgerEntryDirection.DEBIT,
+          amount,
+          userId: wallet.userId,
+          walletId: wallet._id as Types.ObjectId,
+          balanceAfter: wallet[from],
+        },
+        {
+          account: to,
+          direction: LedgerEntryDirection.CREDIT,
+          amount,
+          userId: wallet.userId,
+          walletId: wallet._id as Types.ObjectId,
+          balanceAfter: wallet[to],
+        },
+      ],
+    });
+  }
+
+  // Run work in a transaction of its own, or in the caller's when given one
+  private async runInTransaction<T>(
+    work: (session: ClientSession) => Promise<T>,
+    callerSession?: ClientSession,
+  ): Promise<T> {
+    if (callerSession) {
+      return work(callerSession);
+    }
+
+    const session = await this.walletModel.db.startSession();
+    session.startTransaction();
+    try {
+      const result = await work(session);
+      await session.commitTransaction();
+      return result;
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
 }